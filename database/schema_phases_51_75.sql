@@ -0,0 +1,1215 @@
+-- ============================================================================
+-- Sommer's Proposal System - Database Schema
+-- Phases 51-75: Operations, Automation & Payments Tables
+-- ============================================================================
+
+-- ============================================================================
+-- PHASE 51: PROPOSAL REVISIONS
+-- ============================================================================
+
+-- Proposal Revisions (immutable snapshots taken before a sent proposal changes)
+CREATE TABLE IF NOT EXISTS proposal_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  proposal_id UUID NOT NULL REFERENCES proposals(id) ON DELETE CASCADE,
+  version INT NOT NULL,
+  snapshot JSONB NOT NULL,
+  change_summary TEXT,
+  created_by UUID REFERENCES team_members(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_proposal_revisions_org ON proposal_revisions(org_id);
+
+-- One revision per version, so concurrent saves can't both claim a number
+DROP INDEX IF EXISTS idx_proposal_revisions_proposal;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_proposal_revisions_version ON proposal_revisions(proposal_id, version DESC);
+
+-- Revisions are append-only
+CREATE OR REPLACE FUNCTION prevent_proposal_revision_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'proposal_revisions rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS proposal_revisions_immutable ON proposal_revisions;
+CREATE TRIGGER proposal_revisions_immutable
+  BEFORE UPDATE ON proposal_revisions
+  FOR EACH ROW EXECUTE FUNCTION prevent_proposal_revision_update();
+
+ALTER TABLE proposal_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "org_isolation_proposal_revisions" ON proposal_revisions;
+CREATE POLICY "org_isolation_proposal_revisions" ON proposal_revisions
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+-- Swap a proposal's line items in one transaction, so a failed insert
+-- never leaves the proposal without any
+CREATE OR REPLACE FUNCTION replace_proposal_line_items(
+  p_proposal_id UUID,
+  p_items JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM proposal_line_items WHERE proposal_id = p_proposal_id;
+
+  INSERT INTO proposal_line_items (
+    id, proposal_id, service_id, name, description, quantity, unit, unit_price, total, tier, position
+  )
+  SELECT COALESCE(item.id, gen_random_uuid()), p_proposal_id, item.service_id, item.name, item.description,
+         item.quantity, item.unit, item.unit_price, item.total, item.tier, item.position
+  FROM jsonb_populate_recordset(NULL::proposal_line_items, COALESCE(p_items, '[]'::jsonb)) AS item;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Swap a proposal's blocks in one transaction the same way. All blocks go
+-- in with one INSERT, and parent_id references are checked when it ends,
+-- so nesting of any depth restores in any order.
+CREATE OR REPLACE FUNCTION replace_proposal_blocks(
+  p_proposal_id UUID,
+  p_blocks JSONB
+)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM proposal_blocks WHERE proposal_id = p_proposal_id;
+
+  INSERT INTO proposal_blocks (id, proposal_id, block_code, props, sort_order, parent_id, column_index)
+  SELECT COALESCE(block.id, gen_random_uuid()), p_proposal_id, block.block_code, block.props,
+         block.sort_order, block.parent_id, block.column_index
+  FROM jsonb_populate_recordset(NULL::proposal_blocks, COALESCE(p_blocks, '[]'::jsonb)) AS block;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- PHASE 52: SITE MEASUREMENT GEOMETRY
+-- ============================================================================
+
+-- Drawn site geometry (GeoJSON FeatureCollection with a basemap member)
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS site_geometry JSONB;
+
+-- ============================================================================
+-- PHASE 53: WEATHER RESCHEDULING
+-- ============================================================================
+
+-- How the daily weather check handles unworkable days: 'propose' or 'apply'
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS weather_reschedule_mode TEXT NOT NULL DEFAULT 'propose';
+
+-- Job Reschedule Suggestions (moves and holds from the daily weather check)
+CREATE TABLE IF NOT EXISTS job_reschedule_suggestions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  action TEXT NOT NULL, -- move, hold
+  original_date DATE NOT NULL,
+  proposed_date DATE,
+  reason TEXT NOT NULL,
+  status TEXT DEFAULT 'proposed', -- proposed, applied, accepted, dismissed, expired
+  resolved_by UUID REFERENCES team_members(id),
+  resolved_at TIMESTAMPTZ,
+  notified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_reschedule_suggestions_org ON job_reschedule_suggestions(org_id, status);
+CREATE INDEX IF NOT EXISTS idx_job_reschedule_suggestions_job ON job_reschedule_suggestions(job_id);
+
+ALTER TABLE job_reschedule_suggestions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "org_isolation_job_reschedule_suggestions" ON job_reschedule_suggestions;
+CREATE POLICY "org_isolation_job_reschedule_suggestions" ON job_reschedule_suggestions
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+-- ============================================================================
+-- PHASE 54: DISPATCH PLANNING
+-- ============================================================================
+
+-- Where each crew starts and ends its day
+ALTER TABLE crews ADD COLUMN IF NOT EXISTS base_latitude DECIMAL(10,8);
+ALTER TABLE crews ADD COLUMN IF NOT EXISTS base_longitude DECIMAL(11,8);
+
+-- Route Distance Cache (road distances between rounded coordinates)
+CREATE TABLE IF NOT EXISTS route_distance_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  origin_key TEXT NOT NULL, -- "lat,lon" at 3 decimals
+  destination_key TEXT NOT NULL,
+  distance_miles DECIMAL(8, 2) NOT NULL,
+  duration_minutes DECIMAL(8, 2) NOT NULL,
+  source TEXT, -- routing provider
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(org_id, origin_key, destination_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_route_distance_cache_org ON route_distance_cache(org_id);
+
+ALTER TABLE route_distance_cache ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "org_isolation_route_distance_cache" ON route_distance_cache;
+CREATE POLICY "org_isolation_route_distance_cache" ON route_distance_cache
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+-- ============================================================================
+-- PHASE 55: INVENTORY RESERVATIONS & PURCHASE ORDERS
+-- ============================================================================
+
+ALTER TABLE material_products ADD COLUMN IF NOT EXISTS reorder_quantity DECIMAL(12,2);
+
+-- Stock Movements (purchases, job usage, adjustments)
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  material_id UUID NOT NULL REFERENCES material_products(id) ON DELETE CASCADE,
+  movement_type TEXT NOT NULL, -- purchase, usage, adjustment, return
+  quantity DECIMAL(12,2) NOT NULL,
+  unit_cost DECIMAL(12,2),
+  job_id UUID REFERENCES jobs(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_by UUID REFERENCES team_members(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Tables created before movements carried their org take it from the material
+ALTER TABLE stock_movements ADD COLUMN IF NOT EXISTS org_id UUID REFERENCES organizations(id) ON DELETE CASCADE;
+UPDATE stock_movements s SET org_id = m.org_id
+  FROM material_products m
+  WHERE s.material_id = m.id AND s.org_id IS NULL;
+ALTER TABLE stock_movements ALTER COLUMN org_id SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_material ON stock_movements(material_id, created_at DESC);
+
+-- Material Reservations (estimated materials held for scheduled jobs)
+CREATE TABLE IF NOT EXISTS material_reservations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  material_id UUID NOT NULL REFERENCES material_products(id) ON DELETE CASCADE,
+  quantity DECIMAL(12,2) NOT NULL,
+  status TEXT DEFAULT 'reserved', -- reserved, consumed, released
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_material_reservations_org ON material_reservations(org_id, status);
+CREATE INDEX IF NOT EXISTS idx_material_reservations_job ON material_reservations(job_id);
+
+-- Consume a completed job's open reservations in one transaction: each is
+-- marked consumed, its stock decremented in place and a usage movement
+-- logged. A second call finds nothing left to consume.
+CREATE OR REPLACE FUNCTION consume_job_materials(
+  p_job_id UUID,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  reservation RECORD;
+  consumed INTEGER := 0;
+BEGIN
+  FOR reservation IN
+    UPDATE material_reservations
+    SET status = 'consumed', updated_at = NOW()
+    WHERE job_id = p_job_id AND status = 'reserved'
+    RETURNING org_id, material_id, quantity
+  LOOP
+    UPDATE material_products
+    SET current_stock = current_stock - reservation.quantity, updated_at = NOW()
+    WHERE id = reservation.material_id;
+
+    INSERT INTO stock_movements (org_id, material_id, movement_type, quantity, job_id, notes, created_by)
+    VALUES (reservation.org_id, reservation.material_id, 'usage', reservation.quantity, p_job_id, 'Consumed on job completion', p_user_id);
+
+    consumed := consumed + 1;
+  END LOOP;
+
+  RETURN consumed;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Purchase Orders
+CREATE TABLE IF NOT EXISTS purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  po_number TEXT NOT NULL,
+  supplier TEXT NOT NULL,
+  status TEXT DEFAULT 'draft', -- draft, sent, received, cancelled
+  expected_date DATE,
+  total DECIMAL(12,2) DEFAULT 0,
+  notes TEXT,
+  created_by UUID REFERENCES team_members(id),
+  sent_at TIMESTAMPTZ,
+  received_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(org_id, po_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_org ON purchase_orders(org_id, status);
+
+CREATE TABLE IF NOT EXISTS purchase_order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  material_id UUID NOT NULL REFERENCES material_products(id),
+  quantity DECIMAL(12,2) NOT NULL,
+  unit_cost DECIMAL(12,2) DEFAULT 0,
+  total DECIMAL(12,2) DEFAULT 0,
+  needed_by DATE
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_order ON purchase_order_items(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_material ON purchase_order_items(material_id);
+
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE material_reservations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "org_isolation_stock_movements" ON stock_movements;
+CREATE POLICY "org_isolation_stock_movements" ON stock_movements
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+DROP POLICY IF EXISTS "org_isolation_material_reservations" ON material_reservations;
+CREATE POLICY "org_isolation_material_reservations" ON material_reservations
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+DROP POLICY IF EXISTS "org_isolation_purchase_orders" ON purchase_orders;
+CREATE POLICY "org_isolation_purchase_orders" ON purchase_orders
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+-- PO lines belong to whichever org owns their order
+DROP POLICY IF EXISTS "org_isolation_purchase_order_items" ON purchase_order_items;
+CREATE POLICY "org_isolation_purchase_order_items" ON purchase_order_items
+  FOR ALL USING (EXISTS (
+    SELECT 1 FROM purchase_orders po
+    WHERE po.id = purchase_order_items.purchase_order_id
+      AND po.org_id = current_setting('app.current_org_id')::uuid
+  ));
+
+-- ============================================================================
+-- PHASE 56: MATERIAL CATALOG
+-- ============================================================================
+
+ALTER TABLE material_products ADD COLUMN IF NOT EXISTS supplier_url TEXT;
+
+-- Per-org products, coverage rates and mix design for material estimates
+CREATE TABLE IF NOT EXISTS material_catalogs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL UNIQUE REFERENCES organizations(id) ON DELETE CASCADE,
+  catalog JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE material_catalogs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "org_isolation_material_catalogs" ON material_catalogs;
+CREATE POLICY "org_isolation_material_catalogs" ON material_catalogs
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+-- ============================================================================
+-- PHASE 57: SIGNED DOCUMENTS
+-- ============================================================================
+
+-- Fingerprint of the issued signed PDF, for tamper checks on uploaded copies
+ALTER TABLE signature_certificates ADD COLUMN IF NOT EXISTS signed_pdf_hash VARCHAR(64);
+ALTER TABLE signature_certificates ADD COLUMN IF NOT EXISTS signed_pdf_path TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_signature_certificates_pdf_hash ON signature_certificates(signed_pdf_hash);
+
+-- ============================================================================
+-- PHASE 58: PRICING FORMULAS
+-- ============================================================================
+
+-- Org-owned calculators sit alongside the built-in ones (org_id null)
+ALTER TABLE calculators ADD COLUMN IF NOT EXISTS org_id UUID REFERENCES organizations(id) ON DELETE CASCADE;
+ALTER TABLE calculators ADD COLUMN IF NOT EXISTS lookup_tables JSONB DEFAULT '{}';
+
+-- Lookup tables the service pricing formula can read
+ALTER TABLE services_catalog ADD COLUMN IF NOT EXISTS pricing_tables JSONB DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_calculators_org ON calculators(org_id);
+
+-- ============================================================================
+-- PHASE 59: AUTOMATION SCHEDULER
+-- ============================================================================
+
+-- Delayed automation actions, claimed and run by the worker cron
+CREATE TABLE IF NOT EXISTS scheduled_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  rule_id UUID REFERENCES automation_rules(id) ON DELETE CASCADE,
+  action JSONB NOT NULL,
+  event JSONB NOT NULL,
+  execute_at TIMESTAMPTZ NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'running', 'completed', 'failed', 'cancelled'
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  last_error TEXT,
+  result JSONB,
+  locked_by TEXT,
+  locked_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_actions_due ON scheduled_actions(execute_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_scheduled_actions_running ON scheduled_actions(locked_at) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_scheduled_actions_org ON scheduled_actions(org_id, status);
+
+ALTER TABLE scheduled_actions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "scheduled_actions_all" ON scheduled_actions;
+CREATE POLICY "scheduled_actions_all" ON scheduled_actions
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+-- Claim due actions for one worker. SKIP LOCKED lets overlapping cron runs
+-- split the queue; rows left 'running' by a worker that died are reclaimed
+-- once their lock is older than the timeout. Each claim counts as an attempt.
+CREATE OR REPLACE FUNCTION claim_scheduled_actions(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 50,
+  p_lock_timeout_minutes INTEGER DEFAULT 10
+)
+RETURNS SETOF scheduled_actions AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE scheduled_actions sa
+  SET status = 'running',
+      locked_by = p_worker_id,
+      locked_at = NOW(),
+      attempts = sa.attempts + 1
+  WHERE sa.id IN (
+    SELECT id FROM scheduled_actions
+    WHERE (status = 'pending' AND execute_at <= NOW())
+       OR (status = 'running' AND locked_at < NOW() - make_interval(mins => p_lock_timeout_minutes))
+    ORDER BY execute_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING sa.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- How far a time-based rule has scanned, so each cron run picks up where the last stopped
+ALTER TABLE automation_rules ADD COLUMN IF NOT EXISTS trigger_watermark TIMESTAMPTZ;
+
+-- One row per time-based firing, so a rule fires once per entity and
+-- occurrence even when cron runs overlap
+CREATE TABLE IF NOT EXISTS automation_trigger_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  rule_id UUID REFERENCES automation_rules(id) ON DELETE CASCADE,
+  entity_id TEXT NOT NULL,
+  fire_key TEXT NOT NULL, -- 'once' for time_elapsed, the occurrence time for scheduled
+  fired_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(rule_id, entity_id, fire_key)
+);
+
+-- Tables created before firings carried their org take it from the rule
+ALTER TABLE automation_trigger_runs ADD COLUMN IF NOT EXISTS org_id UUID REFERENCES organizations(id) ON DELETE CASCADE;
+UPDATE automation_trigger_runs t SET org_id = r.org_id
+  FROM automation_rules r
+  WHERE t.rule_id = r.id AND t.org_id IS NULL;
+DELETE FROM automation_trigger_runs WHERE org_id IS NULL;
+ALTER TABLE automation_trigger_runs ALTER COLUMN org_id SET NOT NULL;
+
+ALTER TABLE automation_trigger_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "automation_trigger_runs_all" ON automation_trigger_runs;
+CREATE POLICY "automation_trigger_runs_all" ON automation_trigger_runs
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+-- ============================================================================
+-- PHASE 60: AUTOMATION WORKFLOWS
+-- ============================================================================
+
+-- Branching workflow graph; when set it runs instead of the flat actions list
+ALTER TABLE automation_rules ADD COLUMN IF NOT EXISTS workflow JSONB;
+
+-- One row per workflow started for a record. Waiting runs are resumed by the
+-- worker cron, or sooner when an event about their record arrives.
+CREATE TABLE IF NOT EXISTS automation_workflow_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  rule_id UUID REFERENCES automation_rules(id) ON DELETE CASCADE,
+  entity_id TEXT NOT NULL,
+  event JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running', -- 'running', 'waiting', 'completed', 'exited', 'failed', 'cancelled'
+  current_step_id TEXT,
+  resume_at TIMESTAMPTZ,
+  waiting_for TEXT, -- 'condition', 'timer', 'retry'
+  wait_deadline TIMESTAMPTZ,
+  step_attempts INTEGER NOT NULL DEFAULT 0,
+  history JSONB NOT NULL DEFAULT '[]',
+  last_error TEXT,
+  locked_by TEXT,
+  locked_at TIMESTAMPTZ,
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_due ON automation_workflow_runs(resume_at) WHERE status = 'waiting';
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_running ON automation_workflow_runs(locked_at) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_entity ON automation_workflow_runs(org_id, entity_id) WHERE status = 'waiting';
+CREATE INDEX IF NOT EXISTS idx_workflow_runs_rule ON automation_workflow_runs(rule_id, started_at DESC);
+
+ALTER TABLE automation_workflow_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "automation_workflow_runs_all" ON automation_workflow_runs;
+CREATE POLICY "automation_workflow_runs_all" ON automation_workflow_runs
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+-- Claim due workflow runs for one worker, as claim_scheduled_actions does.
+-- Reclaiming a run left 'running' by a dead worker counts a try of its step.
+CREATE OR REPLACE FUNCTION claim_workflow_runs(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 50,
+  p_lock_timeout_minutes INTEGER DEFAULT 10
+)
+RETURNS SETOF automation_workflow_runs AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE automation_workflow_runs wr
+  SET status = 'running',
+      locked_by = p_worker_id,
+      locked_at = NOW(),
+      step_attempts = CASE WHEN wr.status = 'running' THEN wr.step_attempts + 1 ELSE wr.step_attempts END
+  WHERE wr.id IN (
+    SELECT id FROM automation_workflow_runs
+    WHERE (status = 'waiting' AND resume_at <= NOW())
+       OR (status = 'running' AND locked_at < NOW() - make_interval(mins => p_lock_timeout_minutes))
+    ORDER BY resume_at NULLS FIRST
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING wr.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- PHASE 61: USAGE QUOTA ENFORCEMENT
+-- ============================================================================
+
+-- Text messages and public API calls are metered alongside proposals, AI and email
+ALTER TABLE usage_current ADD COLUMN IF NOT EXISTS sms_this_month INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE usage_current ADD COLUMN IF NOT EXISTS api_calls_this_month INTEGER NOT NULL DEFAULT 0;
+
+-- Overage units are recorded on the usage event for billing
+CREATE INDEX IF NOT EXISTS idx_usage_events_overage ON usage_events(org_id, timestamp)
+  WHERE metadata ? 'overage';
+
+-- Take a metered action's units before it runs: the limit check and the
+-- increment are one statement, so concurrent requests can't all pass on
+-- the last unit. A NULL limit (comped, unlimited or overage) always takes.
+CREATE OR REPLACE FUNCTION reserve_usage(
+  p_org_id UUID,
+  p_field TEXT,
+  p_amount BIGINT,
+  p_limit BIGINT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_reserved BOOLEAN;
+BEGIN
+  IF p_field NOT IN ('proposals_this_month', 'ai_calls_this_month', 'emails_this_month', 'sms_this_month',
+                     'api_calls_this_month', 'storage_used_bytes', 'team_members_count') THEN
+    RAISE EXCEPTION 'unknown usage field %', p_field;
+  END IF;
+
+  EXECUTE format(
+    'UPDATE usage_current SET %1$I = %1$I + $2, updated_at = NOW()
+     WHERE org_id = $1 AND ($3 IS NULL OR %1$I + $2 <= $3)
+     RETURNING TRUE',
+    p_field
+  )
+  INTO v_reserved
+  USING p_org_id, p_amount, p_limit;
+
+  RETURN COALESCE(v_reserved, FALSE);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Give back units reserved for an action that didn't happen
+CREATE OR REPLACE FUNCTION release_usage(
+  p_org_id UUID,
+  p_field TEXT,
+  p_amount BIGINT
+)
+RETURNS VOID AS $$
+BEGIN
+  IF p_field NOT IN ('proposals_this_month', 'ai_calls_this_month', 'emails_this_month', 'sms_this_month',
+                     'api_calls_this_month', 'storage_used_bytes', 'team_members_count') THEN
+    RAISE EXCEPTION 'unknown usage field %', p_field;
+  END IF;
+
+  EXECUTE format(
+    'UPDATE usage_current SET %1$I = GREATEST(0, %1$I - $2), updated_at = NOW() WHERE org_id = $1',
+    p_field
+  )
+  USING p_org_id, p_amount;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- PHASE 62: OVERAGE BILLING
+-- ============================================================================
+
+-- Per-unit overage prices, keyed by unit:
+-- {"proposals": {"unitAmount": 150, "stripePriceId": "price_..."}, ...}
+ALTER TABLE plans ADD COLUMN IF NOT EXISTS overage_prices JSONB NOT NULL DEFAULT '{}';
+
+-- Last month whose overage has been closed for the subscription
+ALTER TABLE subscriptions ADD COLUMN IF NOT EXISTS overage_closed_through DATE;
+
+-- Stripe invoice lines, overage lines labelled with their unit
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS line_items JSONB NOT NULL DEFAULT '[]';
+
+-- One row per org, month and unit; reported to Stripe as metered usage by the worker cron
+CREATE TABLE IF NOT EXISTS overage_charges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  unit TEXT NOT NULL, -- 'proposals', 'aiCalls', 'emails', 'sms', 'apiCalls', 'storageGb'
+  description TEXT NOT NULL,
+  quantity INTEGER NOT NULL,
+  unit_amount INTEGER NOT NULL, -- cents
+  amount INTEGER NOT NULL, -- cents
+  stripe_price_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending', -- 'pending', 'reported', 'failed'
+  stripe_usage_record_id TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  reported_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(org_id, period_start, unit)
+);
+
+CREATE INDEX IF NOT EXISTS idx_overage_charges_unreported ON overage_charges(created_at)
+  WHERE status IN ('pending', 'failed');
+
+ALTER TABLE overage_charges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "overage_charges_all" ON overage_charges;
+CREATE POLICY "overage_charges_all" ON overage_charges
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+-- ============================================================================
+-- PHASE 63: DEAL SCORING MODEL
+-- ============================================================================
+
+-- Logistic regression fit on an org's won and lost proposals. The model
+-- column holds weights, feature scaling and cross-validated metrics;
+-- retraining adds a row and deactivates the previous one.
+CREATE TABLE IF NOT EXISTS deal_scoring_models (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  model JSONB NOT NULL,
+  sample_size INTEGER NOT NULL,
+  accuracy DECIMAL(5,4),
+  auc DECIMAL(5,4),
+  is_active BOOLEAN DEFAULT TRUE,
+  trained_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_scoring_models_active ON deal_scoring_models(org_id) WHERE is_active;
+
+ALTER TABLE deal_scoring_models ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "deal_scoring_models_all" ON deal_scoring_models;
+CREATE POLICY "deal_scoring_models_all" ON deal_scoring_models
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+-- ============================================================================
+-- PHASE 64: COMPETITOR BIDS AND MARKET PRICE INDEX
+-- ============================================================================
+
+-- Competitor quotes reps log when a proposal is lost or a client shares one.
+-- Region is the 3-digit zip prefix.
+CREATE TABLE IF NOT EXISTS competitor_bids (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  proposal_id UUID REFERENCES proposals(id) ON DELETE SET NULL,
+  competitor_name VARCHAR(255) NOT NULL,
+  services TEXT[] NOT NULL,
+  price DECIMAL(12,2) NOT NULL CHECK (price > 0),
+  sqft DECIMAL(12,2),
+  zip VARCHAR(10) NOT NULL,
+  region VARCHAR(3) NOT NULL,
+  source VARCHAR(20) NOT NULL CHECK (source IN ('lost_proposal', 'client_shared')),
+  bid_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  notes TEXT,
+  created_by UUID REFERENCES team_members(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_competitor_bids_org_date ON competitor_bids(org_id, bid_date DESC);
+CREATE INDEX IF NOT EXISTS idx_competitor_bids_proposal ON competitor_bids(proposal_id) WHERE proposal_id IS NOT NULL;
+
+-- Monthly price per sq ft by region and service bundle, recomputed from
+-- competitor_bids whenever a bid in that month is added or removed
+CREATE TABLE IF NOT EXISTS market_price_index (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  region VARCHAR(3) NOT NULL,
+  service_key VARCHAR(255) NOT NULL,
+  period DATE NOT NULL,
+  median_price_per_sqft DECIMAL(10,4) NOT NULL,
+  p25_price_per_sqft DECIMAL(10,4) NOT NULL,
+  p75_price_per_sqft DECIMAL(10,4) NOT NULL,
+  bid_count INTEGER NOT NULL,
+  competitor_count INTEGER NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (org_id, region, service_key, period)
+);
+
+CREATE INDEX IF NOT EXISTS idx_market_price_index_service ON market_price_index(org_id, service_key, period);
+
+ALTER TABLE competitor_bids ENABLE ROW LEVEL SECURITY;
+ALTER TABLE market_price_index ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "competitor_bids_all" ON competitor_bids;
+CREATE POLICY "competitor_bids_all" ON competitor_bids
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+DROP POLICY IF EXISTS "market_price_index_all" ON market_price_index;
+CREATE POLICY "market_price_index_all" ON market_price_index
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+-- ============================================================================
+-- PHASE 65: PRICING EXPERIMENTS
+-- ============================================================================
+
+-- Tests of tier multipliers or discount offers on new proposals. Variants
+-- are [{id, name, isControl, weight, tierMultipliers, discountPercent}].
+CREATE TABLE IF NOT EXISTS pricing_experiments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  hypothesis TEXT,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('tier_multiplier', 'discount_offer')),
+  status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'completed', 'stopped')),
+  variants JSONB NOT NULL,
+  bounds JSONB NOT NULL DEFAULT '{}',
+  min_sample_size INTEGER NOT NULL DEFAULT 30,
+  rollout_threshold DECIMAL(4,3) NOT NULL DEFAULT 0.95,
+  auto_rollout BOOLEAN DEFAULT TRUE,
+  winner_variant_id TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  created_by UUID REFERENCES team_members(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One running experiment per org, so a proposal is only ever in one
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pricing_experiments_running ON pricing_experiments(org_id) WHERE status = 'running';
+
+-- The variant a proposal was priced with; outcomes are read from its status
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS pricing_experiment_id UUID REFERENCES pricing_experiments(id) ON DELETE SET NULL;
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS pricing_variant_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_proposals_pricing_experiment ON proposals(pricing_experiment_id) WHERE pricing_experiment_id IS NOT NULL;
+
+-- Winning variant's tier multipliers and discount, applied to new proposals
+ALTER TABLE organizations ADD COLUMN IF NOT EXISTS pricing_overrides JSONB DEFAULT '{}';
+
+ALTER TABLE pricing_experiments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "pricing_experiments_all" ON pricing_experiments;
+CREATE POLICY "pricing_experiments_all" ON pricing_experiments
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+-- ============================================================================
+-- PHASE 66: PROPOSAL A/B TESTS
+-- ============================================================================
+
+-- Tests of what clients see on a proposal: template, intro copy, video or
+-- block order. Variants are [{id, name, description, isControl,
+-- trafficAllocation, treatment}].
+CREATE TABLE IF NOT EXISTS proposal_ab_tests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  test_type VARCHAR(20) NOT NULL CHECK (test_type IN ('template', 'intro_copy', 'video', 'block_order')),
+  status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'paused', 'completed')),
+  variants JSONB NOT NULL,
+  min_sample_size INTEGER NOT NULL DEFAULT 100,
+  confidence_level DECIMAL(4,3) NOT NULL DEFAULT 0.95,
+  winning_variant_id TEXT,
+  started_at TIMESTAMPTZ,
+  ended_at TIMESTAMPTZ,
+  created_by UUID REFERENCES team_members(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One running test per type, so a proposal never gets two templates
+CREATE UNIQUE INDEX IF NOT EXISTS idx_proposal_ab_tests_running ON proposal_ab_tests(org_id, test_type) WHERE status = 'running';
+
+-- A proposal's first view during a test, and the signing that followed it
+CREATE TABLE IF NOT EXISTS proposal_ab_exposures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  test_id UUID NOT NULL REFERENCES proposal_ab_tests(id) ON DELETE CASCADE,
+  proposal_id UUID NOT NULL REFERENCES proposals(id) ON DELETE CASCADE,
+  variant_id TEXT NOT NULL,
+  exposed_at TIMESTAMPTZ DEFAULT NOW(),
+  converted_at TIMESTAMPTZ,
+  conversion_value DECIMAL(12,2),
+  UNIQUE (test_id, proposal_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_proposal_ab_exposures_proposal ON proposal_ab_exposures(proposal_id);
+
+ALTER TABLE proposal_ab_tests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE proposal_ab_exposures ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "proposal_ab_tests_all" ON proposal_ab_tests;
+CREATE POLICY "proposal_ab_tests_all" ON proposal_ab_tests
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+DROP POLICY IF EXISTS "proposal_ab_exposures_all" ON proposal_ab_exposures;
+CREATE POLICY "proposal_ab_exposures_all" ON proposal_ab_exposures
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+-- ============================================================================
+-- PHASE 67: WEBHOOK DELIVERY QUEUE
+-- ============================================================================
+
+-- Deliveries are queued and sent by the worker cron. 'dead' rows ran out of
+-- retries and form the dead-letter queue until redelivered.
+ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS status VARCHAR(20);
+ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS event_id UUID;
+ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS last_error TEXT;
+ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS dead_at TIMESTAMPTZ;
+ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS locked_by TEXT;
+ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS locked_at TIMESTAMPTZ;
+
+-- Rows from before the queue were never really sent, so they are not retried
+UPDATE webhook_deliveries
+SET status = CASE WHEN delivered_at IS NOT NULL THEN 'delivered' ELSE 'dead' END,
+    event_id = COALESCE(event_id, id),
+    next_retry_at = NULL
+WHERE status IS NULL;
+
+ALTER TABLE webhook_deliveries ALTER COLUMN status SET DEFAULT 'pending';
+ALTER TABLE webhook_deliveries ALTER COLUMN status SET NOT NULL;
+ALTER TABLE webhook_deliveries DROP CONSTRAINT IF EXISTS webhook_deliveries_status_check;
+ALTER TABLE webhook_deliveries ADD CONSTRAINT webhook_deliveries_status_check
+  CHECK (status IN ('pending', 'delivering', 'delivered', 'dead'));
+ALTER TABLE webhook_deliveries ALTER COLUMN event_id SET DEFAULT gen_random_uuid();
+ALTER TABLE webhook_deliveries ALTER COLUMN attempts SET DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_retry_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status ON webhook_deliveries(endpoint_id, status, created_at DESC);
+
+-- Endpoints that keep failing are turned off, with the reason shown in the hub
+ALTER TABLE webhook_endpoints ADD COLUMN IF NOT EXISTS failing_since TIMESTAMPTZ;
+ALTER TABLE webhook_endpoints ADD COLUMN IF NOT EXISTS disabled_at TIMESTAMPTZ;
+ALTER TABLE webhook_endpoints ADD COLUMN IF NOT EXISTS disabled_reason TEXT;
+
+-- Claim due deliveries for one worker, as claim_scheduled_actions does.
+-- Each claim counts as an attempt.
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 25,
+  p_lock_timeout_minutes INTEGER DEFAULT 5
+)
+RETURNS SETOF webhook_deliveries AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE webhook_deliveries wd
+  SET status = 'delivering',
+      locked_by = p_worker_id,
+      locked_at = NOW(),
+      attempts = wd.attempts + 1
+  WHERE wd.id IN (
+    SELECT id FROM webhook_deliveries
+    WHERE (status = 'pending' AND next_retry_at <= NOW())
+       OR (status = 'delivering' AND locked_at < NOW() - make_interval(mins => p_lock_timeout_minutes))
+    ORDER BY next_retry_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING wd.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- PHASE 68: UNIFIED WEBHOOK REGISTRY
+-- ============================================================================
+
+-- webhook_endpoints is the one webhook registry. Endpoints remember where
+-- they were registered; deliveries record the catalog payload version.
+ALTER TABLE webhook_endpoints ADD COLUMN IF NOT EXISTS name VARCHAR(255);
+ALTER TABLE webhook_endpoints ADD COLUMN IF NOT EXISTS source VARCHAR(20) NOT NULL DEFAULT 'app';
+ALTER TABLE webhook_endpoints ADD COLUMN IF NOT EXISTS external_id VARCHAR(255);
+ALTER TABLE webhook_endpoints DROP CONSTRAINT IF EXISTS webhook_endpoints_source_check;
+ALTER TABLE webhook_endpoints ADD CONSTRAINT webhook_endpoints_source_check
+  CHECK (source IN ('app', 'api', 'zapier'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_webhook_endpoints_external
+  ON webhook_endpoints(org_id, source, external_id) WHERE external_id IS NOT NULL;
+
+ALTER TABLE webhook_deliveries ADD COLUMN IF NOT EXISTS event_version INT NOT NULL DEFAULT 1;
+
+-- Map legacy event names onto the catalog; keep in step with LEGACY_WEBHOOK_EVENTS
+CREATE OR REPLACE FUNCTION normalize_webhook_events(p_events JSONB)
+RETURNS JSONB AS $$
+  SELECT COALESCE(jsonb_agg(DISTINCT mapped.event), '[]'::jsonb)
+  FROM (
+    SELECT CASE name WHEN 'proposal.accepted' THEN 'proposal.signed' ELSE name END AS event
+    FROM jsonb_array_elements_text(COALESCE(p_events, '[]'::jsonb)) AS name
+  ) mapped;
+$$ LANGUAGE sql IMMUTABLE;
+
+UPDATE webhook_endpoints
+SET events = normalize_webhook_events(events)
+WHERE events ? 'proposal.accepted';
+
+UPDATE webhook_deliveries SET event = 'proposal.signed' WHERE event = 'proposal.accepted';
+
+-- Move endpoints from the old webhooks table and from zapier_webhooks into
+-- the registry, keeping the old tables under a _legacy name for one release.
+-- Zaps never verified signatures, so they get a fresh secret.
+DO $$
+BEGIN
+  IF to_regclass('public.webhooks') IS NOT NULL THEN
+    INSERT INTO webhook_endpoints (
+      id, org_id, name, source, url, events, secret, is_active,
+      failure_count, last_delivery_at, created_at
+    )
+    SELECT id, org_id, name, 'app', url, normalize_webhook_events(to_jsonb(events)), secret, is_active,
+           COALESCE(failure_count, 0), last_triggered_at, created_at
+    FROM webhooks
+    ON CONFLICT (id) DO NOTHING;
+
+    ALTER TABLE webhooks RENAME TO webhooks_legacy;
+  END IF;
+
+  IF to_regclass('public.zapier_webhooks') IS NOT NULL THEN
+    INSERT INTO webhook_endpoints (
+      org_id, name, source, external_id, url, events, secret, is_active, created_at
+    )
+    SELECT org_id, 'Zap ' || zap_id, 'zapier', zap_id, webhook_url,
+           normalize_webhook_events(jsonb_build_array(trigger_event)),
+           'whsec_' || md5(random()::text || id::text), is_active, created_at
+    FROM zapier_webhooks
+    ON CONFLICT DO NOTHING;
+
+    ALTER TABLE zapier_webhooks RENAME TO zapier_webhooks_legacy;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The old integrations service tracked a connected flag instead of status
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'integrations' AND column_name = 'is_connected'
+  ) THEN
+    UPDATE integrations
+    SET status = CASE WHEN is_connected THEN 'connected' ELSE 'disconnected' END
+    WHERE status IS NULL OR status = 'pending';
+
+    ALTER TABLE integrations DROP COLUMN is_connected;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- PHASE 69: STRIPE WEBHOOK EVENTS AND PAYMENTS
+-- ============================================================================
+
+-- Every verified Stripe event, stored once by its Stripe id. 'failed' events
+-- are retried when Stripe redelivers them. Written only by the worker with
+-- the service role, so RLS has no policies.
+CREATE TABLE IF NOT EXISTS stripe_events (
+  id VARCHAR(255) PRIMARY KEY,
+  event_type VARCHAR(100) NOT NULL,
+  livemode BOOLEAN DEFAULT FALSE,
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'processing'
+    CHECK (status IN ('processing', 'processed', 'failed')),
+  attempts INT NOT NULL DEFAULT 1,
+  last_error TEXT,
+  locked_at TIMESTAMPTZ,
+  received_at TIMESTAMPTZ DEFAULT NOW(),
+  processed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_events_status ON stripe_events(status, received_at DESC);
+
+ALTER TABLE stripe_events ENABLE ROW LEVEL SECURITY;
+
+-- Succeeded proposal payments; one row per PaymentIntent, shown as receipts
+CREATE TABLE IF NOT EXISTS payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  proposal_id UUID REFERENCES proposals(id) ON DELETE SET NULL,
+  amount DECIMAL(12,2) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'succeeded',
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS installment_id UUID REFERENCES payment_plan_installments(id) ON DELETE SET NULL;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS payment_type VARCHAR(20) DEFAULT 'deposit';
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS currency VARCHAR(3) DEFAULT 'usd';
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS stripe_payment_intent_id VARCHAR(255);
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS receipt_url TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS paid_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Set once the payment.received webhook is queued. Payments from before the
+-- column were already announced, so they are marked when it is added.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'payments' AND column_name = 'webhook_sent_at'
+  ) THEN
+    ALTER TABLE payments ADD COLUMN webhook_sent_at TIMESTAMPTZ;
+    UPDATE payments SET webhook_sent_at = COALESCE(paid_at, created_at);
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payments_intent ON payments(stripe_payment_intent_id)
+  WHERE stripe_payment_intent_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_payments_proposal ON payments(proposal_id, paid_at DESC);
+
+ALTER TABLE payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "payments_all" ON payments;
+CREATE POLICY "payments_all" ON payments
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+-- Mark an installment paid and add it to its plan in one transaction, so a
+-- failure between the two never leaves the plan's paid amount behind.
+-- Returns false when the installment was already paid.
+CREATE OR REPLACE FUNCTION record_installment_payment(
+  p_installment_id UUID,
+  p_payment_intent_id VARCHAR
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_plan_id UUID;
+  v_amount DECIMAL;
+BEGIN
+  UPDATE payment_plan_installments
+  SET status = 'paid', paid_at = NOW(), stripe_payment_intent_id = p_payment_intent_id
+  WHERE id = p_installment_id AND status <> 'paid'
+  RETURNING plan_id, amount INTO v_plan_id, v_amount;
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE payment_plans
+  SET paid_amount = COALESCE(paid_amount, 0) + v_amount,
+      status = CASE WHEN COALESCE(paid_amount, 0) + v_amount >= total_amount THEN 'completed' ELSE status END
+  WHERE id = v_plan_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- A paid deposit wins the proposal
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS deposit_paid_at TIMESTAMPTZ;
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS deposit_paid_amount DECIMAL(12,2);
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS deposit_payment_intent_id VARCHAR(255);
+
+-- ============================================================================
+-- PHASE 70: CLIENT PORTAL
+-- ============================================================================
+
+-- Magic links and the sessions they open. Only a SHA-256 of each token is
+-- stored; the token itself lives in the client's email and browser.
+-- Issued and checked by the worker with the service role.
+CREATE TABLE IF NOT EXISTS portal_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('magic_link', 'session')),
+  token_hash VARCHAR(64) NOT NULL UNIQUE,
+  expires_at TIMESTAMPTZ NOT NULL,
+  used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  last_seen_at TIMESTAMPTZ,
+  ip_address VARCHAR(45),
+  user_agent TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_portal_tokens_contact ON portal_tokens(contact_id, kind, created_at DESC);
+
+ALTER TABLE portal_tokens ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "portal_tokens_all" ON portal_tokens;
+CREATE POLICY "portal_tokens_all" ON portal_tokens
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+-- New work requested by a client from the portal
+CREATE TABLE IF NOT EXISTS quote_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES contacts(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  property_address TEXT,
+  property_city VARCHAR(100),
+  property_state VARCHAR(2),
+  property_zip VARCHAR(10),
+  preferred_date DATE,
+  status VARCHAR(20) NOT NULL DEFAULT 'new'
+    CHECK (status IN ('new', 'quoted', 'declined')),
+  proposal_id UUID REFERENCES proposals(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_quote_requests_org ON quote_requests(org_id, status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_quote_requests_contact ON quote_requests(contact_id, created_at DESC);
+
+ALTER TABLE quote_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "quote_requests_all" ON quote_requests;
+CREATE POLICY "quote_requests_all" ON quote_requests
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+-- The portal finds a client's photos through their jobs
+CREATE INDEX IF NOT EXISTS idx_gallery_projects_job ON gallery_projects(job_id) WHERE job_id IS NOT NULL;
+
+-- Sign-in looks a client up by exact email, however the contact was typed in
+ALTER TABLE contacts ADD COLUMN IF NOT EXISTS email_normalized VARCHAR(255)
+  GENERATED ALWAYS AS (LOWER(TRIM(email))) STORED;
+
+DROP INDEX IF EXISTS idx_contacts_org_email;
+CREATE INDEX IF NOT EXISTS idx_contacts_email_normalized ON contacts(email_normalized, org_id);
+
+-- ============================================================================
+-- PHASE 71: OFFLINE SYNC KEYS
+-- ============================================================================
+
+-- Outbox temp id of a proposal created offline, so a replay that stopped
+-- after the create finds it instead of making a second one
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS offline_id VARCHAR(64);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_proposals_offline_id ON proposals(org_id, offline_id)
+  WHERE offline_id IS NOT NULL;
+
+-- Line items and photos queued offline carry their outbox operation's id
+-- the same way, so a replay never adds one twice
+ALTER TABLE proposal_line_items ADD COLUMN IF NOT EXISTS offline_id VARCHAR(64);
+ALTER TABLE proposal_images ADD COLUMN IF NOT EXISTS offline_id VARCHAR(64);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_proposal_line_items_offline_id ON proposal_line_items(proposal_id, offline_id)
+  WHERE offline_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_proposal_images_offline_id ON proposal_images(proposal_id, offline_id)
+  WHERE offline_id IS NOT NULL;
+
+-- ============================================================================
+-- PHASE 72: AUTOMATION REPLAY LOCKS
+-- ============================================================================
+
+-- Set while a replay of this execution runs, so two replays never rerun
+-- the same actions side by side
+ALTER TABLE automation_executions ADD COLUMN IF NOT EXISTS replay_locked_at TIMESTAMPTZ;
+
+-- ============================================================================
+-- PHASE 73: OVERAGE PERIOD SNAPSHOTS
+-- ============================================================================
+
+-- The plan and storage an org had during a month, recaptured daily by the
+-- billing cron; a finished month is priced from its last capture
+CREATE TABLE IF NOT EXISTS overage_period_snapshots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  period_start DATE NOT NULL,
+  plan_id TEXT NOT NULL,
+  is_enabled BOOLEAN NOT NULL,
+  overage_prices JSONB NOT NULL DEFAULT '{}',
+  storage_limit_mb INTEGER NOT NULL, -- -1 when unlimited
+  storage_used_bytes BIGINT,
+  captured_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(org_id, period_start)
+);
+
+ALTER TABLE overage_period_snapshots ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "overage_period_snapshots_all" ON overage_period_snapshots;
+CREATE POLICY "overage_period_snapshots_all" ON overage_period_snapshots
+  FOR ALL USING (org_id = current_setting('app.current_org_id')::uuid);
+
+-- Timestamp of the usage record last sent for a charge; a retry checks
+-- Stripe's usage for that period before sending again
+ALTER TABLE overage_charges ADD COLUMN IF NOT EXISTS usage_timestamp TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_overage_charges_usage ON overage_charges(org_id, stripe_price_id, usage_timestamp)
+  WHERE status = 'reported';
+
+-- ============================================================================
+-- PHASE 74: PORTAL SIGN-IN LIMITS
+-- ============================================================================
+
+-- Every sign-in link request, by caller IP and by a SHA-256 of the email
+-- asked for, so the worker can throttle both. Unknown emails are counted
+-- too. Written only by the worker with the service role, so RLS has no
+-- policies.
+CREATE TABLE IF NOT EXISTS portal_sign_in_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email_hash VARCHAR(64) NOT NULL,
+  ip_address VARCHAR(45),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_portal_sign_in_requests_email ON portal_sign_in_requests(email_hash, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_portal_sign_in_requests_ip ON portal_sign_in_requests(ip_address, created_at DESC);
+
+ALTER TABLE portal_sign_in_requests ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================================
+-- PHASE 75: PROPOSAL TAX RATE
+-- ============================================================================
+
+-- The rate a proposal is taxed at, stored so re-pricing never has to work
+-- it back out of rounded totals. Older proposals take the rate their totals
+-- imply, once.
+ALTER TABLE proposals ADD COLUMN IF NOT EXISTS tax_rate DECIMAL(7,6);
+UPDATE proposals
+  SET tax_rate = CASE WHEN total - tax_amount > 0 THEN ROUND(tax_amount / (total - tax_amount), 6) ELSE 0 END
+  WHERE tax_rate IS NULL;
+ALTER TABLE proposals ALTER COLUMN tax_rate SET DEFAULT 0;
+ALTER TABLE proposals ALTER COLUMN tax_rate SET NOT NULL;
+
+-- ============================================================================
+-- SCHEMA VERSION
+-- ============================================================================
+
+INSERT INTO schema_versions (version, description) VALUES
+  (51, 'Phase 51: Proposal revisions'),
+  (52, 'Phase 52: Site measurement geometry'),
+  (53, 'Phase 53: Weather rescheduling'),
+  (54, 'Phase 54: Dispatch planning'),
+  (55, 'Phase 55: Inventory reservations and purchase orders'),
+  (56, 'Phase 56: Material catalog'),
+  (57, 'Phase 57: Signed documents'),
+  (58, 'Phase 58: Pricing formulas'),
+  (59, 'Phase 59: Automation scheduler'),
+  (60, 'Phase 60: Automation workflows'),
+  (61, 'Phase 61: Usage quota enforcement'),
+  (62, 'Phase 62: Overage billing'),
+  (63, 'Phase 63: Deal scoring model'),
+  (64, 'Phase 64: Competitor bids and market price index'),
+  (65, 'Phase 65: Pricing experiments'),
+  (66, 'Phase 66: Proposal A/B tests'),
+  (67, 'Phase 67: Webhook delivery queue'),
+  (68, 'Phase 68: Unified webhook registry'),
+  (69, 'Phase 69: Stripe webhook events and payments'),
+  (70, 'Phase 70: Client portal'),
+  (71, 'Phase 71: Offline sync keys'),
+  (72, 'Phase 72: Automation replay locks'),
+  (73, 'Phase 73: Overage period snapshots'),
+  (74, 'Phase 74: Portal sign-in limits'),
+  (75, 'Phase 75: Proposal tax rate')
+ON CONFLICT (version) DO NOTHING;
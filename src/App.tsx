@@ -24,10 +24,13 @@ const Settings = lazy(() => import('@/pages/Settings'));
 const Team = lazy(() => import('@/pages/Team'));
 const Pipeline = lazy(() => import('@/pages/Pipeline'));
 const Scheduling = lazy(() => import('@/pages/Scheduling'));
-const Integrations = lazy(() => import('@/pages/Integrations'));
+const Dispatch = lazy(() => import('@/pages/Dispatch'));
+const IntegrationsHub = lazy(() => import('@/pages/IntegrationsHub'));
 const VideoProposals = lazy(() => import('@/pages/VideoProposals'));
 const Inventory = lazy(() => import('@/pages/Inventory'));
 const Reports = lazy(() => import('@/pages/Reports'));
+const PricingExperiments = lazy(() => import('@/pages/PricingExperiments'));
+const ABTests = lazy(() => import('@/pages/ABTests'));
 const AIInsights = lazy(() => import('@/pages/AIInsights'));
 
 // Discount pages
@@ -45,6 +48,8 @@ const ForgotPassword = lazy(() => import('@/pages/auth/ForgotPassword'));
 // Client portal (public)
 const ClientPortal = lazy(() => import('@/pages/portal/ClientPortal'));
 const ProposalPublicView = lazy(() => import('@/pages/portal/ProposalPublicView'));
+const PaymentPage = lazy(() => import('@/pages/portal/PaymentPage'));
+const VerifyDocumentPage = lazy(() => import('@/pages/portal/VerifyDocumentPage'));
 
 // Error pages
 const NotFound = lazy(() => import('@/pages/errors/NotFound'));
@@ -116,6 +121,8 @@ const router = createBrowserRouter([
     children: [
       { index: true, element: <ClientPortal /> },
       { path: 'proposal/:proposalId', element: <ProposalPublicView /> },
+      { path: 'proposal/:proposalId/pay', element: <PaymentPage /> },
+      { path: 'verify', element: <VerifyDocumentPage /> },
     ],
   },
 
@@ -144,12 +151,15 @@ const router = createBrowserRouter([
       { path: '/analytics', element: <Analytics /> },
       { path: '/reports', element: <Reports /> },
       { path: '/ai-insights', element: <AIInsights /> },
+      { path: '/pricing-experiments', element: <PricingExperiments /> },
+      { path: '/ab-tests', element: <ABTests /> },
 
       // CRM & Pipeline
       { path: '/pipeline', element: <Pipeline /> },
 
       // Scheduling
       { path: '/scheduling', element: <Scheduling /> },
+      { path: '/scheduling/dispatch', element: <Dispatch /> },
 
       // Inventory
       { path: '/inventory', element: <Inventory /> },
@@ -172,7 +182,8 @@ const router = createBrowserRouter([
       // Team & Settings
       { path: '/team', element: <Team /> },
       { path: '/settings', element: <Settings /> },
-      { path: '/integrations', element: <Integrations /> },
+      { path: '/settings/:tab', element: <Settings /> },
+      { path: '/integrations', element: <IntegrationsHub /> },
     ],
   },
 
@@ -277,6 +288,8 @@ export const sidebarNavigation = [
       { name: 'Overview', href: '/analytics' },
       { name: 'Reports', href: '/reports' },
       { name: 'AI Insights', href: '/ai-insights' },
+      { name: 'Pricing Experiments', href: '/pricing-experiments' },
+      { name: 'Proposal A/B Tests', href: '/ab-tests' },
     ],
   },
   {
@@ -0,0 +1,262 @@
+/**
+ * AutomationRuleEditor Component
+ * Name, trigger, entry conditions and workflow of one automation rule
+ */
+
+import { useMemo, useState } from 'react';
+import { AlertCircle, Save } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { ConditionGroupEditor, EMPTY_CONDITION } from './ConditionGroupEditor';
+import { WorkflowEditor } from './WorkflowEditor';
+import { useSaveAutomationRule } from '@/hooks/useAutomations';
+import {
+  TIME_ELAPSED_SOURCES,
+  type AutomationRule,
+  type TriggerType,
+} from '@/lib/automation/automationService';
+import {
+  isConditionGroup,
+  validateWorkflow,
+  workflowFromActions,
+  type AutomationWorkflow,
+  type ConditionGroup,
+} from '@/lib/automation/workflowEngine';
+
+export const TRIGGER_LABELS: Record<TriggerType, string> = {
+  proposal_created: 'When a proposal is created',
+  proposal_sent: 'When a proposal is sent',
+  proposal_viewed: 'When a proposal is viewed',
+  proposal_signed: 'When a proposal is signed',
+  proposal_rejected: 'When a proposal is rejected',
+  proposal_expired: 'When a proposal expires',
+  payment_received: 'When a payment is received',
+  client_created: 'When a client is created',
+  time_elapsed: 'After time passes',
+  scheduled: 'On a schedule',
+  manual: 'When run by hand',
+};
+
+/** New rules start as the classic follow-up cadence: wait for a view, then call or email again */
+const FOLLOW_UP_WORKFLOW: AutomationWorkflow = {
+  startStepId: 'wait_1',
+  steps: [
+    {
+      id: 'wait_1',
+      type: 'wait',
+      label: 'Give them time to open it',
+      until: { logic: 'and', conditions: [{ field: 'viewed_at', operator: 'is_set', value: '' }] },
+      timeoutMinutes: 5 * 24 * 60,
+      next: 'branch_1',
+    },
+    {
+      id: 'branch_1',
+      type: 'branch',
+      label: 'Viewed?',
+      condition: { logic: 'and', conditions: [{ field: 'viewed_at', operator: 'is_set', value: '' }] },
+      then: 'action_1',
+      else: 'action_2',
+    },
+    {
+      id: 'action_1',
+      type: 'action',
+      label: 'Call',
+      action: { type: 'create_task', config: { title: 'Call about proposal {{proposal_number}}', due_days: 1 } },
+      next: null,
+    },
+    {
+      id: 'action_2',
+      type: 'action',
+      label: 'Email again',
+      action: { type: 'send_reminder', config: { to: '{{client_email}}', subject: 'Following up on your proposal' } },
+      next: null,
+    },
+  ],
+  exitWhen: { logic: 'or', conditions: [{ field: 'status', operator: 'in', value: ['accepted', 'rejected'] }] },
+};
+
+type Draft = Pick<AutomationRule, 'name' | 'description' | 'triggerType' | 'triggerConfig' | 'conditions'> & {
+  workflow: AutomationWorkflow;
+};
+
+function toDraft(rule?: AutomationRule, defaults?: { name?: string; triggerType?: TriggerType }): Draft {
+  if (!rule) {
+    return {
+      name: defaults?.name || 'Proposal Follow-up',
+      description: null,
+      triggerType: defaults?.triggerType || 'proposal_sent',
+      triggerConfig: {},
+      conditions: [],
+      workflow: FOLLOW_UP_WORKFLOW,
+    };
+  }
+
+  return {
+    name: rule.name,
+    description: rule.description,
+    triggerType: rule.triggerType,
+    triggerConfig: rule.triggerConfig,
+    conditions: rule.conditions,
+    workflow: rule.workflow || workflowFromActions(rule.actions),
+  };
+}
+
+const selectClass = 'w-full h-10 px-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm';
+const labelClass = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1';
+
+interface AutomationRuleEditorProps {
+  /** The rule to edit; omit to create one */
+  rule?: AutomationRule;
+  /** Starting values for a new rule, e.g. from a template */
+  defaults?: { name?: string; triggerType?: TriggerType };
+  onClose: () => void;
+}
+
+export function AutomationRuleEditor({ rule, defaults, onClose }: AutomationRuleEditorProps) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(rule, defaults));
+  const saveRule = useSaveAutomationRule();
+
+  const workflowError = useMemo(() => {
+    try {
+      validateWorkflow(draft.workflow);
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Workflow is not valid';
+    }
+  }, [draft.workflow]);
+
+  // A single group is shown as the top level, so an OR rule does not read as "all of (any of …)"
+  const entryGroup: ConditionGroup = draft.conditions.length === 1 && isConditionGroup(draft.conditions[0])
+    ? draft.conditions[0]
+    : { logic: 'and', conditions: draft.conditions };
+
+  const setConfig = (key: string, value: unknown) =>
+    setDraft({ ...draft, triggerConfig: { ...draft.triggerConfig, [key]: value } });
+
+  const handleSave = () => {
+    saveRule.mutate(
+      {
+        id: rule?.id,
+        rule: {
+          name: draft.name,
+          description: draft.description,
+          triggerType: draft.triggerType,
+          triggerConfig: draft.triggerConfig,
+          conditions: draft.conditions,
+          // The workflow replaces the flat list, including any actions it was converted from
+          actions: [],
+          workflow: draft.workflow,
+        },
+        // New rules start paused; turning them on shows a dry run first
+        isActive: rule ? undefined : false,
+      },
+      { onSuccess: onClose }
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className={labelClass}>Automation Name</label>
+          <Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+        </div>
+        <div>
+          <label className={labelClass}>Trigger</label>
+          <select
+            value={draft.triggerType}
+            onChange={(e) => setDraft({ ...draft, triggerType: e.target.value as TriggerType, triggerConfig: {} })}
+            className={selectClass}
+          >
+            {(Object.keys(TRIGGER_LABELS) as TriggerType[]).map((type) => (
+              <option key={type} value={type}>{TRIGGER_LABELS[type]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label className={labelClass}>Description</label>
+          <Input
+            value={draft.description || ''}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value || null })}
+          />
+        </div>
+
+        {draft.triggerType === 'time_elapsed' && (
+          <>
+            <div>
+              <label className={labelClass}>Counting from</label>
+              <select value={String(draft.triggerConfig.event || '')} onChange={(e) => setConfig('event', e.target.value)} className={selectClass}>
+                <option value="">Choose…</option>
+                {Object.keys(TIME_ELAPSED_SOURCES).map((source) => (
+                  <option key={source} value={source}>{source.replace(/_/g, ' ')}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Days later</label>
+              <Input type="number" min={1} value={String(draft.triggerConfig.delay_days ?? '')} onChange={(e) => setConfig('delay_days', Number(e.target.value) || 0)} />
+            </div>
+          </>
+        )}
+
+        {draft.triggerType === 'scheduled' && (
+          <div className="md:col-span-2">
+            <label className={labelClass}>Schedule (cron, UTC)</label>
+            <Input placeholder="0 14 * * 1" value={String(draft.triggerConfig.cron || '')} onChange={(e) => setConfig('cron', e.target.value)} />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input
+            type="checkbox"
+            className="h-4 w-4"
+            checked={draft.conditions.length > 0}
+            onChange={(e) => setDraft({
+              ...draft,
+              conditions: e.target.checked ? [{ logic: 'and', conditions: [{ ...EMPTY_CONDITION }] }] : [],
+            })}
+          />
+          Only start when…
+        </label>
+        {draft.conditions.length > 0 && (
+          <ConditionGroupEditor
+            group={entryGroup}
+            onChange={(group) => setDraft({ ...draft, conditions: group.logic === 'and' ? group.conditions : [group] })}
+          />
+        )}
+      </div>
+
+      <WorkflowEditor
+        value={draft.workflow}
+        onChange={(workflow) => setDraft({ ...draft, workflow })}
+        triggerLabel={TRIGGER_LABELS[draft.triggerType]}
+      />
+
+      {workflowError && (
+        <div className="flex items-start gap-2 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-red-800 dark:text-red-300">
+          <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          {workflowError}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        {!rule && (
+          <p className="mr-auto text-xs text-gray-500">Starts paused. Turn it on from the list after checking its dry run.</p>
+        )}
+        <Button variant="outline" onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={handleSave}
+          isLoading={saveRule.isPending}
+          disabled={!!workflowError || !draft.name.trim()}
+          leftIcon={<Save className="h-4 w-4" />}
+        >
+          {rule ? 'Save Automation' : 'Create Automation'}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default AutomationRuleEditor;
@@ -0,0 +1,215 @@
+/**
+ * ConditionGroupEditor Component
+ * Nested AND/OR condition groups for automation branches, waits and exit criteria
+ */
+
+import { useEffect, useState } from 'react';
+import { Plus, Trash2, FolderPlus } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { cn } from '@/lib/utils';
+import type { AutomationCondition } from '@/lib/automation/automationService';
+import { isConditionGroup, type ConditionGroup, type ConditionNode } from '@/lib/automation/workflowEngine';
+
+/** Groups deeper than this get hard to read; the engine allows a little more */
+const MAX_EDITOR_DEPTH = 3;
+
+const OPERATORS: { value: AutomationCondition['operator']; label: string }[] = [
+  { value: 'equals', label: 'equals' },
+  { value: 'not_equals', label: 'does not equal' },
+  { value: 'contains', label: 'contains' },
+  { value: 'greater_than', label: 'is greater than' },
+  { value: 'less_than', label: 'is less than' },
+  { value: 'in', label: 'is one of' },
+  { value: 'not_in', label: 'is not one of' },
+  { value: 'is_set', label: 'is set' },
+  { value: 'is_not_set', label: 'is not set' },
+];
+
+/** Id of the datalist the owning editor renders once from CONDITION_FIELD_SUGGESTIONS */
+export const CONDITION_FIELDS_LIST_ID = 'automation-condition-fields';
+
+/** Record fields offered as suggestions; any field path can be typed */
+export const CONDITION_FIELD_SUGGESTIONS = [
+  'status',
+  'viewed_at',
+  'signed_at',
+  'sent_at',
+  'valid_until',
+  'total',
+  'tier',
+  'property_type',
+  'assigned_to',
+  'tags',
+];
+
+const selectClass = 'h-10 px-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm';
+
+export const EMPTY_CONDITION: AutomationCondition = { field: 'status', operator: 'equals', value: '' };
+
+/** Typed values compare strictly, so "5000" becomes a number and "true" a boolean */
+function parseValue(text: string): unknown {
+  const trimmed = text.trim();
+  if (trimmed === 'true' || trimmed === 'false') return trimmed === 'true';
+  if (trimmed !== '' && !Number.isNaN(Number(trimmed))) return Number(trimmed);
+  return text;
+}
+
+function parseList(text: string): unknown[] {
+  return text.split(',').map((part) => part.trim()).filter(Boolean).map(parseValue);
+}
+
+function formatValue(value: unknown): string {
+  return Array.isArray(value) ? value.join(', ') : value === undefined || value === null ? '' : String(value);
+}
+
+/** Keeps the typed text, so "1." or "a, " survive until the next keystroke */
+function ValueInput({ value, isList, onChange }: { value: unknown; isList: boolean; onChange: (value: unknown) => void }) {
+  const [text, setText] = useState(formatValue(value));
+  const parse = isList ? parseList : parseValue;
+
+  useEffect(() => {
+    if (JSON.stringify(parse(text)) !== JSON.stringify(value)) setText(formatValue(value));
+  }, [value, isList]);
+
+  return (
+    <Input
+      className="w-48"
+      value={text}
+      placeholder={isList ? 'a, b, c' : 'value'}
+      onChange={(e) => {
+        setText(e.target.value);
+        onChange(parse(e.target.value));
+      }}
+    />
+  );
+}
+
+function ConditionRow({
+  condition,
+  onChange,
+  onRemove,
+}: {
+  condition: AutomationCondition;
+  onChange: (condition: AutomationCondition) => void;
+  onRemove: () => void;
+}) {
+  const isList = condition.operator === 'in' || condition.operator === 'not_in';
+  const needsValue = condition.operator !== 'is_set' && condition.operator !== 'is_not_set';
+
+  const changeOperator = (operator: AutomationCondition['operator']) => {
+    const toList = operator === 'in' || operator === 'not_in';
+    const value = toList === isList
+      ? condition.value
+      : toList
+        ? parseList(formatValue(condition.value))
+        : parseValue(formatValue(condition.value));
+    onChange({ ...condition, operator, value });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Input
+        className="w-40"
+        list={CONDITION_FIELDS_LIST_ID}
+        value={condition.field}
+        onChange={(e) => onChange({ ...condition, field: e.target.value.trim() })}
+        placeholder="field"
+      />
+      <select value={condition.operator} onChange={(e) => changeOperator(e.target.value as AutomationCondition['operator'])} className={selectClass}>
+        {OPERATORS.map((operator) => (<option key={operator.value} value={operator.value}>{operator.label}</option>))}
+      </select>
+      {needsValue && (
+        <ValueInput value={condition.value} isList={isList} onChange={(value) => onChange({ ...condition, value })} />
+      )}
+      <Button variant="ghost" size="sm" onClick={onRemove} aria-label="Remove condition">
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+interface ConditionGroupEditorProps {
+  group: ConditionGroup;
+  onChange: (group: ConditionGroup) => void;
+  /** Shown on nested groups only; the top-level group is removed by its owner */
+  onRemove?: () => void;
+  depth?: number;
+}
+
+export function ConditionGroupEditor({ group, onChange, onRemove, depth = 0 }: ConditionGroupEditorProps) {
+  const updateNode = (index: number, node: ConditionNode) =>
+    onChange({ ...group, conditions: group.conditions.map((current, i) => (i === index ? node : current)) });
+  const removeNode = (index: number) =>
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+
+  return (
+    <div className={cn('space-y-2', depth > 0 && 'p-3 rounded-lg border border-dashed border-gray-300 dark:border-gray-600')}>
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-gray-500">Match</span>
+        <select
+          value={group.logic}
+          onChange={(e) => onChange({ ...group, logic: e.target.value as ConditionGroup['logic'] })}
+          className={cn(selectClass, 'h-8')}
+        >
+          <option value="and">all of (AND)</option>
+          <option value="or">any of (OR)</option>
+        </select>
+        {onRemove && (
+          <Button variant="ghost" size="sm" onClick={onRemove} className="ml-auto" aria-label="Remove group">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {group.conditions.map((node, index) =>
+        isConditionGroup(node) ? (
+          <ConditionGroupEditor
+            key={index}
+            group={node}
+            depth={depth + 1}
+            onChange={(updated) => updateNode(index, updated)}
+            onRemove={() => removeNode(index)}
+          />
+        ) : (
+          <ConditionRow
+            key={index}
+            condition={node}
+            onChange={(updated) => updateNode(index, updated)}
+            onRemove={() => removeNode(index)}
+          />
+        )
+      )}
+
+      {group.conditions.length === 0 && (
+        <p className="text-xs text-amber-600">Add at least one condition</p>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          leftIcon={<Plus className="h-4 w-4" />}
+          onClick={() => onChange({ ...group, conditions: [...group.conditions, { ...EMPTY_CONDITION }] })}
+        >
+          Condition
+        </Button>
+        {depth < MAX_EDITOR_DEPTH - 1 && (
+          <Button
+            variant="outline"
+            size="sm"
+            leftIcon={<FolderPlus className="h-4 w-4" />}
+            onClick={() => onChange({
+              ...group,
+              conditions: [...group.conditions, { logic: group.logic === 'and' ? 'or' : 'and', conditions: [{ ...EMPTY_CONDITION }] }],
+            })}
+          >
+            Group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default ConditionGroupEditor;
@@ -0,0 +1,212 @@
+/**
+ * RuleSimulationPanel Component
+ * Dry run of a rule against past trigger events: who would have matched and what would have gone out
+ */
+
+import { useState } from 'react';
+import { AlertTriangle, CheckSquare, Globe, Mail, MessageSquare, Pencil, Play } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { useRuleSimulation } from '@/hooks/useAutomations';
+import {
+  DEFAULT_SIMULATION_DAYS,
+  type SimulatedEvent,
+  type SimulatedRule,
+  type SimulationOutcome,
+} from '@/lib/automation/automationSimulator';
+import type { PlannedAction } from '@/lib/automation/automationService';
+
+const DAY_OPTIONS = [7, DEFAULT_SIMULATION_DAYS, 90, 180];
+
+const OUTCOME_LABELS: Record<SimulationOutcome, string> = {
+  matched: 'Would run',
+  conditions: 'Conditions not met',
+  cooldown: 'Skipped by cooldown',
+  max_executions: 'Over the run limit',
+};
+
+const CHANNEL_ICONS: Record<PlannedAction['channel'], React.ElementType> = {
+  email: Mail,
+  sms: MessageSquare,
+  task: CheckSquare,
+  record: Pencil,
+  webhook: Globe,
+  slack: MessageSquare,
+};
+
+function formatDelay(minutes: number): string {
+  if (minutes % 1440 === 0) return `${minutes / 1440}d`;
+  if (minutes % 60 === 0) return `${minutes / 60}h`;
+  return `${minutes}m`;
+}
+
+/** Planned messages and side effects, with the warnings each would raise */
+export function PlannedActionList({ actions }: { actions: PlannedAction[] }) {
+  if (actions.length === 0) {
+    return <p className="text-xs text-gray-500">No actions</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {actions.map((action, i) => {
+        const Icon = CHANNEL_ICONS[action.channel];
+        return (
+          <li key={i} className="text-sm">
+            <div className="flex items-start gap-2">
+              <Icon className="h-4 w-4 mt-0.5 text-gray-400 flex-shrink-0" />
+              <div className="min-w-0">
+                <p className="text-gray-900 dark:text-white">
+                  {action.summary}
+                  {action.delayMinutes ? (
+                    <span className="ml-2 text-xs text-gray-500">after {formatDelay(action.delayMinutes)}</span>
+                  ) : null}
+                </p>
+                {action.subject && <p className="text-xs text-gray-500 truncate">Subject: {action.subject}</p>}
+                {action.body && (
+                  <p className="text-xs text-gray-500 whitespace-pre-line line-clamp-3">{action.body}</p>
+                )}
+                {action.warnings.map((warning) => (
+                  <p key={warning} className="text-xs text-amber-700 dark:text-amber-400">{warning}</p>
+                ))}
+              </div>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function SimulatedEventRow({ event }: { event: SimulatedEvent }) {
+  const [open, setOpen] = useState(false);
+  const matched = event.outcome === 'matched';
+
+  return (
+    <div className="border-b border-gray-100 dark:border-gray-800 last:border-0">
+      <button
+        type="button"
+        className="w-full flex items-center justify-between gap-3 py-2 text-left text-sm"
+        onClick={() => setOpen(!open)}
+        disabled={!matched}
+      >
+        <span className={matched ? 'text-gray-900 dark:text-white' : 'text-gray-400'}>{event.label}</span>
+        <span className="flex items-center gap-3 text-xs text-gray-500 flex-shrink-0">
+          {matched ? `${event.planned.length} action${event.planned.length === 1 ? '' : 's'}` : OUTCOME_LABELS[event.outcome]}
+          <span>{new Date(event.occurredAt).toLocaleDateString()}</span>
+        </span>
+      </button>
+      {open && (
+        <div className="pb-3 pl-4">
+          <PlannedActionList actions={event.planned} />
+          {event.workflowStatus && event.workflowStatus !== 'completed' && (
+            <p className="mt-2 text-xs text-gray-500">Workflow would end as {event.workflowStatus}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface RuleSimulationPanelProps {
+  rule: Omit<SimulatedRule, 'orgId'>;
+  /** Shown as the primary button, e.g. to enable the rule once the dry run looks right */
+  confirmLabel?: string;
+  onConfirm?: () => void;
+  isConfirming?: boolean;
+  onClose: () => void;
+}
+
+export function RuleSimulationPanel({ rule, confirmLabel, onConfirm, isConfirming, onClose }: RuleSimulationPanelProps) {
+  const [days, setDays] = useState(DEFAULT_SIMULATION_DAYS);
+  const simulation = useRuleSimulation(rule, days);
+  const result = simulation.data;
+
+  const skipped = result ? Object.values(result.skipped).reduce((sum, n) => sum + n, 0) : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-gray-500">
+          Replays this rule against what actually happened. Nothing is sent.
+        </p>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="h-9 px-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm"
+        >
+          {DAY_OPTIONS.map((option) => (
+            <option key={option} value={option}>Last {option} days</option>
+          ))}
+        </select>
+      </div>
+
+      {simulation.isLoading && <p className="text-sm text-gray-500 py-6 text-center">Running dry run…</p>}
+
+      {simulation.error && (
+        <p className="text-sm text-red-600 py-6 text-center">
+          {simulation.error instanceof Error ? simulation.error.message : 'Dry run failed'}
+        </p>
+      )}
+
+      {result && (
+        <>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {[
+              { label: 'Would have run', value: result.matched },
+              { label: 'Emails', value: result.emails },
+              { label: 'Texts', value: result.texts },
+              { label: 'People contacted', value: result.recipients },
+            ].map((stat) => (
+              <div key={stat.label} className="p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+                <p className="text-xl font-bold text-gray-900 dark:text-white">{stat.value}</p>
+                <p className="text-xs text-gray-500">{stat.label}</p>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-xs text-gray-500">
+            {result.eventsScanned} event{result.eventsScanned === 1 ? '' : 's'} between{' '}
+            {new Date(result.from).toLocaleDateString()} and {new Date(result.to).toLocaleDateString()}
+            {skipped > 0 && `, ${skipped} skipped`}
+            {result.maxPerRecipient > 1 && `; up to ${result.maxPerRecipient} messages to one person`}
+          </p>
+
+          {result.warnings.length > 0 && (
+            <div className="space-y-1 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20">
+              {result.warnings.map((warning) => (
+                <p key={warning} className="flex items-start gap-2 text-sm text-amber-800 dark:text-amber-300">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  {warning}
+                </p>
+              ))}
+            </div>
+          )}
+
+          <div className="max-h-80 overflow-y-auto">
+            {result.events.map((event) => (
+              <SimulatedEventRow key={`${event.entityId}-${event.occurredAt}`} event={event} />
+            ))}
+            {result.events.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-6">Nothing would have triggered this rule</p>
+            )}
+          </div>
+        </>
+      )}
+
+      <div className="flex justify-end gap-3">
+        <Button variant="outline" onClick={onClose}>{onConfirm ? 'Cancel' : 'Close'}</Button>
+        {onConfirm && (
+          <Button
+            onClick={onConfirm}
+            isLoading={isConfirming}
+            disabled={simulation.isLoading}
+            leftIcon={<Play className="h-4 w-4" />}
+          >
+            {confirmLabel || 'Enable'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default RuleSimulationPanel;
@@ -0,0 +1,419 @@
+/**
+ * WorkflowEditor Component
+ * Visual editor for automation workflows: a flow of actions, if/else
+ * branches and waits drawn from the trigger down, plus exit criteria
+ */
+
+import { useState, type ReactNode } from 'react';
+import { Plus, Trash2, GitBranch, Clock, Zap, LogOut, Flag } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { cn } from '@/lib/utils';
+import {
+  ConditionGroupEditor,
+  CONDITION_FIELD_SUGGESTIONS,
+  CONDITION_FIELDS_LIST_ID,
+  EMPTY_CONDITION,
+} from './ConditionGroupEditor';
+import type { ActionType, AutomationAction } from '@/lib/automation/automationService';
+import {
+  getNextStepIds,
+  type AutomationWorkflow,
+  type WorkflowStep,
+  type WorkflowStepType,
+} from '@/lib/automation/workflowEngine';
+
+// ============================================================================
+// ACTIONS
+// ============================================================================
+
+interface ActionField {
+  key: string;
+  label: string;
+  placeholder?: string;
+  type?: 'number';
+}
+
+export const ACTION_OPTIONS: Record<ActionType, { label: string; fields: ActionField[] }> = {
+  send_email: {
+    label: 'Send email',
+    fields: [
+      { key: 'to', label: 'To', placeholder: '{{client_email}}' },
+      { key: 'subject', label: 'Subject', placeholder: 'Your proposal {{proposal_number}}' },
+      { key: 'message', label: 'Message', placeholder: 'Hello, your proposal {{proposal_number}} is ready' },
+      { key: 'template_id', label: 'Template' },
+    ],
+  },
+  send_reminder: {
+    label: 'Send reminder',
+    fields: [
+      { key: 'to', label: 'To', placeholder: '{{client_email}}' },
+      { key: 'subject', label: 'Subject', placeholder: 'Following up on your proposal' },
+      { key: 'message', label: 'Message', placeholder: 'Leave empty for the standard reminder' },
+    ],
+  },
+  send_sms: {
+    label: 'Send SMS',
+    fields: [
+      { key: 'to', label: 'To', placeholder: '{{client_phone}}' },
+      { key: 'message', label: 'Message' },
+    ],
+  },
+  create_task: {
+    label: 'Create task',
+    fields: [
+      { key: 'title', label: 'Title', placeholder: 'Call about {{proposal_number}}' },
+      { key: 'assignee', label: 'Assignee' },
+      { key: 'due_days', label: 'Due in (days)', type: 'number' },
+    ],
+  },
+  update_status: { label: 'Update status', fields: [{ key: 'status', label: 'Status' }] },
+  add_tag: { label: 'Add tag', fields: [{ key: 'tag', label: 'Tag' }] },
+  remove_tag: { label: 'Remove tag', fields: [{ key: 'tag', label: 'Tag' }] },
+  webhook: {
+    label: 'Call webhook',
+    fields: [
+      { key: 'url', label: 'URL', placeholder: 'https://' },
+      { key: 'method', label: 'Method', placeholder: 'POST' },
+    ],
+  },
+  slack_notify: {
+    label: 'Slack message',
+    fields: [
+      { key: 'webhook_url', label: 'Webhook URL', placeholder: 'https://hooks.slack.com/…' },
+      { key: 'channel', label: 'Channel', placeholder: '#sales' },
+      { key: 'message', label: 'Message' },
+    ],
+  },
+  assign_user: { label: 'Assign user', fields: [{ key: 'user_id', label: 'User' }] },
+};
+
+// ============================================================================
+// GRAPH EDITING
+// ============================================================================
+
+/** A link that can point at a step: the start, or one exit of a step */
+type Slot = { stepId: null } | { stepId: string; exit: 'next' | 'then' | 'else' };
+
+const START: Slot = { stepId: null };
+
+function getSlotTarget(workflow: AutomationWorkflow, slot: Slot): string | null {
+  if (slot.stepId === null) return workflow.startStepId;
+  const step = workflow.steps.find((s) => s.id === slot.stepId);
+  if (!step) return null;
+  return step.type === 'branch' ? (slot.exit === 'else' ? step.else : step.then) : step.next;
+}
+
+function setSlotTarget(workflow: AutomationWorkflow, slot: Slot, target: string | null): AutomationWorkflow {
+  if (slot.stepId === null) return { ...workflow, startStepId: target };
+  return {
+    ...workflow,
+    steps: workflow.steps.map((step) => {
+      if (step.id !== slot.stepId) return step;
+      if (step.type === 'branch') return slot.exit === 'else' ? { ...step, else: target } : { ...step, then: target };
+      return { ...step, next: target };
+    }),
+  };
+}
+
+function createStep(type: WorkflowStepType, id: string, next: string | null): WorkflowStep {
+  switch (type) {
+    case 'action':
+      return { id, type, action: { type: 'send_email', config: {} }, next };
+    case 'branch':
+      return { id, type, condition: { logic: 'and', conditions: [{ field: 'viewed_at', operator: 'is_set', value: '' }] }, then: next, else: null };
+    case 'wait':
+      return { id, type, until: null, timeoutMinutes: 3 * 24 * 60, next };
+  }
+}
+
+function insertStep(workflow: AutomationWorkflow, slot: Slot, type: WorkflowStepType): AutomationWorkflow {
+  const taken = new Set(workflow.steps.map((step) => step.id));
+  let id = '';
+  for (let n = workflow.steps.length + 1; !id || taken.has(id); n++) id = `${type}_${n}`;
+
+  const step = createStep(type, id, getSlotTarget(workflow, slot));
+  return setSlotTarget({ ...workflow, steps: [...workflow.steps, step] }, slot, id);
+}
+
+/** Removing a branch keeps its Yes path; steps left unreachable go with it */
+function removeStep(workflow: AutomationWorkflow, stepId: string): AutomationWorkflow {
+  const removed = workflow.steps.find((step) => step.id === stepId);
+  if (!removed) return workflow;
+  const continuation = removed.type === 'branch' ? removed.then : removed.next;
+  const relink = (target: string | null) => (target === stepId ? continuation : target);
+
+  const steps = workflow.steps
+    .filter((step) => step.id !== stepId)
+    .map((step): WorkflowStep =>
+      step.type === 'branch'
+        ? { ...step, then: relink(step.then), else: relink(step.else) }
+        : { ...step, next: relink(step.next) }
+    );
+  const startStepId = relink(workflow.startStepId);
+
+  const byId = new Map(steps.map((step) => [step.id, step]));
+  const reachable = new Set<string>();
+  const pending = startStepId ? [startStepId] : [];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    const step = byId.get(id);
+    if (!step || reachable.has(id)) continue;
+    reachable.add(id);
+    pending.push(...getNextStepIds(step).filter((next): next is string => next !== null));
+  }
+
+  return { ...workflow, startStepId, steps: steps.filter((step) => reachable.has(step.id)) };
+}
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+const selectClass = 'w-full h-10 px-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm';
+
+const STEP_STYLES: Record<WorkflowStepType, { label: string; icon: React.ElementType; className: string }> = {
+  action: { label: 'Action', icon: Zap, className: 'border-blue-200 dark:border-blue-900 bg-blue-50/50 dark:bg-blue-900/10' },
+  branch: { label: 'If / else', icon: GitBranch, className: 'border-purple-200 dark:border-purple-900 bg-purple-50/50 dark:bg-purple-900/10' },
+  wait: { label: 'Wait', icon: Clock, className: 'border-amber-200 dark:border-amber-900 bg-amber-50/50 dark:bg-amber-900/10' },
+};
+
+function Connector({ children }: { children?: ReactNode }) {
+  return (
+    <div className="flex flex-col items-center">
+      <div className="w-px h-4 bg-gray-300 dark:bg-gray-600" />
+      {children}
+    </div>
+  );
+}
+
+function InsertButton({ onInsert }: { onInsert: (type: WorkflowStepType) => void }) {
+  const [open, setOpen] = useState(false);
+
+  if (!open) {
+    return (
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="p-1 rounded-full border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-500 hover:text-gray-900 dark:hover:text-white"
+        aria-label="Add step"
+      >
+        <Plus className="h-3 w-3" />
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex gap-1 p-1 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-sm">
+      {(Object.keys(STEP_STYLES) as WorkflowStepType[]).map((type) => {
+        const Icon = STEP_STYLES[type].icon;
+        return (
+          <Button key={type} variant="ghost" size="sm" leftIcon={<Icon className="h-3 w-3" />} onClick={() => { onInsert(type); setOpen(false); }}>
+            {STEP_STYLES[type].label}
+          </Button>
+        );
+      })}
+      <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>Cancel</Button>
+    </div>
+  );
+}
+
+function ActionFields({ action, onChange }: { action: AutomationAction; onChange: (action: AutomationAction) => void }) {
+  const option = ACTION_OPTIONS[action.type];
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      <div className="md:col-span-2">
+        <select
+          value={action.type}
+          onChange={(e) => onChange({ type: e.target.value as ActionType, config: {} })}
+          className={selectClass}
+        >
+          {(Object.keys(ACTION_OPTIONS) as ActionType[]).map((type) => (
+            <option key={type} value={type}>{ACTION_OPTIONS[type].label}</option>
+          ))}
+        </select>
+      </div>
+      {option?.fields.map((field) => (
+        <div key={field.key}>
+          <label className="block text-xs text-gray-500 mb-1">{field.label}</label>
+          <Input
+            type={field.type === 'number' ? 'number' : 'text'}
+            placeholder={field.placeholder}
+            value={String(action.config[field.key] ?? '')}
+            onChange={(e) => onChange({
+              ...action,
+              config: {
+                ...action.config,
+                [field.key]: field.type === 'number' && e.target.value !== '' ? Number(e.target.value) : e.target.value,
+              },
+            })}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function WaitFields({ step, onChange }: { step: Extract<WorkflowStep, { type: 'wait' }>; onChange: (step: WorkflowStep) => void }) {
+  const days = Math.floor(step.timeoutMinutes / (24 * 60));
+  const hours = Math.floor((step.timeoutMinutes % (24 * 60)) / 60);
+  const setDuration = (d: number, h: number) => onChange({ ...step, timeoutMinutes: Math.max(0, d) * 24 * 60 + Math.max(0, h) * 60 });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2 text-sm">
+        <span>{step.until ? 'Wait up to' : 'Wait'}</span>
+        <Input type="number" min={0} className="w-20" value={days} onChange={(e) => setDuration(Number(e.target.value) || 0, hours)} />
+        <span>days</span>
+        <Input type="number" min={0} max={23} className="w-20" value={hours} onChange={(e) => setDuration(days, Number(e.target.value) || 0)} />
+        <span>hours</span>
+      </div>
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          className="h-4 w-4"
+          checked={step.until !== null}
+          onChange={(e) => onChange({
+            ...step,
+            until: e.target.checked ? { logic: 'or', conditions: [{ field: 'viewed_at', operator: 'is_set', value: '' }] } : null,
+          })}
+        />
+        Continue early when…
+      </label>
+      {step.until && <ConditionGroupEditor group={step.until} onChange={(until) => onChange({ ...step, until })} />}
+    </div>
+  );
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+interface WorkflowEditorProps {
+  value: AutomationWorkflow;
+  onChange: (workflow: AutomationWorkflow) => void;
+  /** Shown at the top of the flow, e.g. "When proposal is sent" */
+  triggerLabel: string;
+}
+
+export function WorkflowEditor({ value, onChange, triggerLabel }: WorkflowEditorProps) {
+  const updateStep = (updated: WorkflowStep) =>
+    onChange({ ...value, steps: value.steps.map((step) => (step.id === updated.id ? updated : step)) });
+
+  const renderPath = (slot: Slot): ReactNode => {
+    const target = getSlotTarget(value, slot);
+    const step = target ? value.steps.find((s) => s.id === target) : undefined;
+
+    return (
+      <>
+        <Connector>
+          <InsertButton onInsert={(type) => onChange(insertStep(value, slot, type))} />
+        </Connector>
+        {step ? (
+          <>
+            <Connector />
+            {renderStep(step)}
+          </>
+        ) : (
+          <Connector>
+            <span className="flex items-center gap-1 text-xs text-gray-400"><Flag className="h-3 w-3" />End</span>
+          </Connector>
+        )}
+      </>
+    );
+  };
+
+  const renderStep = (step: WorkflowStep): ReactNode => {
+    const style = STEP_STYLES[step.type];
+    const Icon = style.icon;
+
+    return (
+      <div className="flex flex-col items-center w-full">
+        <div className={cn('w-full max-w-xl p-4 rounded-lg border space-y-3', style.className)}>
+          <div className="flex items-center gap-2">
+            <Icon className="h-4 w-4" />
+            <Input
+              className="h-8 flex-1"
+              placeholder={style.label}
+              value={step.label || ''}
+              onChange={(e) => updateStep({ ...step, label: e.target.value || undefined })}
+            />
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(removeStep(value, step.id))}
+              aria-label={step.type === 'branch' ? 'Remove step and its No path' : 'Remove step'}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {step.type === 'action' && (
+            <ActionFields action={step.action} onChange={(action) => updateStep({ ...step, action })} />
+          )}
+          {step.type === 'branch' && (
+            <div>
+              <p className="text-xs text-gray-500 mb-2">If</p>
+              <ConditionGroupEditor group={step.condition} onChange={(condition) => updateStep({ ...step, condition })} />
+            </div>
+          )}
+          {step.type === 'wait' && <WaitFields step={step} onChange={updateStep} />}
+        </div>
+
+        {step.type === 'branch' ? (
+          <div className="grid grid-cols-2 gap-4 w-full">
+            {(['then', 'else'] as const).map((exit) => (
+              <div key={exit} className="flex flex-col items-center">
+                <Connector>
+                  <span className={cn('text-xs font-medium', exit === 'then' ? 'text-green-600' : 'text-red-600')}>
+                    {exit === 'then' ? 'Yes' : 'No'}
+                  </span>
+                </Connector>
+                {renderPath({ stepId: step.id, exit })}
+              </div>
+            ))}
+          </div>
+        ) : (
+          renderPath({ stepId: step.id, exit: 'next' })
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <datalist id={CONDITION_FIELDS_LIST_ID}>
+        {CONDITION_FIELD_SUGGESTIONS.map((field) => (<option key={field} value={field} />))}
+      </datalist>
+
+      <div className="flex flex-col items-center overflow-x-auto">
+        <div className="px-4 py-2 rounded-full bg-gray-900 text-white dark:bg-white dark:text-gray-900 text-sm font-medium">
+          {triggerLabel}
+        </div>
+        {renderPath(START)}
+      </div>
+
+      <div className="p-4 rounded-lg border border-gray-200 dark:border-gray-700 space-y-3">
+        <label className="flex items-center gap-2 text-sm font-medium">
+          <input
+            type="checkbox"
+            className="h-4 w-4"
+            checked={value.exitWhen !== null}
+            onChange={(e) => onChange({
+              ...value,
+              exitWhen: e.target.checked ? { logic: 'or', conditions: [{ ...EMPTY_CONDITION, value: 'accepted' }] } : null,
+            })}
+          />
+          <LogOut className="h-4 w-4" />
+          Stop the workflow as soon as…
+        </label>
+        {value.exitWhen && (
+          <ConditionGroupEditor group={value.exitWhen} onChange={(exitWhen) => onChange({ ...value, exitWhen })} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default WorkflowEditor;
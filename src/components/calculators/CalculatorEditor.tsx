@@ -0,0 +1,316 @@
+/**
+ * CalculatorEditor Component
+ * Org-owned calculators: inputs, outputs, lookup tables and the formula with a live preview
+ */
+
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { Plus, Trash2, Save, Copy, Pencil } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { FormulaEditor } from './FormulaEditor';
+import { useCalculators, useDeleteCalculator, useOrgIndustries, useSaveCalculator } from '@/hooks/useCalculators';
+import {
+  compileCalculatorFormula,
+  getCalculatorFormulaContext,
+  type Calculator,
+  type CalculatorInput,
+  type CalculatorOutput,
+} from '@/lib/industries/industriesService';
+import type { LookupTable } from '@/lib/formulas';
+
+type Draft = Pick<Calculator, 'name' | 'description' | 'inputSchema' | 'outputSchema' | 'lookupTables' | 'formula'> & {
+  /** Set only when editing an existing org calculator */
+  id?: string;
+};
+
+const EMPTY_DRAFT: Draft = {
+  name: 'New Calculator',
+  description: null,
+  inputSchema: [{ key: 'area', label: 'Area', type: 'number', required: true, unit: 'sqft', defaultValue: 10000 }],
+  outputSchema: [{ key: 'total', label: 'Total', type: 'currency', unit: 'usd' }],
+  lookupTables: {},
+  formula: '# Price per square foot, with a minimum charge\ntotal = max(area * 0.18 usd/sqft, $250)',
+};
+
+const selectClass = 'w-full h-10 px-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm';
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+      {children}
+    </div>
+  );
+}
+
+function InputRow({ input, onChange, onRemove }: { input: CalculatorInput; onChange: (input: CalculatorInput) => void; onRemove: () => void }) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+      <Field label="Name"><Input value={input.key} onChange={(e) => onChange({ ...input, key: e.target.value.replace(/[^A-Za-z0-9_]/g, '') })} /></Field>
+      <Field label="Label"><Input value={input.label} onChange={(e) => onChange({ ...input, label: e.target.value })} /></Field>
+      <Field label="Type">
+        <select value={input.type} onChange={(e) => onChange({ ...input, type: e.target.value as CalculatorInput['type'] })} className={selectClass}>
+          <option value="number">Number</option>
+          <option value="select">Choice</option>
+          <option value="boolean">Yes / No</option>
+        </select>
+      </Field>
+      {input.type === 'number' && (
+        <Field label="Unit"><Input placeholder="sqft" value={input.unit || ''} onChange={(e) => onChange({ ...input, unit: e.target.value || undefined })} /></Field>
+      )}
+      {input.type === 'select' && (
+        <Field label="Choices">
+          <Input
+            placeholder="A, B, C"
+            value={(input.options || []).map((option) => option.value).join(', ')}
+            onChange={(e) => onChange({
+              ...input,
+              options: e.target.value.split(',').map((value) => value.trim()).filter(Boolean).map((value) => ({ value, label: value })),
+            })}
+          />
+        </Field>
+      )}
+      {input.type === 'boolean' && <div />}
+      <Field label="Default"><Input value={String(input.defaultValue ?? '')} onChange={(e) => onChange({ ...input, defaultValue: e.target.value || undefined })} /></Field>
+      <div className="flex items-center gap-3 pb-2">
+        <label className="flex items-center gap-1 text-sm">
+          <input type="checkbox" checked={input.required} onChange={(e) => onChange({ ...input, required: e.target.checked })} />
+          Required
+        </label>
+        <Button size="sm" variant="ghost" onClick={onRemove}><Trash2 className="h-3 w-3" /></Button>
+      </div>
+    </div>
+  );
+}
+
+function OutputRow({ output, onChange, onRemove }: { output: CalculatorOutput; onChange: (output: CalculatorOutput) => void; onRemove: () => void }) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+      <Field label="Name"><Input value={output.key} onChange={(e) => onChange({ ...output, key: e.target.value.replace(/[^A-Za-z0-9_]/g, '') })} /></Field>
+      <Field label="Label"><Input value={output.label} onChange={(e) => onChange({ ...output, label: e.target.value })} /></Field>
+      <Field label="Display">
+        <select value={output.type} onChange={(e) => onChange({ ...output, type: e.target.value as CalculatorOutput['type'] })} className={selectClass}>
+          <option value="number">Number</option>
+          <option value="currency">Currency</option>
+          <option value="text">Text</option>
+        </select>
+      </Field>
+      <Field label="Unit"><Input placeholder="gal" value={output.unit || ''} onChange={(e) => onChange({ ...output, unit: e.target.value || undefined })} /></Field>
+      <div className="pb-2"><Button size="sm" variant="ghost" onClick={onRemove}><Trash2 className="h-3 w-3" /></Button></div>
+    </div>
+  );
+}
+
+export function CalculatorEditor() {
+  const { data: industries = [] } = useOrgIndustries();
+  const [industryId, setIndustryId] = useState<string>();
+  const { data: calculators = [], isLoading } = useCalculators(industryId);
+  const saveCalculator = useSaveCalculator();
+  const deleteCalculator = useDeleteCalculator();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [tablesText, setTablesText] = useState('{}');
+  const [tablesError, setTablesError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!industryId && industries.length > 0) {
+      setIndustryId((industries.find((industry) => industry.isPrimary) || industries[0]).id);
+    }
+  }, [industries, industryId]);
+
+  const openDraft = (next: Draft) => {
+    setDraft(next);
+    setTablesText(JSON.stringify(next.lookupTables, null, 2));
+    setTablesError(null);
+  };
+
+  const updateTables = (text: string) => {
+    setTablesText(text);
+    try {
+      const parsed = JSON.parse(text || '{}') as Record<string, LookupTable>;
+      setDraft((current) => current && { ...current, lookupTables: parsed });
+      setTablesError(null);
+    } catch (err) {
+      setTablesError((err as Error).message);
+    }
+  };
+
+  const context = useMemo(() => (draft ? getCalculatorFormulaContext(draft) : { variables: {} }), [draft]);
+  const defaults = useMemo(
+    () => Object.fromEntries((draft?.inputSchema || []).filter((input) => input.defaultValue !== undefined).map((input) => [input.key, input.defaultValue])),
+    [draft?.inputSchema]
+  );
+  const compile = useCallback(
+    (formula: string) => compileCalculatorFormula({ ...draft!, formula }),
+    [draft]
+  );
+
+  if (industries.length === 0) {
+    return <p className="text-sm text-gray-500">Choose your industries before adding calculators.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Calculators</CardTitle>
+          <CardDescription>Built-in calculators can be duplicated and customized for your pricing</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {industries.length > 1 && (
+            <select value={industryId || ''} onChange={(e) => { setIndustryId(e.target.value); setDraft(null); }} className={selectClass}>
+              {industries.map((industry) => (<option key={industry.id} value={industry.id}>{industry.displayName}</option>))}
+            </select>
+          )}
+
+          {isLoading && <p className="text-sm text-gray-500">Loading calculators…</p>}
+
+          {calculators.map((calculator) => (
+            <div key={calculator.id} className="flex items-center justify-between p-3 rounded-lg bg-gray-50 dark:bg-gray-800">
+              <div>
+                <p className="font-medium text-sm">{calculator.name}</p>
+                <p className="text-xs text-gray-500">{calculator.orgId ? 'Custom' : 'Built-in'}{calculator.description && ` · ${calculator.description}`}</p>
+              </div>
+              <div className="flex gap-2">
+                {calculator.orgId ? (
+                  <>
+                    <Button size="sm" variant="outline" leftIcon={<Pencil className="h-3 w-3" />} onClick={() => openDraft(calculator)}>Edit</Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      leftIcon={<Trash2 className="h-3 w-3" />}
+                      onClick={() => {
+                        deleteCalculator.mutate(calculator.id);
+                        if (draft?.id === calculator.id) setDraft(null);
+                      }}
+                    >
+                      Delete
+                    </Button>
+                  </>
+                ) : (
+                  <Button size="sm" variant="outline" leftIcon={<Copy className="h-3 w-3" />} onClick={() => openDraft({
+                      name: `${calculator.name} (Custom)`,
+                      description: calculator.description,
+                      inputSchema: calculator.inputSchema,
+                      outputSchema: calculator.outputSchema,
+                      lookupTables: calculator.lookupTables,
+                      formula: calculator.formula,
+                    })}>
+                    Duplicate
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+
+          <Button size="sm" variant="outline" leftIcon={<Plus className="h-3 w-3" />} onClick={() => openDraft(EMPTY_DRAFT)}>
+            New Calculator
+          </Button>
+        </CardContent>
+      </Card>
+
+      {draft && (
+        <>
+          <Card>
+            <CardHeader><CardTitle className="text-base">{draft.id ? 'Edit Calculator' : 'New Calculator'}</CardTitle></CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <Field label="Name"><Input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} /></Field>
+                <Field label="Description"><Input value={draft.description || ''} onChange={(e) => setDraft({ ...draft, description: e.target.value || null })} /></Field>
+              </div>
+
+              <div className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+                <p className="text-sm font-medium">Inputs</p>
+                {draft.inputSchema.map((input, index) => (
+                  <InputRow
+                    key={index}
+                    input={input}
+                    onChange={(updated) => setDraft({ ...draft, inputSchema: draft.inputSchema.map((i, n) => (n === index ? updated : i)) })}
+                    onRemove={() => setDraft({ ...draft, inputSchema: draft.inputSchema.filter((_, n) => n !== index) })}
+                  />
+                ))}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  leftIcon={<Plus className="h-3 w-3" />}
+                  onClick={() => setDraft({ ...draft, inputSchema: [...draft.inputSchema, { key: `input${draft.inputSchema.length + 1}`, label: 'Input', type: 'number', required: true }] })}
+                >
+                  Add Input
+                </Button>
+              </div>
+
+              <div className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+                <p className="text-sm font-medium">Outputs</p>
+                {draft.outputSchema.map((output, index) => (
+                  <OutputRow
+                    key={index}
+                    output={output}
+                    onChange={(updated) => setDraft({ ...draft, outputSchema: draft.outputSchema.map((o, n) => (n === index ? updated : o)) })}
+                    onRemove={() => setDraft({ ...draft, outputSchema: draft.outputSchema.filter((_, n) => n !== index) })}
+                  />
+                ))}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  leftIcon={<Plus className="h-3 w-3" />}
+                  onClick={() => setDraft({ ...draft, outputSchema: [...draft.outputSchema, { key: `result${draft.outputSchema.length + 1}`, label: 'Result', type: 'number' }] })}
+                >
+                  Add Output
+                </Button>
+              </div>
+
+              <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
+                <Field label="Lookup Tables (JSON)">
+                  <textarea
+                    value={tablesText}
+                    onChange={(e) => updateTables(e.target.value)}
+                    rows={4}
+                    spellCheck={false}
+                    placeholder='{ "rates": { "kind": "exact", "entries": { "A": 0.18 }, "unit": "usd/sqft" } }'
+                    className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 font-mono text-xs"
+                  />
+                </Field>
+                {tablesError && <p className="text-sm text-red-600 mt-1">{tablesError}</p>}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Formula</CardTitle>
+              <CardDescription>
+                One step per line. Units like sqft, gal and usd/sqft are checked; use min, max, round, ceil, if and lookup
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <FormulaEditor
+                value={draft.formula}
+                onChange={(formula) => setDraft({ ...draft, formula })}
+                context={context}
+                compile={compile}
+                defaults={defaults}
+              />
+            </CardContent>
+          </Card>
+
+          <div className="flex justify-end gap-3">
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button
+              leftIcon={<Save className="h-4 w-4" />}
+              disabled={!!tablesError || !industryId}
+              isLoading={saveCalculator.isPending}
+              onClick={() => saveCalculator.mutate(
+                { id: draft.id, industryId: industryId!, calculator: draft },
+                { onSuccess: (saved) => openDraft(saved) }
+              )}
+            >
+              Save Calculator
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export default CalculatorEditor;
@@ -0,0 +1,160 @@
+/**
+ * FormulaEditor Component
+ * Formula text area with inline errors and a live preview against sample inputs
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Input } from '@/components/ui/Input';
+import {
+  evaluateFormula,
+  formatFormulaValue,
+  FormulaError,
+  type CompiledFormula,
+  type FormulaContext,
+  type FormulaValue,
+} from '@/lib/formulas';
+
+interface FormulaEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  context: FormulaContext;
+  /** Compiles the source and applies any extra checks, throwing FormulaError */
+  compile: (source: string) => CompiledFormula;
+  /** Starting sample values, e.g. input defaults */
+  defaults?: Record<string, unknown>;
+  placeholder?: string;
+}
+
+type Diagnosis =
+  | { ok: true; results: Record<string, FormulaValue> | null; runtimeError: FormulaError | null }
+  | { ok: false; error: FormulaError };
+
+function ErrorDetail({ source, error }: { source: string; error: FormulaError }) {
+  const position = error.position;
+  const line = position ? source.split('\n')[position.line - 1] ?? '' : null;
+
+  return (
+    <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300 text-sm">
+      <div className="flex items-start gap-2">
+        <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        <span>{error.reason}</span>
+      </div>
+      {position && line !== null && (
+        <pre className="mt-2 text-xs font-mono overflow-x-auto">
+          {`${position.line} | ${line}\n${' '.repeat(String(position.line).length + 3 + position.column - 1)}${'^'.repeat(Math.max(1, Math.min(position.length, line.length - position.column + 1)))}`}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+export function FormulaEditor({ value, onChange, context, compile, defaults = {}, placeholder }: FormulaEditorProps) {
+  const [samples, setSamples] = useState<Record<string, unknown>>(defaults);
+
+  // Seed new variables with their defaults without clobbering edited samples
+  const defaultsKey = JSON.stringify(defaults);
+  useEffect(() => {
+    setSamples((current) => ({ ...defaults, ...current }));
+  }, [defaultsKey]);
+
+  const diagnosis = useMemo<Diagnosis>(() => {
+    let formula: CompiledFormula;
+    try {
+      formula = compile(value);
+    } catch (err) {
+      if (err instanceof FormulaError) return { ok: false, error: err };
+      throw err;
+    }
+
+    try {
+      return { ok: true, results: evaluateFormula(formula, samples), runtimeError: null };
+    } catch (err) {
+      if (err instanceof FormulaError) return { ok: true, results: null, runtimeError: err };
+      throw err;
+    }
+  }, [value, samples, compile]);
+
+  const variables = Object.entries(context.variables);
+  const tables = Object.keys(context.tables || {});
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Formula</label>
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          rows={Math.max(6, value.split('\n').length + 1)}
+          spellCheck={false}
+          className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 font-mono text-sm"
+        />
+        <p className="mt-1 text-xs text-gray-500">
+          Available: {variables.map(([name]) => name).join(', ') || 'no inputs yet'}
+          {tables.length > 0 && <> · Tables: {tables.join(', ')}</>}
+        </p>
+      </div>
+
+      {!diagnosis.ok && <ErrorDetail source={value} error={diagnosis.error} />}
+
+      {variables.length > 0 && (
+        <div>
+          <p className="text-sm font-medium mb-2">Preview Inputs</p>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            {variables.map(([name, variable]) => (
+              <div key={name}>
+                <label className="block text-xs text-gray-500 mb-1">
+                  {name}{variable.type === 'number' && variable.unit ? ` (${variable.unit})` : ''}
+                </label>
+                {variable.type === 'boolean' ? (
+                  <input
+                    type="checkbox"
+                    checked={Boolean(samples[name])}
+                    onChange={(e) => setSamples({ ...samples, [name]: e.target.checked })}
+                    className="h-4 w-4"
+                  />
+                ) : variable.type === 'string' && variable.options?.length ? (
+                  <select
+                    value={String(samples[name] ?? '')}
+                    onChange={(e) => setSamples({ ...samples, [name]: e.target.value })}
+                    className="w-full h-10 px-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm"
+                  >
+                    <option value="">Choose…</option>
+                    {variable.options.map((option) => (<option key={option} value={option}>{option}</option>))}
+                  </select>
+                ) : (
+                  <Input
+                    type={variable.type === 'number' ? 'number' : 'text'}
+                    step="any"
+                    value={String(samples[name] ?? '')}
+                    onChange={(e) => setSamples({ ...samples, [name]: e.target.value })}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {diagnosis.ok && diagnosis.runtimeError && <ErrorDetail source={value} error={diagnosis.runtimeError} />}
+
+      {diagnosis.ok && diagnosis.results && (
+        <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 space-y-1">
+          <div className="flex items-center gap-2 text-sm font-medium text-green-800 dark:text-green-300">
+            <CheckCircle2 className="h-4 w-4" />
+            Formula is valid
+          </div>
+          {Object.entries(diagnosis.results).map(([name, result]) => (
+            <div key={name} className="flex justify-between text-sm">
+              <span className="font-mono">{name}</span>
+              <span>{formatFormulaValue(result)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FormulaEditor;
@@ -45,9 +45,3 @@ export { FloatingDiscountPreview } from './FloatingDiscountPreview';
 // ANALYTICS & REPORTING
 // ============================================================================
 export { DiscountAnalyticsDashboard } from './DiscountAnalyticsDashboard';
-
-// ============================================================================
-// A/B TESTING
-// ============================================================================
-export { ABTestDashboard, abTestService } from './ABTestDashboard';
-export type { ABTest, ABTestVariant, CreateABTestInput } from './ABTestDashboard';
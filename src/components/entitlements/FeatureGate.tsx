@@ -175,6 +175,7 @@ const featureNames: Record<FeatureKey, string> = {
   custom_domain: 'Custom Domain',
   sso: 'Single Sign-On',
   audit_logs: 'Audit Logs',
+  metered_overage: 'Pay-as-you-go Overage',
 };
 
 const featureMinPlans: Record<FeatureKey, string> = {
@@ -195,6 +196,7 @@ const featureMinPlans: Record<FeatureKey, string> = {
   custom_domain: 'Enterprise',
   sso: 'Enterprise',
   audit_logs: 'Enterprise',
+  metered_overage: 'Business',
 };
 
 function UpgradePrompt({ feature, currentPlan, message, className }: UpgradePromptProps) {
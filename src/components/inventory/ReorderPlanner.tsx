@@ -0,0 +1,199 @@
+/**
+ * ReorderPlanner Component
+ * Projected stock across the schedule and the purchase orders that cover it
+ */
+
+import { Fragment, useState } from 'react';
+import { ShoppingCart, Send, PackageCheck, X, AlertTriangle, ChevronDown, ChevronRight } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import {
+  useStockProjection,
+  usePurchaseOrders,
+  useGeneratePurchaseOrders,
+  useUpdatePurchaseOrderStatus,
+} from '@/hooks/useInventory';
+import type { PurchaseOrder } from '@/lib/inventory';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+
+const HORIZON_OPTIONS = [14, 30, 60];
+
+const poStatusStyles: Record<PurchaseOrder['status'], string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-700',
+  received: 'bg-green-100 text-green-700',
+  cancelled: 'bg-red-100 text-red-700',
+};
+
+export function ReorderPlanner() {
+  const [horizonDays, setHorizonDays] = useState(30);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const { data: projections = [], isLoading } = useStockProjection(horizonDays);
+  const { data: orders = [] } = usePurchaseOrders();
+  const generateOrders = useGeneratePurchaseOrders();
+  const updateStatus = useUpdatePurchaseOrderStatus();
+
+  const openOrders = orders.filter((order) => order.status === 'draft' || order.status === 'sent');
+  const shortfalls = projections.filter((p) => p.belowReorderOn);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+      {/* Projection */}
+      <Card className="lg:col-span-2">
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Projected Stock</CardTitle>
+          <div className="flex items-center gap-2">
+            <select
+              value={horizonDays}
+              onChange={(e) => setHorizonDays(Number(e.target.value))}
+              className="h-9 px-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm"
+            >
+              {HORIZON_OPTIONS.map((days) => (<option key={days} value={days}>Next {days} days</option>))}
+            </select>
+            <Button
+              size="sm"
+              leftIcon={<ShoppingCart className="h-4 w-4" />}
+              onClick={() => generateOrders.mutate(horizonDays)}
+              isLoading={generateOrders.isPending}
+              disabled={shortfalls.length === 0}
+            >
+              Draft Orders
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <p className="p-4 text-sm text-gray-500">Projecting stock…</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead><tr className="border-b border-gray-200 dark:border-gray-700 text-gray-500">
+                <th className="text-left py-2 px-4 font-medium">Material</th>
+                <th className="text-right py-2 px-4 font-medium">On Hand</th>
+                <th className="text-right py-2 px-4 font-medium">Reserved</th>
+                <th className="text-right py-2 px-4 font-medium">Incoming</th>
+                <th className="text-right py-2 px-4 font-medium">Low Point</th>
+                <th className="text-right py-2 px-4 font-medium">Reorder By</th>
+              </tr></thead>
+              <tbody>
+                {projections.map((projection) => {
+                  const { material } = projection;
+                  const isOpen = expanded === material.id;
+                  return (
+                    <Fragment key={material.id}>
+                      <tr
+                        onClick={() => setExpanded(isOpen ? null : material.id)}
+                        className="border-b border-gray-100 dark:border-gray-800 hover:bg-gray-50 dark:hover:bg-gray-800/50 cursor-pointer"
+                      >
+                        <td className="py-2 px-4">
+                          <div className="flex items-center gap-1">
+                            {isOpen ? <ChevronDown className="h-4 w-4 text-gray-400" /> : <ChevronRight className="h-4 w-4 text-gray-400" />}
+                            <span className="font-medium">{material.name}</span>
+                          </div>
+                        </td>
+                        <td className="py-2 px-4 text-right">{material.current_stock} {material.unit}</td>
+                        <td className="py-2 px-4 text-right text-gray-500">{projection.reserved || '—'}</td>
+                        <td className="py-2 px-4 text-right text-gray-500">{projection.incoming || '—'}</td>
+                        <td className={cn('py-2 px-4 text-right font-medium', projection.belowReorderOn && 'text-amber-600')}>
+                          {projection.lowestBalance}
+                          <span className="text-gray-400 font-normal"> / {projection.reorderPoint}</span>
+                        </td>
+                        <td className="py-2 px-4 text-right">
+                          {projection.belowReorderOn ? (
+                            <span className="inline-flex items-center gap-1 text-amber-600">
+                              <AlertTriangle className="h-3 w-3" />{formatDate(projection.belowReorderOn)}
+                            </span>
+                          ) : '—'}
+                        </td>
+                      </tr>
+                      {isOpen && (
+                        <tr className="bg-gray-50 dark:bg-gray-800/50">
+                          <td colSpan={6} className="px-10 py-2">
+                            {projection.events.length === 0 ? (
+                              <p className="text-xs text-gray-500">Nothing scheduled against this material</p>
+                            ) : (
+                              <div className="space-y-1">
+                                {projection.events.map((event, index) => (
+                                  <div key={index} className="flex items-center justify-between text-xs">
+                                    <span className="text-gray-500 w-24">{formatDate(event.date)}</span>
+                                    <span className="flex-1 truncate">{event.label}</span>
+                                    <span className={cn('w-16 text-right', event.change < 0 ? 'text-red-600' : 'text-green-600')}>
+                                      {event.change > 0 ? '+' : ''}{event.change}
+                                    </span>
+                                    <span className={cn('w-16 text-right font-medium', event.balance < projection.reorderPoint && 'text-amber-600')}>
+                                      {event.balance}
+                                    </span>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Purchase Orders */}
+      <Card>
+        <CardHeader><CardTitle>Purchase Orders</CardTitle></CardHeader>
+        <CardContent className="space-y-3">
+          {openOrders.length === 0 ? (
+            <p className="text-sm text-gray-500">No open purchase orders.</p>
+          ) : (
+            openOrders.map((order) => (
+              <div key={order.id} className="p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium text-sm">{order.supplier}</p>
+                    <p className="text-xs text-gray-500 font-mono">{order.po_number}</p>
+                  </div>
+                  <span className={cn('px-2 py-0.5 rounded-full text-xs capitalize', poStatusStyles[order.status])}>{order.status}</span>
+                </div>
+                <div className="mt-2 space-y-0.5">
+                  {(order.items || []).map((item) => (
+                    <div key={item.id} className="flex justify-between text-xs text-gray-600 dark:text-gray-300">
+                      <span className="truncate">{item.material?.name || 'Material'}</span>
+                      <span>{item.quantity} {item.material?.unit}</span>
+                    </div>
+                  ))}
+                </div>
+                <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+                  <span>{order.expected_date ? `Needed by ${formatDate(order.expected_date)}` : 'No date'}</span>
+                  <span className="font-medium text-gray-900 dark:text-gray-100">{formatCurrency(order.total)}</span>
+                </div>
+                <div className="flex gap-2 mt-2">
+                  {order.status === 'draft' ? (
+                    <Button size="sm" variant="outline" leftIcon={<Send className="h-3 w-3" />} onClick={() => updateStatus.mutate({ id: order.id, status: 'sent' })}>
+                      Mark Sent
+                    </Button>
+                  ) : (
+                    <Button size="sm" variant="outline" leftIcon={<PackageCheck className="h-3 w-3" />} onClick={() => updateStatus.mutate({ id: order.id, status: 'received' })}>
+                      Receive
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    leftIcon={<X className="h-3 w-3" />}
+                    onClick={() => {
+                      if (confirm(`Cancel ${order.po_number}?`)) updateStatus.mutate({ id: order.id, status: 'cancelled' });
+                    }}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export default ReorderPlanner;
@@ -27,6 +27,8 @@ import {
   Video,
   Package,
   FileBarChart,
+  Beaker,
+  Split,
   CheckSquare,
   Globe,
   Code,
@@ -42,6 +44,7 @@ import {
 import { cn } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button, Avatar, Badge, SearchInput } from '@/components/ui';
+import { SyncStatus } from '@/components/offline/SyncStatus';
 
 // ============================================================================
 // NAVIGATION CONFIG
@@ -68,6 +71,8 @@ const mainNavItems: NavItem[] = [
 const advancedNavItems: NavItem[] = [
   { label: 'Analytics', href: '/analytics', icon: BarChart3 },
   { label: 'Reports', href: '/reports', icon: FileBarChart, permission: 'view_analytics' },
+  { label: 'Price Tests', href: '/pricing-experiments', icon: Beaker, permission: 'view_analytics' },
+  { label: 'A/B Tests', href: '/ab-tests', icon: Split, permission: 'view_analytics' },
   { label: 'Video Proposals', href: '/video-proposals', icon: Video },
   { label: 'Inventory', href: '/inventory', icon: Package },
   { label: 'Approvals', href: '/approvals', icon: CheckSquare },
@@ -175,7 +180,7 @@ function Sidebar({ isOpen, onClose }: SidebarProps) {
       {/* Sidebar */}
       <aside
         className={cn(
-          'fixed inset-y-0 left-0 z-50 w-64 bg-white dark:bg-gray-900 border-r border-gray-200 dark:border-gray-700 transform transition-transform duration-300 ease-in-out lg:translate-x-0 lg:static lg:z-auto',
+          'no-print fixed inset-y-0 left-0 z-50 w-64 bg-white dark:bg-gray-900 border-r border-gray-200 dark:border-gray-700 transform transition-transform duration-300 ease-in-out lg:translate-x-0 lg:static lg:z-auto',
           isOpen ? 'translate-x-0' : '-translate-x-full'
         )}
       >
@@ -253,7 +258,7 @@ function TopBar({ onMenuClick }: TopBarProps) {
   };
 
   return (
-    <header className="sticky top-0 z-30 flex h-16 items-center justify-between border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 px-4 lg:px-6">
+    <header className="no-print sticky top-0 z-30 flex h-16 items-center justify-between border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 px-4 lg:px-6">
       {/* Left side */}
       <div className="flex items-center gap-4">
         <button
@@ -278,6 +283,9 @@ function TopBar({ onMenuClick }: TopBarProps) {
           </Button>
         </Link>
 
+        {/* Offline sync */}
+        <SyncStatus />
+
         {/* Notifications */}
         <div className="relative">
           <button
@@ -366,13 +374,13 @@ export default function DashboardLayout() {
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
   return (
-    <div className="flex h-screen bg-gray-50 dark:bg-gray-950">
+    <div className="flex h-screen bg-gray-50 dark:bg-gray-950 print:block print:h-auto">
       <Sidebar isOpen={sidebarOpen} onClose={() => setSidebarOpen(false)} />
       
-      <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex-1 flex flex-col overflow-hidden print:overflow-visible">
         <TopBar onMenuClick={() => setSidebarOpen(true)} />
         
-        <main className="flex-1 overflow-y-auto">
+        <main className="flex-1 overflow-y-auto print:overflow-visible">
           <div className="container mx-auto p-4 lg:p-6">
             <Outlet />
           </div>
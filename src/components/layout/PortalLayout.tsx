@@ -1,104 +1,142 @@
 /**
  * Portal Layout
- * Layout for public client portal pages
+ * Layout for public client portal pages, in the org's portal branding
  */
 
-import { Outlet, Link } from 'react-router-dom';
-import { FileText, Phone, Mail } from 'lucide-react';
+import type { ReactNode } from 'react';
+import { FileText, Phone, Mail, MapPin } from 'lucide-react';
+import type { PortalBranding } from '@/lib/portal/clientPortalService';
+
+interface PortalLayoutProps {
+  branding?: PortalBranding | null;
+  /** Shown at the right of the header, e.g. a sign-out button */
+  actions?: ReactNode;
+  children: ReactNode;
+}
+
+export default function PortalLayout({ branding, actions, children }: PortalLayoutProps) {
+  const companyName = branding?.companyName || "Sommer's Sealcoating";
+  const primaryColor = branding?.primaryColor || '#C41E3A';
+  const portal = branding?.portal;
+  const address = portal?.contactInfo?.address;
+  const footer = branding?.footer;
 
-export default function PortalLayout() {
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex flex-col">
       {/* Header */}
       <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
         <div className="max-w-6xl mx-auto px-4 py-4">
-          <div className="flex items-center justify-between">
+          <div className="flex items-center justify-between gap-4">
             {/* Logo */}
-            <Link to="/" className="flex items-center gap-3">
-              <div className="h-10 w-10 rounded-lg bg-brand-red flex items-center justify-center">
-                <FileText className="h-5 w-5 text-white" />
-              </div>
+            <div className="flex items-center gap-3">
+              {branding?.logoUrl ? (
+                <img src={branding.logoUrl} alt={companyName} className="h-10 w-auto" />
+              ) : (
+                <div className="h-10 w-10 rounded-lg flex items-center justify-center" style={{ backgroundColor: primaryColor }}>
+                  <FileText className="h-5 w-5 text-white" />
+                </div>
+              )}
               <div>
                 <h1 className="text-lg font-bold text-gray-900 dark:text-gray-100">
-                  Sommer's Sealcoating
+                  {portal?.portalTitle || companyName}
                 </h1>
-                <p className="text-xs text-gray-500">Professional Proposals</p>
+                {portal?.portalTitle && portal.portalTitle !== companyName && (
+                  <p className="text-xs text-gray-500">{companyName}</p>
+                )}
               </div>
-            </Link>
+            </div>
 
-            {/* Contact Info */}
-            <div className="hidden sm:flex items-center gap-6">
-              <a
-                href="tel:+15551234567"
-                className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 hover:text-brand-red"
-              >
-                <Phone className="h-4 w-4" />
-                (555) 123-4567
-              </a>
-              <a
-                href="mailto:info@sommersealcoating.com"
-                className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 hover:text-brand-red"
-              >
-                <Mail className="h-4 w-4" />
-                info@sommersealcoating.com
-              </a>
+            <div className="flex items-center gap-6">
+              {/* Contact Info */}
+              <div className="hidden sm:flex items-center gap-6">
+                {branding?.phone && (
+                  <a
+                    href={`tel:${branding.phone}`}
+                    className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900"
+                  >
+                    <Phone className="h-4 w-4" />
+                    {branding.phone}
+                  </a>
+                )}
+                {branding?.email && (
+                  <a
+                    href={`mailto:${branding.email}`}
+                    className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900"
+                  >
+                    <Mail className="h-4 w-4" />
+                    {branding.email}
+                  </a>
+                )}
+              </div>
+              {actions}
             </div>
           </div>
         </div>
       </header>
 
       {/* Main Content */}
-      <main className="flex-1">
-        <Outlet />
-      </main>
+      <main className="flex-1">{children}</main>
 
       {/* Footer */}
-      <footer className="bg-brand-charcoal text-white py-8">
-        <div className="max-w-6xl mx-auto px-4">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-            {/* Company Info */}
-            <div>
-              <div className="flex items-center gap-3 mb-4">
-                <div className="h-10 w-10 rounded-lg bg-brand-red flex items-center justify-center">
-                  <FileText className="h-5 w-5 text-white" />
-                </div>
-                <span className="text-lg font-bold">Sommer's Sealcoating</span>
+      {footer?.showFooter !== false && (
+        <footer className="bg-brand-charcoal text-white py-8">
+          <div className="max-w-6xl mx-auto px-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+              {/* Company Info */}
+              <div>
+                <span className="text-lg font-bold">{companyName}</span>
+                {footer?.companyInfo && (
+                  <p className="text-gray-400 text-sm mt-2">{footer.companyInfo}</p>
+                )}
+                {portal?.socialLinks && portal.socialLinks.length > 0 && (
+                  <div className="flex gap-4 mt-4 text-sm">
+                    {portal.socialLinks.map((link) => (
+                      <a
+                        key={link.platform}
+                        href={link.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="capitalize text-gray-400 hover:text-white"
+                      >
+                        {link.platform}
+                      </a>
+                    ))}
+                  </div>
+                )}
               </div>
-              <p className="text-gray-400 text-sm">
-                Professional asphalt maintenance and sealcoating services.
-                Quality work, competitive prices.
-              </p>
-            </div>
 
-            {/* Contact */}
-            <div>
-              <h3 className="font-semibold mb-4">Contact Us</h3>
-              <div className="space-y-2 text-sm text-gray-400">
-                <p>123 Industrial Way</p>
-                <p>Toledo, OH 43612</p>
-                <p>(555) 123-4567</p>
-                <p>info@sommersealcoating.com</p>
+              {/* Contact */}
+              <div>
+                <h3 className="font-semibold mb-4">Contact Us</h3>
+                <div className="space-y-2 text-sm text-gray-400">
+                  {address && (
+                    <p className="flex items-center gap-2"><MapPin className="h-4 w-4" />{address}</p>
+                  )}
+                  {branding?.phone && <p>{branding.phone}</p>}
+                  {branding?.email && <p>{branding.email}</p>}
+                </div>
               </div>
             </div>
 
-            {/* Hours */}
-            <div>
-              <h3 className="font-semibold mb-4">Business Hours</h3>
-              <div className="space-y-2 text-sm text-gray-400">
-                <p>Monday - Friday: 7am - 6pm</p>
-                <p>Saturday: 8am - 4pm</p>
-                <p>Sunday: Closed</p>
+            {footer?.links && footer.links.length > 0 && (
+              <div className="flex flex-wrap gap-4 mt-6 text-sm">
+                {footer.links.map((link) => (
+                  <a key={link.url} href={link.url} className="text-gray-400 hover:text-white">
+                    {link.label}
+                  </a>
+                ))}
               </div>
-            </div>
-          </div>
+            )}
 
-          <div className="mt-8 pt-8 border-t border-gray-700 text-center text-sm text-gray-400">
-            <p>
-              © {new Date().getFullYear()} Sommer's Sealcoating. All rights reserved.
-            </p>
+            <div className="mt-8 pt-8 border-t border-gray-700 text-center text-sm text-gray-400 space-y-1">
+              <p>
+                {footer?.copyrightText || `© ${new Date().getFullYear()} ${companyName}. All rights reserved.`}
+              </p>
+              {!portal?.hidePoweredBy && <p className="text-xs">Powered by Sommer's Proposal System</p>}
+            </div>
           </div>
-        </div>
-      </footer>
+        </footer>
+      )}
     </div>
   );
 }
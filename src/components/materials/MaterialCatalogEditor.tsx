@@ -0,0 +1,273 @@
+/**
+ * MaterialCatalogEditor Component
+ * Per-org products, coverage rates and mix design used for material estimates
+ */
+
+import { useEffect, useState, type ReactNode } from 'react';
+import { Plus, Trash2, Save, RotateCcw, ExternalLink } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useInventoryMaterials, useMaterialCatalog, useSaveMaterialCatalog } from '@/hooks/useInventory';
+import {
+  DEFAULT_MATERIAL_CATALOG,
+  calculateJobEstimate,
+  resolveCatalog,
+  type CatalogProduct,
+  type MaterialCatalog,
+} from '@/lib/materials';
+import type { Material } from '@/lib/inventory';
+import { formatCurrency } from '@/lib/utils';
+
+const SAMPLE_JOB = { sqft: 10000, crackLinearFeet: 500, parkingStalls: 40 };
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+      {children}
+    </div>
+  );
+}
+
+function NumberField({ label, value, onChange, step = 'any' }: { label: string; value: number; onChange: (value: number) => void; step?: string }) {
+  return (
+    <Field label={label}>
+      <Input type="number" min={0} step={step} value={value} onChange={(e) => onChange(Number(e.target.value) || 0)} />
+    </Field>
+  );
+}
+
+function ProductFields<T extends CatalogProduct>({ product, materials, onChange }: { product: T; materials: Material[]; onChange: (product: T) => void }) {
+  const linked = materials.find((m) => m.id === product.materialId);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+      <Field label="Inventory Item">
+        <select
+          value={product.materialId || ''}
+          onChange={(e) => onChange({ ...product, materialId: e.target.value || null })}
+          className="w-full h-10 px-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm"
+        >
+          <option value="">Not linked</option>
+          {materials.filter((m) => m.is_active).map((m) => (<option key={m.id} value={m.id}>{m.name}</option>))}
+        </select>
+      </Field>
+      {linked ? (
+        <div className="md:col-span-2 flex items-end pb-2 text-sm text-gray-500">
+          {formatCurrency(linked.cost_per_unit)} / {linked.unit}
+          {linked.supplier && <> · {linked.supplier}</>}
+          {linked.supplier_url && (
+            <a href={linked.supplier_url} target="_blank" rel="noopener noreferrer" className="ml-2 text-brand-red hover:underline inline-flex items-center gap-1">
+              <ExternalLink className="h-3 w-3" />Order
+            </a>
+          )}
+        </div>
+      ) : (
+        <>
+          <Field label="Product Name">
+            <Input value={product.name} onChange={(e) => onChange({ ...product, name: e.target.value })} />
+          </Field>
+          <div className="grid grid-cols-2 gap-3">
+            <Field label="Unit">
+              <Input value={product.unit} onChange={(e) => onChange({ ...product, unit: e.target.value })} />
+            </Field>
+            <NumberField label="Unit Cost" value={product.unitCost} onChange={(unitCost) => onChange({ ...product, unitCost })} />
+          </div>
+          <Field label="Supplier">
+            <Input value={product.supplier || ''} onChange={(e) => onChange({ ...product, supplier: e.target.value })} />
+          </Field>
+          <div className="md:col-span-2">
+            <Field label="Supplier Link">
+              <Input type="url" placeholder="https://" value={product.supplierUrl || ''} onChange={(e) => onChange({ ...product, supplierUrl: e.target.value })} />
+            </Field>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function MaterialCatalogEditor() {
+  const { data: stored, isLoading } = useMaterialCatalog();
+  const { data: materials = [] } = useInventoryMaterials();
+  const saveCatalog = useSaveMaterialCatalog();
+  const [catalog, setCatalog] = useState<MaterialCatalog>(DEFAULT_MATERIAL_CATALOG);
+
+  useEffect(() => {
+    if (stored) setCatalog(stored);
+  }, [stored]);
+
+  const { sealcoat, crackFill, striping } = catalog;
+  const setSealcoat = (changes: Partial<MaterialCatalog['sealcoat']>) => setCatalog({ ...catalog, sealcoat: { ...sealcoat, ...changes } });
+  const setCrackFill = (changes: Partial<MaterialCatalog['crackFill']>) => setCatalog({ ...catalog, crackFill: { ...crackFill, ...changes } });
+  const setStriping = (changes: Partial<MaterialCatalog['striping']>) => setCatalog({ ...catalog, striping: { ...striping, ...changes } });
+
+  const shareTotal = striping.colors.reduce((sum, color) => sum + color.share, 0);
+  const preview = calculateJobEstimate(
+    SAMPLE_JOB.sqft,
+    SAMPLE_JOB.crackLinearFeet,
+    SAMPLE_JOB.parkingStalls,
+    undefined,
+    resolveCatalog(catalog, materials)
+  );
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500">Loading material catalog…</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Sealcoat */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Sealcoat</CardTitle>
+          <CardDescription>Coverage is for the applied mix; concentrate is backed out using the dilution</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <ProductFields product={sealcoat.product} materials={materials} onChange={(product) => setSealcoat({ product })} />
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <NumberField label="Coverage (sq ft / gal of mix)" value={sealcoat.sqftPerGallon} onChange={(sqftPerGallon) => setSealcoat({ sqftPerGallon })} />
+            <NumberField label="Coats" step="1" value={sealcoat.coats} onChange={(coats) => setSealcoat({ coats })} />
+            <NumberField label="Water Dilution (%)" value={sealcoat.dilutionPercent} onChange={(dilutionPercent) => setSealcoat({ dilutionPercent })} />
+          </div>
+
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+            <p className="text-sm font-medium">Sand</p>
+            <ProductFields product={sealcoat.sand} materials={materials} onChange={(sand) => setSealcoat({ sand })} />
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <NumberField label="Loading (lb / gal concentrate)" value={sealcoat.sand.lbsPerGallon} onChange={(lbsPerGallon) => setSealcoat({ sand: { ...sealcoat.sand, lbsPerGallon } })} />
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium">Additive</p>
+              {sealcoat.additive ? (
+                <Button size="sm" variant="ghost" leftIcon={<Trash2 className="h-3 w-3" />} onClick={() => setSealcoat({ additive: null })}>Remove</Button>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  leftIcon={<Plus className="h-3 w-3" />}
+                  onClick={() => setSealcoat({ additive: { name: 'Additive', unit: 'gallon', unitCost: 0, percent: 2 } })}
+                >
+                  Add Additive
+                </Button>
+              )}
+            </div>
+            {sealcoat.additive && (
+              <>
+                <ProductFields product={sealcoat.additive} materials={materials} onChange={(additive) => setSealcoat({ additive })} />
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <NumberField label="Dose (% of concentrate)" value={sealcoat.additive.percent} onChange={(percent) => setSealcoat({ additive: { ...sealcoat.additive!, percent } })} />
+                </div>
+              </>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Crack Fill */}
+      <Card>
+        <CardHeader><CardTitle className="text-base">Crack Fill</CardTitle></CardHeader>
+        <CardContent className="space-y-4">
+          <ProductFields product={crackFill.product} materials={materials} onChange={(product) => setCrackFill({ product })} />
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <NumberField label={`Linear ft per ${crackFill.product.unit || 'unit'}`} value={crackFill.linearFeetPerUnit} onChange={(linearFeetPerUnit) => setCrackFill({ linearFeetPerUnit })} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Striping */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Striping</CardTitle>
+          <CardDescription>Color shares split the total linear footage between paints</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <NumberField label="Average Line Length (ft)" value={striping.avgLineLength} onChange={(avgLineLength) => setStriping({ avgLineLength })} />
+            <NumberField label="Lines per Stall" value={striping.linesPerStall} onChange={(linesPerStall) => setStriping({ linesPerStall })} />
+            <NumberField label="Coverage (linear ft / gal)" value={striping.linearFeetPerGallon} onChange={(linearFeetPerGallon) => setStriping({ linearFeetPerGallon })} />
+          </div>
+
+          {striping.colors.map((color, index) => (
+            <div key={index} className="pt-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium">Paint {index + 1}</p>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  leftIcon={<Trash2 className="h-3 w-3" />}
+                  onClick={() => setStriping({ colors: striping.colors.filter((_, i) => i !== index) })}
+                >
+                  Remove
+                </Button>
+              </div>
+              <ProductFields
+                product={color}
+                materials={materials}
+                onChange={(updated) => setStriping({ colors: striping.colors.map((c, i) => (i === index ? updated : c)) })}
+              />
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <NumberField
+                  label="Share of Footage (%)"
+                  value={Math.round(color.share * 100)}
+                  onChange={(percent) => setStriping({ colors: striping.colors.map((c, i) => (i === index ? { ...c, share: percent / 100 } : c)) })}
+                />
+              </div>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <Button
+              size="sm"
+              variant="outline"
+              leftIcon={<Plus className="h-3 w-3" />}
+              onClick={() => setStriping({ colors: [...striping.colors, { name: 'Traffic Paint', unit: 'gallon', unitCost: 0, share: 0 }] })}
+            >
+              Add Paint
+            </Button>
+            {Math.abs(shareTotal - 1) > 0.001 && (
+              <p className="text-sm text-amber-600">Shares add up to {Math.round(shareTotal * 100)}%</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Preview */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Sample Estimate</CardTitle>
+          <CardDescription>
+            {SAMPLE_JOB.sqft.toLocaleString()} sq ft, {SAMPLE_JOB.crackLinearFeet} ft of cracks, {SAMPLE_JOB.parkingStalls} stalls
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-1">
+          {preview.materials.map((line, index) => (
+            <div key={index} className="flex justify-between text-sm">
+              <span>{line.material}</span>
+              <span className="text-gray-500">{line.quantity} {line.unit} · {formatCurrency(line.totalCost)}</span>
+            </div>
+          ))}
+          <div className="flex justify-between text-sm font-medium pt-2 border-t border-gray-200 dark:border-gray-700">
+            <span>Materials</span>
+            <span>{formatCurrency(preview.totalCost)}</span>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end gap-3">
+        <Button variant="outline" leftIcon={<RotateCcw className="h-4 w-4" />} onClick={() => setCatalog(DEFAULT_MATERIAL_CATALOG)}>
+          Reset to Defaults
+        </Button>
+        <Button leftIcon={<Save className="h-4 w-4" />} onClick={() => saveCatalog.mutate(catalog)} isLoading={saveCatalog.isPending}>
+          Save Catalog
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default MaterialCatalogEditor;
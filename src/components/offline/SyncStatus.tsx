@@ -0,0 +1,210 @@
+/**
+ * SyncStatus Component
+ * Top bar indicator for the offline outbox, with conflict resolution
+ */
+
+import { useState } from 'react';
+import { CloudOff, RefreshCw, AlertTriangle, Check, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { useOffline } from '@/lib/offline/OfflineProvider';
+import { OPERATION_LABELS, type OutboxEntry } from '@/lib/offline/syncQueue';
+import { formatDateTime, formatRelativeTime, cn } from '@/lib/utils';
+
+const statusStyles: Record<OutboxEntry['status'], string> = {
+  pending: 'bg-gray-100 text-gray-700',
+  conflict: 'bg-amber-100 text-amber-700',
+  failed: 'bg-red-100 text-red-700',
+};
+
+function describeOperation(entry: OutboxEntry): string {
+  const { operation } = entry;
+  switch (operation.type) {
+    case 'create_proposal':
+      return String(operation.data.property_name || operation.data.title || 'New proposal');
+    case 'add_line_item':
+      return `${operation.item.name} — ${operation.item.quantity} ${operation.item.unit}`;
+    case 'upload_photo':
+      return operation.fileName;
+    case 'complete_job':
+      return operation.notes || 'Mark job complete';
+    default:
+      return '';
+  }
+}
+
+function formatFieldValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/** Server fields worth showing when deciding a conflict */
+const CONFLICT_FIELDS: Record<'proposals' | 'jobs', string[]> = {
+  proposals: ['proposal_number', 'status', 'title', 'total', 'updated_at'],
+  jobs: ['title', 'status', 'scheduled_date', 'started_at', 'completed_at', 'notes', 'updated_at'],
+};
+
+interface ConflictDialogProps {
+  entry: OutboxEntry;
+  onClose: () => void;
+}
+
+function ConflictDialog({ entry, onClose }: ConflictDialogProps) {
+  const { resolveConflict } = useOffline();
+  const [isResolving, setIsResolving] = useState(false);
+  const conflict = entry.conflict!;
+
+  const handleResolve = async (resolution: 'keep_local' | 'keep_server') => {
+    setIsResolving(true);
+    try {
+      await resolveConflict(entry.seq, resolution);
+      onClose();
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-amber-100 rounded-lg flex items-center justify-center">
+              <AlertTriangle className="w-5 h-5 text-amber-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Sync Conflict</h2>
+              <p className="text-sm text-gray-500">
+                This record changed on the server after you went offline
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 grid grid-cols-2 gap-4 overflow-y-auto max-h-[calc(90vh-160px)]">
+          <div className="rounded-lg border border-blue-200 bg-blue-50 dark:bg-blue-900/20 p-4 space-y-2">
+            <p className="text-sm font-semibold text-blue-800 dark:text-blue-300">Your change</p>
+            <p className="font-medium">{OPERATION_LABELS[entry.operation.type]}</p>
+            <p className="text-sm text-gray-600 dark:text-gray-300">{describeOperation(entry)}</p>
+            <p className="text-xs text-gray-500">Queued {formatDateTime(entry.createdAt)}</p>
+            <p className="text-xs text-gray-500">Based on version from {formatDateTime(conflict.localUpdatedAt)}</p>
+          </div>
+          <div className="rounded-lg border border-gray-200 bg-gray-50 dark:bg-gray-900/40 p-4 space-y-2">
+            <p className="text-sm font-semibold text-gray-700 dark:text-gray-300">On the server now</p>
+            <dl className="text-sm space-y-1">
+              {CONFLICT_FIELDS[conflict.table].map((field) => (
+                <div key={field} className="flex justify-between gap-2">
+                  <dt className="text-gray-500">{field.replace(/_/g, ' ')}</dt>
+                  <dd className="text-right break-all">{formatFieldValue(conflict.serverRecord[field])}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 px-6 py-4 border-t">
+          <Button variant="outline" onClick={() => handleResolve('keep_server')} disabled={isResolving}>
+            Discard My Change
+          </Button>
+          <Button onClick={() => handleResolve('keep_local')} isLoading={isResolving}>
+            Apply My Change
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function SyncStatus() {
+  const { isOnline, isSyncing, outbox, conflicts, lastSyncAt, syncNow, discardOperation } = useOffline();
+  const [showOutbox, setShowOutbox] = useState(false);
+  const [activeConflict, setActiveConflict] = useState<OutboxEntry | null>(null);
+
+  if (isOnline && outbox.length === 0) return null;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setShowOutbox(!showOutbox)}
+        className={cn(
+          'flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium',
+          conflicts.length > 0
+            ? 'bg-amber-100 text-amber-700'
+            : isOnline
+            ? 'bg-blue-50 text-blue-700'
+            : 'bg-gray-100 text-gray-700'
+        )}
+      >
+        {conflicts.length > 0 ? (
+          <AlertTriangle className="h-4 w-4" />
+        ) : isOnline ? (
+          <RefreshCw className={cn('h-4 w-4', isSyncing && 'animate-spin')} />
+        ) : (
+          <CloudOff className="h-4 w-4" />
+        )}
+        <span className="hidden sm:inline">{isOnline ? 'Pending' : 'Offline'}</span>
+        {outbox.length > 0 && <span>{outbox.length}</span>}
+      </button>
+
+      {showOutbox && (
+        <div className="absolute right-0 mt-2 w-96 bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-200 dark:border-gray-700 animate-scale-in z-40">
+          <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+            <div>
+              <h3 className="font-semibold text-gray-900 dark:text-white">Sync Queue</h3>
+              <p className="text-xs text-gray-500">
+                {lastSyncAt ? `Last synced ${formatRelativeTime(lastSyncAt)}` : 'Not synced this session'}
+              </p>
+            </div>
+            <Button size="sm" variant="outline" onClick={syncNow} disabled={!isOnline || isSyncing} leftIcon={<RefreshCw className="h-4 w-4" />}>
+              Sync
+            </Button>
+          </div>
+          <div className="max-h-96 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+            {outbox.length === 0 ? (
+              <div className="p-4 text-sm text-gray-500 dark:text-gray-400 text-center flex items-center justify-center gap-2">
+                <Check className="h-4 w-4" /> Everything is synced
+              </div>
+            ) : (
+              outbox.map((entry) => (
+                <div key={entry.seq} className="p-3 flex items-start gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium text-sm">{OPERATION_LABELS[entry.operation.type]}</p>
+                      <span className={cn('px-2 py-0.5 rounded-full text-xs capitalize', statusStyles[entry.status])}>{entry.status}</span>
+                    </div>
+                    <p className="text-xs text-gray-500 truncate">{describeOperation(entry)}</p>
+                    {entry.status === 'failed' && entry.lastError && (
+                      <p className="text-xs text-red-600 truncate">{entry.lastError}</p>
+                    )}
+                  </div>
+                  {entry.status === 'conflict' && (
+                    <Button size="sm" variant="outline" onClick={() => setActiveConflict(entry)}>Resolve</Button>
+                  )}
+                  <button
+                    onClick={() => {
+                      if (confirm('Discard this change? It will not be sent to the server.')) discardOperation(entry.seq);
+                    }}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+
+      {activeConflict && <ConflictDialog entry={activeConflict} onClose={() => setActiveConflict(null)} />}
+    </div>
+  );
+}
+
+export default SyncStatus;
@@ -0,0 +1,793 @@
+/**
+ * Sommer's Proposal System - Proposal A/B Testing
+ * Test templates, intro copy, video and block order to see what clients sign
+ */
+
+import { useState, useEffect } from 'react';
+import {
+  Beaker,
+  Play,
+  Pause,
+  CheckCircle,
+  Clock,
+  Target,
+  Plus,
+  Trash2,
+  Crown,
+  Loader2,
+  X,
+  AlertCircle,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/contexts/AuthContext';
+import { getTemplates, type ProposalTemplate } from '@/lib/templates/templatesService';
+import { PORTAL_PROPOSAL_BLOCKS } from '@/lib/portal/clientPortalService';
+import {
+  AB_TEST_TYPES,
+  DEFAULT_AB_MIN_SAMPLE_SIZE,
+  DEFAULT_AB_CONFIDENCE_LEVEL,
+  type ABTest,
+  type ABTestType,
+  type ABTestVariant,
+  type ABTestVariantResult,
+} from '@/lib/experiments';
+import {
+  useABTests,
+  useABTestResults,
+  useCreateABTest,
+  useStartABTest,
+  usePauseABTest,
+  useCompleteABTest,
+  useDeleteABTest,
+} from '@/hooks/useABTests';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+type VariantDraft = Omit<ABTestVariant, 'id'>;
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function signedPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}%`;
+}
+
+function testTypeLabel(testType: ABTestType): string {
+  return AB_TEST_TYPES.find((t) => t.value === testType)?.label || testType;
+}
+
+function emptyTreatment(testType: ABTestType, isControl: boolean): VariantDraft['treatment'] {
+  return testType === 'video' ? { showVideo: isControl } : {};
+}
+
+function emptyVariant(testType: ABTestType, isControl: boolean, index: number): VariantDraft {
+  return {
+    name: isControl ? 'Control' : `Variant ${String.fromCharCode(64 + index)}`,
+    description: null,
+    isControl,
+    trafficAllocation: 50,
+    treatment: emptyTreatment(testType, isControl),
+  };
+}
+
+// ============================================================================
+// STATUS BADGE
+// ============================================================================
+
+function StatusBadge({ status }: { status: ABTest['status'] }) {
+  const styles = {
+    draft: 'bg-gray-100 text-gray-600',
+    running: 'bg-green-100 text-green-700',
+    paused: 'bg-yellow-100 text-yellow-700',
+    completed: 'bg-blue-100 text-blue-700',
+  };
+  const icons = {
+    draft: <Clock className="w-3 h-3" />,
+    running: <Play className="w-3 h-3" />,
+    paused: <Pause className="w-3 h-3" />,
+    completed: <CheckCircle className="w-3 h-3" />,
+  };
+  return (
+    <span className={cn('px-2 py-1 rounded-full text-xs font-medium flex items-center gap-1', styles[status])}>
+      {icons[status]}
+      {status.charAt(0).toUpperCase() + status.slice(1)}
+    </span>
+  );
+}
+
+// ============================================================================
+// VARIANT CARD
+// ============================================================================
+
+function VariantCard({ result, level }: { result: ABTestVariantResult; level: number }) {
+  return (
+    <div
+      className={cn(
+        'p-3 rounded-lg',
+        result.isControl
+          ? 'bg-gray-50 dark:bg-gray-700'
+          : 'bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800'
+      )}
+    >
+      <div className="flex items-center justify-between mb-2">
+        <span className={cn('text-sm font-medium', !result.isControl && 'text-purple-700 dark:text-purple-300')}>
+          {result.name}
+        </span>
+        <span className="text-xs text-gray-500">{result.trafficAllocation}% traffic</span>
+      </div>
+      <div className="grid grid-cols-3 gap-2 text-center">
+        <div>
+          <div className="text-lg font-bold">{result.exposures.toLocaleString()}</div>
+          <div className="text-xs text-gray-500">Views</div>
+        </div>
+        <div>
+          <div className="text-lg font-bold">{result.conversions.toLocaleString()}</div>
+          <div className="text-xs text-gray-500">Signed</div>
+        </div>
+        <div>
+          <div className="text-lg font-bold">{percent(result.conversionRate)}</div>
+          <div className="text-xs text-gray-500">Rate</div>
+        </div>
+      </div>
+      <div className="mt-2 text-xs text-gray-500 space-y-0.5">
+        <div>
+          {Math.round(level * 100)}% interval: {percent(result.conversionRateInterval[0])} – {percent(result.conversionRateInterval[1])}
+        </div>
+        {result.lift !== null && result.liftInterval && (
+          <div className={cn(result.liftInterval[0] > 0 ? 'text-green-600' : result.liftInterval[1] < 0 ? 'text-red-600' : '')}>
+            Lift {signedPercent(result.lift)} ({signedPercent(result.liftInterval[0])} to {signedPercent(result.liftInterval[1])})
+          </div>
+        )}
+        <div>{Math.round(result.probabilityBest * 100)}% chance best</div>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// TEST ROW
+// ============================================================================
+
+function ABTestRow({ test }: { test: ABTest }) {
+  const { data: results } = useABTestResults(test.status === 'draft' ? null : test.id);
+  const startTest = useStartABTest();
+  const pauseTest = usePauseABTest();
+  const completeTest = useCompleteABTest();
+  const deleteTest = useDeleteABTest();
+
+  const control = results?.variants.find((v) => v.isControl);
+  const leader = results?.variants.find((v) => v.variantId === results.leaderVariantId);
+  const challenger = leader && !leader.isControl ? leader : results?.variants.find((v) => !v.isControl);
+  const fewestViews = results ? Math.min(...results.variants.map((v) => v.exposures)) : 0;
+  const winner = test.variants.find((v) => v.id === test.winningVariantId);
+  const winnerResult = results?.variants.find((v) => v.variantId === test.winningVariantId);
+
+  return (
+    <div className="p-4">
+      <div className="flex items-start justify-between">
+        <div className="flex-1">
+          <div className="flex items-center gap-3 mb-1">
+            <h4 className="font-medium text-gray-900 dark:text-white">{test.name}</h4>
+            <StatusBadge status={test.status} />
+            {winner && (
+              <span className="px-2 py-0.5 bg-green-100 text-green-700 rounded text-xs flex items-center gap-1">
+                <Crown className="w-3 h-3" />
+                Winner Found
+              </span>
+            )}
+          </div>
+          {test.description && <p className="text-sm text-gray-500 mb-2">{test.description}</p>}
+          <div className="flex items-center gap-4 text-xs text-gray-500">
+            <span>{testTypeLabel(test.testType)}</span>
+            <span>•</span>
+            <span>{test.variants.length} variants</span>
+            {results && (
+              <>
+                <span>•</span>
+                <span>{results.totalExposures.toLocaleString()} proposals viewed</span>
+                <span>•</span>
+                <span className={results.significant ? 'text-green-600' : 'text-yellow-600'}>{results.note}</span>
+              </>
+            )}
+          </div>
+        </div>
+
+        {/* Quick Stats */}
+        {control && challenger && (
+          <div className="flex gap-6 text-right">
+            <div>
+              <div className="text-sm font-medium">{percent(control.conversionRate)}</div>
+              <div className="text-xs text-gray-500">Control</div>
+            </div>
+            <div>
+              <div className="text-sm font-medium text-purple-600">{percent(challenger.conversionRate)}</div>
+              <div className="text-xs text-gray-500">{challenger.name}</div>
+            </div>
+            <div>
+              <div
+                className={cn(
+                  'text-sm font-medium',
+                  (challenger.lift ?? 0) >= 0 ? 'text-green-600' : 'text-red-600'
+                )}
+              >
+                {challenger.lift !== null ? signedPercent(challenger.lift) : '—'}
+              </div>
+              <div className="text-xs text-gray-500">Lift</div>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Variants Comparison */}
+      {results && test.status !== 'completed' && (
+        <div className="mt-4 grid md:grid-cols-2 gap-4">
+          {results.variants.map((result) => (
+            <VariantCard key={result.variantId} result={result} level={test.confidenceLevel} />
+          ))}
+        </div>
+      )}
+
+      {/* Progress to sample size */}
+      {results && (test.status === 'running' || test.status === 'paused') && (
+        <div className="mt-4">
+          <div className="flex items-center justify-between text-xs text-gray-500 mb-1">
+            <span>Progress to min sample size (per variant)</span>
+            <span>{fewestViews} / {test.minSampleSize}</span>
+          </div>
+          <div className="h-2 bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-purple-500 transition-all"
+              style={{ width: `${Math.min(100, (fewestViews / test.minSampleSize) * 100)}%` }}
+            />
+          </div>
+          {results.significant && (
+            <div className="mt-2 p-2 bg-green-50 dark:bg-green-900/20 rounded text-sm text-green-700 dark:text-green-300 flex items-center gap-2">
+              <CheckCircle className="w-4 h-4" />
+              Statistical significance reached! Consider concluding the test.
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Completed Test Results */}
+      {test.status === 'completed' && winner && (
+        <div className="mt-4 p-4 bg-green-50 dark:bg-green-900/20 rounded-lg">
+          <div className="flex items-center gap-2 text-green-700 dark:text-green-300 font-medium mb-2">
+            <Crown className="w-5 h-5" />
+            Winner: {winner.name}
+          </div>
+          {winnerResult && (
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <span className="text-gray-500">Conversion Rate:</span>
+                <span className="ml-2 font-bold">{percent(winnerResult.conversionRate)}</span>
+              </div>
+              <div>
+                <span className="text-gray-500">Lift:</span>
+                <span className="ml-2 font-bold text-green-600">
+                  {winnerResult.lift !== null ? signedPercent(winnerResult.lift) : '—'}
+                </span>
+              </div>
+              <div>
+                <span className="text-gray-500">Signed Revenue:</span>
+                <span className="ml-2 font-bold">${winnerResult.totalRevenue.toLocaleString()}</span>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="mt-4 flex items-center gap-2">
+        {(test.status === 'draft' || test.status === 'paused') && (
+          <button
+            onClick={() => startTest.mutate(test.id)}
+            disabled={startTest.isPending}
+            className="px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 flex items-center gap-1"
+          >
+            <Play className="w-4 h-4" />
+            {test.status === 'draft' ? 'Start' : 'Resume'}
+          </button>
+        )}
+        {test.status === 'running' && (
+          <button
+            onClick={() => pauseTest.mutate(test.id)}
+            disabled={pauseTest.isPending}
+            className="px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 flex items-center gap-1"
+          >
+            <Pause className="w-4 h-4" />
+            Pause
+          </button>
+        )}
+        {(test.status === 'running' || test.status === 'paused') && (
+          <button
+            onClick={() =>
+              completeTest.mutate({
+                testId: test.id,
+                winningVariantId: results?.significant ? results.leaderVariantId || undefined : undefined,
+              })
+            }
+            disabled={completeTest.isPending}
+            className="px-3 py-1.5 text-sm border rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 flex items-center gap-1"
+          >
+            <CheckCircle className="w-4 h-4" />
+            {results?.significant && leader ? `Conclude: ${leader.name} wins` : 'Conclude without winner'}
+          </button>
+        )}
+        {test.status === 'draft' && (
+          <button
+            onClick={() => deleteTest.mutate(test.id)}
+            disabled={deleteTest.isPending}
+            className="px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 rounded-lg disabled:opacity-50 flex items-center gap-1"
+          >
+            <Trash2 className="w-4 h-4" />
+            Delete
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// CREATE TEST MODAL
+// ============================================================================
+
+interface CreateABTestModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+function CreateABTestModal({ isOpen, onClose }: CreateABTestModalProps) {
+  const { organization } = useAuth();
+  const createTest = useCreateABTest();
+  const [error, setError] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<ProposalTemplate[]>([]);
+
+  // Form state
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [testType, setTestType] = useState<ABTestType>('intro_copy');
+  const [variants, setVariants] = useState<VariantDraft[]>([]);
+  const [minSampleSize, setMinSampleSize] = useState(String(DEFAULT_AB_MIN_SAMPLE_SIZE));
+  const [confidenceLevel, setConfidenceLevel] = useState(DEFAULT_AB_CONFIDENCE_LEVEL);
+
+  // Reset each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setName('');
+      setDescription('');
+      setTestType('intro_copy');
+      setVariants([emptyVariant('intro_copy', true, 0), emptyVariant('intro_copy', false, 1)]);
+      setMinSampleSize(String(DEFAULT_AB_MIN_SAMPLE_SIZE));
+      setConfidenceLevel(DEFAULT_AB_CONFIDENCE_LEVEL);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  // Templates for template tests
+  useEffect(() => {
+    if (isOpen && organization?.id) {
+      getTemplates(organization.id)
+        .then(setTemplates)
+        .catch((err) => console.error('Failed to load templates:', err));
+    }
+  }, [isOpen, organization?.id]);
+
+  const updateVariant = (index: number, changes: Partial<VariantDraft>) => {
+    setVariants((current) => current.map((v, i) => (i === index ? { ...v, ...changes } : v)));
+  };
+
+  const updateTreatment = (index: number, changes: VariantDraft['treatment']) => {
+    setVariants((current) =>
+      current.map((v, i) => (i === index ? { ...v, treatment: { ...v.treatment, ...changes } } : v))
+    );
+  };
+
+  // Treatments only make sense for one test type, so switching clears them
+  const changeTestType = (value: ABTestType) => {
+    setTestType(value);
+    setVariants((current) => current.map((v) => ({ ...v, treatment: emptyTreatment(value, v.isControl) })));
+  };
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    try {
+      await createTest.mutateAsync({
+        name,
+        description: description || undefined,
+        testType,
+        variants,
+        minSampleSize: Number(minSampleSize) || DEFAULT_AB_MIN_SAMPLE_SIZE,
+        confidenceLevel,
+      });
+      onClose();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to create test');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg flex items-center justify-center bg-purple-100">
+              <Beaker className="w-5 h-5 text-purple-600" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">New A/B Test</h2>
+              <p className="text-sm text-gray-500">Each proposal always sees the same variant</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="overflow-y-auto max-h-[calc(90vh-140px)]">
+          <div className="p-6 space-y-4">
+            {/* Error Alert */}
+            {error && (
+              <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-start gap-3">
+                <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-red-600 dark:text-red-300">{error}</p>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Name <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Short intro vs. long intro"
+                required
+                maxLength={255}
+                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Description
+              </label>
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                What to test
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {AB_TEST_TYPES.map((type) => (
+                  <button
+                    key={type.value}
+                    type="button"
+                    onClick={() => changeTestType(type.value)}
+                    className={cn(
+                      'px-3 py-1.5 rounded-lg border text-sm transition-colors',
+                      testType === type.value
+                        ? 'border-purple-500 bg-purple-50 text-purple-700'
+                        : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                    )}
+                  >
+                    {type.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Variants */}
+            <div className="space-y-3">
+              {variants.map((variant, index) => (
+                <div key={index} className="p-3 border rounded-lg space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={variant.name}
+                      onChange={(e) => updateVariant(index, { name: e.target.value })}
+                      className="flex-1 px-3 py-1.5 border rounded-lg text-sm"
+                    />
+                    <input
+                      type="number"
+                      min="1"
+                      value={variant.trafficAllocation}
+                      onChange={(e) => updateVariant(index, { trafficAllocation: Number(e.target.value) })}
+                      className="w-20 px-3 py-1.5 border rounded-lg text-sm"
+                      title="Traffic allocation"
+                    />
+                    <span className="text-xs text-gray-500">% traffic</span>
+                    {variant.isControl ? (
+                      <span className="text-xs text-gray-500 w-8">Ctrl</span>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => setVariants((current) => current.filter((_, i) => i !== index))}
+                        disabled={variants.length <= 2}
+                        className="p-1.5 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+
+                  {testType === 'template' && (
+                    <select
+                      value={variant.treatment.templateId || ''}
+                      onChange={(e) => updateTreatment(index, { templateId: e.target.value || undefined })}
+                      className="w-full px-3 py-1.5 border rounded-lg text-sm"
+                    >
+                      <option value="">{variant.isControl ? "Proposal's own template" : 'Choose a template'}</option>
+                      {templates.map((template) => (
+                        <option key={template.id} value={template.id}>{template.name}</option>
+                      ))}
+                    </select>
+                  )}
+
+                  {testType === 'intro_copy' && (
+                    <textarea
+                      value={variant.treatment.introduction || ''}
+                      onChange={(e) => updateTreatment(index, { introduction: e.target.value || undefined })}
+                      rows={3}
+                      placeholder={variant.isControl ? "Leave blank to keep the proposal's own introduction" : 'Introduction this variant shows'}
+                      className="w-full px-3 py-2 border rounded-lg text-sm resize-none"
+                    />
+                  )}
+
+                  {testType === 'video' && (
+                    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={variant.treatment.showVideo ?? false}
+                        onChange={(e) => updateTreatment(index, { showVideo: e.target.checked })}
+                        className="rounded text-purple-600 focus:ring-purple-500"
+                      />
+                      Show the proposal video
+                    </label>
+                  )}
+
+                  {testType === 'block_order' && (
+                    <input
+                      type="text"
+                      value={variant.treatment.blockOrder?.join(', ') || ''}
+                      onChange={(e) => {
+                        const codes = e.target.value.split(',').map((code) => code.trim()).filter(Boolean);
+                        updateTreatment(index, { blockOrder: codes.length > 0 ? codes : undefined });
+                      }}
+                      placeholder={variant.isControl ? 'Leave blank to keep the saved order' : `Blocks to show first, from: ${PORTAL_PROPOSAL_BLOCKS.join(', ')}`}
+                      className="w-full px-3 py-1.5 border rounded-lg text-sm"
+                    />
+                  )}
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setVariants((current) => [...current, emptyVariant(testType, false, current.length)])}
+                className="text-sm text-purple-600 hover:text-purple-700 flex items-center gap-1"
+              >
+                <Plus className="w-4 h-4" />
+                Add variant
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Min views per variant
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={minSampleSize}
+                  onChange={(e) => setMinSampleSize(e.target.value)}
+                  className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Confidence level
+                </label>
+                <select
+                  value={confidenceLevel}
+                  onChange={(e) => setConfidenceLevel(Number(e.target.value))}
+                  className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-purple-500/20 focus:border-purple-500"
+                >
+                  <option value={0.9}>90%</option>
+                  <option value={0.95}>95%</option>
+                  <option value={0.99}>99%</option>
+                </select>
+              </div>
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="px-6 py-4 border-t bg-gray-50 dark:bg-gray-700 flex items-center justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={createTest.isPending || !name.trim()}
+              className="px-6 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {createTest.isPending ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                <>
+                  <CheckCircle className="w-4 h-4" />
+                  Create Test
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// A/B TEST DASHBOARD COMPONENT
+// ============================================================================
+
+interface ABTestDashboardProps {
+  className?: string;
+}
+
+export function ABTestDashboard({ className }: ABTestDashboardProps) {
+  const { data: tests = [], isLoading } = useABTests();
+  const [showCreateModal, setShowCreateModal] = useState(false);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-brand-red" />
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <Beaker className="w-6 h-6 text-purple-500" />
+            A/B Testing
+          </h2>
+          <p className="text-gray-500">Test what clients see on a proposal to get more of them signed</p>
+        </div>
+        <button
+          onClick={() => setShowCreateModal(true)}
+          className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          New Test
+        </button>
+      </div>
+
+      {/* Tests Summary */}
+      <div className="grid md:grid-cols-4 gap-4">
+        <div className="bg-white dark:bg-gray-800 rounded-lg border p-4">
+          <div className="flex items-center gap-2 text-gray-500 text-sm mb-1">
+            <Play className="w-4 h-4 text-green-500" />
+            Running
+          </div>
+          <div className="text-2xl font-bold">{tests.filter((t) => t.status === 'running').length}</div>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg border p-4">
+          <div className="flex items-center gap-2 text-gray-500 text-sm mb-1">
+            <Pause className="w-4 h-4 text-yellow-500" />
+            Paused
+          </div>
+          <div className="text-2xl font-bold">{tests.filter((t) => t.status === 'paused').length}</div>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg border p-4">
+          <div className="flex items-center gap-2 text-gray-500 text-sm mb-1">
+            <CheckCircle className="w-4 h-4 text-purple-500" />
+            Completed
+          </div>
+          <div className="text-2xl font-bold">{tests.filter((t) => t.status === 'completed').length}</div>
+        </div>
+        <div className="bg-white dark:bg-gray-800 rounded-lg border p-4">
+          <div className="flex items-center gap-2 text-gray-500 text-sm mb-1">
+            <Crown className="w-4 h-4 text-green-500" />
+            Winners Found
+          </div>
+          <div className="text-2xl font-bold text-green-600">{tests.filter((t) => t.winningVariantId).length}</div>
+        </div>
+      </div>
+
+      {/* Tests List */}
+      {tests.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg border overflow-hidden">
+          <div className="px-4 py-3 border-b bg-gray-50 dark:bg-gray-700">
+            <h3 className="font-semibold">All Tests</h3>
+          </div>
+          <div className="divide-y divide-gray-100 dark:divide-gray-700">
+            {tests.map((test) => (
+              <ABTestRow key={test.id} test={test} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Empty State */}
+      {tests.length === 0 && (
+        <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg border">
+          <Beaker className="w-12 h-12 mx-auto text-gray-300 mb-4" />
+          <h3 className="font-semibold text-gray-900 dark:text-white mb-2">No A/B Tests Yet</h3>
+          <p className="text-gray-500 mb-4">Test templates, intro copy, video or block order on your proposals</p>
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700"
+          >
+            Create Your First Test
+          </button>
+        </div>
+      )}
+
+      {/* Best Practices */}
+      <div className="bg-purple-50 dark:bg-purple-900/20 rounded-lg p-6 border border-purple-200 dark:border-purple-800">
+        <h3 className="font-semibold text-purple-800 dark:text-purple-200 mb-3 flex items-center gap-2">
+          <Target className="w-5 h-5" />
+          A/B Testing Best Practices
+        </h3>
+        <div className="grid md:grid-cols-2 gap-4 text-sm text-purple-700 dark:text-purple-300">
+          <div>
+            <h4 className="font-medium mb-1">Test One Variable at a Time</h4>
+            <p className="opacity-80">Change only the intro, video or block order in a test, not several at once.</p>
+          </div>
+          <div>
+            <h4 className="font-medium mb-1">Wait for the Interval to Clear Zero</h4>
+            <p className="opacity-80">A lift whose interval still includes zero may just be noise.</p>
+          </div>
+          <div>
+            <h4 className="font-medium mb-1">Use Adequate Sample Size</h4>
+            <p className="opacity-80">Only the first view of each proposal counts, so tests take a while to fill.</p>
+          </div>
+          <div>
+            <h4 className="font-medium mb-1">Implement Winners Permanently</h4>
+            <p className="opacity-80">After a test concludes, update your templates with the winning version.</p>
+          </div>
+        </div>
+      </div>
+
+      <CreateABTestModal isOpen={showCreateModal} onClose={() => setShowCreateModal(false)} />
+    </div>
+  );
+}
+
+export default ABTestDashboard;
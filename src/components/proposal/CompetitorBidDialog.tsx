@@ -0,0 +1,292 @@
+/**
+ * Sommer's Proposal System - Competitor Bid Dialog
+ * Log a competitor's bid for a proposal, or mark the proposal lost to one
+ */
+
+import { useState, useEffect } from 'react';
+import { X, Swords, XCircle, AlertCircle, CheckCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { MARKET_SERVICES, type CompetitorBidInput } from '@/lib/ai/marketPriceService';
+import { useLogCompetitorBid, useMarkProposalLost } from '@/hooks/useMarketPricing';
+
+interface CompetitorBidDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** 'lost' marks the proposal rejected, with the winning bid optional */
+  mode: 'lost' | 'shared';
+  proposal: {
+    id: string;
+    property_zip?: string | null;
+    net_sqft?: number | null;
+    total_sqft?: number | null;
+  };
+}
+
+export function CompetitorBidDialog({ isOpen, onClose, mode, proposal }: CompetitorBidDialogProps) {
+  const logBid = useLogCompetitorBid();
+  const markLost = useMarkProposalLost();
+  const [error, setError] = useState<string | null>(null);
+
+  // Form state
+  const [knowsBid, setKnowsBid] = useState(true);
+  const [competitorName, setCompetitorName] = useState('');
+  const [services, setServices] = useState<string[]>([]);
+  const [price, setPrice] = useState('');
+  const [sqft, setSqft] = useState('');
+  const [zip, setZip] = useState('');
+  const [bidDate, setBidDate] = useState('');
+  const [notes, setNotes] = useState('');
+
+  // Prefill from the proposal each time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setKnowsBid(true);
+      setCompetitorName('');
+      setServices(['sealcoating']);
+      setPrice('');
+      setSqft(String(proposal.net_sqft || proposal.total_sqft || ''));
+      setZip(proposal.property_zip || '');
+      setBidDate(new Date().toISOString().split('T')[0]);
+      setNotes('');
+      setError(null);
+    }
+  }, [isOpen, proposal]);
+
+  const toggleService = (value: string) => {
+    setServices((current) =>
+      current.includes(value) ? current.filter((s) => s !== value) : [...current, value]
+    );
+  };
+
+  const isPending = logBid.isPending || markLost.isPending;
+  const bidRequired = mode === 'shared' || knowsBid;
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const bid: CompetitorBidInput | undefined = bidRequired
+      ? {
+          proposalId: proposal.id,
+          competitorName,
+          services,
+          price: Number(price),
+          sqft: sqft ? Number(sqft) : null,
+          zip,
+          source: mode === 'lost' ? 'lost_proposal' : 'client_shared',
+          bidDate,
+          notes: notes || undefined,
+        }
+      : undefined;
+
+    try {
+      if (mode === 'lost') {
+        await markLost.mutateAsync({ proposalId: proposal.id, bid });
+      } else {
+        await logBid.mutateAsync(bid!);
+      }
+      onClose();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save competitor bid');
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/50" onClick={onClose} />
+
+      {/* Modal */}
+      <div className="relative bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-hidden">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div className="flex items-center gap-3">
+            <div className={cn('w-10 h-10 rounded-lg flex items-center justify-center', mode === 'lost' ? 'bg-red-100' : 'bg-blue-100')}>
+              {mode === 'lost' ? <XCircle className="w-5 h-5 text-red-600" /> : <Swords className="w-5 h-5 text-blue-600" />}
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                {mode === 'lost' ? 'Mark Proposal Lost' : 'Log Competitor Bid'}
+              </h2>
+              <p className="text-sm text-gray-500">
+                {mode === 'lost' ? 'Record who won the job and at what price' : 'Record a quote the client shared with you'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="overflow-y-auto max-h-[calc(90vh-140px)]">
+          <div className="p-6 space-y-4">
+            {/* Error Alert */}
+            {error && (
+              <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-start gap-3">
+                <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+                <p className="text-sm text-red-600 dark:text-red-300">{error}</p>
+              </div>
+            )}
+
+            {mode === 'lost' && (
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={knowsBid}
+                  onChange={(e) => setKnowsBid(e.target.checked)}
+                  className="rounded text-brand-red focus:ring-brand-red"
+                />
+                I know the winning competitor's bid
+              </label>
+            )}
+
+            {bidRequired && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Competitor <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    value={competitorName}
+                    onChange={(e) => setCompetitorName(e.target.value)}
+                    placeholder="ABC Paving"
+                    required
+                    maxLength={255}
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-brand-red/20 focus:border-brand-red"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Services quoted <span className="text-red-500">*</span>
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {MARKET_SERVICES.map((service) => (
+                      <button
+                        key={service.value}
+                        type="button"
+                        onClick={() => toggleService(service.value)}
+                        className={cn(
+                          'px-3 py-1.5 rounded-lg border text-sm transition-colors',
+                          services.includes(service.value)
+                            ? 'border-brand-red bg-brand-red/5 text-brand-red'
+                            : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                        )}
+                      >
+                        {service.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Price <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={price}
+                      onChange={(e) => setPrice(e.target.value)}
+                      required
+                      className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-brand-red/20 focus:border-brand-red"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Square feet
+                    </label>
+                    <input
+                      type="number"
+                      min="0"
+                      value={sqft}
+                      onChange={(e) => setSqft(e.target.value)}
+                      className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-brand-red/20 focus:border-brand-red"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Zip code <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="text"
+                      value={zip}
+                      onChange={(e) => setZip(e.target.value)}
+                      required
+                      maxLength={10}
+                      className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-brand-red/20 focus:border-brand-red"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Bid date
+                    </label>
+                    <input
+                      type="date"
+                      value={bidDate}
+                      onChange={(e) => setBidDate(e.target.value)}
+                      className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-brand-red/20 focus:border-brand-red"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">Bids without square footage are kept but left out of the market price index.</p>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Notes
+                  </label>
+                  <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    rows={2}
+                    className="w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-brand-red/20 focus:border-brand-red resize-none"
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          {/* Footer */}
+          <div className="px-6 py-4 border-t bg-gray-50 dark:bg-gray-700 flex items-center justify-end gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isPending || (bidRequired && (!competitorName.trim() || services.length === 0 || !price))}
+              className="px-6 py-2 bg-brand-red text-white rounded-lg hover:bg-brand-red/90 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              {isPending ? (
+                <>
+                  <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <CheckCircle className="w-4 h-4" />
+                  {mode === 'lost' ? 'Mark Lost' : 'Log Bid'}
+                </>
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+export default CompetitorBidDialog;
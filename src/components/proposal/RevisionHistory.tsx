@@ -0,0 +1,171 @@
+/**
+ * RevisionHistory Component
+ * Lists a proposal's saved revisions with a side-by-side diff and restore
+ */
+
+import { useState } from 'react';
+import { History, RotateCcw, Plus, Minus, Pencil } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { useProposalRevisions, useRevisionDiff, useRestoreRevision } from '@/hooks/useProposals';
+import { formatCurrency, formatDateTime, cn } from '@/lib/utils';
+import type { ProposalFieldChange, ProposalLineItemChange } from '@/lib/proposal';
+
+const MONEY_FIELDS = ['subtotal', 'discount_amount', 'tax_amount', 'total', 'deposit_amount'];
+
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (MONEY_FIELDS.includes(field) && typeof value === 'number') return formatCurrency(value);
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'object') return JSON.stringify(value, null, 2);
+  return String(value);
+}
+
+function formatLineItem(item?: ProposalLineItemChange['before']): string {
+  if (!item) return '—';
+  return `${item.quantity} ${item.unit} × ${formatCurrency(item.unit_price)} = ${formatCurrency(item.total)}`;
+}
+
+const lineItemIcons = {
+  added: <Plus className="h-4 w-4 text-green-600" />,
+  removed: <Minus className="h-4 w-4 text-red-600" />,
+  changed: <Pencil className="h-4 w-4 text-blue-600" />,
+};
+
+interface RevisionHistoryProps {
+  proposalId: string;
+  currentVersion: number;
+  /** Signed proposals keep their history but can't be restored */
+  canRestore?: boolean;
+}
+
+export function RevisionHistory({ proposalId, currentVersion, canRestore = true }: RevisionHistoryProps) {
+  const [selectedId, setSelectedId] = useState<string>();
+  const { data: revisions = [], isLoading } = useProposalRevisions(proposalId);
+  const { data: comparison, isLoading: isDiffLoading } = useRevisionDiff(selectedId);
+  const restoreRevision = useRestoreRevision();
+
+  const handleRestore = () => {
+    if (!comparison) return;
+    const { revision } = comparison;
+    if (!confirm(`Restore version ${revision.version}? The current version will be kept in the history.`)) return;
+    restoreRevision.mutate(revision, { onSuccess: () => setSelectedId(undefined) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Revision History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-gray-500">Loading revisions…</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No revisions yet. Saving changes after the proposal is sent keeps a copy of the previous version here.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {revisions.map((revision) => (
+              <button
+                key={revision.id}
+                type="button"
+                onClick={() => setSelectedId(revision.id === selectedId ? undefined : revision.id)}
+                className={cn(
+                  'w-full text-left p-3 rounded-lg border transition-colors',
+                  revision.id === selectedId ? 'border-brand-red bg-red-50' : 'border-gray-200 hover:bg-gray-50'
+                )}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">Version {revision.version}</span>
+                  <span className="text-xs text-gray-500">{formatDateTime(revision.created_at)}</span>
+                </div>
+                {revision.change_summary && <p className="text-sm text-gray-500 mt-1">{revision.change_summary}</p>}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {selectedId && (
+          <div className="border-t pt-4 space-y-4">
+            {isDiffLoading || !comparison ? (
+              <p className="text-sm text-gray-500">Comparing…</p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between">
+                  <p className="text-sm font-medium">
+                    Version {comparison.revision.version} → Current (v{currentVersion})
+                  </p>
+                  {canRestore && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={handleRestore}
+                      isLoading={restoreRevision.isPending}
+                      leftIcon={<RotateCcw className="h-4 w-4" />}
+                    >
+                      Restore
+                    </Button>
+                  )}
+                </div>
+
+                {!comparison.diff.hasChanges && (
+                  <p className="text-sm text-gray-500">This version matches the current proposal.</p>
+                )}
+
+                {comparison.diff.fields.length > 0 && (
+                  <table className="w-full text-sm table-fixed">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left py-2 w-1/4 font-medium text-gray-500">Field</th>
+                        <th className="text-left py-2 font-medium text-gray-500">Version {comparison.revision.version}</th>
+                        <th className="text-left py-2 font-medium text-gray-500">Current</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {comparison.diff.fields.map((change: ProposalFieldChange) => (
+                        <tr key={change.field} className="border-b align-top">
+                          <td className="py-2 font-medium">{change.label}</td>
+                          <td className="py-2 pr-2 bg-red-50 text-red-800 whitespace-pre-wrap break-words">{formatValue(change.field, change.before)}</td>
+                          <td className="py-2 pl-2 bg-green-50 text-green-800 whitespace-pre-wrap break-words">{formatValue(change.field, change.after)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+
+                {comparison.diff.lineItems.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm font-medium">Line Items</p>
+                    {comparison.diff.lineItems.map((change, i) => (
+                      <div key={i} className="grid grid-cols-[auto_1fr_1fr] gap-2 items-start text-sm">
+                        {lineItemIcons[change.type]}
+                        <div>
+                          <p className="font-medium">{change.name}</p>
+                          <p className="text-gray-500">{formatLineItem(change.before)}</p>
+                        </div>
+                        <p className="text-gray-700 pt-5">{formatLineItem(change.after)}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {comparison.diff.blocks.added + comparison.diff.blocks.removed + comparison.diff.blocks.changed > 0 && (
+                  <p className="text-sm text-gray-600">
+                    Content blocks: {comparison.diff.blocks.added} added, {comparison.diff.blocks.removed} removed,{' '}
+                    {comparison.diff.blocks.changed} changed
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default RevisionHistory;
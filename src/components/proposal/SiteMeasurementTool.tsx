@@ -0,0 +1,536 @@
+/**
+ * SiteMeasurementTool Component
+ * Draw paved areas, islands and linear features on a map or aerial image
+ */
+
+import { useEffect, useMemo, useRef, useState, type MouseEvent, type WheelEvent } from 'react';
+import { MapPin, Upload, Hand, MousePointer2, Ruler, ZoomIn, ZoomOut, Trash2, Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { uploadFile } from '@/lib/supabase';
+import { QuotaExceededError } from '@/lib/usage/usageService';
+import { geocodeAddress } from '@/lib/weather/weatherService';
+import {
+  FEATURE_KINDS,
+  MAP_TILE_SIZE,
+  closeRing,
+  computeSiteMeasurements,
+  createEmptySite,
+  lngLatToWorld,
+  measureFeature,
+  planarLineLength,
+  worldToLngLat,
+  type SiteFeature,
+  type SiteFeatureKind,
+  type SiteGeometry,
+  type SitePosition,
+} from '@/lib/measurements';
+import { cn } from '@/lib/utils';
+
+const VIEW_WIDTH = 800;
+const VIEW_HEIGHT = 480;
+const MIN_ZOOM = 3;
+const MAX_ZOOM = 19;
+const TILE_URL = import.meta.env.VITE_MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+
+type Tool = 'pan' | 'edit' | 'scale' | SiteFeatureKind;
+
+type Drag =
+  | { type: 'pan'; start: SitePosition; origin: SitePosition }
+  | { type: 'vertex'; featureId: string; index: number };
+
+interface SiteMeasurementToolProps {
+  value: SiteGeometry | null;
+  onChange: (site: SiteGeometry | null) => void;
+  /** Used to center the map when starting a new drawing */
+  address?: string;
+}
+
+function formatMeasurement(feature: SiteFeature, site: SiteGeometry): string {
+  const amount = Math.round(measureFeature(feature, site.basemap)).toLocaleString();
+  return feature.geometry.type === 'Polygon' ? `${amount} sq ft` : `${amount} LF`;
+}
+
+/** Positions without the repeats a double-click leaves behind */
+function dedupe(points: SitePosition[]): SitePosition[] {
+  return points.filter((p, i) => i === 0 || p[0] !== points[i - 1][0] || p[1] !== points[i - 1][1]);
+}
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+function loadImageSize(url: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    image.onerror = () => reject(new Error('Could not load image'));
+    image.src = url;
+  });
+}
+
+export function SiteMeasurementTool({ value, onChange, address }: SiteMeasurementToolProps) {
+  const { organization } = useAuth();
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [tool, setTool] = useState<Tool>('paved');
+  const [draft, setDraft] = useState<SitePosition[]>([]);
+  const [hover, setHover] = useState<SitePosition | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [imageView, setImageView] = useState<{ scale: number; offset: SitePosition }>({ scale: 1, offset: [0, 0] });
+  const [isLocating, setIsLocating] = useState(false);
+  const [manualCenter, setManualCenter] = useState('');
+
+  const basemap = value?.basemap;
+
+  // Fit an aerial image to the view when it first loads
+  useEffect(() => {
+    if (basemap?.type !== 'image') return;
+    const scale = Math.min(VIEW_WIDTH / basemap.width, VIEW_HEIGHT / basemap.height);
+    setImageView({
+      scale,
+      offset: [(VIEW_WIDTH - basemap.width * scale) / 2, (VIEW_HEIGHT - basemap.height * scale) / 2],
+    });
+  }, [basemap?.type === 'image' ? basemap.url : null]);
+
+  // Escape cancels the shape being drawn
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setDraft([]);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, []);
+
+  const centerWorld = useMemo<SitePosition>(
+    () => (basemap?.type === 'map' ? lngLatToWorld(basemap.center, basemap.zoom) : [0, 0]),
+    [basemap]
+  );
+
+  // --------------------------------------------------------------------------
+  // Projection between geometry positions and SVG coordinates
+  // --------------------------------------------------------------------------
+
+  const toScreen = (position: SitePosition): SitePosition => {
+    if (basemap?.type === 'map') {
+      const [x, y] = lngLatToWorld(position, basemap.zoom);
+      return [x - centerWorld[0] + VIEW_WIDTH / 2, y - centerWorld[1] + VIEW_HEIGHT / 2];
+    }
+    return [position[0] * imageView.scale + imageView.offset[0], position[1] * imageView.scale + imageView.offset[1]];
+  };
+
+  const fromScreen = (point: SitePosition): SitePosition => {
+    if (basemap?.type === 'map') {
+      return worldToLngLat(
+        [point[0] + centerWorld[0] - VIEW_WIDTH / 2, point[1] + centerWorld[1] - VIEW_HEIGHT / 2],
+        basemap.zoom
+      );
+    }
+    return [(point[0] - imageView.offset[0]) / imageView.scale, (point[1] - imageView.offset[1]) / imageView.scale];
+  };
+
+  const eventPoint = (e: MouseEvent | WheelEvent): SitePosition => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return [
+      ((e.clientX - rect.left) / rect.width) * VIEW_WIDTH,
+      ((e.clientY - rect.top) / rect.height) * VIEW_HEIGHT,
+    ];
+  };
+
+  // --------------------------------------------------------------------------
+  // Basemap setup
+  // --------------------------------------------------------------------------
+
+  const startMap = (lat: number, lng: number) => {
+    onChange(createEmptySite({ type: 'map', center: [lng, lat], zoom: 19 }));
+  };
+
+  const handleLocate = async () => {
+    setIsLocating(true);
+    try {
+      const match = await geocodeAddress(address || '');
+      if (match) {
+        startMap(match.lat, match.lon);
+      } else {
+        alert('Could not find that address. Enter coordinates instead.');
+      }
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const handleManualCenter = () => {
+    const [lat, lng] = manualCenter.split(',').map((part) => Number(part.trim()));
+    if (Number.isFinite(lat) && Number.isFinite(lng)) startMap(lat, lng);
+  };
+
+  const handleImageUpload = async (file: File) => {
+    let uploaded: string | null = null;
+    if (organization?.id) {
+      try {
+        uploaded = await uploadFile(organization.id, 'PROPOSAL_IMAGES', `site-plans/${crypto.randomUUID()}-${file.name}`, file);
+      } catch (error) {
+        if (!(error instanceof QuotaExceededError)) throw error;
+        toast.error(error.message);
+        return;
+      }
+    }
+    // Offline, keep the image inline so drawing can carry on
+    const url = uploaded || (await readAsDataUrl(file));
+    const { width, height } = await loadImageSize(url);
+    onChange(createEmptySite({ type: 'image', url, width, height, feetPerPixel: null }));
+    setTool('scale');
+  };
+
+  const handleReset = () => {
+    if (value?.features.length && !confirm('Remove the drawing and start over?')) return;
+    setDraft([]);
+    onChange(null);
+  };
+
+  // --------------------------------------------------------------------------
+  // Drawing
+  // --------------------------------------------------------------------------
+
+  const updateFeatures = (features: SiteFeature[]) => {
+    if (value) onChange({ ...value, features });
+  };
+
+  const finishDraft = () => {
+    if (!value || tool === 'pan' || tool === 'edit' || tool === 'scale') return;
+    const points = dedupe(draft);
+    const kind = FEATURE_KINDS[tool];
+    const minPoints = kind.geometry === 'Polygon' ? 3 : 2;
+    if (points.length < minPoints) return;
+
+    const feature: SiteFeature = {
+      type: 'Feature',
+      id: crypto.randomUUID(),
+      properties: { kind: tool },
+      geometry:
+        kind.geometry === 'Polygon'
+          ? { type: 'Polygon', coordinates: [closeRing(points)] }
+          : { type: 'LineString', coordinates: points },
+    };
+    updateFeatures([...value.features, feature]);
+    setDraft([]);
+  };
+
+  const applyScale = (points: SitePosition[]) => {
+    if (value?.basemap.type !== 'image') return;
+    const pixels = planarLineLength(points);
+    const feet = Number(prompt('How many feet is the line you drew?'));
+    if (pixels > 0 && feet > 0) {
+      onChange({ ...value, basemap: { ...value.basemap, feetPerPixel: feet / pixels } });
+      setTool('paved');
+    }
+    setDraft([]);
+  };
+
+  const handleClick = (e: MouseEvent<SVGSVGElement>) => {
+    if (!value || tool === 'pan' || tool === 'edit') return;
+    const next = [...draft, fromScreen(eventPoint(e))];
+    if (tool === 'scale' && next.length === 2) {
+      applyScale(next);
+      return;
+    }
+    setDraft(next);
+  };
+
+  const handleMouseDown = (e: MouseEvent<SVGSVGElement>) => {
+    if (tool !== 'pan' && e.button !== 1) return;
+    e.preventDefault();
+    setDrag({
+      type: 'pan',
+      start: eventPoint(e),
+      origin: basemap?.type === 'map' ? centerWorld : imageView.offset,
+    });
+  };
+
+  const handleMouseMove = (e: MouseEvent<SVGSVGElement>) => {
+    const point = eventPoint(e);
+    setHover(point);
+    if (!drag || !value) return;
+
+    if (drag.type === 'pan') {
+      const dx = point[0] - drag.start[0];
+      const dy = point[1] - drag.start[1];
+      if (value.basemap.type === 'map') {
+        const center = worldToLngLat([drag.origin[0] - dx, drag.origin[1] - dy], value.basemap.zoom);
+        onChange({ ...value, basemap: { ...value.basemap, center } });
+      } else {
+        setImageView((view) => ({ ...view, offset: [drag.origin[0] + dx, drag.origin[1] + dy] }));
+      }
+      return;
+    }
+
+    const position = fromScreen(point);
+    updateFeatures(
+      value.features.map((feature) => {
+        if (feature.id !== drag.featureId) return feature;
+        if (feature.geometry.type === 'LineString') {
+          const coordinates = feature.geometry.coordinates.map((p, i) => (i === drag.index ? position : p));
+          return { ...feature, geometry: { ...feature.geometry, coordinates } };
+        }
+        const ring = feature.geometry.coordinates[0].slice(0, -1).map((p, i) => (i === drag.index ? position : p));
+        return { ...feature, geometry: { ...feature.geometry, coordinates: [closeRing(ring)] } };
+      })
+    );
+  };
+
+  const zoom = (direction: 1 | -1) => {
+    if (!value) return;
+    if (value.basemap.type === 'map') {
+      const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, value.basemap.zoom + direction));
+      onChange({ ...value, basemap: { ...value.basemap, zoom: next } });
+    } else {
+      const factor = direction > 0 ? 1.25 : 0.8;
+      setImageView((view) => ({
+        scale: view.scale * factor,
+        offset: [
+          VIEW_WIDTH / 2 - (VIEW_WIDTH / 2 - view.offset[0]) * factor,
+          VIEW_HEIGHT / 2 - (VIEW_HEIGHT / 2 - view.offset[1]) * factor,
+        ],
+      }));
+    }
+  };
+
+  // --------------------------------------------------------------------------
+  // Rendering
+  // --------------------------------------------------------------------------
+
+  if (!value || !basemap) {
+    return (
+      <div className="rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-600 p-6 space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Draw the lot to measure it. Start from a map of the property or an aerial photo with a known scale.
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          <Button type="button" onClick={handleLocate} isLoading={isLocating} disabled={!address} leftIcon={<MapPin className="h-4 w-4" />}>
+            Map This Address
+          </Button>
+          <label className="inline-flex">
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleImageUpload(e.target.files[0])}
+            />
+            <span className="inline-flex items-center gap-2 h-10 px-4 rounded-lg border border-gray-300 dark:border-gray-600 text-sm font-medium cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800">
+              <Upload className="h-4 w-4" /> Upload Aerial Image
+            </span>
+          </label>
+        </div>
+        <div className="flex items-center gap-2 max-w-sm">
+          <Input placeholder="Or enter lat, lng" value={manualCenter} onChange={(e) => setManualCenter(e.target.value)} />
+          <Button type="button" variant="outline" onClick={handleManualCenter}>Go</Button>
+        </div>
+      </div>
+    );
+  }
+
+  const tiles: { key: string; href: string; x: number; y: number }[] = [];
+  if (basemap.type === 'map') {
+    const left = centerWorld[0] - VIEW_WIDTH / 2;
+    const top = centerWorld[1] - VIEW_HEIGHT / 2;
+    const count = 2 ** basemap.zoom;
+    for (let tx = Math.floor(left / MAP_TILE_SIZE); tx <= Math.floor((left + VIEW_WIDTH) / MAP_TILE_SIZE); tx++) {
+      for (let ty = Math.floor(top / MAP_TILE_SIZE); ty <= Math.floor((top + VIEW_HEIGHT) / MAP_TILE_SIZE); ty++) {
+        if (ty < 0 || ty >= count) continue;
+        const wrappedX = ((tx % count) + count) % count;
+        tiles.push({
+          key: `${tx}/${ty}`,
+          href: TILE_URL.replace('{z}', String(basemap.zoom)).replace('{x}', String(wrappedX)).replace('{y}', String(ty)),
+          x: tx * MAP_TILE_SIZE - left,
+          y: ty * MAP_TILE_SIZE - top,
+        });
+      }
+    }
+  }
+
+  const totals = computeSiteMeasurements(value);
+  const needsScale = basemap.type === 'image' && !basemap.feetPerPixel;
+  const drawingKind = tool in FEATURE_KINDS ? FEATURE_KINDS[tool as SiteFeatureKind] : null;
+  const screenPoints = (points: SitePosition[]) => points.map((p) => toScreen(p).join(',')).join(' ');
+
+  const toolButtons: { id: Tool; label: string; icon?: typeof Hand; color?: string }[] = [
+    { id: 'pan', label: 'Pan', icon: Hand },
+    { id: 'edit', label: 'Edit', icon: MousePointer2 },
+    ...(Object.entries(FEATURE_KINDS) as [SiteFeatureKind, (typeof FEATURE_KINDS)[SiteFeatureKind]][]).map(([id, kind]) => ({
+      id,
+      label: kind.label,
+      color: kind.color,
+    })),
+    ...(basemap.type === 'image' ? [{ id: 'scale' as const, label: 'Set Scale', icon: Ruler }] : []),
+  ];
+
+  return (
+    <div className="space-y-3">
+      {/* Toolbar */}
+      <div className="flex flex-wrap items-center gap-2">
+        {toolButtons.map((button) => (
+          <button
+            key={button.id}
+            type="button"
+            onClick={() => {
+              setTool(button.id);
+              setDraft([]);
+            }}
+            className={cn(
+              'inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg border text-xs font-medium',
+              tool === button.id ? 'border-brand-red bg-red-50 text-brand-red' : 'border-gray-200 text-gray-600 hover:bg-gray-50'
+            )}
+          >
+            {button.icon ? <button.icon className="h-3.5 w-3.5" /> : <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: button.color }} />}
+            {button.label}
+          </button>
+        ))}
+        <div className="ml-auto flex items-center gap-1">
+          <Button type="button" variant="ghost" size="icon" onClick={() => zoom(1)}><ZoomIn className="h-4 w-4" /></Button>
+          <Button type="button" variant="ghost" size="icon" onClick={() => zoom(-1)}><ZoomOut className="h-4 w-4" /></Button>
+          <Button type="button" variant="ghost" size="sm" onClick={handleReset}>Start Over</Button>
+        </div>
+      </div>
+
+      {needsScale && (
+        <p className="text-sm text-amber-600">
+          Set the scale first: with Set Scale selected, click both ends of something with a known length.
+        </p>
+      )}
+
+      {/* Canvas */}
+      <div className="relative rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700 bg-gray-100">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+          className={cn('w-full h-auto select-none', tool === 'pan' ? 'cursor-grab' : tool === 'edit' ? 'cursor-default' : 'cursor-crosshair')}
+          onClick={handleClick}
+          onDoubleClick={finishDraft}
+          onMouseDown={handleMouseDown}
+          onMouseMove={handleMouseMove}
+          onMouseUp={() => setDrag(null)}
+          onMouseLeave={() => {
+            setDrag(null);
+            setHover(null);
+          }}
+          onWheel={(e) => zoom(e.deltaY < 0 ? 1 : -1)}
+        >
+          {basemap.type === 'map'
+            ? tiles.map((tile) => (
+                <image key={tile.key} href={tile.href} x={tile.x} y={tile.y} width={MAP_TILE_SIZE} height={MAP_TILE_SIZE} />
+              ))
+            : (
+              <image
+                href={basemap.url}
+                x={imageView.offset[0]}
+                y={imageView.offset[1]}
+                width={basemap.width * imageView.scale}
+                height={basemap.height * imageView.scale}
+              />
+            )}
+
+          {value.features.map((feature) => {
+            const kind = FEATURE_KINDS[feature.properties.kind];
+            const isSelected = feature.id === selectedId;
+            const points = feature.geometry.type === 'Polygon' ? feature.geometry.coordinates[0].slice(0, -1) : feature.geometry.coordinates;
+            return (
+              <g key={feature.id} onClick={() => tool === 'edit' && setSelectedId(feature.id)}>
+                {feature.geometry.type === 'Polygon' ? (
+                  <polygon points={screenPoints(points)} fill={kind.color} fillOpacity={0.25} stroke={kind.color} strokeWidth={isSelected ? 3 : 2} />
+                ) : (
+                  <polyline points={screenPoints(points)} fill="none" stroke={kind.color} strokeWidth={isSelected ? 5 : 3} strokeLinecap="round" />
+                )}
+                {tool === 'edit' &&
+                  points.map((point, index) => {
+                    const [x, y] = toScreen(point);
+                    return (
+                      <circle
+                        key={index}
+                        cx={x}
+                        cy={y}
+                        r={5}
+                        fill="white"
+                        stroke={kind.color}
+                        strokeWidth={2}
+                        className="cursor-move"
+                        onMouseDown={(e) => {
+                          e.stopPropagation();
+                          setSelectedId(feature.id);
+                          setDrag({ type: 'vertex', featureId: feature.id, index });
+                        }}
+                      />
+                    );
+                  })}
+              </g>
+            );
+          })}
+
+          {draft.length > 0 && (
+            <polyline
+              points={`${screenPoints(draft)}${hover ? ` ${hover.join(',')}` : ''}`}
+              fill="none"
+              stroke={drawingKind?.color || '#111827'}
+              strokeWidth={2}
+              strokeDasharray="6 4"
+            />
+          )}
+          {draft.map((point, index) => {
+            const [x, y] = toScreen(point);
+            return <circle key={index} cx={x} cy={y} r={4} fill={drawingKind?.color || '#111827'} />;
+          })}
+        </svg>
+
+        {draft.length > 0 && tool !== 'scale' && (
+          <div className="absolute bottom-3 left-3 flex gap-2">
+            <Button type="button" size="sm" onClick={finishDraft} leftIcon={<Check className="h-4 w-4" />}>Finish</Button>
+            <Button type="button" size="sm" variant="outline" onClick={() => setDraft([])} leftIcon={<X className="h-4 w-4" />}>Cancel</Button>
+          </div>
+        )}
+        {basemap.type === 'map' && (
+          <p className="absolute bottom-1 right-2 text-[10px] text-gray-600 bg-white/70 px-1 rounded">© OpenStreetMap contributors</p>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Click to add points, double-click or Finish to close the shape, Esc to cancel. Use Edit to drag points.
+      </p>
+
+      {/* Features */}
+      {value.features.length > 0 && (
+        <div className="divide-y divide-gray-100 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700">
+          {value.features.map((feature) => (
+            <div
+              key={feature.id}
+              className={cn('flex items-center gap-3 px-3 py-2 text-sm', feature.id === selectedId && 'bg-gray-50 dark:bg-gray-800')}
+            >
+              <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: FEATURE_KINDS[feature.properties.kind].color }} />
+              <span className="flex-1">{FEATURE_KINDS[feature.properties.kind].label}</span>
+              <span className="font-medium">{formatMeasurement(feature, value)}</span>
+              <button
+                type="button"
+                onClick={() => updateFeatures(value.features.filter((f) => f.id !== feature.id))}
+                className="p-1 text-gray-400 hover:text-red-600"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+          <div className="flex flex-wrap gap-x-6 gap-y-1 px-3 py-2 text-sm bg-gray-50 dark:bg-gray-800">
+            <span>Net: <strong>{totals.netSqft.toLocaleString()} sq ft</strong></span>
+            <span>Cracks: <strong>{totals.crackLinearFeet.toLocaleString()} LF</strong></span>
+            <span>Fire lane: <strong>{totals.fireLaneFeet.toLocaleString()} LF</strong></span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SiteMeasurementTool;
@@ -6,7 +6,9 @@
 import { Ruler, AlertTriangle, CheckCircle, AlertCircle } from 'lucide-react';
 import { Input } from '@/components/ui/Input';
 import { Card, CardContent } from '@/components/ui/Card';
+import { SiteMeasurementTool } from '@/components/proposal/SiteMeasurementTool';
 import { useProposalStore, type SurfaceCondition } from '@/stores/proposalStore';
+import { computeSiteMeasurements, FEATURE_KINDS, type SiteGeometry } from '@/lib/measurements';
 import { cn } from '@/lib/utils';
 
 const conditionOptions: Array<{
@@ -58,6 +60,27 @@ const measurementFields = [
 export default function MeasurementsStep() {
   const { formData, setFormField, setMeasurement } = useProposalStore();
 
+  // Fill in the fields the drawing covers. A field only follows the drawing
+  // once a feature of that kind exists, so hand-entered values survive.
+  const handleSiteChange = (site: SiteGeometry | null) => {
+    const previous = formData.siteGeometry;
+    setFormField('siteGeometry', site);
+    if (!site) return;
+
+    const drawnKinds = new Set(
+      [...site.features, ...(previous?.features || [])].map((f) => f.properties.kind)
+    );
+    const totals = computeSiteMeasurements(site);
+    // Deductions first so net sq ft is recalculated against the new total
+    for (const kind of ['exclusion', 'paved', 'alligator', 'crack', 'fire_lane'] as const) {
+      if (!drawnKinds.has(kind)) continue;
+      const field = FEATURE_KINDS[kind].measurement;
+      if (field !== 'netSqft' && formData.measurements[field] !== totals[field]) {
+        setMeasurement(field, totals[field]);
+      }
+    }
+  };
+
   return (
     <div className="space-y-8">
       {/* Section Header */}
@@ -121,6 +144,20 @@ export default function MeasurementsStep() {
         </div>
       </div>
 
+      {/* Site Map */}
+      <Card>
+        <CardContent className="p-4">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-4">
+            Site Map
+          </h3>
+          <SiteMeasurementTool
+            value={formData.siteGeometry}
+            onChange={handleSiteChange}
+            address={[formData.address, formData.city, formData.state, formData.zip].filter(Boolean).join(', ')}
+          />
+        </CardContent>
+      </Card>
+
       {/* Main Area Measurements */}
       <Card>
         <CardContent className="p-4">
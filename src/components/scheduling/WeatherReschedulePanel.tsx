@@ -0,0 +1,114 @@
+/**
+ * WeatherReschedulePanel Component
+ * Dispatcher review of moves and holds suggested by the daily weather check
+ */
+
+import { CloudRain, ArrowRight, Check, X, PauseCircle } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { PermissionGate } from '@/contexts/AuthContext';
+import {
+  useRescheduleSuggestions,
+  useAcceptRescheduleSuggestion,
+  useDismissRescheduleSuggestion,
+  useWeatherRescheduleMode,
+  useSetWeatherRescheduleMode,
+} from '@/hooks/useScheduling';
+import { cn } from '@/lib/utils';
+
+function formatDay(date: string): string {
+  return new Date(`${date}T12:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+export function WeatherReschedulePanel() {
+  const { data: suggestions = [] } = useRescheduleSuggestions();
+  const { data: mode = 'propose' } = useWeatherRescheduleMode();
+  const acceptSuggestion = useAcceptRescheduleSuggestion();
+  const dismissSuggestion = useDismissRescheduleSuggestion();
+  const setMode = useSetWeatherRescheduleMode();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="flex items-center gap-2">
+          <CloudRain className="h-5 w-5 text-blue-500" />
+          Weather Moves
+        </CardTitle>
+        {suggestions.length > 0 && (
+          <span className="px-2 py-0.5 rounded-full text-xs bg-amber-100 text-amber-700">{suggestions.length}</span>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {suggestions.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            {mode === 'apply'
+              ? 'Jobs on unworkable days are moved automatically each morning.'
+              : 'No weather conflicts in the forecast.'}
+          </p>
+        ) : (
+          suggestions.map((suggestion) => (
+            <div key={suggestion.id} className="p-2 rounded-lg border border-amber-200 bg-amber-50 dark:bg-amber-900/20">
+              <p className="font-medium text-sm truncate">{suggestion.job?.title || 'Job'}</p>
+              <div className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-300 mt-1">
+                <span>{formatDay(suggestion.original_date)}</span>
+                {suggestion.action === 'move' ? (
+                  <>
+                    <ArrowRight className="h-3 w-3" />
+                    <span className="font-medium">{formatDay(suggestion.proposed_date!)}</span>
+                  </>
+                ) : (
+                  <span className="flex items-center gap-1 font-medium">
+                    <PauseCircle className="h-3 w-3" /> Weather hold
+                  </span>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">{suggestion.reason}</p>
+              <div className="flex gap-2 mt-2">
+                <Button
+                  size="sm"
+                  leftIcon={<Check className="h-3 w-3" />}
+                  onClick={() => acceptSuggestion.mutate(suggestion.id)}
+                  isLoading={acceptSuggestion.isPending && acceptSuggestion.variables === suggestion.id}
+                >
+                  {suggestion.action === 'move' ? 'Move' : 'Hold'}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  leftIcon={<X className="h-3 w-3" />}
+                  onClick={() => dismissSuggestion.mutate(suggestion.id)}
+                  disabled={dismissSuggestion.isPending}
+                >
+                  Keep
+                </Button>
+              </div>
+            </div>
+          ))
+        )}
+
+        <PermissionGate role="manager">
+          <div className="flex items-center justify-between pt-2 border-t border-gray-200 dark:border-gray-700">
+            <span className="text-xs text-gray-500">Apply moves automatically</span>
+            <button
+              onClick={() => setMode.mutate(mode === 'apply' ? 'propose' : 'apply')}
+              disabled={setMode.isPending}
+              className={cn(
+                'relative inline-flex h-5 w-9 items-center rounded-full transition-colors',
+                mode === 'apply' ? 'bg-brand-red' : 'bg-gray-300 dark:bg-gray-600'
+              )}
+            >
+              <span
+                className={cn(
+                  'inline-block h-4 w-4 transform rounded-full bg-white transition-transform',
+                  mode === 'apply' ? 'translate-x-4' : 'translate-x-0.5'
+                )}
+              />
+            </button>
+          </div>
+        </PermissionGate>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default WeatherReschedulePanel;
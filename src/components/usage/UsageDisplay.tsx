@@ -5,7 +5,7 @@
 
 import { useState, useEffect } from 'react';
 import { AlertTriangle, TrendingUp, Zap, ArrowRight } from 'lucide-react';
-import { usageService, type UsageSummary, type QuotaStatus } from '@/lib/usage/usageService';
+import { usageService, type UsageSummary, type QuotaKey, type QuotaStatus } from '@/lib/usage/usageService';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardHeader, CardTitle, Button, Progress } from '@/components/ui';
 import { cn } from '@/lib/utils';
@@ -128,10 +128,12 @@ export function UsageSummaryCard({ className }: UsageSummaryCardProps) {
       <CardContent className="space-y-4">
         <UsageBar label="Proposals" quota={summary.proposals} />
         <UsageBar label="AI Calls" quota={summary.aiCalls} />
+        <UsageBar label="Emails" quota={summary.emails} />
+        <UsageBar label="Text Messages" quota={summary.sms} />
         <UsageBar label="Team Members" quota={summary.teamMembers} />
         <UsageBar label="Storage" quota={summary.storage} />
         
-        {(summary.proposals.percentUsed >= 75 || summary.aiCalls.percentUsed >= 75) && (
+        {Object.values(summary).some((quota) => quota.isNearLimit) && (
           <div className="pt-2 border-t dark:border-gray-700">
             <Button
               variant="outline"
@@ -154,7 +156,7 @@ export function UsageSummaryCard({ className }: UsageSummaryCardProps) {
 // ============================================================================
 
 interface CompactUsageIndicatorProps {
-  type: 'proposals' | 'aiCalls' | 'storage' | 'teamMembers';
+  type: QuotaKey;
   className?: string;
 }
 
@@ -196,7 +198,7 @@ export function CompactUsageIndicator({ type, className }: CompactUsageIndicator
 // ============================================================================
 
 interface QuotaWarningBannerProps {
-  type: 'proposals' | 'aiCalls';
+  type: 'proposals' | 'aiCalls' | 'emails' | 'sms';
   onUpgrade?: () => void;
 }
 
@@ -217,11 +219,13 @@ export function QuotaWarningBanner({ type, onUpgrade }: QuotaWarningBannerProps)
     checkQuota();
   }, [organization?.id, type]);
 
-  if (!quota || quota.isUnlimited || quota.percentUsed < 80) return null;
+  if (!quota || !quota.isNearLimit) return null;
 
   const typeLabels = {
     proposals: 'proposal',
     aiCalls: 'AI',
+    emails: 'email',
+    sms: 'text message',
   };
 
   return (
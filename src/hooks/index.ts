@@ -10,3 +10,13 @@ export * from './useScheduling';
 export * from './usePipeline';
 export * from './useNotifications';
 export * from './useWeather';
+export * from './useInventory';
+export * from './useCalculators';
+export * from './useAutomations';
+export * from './useBilling';
+export * from './useMarketPricing';
+export * from './usePricingExperiments';
+export * from './useABTests';
+export * from './useWebhooks';
+export * from './usePayments';
+export * from './usePortal';
@@ -0,0 +1,102 @@
+/**
+ * Proposal A/B Test Hooks
+ * React Query hooks for template, intro copy, video and block order tests
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { abTestService, type CreateABTestInput } from '@/lib/experiments';
+import { toast } from 'sonner';
+
+// All proposal A/B tests for the org
+export function useABTests() {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['ab-tests', organization?.id],
+    queryFn: () => abTestService.getTests(organization!.id),
+    enabled: !!organization?.id,
+  });
+}
+
+// Per-variant conversion rates and lift over control
+export function useABTestResults(testId: string | null) {
+  return useQuery({
+    queryKey: ['ab-test-results', testId],
+    queryFn: () => abTestService.getResults(testId!),
+    enabled: !!testId,
+  });
+}
+
+// Create a draft test
+export function useCreateABTest() {
+  const queryClient = useQueryClient();
+  const { organization, user } = useAuth();
+
+  return useMutation({
+    mutationFn: (input: CreateABTestInput) =>
+      abTestService.createTest(organization!.id, input, { userId: user?.id }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ab-tests'] });
+      toast.success('Test created');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to create test'),
+  });
+}
+
+// Start or resume showing variants
+export function useStartABTest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (testId: string) => abTestService.startTest(testId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ab-tests'] });
+      toast.success('Test started');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to start test'),
+  });
+}
+
+// Stop showing variants for now
+export function usePauseABTest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (testId: string) => abTestService.pauseTest(testId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ab-tests'] });
+      toast.success('Test paused');
+    },
+    onError: () => toast.error('Failed to pause test'),
+  });
+}
+
+// End a test, optionally naming the winner
+export function useCompleteABTest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ testId, winningVariantId }: { testId: string; winningVariantId?: string }) =>
+      abTestService.completeTest(testId, winningVariantId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ab-tests'] });
+      toast.success('Test completed');
+    },
+    onError: () => toast.error('Failed to complete test'),
+  });
+}
+
+// Delete a test and its exposures
+export function useDeleteABTest() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (testId: string) => abTestService.deleteTest(testId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['ab-tests'] });
+      toast.success('Test deleted');
+    },
+    onError: () => toast.error('Failed to delete test'),
+  });
+}
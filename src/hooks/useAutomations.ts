@@ -0,0 +1,148 @@
+/**
+ * Automation Hooks
+ * React Query hooks for automation rules, workflow runs, dry runs and replays
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { automationService, type AutomationRule } from '@/lib/automation/automationService';
+import { simulateRule, type SimulatedRule } from '@/lib/automation/automationSimulator';
+import { toast } from 'sonner';
+
+type RuleDraft = Pick<
+  AutomationRule,
+  'name' | 'description' | 'triggerType' | 'triggerConfig' | 'conditions' | 'actions' | 'workflow'
+>;
+
+// Automation rules for the org
+export function useAutomationRules() {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['automation-rules', organization?.id],
+    queryFn: () => automationService.getRules(organization!.id),
+    enabled: !!organization?.id,
+  });
+}
+
+// Create or update a rule; validation errors explain what to fix
+export function useSaveAutomationRule() {
+  const queryClient = useQueryClient();
+  const { organization, user } = useAuth();
+
+  return useMutation({
+    mutationFn: ({ id, rule, isActive }: { id?: string; rule: RuleDraft; isActive?: boolean }) =>
+      id
+        ? automationService.updateRule(id, rule)
+        : automationService.createRule(organization!.id, {
+            ...rule,
+            description: rule.description || undefined,
+            isActive,
+            createdBy: user?.id,
+          }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['automation-rules'] });
+      toast.success('Automation saved');
+    },
+    onError: (error) => toast.error(error instanceof Error ? error.message : 'Failed to save automation'),
+  });
+}
+
+// Turn a rule on or off
+export function useToggleAutomationRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) => automationService.toggleRule(id, isActive),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['automation-rules'] }),
+    onError: () => toast.error('Failed to update automation'),
+  });
+}
+
+// Delete a rule
+export function useDeleteAutomationRule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => automationService.deleteRule(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['automation-rules'] });
+      toast.success('Automation deleted');
+    },
+    onError: () => toast.error('Failed to delete automation'),
+  });
+}
+
+// Recent workflow runs of one rule
+export function useWorkflowRuns(ruleId: string | undefined) {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['workflow-runs', organization?.id, ruleId],
+    queryFn: () => automationService.getWorkflowRuns(organization!.id, { ruleId, limit: 50 }),
+    enabled: !!organization?.id && !!ruleId,
+  });
+}
+
+// Stop a waiting workflow run
+export function useCancelWorkflowRun() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (runId: string) => automationService.cancelWorkflowRun(runId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workflow-runs'] });
+      toast.success('Workflow run cancelled');
+    },
+    onError: () => toast.error('Failed to cancel workflow run'),
+  });
+}
+
+// Dry run of a rule or draft against the last days of trigger events
+export function useRuleSimulation(rule: Omit<SimulatedRule, 'orgId'>, days: number) {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['automation-simulation', organization?.id, rule, days],
+    queryFn: () => simulateRule({ ...rule, orgId: organization!.id }, { days }),
+    enabled: !!organization?.id,
+    staleTime: 60 * 1000,
+  });
+}
+
+// Recent executions across the org's rules
+export function useAutomationExecutions(limit: number = 50) {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['automation-executions', organization?.id, limit],
+    queryFn: () => automationService.getOrgExecutions(organization!.id, { limit }),
+    enabled: !!organization?.id,
+  });
+}
+
+// What replaying an execution would rerun
+export function useReplayPreview(executionId: string | undefined) {
+  return useQuery({
+    queryKey: ['automation-replay-preview', executionId],
+    queryFn: () => automationService.previewReplay(executionId!),
+    enabled: !!executionId,
+    retry: false,
+  });
+}
+
+// Rerun the failed parts of an execution
+export function useReplayExecution() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (executionId: string) => automationService.replayExecution(executionId),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['automation-executions'] });
+      queryClient.invalidateQueries({ queryKey: ['workflow-runs'] });
+      if (result.status === 'completed') toast.success('Replay succeeded');
+      else toast.error('Replay ran, but some actions failed again');
+    },
+    onError: (error) => toast.error(error instanceof Error ? error.message : 'Failed to replay execution'),
+  });
+}
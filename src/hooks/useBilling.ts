@@ -0,0 +1,31 @@
+/**
+ * Billing Hooks
+ * React Query hooks for invoices and usage overage
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { billingService } from '@/lib/billing/billingService';
+
+// Invoices for the org, newest first
+export function useInvoices(limit: number = 12) {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['invoices', organization?.id, limit],
+    queryFn: () => billingService.getInvoices(organization!.id, { limit }),
+    enabled: !!organization?.id,
+  });
+}
+
+// Overage so far this month, billed on the next invoice
+export function useOverageEstimate() {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['overage-estimate', organization?.id],
+    queryFn: () => billingService.estimateOverage(organization!.id),
+    enabled: !!organization?.id,
+    staleTime: 5 * 60 * 1000,
+  });
+}
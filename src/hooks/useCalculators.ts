@@ -0,0 +1,64 @@
+/**
+ * Calculator Hooks
+ * React Query hooks for org calculators and their formulas
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { industriesService, type Calculator } from '@/lib/industries/industriesService';
+import { FormulaError } from '@/lib/formulas';
+import { toast } from 'sonner';
+
+// Industries the org works in
+export function useOrgIndustries() {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['org-industries', organization?.id],
+    queryFn: () => industriesService.getOrgIndustries(organization!.id),
+    enabled: !!organization?.id,
+  });
+}
+
+// Built-in and org calculators for an industry
+export function useCalculators(industryId: string | undefined) {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['calculators', organization?.id, industryId],
+    queryFn: () => industriesService.getCalculators(industryId!, organization!.id),
+    enabled: !!organization?.id && !!industryId,
+  });
+}
+
+// Create or update an org calculator
+export function useSaveCalculator() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: ({ id, industryId, calculator }: { id?: string; industryId: string; calculator: Partial<Calculator> }) =>
+      id
+        ? industriesService.updateCalculator(id, calculator)
+        : industriesService.createCalculator(organization!.id, industryId, calculator),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calculators'] });
+      toast.success('Calculator saved');
+    },
+    onError: (error) => toast.error(error instanceof FormulaError ? error.message : 'Failed to save calculator'),
+  });
+}
+
+// Delete an org calculator
+export function useDeleteCalculator() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => industriesService.deleteCalculator(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['calculators'] });
+      toast.success('Calculator deleted');
+    },
+    onError: () => toast.error('Failed to delete calculator'),
+  });
+}
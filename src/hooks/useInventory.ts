@@ -0,0 +1,107 @@
+/**
+ * Inventory Hooks
+ * React Query hooks for stock projection, purchase orders and the material catalog
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import * as inventoryService from '@/lib/inventory';
+import * as materialsService from '@/lib/materials';
+import { toast } from 'sonner';
+
+// Projected stock across scheduled jobs and open orders
+export function useStockProjection(horizonDays: number = 30) {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['stock-projection', organization?.id, horizonDays],
+    queryFn: () => inventoryService.projectStockLevels(organization!.id, horizonDays),
+    enabled: !!organization?.id,
+  });
+}
+
+// Get purchase orders
+export function usePurchaseOrders(status?: inventoryService.PurchaseOrderStatus) {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['purchase-orders', organization?.id, status],
+    queryFn: () => inventoryService.getPurchaseOrders(organization!.id, status),
+    enabled: !!organization?.id,
+  });
+}
+
+// Draft supplier orders for projected shortfalls
+export function useGeneratePurchaseOrders() {
+  const queryClient = useQueryClient();
+  const { organization, user } = useAuth();
+
+  return useMutation({
+    mutationFn: (horizonDays?: number) =>
+      inventoryService.generatePurchaseOrderDrafts(organization!.id, user?.id ?? null, horizonDays),
+    onSuccess: (drafts) => {
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-projection'] });
+      toast.success(drafts.length > 0 ? `Drafted ${drafts.length} purchase order${drafts.length === 1 ? '' : 's'}` : 'Stock covers the schedule');
+    },
+    onError: () => toast.error('Failed to draft purchase orders'),
+  });
+}
+
+// Move a purchase order through sent, received or cancelled
+export function useUpdatePurchaseOrderStatus() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: ({ id, status }: { id: string; status: 'sent' | 'received' | 'cancelled' }) => {
+      if (status === 'sent') return inventoryService.markPurchaseOrderSent(id);
+      if (status === 'received') return inventoryService.receivePurchaseOrder(id, user?.id ?? null);
+      return inventoryService.cancelPurchaseOrder(id);
+    },
+    onSuccess: (_, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-projection'] });
+      toast.success(status === 'received' ? 'Stock received' : `Purchase order ${status}`);
+    },
+    onError: () => toast.error('Failed to update purchase order'),
+  });
+}
+
+// Get inventory materials
+export function useInventoryMaterials() {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['inventory-materials', organization?.id],
+    queryFn: () => inventoryService.getMaterials(organization!.id),
+    enabled: !!organization?.id,
+  });
+}
+
+// Get the org's material catalog as saved, for editing
+export function useMaterialCatalog() {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['material-catalog', organization?.id],
+    queryFn: () => materialsService.getStoredMaterialCatalog(organization!.id),
+    enabled: !!organization?.id,
+  });
+}
+
+// Save the material catalog
+export function useSaveMaterialCatalog() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: (catalog: materialsService.MaterialCatalog) =>
+      materialsService.saveMaterialCatalog(organization!.id, catalog),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['material-catalog'] });
+      toast.success('Material catalog saved');
+    },
+    onError: () => toast.error('Failed to save material catalog'),
+  });
+}
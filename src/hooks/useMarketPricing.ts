@@ -0,0 +1,87 @@
+/**
+ * Market Pricing Hooks
+ * React Query hooks for competitor bids and the market price index
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import * as proposalService from '@/lib/proposal';
+import { marketPriceService, type CompetitorBidInput } from '@/lib/ai/marketPriceService';
+import { toast } from 'sonner';
+
+// Competitor bids, optionally for one proposal
+export function useCompetitorBids(proposalId?: string) {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['competitor-bids', organization?.id, proposalId],
+    queryFn: () => marketPriceService.getCompetitorBids(organization!.id, { proposalId }),
+    enabled: !!organization?.id,
+  });
+}
+
+// Log a competitor bid
+export function useLogCompetitorBid() {
+  const queryClient = useQueryClient();
+  const { organization, user } = useAuth();
+
+  return useMutation({
+    mutationFn: (input: CompetitorBidInput) =>
+      marketPriceService.logCompetitorBid(organization!.id, input, { userId: user?.id }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['competitor-bids'] });
+      queryClient.invalidateQueries({ queryKey: ['market-index'] });
+      toast.success('Competitor bid logged');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to log competitor bid'),
+  });
+}
+
+// Delete a competitor bid
+export function useDeleteCompetitorBid() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (bidId: string) => marketPriceService.deleteCompetitorBid(bidId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['competitor-bids'] });
+      queryClient.invalidateQueries({ queryKey: ['market-index'] });
+      toast.success('Competitor bid removed');
+    },
+    onError: () => toast.error('Failed to remove competitor bid'),
+  });
+}
+
+// Mark a proposal lost, logging the winning competitor's bid when known
+export function useMarkProposalLost() {
+  const queryClient = useQueryClient();
+  const { organization, user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({ proposalId, bid }: { proposalId: string; bid?: CompetitorBidInput }) => {
+      await proposalService.updateProposal(proposalId, { status: 'rejected' }, { userId: user?.id });
+      if (bid) {
+        await marketPriceService.logCompetitorBid(organization!.id, bid, { userId: user?.id });
+      }
+    },
+    onSuccess: (_, { proposalId }) => {
+      queryClient.invalidateQueries({ queryKey: ['proposals'] });
+      queryClient.invalidateQueries({ queryKey: ['proposal', proposalId] });
+      queryClient.invalidateQueries({ queryKey: ['competitor-bids'] });
+      queryClient.invalidateQueries({ queryKey: ['market-index'] });
+      toast.success('Proposal marked as lost');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to mark proposal as lost'),
+  });
+}
+
+// Monthly market price index for a service, optionally in one region
+export function useMarketIndex(serviceKey: string, region?: string, months: number = 12) {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['market-index', organization?.id, serviceKey, region, months],
+    queryFn: () => marketPriceService.getMarketIndex(organization!.id, serviceKey, { region, months }),
+    enabled: !!organization?.id && !!serviceKey,
+  });
+}
@@ -0,0 +1,49 @@
+/**
+ * Payment Hooks
+ * React Query hooks for portal checkout; these go through the worker, so
+ * they work for signed-out clients
+ */
+
+import { useQuery, useMutation } from '@tanstack/react-query';
+import {
+  createPaymentIntent,
+  requestPaymentSummary,
+  type ProposalAccess,
+} from '@/lib/payments/paymentsService';
+import { clientPortalService } from '@/lib/portal/clientPortalService';
+import { toast } from 'sonner';
+
+/** How often to look for a receipt while the Stripe webhook catches up */
+const RECEIPT_POLL_MS = 3000;
+
+// The key from the proposal email, or else the signed-in portal session
+function proposalAccess(proposalKey: string | null | undefined): ProposalAccess {
+  return { key: proposalKey, sessionToken: clientPortalService.getStoredSession() };
+}
+
+// What is due on a proposal and the receipts so far. While a just-paid
+// intent has no receipt yet (the Stripe webhook lags), keep polling.
+export function usePaymentSummary(
+  proposalId: string | undefined,
+  proposalKey: string | null,
+  awaitingPaymentIntentId?: string | null
+) {
+  return useQuery({
+    queryKey: ['payment-summary', proposalId],
+    queryFn: () => requestPaymentSummary(proposalId!, proposalAccess(proposalKey)),
+    enabled: !!proposalId,
+    refetchInterval: (query) =>
+      awaitingPaymentIntentId &&
+      !query.state.data?.payments.some((p) => p.stripe_payment_intent_id === awaitingPaymentIntentId)
+        ? RECEIPT_POLL_MS
+        : false,
+  });
+}
+
+// Start checkout for whatever is due; the worker sets the amount
+export function useCreatePaymentIntent(proposalKey: string | null) {
+  return useMutation({
+    mutationFn: (proposalId: string) => createPaymentIntent(proposalId, proposalAccess(proposalKey)),
+    onError: (error: Error) => toast.error(error.message || 'Failed to start payment'),
+  });
+}
@@ -0,0 +1,107 @@
+/**
+ * Client Portal Hooks
+ * React Query hooks for the signed-out and magic-link-signed-in client
+ * portal; every call goes through the worker
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  clientPortalService,
+  PortalSessionError,
+  type PortalDocument,
+  type QuoteRequestInput,
+} from '@/lib/portal/clientPortalService';
+import type { ProposalAccess } from '@/lib/payments/paymentsService';
+import { toast } from 'sonner';
+
+// Org branding for the sign-in screen
+export function usePortalBranding(orgSlug: string | null) {
+  return useQuery({
+    queryKey: ['portal-branding', orgSlug],
+    queryFn: () => clientPortalService.requestBranding(orgSlug!),
+    enabled: !!orgSlug,
+    staleTime: Infinity,
+  });
+}
+
+// Everything the signed-in contact's portal shows
+export function usePortalOverview(sessionToken: string | null) {
+  return useQuery({
+    queryKey: ['portal-overview', sessionToken],
+    queryFn: () => clientPortalService.requestOverview(sessionToken!),
+    enabled: !!sessionToken,
+    retry: (failureCount, error) => !(error instanceof PortalSessionError) && failureCount < 1,
+  });
+}
+
+// A proposal as its emailed link shows it; the link's key opens it, or
+// else the signed-in portal session
+export function usePortalProposal(proposalId: string | undefined, proposalKey: string | null) {
+  return useQuery({
+    queryKey: ['portal-proposal', proposalId, proposalKey],
+    queryFn: () =>
+      clientPortalService.requestProposalView(proposalId!, {
+        key: proposalKey,
+        sessionToken: clientPortalService.getStoredSession(),
+      }),
+    enabled: !!proposalId,
+    retry: (failureCount, error) => !(error instanceof PortalSessionError) && failureCount < 1,
+  });
+}
+
+// Email a sign-in link; the answer is the same whether or not the email is known
+export function useRequestMagicLink() {
+  return useMutation({
+    mutationFn: ({ email, orgSlug }: { email: string; orgSlug?: string }) =>
+      clientPortalService.requestMagicLink(email, orgSlug),
+    onError: (error: Error) => toast.error(error.message || 'Failed to send sign-in link'),
+  });
+}
+
+// Trade a magic link for a session and remember it in this browser
+export function useRedeemMagicLink() {
+  return useMutation({
+    mutationFn: async (token: string) => {
+      const { sessionToken } = await clientPortalService.requestSession(token);
+      clientPortalService.storeSession(sessionToken);
+      return sessionToken;
+    },
+  });
+}
+
+// End the session here and on the server
+export function usePortalSignOut() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionToken: string) => {
+      clientPortalService.storeSession(null);
+      await clientPortalService.requestSignOut(sessionToken).catch(() => undefined);
+    },
+    onSuccess: () => {
+      queryClient.removeQueries({ queryKey: ['portal-overview'] });
+    },
+  });
+}
+
+// Ask for a quote on new work
+export function useSubmitQuoteRequest(sessionToken: string | null) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: QuoteRequestInput) => clientPortalService.submitQuoteRequest(sessionToken!, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['portal-overview'] });
+      toast.success("Thanks! We'll be in touch with your quote.");
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to send quote request'),
+  });
+}
+
+// Save a signed PDF with the proposal key or portal session that opens it
+export function useDownloadPortalDocument(access: ProposalAccess) {
+  return useMutation({
+    mutationFn: (doc: PortalDocument) => clientPortalService.downloadDocument(doc, access),
+    onError: (error: Error) => toast.error(error.message || 'Failed to download the signed document'),
+  });
+}
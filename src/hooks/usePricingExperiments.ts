@@ -0,0 +1,100 @@
+/**
+ * Pricing Experiment Hooks
+ * React Query hooks for tier multiplier and discount offer experiments
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { pricingExperimentService, type CreatePricingExperimentInput } from '@/lib/experiments';
+import { toast } from 'sonner';
+
+// All pricing experiments for the org
+export function usePricingExperiments() {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['pricing-experiments', organization?.id],
+    queryFn: () => pricingExperimentService.getExperiments(organization!.id),
+    enabled: !!organization?.id,
+  });
+}
+
+// Per-variant outcomes and win probabilities
+export function usePricingExperimentResults(experimentId: string | null) {
+  return useQuery({
+    queryKey: ['pricing-experiment-results', experimentId],
+    queryFn: () => pricingExperimentService.getResults(experimentId!),
+    enabled: !!experimentId,
+  });
+}
+
+// Pricing currently applied to new proposals outside experiments
+export function useOrgPricingOverrides() {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['pricing-overrides', organization?.id],
+    queryFn: () => pricingExperimentService.getOrgPricingOverrides(organization!.id),
+    enabled: !!organization?.id,
+  });
+}
+
+// Create a draft experiment
+export function useCreatePricingExperiment() {
+  const queryClient = useQueryClient();
+  const { organization, user } = useAuth();
+
+  return useMutation({
+    mutationFn: (input: CreatePricingExperimentInput) =>
+      pricingExperimentService.createExperiment(organization!.id, input, { userId: user?.id }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pricing-experiments'] });
+      toast.success('Experiment created');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to create experiment'),
+  });
+}
+
+// Start assigning new proposals to an experiment
+export function useStartPricingExperiment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (experimentId: string) => pricingExperimentService.startExperiment(experimentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pricing-experiments'] });
+      toast.success('Experiment started');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to start experiment'),
+  });
+}
+
+// Stop an experiment without rolling anything out
+export function useStopPricingExperiment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (experimentId: string) => pricingExperimentService.stopExperiment(experimentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pricing-experiments'] });
+      toast.success('Experiment stopped');
+    },
+    onError: () => toast.error('Failed to stop experiment'),
+  });
+}
+
+// Make a variant's pricing the default for new proposals
+export function useRolloutPricingVariant() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ experimentId, variantId }: { experimentId: string; variantId: string }) =>
+      pricingExperimentService.rolloutVariant(experimentId, variantId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['pricing-experiments'] });
+      queryClient.invalidateQueries({ queryKey: ['pricing-overrides'] });
+      toast.success('Variant rolled out to new proposals');
+    },
+    onError: () => toast.error('Failed to roll out variant'),
+  });
+}
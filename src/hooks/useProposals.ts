@@ -7,8 +7,18 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
 import * as proposalService from '@/lib/proposal';
 import type { ProposalFilters, ProposalWithRelations } from '@/lib/proposal';
+import { QuotaExceededError } from '@/lib/usage/usageService';
 import { toast } from 'sonner';
 
+// Quota errors say which limit was hit and how to raise it
+function toastError(error: Error, fallback: string) {
+  if (error instanceof QuotaExceededError) {
+    toast.error(error.message, { description: error.upgradeMessage });
+  } else {
+    toast.error(fallback);
+  }
+}
+
 // Get proposals list
 export function useProposals(filters?: ProposalFilters) {
   const { organization } = useAuth();
@@ -41,26 +51,59 @@ export function useCreateProposal() {
       queryClient.invalidateQueries({ queryKey: ['proposals'] });
       toast.success('Proposal created');
     },
-    onError: () => toast.error('Failed to create proposal'),
+    onError: (error) => toastError(error, 'Failed to create proposal'),
   });
 }
 
 // Update proposal
 export function useUpdateProposal() {
   const queryClient = useQueryClient();
+  const { user } = useAuth();
 
   return useMutation({
     mutationFn: ({ id, data }: { id: string; data: Parameters<typeof proposalService.updateProposal>[1] }) =>
-      proposalService.updateProposal(id, data),
+      proposalService.updateProposal(id, data, { userId: user?.id }),
     onSuccess: (_, { id }) => {
       queryClient.invalidateQueries({ queryKey: ['proposals'] });
       queryClient.invalidateQueries({ queryKey: ['proposal', id] });
+      queryClient.invalidateQueries({ queryKey: ['proposal-revisions', id] });
       toast.success('Proposal updated');
     },
     onError: () => toast.error('Failed to update proposal'),
   });
 }
 
+// Save proposal content and line items together
+export function useSaveProposal() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({
+      id,
+      data,
+      lineItems,
+    }: {
+      id: string;
+      data: Parameters<typeof proposalService.updateProposal>[1];
+      lineItems: Parameters<typeof proposalService.replaceLineItems>[1];
+    }) => {
+      // updateProposal snapshots the old line items, so it must run first
+      const proposal = await proposalService.updateProposal(id, data, { userId: user?.id });
+      await proposalService.replaceLineItems(id, lineItems);
+      return proposal;
+    },
+    onSuccess: (_, { id }) => {
+      queryClient.invalidateQueries({ queryKey: ['proposals'] });
+      queryClient.invalidateQueries({ queryKey: ['proposal', id] });
+      queryClient.invalidateQueries({ queryKey: ['proposal-revisions', id] });
+      queryClient.invalidateQueries({ queryKey: ['proposal-revision-diff'] });
+      toast.success('Proposal saved');
+    },
+    onError: () => toast.error('Failed to save proposal'),
+  });
+}
+
 // Delete proposal
 export function useDeleteProposal() {
   const queryClient = useQueryClient();
@@ -87,7 +130,7 @@ export function useSendProposal() {
       queryClient.invalidateQueries({ queryKey: ['proposal', id] });
       toast.success('Proposal sent!');
     },
-    onError: () => toast.error('Failed to send proposal'),
+    onError: (error) => toastError(error, 'Failed to send proposal'),
   });
 }
 
@@ -103,6 +146,43 @@ export function useDuplicateProposal() {
       queryClient.invalidateQueries({ queryKey: ['proposals'] });
       toast.success('Proposal duplicated');
     },
-    onError: () => toast.error('Failed to duplicate proposal'),
+    onError: (error) => toastError(error, 'Failed to duplicate proposal'),
+  });
+}
+
+// Get revision history for a proposal
+export function useProposalRevisions(proposalId: string | undefined) {
+  return useQuery({
+    queryKey: ['proposal-revisions', proposalId],
+    queryFn: () => proposalService.getRevisions(proposalId!),
+    enabled: !!proposalId,
+  });
+}
+
+// Diff a revision against the live proposal
+export function useRevisionDiff(revisionId: string | undefined) {
+  return useQuery({
+    queryKey: ['proposal-revision-diff', revisionId],
+    queryFn: () => proposalService.diffRevisionWithCurrent(revisionId!),
+    enabled: !!revisionId,
+  });
+}
+
+// Restore a revision
+export function useRestoreRevision() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: (revision: { id: string; proposal_id: string }) =>
+      proposalService.restoreRevision(revision.id, user?.id),
+    onSuccess: (_, { proposal_id }) => {
+      queryClient.invalidateQueries({ queryKey: ['proposals'] });
+      queryClient.invalidateQueries({ queryKey: ['proposal', proposal_id] });
+      queryClient.invalidateQueries({ queryKey: ['proposal-revisions', proposal_id] });
+      queryClient.invalidateQueries({ queryKey: ['proposal-revision-diff'] });
+      toast.success('Revision restored');
+    },
+    onError: () => toast.error('Failed to restore revision'),
   });
 }
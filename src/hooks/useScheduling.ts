@@ -5,6 +5,7 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/contexts/AuthContext';
+import { useOffline } from '@/lib/offline/OfflineProvider';
 import * as schedulingService from '@/lib/scheduling';
 import { toast } from 'sonner';
 
@@ -75,29 +76,158 @@ export function useCrews() {
   });
 }
 
-// Start job
+// Start job (queued for sync when offline)
 export function useStartJob() {
   const queryClient = useQueryClient();
+  const { isOnline, enqueue } = useOffline();
 
   return useMutation({
-    mutationFn: schedulingService.startJob,
-    onSuccess: () => {
+    mutationFn: async (job: { id: string; updated_at?: string }) => {
+      if (!isOnline) {
+        await enqueue({ type: 'start_job', jobId: job.id, baseUpdatedAt: job.updated_at });
+        return null;
+      }
+      return schedulingService.startJob(job.id);
+    },
+    onSuccess: (job) => {
       queryClient.invalidateQueries({ queryKey: ['jobs'] });
-      toast.success('Job started');
+      toast.success(job ? 'Job started' : 'Job start saved offline');
     },
   });
 }
 
-// Complete job
+// Complete job (queued for sync when offline)
 export function useCompleteJob() {
   const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { isOnline, enqueue } = useOffline();
+
+  return useMutation({
+    mutationFn: async ({ job, notes }: { job: { id: string; updated_at?: string }; notes?: string }) => {
+      if (!isOnline) {
+        await enqueue({ type: 'complete_job', jobId: job.id, notes, baseUpdatedAt: job.updated_at });
+        return null;
+      }
+      return schedulingService.completeJob(job.id, notes, user?.id);
+    },
+    onSuccess: (job) => {
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+      queryClient.invalidateQueries({ queryKey: ['stock-projection'] });
+      toast.success(job ? 'Job completed' : 'Job completion saved offline');
+    },
+  });
+}
+
+// Weather reschedule suggestions awaiting a dispatcher
+export function useRescheduleSuggestions() {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['reschedule-suggestions', organization?.id],
+    queryFn: () => schedulingService.getRescheduleSuggestions(organization!.id),
+    enabled: !!organization?.id,
+  });
+}
+
+// Accept a suggested move or hold, then notify the client and crew
+export function useAcceptRescheduleSuggestion() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const suggestion = await schedulingService.acceptRescheduleSuggestion(id, user?.id);
+      await schedulingService.requestRescheduleNotification(suggestion.id).catch(() => {
+        toast.warning('Job rescheduled, but notifications could not be sent');
+      });
+      return suggestion;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reschedule-suggestions'] });
+      queryClient.invalidateQueries({ queryKey: ['jobs'] });
+      toast.success('Job rescheduled');
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ['reschedule-suggestions'] });
+      toast.error(error.message || 'Failed to reschedule job');
+    },
+  });
+}
+
+// Dismiss a suggestion and keep the job where it is
+export function useDismissRescheduleSuggestion() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: (id: string) => schedulingService.dismissRescheduleSuggestion(id, user?.id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['reschedule-suggestions'] });
+      toast.success('Suggestion dismissed');
+    },
+    onError: () => toast.error('Failed to dismiss suggestion'),
+  });
+}
+
+// Org setting: propose moves or apply them automatically
+export function useWeatherRescheduleMode() {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['weather-reschedule-mode', organization?.id],
+    queryFn: () => schedulingService.getWeatherRescheduleMode(organization!.id),
+    enabled: !!organization?.id,
+  });
+}
+
+export function useSetWeatherRescheduleMode() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
 
   return useMutation({
-    mutationFn: ({ id, notes }: { id: string; notes?: string }) =>
-      schedulingService.completeJob(id, notes),
+    mutationFn: (mode: schedulingService.WeatherRescheduleMode) =>
+      schedulingService.setWeatherRescheduleMode(organization!.id, mode),
     onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['weather-reschedule-mode'] });
+      toast.success('Weather rescheduling updated');
+    },
+    onError: () => toast.error('Failed to update weather rescheduling'),
+  });
+}
+
+// Plan crew routes for a date range (computed locally, nothing saved)
+export function useDispatchPlan(startDate: string, days: number, options: { workdayHours?: number; keepAssignments?: boolean } = {}) {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['dispatch-plan', organization?.id, startDate, days, options],
+    queryFn: async () => {
+      const endDate = new Date(`${startDate}T00:00:00Z`);
+      endDate.setUTCDate(endDate.getUTCDate() + days - 1);
+
+      const [jobs, crews, roadDistances] = await Promise.all([
+        schedulingService.getDispatchJobs(organization!.id, startDate, endDate.toISOString().split('T')[0]),
+        schedulingService.getCrews(organization!.id),
+        schedulingService.getRoadDistances(organization!.id),
+      ]);
+
+      return schedulingService.planDispatch(jobs, crews, { startDate, days, roadDistances, ...options });
+    },
+    enabled: !!organization?.id,
+  });
+}
+
+// Save a plan's crews, dates and times onto the jobs
+export function useApplyDispatchPlan() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: schedulingService.applyDispatchPlan,
+    onSuccess: (count) => {
       queryClient.invalidateQueries({ queryKey: ['jobs'] });
-      toast.success('Job completed');
+      queryClient.invalidateQueries({ queryKey: ['dispatch-plan'] });
+      toast.success(`Dispatched ${count} job${count === 1 ? '' : 's'}`);
     },
+    onError: () => toast.error('Failed to apply dispatch plan'),
   });
 }
@@ -0,0 +1,96 @@
+/**
+ * Webhook Hooks
+ * React Query hooks for outbound webhook endpoints and their deliveries
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  integrationsHubService,
+  type WebhookEvent,
+  type WebhookDeliveryStatus,
+} from '@/lib/integrations/integrationsHubService';
+import { toast } from 'sonner';
+
+// Webhook endpoints for the org
+export function useWebhookEndpoints() {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['webhook-endpoints', organization?.id],
+    queryFn: () => integrationsHubService.getWebhookEndpoints(organization!.id),
+    enabled: !!organization?.id,
+  });
+}
+
+// Recent deliveries; status 'dead' is the dead-letter queue
+export function useWebhookDeliveries(status?: WebhookDeliveryStatus) {
+  const { organization } = useAuth();
+
+  return useQuery({
+    queryKey: ['webhook-deliveries', organization?.id, status],
+    queryFn: () => integrationsHubService.getWebhookDeliveries(organization!.id, { status }),
+    enabled: !!organization?.id,
+    refetchInterval: 30000,
+  });
+}
+
+// Add an endpoint
+export function useCreateWebhookEndpoint() {
+  const queryClient = useQueryClient();
+  const { organization } = useAuth();
+
+  return useMutation({
+    mutationFn: ({ url, events }: { url: string; events: WebhookEvent[] }) =>
+      integrationsHubService.createWebhookEndpoint(organization!.id, url, events),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-endpoints'] });
+      toast.success('Webhook endpoint added');
+    },
+    onError: () => toast.error('Failed to add webhook endpoint'),
+  });
+}
+
+// Turn an endpoint on or off
+export function useToggleWebhookEndpoint() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ endpointId, isActive }: { endpointId: string; isActive: boolean }) =>
+      integrationsHubService.updateWebhookEndpoint(endpointId, { isActive }),
+    onSuccess: (endpoint) => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-endpoints'] });
+      toast.success(endpoint.isActive ? 'Endpoint turned on' : 'Endpoint turned off');
+    },
+    onError: () => toast.error('Failed to update endpoint'),
+  });
+}
+
+// Remove an endpoint and its delivery history
+export function useDeleteWebhookEndpoint() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (endpointId: string) => integrationsHubService.deleteWebhookEndpoint(endpointId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-endpoints'] });
+      queryClient.invalidateQueries({ queryKey: ['webhook-deliveries'] });
+      toast.success('Webhook endpoint deleted');
+    },
+    onError: () => toast.error('Failed to delete endpoint'),
+  });
+}
+
+// Queue a delivery again from its first attempt
+export function useRedeliverWebhook() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (deliveryId: string) => integrationsHubService.redeliverWebhook(deliveryId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['webhook-deliveries'] });
+      toast.success('Delivery queued');
+    },
+    onError: (error: Error) => toast.error(error.message || 'Failed to queue delivery'),
+  });
+}
@@ -5,6 +5,22 @@
 
 import { supabase } from '../supabase';
 import { entitlementsService } from '../entitlements/entitlementsService';
+import { CONDITION_MULTIPLIERS, roundMoney } from '../pricing/pricingEngine';
+import { getCrews } from '../scheduling/schedulingService';
+import { straightLineMiles, type GeoPoint } from '../scheduling/dispatchPlanner';
+import type { SiteGeometry } from '../measurements/siteGeometry';
+import {
+  trainDealModel,
+  predictDeal,
+  VIEW_WINDOW_DAYS,
+  type DealModelMetrics,
+  type DealRecord,
+  type DealScoreModel,
+  type FeatureAttribution,
+  type DealFeatureGroup,
+  type TrainingDeal,
+} from './dealScoringModel';
+import { marketPriceService, regionForZip, type CompetitorPriceSummary } from './marketPriceService';
 
 // ============================================================================
 // TYPES
@@ -50,7 +66,12 @@ export interface WinProbabilityPrediction {
   proposalId: string;
   probability: number;
   confidence: number;
+  /** 'model' once the org has a trained deal scoring model, else the weighted factors */
+  source: 'model' | 'heuristic';
   factors: WinFactor[];
+  /** What moved the model's probability for this deal; empty without a model */
+  attributions: FeatureAttribution[];
+  modelMetrics?: DealModelMetrics;
   suggestions: string[];
   similarDeals: SimilarDeal[];
 }
@@ -123,6 +144,12 @@ export interface MarketAnalysis {
   seasonalFactor: number;
   competitorCount: number;
   marketTrend: 'increasing' | 'stable' | 'decreasing';
+  /** Median competitor price per sq ft; avgPrice is this over the job's sq ft */
+  pricePerSqft: number;
+  competitors: CompetitorPriceSummary[];
+  /** Bids behind the numbers; 0 when they are industry defaults */
+  sampleSize: number;
+  source: 'competitor_bids' | 'default';
 }
 
 export interface DealScoring {
@@ -135,9 +162,38 @@ export interface DealScoring {
     competition: number;
     relationship: number;
   };
+  winProbability: number;
+  source: 'model' | 'heuristic';
+  attributions: FeatureAttribution[];
   recommendations: string[];
 }
 
+export interface DealScoringModelRecord {
+  id: string;
+  orgId: string;
+  model: DealScoreModel;
+  isActive: boolean;
+  trainedAt: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Proposals that closed one way or the other */
+const WON_STATUSES = ['accepted'];
+const LOST_STATUSES = ['rejected', 'expired'];
+
+/** Shown when a feature is among the biggest drags on a deal's odds */
+const ATTRIBUTION_SUGGESTIONS: Partial<Record<DealFeatureGroup, string>> = {
+  pricePerSqft: 'Price per sq ft is well off what wins for you; compare with recent won deals',
+  dealSize: 'Deals this size close less often for you; consider phasing the work',
+  tier: 'Offer another tier alongside this one',
+  responseTime: 'Slow turnaround is hurting this deal; send quotes sooner after the walkthrough',
+  views: 'The client has barely opened the proposal; follow up',
+  distance: 'This site is far from your crews; make sure travel is priced fairly',
+};
+
 // ============================================================================
 // AI PRICING SERVICE
 // ============================================================================
@@ -158,6 +214,7 @@ export const aiPricingService = {
       condition?: 'good' | 'fair' | 'poor';
       clientId?: string;
       region?: string;
+      zip?: string;
     }
   ): Promise<PricingRecommendation> {
     // Check plan for AI features
@@ -173,20 +230,26 @@ export const aiPricingService = {
     );
 
     // Get market analysis
+    const squareFootage = options.squareFootage || 1000;
     const marketAnalysis = await this.getMarketAnalysis(
       options.serviceType,
-      options.region || 'default'
+      options.zip ? regionForZip(options.zip) : options.region || 'default',
+      { orgId, zip: options.zip, squareFootage }
     );
 
     // Calculate base price
     const basePrice = this.calculateBasePrice(
       options.serviceType,
-      options.squareFootage || 1000,
+      squareFootage,
       options.condition || 'good'
     );
 
     // Generate factors
     const factors = await this.analyzePricingFactors(orgId, options, historicalData);
+    const marketFactor = this.marketPriceFactor(basePrice, marketAnalysis);
+    if (marketFactor) {
+      factors.push(marketFactor);
+    }
 
     // Calculate recommended price
     const adjustmentFactor = factors.reduce(
@@ -228,11 +291,10 @@ export const aiPricingService = {
             : recommendedPrice > marketAnalysis.avgPrice * 1.05
             ? 'above'
             : 'at',
-        competitors: [
-          { name: 'Competitor A', estimatedPrice: marketAnalysis.avgPrice * 0.9 },
-          { name: 'Competitor B', estimatedPrice: marketAnalysis.avgPrice },
-          { name: 'Competitor C', estimatedPrice: marketAnalysis.avgPrice * 1.1 },
-        ],
+        competitors: marketAnalysis.competitors.map((c) => ({
+          name: c.name,
+          estimatedPrice: roundMoney(c.pricePerSqft * squareFootage),
+        })),
       },
       historicalData: {
         avgWinPrice: historicalData.avgWinPrice,
@@ -262,16 +324,10 @@ export const aiPricingService = {
       overlay: 1.50,
     };
 
-    const conditionMultipliers: Record<string, number> = {
-      good: 1.0,
-      fair: 1.15,
-      poor: 1.30,
-    };
-
     const baseRate = baseRates[serviceType] || 0.25;
-    const conditionMultiplier = conditionMultipliers[condition];
+    const conditionMultiplier = CONDITION_MULTIPLIERS[condition];
 
-    return Math.round(squareFootage * baseRate * conditionMultiplier * 100) / 100;
+    return roundMoney(squareFootage * baseRate * conditionMultiplier);
   },
 
   /**
@@ -343,6 +399,30 @@ export const aiPricingService = {
     return factors;
   },
 
+  /**
+   * Market price factor from logged competitor bids; none without bids
+   */
+  marketPriceFactor(basePrice: number, marketAnalysis: MarketAnalysis): PricingFactor | null {
+    if (marketAnalysis.source !== 'competitor_bids' || basePrice <= 0) {
+      return null;
+    }
+
+    const gap = (marketAnalysis.avgPrice - basePrice) / basePrice;
+    const impact = Math.round(Math.max(-15, Math.min(15, gap * 100)));
+    const pct = Math.abs(Math.round(gap * 100));
+    const where = marketAnalysis.region === 'default' ? 'the market' : `region ${marketAnalysis.region}`;
+
+    return {
+      name: 'Market Price',
+      impact,
+      direction: impact > 0 ? 'positive' : impact < 0 ? 'negative' : 'neutral',
+      description: impact === 0
+        ? `In line with ${marketAnalysis.sampleSize} competitor bids in ${where}`
+        : `Competitors bid ${pct}% ${gap > 0 ? 'above' : 'below'} standard rates in ${where} (${marketAnalysis.sampleSize} bids)`,
+      weight: 0.20,
+    };
+  },
+
   /**
    * Get historical pricing data
    */
@@ -494,20 +574,43 @@ export const aiPricingService = {
     // Analyze factors
     const factors = await this.analyzeWinFactors(proposal);
 
-    // Calculate overall probability
-    const probability = this.calculateWinProbability(factors);
-
     // Find similar deals
     const similarDeals = await this.findSimilarDeals(proposal);
 
     // Generate suggestions
     const suggestions = this.generateWinSuggestions(factors);
 
+    const row = proposal as Record<string, unknown>;
+    const trained = await this.getDealScoringModel(row.org_id as string);
+    if (trained) {
+      const [record] = await buildDealRecords(row.org_id as string, [row]);
+      const prediction = predictDeal(trained.model, record);
+      const modelSuggestions = prediction.attributions
+        .filter((a) => a.direction === 'negative' && ATTRIBUTION_SUGGESTIONS[a.group])
+        .slice(0, 2)
+        .map((a) => ATTRIBUTION_SUGGESTIONS[a.group]!);
+
+      return {
+        proposalId,
+        probability: Math.round(prediction.probability * 100),
+        // Cross-validated accuracy of the model that made the call
+        confidence: Math.round(trained.model.metrics.accuracy * 100),
+        source: 'model',
+        factors,
+        attributions: prediction.attributions,
+        modelMetrics: trained.model.metrics,
+        suggestions: [...modelSuggestions, ...suggestions].slice(0, 5),
+        similarDeals,
+      };
+    }
+
     return {
       proposalId,
-      probability,
+      probability: this.calculateWinProbability(factors),
       confidence: 70 + (similarDeals.length > 5 ? 15 : similarDeals.length * 3),
+      source: 'heuristic',
       factors,
+      attributions: [],
       suggestions,
       similarDeals,
     };
@@ -652,13 +755,24 @@ export const aiPricingService = {
   async optimizePrice(
     orgId: string,
     basePrice: number,
-    options?: { minPrice?: number; maxPrice?: number }
+    options?: {
+      minPrice?: number;
+      maxPrice?: number;
+      serviceType?: string;
+      zip?: string;
+      squareFootage?: number;
+    }
   ): Promise<OptimizationResult> {
     const minPrice = options?.minPrice || basePrice * 0.7;
     const maxPrice = options?.maxPrice || basePrice * 1.3;
+    const serviceType = options?.serviceType || 'sealcoating';
 
-    const historicalData = await this.getHistoricalPricingData(orgId, 'sealcoating');
-    const marketAnalysis = await this.getMarketAnalysis('sealcoating', 'default');
+    const historicalData = await this.getHistoricalPricingData(orgId, serviceType);
+    const marketAnalysis = await this.getMarketAnalysis(
+      serviceType,
+      options?.zip ? regionForZip(options.zip) : 'default',
+      { orgId, zip: options?.zip, squareFootage: options?.squareFootage }
+    );
 
     const tradeoffs: OptimizationTradeoff[] = [];
     let optimalPrice = basePrice;
@@ -697,13 +811,15 @@ export const aiPricingService = {
   // --------------------------------------------------------------------------
 
   /**
-   * Get market analysis
+   * Get market analysis. With an org, prices come from its market price
+   * index of competitor bids; industry defaults fill in until it has any.
    */
   async getMarketAnalysis(
     serviceType: string,
-    region: string
+    region: string,
+    options?: { orgId?: string; zip?: string; squareFootage?: number }
   ): Promise<MarketAnalysis> {
-    // In production, this would fetch from market data API or internal benchmarks
+    const squareFootage = options?.squareFootage || 1000;
     const marketData: Record<string, Partial<MarketAnalysis>> = {
       sealcoating: {
         avgPrice: 0.22,
@@ -729,18 +845,45 @@ export const aiPricingService = {
     const month = new Date().getMonth();
     const seasonalFactor = [40, 50, 80, 110, 130, 140, 150, 140, 120, 90, 60, 40][month];
 
+    if (options?.orgId) {
+      const market = await marketPriceService.getMarketPrice(options.orgId, serviceType, options.zip);
+      if (market.sampleSize > 0) {
+        return {
+          serviceType,
+          region: market.scope === 'region' ? market.region! : 'default',
+          avgPrice: roundMoney(market.pricePerSqft * squareFootage),
+          priceRange: {
+            min: roundMoney(market.p25PricePerSqft * squareFootage),
+            max: roundMoney(market.p75PricePerSqft * squareFootage),
+          },
+          demandLevel: data.demandLevel || 'medium',
+          seasonalFactor,
+          competitorCount: market.competitors.length,
+          marketTrend: market.trend,
+          pricePerSqft: market.pricePerSqft,
+          competitors: market.competitors,
+          sampleSize: market.sampleSize,
+          source: 'competitor_bids',
+        };
+      }
+    }
+
     return {
       serviceType,
       region,
-      avgPrice: (data.avgPrice || 0.22) * 1000, // Convert to per job estimate
+      avgPrice: (data.avgPrice || 0.22) * squareFootage, // Convert to per job estimate
       priceRange: {
-        min: (data.priceRange?.min || 0.15) * 1000,
-        max: (data.priceRange?.max || 0.35) * 1000,
+        min: (data.priceRange?.min || 0.15) * squareFootage,
+        max: (data.priceRange?.max || 0.35) * squareFootage,
       },
       demandLevel: data.demandLevel || 'medium',
       seasonalFactor,
       competitorCount: data.competitorCount || 10,
       marketTrend: 'stable',
+      pricePerSqft: data.avgPrice || 0.22,
+      competitors: [],
+      sampleSize: 0,
+      source: 'default',
     };
   },
 
@@ -763,22 +906,108 @@ export const aiPricingService = {
       relationship: factors.find((f) => f.name === 'Client Engagement')?.score || 50,
     };
 
-    const overallScore = Math.round(
-      (dimensions.clientFit * 0.25 +
-        dimensions.dealSize * 0.20 +
-        dimensions.timing * 0.15 +
-        dimensions.competition * 0.20 +
-        dimensions.relationship * 0.20)
-    );
+    // A trained model's probability replaces the hand-weighted blend
+    const overallScore = prediction.source === 'model'
+      ? prediction.probability
+      : Math.round(
+          (dimensions.clientFit * 0.25 +
+            dimensions.dealSize * 0.20 +
+            dimensions.timing * 0.15 +
+            dimensions.competition * 0.20 +
+            dimensions.relationship * 0.20)
+        );
 
     return {
       proposalId,
       overallScore,
       dimensions,
+      winProbability: prediction.probability,
+      source: prediction.source,
+      attributions: prediction.attributions,
       recommendations: prediction.suggestions,
     };
   },
 
+  // --------------------------------------------------------------------------
+  // Deal Scoring Model
+  // --------------------------------------------------------------------------
+
+  /**
+   * Train the org's deal scoring model on its won and lost proposals and
+   * make it the active one
+   */
+  async trainDealScoringModel(orgId: string): Promise<DealScoringModelRecord> {
+    const hasAI = await entitlementsService.hasFeature(orgId, 'ai_assistant');
+    if (!hasAI) {
+      throw new Error('Deal scoring requires a Pro plan or higher');
+    }
+
+    const deals = await this.getTrainingDeals(orgId);
+    const model = trainDealModel(deals);
+
+    await supabase
+      .from('deal_scoring_models')
+      .update({ is_active: false })
+      .eq('org_id', orgId)
+      .eq('is_active', true);
+
+    const { data, error } = await supabase
+      .from('deal_scoring_models')
+      .insert({
+        org_id: orgId,
+        model,
+        sample_size: model.metrics.sampleSize,
+        accuracy: model.metrics.accuracy,
+        auc: model.metrics.auc,
+        is_active: true,
+        trained_at: model.trainedAt,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return transformDealScoringModel(data);
+  },
+
+  /**
+   * Get the org's active deal scoring model
+   */
+  async getDealScoringModel(orgId: string): Promise<DealScoringModelRecord | null> {
+    const { data, error } = await supabase
+      .from('deal_scoring_models')
+      .select('*')
+      .eq('org_id', orgId)
+      .eq('is_active', true)
+      .order('trained_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? transformDealScoringModel(data) : null;
+  },
+
+  /**
+   * Closed proposals as training examples
+   */
+  async getTrainingDeals(orgId: string): Promise<TrainingDeal[]> {
+    const { data: proposals, error } = await supabase
+      .from('proposals')
+      .select('id, total, total_sqft, net_sqft, tier, status, created_at, sent_at, site_geometry')
+      .eq('org_id', orgId)
+      .in('status', [...WON_STATUSES, ...LOST_STATUSES])
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    const rows = (proposals || []) as Record<string, unknown>[];
+    const records = await buildDealRecords(orgId, rows);
+    return rows.map((proposal, i) => ({
+      ...records[i],
+      proposalId: proposal.id as string,
+      won: WON_STATUSES.includes(proposal.status as string),
+    }));
+  },
+
   // --------------------------------------------------------------------------
   // Pricing Models
   // --------------------------------------------------------------------------
@@ -824,21 +1053,30 @@ export const aiPricingService = {
   },
 
   /**
-   * Train pricing model
+   * Train pricing model: retrains the org's deal scoring model and records
+   * its cross-validated accuracy on the pricing model
    */
-  async trainPricingModel(modelId: string): Promise<{ accuracy: number }> {
-    // In production, this would use ML training
-    const accuracy = 75 + Math.random() * 20;
+  async trainPricingModel(modelId: string): Promise<{ accuracy: number; metrics: DealModelMetrics }> {
+    const { data: pricingModel, error } = await supabase
+      .from('pricing_models')
+      .select('org_id')
+      .eq('id', modelId)
+      .single();
+
+    if (error) throw error;
+
+    const trained = await this.trainDealScoringModel((pricingModel as { org_id: string }).org_id);
+    const accuracy = Math.round(trained.model.metrics.accuracy * 1000) / 10;
 
     await supabase
       .from('pricing_models')
       .update({
         accuracy,
-        last_trained_at: new Date().toISOString(),
+        last_trained_at: trained.trainedAt,
       })
       .eq('id', modelId);
 
-    return { accuracy };
+    return { accuracy, metrics: trained.model.metrics };
   },
 };
 
@@ -862,6 +1100,79 @@ function transformPricingModel(row: Record<string, unknown>): PricingModel {
   };
 }
 
+function transformDealScoringModel(row: Record<string, unknown>): DealScoringModelRecord {
+  return {
+    id: row.id as string,
+    orgId: row.org_id as string,
+    model: row.model as DealScoreModel,
+    isActive: row.is_active as boolean,
+    trainedAt: row.trained_at as string,
+  };
+}
+
+/**
+ * What the deal scoring model needs from each proposal: early views and the
+ * distance from the nearest crew base to the site
+ */
+async function buildDealRecords(
+  orgId: string,
+  proposals: Record<string, unknown>[]
+): Promise<DealRecord[]> {
+  if (proposals.length === 0) return [];
+
+  const [crews, { data: views, error }] = await Promise.all([
+    getCrews(orgId),
+    supabase
+      .from('proposal_views')
+      .select('proposal_id, viewed_at')
+      .in('proposal_id', proposals.map((p) => p.id as string)),
+  ]);
+
+  if (error) throw error;
+
+  const bases: GeoPoint[] = crews
+    .filter((c) => c.base_latitude != null && c.base_longitude != null)
+    .map((c) => ({ lat: Number(c.base_latitude), lon: Number(c.base_longitude) }));
+
+  const viewTimes = new Map<string, number[]>();
+  for (const view of (views || []) as { proposal_id: string; viewed_at: string }[]) {
+    const times = viewTimes.get(view.proposal_id) || [];
+    times.push(new Date(view.viewed_at).getTime());
+    viewTimes.set(view.proposal_id, times);
+  }
+
+  return proposals.map((proposal) => {
+    const sentAt = proposal.sent_at as string | null;
+    // Only early views count, so old deals and fresh ones are compared alike
+    const windowEnd = sentAt ? new Date(sentAt).getTime() + VIEW_WINDOW_DAYS * 24 * 60 * 60 * 1000 : 0;
+    const earlyViews = sentAt
+      ? (viewTimes.get(proposal.id as string) || []).filter((t) => t <= windowEnd).length
+      : 0;
+
+    const site = sitePoint(proposal.site_geometry as SiteGeometry | null);
+    const distanceMiles = site && bases.length > 0
+      ? Math.min(...bases.map((base) => straightLineMiles(base, site)))
+      : null;
+
+    return {
+      total: Number(proposal.total) || 0,
+      sqft: (proposal.net_sqft as number | null) || (proposal.total_sqft as number | null),
+      tier: (proposal.tier as DealRecord['tier']) || 'standard',
+      createdAt: proposal.created_at as string,
+      sentAt,
+      views: earlyViews,
+      distanceMiles,
+    };
+  });
+}
+
+/** The site's location, when it was drawn on the map */
+function sitePoint(site: SiteGeometry | null): GeoPoint | null {
+  if (site?.basemap?.type !== 'map') return null;
+  const [lon, lat] = site.basemap.center;
+  return { lat, lon };
+}
+
 // ============================================================================
 // EXPORT
 // ============================================================================
@@ -3,6 +3,8 @@
  * AI-powered content generation and suggestions
  */
 
+import { usageService, QuotaExceededError } from '@/lib/usage/usageService';
+
 const HUGGINGFACE_API_URL = 'https://api-inference.huggingface.co/models/mistralai/Mistral-7B-Instruct-v0.1';
 
 interface AIResponse {
@@ -15,9 +17,11 @@ interface ChatMessage {
 }
 
 /**
- * Generate text using HuggingFace Mistral-7B
+ * Generate text using HuggingFace Mistral-7B.
+ * Every call counts against the org's AI quota and is refused past a hard limit.
  */
 export async function generateText(
+  orgId: string,
   prompt: string,
   maxTokens: number = 500
 ): Promise<string> {
@@ -28,7 +32,7 @@ export async function generateText(
     return getFallbackResponse(prompt);
   }
 
-  try {
+  const request = async (): Promise<string> => {
     const response = await fetch(HUGGINGFACE_API_URL, {
       method: 'POST',
       headers: {
@@ -52,7 +56,12 @@ export async function generateText(
 
     const data: AIResponse[] = await response.json();
     return data[0]?.generated_text || '';
+  };
+
+  try {
+    return await usageService.meter(orgId, 'call_ai', request);
   } catch (error) {
+    if (error instanceof QuotaExceededError) throw error;
     console.error('AI generation error:', error);
     return getFallbackResponse(prompt);
   }
@@ -62,6 +71,7 @@ export async function generateText(
  * Chat with AI assistant
  */
 export async function chat(
+  orgId: string,
   messages: ChatMessage[],
   systemPrompt?: string
 ): Promise<string> {
@@ -80,13 +90,14 @@ export async function chat(
     }
   }
 
-  return generateText(prompt, 1000);
+  return generateText(orgId, prompt, 1000);
 }
 
 /**
  * Generate proposal description
  */
 export async function generateProposalDescription(
+  orgId: string,
   services: string[],
   propertyType: string,
   squareFootage: number
@@ -98,13 +109,14 @@ Area: ${squareFootage.toLocaleString()} square feet
 
 Keep it concise, professional, and highlight the benefits. [/INST]`;
 
-  return generateText(prompt, 300);
+  return generateText(orgId, prompt, 300);
 }
 
 /**
  * Generate scope of work
  */
 export async function generateScopeOfWork(
+  orgId: string,
   services: string[],
   conditions: string
 ): Promise<string> {
@@ -114,13 +126,14 @@ Current conditions: ${conditions}
 
 Include preparation, execution, and cleanup steps. Be specific and professional. [/INST]`;
 
-  return generateText(prompt, 500);
+  return generateText(orgId, prompt, 500);
 }
 
 /**
  * Generate email follow-up
  */
 export async function generateFollowUpEmail(
+  orgId: string,
   clientName: string,
   proposalNumber: string,
   daysSinceSent: number
@@ -132,13 +145,14 @@ Days since sent: ${daysSinceSent}
 
 Be friendly but professional. Offer to answer questions. Keep it brief. [/INST]`;
 
-  return generateText(prompt, 200);
+  return generateText(orgId, prompt, 200);
 }
 
 /**
  * Suggest pricing adjustments
  */
 export async function suggestPricing(
+  orgId: string,
   basePrice: number,
   competitorAvg: number,
   winRate: number
@@ -154,7 +168,7 @@ Current win rate: ${winRate}%
 
 Provide a brief recommendation. [/INST]`;
 
-  const response = await generateText(prompt, 200);
+  const response = await generateText(orgId, prompt, 200);
   
   // Parse AI response or provide defaults
   let adjustedPrice = basePrice;
@@ -174,7 +188,7 @@ Provide a brief recommendation. [/INST]`;
 /**
  * Analyze proposal for improvements
  */
-export async function analyzeProposal(proposal: {
+export async function analyzeProposal(orgId: string, proposal: {
   description: string;
   services: string[];
   total: number;
@@ -186,7 +200,7 @@ Total: $${proposal.total.toLocaleString()}
 
 List 3-5 specific suggestions to improve win rate. [/INST]`;
 
-  const response = await generateText(prompt, 300);
+  const response = await generateText(orgId, prompt, 300);
   
   // Parse response into array or provide defaults
   const suggestions = response
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEAL_MODEL_VERSION,
+  MIN_TRAINING_DEALS,
+  predictDeal,
+  trainDealModel,
+  type DealRecord,
+  type TrainingDeal,
+} from './dealScoringModel';
+
+const TIERS = ['economy', 'standard', 'premium'] as const;
+
+/** Wins get more views; everything else varies without regard to the outcome */
+function deal(i: number, won: boolean): TrainingDeal {
+  const createdAt = new Date(Date.UTC(2025, i % 12, 1 + (i % 27)));
+  return {
+    proposalId: `proposal-${i}`,
+    won,
+    total: 5000 + ((i * 137) % 3000),
+    sqft: 20000 + ((i * 71) % 5000),
+    tier: TIERS[i % 3],
+    createdAt: createdAt.toISOString(),
+    sentAt: new Date(createdAt.getTime() + (i % 5) * 60 * 60 * 1000).toISOString(),
+    views: won ? 4 + (i % 4) : i % 3 === 0 ? 1 : 0,
+    distanceMiles: (i * 13) % 30,
+  };
+}
+
+function deals(count: number): TrainingDeal[] {
+  return Array.from({ length: count }, (_, i) => deal(i, i % 2 === 0));
+}
+
+describe('trainDealModel', () => {
+  it('needs enough deals of both outcomes', () => {
+    expect(() => trainDealModel(deals(MIN_TRAINING_DEALS - 1))).toThrow(/At least 20/);
+    expect(() => trainDealModel(deals(30).map((d) => ({ ...d, won: true })))).toThrow(/both won and lost/);
+  });
+
+  it('learns a feature that separates wins and scores it out of fold', () => {
+    const { metrics } = trainDealModel(deals(40));
+
+    expect(metrics).toMatchObject({ sampleSize: 40, wins: 20, folds: 5, baselineAccuracy: 0.5 });
+    expect(metrics.auc).toBeGreaterThan(0.9);
+    expect(metrics.accuracy).toBeGreaterThan(metrics.baselineAccuracy);
+    expect(metrics.brierScore).toBeLessThan(0.25);
+    expect(metrics.calibration.reduce((sum, bin) => sum + bin.count, 0)).toBe(40);
+  });
+
+  it('gives a feature with no known values no weight', () => {
+    const model = trainDealModel(deals(40).map((d) => ({ ...d, sqft: null })));
+    expect(model.weights[model.features.indexOf('price_per_sqft')]).toBe(0);
+  });
+});
+
+describe('predictDeal', () => {
+  const model = trainDealModel(deals(40));
+  const base: DealRecord = { ...deal(41, false), views: 0 };
+
+  it('scores more views higher and attributes the difference to them', () => {
+    const cold = predictDeal(model, base);
+    const warm = predictDeal(model, { ...base, views: 7 });
+
+    expect(warm.probability).toBeGreaterThan(cold.probability);
+    expect(warm.attributions[0]).toMatchObject({ group: 'views', direction: 'positive', value: '7 in 7d' });
+    expect(cold.attributions.find((a) => a.group === 'views')?.direction).toBe('negative');
+  });
+
+  it('sorts attributions by size and fills unknown values with the average', () => {
+    const prediction = predictDeal(model, { ...base, sqft: null, distanceMiles: null });
+    const sizes = prediction.attributions.map((a) => Math.abs(a.contribution));
+
+    expect(sizes).toEqual([...sizes].sort((a, b) => b - a));
+    expect(prediction.attributions.find((a) => a.group === 'pricePerSqft')).toMatchObject({ value: 'unknown', contribution: 0 });
+    expect(prediction.attributions.find((a) => a.group === 'distance')).toMatchObject({ value: 'unknown', contribution: 0 });
+  });
+
+  it('refuses a model from another version', () => {
+    expect(() => predictDeal({ ...model, version: DEAL_MODEL_VERSION + 1 }, base)).toThrow(/retrain/);
+  });
+});
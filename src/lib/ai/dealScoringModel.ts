@@ -0,0 +1,414 @@
+/**
+ * Sommer's Proposal System - Deal Scoring Model
+ * Logistic regression trained on an org's closed proposals, with metrics
+ * from cross-validation and per-prediction feature attributions.
+ *
+ * Features are standardized with the training means, and missing values
+ * are filled with the mean, so an attribution is how far a feature moves
+ * this deal's log-odds away from those of an average deal.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** What the model knows about a proposal; null where it can't be worked out */
+export interface DealRecord {
+  total: number;
+  sqft: number | null;
+  tier: 'economy' | 'standard' | 'premium';
+  createdAt: string;
+  sentAt: string | null;
+  /** Views in the first VIEW_WINDOW_DAYS after sending */
+  views: number;
+  /** From the nearest crew base to the site */
+  distanceMiles: number | null;
+}
+
+export interface TrainingDeal extends DealRecord {
+  proposalId: string;
+  won: boolean;
+}
+
+export type DealFeatureGroup = 'pricePerSqft' | 'dealSize' | 'tier' | 'responseTime' | 'views' | 'distance' | 'season';
+
+interface DealFeature {
+  key: string;
+  group: DealFeatureGroup;
+  extract: (deal: DealRecord) => number | null;
+}
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  /** Mean predicted probability of the deals in the bin */
+  predicted: number;
+  /** Share of those deals that were won */
+  observed: number;
+}
+
+/** Measured on out-of-fold predictions, so every deal is scored by a model that didn't see it */
+export interface DealModelMetrics {
+  sampleSize: number;
+  wins: number;
+  folds: number;
+  accuracy: number;
+  /** Accuracy of always predicting the more common outcome */
+  baselineAccuracy: number;
+  auc: number;
+  logLoss: number;
+  brierScore: number;
+  /** Expected calibration error: count-weighted gap between predicted and observed */
+  calibrationError: number;
+  calibration: CalibrationBin[];
+}
+
+export interface DealScoreModel {
+  version: number;
+  features: string[];
+  means: number[];
+  stds: number[];
+  weights: number[];
+  intercept: number;
+  metrics: DealModelMetrics;
+  trainedAt: string;
+}
+
+export interface FeatureAttribution {
+  group: DealFeatureGroup;
+  label: string;
+  /** The deal's value, formatted for display; 'unknown' when it was filled with the average */
+  value: string;
+  /** Change in log-odds against an average deal */
+  contribution: number;
+  direction: 'positive' | 'negative' | 'neutral';
+}
+
+export interface DealPrediction {
+  probability: number;
+  /** Sorted by size of contribution, largest first */
+  attributions: FeatureAttribution[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEAL_MODEL_VERSION = 1;
+
+/** Fewer closed deals than this and the model would mostly learn noise */
+export const MIN_TRAINING_DEALS = 20;
+
+export const VIEW_WINDOW_DAYS = 7;
+
+const FOLDS = 5;
+const CALIBRATION_BINS = 10;
+const LEARNING_RATE = 0.1;
+const ITERATIONS = 800;
+/** L2 penalty; keeps weights sane when a feature separates a small sample */
+const L2 = 0.05;
+const EPSILON = 1e-12;
+
+export const FEATURE_GROUP_LABELS: Record<DealFeatureGroup, string> = {
+  pricePerSqft: 'Price per sq ft',
+  dealSize: 'Deal size',
+  tier: 'Tier',
+  responseTime: 'Time to send',
+  views: 'Client views',
+  distance: 'Distance from crew base',
+  season: 'Season',
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const DEAL_FEATURES: DealFeature[] = [
+  {
+    key: 'price_per_sqft',
+    group: 'pricePerSqft',
+    extract: (d) => (d.sqft && d.sqft > 0 ? d.total / d.sqft : null),
+  },
+  { key: 'log_total', group: 'dealSize', extract: (d) => Math.log1p(Math.max(0, d.total)) },
+  { key: 'tier_economy', group: 'tier', extract: (d) => (d.tier === 'economy' ? 1 : 0) },
+  { key: 'tier_premium', group: 'tier', extract: (d) => (d.tier === 'premium' ? 1 : 0) },
+  {
+    key: 'log_hours_to_send',
+    group: 'responseTime',
+    extract: (d) =>
+      d.sentAt
+        ? Math.log1p(Math.max(0, (new Date(d.sentAt).getTime() - new Date(d.createdAt).getTime()) / HOUR_MS))
+        : null,
+  },
+  { key: 'log_views', group: 'views', extract: (d) => Math.log1p(d.views) },
+  { key: 'distance_miles', group: 'distance', extract: (d) => d.distanceMiles },
+  // Month as a point on a circle, so December sits next to January
+  { key: 'season_sin', group: 'season', extract: (d) => Math.sin((2 * Math.PI * dealMonth(d)) / 12) },
+  { key: 'season_cos', group: 'season', extract: (d) => Math.cos((2 * Math.PI * dealMonth(d)) / 12) },
+];
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// ============================================================================
+// TRAINING
+// ============================================================================
+
+/**
+ * Fit the model on closed deals. Metrics come from FOLDS-fold cross
+ * validation; the returned weights are then fit on every deal.
+ */
+export function trainDealModel(deals: TrainingDeal[]): DealScoreModel {
+  if (deals.length < MIN_TRAINING_DEALS) {
+    throw new Error(`At least ${MIN_TRAINING_DEALS} won or lost proposals are needed to train; found ${deals.length}`);
+  }
+
+  const wins = deals.filter((d) => d.won).length;
+  if (wins === 0 || wins === deals.length) {
+    throw new Error('Training needs both won and lost proposals');
+  }
+
+  const raw = deals.map(extractFeatures);
+  const labels = deals.map((d) => (d.won ? 1 : 0));
+
+  // Out-of-fold predictions; folds interleave so each spans the whole history
+  const outOfFold = new Array<number>(deals.length);
+  for (let fold = 0; fold < FOLDS; fold++) {
+    const trainIdx = raw.map((_, i) => i).filter((i) => i % FOLDS !== fold);
+    const testIdx = raw.map((_, i) => i).filter((i) => i % FOLDS === fold);
+    if (testIdx.length === 0) continue;
+
+    const fit = fitLogistic(trainIdx.map((i) => raw[i]), trainIdx.map((i) => labels[i]));
+    for (const i of testIdx) {
+      outOfFold[i] = sigmoid(logit(fit, raw[i]));
+    }
+  }
+
+  const fit = fitLogistic(raw, labels);
+
+  return {
+    version: DEAL_MODEL_VERSION,
+    features: DEAL_FEATURES.map((f) => f.key),
+    means: fit.means,
+    stds: fit.stds,
+    weights: fit.weights,
+    intercept: fit.intercept,
+    metrics: evaluate(outOfFold, labels),
+    trainedAt: new Date().toISOString(),
+  };
+}
+
+interface LogisticFit {
+  means: number[];
+  stds: number[];
+  weights: number[];
+  intercept: number;
+}
+
+/** Batch gradient descent on standardized features with an L2 penalty */
+function fitLogistic(rows: (number | null)[][], labels: number[]): LogisticFit {
+  const width = DEAL_FEATURES.length;
+  const means = new Array<number>(width).fill(0);
+  const stds = new Array<number>(width).fill(1);
+
+  for (let j = 0; j < width; j++) {
+    const values = rows.map((r) => r[j]).filter((v): v is number => v !== null);
+    if (values.length === 0) continue;
+    means[j] = values.reduce((s, v) => s + v, 0) / values.length;
+    const variance = values.reduce((s, v) => s + (v - means[j]) ** 2, 0) / values.length;
+    // A constant feature carries nothing; a unit scale leaves it at zero after centering
+    stds[j] = variance > 0 ? Math.sqrt(variance) : 1;
+  }
+
+  const x = rows.map((r) => r.map((v, j) => (v === null ? 0 : (v - means[j]) / stds[j])));
+  const n = x.length;
+  const weights = new Array<number>(width).fill(0);
+  const rate = labels.reduce((s, y) => s + y, 0) / n;
+  // Start at the base rate so the weights only have to explain the differences
+  let intercept = Math.log(Math.max(rate, EPSILON) / Math.max(1 - rate, EPSILON));
+
+  for (let iter = 0; iter < ITERATIONS; iter++) {
+    const gradW = new Array<number>(width).fill(0);
+    let gradB = 0;
+
+    for (let i = 0; i < n; i++) {
+      let z = intercept;
+      for (let j = 0; j < width; j++) z += weights[j] * x[i][j];
+      const error = sigmoid(z) - labels[i];
+      gradB += error;
+      for (let j = 0; j < width; j++) gradW[j] += error * x[i][j];
+    }
+
+    intercept -= (LEARNING_RATE * gradB) / n;
+    for (let j = 0; j < width; j++) {
+      weights[j] -= LEARNING_RATE * (gradW[j] / n + L2 * weights[j]);
+    }
+  }
+
+  return { means, stds, weights, intercept };
+}
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+function evaluate(predictions: number[], labels: number[]): DealModelMetrics {
+  const n = labels.length;
+  const wins = labels.reduce((s, y) => s + y, 0);
+
+  let correct = 0;
+  let logLoss = 0;
+  let brier = 0;
+  for (let i = 0; i < n; i++) {
+    const p = Math.min(1 - EPSILON, Math.max(EPSILON, predictions[i]));
+    if ((p >= 0.5 ? 1 : 0) === labels[i]) correct++;
+    logLoss -= labels[i] * Math.log(p) + (1 - labels[i]) * Math.log(1 - p);
+    brier += (predictions[i] - labels[i]) ** 2;
+  }
+
+  const calibration: CalibrationBin[] = [];
+  let calibrationError = 0;
+  for (let b = 0; b < CALIBRATION_BINS; b++) {
+    const lower = b / CALIBRATION_BINS;
+    const upper = (b + 1) / CALIBRATION_BINS;
+    const inBin = predictions
+      .map((p, i) => ({ p, y: labels[i] }))
+      .filter(({ p }) => p >= lower && (b === CALIBRATION_BINS - 1 ? p <= upper : p < upper));
+    if (inBin.length === 0) continue;
+
+    const predicted = inBin.reduce((s, d) => s + d.p, 0) / inBin.length;
+    const observed = inBin.reduce((s, d) => s + d.y, 0) / inBin.length;
+    calibration.push({ lower, upper, count: inBin.length, predicted: round(predicted), observed: round(observed) });
+    calibrationError += (inBin.length / n) * Math.abs(predicted - observed);
+  }
+
+  return {
+    sampleSize: n,
+    wins,
+    folds: FOLDS,
+    accuracy: round(correct / n),
+    baselineAccuracy: round(Math.max(wins, n - wins) / n),
+    auc: round(rocAuc(predictions, labels)),
+    logLoss: round(logLoss / n),
+    brierScore: round(brier / n),
+    calibrationError: round(calibrationError),
+    calibration,
+  };
+}
+
+/** Probability that a won deal is scored above a lost one, ties counted half */
+function rocAuc(predictions: number[], labels: number[]): number {
+  const ranked = predictions.map((p, i) => ({ p, y: labels[i] })).sort((a, b) => a.p - b.p);
+
+  let rankSumWins = 0;
+  let i = 0;
+  while (i < ranked.length) {
+    let j = i;
+    while (j + 1 < ranked.length && ranked[j + 1].p === ranked[i].p) j++;
+    // Tied scores share the average of their ranks (1-based)
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) {
+      if (ranked[k].y === 1) rankSumWins += averageRank;
+    }
+    i = j + 1;
+  }
+
+  const wins = labels.reduce((s, y) => s + y, 0);
+  const losses = labels.length - wins;
+  return (rankSumWins - (wins * (wins + 1)) / 2) / (wins * losses);
+}
+
+// ============================================================================
+// PREDICTION
+// ============================================================================
+
+/**
+ * Win probability for a deal, with how much each feature group pushed it
+ * up or down
+ */
+export function predictDeal(model: DealScoreModel, deal: DealRecord): DealPrediction {
+  if (model.version !== DEAL_MODEL_VERSION) {
+    throw new Error('Deal scoring model is out of date; retrain it');
+  }
+
+  const raw = extractFeatures(deal);
+  const contributions = new Map<DealFeatureGroup, number>();
+  let z = model.intercept;
+
+  DEAL_FEATURES.forEach((feature, j) => {
+    const value = raw[j];
+    const standardized = value === null ? 0 : (value - model.means[j]) / model.stds[j];
+    const contribution = model.weights[j] * standardized;
+    z += contribution;
+    contributions.set(feature.group, (contributions.get(feature.group) || 0) + contribution);
+  });
+
+  const attributions: FeatureAttribution[] = Array.from(contributions.entries())
+    .map(([group, contribution]) => ({
+      group,
+      label: FEATURE_GROUP_LABELS[group],
+      value: describeFeature(group, deal),
+      contribution: round(contribution),
+      direction: contribution > 0.05 ? 'positive' as const : contribution < -0.05 ? 'negative' as const : 'neutral' as const,
+    }))
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+
+  return { probability: sigmoid(z), attributions };
+}
+
+function logit(fit: LogisticFit, row: (number | null)[]): number {
+  let z = fit.intercept;
+  row.forEach((value, j) => {
+    if (value !== null) z += fit.weights[j] * ((value - fit.means[j]) / fit.stds[j]);
+  });
+  return z;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function extractFeatures(deal: DealRecord): (number | null)[] {
+  return DEAL_FEATURES.map((feature) => {
+    const value = feature.extract(deal);
+    return value === null || !Number.isFinite(value) ? null : value;
+  });
+}
+
+/** Month the client got the proposal, or was meant to */
+function dealMonth(deal: DealRecord): number {
+  return new Date(deal.sentAt || deal.createdAt).getMonth();
+}
+
+function describeFeature(group: DealFeatureGroup, deal: DealRecord): string {
+  switch (group) {
+    case 'pricePerSqft':
+      return deal.sqft && deal.sqft > 0 ? `$${(deal.total / deal.sqft).toFixed(2)}/sq ft` : 'unknown';
+    case 'dealSize':
+      return `$${Math.round(deal.total).toLocaleString()}`;
+    case 'tier':
+      return deal.tier;
+    case 'responseTime': {
+      if (!deal.sentAt) return 'not sent';
+      const hours = (new Date(deal.sentAt).getTime() - new Date(deal.createdAt).getTime()) / HOUR_MS;
+      return hours < 48 ? `${Math.round(hours)}h` : `${Math.round(hours / 24)}d`;
+    }
+    case 'views':
+      return `${deal.views} in ${VIEW_WINDOW_DAYS}d`;
+    case 'distance':
+      return deal.distanceMiles === null ? 'unknown' : `${Math.round(deal.distanceMiles)} mi`;
+    case 'season':
+      return MONTH_NAMES[dealMonth(deal)];
+  }
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+export default {
+  trainDealModel,
+  predictDeal,
+};
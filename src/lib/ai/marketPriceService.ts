@@ -0,0 +1,445 @@
+/**
+ * Sommer's Proposal System - Market Price Service
+ * Competitor bids logged by reps, and the per-region, per-service market
+ * price index built from them
+ */
+
+import { supabase } from '../supabase';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CompetitorBidSource = 'lost_proposal' | 'client_shared';
+
+export interface CompetitorBid {
+  id: string;
+  orgId: string;
+  proposalId: string | null;
+  competitorName: string;
+  services: string[];
+  price: number;
+  sqft: number | null;
+  zip: string;
+  region: string;
+  source: CompetitorBidSource;
+  bidDate: string;
+  notes: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface CompetitorBidInput {
+  proposalId?: string;
+  competitorName: string;
+  services: string[];
+  price: number;
+  sqft?: number | null;
+  zip: string;
+  source: CompetitorBidSource;
+  bidDate?: string;
+  notes?: string;
+}
+
+/** One month of the index for a region and service */
+export interface MarketIndexPoint {
+  region: string;
+  serviceKey: string;
+  period: string;
+  medianPricePerSqft: number;
+  p25PricePerSqft: number;
+  p75PricePerSqft: number;
+  bidCount: number;
+  competitorCount: number;
+}
+
+export interface CompetitorPriceSummary {
+  name: string;
+  pricePerSqft: number;
+  bidCount: number;
+}
+
+/** Going rate over the trailing window; sampleSize 0 means no bids to go on */
+export interface MarketPrice {
+  serviceKey: string;
+  region: string | null;
+  /** 'all' when the region had too few bids and every region was pooled */
+  scope: 'region' | 'all';
+  pricePerSqft: number;
+  p25PricePerSqft: number;
+  p75PricePerSqft: number;
+  sampleSize: number;
+  competitors: CompetitorPriceSummary[];
+  trend: 'increasing' | 'stable' | 'decreasing';
+  /** Change of the last TREND_MONTHS against the TREND_MONTHS before */
+  trendPercent: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MARKET_SERVICES: { value: string; label: string }[] = [
+  { value: 'sealcoating', label: 'Sealcoating' },
+  { value: 'crack_filling', label: 'Crack Filling' },
+  { value: 'line_striping', label: 'Line Striping' },
+  { value: 'patching', label: 'Patching' },
+  { value: 'overlay', label: 'Overlay' },
+];
+
+/** Months of bids behind the current market price */
+export const MARKET_WINDOW_MONTHS = 6;
+
+/** Fewer bids than this in a region and all regions are pooled */
+const MIN_REGION_BIDS = 3;
+
+const TREND_MONTHS = 3;
+/** Moves smaller than this percent count as stable */
+const TREND_THRESHOLD = 5;
+
+// ============================================================================
+// MARKET PRICE SERVICE
+// ============================================================================
+
+export const marketPriceService = {
+  // --------------------------------------------------------------------------
+  // Competitor Bids
+  // --------------------------------------------------------------------------
+
+  /**
+   * Log a competitor's bid, from a lost proposal or a quote a client shared
+   */
+  async logCompetitorBid(
+    orgId: string,
+    input: CompetitorBidInput,
+    options?: { userId?: string }
+  ): Promise<CompetitorBid> {
+    const zip = input.zip.trim();
+    if (!/^\d{5}(-\d{4})?$/.test(zip)) {
+      throw new Error('Enter a 5-digit zip code');
+    }
+    if (!input.competitorName.trim()) {
+      throw new Error('Competitor name is required');
+    }
+    if (input.services.length === 0) {
+      throw new Error('Pick at least one service');
+    }
+    if (!(input.price > 0)) {
+      throw new Error('Price must be more than zero');
+    }
+
+    const { data, error } = await supabase
+      .from('competitor_bids')
+      .insert({
+        org_id: orgId,
+        proposal_id: input.proposalId || null,
+        competitor_name: input.competitorName.trim(),
+        services: Array.from(new Set(input.services)).sort(),
+        price: input.price,
+        sqft: input.sqft && input.sqft > 0 ? input.sqft : null,
+        zip,
+        region: regionForZip(zip),
+        source: input.source,
+        bid_date: input.bidDate || new Date().toISOString().split('T')[0],
+        notes: input.notes || null,
+        created_by: options?.userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const bid = transformCompetitorBid(data);
+    await this.refreshMarketIndex(orgId, bid.region, serviceKey(bid.services), periodFor(bid.bidDate));
+    return bid;
+  },
+
+  /**
+   * Get competitor bids, newest first
+   */
+  async getCompetitorBids(
+    orgId: string,
+    options?: { proposalId?: string; region?: string; since?: string; limit?: number }
+  ): Promise<CompetitorBid[]> {
+    let query = supabase
+      .from('competitor_bids')
+      .select('*')
+      .eq('org_id', orgId)
+      .order('bid_date', { ascending: false });
+
+    if (options?.proposalId) {
+      query = query.eq('proposal_id', options.proposalId);
+    }
+    if (options?.region) {
+      query = query.eq('region', options.region);
+    }
+    if (options?.since) {
+      query = query.gte('bid_date', options.since);
+    }
+    if (options?.limit) {
+      query = query.limit(options.limit);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(transformCompetitorBid);
+  },
+
+  /**
+   * Delete a bid logged by mistake
+   */
+  async deleteCompetitorBid(bidId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('competitor_bids')
+      .delete()
+      .eq('id', bidId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const bid = transformCompetitorBid(data);
+    await this.refreshMarketIndex(bid.orgId, bid.region, serviceKey(bid.services), periodFor(bid.bidDate));
+  },
+
+  // --------------------------------------------------------------------------
+  // Market Index
+  // --------------------------------------------------------------------------
+
+  /**
+   * Recompute one month of the index from the bids behind it. Only bids
+   * with a square footage count, since the index is a price per sq ft.
+   */
+  async refreshMarketIndex(
+    orgId: string,
+    region: string,
+    key: string,
+    period: string
+  ): Promise<void> {
+    const { data, error } = await supabase
+      .from('competitor_bids')
+      .select('*')
+      .eq('org_id', orgId)
+      .eq('region', region)
+      .gte('bid_date', period)
+      .lt('bid_date', nextPeriod(period))
+      .not('sqft', 'is', null);
+
+    if (error) throw error;
+
+    const bids = ((data || []) as Record<string, unknown>[])
+      .map(transformCompetitorBid)
+      .filter((b) => serviceKey(b.services) === key);
+
+    if (bids.length === 0) {
+      const { error: deleteError } = await supabase
+        .from('market_price_index')
+        .delete()
+        .eq('org_id', orgId)
+        .eq('region', region)
+        .eq('service_key', key)
+        .eq('period', period);
+
+      if (deleteError) throw deleteError;
+      return;
+    }
+
+    const prices = bids.map((b) => b.price / b.sqft!).sort((a, b) => a - b);
+
+    const { error: upsertError } = await supabase.from('market_price_index').upsert(
+      {
+        org_id: orgId,
+        region,
+        service_key: key,
+        period,
+        median_price_per_sqft: quantile(prices, 0.5),
+        p25_price_per_sqft: quantile(prices, 0.25),
+        p75_price_per_sqft: quantile(prices, 0.75),
+        bid_count: bids.length,
+        competitor_count: new Set(bids.map((b) => b.competitorName.toLowerCase())).size,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'org_id,region,service_key,period' }
+    );
+
+    if (upsertError) throw upsertError;
+  },
+
+  /**
+   * Index history for a service, oldest month first; every region when none is given
+   */
+  async getMarketIndex(
+    orgId: string,
+    key: string,
+    options?: { region?: string; months?: number }
+  ): Promise<MarketIndexPoint[]> {
+    let query = supabase
+      .from('market_price_index')
+      .select('*')
+      .eq('org_id', orgId)
+      .eq('service_key', key)
+      .gte('period', monthsAgo(options?.months ?? 12))
+      .order('period', { ascending: true });
+
+    if (options?.region) {
+      query = query.eq('region', options.region);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(transformMarketIndexPoint);
+  },
+
+  /**
+   * Going price per sq ft for a service near a zip code, from the last
+   * MARKET_WINDOW_MONTHS of bids
+   */
+  async getMarketPrice(orgId: string, services: string[] | string, zip?: string): Promise<MarketPrice> {
+    const key = serviceKey(Array.isArray(services) ? services : [services]);
+    const region = zip ? regionForZip(zip) : null;
+
+    const bids = (await this.getCompetitorBids(orgId, { since: monthsAgo(MARKET_WINDOW_MONTHS) }))
+      .filter((b) => b.sqft && serviceKey(b.services) === key);
+
+    const regional = region ? bids.filter((b) => b.region === region) : [];
+    const scope = regional.length >= MIN_REGION_BIDS ? 'region' : 'all';
+    const sample = scope === 'region' ? regional : bids;
+
+    const prices = sample.map((b) => b.price / b.sqft!).sort((a, b) => a - b);
+    const history = await this.getMarketIndex(orgId, key, {
+      region: scope === 'region' ? region! : undefined,
+      months: TREND_MONTHS * 2,
+    });
+    const { trend, trendPercent } = indexTrend(history);
+
+    return {
+      serviceKey: key,
+      region,
+      scope,
+      pricePerSqft: quantile(prices, 0.5),
+      p25PricePerSqft: quantile(prices, 0.25),
+      p75PricePerSqft: quantile(prices, 0.75),
+      sampleSize: prices.length,
+      competitors: summarizeCompetitors(sample),
+      trend,
+      trendPercent,
+    };
+  },
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Bids are indexed by their exact set of services, so bundles are compared with bundles */
+export function serviceKey(services: string[]): string {
+  return Array.from(new Set(services)).sort().join('+');
+}
+
+/** Regions are 3-digit zip prefixes, roughly a metro area */
+export function regionForZip(zip: string): string {
+  return zip.trim().slice(0, 3);
+}
+
+function transformCompetitorBid(row: Record<string, unknown>): CompetitorBid {
+  return {
+    id: row.id as string,
+    orgId: row.org_id as string,
+    proposalId: row.proposal_id as string | null,
+    competitorName: row.competitor_name as string,
+    services: (row.services || []) as string[],
+    price: Number(row.price),
+    sqft: row.sqft == null ? null : Number(row.sqft),
+    zip: row.zip as string,
+    region: row.region as string,
+    source: row.source as CompetitorBidSource,
+    bidDate: row.bid_date as string,
+    notes: row.notes as string | null,
+    createdBy: row.created_by as string | null,
+    createdAt: row.created_at as string,
+  };
+}
+
+function transformMarketIndexPoint(row: Record<string, unknown>): MarketIndexPoint {
+  return {
+    region: row.region as string,
+    serviceKey: row.service_key as string,
+    period: row.period as string,
+    medianPricePerSqft: Number(row.median_price_per_sqft),
+    p25PricePerSqft: Number(row.p25_price_per_sqft),
+    p75PricePerSqft: Number(row.p75_price_per_sqft),
+    bidCount: row.bid_count as number,
+    competitorCount: row.competitor_count as number,
+  };
+}
+
+/** Linear interpolation between closest ranks; values must be sorted */
+function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const pos = (sorted.length - 1) * q;
+  const lower = Math.floor(pos);
+  const upper = Math.ceil(pos);
+  const value = sorted[lower] + (sorted[upper] - sorted[lower]) * (pos - lower);
+  return Math.round(value * 10000) / 10000;
+}
+
+function summarizeCompetitors(bids: CompetitorBid[]): CompetitorPriceSummary[] {
+  const byName = new Map<string, { name: string; prices: number[] }>();
+  for (const bid of bids) {
+    const key = bid.competitorName.toLowerCase();
+    const entry = byName.get(key) || { name: bid.competitorName, prices: [] };
+    entry.prices.push(bid.price / bid.sqft!);
+    byName.set(key, entry);
+  }
+
+  return Array.from(byName.values())
+    .map((entry) => ({
+      name: entry.name,
+      pricePerSqft: quantile(entry.prices.sort((a, b) => a - b), 0.5),
+      bidCount: entry.prices.length,
+    }))
+    .sort((a, b) => b.bidCount - a.bidCount);
+}
+
+/** Bid-weighted median of the last TREND_MONTHS months against the months before */
+function indexTrend(points: MarketIndexPoint[]): Pick<MarketPrice, 'trend' | 'trendPercent'> {
+  const cutoff = monthsAgo(TREND_MONTHS);
+  const weighted = (list: MarketIndexPoint[]) => {
+    const count = list.reduce((sum, p) => sum + p.bidCount, 0);
+    return count > 0 ? list.reduce((sum, p) => sum + p.medianPricePerSqft * p.bidCount, 0) / count : null;
+  };
+
+  const recent = weighted(points.filter((p) => p.period >= cutoff));
+  const earlier = weighted(points.filter((p) => p.period < cutoff));
+  if (recent === null || earlier === null || earlier === 0) {
+    return { trend: 'stable', trendPercent: 0 };
+  }
+
+  const trendPercent = Math.round(((recent - earlier) / earlier) * 1000) / 10;
+  return {
+    trend: trendPercent >= TREND_THRESHOLD ? 'increasing' : trendPercent <= -TREND_THRESHOLD ? 'decreasing' : 'stable',
+    trendPercent,
+  };
+}
+
+/** Month a bid date falls in, as the YYYY-MM-01 index period */
+function periodFor(date: string): string {
+  return `${date.slice(0, 7)}-01`;
+}
+
+function nextPeriod(period: string): string {
+  const [year, month] = period.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 1)).toISOString().split('T')[0];
+}
+
+/** First day of the month, the given number of months back */
+function monthsAgo(months: number): string {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - months + 1, 1)).toISOString().split('T')[0];
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+export default marketPriceService;
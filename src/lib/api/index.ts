@@ -1 +1 @@
-export * from './apiService';
+export * from './publicApiService';
@@ -5,7 +5,7 @@
 
 import { supabase } from '../supabase';
 import { entitlementsService } from '../entitlements/entitlementsService';
-import { usageService } from '../usage/usageService';
+import { usageService, type QuotaCheck } from '../usage/usageService';
 
 // ============================================================================
 // TYPES
@@ -156,21 +156,40 @@ const API_ENDPOINTS: ApiEndpoint[] = [
       properties: {
         client_id: { type: 'string', description: 'Client ID' },
         title: { type: 'string', description: 'Proposal title' },
-        items: { type: 'array', description: 'Line items' },
+        measurements: { type: 'object', description: 'Measurements (netSqft, crackLinearFeet, ...)' },
+        services: { type: 'array', description: 'Catalog service IDs priced from the measurements' },
+        items: { type: 'array', description: 'Custom line items (name, quantity, unit, unit_price)' },
+        tier: { type: 'string', description: 'economy, standard or premium' },
+        surface_condition: { type: 'string', description: 'good, fair or poor' },
+        tax_rate: { type: 'number', description: 'Tax rate as a fraction, e.g. 0.08' },
+        deposit_percent: { type: 'number', description: 'Deposit percent of the total' },
       },
     },
   },
   {
     path: '/proposals/:id',
     method: 'PUT',
-    description: 'Update a proposal',
+    description: 'Update a draft proposal, re-pricing it when a pricing input changes; other proposals only take a status change',
     requiredScopes: ['proposals:write'],
     rateLimit: 50,
+    requestBody: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', description: 'Proposal title' },
+        tier: { type: 'string', description: 'economy, standard or premium' },
+        surface_condition: { type: 'string', description: 'good, fair or poor' },
+        total_sqft: { type: 'number', description: 'Total square footage' },
+        net_sqft: { type: 'number', description: 'Square footage priced for area services' },
+        tax_rate: { type: 'number', description: 'Tax rate as a fraction, e.g. 0.08' },
+        deposit_percent: { type: 'number', description: 'Deposit percent of the total' },
+        status: { type: 'string', description: 'rejected or expired for a sent proposal, draft to reopen a rejected or expired one' },
+      },
+    },
   },
   {
     path: '/proposals/:id',
     method: 'DELETE',
-    description: 'Delete a proposal',
+    description: 'Delete a proposal that has not been sent yet',
     requiredScopes: ['proposals:write'],
     rateLimit: 20,
   },
@@ -241,6 +260,13 @@ const API_ENDPOINTS: ApiEndpoint[] = [
     requiredScopes: ['webhooks:manage'],
     rateLimit: 100,
   },
+  {
+    path: '/webhooks/events',
+    method: 'GET',
+    description: 'List webhook events and their payload schemas',
+    requiredScopes: ['webhooks:manage'],
+    rateLimit: 100,
+  },
   {
     path: '/webhooks',
     method: 'POST',
@@ -478,10 +504,12 @@ export const publicApiService = {
   // --------------------------------------------------------------------------
 
   /**
-   * Log API request
+   * Log API request. Pass the request's quota check so the call is metered
+   * against it; calls refused for quota are logged but not counted.
    */
   async logRequest(
-    request: Omit<ApiRequest, 'id' | 'createdAt'>
+    request: Omit<ApiRequest, 'id' | 'createdAt'>,
+    quota?: QuotaCheck
   ): Promise<void> {
     await supabase.from('api_requests').insert({
       org_id: request.orgId,
@@ -498,7 +526,12 @@ export const publicApiService = {
     });
 
     // Track API usage
-    await usageService.trackUsage(request.orgId, 'api_calls', 1);
+    const metadata = { endpoint: request.endpoint, method: request.method };
+    if (!quota) {
+      await usageService.trackEvent(request.orgId, 'api_call', { metadata });
+    } else if (quota.allowed) {
+      await usageService.recordMeteredUsage(request.orgId, quota, 1, { metadata });
+    }
   },
 
   /**
@@ -637,6 +670,42 @@ export const publicApiService = {
     return API_ENDPOINTS;
   },
 
+  /**
+   * Match a request path (without the /v1 prefix) to a documented endpoint.
+   * Returns null when no endpoint has the path; `methodAllowed` is false when
+   * the path exists but not for this method.
+   */
+  matchEndpoint(
+    method: string,
+    path: string
+  ): { endpoint: ApiEndpoint | null; params: Record<string, string>; methodAllowed: boolean } | null {
+    const segments = path.replace(/\/+$/, '').split('/').filter(Boolean);
+    let pathMatched = false;
+
+    for (const endpoint of API_ENDPOINTS) {
+      const pattern = endpoint.path.split('/').filter(Boolean);
+      if (pattern.length !== segments.length) continue;
+
+      const params: Record<string, string> = {};
+      const matches = pattern.every((part, i) => {
+        if (part.startsWith(':')) {
+          params[part.slice(1)] = decodeURIComponent(segments[i]);
+          return true;
+        }
+        return part === segments[i];
+      });
+
+      if (!matches) continue;
+      pathMatched = true;
+
+      if (endpoint.method === method.toUpperCase()) {
+        return { endpoint, params, methodAllowed: true };
+      }
+    }
+
+    return pathMatched ? { endpoint: null, params: {}, methodAllowed: false } : null;
+  },
+
   /**
    * Get OpenAPI spec
    */
@@ -706,6 +775,7 @@ export const publicApiService = {
           200: { description: 'Successful response' },
           400: { description: 'Bad request' },
           401: { description: 'Unauthorized' },
+          402: { description: 'Plan quota exceeded' },
           403: { description: 'Forbidden' },
           404: { description: 'Not found' },
           429: { description: 'Rate limit exceeded' },
@@ -810,10 +880,10 @@ export const publicApiService = {
   /**
    * Format error response
    */
-  formatError(code: string, message: string): ApiResponse {
+  formatError(code: string, message: string, details?: unknown): ApiResponse {
     return {
       success: false,
-      error: { code, message },
+      error: details === undefined ? { code, message } : { code, message, details },
     };
   },
 };
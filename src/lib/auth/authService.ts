@@ -279,3 +279,13 @@ export async function acceptInvitation(token: string, password: string) {
 
   return authData;
 }
+
+/**
+ * Authorization header for calls to the worker API, carrying the signed-in
+ * user's Clerk session token. Empty when no one is signed in.
+ */
+export async function getApiAuthHeaders(): Promise<Record<string, string>> {
+  const clerk = (window as { Clerk?: { session?: { getToken(): Promise<string | null> } | null } }).Clerk;
+  const token = await clerk?.session?.getToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
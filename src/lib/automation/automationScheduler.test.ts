@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { runDueScheduledActions } from './automationScheduler';
+import { automationService, type AutomationRule } from './automationService';
+import { claimRows, releaseClaimedRow } from '../queue/claimedRows';
+import { usageService, type QuotaCheck } from '../usage/usageService';
+import { setEmailSender, type EmailSender } from '../email/transactionalEmail';
+
+// Every query resolves empty; the claim and release calls are checked instead
+vi.mock('../supabase', () => {
+  const query: object = new Proxy({}, {
+    get: (_target, prop) =>
+      prop === 'then'
+        ? (resolve: (value: unknown) => void) => resolve({ data: null, error: null })
+        : () => query,
+  });
+  return { supabase: { from: () => query, rpc: async () => ({ data: null, error: null }) } };
+});
+
+vi.mock('../queue/claimedRows', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../queue/claimedRows')>()),
+  claimRows: vi.fn(),
+  releaseClaimedRow: vi.fn(),
+}));
+
+const rule = { id: 'rule-1', orgId: 'org-1', isActive: true } as AutomationRule;
+
+function scheduledEmailRow(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: 'scheduled-1',
+    org_id: 'org-1',
+    rule_id: 'rule-1',
+    action: {
+      type: 'send_reminder',
+      config: { to: '{{email}}', subject: 'Proposal {{proposal_number}}' },
+      delay: 3 * 24 * 60,
+    },
+    event: {
+      type: 'proposal_sent',
+      orgId: 'org-1',
+      entityId: 'proposal-1',
+      entityType: 'proposal',
+      data: { email: 'client@example.com', proposal_number: 'P-1001' },
+      timestamp: '2026-01-01T00:00:00.000Z',
+    },
+    status: 'processing',
+    attempts: 1,
+    max_attempts: 5,
+    execute_at: '2026-01-04T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('runDueScheduledActions', () => {
+  let send: ReturnType<typeof vi.fn<Parameters<EmailSender>, ReturnType<EmailSender>>>;
+
+  beforeEach(() => {
+    send = vi.fn<Parameters<EmailSender>, ReturnType<EmailSender>>().mockResolvedValue(undefined);
+    setEmailSender(send);
+    vi.spyOn(automationService, 'getRule').mockResolvedValue(rule);
+    vi.spyOn(usageService, 'meter').mockImplementation(async (_orgId, _action, run) => run({ allowed: true } as QuotaCheck));
+  });
+
+  afterEach(() => {
+    setEmailSender(null);
+    vi.restoreAllMocks();
+    vi.mocked(claimRows).mockReset();
+    vi.mocked(releaseClaimedRow).mockReset();
+  });
+
+  it('sends a delayed reminder through the email sender and completes it', async () => {
+    vi.mocked(claimRows).mockResolvedValue([scheduledEmailRow()]);
+
+    const summary = await runDueScheduledActions('worker-1');
+
+    expect(summary).toMatchObject({ claimed: 1, completed: 1, retried: 0, failed: 0 });
+    expect(send).toHaveBeenCalledTimes(1);
+    const email = send.mock.calls[0][0];
+    expect(email.to).toBe('client@example.com');
+    expect(email.subject).toBe('Proposal P-1001');
+    expect(email.html).toContain('Just a reminder about proposal P-1001');
+    expect(releaseClaimedRow).toHaveBeenCalledWith(
+      'scheduled_actions',
+      'scheduled-1',
+      'worker-1',
+      expect.objectContaining({ status: 'completed' })
+    );
+  });
+
+  it('retries the action when the email provider rejects it', async () => {
+    vi.mocked(claimRows).mockResolvedValue([scheduledEmailRow()]);
+    send.mockRejectedValue(new Error('Resend rejected the email: 500'));
+
+    const summary = await runDueScheduledActions('worker-1');
+
+    expect(summary).toMatchObject({ claimed: 1, completed: 0, retried: 1 });
+    expect(releaseClaimedRow).toHaveBeenCalledWith(
+      'scheduled_actions',
+      'scheduled-1',
+      'worker-1',
+      expect.objectContaining({ status: 'pending', last_error: 'Resend rejected the email: 500' })
+    );
+  });
+
+  it('escapes record values in the message', async () => {
+    vi.mocked(claimRows).mockResolvedValue([
+      scheduledEmailRow({
+        action: { type: 'send_email', config: { to: '{{email}}', subject: 'Hi', message: 'Re: {{title}}' } },
+        event: {
+          type: 'proposal_sent',
+          orgId: 'org-1',
+          entityId: 'proposal-1',
+          data: { email: 'client@example.com', title: '<b>Lot</b>' },
+          timestamp: '2026-01-01T00:00:00.000Z',
+        },
+      }),
+    ]);
+
+    await runDueScheduledActions('worker-1');
+
+    expect(send.mock.calls[0][0].html).toContain('Re: &lt;b&gt;Lot&lt;/b&gt;');
+  });
+});
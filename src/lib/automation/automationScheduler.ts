@@ -0,0 +1,461 @@
+/**
+ * Sommer's Proposal System - Automation Scheduler
+ * Runs delayed actions queued in scheduled_actions, resumes waiting
+ * workflow runs and fires the time_elapsed and scheduled triggers. Driven
+ * by the worker cron.
+ *
+ * Delayed actions and workflow runs are claimed-row queues (see
+ * queue/claimedRows), so an action that succeeds just as its lock expires
+ * can run twice.
+ */
+
+import { supabase } from '../supabase';
+import {
+  claimRows,
+  getBackoffMinutes,
+  hasExhaustedAttempts,
+  releaseClaimedRow,
+  runClaimedRows,
+} from '../queue/claimedRows';
+import {
+  ACTION_RETRY_BACKOFF,
+  automationService,
+  cronMatches,
+  DEFAULT_MAX_ATTEMPTS,
+  getTimeElapsedDelayMinutes,
+  parseCronExpression,
+  transformRule,
+  transformScheduledAction,
+  transformWorkflowRun,
+  TIME_ELAPSED_SOURCES,
+  type AutomationExecution,
+  type AutomationRule,
+  type ExecutedAction,
+  type ScheduledAction,
+  type TriggerEvent,
+  type WorkflowRun,
+} from './automationService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ScheduledActionRunSummary {
+  claimed: number;
+  completed: number;
+  retried: number;
+  failed: number;
+  cancelled: number;
+}
+
+export interface TimeTriggerRunSummary {
+  rulesChecked: number;
+  fired: number;
+}
+
+export interface WorkflowRunSummary {
+  claimed: number;
+  completed: number;
+  exited: number;
+  waiting: number;
+  failed: number;
+  cancelled: number;
+}
+
+type ScheduledActionOutcome = Exclude<keyof ScheduledActionRunSummary, 'claimed'>;
+
+/** How a claimed time trigger firing ended; 'retry' gave its claim back */
+type TimeTriggerOutcome = 'fired' | 'skipped' | 'retry';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CLAIM_BATCH_SIZE = 50;
+
+/** A 'running' row older than this belongs to a worker that died */
+const LOCK_TIMEOUT_MINUTES = 10;
+
+/** Missed cron occurrences older than this are not made up after an outage */
+const SCHEDULE_LOOKBACK_MINUTES = 24 * 60;
+
+/** Records read per time_elapsed rule per run; the watermark carries the rest over */
+const TIME_ELAPSED_BATCH_SIZE = 200;
+
+// ============================================================================
+// DELAYED ACTIONS
+// ============================================================================
+
+/**
+ * Claim one batch of due actions and run them. Returns how each one ended.
+ */
+export async function runDueScheduledActions(
+  workerId: string,
+  limit: number = CLAIM_BATCH_SIZE
+): Promise<ScheduledActionRunSummary> {
+  const rows = await claimRows('claim_scheduled_actions', workerId, limit, LOCK_TIMEOUT_MINUTES);
+  const claimed = rows.map(transformScheduledAction);
+  const summary: ScheduledActionRunSummary = { claimed: claimed.length, completed: 0, retried: 0, failed: 0, cancelled: 0 };
+  const rules = new Map<string, AutomationRule | null>();
+
+  await runClaimedRows(claimed, summary, 'Scheduled action', (scheduled) =>
+    runScheduledAction(scheduled, workerId, rules)
+  );
+
+  return summary;
+}
+
+async function runScheduledAction(
+  scheduled: ScheduledAction,
+  workerId: string,
+  rules: Map<string, AutomationRule | null>
+): Promise<ScheduledActionOutcome> {
+  if (!rules.has(scheduled.ruleId)) {
+    rules.set(scheduled.ruleId, await automationService.getRule(scheduled.ruleId));
+  }
+  const rule = rules.get(scheduled.ruleId);
+
+  if (!rule || !rule.isActive) {
+    await releaseClaimedRow('scheduled_actions', scheduled.id, workerId, {
+      status: 'cancelled',
+      last_error: 'Rule was turned off before the action ran',
+      completed_at: new Date().toISOString(),
+    });
+    return 'cancelled';
+  }
+
+  if (hasExhaustedAttempts(scheduled.attempts, scheduled.maxAttempts)) {
+    return failScheduledAction(scheduled, workerId, scheduled.lastError || 'Worker stopped before the action finished');
+  }
+
+  try {
+    const result = await automationService.executeAction(scheduled.action, scheduled.event);
+    await releaseClaimedRow('scheduled_actions', scheduled.id, workerId, {
+      status: 'completed',
+      result,
+      last_error: null,
+      completed_at: new Date().toISOString(),
+    });
+    await logScheduledExecution(scheduled, { type: scheduled.action.type, success: true, result }, null);
+    return 'completed';
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+
+    if (scheduled.attempts < scheduled.maxAttempts) {
+      const retryAt = new Date(Date.now() + getBackoffMinutes(scheduled.attempts, ACTION_RETRY_BACKOFF) * 60 * 1000);
+      await releaseClaimedRow('scheduled_actions', scheduled.id, workerId, {
+        status: 'pending',
+        execute_at: retryAt.toISOString(),
+        last_error: message,
+      });
+      return 'retried';
+    }
+
+    return failScheduledAction(scheduled, workerId, message);
+  }
+}
+
+async function failScheduledAction(
+  scheduled: ScheduledAction,
+  workerId: string,
+  message: string
+): Promise<ScheduledActionOutcome> {
+  await releaseClaimedRow('scheduled_actions', scheduled.id, workerId, {
+    status: 'failed',
+    last_error: message,
+    completed_at: new Date().toISOString(),
+  });
+  await logScheduledExecution(scheduled, { type: scheduled.action.type, success: false, error: message }, message);
+  return 'failed';
+}
+
+async function logScheduledExecution(
+  scheduled: ScheduledAction,
+  executed: ExecutedAction,
+  errorMessage: string | null
+): Promise<void> {
+  const { error } = await supabase.from('automation_executions').insert({
+    rule_id: scheduled.ruleId,
+    trigger_event: { ...scheduled.event, scheduledActionId: scheduled.id, attempts: scheduled.attempts },
+    actions_executed: [executed],
+    status: executed.success ? 'completed' : 'failed',
+    error_message: errorMessage,
+  });
+
+  if (error) throw error;
+}
+
+// ============================================================================
+// WORKFLOW RUNS
+// ============================================================================
+
+/**
+ * Claim one batch of workflow runs whose wait or retry is due and advance
+ * each until it ends or waits again.
+ */
+export async function runDueWorkflowRuns(
+  workerId: string,
+  limit: number = CLAIM_BATCH_SIZE
+): Promise<WorkflowRunSummary> {
+  const rows = await claimRows('claim_workflow_runs', workerId, limit, LOCK_TIMEOUT_MINUTES);
+  const claimed = rows.map(transformWorkflowRun);
+  const summary: WorkflowRunSummary = { claimed: claimed.length, completed: 0, exited: 0, waiting: 0, failed: 0, cancelled: 0 };
+  const rules = new Map<string, AutomationRule | null>();
+
+  for (const run of claimed) {
+    try {
+      if (!rules.has(run.ruleId)) {
+        rules.set(run.ruleId, await automationService.getRule(run.ruleId));
+      }
+      const rule = rules.get(run.ruleId);
+
+      if (!rule || !rule.isActive) {
+        await automationService.releaseWorkflowRun(run, workerId, {
+          ...run,
+          status: 'cancelled',
+          resumeAt: null,
+          lastError: 'Rule was turned off while the workflow was running',
+        });
+        summary.cancelled++;
+        continue;
+      }
+
+      // Reclaiming a run from a dead worker counts a try, so a step that keeps killing it still runs out
+      if (run.stepAttempts >= DEFAULT_MAX_ATTEMPTS) {
+        await automationService.releaseWorkflowRun(run, workerId, {
+          ...run,
+          status: 'failed',
+          resumeAt: null,
+          lastError: run.lastError || 'Worker stopped before the step finished',
+        });
+        summary.failed++;
+        continue;
+      }
+
+      const advanced = await automationService.resumeWorkflowRun(rule, run, workerId);
+      if (advanced.status !== 'running') summary[advanced.status]++;
+    } catch (err) {
+      // The lock expires and the run is picked up again
+      console.error(`Workflow run ${run.id} could not be advanced:`, err);
+    }
+  }
+
+  return summary;
+}
+
+// ============================================================================
+// TIME-BASED TRIGGERS
+// ============================================================================
+
+/**
+ * Fire every active time_elapsed and scheduled rule that has come due.
+ * One rule failing does not stop the others.
+ */
+export async function runTimeTriggers(now: Date = new Date()): Promise<TimeTriggerRunSummary> {
+  const { data, error } = await supabase
+    .from('automation_rules')
+    .select('*')
+    .eq('is_active', true)
+    .in('trigger_type', ['time_elapsed', 'scheduled']);
+
+  if (error) throw error;
+
+  const summary: TimeTriggerRunSummary = { rulesChecked: 0, fired: 0 };
+
+  for (const row of data || []) {
+    const rule = transformRule(row);
+    summary.rulesChecked++;
+
+    try {
+      summary.fired += rule.triggerType === 'time_elapsed'
+        ? await fireTimeElapsedRule(rule, now)
+        : await fireScheduledRule(rule, now);
+    } catch (err) {
+      console.error(`Time trigger for rule ${rule.id} failed:`, err);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Fire once for each record whose event happened at least the configured
+ * delay ago, e.g. "3 days after sent". Records whose delay ran out before
+ * the rule existed are not back-filled. A record the rule is throttled on,
+ * or whose run throws, is left unfired and picked up again next time.
+ */
+async function fireTimeElapsedRule(rule: AutomationRule, now: Date): Promise<number> {
+  const source = TIME_ELAPSED_SOURCES[rule.triggerConfig.event as string];
+  const delayMinutes = getTimeElapsedDelayMinutes(rule.triggerConfig);
+  if (!source || delayMinutes <= 0) return 0;
+  // Leave the watermark where it is so nothing in the meantime is skipped
+  if (automationService.isRuleThrottled(rule, now)) return 0;
+
+  const delayMs = delayMinutes * 60 * 1000;
+  const cutoff = new Date(now.getTime() - delayMs).toISOString();
+  const floor = new Date(Math.max(
+    new Date(rule.createdAt).getTime() - delayMs,
+    rule.triggerWatermark ? new Date(rule.triggerWatermark).getTime() : 0
+  )).toISOString();
+
+  const { data, error } = await supabase
+    .from(source.table)
+    .select('*')
+    .eq('org_id', rule.orgId)
+    .gte(source.column, floor)
+    .lte(source.column, cutoff)
+    .order(source.column, { ascending: true })
+    .limit(TIME_ELAPSED_BATCH_SIZE);
+
+  if (error) throw error;
+
+  const records = (data || []) as unknown as Record<string, unknown>[];
+  let fired = 0;
+  // A full batch may have more behind it at the same timestamps, so resume from the last one read
+  let watermark = records.length === TIME_ELAPSED_BATCH_SIZE
+    ? (records[records.length - 1][source.column] as string)
+    : cutoff;
+
+  if (records.length > 0) {
+    const { data: runs, error: runsError } = await supabase
+      .from('automation_trigger_runs')
+      .select('entity_id')
+      .eq('rule_id', rule.id)
+      .eq('fire_key', 'once')
+      .in('entity_id', records.map((record) => record.id as string));
+
+    if (runsError) throw runsError;
+    const alreadyFired = new Set(((runs || []) as { entity_id: string }[]).map((run) => run.entity_id));
+
+    for (const record of records) {
+      const entityId = record.id as string;
+      if (alreadyFired.has(entityId)) continue;
+
+      // The last run started a cooldown or used up the rule's executions
+      if (automationService.isRuleThrottled(rule, now)) {
+        watermark = record[source.column] as string;
+        break;
+      }
+
+      if (!(await claimTriggerFiring(rule, entityId, 'once'))) continue;
+
+      const event: TriggerEvent = {
+        type: 'time_elapsed',
+        orgId: rule.orgId,
+        entityId,
+        entityType: source.entityType,
+        data: record,
+        timestamp: now.toISOString(),
+      };
+      const outcome = await runClaimedTimeRule(rule, event, now, 'once');
+      if (outcome === 'fired') fired++;
+      if (outcome === 'retry') {
+        watermark = record[source.column] as string;
+        break;
+      }
+    }
+  }
+
+  await setTriggerWatermark(rule.id, watermark);
+
+  return fired;
+}
+
+/**
+ * Fire a cron-scheduled rule at most once per occurrence. Occurrences
+ * missed while the cron was down collapse into one firing.
+ */
+async function fireScheduledRule(rule: AutomationRule, now: Date): Promise<number> {
+  const schedule = parseCronExpression(String(rule.triggerConfig.cron || ''));
+
+  const lookback = now.getTime() - SCHEDULE_LOOKBACK_MINUTES * 60 * 1000;
+  const since = Math.max(new Date(rule.triggerWatermark || rule.createdAt).getTime(), lookback);
+
+  let occurrence: Date | null = null;
+  for (let minute = Math.floor(now.getTime() / 60000) * 60000; minute > since; minute -= 60000) {
+    if (cronMatches(schedule, new Date(minute))) {
+      occurrence = new Date(minute);
+      break;
+    }
+  }
+  // A throttled occurrence stays ahead of the watermark and fires once the rule is free
+  if (!occurrence || automationService.isRuleThrottled(rule, now)) return 0;
+  if (!(await claimTriggerFiring(rule, rule.orgId, occurrence.toISOString()))) return 0;
+
+  const event: TriggerEvent = {
+    type: 'scheduled',
+    orgId: rule.orgId,
+    entityId: rule.orgId,
+    entityType: 'organization',
+    data: { scheduledFor: occurrence.toISOString(), cron: rule.triggerConfig.cron },
+    timestamp: now.toISOString(),
+  };
+  const outcome = await runClaimedTimeRule(rule, event, now, occurrence.toISOString());
+  if (outcome !== 'retry') await setTriggerWatermark(rule.id, occurrence.toISOString());
+  return outcome === 'fired' ? 1 : 0;
+}
+
+/**
+ * Run the rule for a firing already claimed, and keep the in-memory copy's
+ * counters in step for the next record. A run that throws or is throttled
+ * gives its claim back so the firing is retried; one whose conditions don't
+ * match keeps it.
+ */
+async function runClaimedTimeRule(
+  rule: AutomationRule,
+  event: TriggerEvent,
+  now: Date,
+  fireKey: string
+): Promise<TimeTriggerOutcome> {
+  let execution: AutomationExecution | null;
+  try {
+    execution = await automationService.runRule(rule, event);
+  } catch (err) {
+    await releaseTriggerFiring(rule.id, event.entityId, fireKey);
+    throw err;
+  }
+  if (!execution) {
+    if (!automationService.isRuleThrottled(rule)) return 'skipped';
+    // Throttled after all (the clock moved on since the check): try again later
+    await releaseTriggerFiring(rule.id, event.entityId, fireKey);
+    return 'retry';
+  }
+
+  rule.executionCount++;
+  rule.lastExecutedAt = now.toISOString();
+  return 'fired';
+}
+
+/** Record a firing; false when another run already fired it */
+async function claimTriggerFiring(rule: AutomationRule, entityId: string, fireKey: string): Promise<boolean> {
+  const { error } = await supabase.from('automation_trigger_runs').insert({
+    org_id: rule.orgId,
+    rule_id: rule.id,
+    entity_id: entityId,
+    fire_key: fireKey,
+  });
+
+  if (error?.code === '23505') return false; // unique violation
+  if (error) throw error;
+  return true;
+}
+
+async function releaseTriggerFiring(ruleId: string, entityId: string, fireKey: string): Promise<void> {
+  const { error } = await supabase
+    .from('automation_trigger_runs')
+    .delete()
+    .eq('rule_id', ruleId)
+    .eq('entity_id', entityId)
+    .eq('fire_key', fireKey);
+
+  if (error) throw error;
+}
+
+async function setTriggerWatermark(ruleId: string, watermark: string): Promise<void> {
+  const { error } = await supabase
+    .from('automation_rules')
+    .update({ trigger_watermark: watermark })
+    .eq('id', ruleId);
+
+  if (error) throw error;
+}
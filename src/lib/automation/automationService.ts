@@ -5,6 +5,20 @@
 
 import { supabase } from '../supabase';
 import { entitlementsService } from '../entitlements/entitlementsService';
+import { usageService } from '../usage/usageService';
+import { sendTransactionalEmail } from '../email/transactionalEmail';
+import { getBackoffMinutes, releaseClaimedRow, type BackoffPolicy } from '../queue/claimedRows';
+import {
+  advanceWorkflow,
+  evaluateConditionGroup,
+  initialWorkflowState,
+  simulateWorkflow,
+  validateWorkflow,
+  type AutomationWorkflow,
+  type ConditionNode,
+  type WorkflowRunStatus,
+  type WorkflowState,
+} from './workflowEngine';
 
 // ============================================================================
 // TYPES
@@ -18,12 +32,17 @@ export interface AutomationRule {
   isActive: boolean;
   triggerType: TriggerType;
   triggerConfig: Record<string, unknown>;
-  conditions: AutomationCondition[];
+  /** All must hold; groups nest AND/OR logic */
+  conditions: ConditionNode[];
   actions: AutomationAction[];
+  /** Runs instead of actions when set */
+  workflow: AutomationWorkflow | null;
   maxExecutions: number | null;
   executionCount: number;
   cooldownMinutes: number;
   lastExecutedAt: string | null;
+  /** How far the scheduler has scanned for time_elapsed and scheduled rules */
+  triggerWatermark: string | null;
   createdBy: string | null;
   createdAt: string;
   updatedAt: string;
@@ -44,7 +63,16 @@ export type TriggerType =
 
 export interface AutomationCondition {
   field: string;
-  operator: 'equals' | 'not_equals' | 'contains' | 'greater_than' | 'less_than' | 'in' | 'not_in';
+  operator:
+    | 'equals'
+    | 'not_equals'
+    | 'contains'
+    | 'greater_than'
+    | 'less_than'
+    | 'in'
+    | 'not_in'
+    | 'is_set'
+    | 'is_not_set';
   value: unknown;
 }
 
@@ -91,6 +119,30 @@ export interface ExecutedAction {
   success: boolean;
   result?: Record<string, unknown>;
   error?: string;
+  /** Position in the rule's actions; set on a flat replay's entries, which skip the ones that succeeded */
+  actionIndex?: number;
+}
+
+/** What an action would do for an event, worked out without doing it */
+export interface PlannedAction {
+  type: ActionType;
+  channel: 'email' | 'sms' | 'task' | 'record' | 'webhook' | 'slack';
+  summary: string;
+  to?: string;
+  subject?: string;
+  body?: string;
+  /** Set when the action would be queued rather than run straight away */
+  delayMinutes?: number;
+  /** Problems that would make the real action fail or misfire */
+  warnings: string[];
+}
+
+export interface ReplayResult {
+  executionId: string;
+  actionsExecuted: ExecutedAction[];
+  status: AutomationExecution['status'];
+  /** Set when a failed workflow run was picked up again instead */
+  workflowRunId?: string;
 }
 
 export interface AutomationTemplate {
@@ -108,11 +160,69 @@ export interface TriggerEvent {
   type: TriggerType;
   orgId: string;
   entityId: string;
-  entityType: 'proposal' | 'client' | 'payment';
+  /** 'organization' for scheduled triggers, which are not about one record */
+  entityType: 'proposal' | 'client' | 'payment' | 'organization';
   data: Record<string, unknown>;
   timestamp: string;
 }
 
+export type ScheduledActionStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ScheduledAction {
+  id: string;
+  orgId: string;
+  ruleId: string;
+  action: AutomationAction;
+  event: TriggerEvent;
+  executeAt: string;
+  status: ScheduledActionStatus;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  result: Record<string, unknown> | null;
+  lockedBy: string | null;
+  lockedAt: string | null;
+  completedAt: string | null;
+  createdAt: string;
+}
+
+export interface WorkflowRun extends WorkflowState {
+  id: string;
+  orgId: string;
+  ruleId: string;
+  entityId: string;
+  event: TriggerEvent;
+  lockedBy: string | null;
+  lockedAt: string | null;
+  startedAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+/** Event time that a time_elapsed rule counts from, per source event */
+export const TIME_ELAPSED_SOURCES: Record<string, { table: 'proposals' | 'clients'; column: string; entityType: 'proposal' | 'client' }> = {
+  proposal_created: { table: 'proposals', column: 'created_at', entityType: 'proposal' },
+  proposal_sent: { table: 'proposals', column: 'sent_at', entityType: 'proposal' },
+  proposal_viewed: { table: 'proposals', column: 'viewed_at', entityType: 'proposal' },
+  proposal_signed: { table: 'proposals', column: 'signed_at', entityType: 'proposal' },
+  proposal_expired: { table: 'proposals', column: 'valid_until', entityType: 'proposal' },
+  client_created: { table: 'clients', column: 'created_at', entityType: 'client' },
+};
+
+/** Delayed actions are retried this many times by default before giving up */
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+/** A replay lock older than this belongs to a replay that died */
+const REPLAY_LOCK_TIMEOUT_MINUTES = 10;
+
+/** Failed actions and workflow steps wait 5, 10, 20, 40 minutes ... capped at six hours */
+export const ACTION_RETRY_BACKOFF: BackoffPolicy = { baseMinutes: 5, maxMinutes: 6 * 60 };
+
+/** Message sent by an email action that names a template but has no message of its own */
+const DEFAULT_EMAIL_MESSAGES: Record<string, string> = {
+  reminder: 'Hello,\n\nJust a reminder about proposal {{proposal_number}}. If you have any questions, reply to this email and we will be glad to help.',
+};
+
 // ============================================================================
 // AUTOMATION SERVICE
 // ============================================================================
@@ -171,10 +281,13 @@ export const automationService = {
       description?: string;
       triggerType: TriggerType;
       triggerConfig?: Record<string, unknown>;
-      conditions?: AutomationCondition[];
+      conditions?: ConditionNode[];
       actions: AutomationAction[];
+      workflow?: AutomationWorkflow | null;
       maxExecutions?: number;
       cooldownMinutes?: number;
+      /** Create the rule paused, to dry-run it before turning it on */
+      isActive?: boolean;
       createdBy?: string;
     }
   ): Promise<AutomationRule> {
@@ -184,17 +297,21 @@ export const automationService = {
       throw new Error('Automation requires Business plan or higher');
     }
 
+    validateTriggerConfig(rule.triggerType, rule.triggerConfig || {});
+    if (rule.workflow) validateWorkflow(rule.workflow);
+
     const { data, error } = await supabase
       .from('automation_rules')
       .insert({
         org_id: orgId,
         name: rule.name,
         description: rule.description,
-        is_active: true,
+        is_active: rule.isActive ?? true,
         trigger_type: rule.triggerType,
         trigger_config: rule.triggerConfig || {},
         conditions: rule.conditions || [],
         actions: rule.actions,
+        workflow: rule.workflow || null,
         max_executions: rule.maxExecutions,
         cooldown_minutes: rule.cooldownMinutes || 0,
         created_by: rule.createdBy,
@@ -213,6 +330,13 @@ export const automationService = {
     ruleId: string,
     updates: Partial<AutomationRule>
   ): Promise<AutomationRule> {
+    if (updates.triggerType || updates.triggerConfig) {
+      const current = await this.getRule(ruleId);
+      if (!current) throw new Error('Rule not found');
+      validateTriggerConfig(updates.triggerType || current.triggerType, updates.triggerConfig || current.triggerConfig);
+    }
+    if (updates.workflow) validateWorkflow(updates.workflow);
+
     const { data, error } = await supabase
       .from('automation_rules')
       .update({
@@ -223,6 +347,7 @@ export const automationService = {
         trigger_config: updates.triggerConfig,
         conditions: updates.conditions,
         actions: updates.actions,
+        workflow: updates.workflow,
         max_executions: updates.maxExecutions,
         cooldown_minutes: updates.cooldownMinutes,
         updated_at: new Date().toISOString(),
@@ -267,6 +392,8 @@ export const automationService = {
    * Process a trigger event
    */
   async processTrigger(event: TriggerEvent): Promise<AutomationExecution[]> {
+    await this.wakeWorkflowRuns(event);
+
     // Get all active rules that match this trigger
     const { data: rules, error } = await supabase
       .from('automation_rules')
@@ -281,66 +408,64 @@ export const automationService = {
     const executions: AutomationExecution[] = [];
 
     for (const ruleRow of rules) {
-      const rule = transformRule(ruleRow);
+      const execution = await this.runRule(transformRule(ruleRow), event);
+      if (execution) executions.push(execution);
+    }
 
-      // Check max executions
-      if (rule.maxExecutions && rule.executionCount >= rule.maxExecutions) {
-        continue;
-      }
+    return executions;
+  },
 
-      // Check cooldown
-      if (rule.lastExecutedAt && rule.cooldownMinutes > 0) {
-        const lastExec = new Date(rule.lastExecutedAt);
-        const cooldownEnd = new Date(lastExec.getTime() + rule.cooldownMinutes * 60 * 1000);
-        if (new Date() < cooldownEnd) {
-          continue;
-        }
-      }
+  /**
+   * Run one rule for an event if its limits, cooldown and conditions allow.
+   * Returns null when the rule was skipped.
+   */
+  async runRule(
+    rule: AutomationRule,
+    event: TriggerEvent
+  ): Promise<AutomationExecution | null> {
+    if (this.isRuleThrottled(rule)) {
+      return null;
+    }
 
-      // Evaluate conditions
-      if (!this.evaluateConditions(rule.conditions, event.data)) {
-        continue;
-      }
+    // Evaluate conditions
+    if (!this.evaluateConditions(rule.conditions, event.data)) {
+      return null;
+    }
 
-      // Execute actions
-      const execution = await this.executeRule(rule, event);
-      executions.push(execution);
+    // Execute actions
+    return this.executeRule(rule, event);
+  },
+
+  /**
+   * Whether the rule may not run right now: it has hit its execution cap or
+   * is still cooling down from its last run
+   */
+  isRuleThrottled(rule: AutomationRule, now: Date = new Date()): boolean {
+    // Check max executions
+    if (rule.maxExecutions && rule.executionCount >= rule.maxExecutions) {
+      return true;
     }
 
-    return executions;
+    // Check cooldown
+    if (rule.lastExecutedAt && rule.cooldownMinutes > 0) {
+      const lastExec = new Date(rule.lastExecutedAt);
+      const cooldownEnd = new Date(lastExec.getTime() + rule.cooldownMinutes * 60 * 1000);
+      if (now < cooldownEnd) {
+        return true;
+      }
+    }
+
+    return false;
   },
 
   /**
    * Evaluate conditions against event data
    */
   evaluateConditions(
-    conditions: AutomationCondition[],
+    conditions: ConditionNode[],
     data: Record<string, unknown>
   ): boolean {
-    if (conditions.length === 0) return true;
-
-    return conditions.every((condition) => {
-      const fieldValue = getNestedValue(data, condition.field);
-
-      switch (condition.operator) {
-        case 'equals':
-          return fieldValue === condition.value;
-        case 'not_equals':
-          return fieldValue !== condition.value;
-        case 'contains':
-          return String(fieldValue).includes(String(condition.value));
-        case 'greater_than':
-          return Number(fieldValue) > Number(condition.value);
-        case 'less_than':
-          return Number(fieldValue) < Number(condition.value);
-        case 'in':
-          return Array.isArray(condition.value) && condition.value.includes(fieldValue);
-        case 'not_in':
-          return Array.isArray(condition.value) && !condition.value.includes(fieldValue);
-        default:
-          return false;
-      }
-    });
+    return evaluateConditionGroup({ logic: 'and', conditions }, data);
   },
 
   /**
@@ -350,15 +475,15 @@ export const automationService = {
     rule: AutomationRule,
     event: TriggerEvent
   ): Promise<AutomationExecution> {
+    if (rule.workflow) return this.startWorkflow(rule, rule.workflow, event);
+
     const executedActions: ExecutedAction[] = [];
     let overallStatus: 'completed' | 'failed' | 'partial' = 'completed';
     let errorMessage: string | null = null;
 
     for (const action of rule.actions) {
-      // Handle delay
+      // Delayed actions are queued and run by the scheduler cron
       if (action.delay && action.delay > 0) {
-        // In production, this would be queued for delayed execution
-        // For now, we'll schedule it
         await this.scheduleDelayedAction(rule.id, action, event, action.delay);
         executedActions.push({
           type: action.type,
@@ -392,14 +517,27 @@ export const automationService = {
       overallStatus = 'failed';
     }
 
+    return this.recordExecution(rule, event, executedActions, overallStatus, errorMessage);
+  },
+
+  /**
+   * Log a rule run and bump the rule's execution count
+   */
+  async recordExecution(
+    rule: AutomationRule,
+    triggerEvent: TriggerEvent | Record<string, unknown>,
+    executedActions: ExecutedAction[],
+    status: AutomationExecution['status'],
+    errorMessage: string | null
+  ): Promise<AutomationExecution> {
     // Log execution
     const { data: execData } = await supabase
       .from('automation_executions')
       .insert({
         rule_id: rule.id,
-        trigger_event: event,
+        trigger_event: triggerEvent,
         actions_executed: executedActions,
-        status: overallStatus,
+        status,
         error_message: errorMessage,
       })
       .select()
@@ -458,19 +596,20 @@ export const automationService = {
     config: Record<string, unknown>,
     event: TriggerEvent
   ): Promise<Record<string, unknown>> {
-    // Import email service dynamically to avoid circular dependency
-    const { emailService } = await import('../email/emailService');
-    
-    const to = resolveTemplate(config.to as string, event.data);
-    const subject = resolveTemplate(config.subject as string, event.data);
-    const templateId = config.template_id as string;
-
-    await emailService.send({
-      to,
-      subject,
-      templateId,
-      data: event.data,
-    });
+    const to = resolveTemplate(String(config.to ?? ''), event.data);
+    const subject = resolveTemplate(String(config.subject ?? ''), event.data);
+    const templateId = (config.template_id as string) || undefined;
+    const message = resolveTemplate(
+      String(config.message || (templateId && DEFAULT_EMAIL_MESSAGES[templateId]) || ''),
+      event.data
+    );
+
+    if (!to.includes('@')) throw new Error(`'${to}' is not an email address`);
+
+    await usageService.meter(event.orgId, 'send_email', () =>
+      sendTransactionalEmail({ to, subject, html: renderEmailHtml(message) }),
+      { metadata: { source: 'automation', entityId: event.entityId } }
+    );
 
     return { to, subject, templateId };
   },
@@ -494,7 +633,9 @@ export const automationService = {
     const message = resolveTemplate(config.message as string, event.data);
 
     // In production, integrate with SMS provider (Twilio, etc.)
-    console.log('SMS would be sent:', { to, message });
+    await usageService.meter(event.orgId, 'send_sms', async () => {
+      console.log('SMS would be sent:', { to, message });
+    }, { metadata: { source: 'automation', entityId: event.entityId } });
 
     return { to, message, sent: true };
   },
@@ -534,7 +675,7 @@ export const automationService = {
     event: TriggerEvent
   ): Promise<Record<string, unknown>> {
     const newStatus = config.status as string;
-    const table = event.entityType === 'proposal' ? 'proposals' : 'clients';
+    const table = entityTable(event);
 
     const { error } = await supabase
       .from(table)
@@ -550,7 +691,7 @@ export const automationService = {
     event: TriggerEvent
   ): Promise<Record<string, unknown>> {
     const tag = config.tag as string;
-    const table = event.entityType === 'proposal' ? 'proposals' : 'clients';
+    const table = entityTable(event);
 
     // Get current tags
     const { data: entity } = await supabase
@@ -576,7 +717,7 @@ export const automationService = {
     event: TriggerEvent
   ): Promise<Record<string, unknown>> {
     const tag = config.tag as string;
-    const table = event.entityType === 'proposal' ? 'proposals' : 'clients';
+    const table = entityTable(event);
 
     const { data: entity } = await supabase
       .from(table)
@@ -649,7 +790,7 @@ export const automationService = {
     event: TriggerEvent
   ): Promise<Record<string, unknown>> {
     const userId = config.user_id as string;
-    const table = event.entityType === 'proposal' ? 'proposals' : 'clients';
+    const table = entityTable(event);
 
     const { error } = await supabase
       .from(table)
@@ -672,13 +813,226 @@ export const automationService = {
     const executeAt = new Date();
     executeAt.setMinutes(executeAt.getMinutes() + delayMinutes);
 
-    await supabase.from('scheduled_actions').insert({
+    const { error } = await supabase.from('scheduled_actions').insert({
+      org_id: event.orgId,
       rule_id: ruleId,
       action,
       event,
       execute_at: executeAt.toISOString(),
       status: 'pending',
+      max_attempts: DEFAULT_MAX_ATTEMPTS,
     });
+
+    if (error) throw error;
+  },
+
+  /**
+   * Get queued and finished delayed actions for an org
+   */
+  async getScheduledActions(
+    orgId: string,
+    options?: { status?: ScheduledActionStatus; ruleId?: string; limit?: number }
+  ): Promise<ScheduledAction[]> {
+    let query = supabase
+      .from('scheduled_actions')
+      .select('*')
+      .eq('org_id', orgId)
+      .order('execute_at', { ascending: true })
+      .limit(options?.limit || 100);
+
+    if (options?.status) {
+      query = query.eq('status', options.status);
+    }
+    if (options?.ruleId) {
+      query = query.eq('rule_id', options.ruleId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(transformScheduledAction);
+  },
+
+  /**
+   * Cancel a delayed action that has not run yet
+   */
+  async cancelScheduledAction(scheduledActionId: string): Promise<void> {
+    const { error } = await supabase
+      .from('scheduled_actions')
+      .update({ status: 'cancelled', completed_at: new Date().toISOString() })
+      .eq('id', scheduledActionId)
+      .eq('status', 'pending');
+
+    if (error) throw error;
+  },
+
+  // --------------------------------------------------------------------------
+  // Workflows
+  // --------------------------------------------------------------------------
+
+  /**
+   * Start a workflow run for an event and advance it until it ends or waits.
+   * Waiting runs are picked up again by the scheduler cron.
+   */
+  async startWorkflow(
+    rule: AutomationRule,
+    workflow: AutomationWorkflow,
+    event: TriggerEvent
+  ): Promise<AutomationExecution> {
+    const runnerId = crypto.randomUUID();
+
+    const { data, error } = await supabase
+      .from('automation_workflow_runs')
+      .insert({
+        org_id: event.orgId,
+        rule_id: rule.id,
+        entity_id: event.entityId,
+        event,
+        ...workflowStateColumns(initialWorkflowState(workflow)),
+        locked_by: runnerId,
+        locked_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    const { run, executed } = await this.advanceWorkflowRun(transformWorkflowRun(data), workflow, runnerId);
+    return this.recordExecution(
+      rule,
+      { ...event, workflowRunId: run.id },
+      executed,
+      workflowExecutionStatus(run, executed),
+      run.lastError
+    );
+  },
+
+  /**
+   * Continue a run the scheduler claimed. Only segments that ran actions or
+   * ended the run are logged, so rechecking a wait leaves no trace.
+   */
+  async resumeWorkflowRun(
+    rule: AutomationRule,
+    run: WorkflowRun,
+    workerId: string
+  ): Promise<WorkflowRun> {
+    if (!rule.workflow) {
+      await this.releaseWorkflowRun(run, workerId, { ...run, status: 'cancelled', lastError: 'Rule no longer has a workflow' });
+      return { ...run, status: 'cancelled' };
+    }
+
+    const { run: advanced, executed } = await this.advanceWorkflowRun(run, rule.workflow, workerId);
+
+    if (executed.length > 0 || advanced.status === 'failed') {
+      const { error } = await supabase.from('automation_executions').insert({
+        rule_id: rule.id,
+        trigger_event: { ...run.event, workflowRunId: run.id },
+        actions_executed: executed,
+        status: workflowExecutionStatus(advanced, executed),
+        error_message: advanced.lastError,
+      });
+
+      if (error) throw error;
+    }
+
+    return advanced;
+  },
+
+  async advanceWorkflowRun(
+    run: WorkflowRun,
+    workflow: AutomationWorkflow,
+    workerId: string
+  ): Promise<{ run: WorkflowRun; executed: ExecutedAction[] }> {
+    const { state, executed } = await advanceWorkflow(workflow, run, {
+      loadData: () => loadEntityData(run.event),
+      executeAction: (action) => this.executeAction(action, run.event),
+      maxAttempts: DEFAULT_MAX_ATTEMPTS,
+      retryDelayMinutes: (attempts) => getBackoffMinutes(attempts, ACTION_RETRY_BACKOFF),
+    });
+
+    await this.releaseWorkflowRun(run, workerId, state);
+    return { run: { ...run, ...state }, executed };
+  },
+
+  /**
+   * Store a run's new state and drop the lock, if this worker still holds it
+   */
+  async releaseWorkflowRun(
+    run: WorkflowRun,
+    workerId: string,
+    state: WorkflowState
+  ): Promise<void> {
+    const finished = state.status !== 'waiting' && state.status !== 'running';
+
+    await releaseClaimedRow('automation_workflow_runs', run.id, workerId, {
+      ...workflowStateColumns(state),
+      updated_at: new Date().toISOString(),
+      completed_at: finished ? new Date().toISOString() : null,
+    });
+  },
+
+  /**
+   * Recheck runs waiting on a condition about this record at the next cron
+   * run instead of their next poll. Best effort: triggers run regardless.
+   */
+  async wakeWorkflowRuns(event: TriggerEvent): Promise<void> {
+    if (event.entityType === 'organization') return;
+
+    const { error } = await supabase
+      .from('automation_workflow_runs')
+      .update({ resume_at: new Date().toISOString() })
+      .eq('org_id', event.orgId)
+      .eq('entity_id', event.entityId)
+      .eq('status', 'waiting')
+      .eq('waiting_for', 'condition');
+
+    if (error) console.error('Could not wake waiting workflow runs:', error);
+  },
+
+  /**
+   * Get workflow runs for an org, newest first
+   */
+  async getWorkflowRuns(
+    orgId: string,
+    options?: { ruleId?: string; status?: WorkflowRunStatus; entityId?: string; limit?: number }
+  ): Promise<WorkflowRun[]> {
+    let query = supabase
+      .from('automation_workflow_runs')
+      .select('*')
+      .eq('org_id', orgId)
+      .order('started_at', { ascending: false })
+      .limit(options?.limit || 100);
+
+    if (options?.ruleId) {
+      query = query.eq('rule_id', options.ruleId);
+    }
+    if (options?.status) {
+      query = query.eq('status', options.status);
+    }
+    if (options?.entityId) {
+      query = query.eq('entity_id', options.entityId);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(transformWorkflowRun);
+  },
+
+  /**
+   * Stop a waiting run; a run mid-step finishes the step first
+   */
+  async cancelWorkflowRun(runId: string): Promise<void> {
+    const { error } = await supabase
+      .from('automation_workflow_runs')
+      .update({
+        status: 'cancelled',
+        resume_at: null,
+        completed_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', runId)
+      .eq('status', 'waiting');
+
+    if (error) throw error;
   },
 
   // --------------------------------------------------------------------------
@@ -731,6 +1085,236 @@ export const automationService = {
     return (data || []).map(transformExecution);
   },
 
+  /**
+   * Show what replaying an execution would do, without doing it
+   */
+  async previewReplay(executionId: string): Promise<PlannedAction[]> {
+    const plan = await this.getReplayPlan(executionId);
+
+    if (plan.workflowRun) {
+      const { actions } = await simulateWorkflow(
+        plan.rule.workflow!,
+        await loadEntityData(plan.event),
+        { ...plan.workflowRun, status: 'running', stepAttempts: 0 }
+      );
+      return actions.map(({ action, afterMinutes }) => ({
+        ...planAction(action, plan.event),
+        ...(afterMinutes > 0 ? { delayMinutes: afterMinutes } : {}),
+      }));
+    }
+
+    return plan.actions.map((action) => planAction(action, plan.event));
+  },
+
+  /**
+   * Run the failed parts of an execution again. Actions that succeeded are
+   * not repeated, so a client who got the first email does not get it twice;
+   * a failed workflow run carries on from the step it failed at. Only one
+   * replay of an execution runs at a time.
+   */
+  async replayExecution(executionId: string): Promise<ReplayResult> {
+    const plan = await this.getReplayPlan(executionId);
+
+    if (plan.workflowRun) {
+      const lockId = crypto.randomUUID();
+
+      // Take the run back from 'failed' so a second replay cannot run it alongside this one
+      const { data, error } = await supabase
+        .from('automation_workflow_runs')
+        .update({ status: 'running', step_attempts: 0, completed_at: null, locked_by: lockId, locked_at: new Date().toISOString() })
+        .eq('id', plan.workflowRun.id)
+        .eq('status', 'failed')
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      if (!data) throw new Error('This workflow run is no longer failed');
+
+      const { run, executed } = await this.advanceWorkflowRun(transformWorkflowRun(data), plan.rule.workflow!, lockId);
+      const status = workflowExecutionStatus(run, executed);
+      await this.logReplay(plan.rule.id, executionId, { ...plan.event, workflowRunId: run.id }, executed, status, run.lastError);
+      return { executionId, actionsExecuted: executed, status, workflowRunId: run.id };
+    }
+
+    if (!(await this.claimReplay(executionId))) {
+      throw new Error('This execution is already being replayed');
+    }
+
+    try {
+      // Plan again under the lock, so actions a replay finished meanwhile are left out
+      const locked = await this.getReplayPlan(executionId);
+      const executed: ExecutedAction[] = [];
+      for (const [position, action] of locked.actions.entries()) {
+        const actionIndex = locked.actionIndexes?.[position];
+        try {
+          executed.push({ type: action.type, success: true, result: await this.executeAction(action, locked.event), actionIndex });
+        } catch (e) {
+          executed.push({ type: action.type, success: false, error: e instanceof Error ? e.message : 'Unknown error', actionIndex });
+        }
+      }
+
+      const failures = executed.filter((a) => !a.success);
+      const status = failures.length === 0 ? 'completed' : failures.length === executed.length ? 'failed' : 'partial';
+      await this.logReplay(locked.rule.id, executionId, locked.event, executed, status, failures[0]?.error || null);
+      return { executionId, actionsExecuted: executed, status };
+    } finally {
+      await this.releaseReplay(executionId);
+    }
+  },
+
+  /**
+   * Lock an execution for a replay; false when another replay holds it
+   */
+  async claimReplay(executionId: string): Promise<boolean> {
+    const staleBefore = new Date(Date.now() - REPLAY_LOCK_TIMEOUT_MINUTES * 60 * 1000).toISOString();
+    const { data, error } = await supabase
+      .from('automation_executions')
+      .update({ replay_locked_at: new Date().toISOString() })
+      .eq('id', executionId)
+      .or(`replay_locked_at.is.null,replay_locked_at.lt.${staleBefore}`)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  },
+
+  async releaseReplay(executionId: string): Promise<void> {
+    const { error } = await supabase
+      .from('automation_executions')
+      .update({ replay_locked_at: null })
+      .eq('id', executionId);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Work out what a replay of a failed execution would rerun: the failed
+   * workflow run, the delayed action, or the failed actions of the rule
+   * that no earlier replay has since got through
+   */
+  async getReplayPlan(executionId: string): Promise<{
+    rule: AutomationRule;
+    event: TriggerEvent;
+    actions: AutomationAction[];
+    /** Each action's position in the rule, for flat runs */
+    actionIndexes?: number[];
+    workflowRun?: WorkflowRun;
+  }> {
+    const { data, error } = await supabase
+      .from('automation_executions')
+      .select('*')
+      .eq('id', executionId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    if (!data) throw new Error('Execution not found');
+
+    const execution = transformExecution(data);
+    if (execution.status === 'completed') throw new Error('Only failed or partial executions can be replayed');
+
+    const rule = await this.getRule(execution.ruleId);
+    if (!rule) throw new Error('The rule for this execution has been deleted');
+
+    const { data: replays, error: replaysError } = await supabase
+      .from('automation_executions')
+      .select('id')
+      .eq('trigger_event->>replayOf', executionId)
+      .eq('status', 'completed')
+      .limit(1);
+
+    if (replaysError) throw replaysError;
+    if (replays && replays.length > 0) throw new Error('This execution has already been replayed successfully');
+
+    const { workflowRunId, scheduledActionId, replayOf, attempts: _attempts, ...event } = execution.triggerEvent as Record<string, unknown>;
+    const trigger = event as unknown as TriggerEvent;
+
+    // A replay logs only what it reran, so its entries no longer line up with the rule's actions
+    if (replayOf && !workflowRunId) {
+      throw new Error('This is itself a replay; replay the original execution instead');
+    }
+
+    if (workflowRunId) {
+      const { data: runRow, error: runError } = await supabase
+        .from('automation_workflow_runs')
+        .select('*')
+        .eq('id', workflowRunId as string)
+        .single();
+
+      if (runError && runError.code !== 'PGRST116') throw runError;
+      const run = runRow ? transformWorkflowRun(runRow) : null;
+      if (!run) throw new Error('The workflow run for this execution no longer exists');
+      if (run.status !== 'failed') throw new Error(`The workflow run is ${run.status}, not failed`);
+      if (!rule.workflow) throw new Error('The rule no longer has a workflow');
+      return { rule, event: trigger, actions: [], workflowRun: run };
+    }
+
+    if (scheduledActionId) {
+      const { data: scheduledRow, error: scheduledError } = await supabase
+        .from('scheduled_actions')
+        .select('*')
+        .eq('id', scheduledActionId as string)
+        .single();
+
+      if (scheduledError && scheduledError.code !== 'PGRST116') throw scheduledError;
+      if (!scheduledRow) throw new Error('The delayed action for this execution no longer exists');
+      const { delay: _delay, ...action } = transformScheduledAction(scheduledRow).action;
+      return { rule, event: trigger, actions: [action] };
+    }
+
+    // Flat runs log one entry per rule action, in order; earlier partial
+    // replays log the positions they got through
+    const { data: earlier, error: earlierError } = await supabase
+      .from('automation_executions')
+      .select('actions_executed')
+      .eq('trigger_event->>replayOf', executionId);
+
+    if (earlierError) throw earlierError;
+    const replayed = new Set<number>();
+    for (const row of (earlier || []) as { actions_executed: ExecutedAction[] | null }[]) {
+      for (const entry of row.actions_executed || []) {
+        if (entry.success && typeof entry.actionIndex === 'number') replayed.add(entry.actionIndex);
+      }
+    }
+
+    const actions: AutomationAction[] = [];
+    const actionIndexes: number[] = [];
+    execution.actionsExecuted.forEach((executed, index) => {
+      if (executed.success || replayed.has(index)) return;
+      const action = rule.actions[index];
+      if (!action || action.type !== executed.type) {
+        throw new Error('The rule has changed since this run, so its failed actions can no longer be matched up');
+      }
+      const { delay: _delay, ...immediate } = action;
+      actions.push(immediate);
+      actionIndexes.push(index);
+    });
+
+    if (actions.length === 0) throw new Error('This execution has no failed actions to replay');
+    return { rule, event: trigger, actions, actionIndexes };
+  },
+
+  /**
+   * Log a replay as its own execution; it does not count towards maxExecutions
+   */
+  async logReplay(
+    ruleId: string,
+    executionId: string,
+    event: TriggerEvent | Record<string, unknown>,
+    executedActions: ExecutedAction[],
+    status: AutomationExecution['status'],
+    errorMessage: string | null
+  ): Promise<void> {
+    const { error } = await supabase.from('automation_executions').insert({
+      rule_id: ruleId,
+      trigger_event: { ...event, replayOf: executionId },
+      actions_executed: executedActions,
+      status,
+      error_message: errorMessage,
+    });
+
+    if (error) throw error;
+  },
+
   // --------------------------------------------------------------------------
   // Templates
   // --------------------------------------------------------------------------
@@ -771,10 +1355,11 @@ export const automationService = {
 
     if (!template) throw new Error('Template not found');
 
+    const definition = transformTemplate(template);
     const rules: AutomationRule[] = [];
-    for (const ruleDef of template.rules as Partial<AutomationRule>[]) {
+    for (const ruleDef of definition.rules) {
       const rule = await this.createRule(orgId, {
-        name: ruleDef.name || 'Unnamed Rule',
+        name: ruleDef.name || definition.name || 'Unnamed Rule',
         description: ruleDef.description || undefined,
         triggerType: ruleDef.triggerType || 'manual',
         triggerConfig: ruleDef.triggerConfig,
@@ -820,7 +1405,7 @@ export const automationService = {
 // HELPERS
 // ============================================================================
 
-function transformRule(row: Record<string, unknown>): AutomationRule {
+export function transformRule(row: Record<string, unknown>): AutomationRule {
   return {
     id: row.id as string,
     orgId: row.org_id as string,
@@ -829,12 +1414,14 @@ function transformRule(row: Record<string, unknown>): AutomationRule {
     isActive: row.is_active as boolean,
     triggerType: row.trigger_type as TriggerType,
     triggerConfig: (row.trigger_config || {}) as Record<string, unknown>,
-    conditions: (row.conditions || []) as AutomationCondition[],
+    conditions: (row.conditions || []) as ConditionNode[],
     actions: (row.actions || []) as AutomationAction[],
+    workflow: (row.workflow || null) as AutomationWorkflow | null,
     maxExecutions: row.max_executions as number | null,
     executionCount: row.execution_count as number,
     cooldownMinutes: row.cooldown_minutes as number,
     lastExecutedAt: row.last_executed_at as string | null,
+    triggerWatermark: row.trigger_watermark as string | null,
     createdBy: row.created_by as string | null,
     createdAt: row.created_at as string,
     updatedAt: row.updated_at as string,
@@ -853,6 +1440,84 @@ function transformExecution(row: Record<string, unknown>): AutomationExecution {
   };
 }
 
+export function transformScheduledAction(row: Record<string, unknown>): ScheduledAction {
+  return {
+    id: row.id as string,
+    orgId: row.org_id as string,
+    ruleId: row.rule_id as string,
+    action: row.action as AutomationAction,
+    event: row.event as TriggerEvent,
+    executeAt: row.execute_at as string,
+    status: row.status as ScheduledActionStatus,
+    attempts: row.attempts as number,
+    maxAttempts: row.max_attempts as number,
+    lastError: row.last_error as string | null,
+    result: row.result as Record<string, unknown> | null,
+    lockedBy: row.locked_by as string | null,
+    lockedAt: row.locked_at as string | null,
+    completedAt: row.completed_at as string | null,
+    createdAt: row.created_at as string,
+  };
+}
+
+export function transformWorkflowRun(row: Record<string, unknown>): WorkflowRun {
+  return {
+    id: row.id as string,
+    orgId: row.org_id as string,
+    ruleId: row.rule_id as string,
+    entityId: row.entity_id as string,
+    event: row.event as TriggerEvent,
+    status: row.status as WorkflowRunStatus,
+    currentStepId: row.current_step_id as string | null,
+    resumeAt: row.resume_at as string | null,
+    waitingFor: row.waiting_for as WorkflowRun['waitingFor'],
+    waitDeadline: row.wait_deadline as string | null,
+    stepAttempts: (row.step_attempts as number) || 0,
+    history: (row.history || []) as WorkflowRun['history'],
+    lastError: row.last_error as string | null,
+    lockedBy: row.locked_by as string | null,
+    lockedAt: row.locked_at as string | null,
+    startedAt: row.started_at as string,
+    updatedAt: row.updated_at as string,
+    completedAt: row.completed_at as string | null,
+  };
+}
+
+function workflowStateColumns(state: WorkflowState): Record<string, unknown> {
+  return {
+    status: state.status,
+    current_step_id: state.currentStepId,
+    resume_at: state.resumeAt,
+    waiting_for: state.waitingFor,
+    wait_deadline: state.waitDeadline,
+    step_attempts: state.stepAttempts,
+    history: state.history,
+    last_error: state.lastError,
+  };
+}
+
+function workflowExecutionStatus(run: WorkflowState, executed: ExecutedAction[]): AutomationExecution['status'] {
+  if (run.status === 'failed') return executed.some((a) => a.success) ? 'partial' : 'failed';
+  return executed.every((a) => a.success) ? 'completed' : 'partial';
+}
+
+/**
+ * The run's record as it is now, over the data it was triggered with, so
+ * conditions checked after a wait see changes made in the meantime
+ */
+async function loadEntityData(event: TriggerEvent): Promise<Record<string, unknown>> {
+  if (event.entityType !== 'proposal' && event.entityType !== 'client') return event.data;
+
+  const { data, error } = await supabase
+    .from(entityTable(event))
+    .select('*')
+    .eq('id', event.entityId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') throw error;
+  return { ...event.data, ...((data || {}) as Record<string, unknown>) };
+}
+
 function transformTemplate(row: Record<string, unknown>): AutomationTemplate {
   return {
     id: row.id as string,
@@ -860,12 +1525,27 @@ function transformTemplate(row: Record<string, unknown>): AutomationTemplate {
     description: row.description as string | null,
     category: row.category as string,
     industryId: row.industry_id as string | null,
-    rules: (row.rules || []) as Partial<AutomationRule>[],
+    rules: ((row.rules || []) as Record<string, unknown>[]).map(transformTemplateRule),
     isActive: row.is_active as boolean,
     createdAt: row.created_at as string,
   };
 }
 
+/** Seeded template rules are written in column names (trigger_type), not field names */
+function transformTemplateRule(def: Record<string, unknown>): Partial<AutomationRule> {
+  return {
+    name: def.name as string | undefined,
+    description: def.description as string | null | undefined,
+    triggerType: (def.triggerType ?? def.trigger_type) as TriggerType | undefined,
+    triggerConfig: (def.triggerConfig ?? def.trigger_config) as Record<string, unknown> | undefined,
+    conditions: def.conditions as ConditionNode[] | undefined,
+    actions: def.actions as AutomationAction[] | undefined,
+    workflow: def.workflow as AutomationWorkflow | null | undefined,
+    maxExecutions: (def.maxExecutions ?? def.max_executions) as number | null | undefined,
+    cooldownMinutes: (def.cooldownMinutes ?? def.cooldown_minutes) as number | undefined,
+  };
+}
+
 function transformActionType(row: Record<string, unknown>): AutomationActionType {
   return {
     id: row.id as string,
@@ -878,6 +1558,195 @@ function transformActionType(row: Record<string, unknown>): AutomationActionType
   };
 }
 
+function entityTable(event: TriggerEvent): 'proposals' | 'clients' {
+  if (event.entityType === 'proposal') return 'proposals';
+  if (event.entityType === 'client') return 'clients';
+  throw new Error(`This action needs a proposal or client, not a ${event.entityType}`);
+}
+
+/**
+ * Check the config of time-based triggers up front, so a typo fails at save
+ * time instead of the rule silently never firing
+ */
+function validateTriggerConfig(triggerType: TriggerType, config: Record<string, unknown>): void {
+  if (triggerType === 'time_elapsed') {
+    const source = config.event as string;
+    if (!TIME_ELAPSED_SOURCES[source]) {
+      throw new Error(`time_elapsed needs an event to count from: ${Object.keys(TIME_ELAPSED_SOURCES).join(', ')}`);
+    }
+    if (getTimeElapsedDelayMinutes(config) <= 0) {
+      throw new Error('time_elapsed needs a delay_days, delay_hours or delay_minutes greater than zero');
+    }
+  }
+
+  if (triggerType === 'scheduled') {
+    parseCronExpression(String(config.cron || ''));
+  }
+}
+
+/** Total delay of a time_elapsed trigger, from delay_days, delay_hours and delay_minutes */
+export function getTimeElapsedDelayMinutes(config: Record<string, unknown>): number {
+  return (
+    (Number(config.delay_days) || 0) * 24 * 60 +
+    (Number(config.delay_hours) || 0) * 60 +
+    (Number(config.delay_minutes) || 0)
+  );
+}
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Cron matches either day field when both are restricted */
+  restrictsDayOfMonth: boolean;
+  restrictsDayOfWeek: boolean;
+}
+
+/**
+ * Parse a five-field cron expression (minute hour day-of-month month
+ * day-of-week) with `*`, lists, ranges and steps. Times are UTC.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Schedule '${expression}' must have five fields: minute hour day month weekday`);
+  }
+
+  const parseField = (field: string, min: number, max: number, name: string): Set<number> => {
+    const values = new Set<number>();
+    for (const part of field.split(',')) {
+      const [range, stepText] = part.split('/');
+      const step = stepText === undefined ? 1 : Number(stepText);
+      let [start, end] = range === '*' ? [min, max] : range.split('-').map(Number);
+      if (end === undefined) end = stepText === undefined ? start : max;
+
+      if (![start, end, step].every(Number.isInteger) || step < 1 || start < min || end > max || start > end) {
+        throw new Error(`Schedule '${expression}' has an invalid ${name} '${part}'`);
+      }
+      for (let value = start; value <= end; value += step) values.add(value);
+    }
+    return values;
+  };
+
+  const daysOfWeek = parseField(fields[4], 0, 7, 'weekday');
+  // Both 0 and 7 mean Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes: parseField(fields[0], 0, 59, 'minute'),
+    hours: parseField(fields[1], 0, 23, 'hour'),
+    daysOfMonth: parseField(fields[2], 1, 31, 'day'),
+    months: parseField(fields[3], 1, 12, 'month'),
+    daysOfWeek,
+    restrictsDayOfMonth: fields[2] !== '*',
+    restrictsDayOfWeek: fields[4] !== '*',
+  };
+}
+
+/** Whether a schedule fires in the UTC minute containing `date` */
+export function cronMatches(schedule: CronSchedule, date: Date): boolean {
+  if (!schedule.minutes.has(date.getUTCMinutes())) return false;
+  if (!schedule.hours.has(date.getUTCHours())) return false;
+  if (!schedule.months.has(date.getUTCMonth() + 1)) return false;
+
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.restrictsDayOfMonth && schedule.restrictsDayOfWeek) return dayOfMonth || dayOfWeek;
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Describe what an action would do for an event, resolving its templates
+ * the way the action would, and flag what would make it fail or misfire
+ */
+export function planAction(action: AutomationAction, event: TriggerEvent): PlannedAction {
+  const config = action.config || {};
+  const warnings: string[] = [];
+  const text = (key: string) => {
+    const template = String(config[key] ?? '');
+    for (const path of missingPlaceholders(template, event.data)) {
+      warnings.push(`{{${path}}} is empty for this record`);
+    }
+    return resolveTemplate(template, event.data);
+  };
+  const base = {
+    type: action.type,
+    warnings,
+    ...(action.delay && action.delay > 0 ? { delayMinutes: action.delay } : {}),
+  };
+
+  switch (action.type) {
+    case 'send_email':
+    case 'send_reminder': {
+      const to = text('to');
+      const subject = text('subject');
+      const body = text('message');
+      if (!to) warnings.push('No recipient; the email would not be sent');
+      else if (!to.includes('@')) warnings.push(`'${to}' is not an email address`);
+      return { ...base, channel: 'email', to, subject, body, summary: `Email ${to || '(nobody)'}: ${subject || '(no subject)'}` };
+    }
+    case 'send_sms': {
+      const to = text('to');
+      const body = text('message');
+      if (!to) warnings.push('No phone number; the text would not be sent');
+      return { ...base, channel: 'sms', to, body, summary: `Text ${to || '(nobody)'}: ${body}` };
+    }
+    case 'create_task':
+      return { ...base, channel: 'task', summary: `Create task "${text('title')}"` };
+    case 'update_status':
+      return { ...base, channel: 'record', summary: `Set status to ${String(config.status ?? '')}` };
+    case 'add_tag':
+      return { ...base, channel: 'record', summary: `Add tag ${String(config.tag ?? '')}` };
+    case 'remove_tag':
+      return { ...base, channel: 'record', summary: `Remove tag ${String(config.tag ?? '')}` };
+    case 'assign_user':
+      return { ...base, channel: 'record', summary: `Assign to ${String(config.user_id ?? '')}` };
+    case 'webhook': {
+      const url = String(config.url ?? '');
+      if (!url) warnings.push('No webhook URL');
+      return { ...base, channel: 'webhook', to: url, summary: `${String(config.method || 'POST')} ${url}` };
+    }
+    case 'slack_notify': {
+      const body = text('message');
+      if (!config.webhook_url) warnings.push('No Slack webhook URL');
+      return { ...base, channel: 'slack', to: String(config.channel ?? ''), body, summary: `Slack ${String(config.channel ?? '')}: ${body}` };
+    }
+    default:
+      return { ...base, channel: 'record', summary: String(action.type), warnings: [`Unknown action type: ${action.type}`] };
+  }
+}
+
+/** Template paths with no value in the data, which resolve to an empty string */
+function missingPlaceholders(template: string, data: Record<string, unknown>): string[] {
+  return [...template.matchAll(/\{\{(\w+(?:\.\w+)*)\}\}/g)]
+    .map((match) => match[1])
+    .filter((path) => {
+      const value = getNestedValue(data, path);
+      return value === undefined || value === null || value === '';
+    });
+}
+
+/** An action's message as a plain email: one paragraph per blank-line-separated block */
+function renderEmailHtml(message: string): string {
+  const paragraphs = message
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter(Boolean)
+    .map((block) => `<p>${escapeHtml(block).replace(/\n/g, '<br>')}</p>`);
+
+  return `<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">${paragraphs.join('')}</div>`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 function getNestedValue(obj: Record<string, unknown>, path: string): unknown {
   return path.split('.').reduce((current, key) => {
     return current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined;
@@ -0,0 +1,388 @@
+/**
+ * Sommer's Proposal System - Automation Simulator
+ * Dry-runs a rule against the trigger events of the last days, rebuilt from
+ * the records they left behind, without sending anything: which proposals
+ * and clients would have matched and what would have gone out to them.
+ *
+ * Conditions and waits are checked against records as they are today, not
+ * as they were when each event happened, so a proposal signed since then is
+ * judged as signed.
+ */
+
+import { supabase } from '../supabase';
+import {
+  automationService,
+  cronMatches,
+  getTimeElapsedDelayMinutes,
+  parseCronExpression,
+  planAction,
+  TIME_ELAPSED_SOURCES,
+  type AutomationRule,
+  type PlannedAction,
+  type TriggerEvent,
+} from './automationService';
+import { simulateWorkflow, type WorkflowHistoryEntry, type WorkflowRunStatus } from './workflowEngine';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A saved rule or an unsaved draft */
+export type SimulatedRule = Pick<
+  AutomationRule,
+  'orgId' | 'triggerType' | 'triggerConfig' | 'conditions' | 'actions' | 'workflow' | 'maxExecutions' | 'cooldownMinutes'
+> & Partial<Pick<AutomationRule, 'executionCount'>>;
+
+export type SimulationOutcome = 'matched' | 'conditions' | 'cooldown' | 'max_executions';
+
+export interface SimulatedEvent {
+  entityType: TriggerEvent['entityType'];
+  entityId: string;
+  label: string;
+  occurredAt: string;
+  outcome: SimulationOutcome;
+  planned: PlannedAction[];
+  workflowPath?: WorkflowHistoryEntry[];
+  workflowStatus?: WorkflowRunStatus;
+}
+
+export interface RuleSimulation {
+  from: string;
+  to: string;
+  eventsScanned: number;
+  /** More events happened in the window than were simulated */
+  truncated: boolean;
+  matched: number;
+  skipped: Record<Exclude<SimulationOutcome, 'matched'>, number>;
+  emails: number;
+  texts: number;
+  /** Distinct email addresses and phone numbers that would have been contacted */
+  recipients: number;
+  /** Most emails and texts any one recipient would have had */
+  maxPerRecipient: number;
+  warnings: string[];
+  events: SimulatedEvent[];
+}
+
+type RecordSource = { table: 'proposals' | 'clients'; column: string; entityType: 'proposal' | 'client'; status?: string };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_SIMULATION_DAYS = 30;
+export const MAX_SIMULATION_DAYS = 180;
+
+const MAX_SIMULATED_EVENTS = 500;
+
+/** One recipient getting this many messages in the window is flagged */
+const SPAM_WARNING_THRESHOLD = 3;
+
+/** Where each record-based trigger left its timestamp */
+const EVENT_SOURCES: Record<string, RecordSource> = {
+  ...TIME_ELAPSED_SOURCES,
+  // Rejections have no timestamp of their own, so the last update stands in
+  proposal_rejected: { table: 'proposals', column: 'updated_at', entityType: 'proposal', status: 'rejected' },
+};
+
+// ============================================================================
+// SIMULATION
+// ============================================================================
+
+/**
+ * Run a rule's conditions, cooldown, execution cap and action plan over the
+ * trigger events of the last `days` days, oldest first
+ */
+export async function simulateRule(
+  rule: SimulatedRule,
+  options?: { days?: number; now?: Date }
+): Promise<RuleSimulation> {
+  const days = Math.min(Math.max(1, Math.round(options?.days || DEFAULT_SIMULATION_DAYS)), MAX_SIMULATION_DAYS);
+  const to = options?.now || new Date();
+  const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+
+  const { events, truncated } = await getHistoricalEvents(rule, from, to);
+
+  const simulation: RuleSimulation = {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    eventsScanned: events.length,
+    truncated,
+    matched: 0,
+    skipped: { conditions: 0, cooldown: 0, max_executions: 0 },
+    emails: 0,
+    texts: 0,
+    recipients: 0,
+    maxPerRecipient: 0,
+    warnings: [],
+    events: [],
+  };
+
+  let executionCount = rule.executionCount || 0;
+  let lastExecutedAt: number | null = null;
+  const perRecipient = new Map<string, number>();
+
+  for (const event of events) {
+    const at = new Date(event.timestamp).getTime();
+    const simulated: SimulatedEvent = {
+      entityType: event.entityType,
+      entityId: event.entityId,
+      label: recordLabel(event),
+      occurredAt: event.timestamp,
+      outcome: 'matched',
+      planned: [],
+    };
+
+    if (rule.maxExecutions && executionCount >= rule.maxExecutions) {
+      simulated.outcome = 'max_executions';
+    } else if (lastExecutedAt !== null && rule.cooldownMinutes > 0 && at < lastExecutedAt + rule.cooldownMinutes * 60 * 1000) {
+      simulated.outcome = 'cooldown';
+    } else if (!automationService.evaluateConditions(rule.conditions, event.data)) {
+      simulated.outcome = 'conditions';
+    }
+
+    if (simulated.outcome !== 'matched') {
+      simulation.skipped[simulated.outcome]++;
+      simulation.events.push(simulated);
+      continue;
+    }
+
+    executionCount++;
+    lastExecutedAt = at;
+    simulation.matched++;
+
+    if (rule.workflow) {
+      const { state, actions } = await simulateWorkflow(rule.workflow, event.data, undefined, new Date(event.timestamp));
+      simulated.planned = actions.map(({ action, afterMinutes }) => ({
+        ...planAction(action, event),
+        ...(afterMinutes > 0 ? { delayMinutes: afterMinutes } : {}),
+      }));
+      simulated.workflowPath = state.history;
+      simulated.workflowStatus = state.status;
+    } else {
+      simulated.planned = rule.actions.map((action) => planAction(action, event));
+    }
+
+    for (const planned of simulated.planned) {
+      if (planned.channel === 'email') simulation.emails++;
+      if (planned.channel === 'sms') simulation.texts++;
+      if ((planned.channel === 'email' || planned.channel === 'sms') && planned.to) {
+        perRecipient.set(planned.to, (perRecipient.get(planned.to) || 0) + 1);
+      }
+    }
+
+    simulation.events.push(simulated);
+  }
+
+  simulation.recipients = perRecipient.size;
+  simulation.maxPerRecipient = Math.max(0, ...perRecipient.values());
+  simulation.warnings = getSimulationWarnings(rule, simulation, perRecipient);
+  return simulation;
+}
+
+function getSimulationWarnings(
+  rule: SimulatedRule,
+  simulation: RuleSimulation,
+  perRecipient: Map<string, number>
+): string[] {
+  const warnings: string[] = [];
+
+  if (rule.triggerType === 'manual') {
+    warnings.push('Manual rules only run when started by hand, so there is no history to replay');
+  }
+  if (rule.triggerType === 'proposal_rejected') {
+    warnings.push('Rejections are dated by the proposal\'s last update, so some may fall outside the window');
+  }
+  if (simulation.truncated) {
+    warnings.push(`Only the first ${MAX_SIMULATED_EVENTS} events were simulated; try fewer days`);
+  }
+
+  const busiest = [...perRecipient.entries()].sort((a, b) => b[1] - a[1])[0];
+  if (busiest && busiest[1] >= SPAM_WARNING_THRESHOLD) {
+    warnings.push(`${busiest[0]} would have received ${busiest[1]} messages; consider a cooldown or exit criteria`);
+  }
+
+  const problems = new Set(simulation.events.flatMap((event) => event.planned.flatMap((planned) => planned.warnings)));
+  if (problems.size > 0) {
+    warnings.push(`${problems.size} kind${problems.size === 1 ? '' : 's'} of problem with the actions, listed on the events below`);
+  }
+
+  return warnings;
+}
+
+// ============================================================================
+// EVENT HISTORY
+// ============================================================================
+
+/**
+ * Rebuild the trigger events a rule would have seen between two dates,
+ * oldest first
+ */
+export async function getHistoricalEvents(
+  rule: Pick<AutomationRule, 'orgId' | 'triggerType' | 'triggerConfig'>,
+  from: Date,
+  to: Date
+): Promise<{ events: TriggerEvent[]; truncated: boolean }> {
+  switch (rule.triggerType) {
+    case 'manual':
+      return { events: [], truncated: false };
+
+    case 'scheduled':
+      return getScheduledOccurrences(rule, from, to);
+
+    case 'payment_received':
+      return getPaymentEvents(rule.orgId, from, to);
+
+    case 'time_elapsed': {
+      const source = TIME_ELAPSED_SOURCES[rule.triggerConfig.event as string];
+      const delayMs = getTimeElapsedDelayMinutes(rule.triggerConfig) * 60 * 1000;
+      if (!source || delayMs <= 0) return { events: [], truncated: false };
+
+      // A record fires once its event is the delay old, so look that far further back
+      const { records, truncated } = await readRecords(
+        rule.orgId,
+        source,
+        new Date(from.getTime() - delayMs),
+        new Date(to.getTime() - delayMs)
+      );
+      return {
+        events: records.map((record) =>
+          recordEvent(rule, source, record, new Date(new Date(record[source.column] as string).getTime() + delayMs))
+        ),
+        truncated,
+      };
+    }
+
+    default: {
+      const source = EVENT_SOURCES[rule.triggerType];
+      if (!source) return { events: [], truncated: false };
+
+      const { records, truncated } = await readRecords(rule.orgId, source, from, to);
+      return {
+        events: records.map((record) => recordEvent(rule, source, record, new Date(record[source.column] as string))),
+        truncated,
+      };
+    }
+  }
+}
+
+async function readRecords(
+  orgId: string,
+  source: RecordSource,
+  from: Date,
+  to: Date
+): Promise<{ records: Record<string, unknown>[]; truncated: boolean }> {
+  let query = supabase
+    .from(source.table)
+    .select('*')
+    .eq('org_id', orgId)
+    .gte(source.column, from.toISOString())
+    .lte(source.column, to.toISOString())
+    .order(source.column, { ascending: true })
+    .limit(MAX_SIMULATED_EVENTS + 1);
+
+  if (source.status) {
+    query = query.eq('status', source.status);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  const records = (data || []) as unknown as Record<string, unknown>[];
+  return { records: records.slice(0, MAX_SIMULATED_EVENTS), truncated: records.length > MAX_SIMULATED_EVENTS };
+}
+
+function recordEvent(
+  rule: Pick<AutomationRule, 'orgId' | 'triggerType'>,
+  source: RecordSource,
+  record: Record<string, unknown>,
+  at: Date
+): TriggerEvent {
+  return {
+    type: rule.triggerType,
+    orgId: rule.orgId,
+    entityId: record.id as string,
+    entityType: source.entityType,
+    data: record,
+    timestamp: at.toISOString(),
+  };
+}
+
+async function getPaymentEvents(
+  orgId: string,
+  from: Date,
+  to: Date
+): Promise<{ events: TriggerEvent[]; truncated: boolean }> {
+  const { data, error } = await supabase
+    .from('payment_plan_installments')
+    .select('*, payment_plans!inner (org_id, proposal_id)')
+    .eq('payment_plans.org_id', orgId)
+    .eq('status', 'paid')
+    .gte('paid_at', from.toISOString())
+    .lte('paid_at', to.toISOString())
+    .order('paid_at', { ascending: true })
+    .limit(MAX_SIMULATED_EVENTS + 1);
+
+  if (error) throw error;
+
+  const rows = (data || []) as unknown as Record<string, unknown>[];
+  return {
+    events: rows.slice(0, MAX_SIMULATED_EVENTS).map((row) => {
+      const { payment_plans: plan, ...installment } = row;
+      return {
+        type: 'payment_received',
+        orgId,
+        entityId: installment.id as string,
+        entityType: 'payment',
+        data: { ...installment, proposal_id: (plan as Record<string, unknown> | null)?.proposal_id },
+        timestamp: installment.paid_at as string,
+      };
+    }),
+    truncated: rows.length > MAX_SIMULATED_EVENTS,
+  };
+}
+
+function getScheduledOccurrences(
+  rule: Pick<AutomationRule, 'orgId' | 'triggerConfig'>,
+  from: Date,
+  to: Date
+): { events: TriggerEvent[]; truncated: boolean } {
+  const schedule = parseCronExpression(String(rule.triggerConfig.cron || ''));
+  const events: TriggerEvent[] = [];
+
+  for (let minute = Math.ceil(from.getTime() / 60000) * 60000; minute <= to.getTime(); minute += 60000) {
+    if (!cronMatches(schedule, new Date(minute))) continue;
+    if (events.length === MAX_SIMULATED_EVENTS) return { events, truncated: true };
+
+    const scheduledFor = new Date(minute).toISOString();
+    events.push({
+      type: 'scheduled',
+      orgId: rule.orgId,
+      entityId: rule.orgId,
+      entityType: 'organization',
+      data: { scheduledFor, cron: rule.triggerConfig.cron },
+      timestamp: scheduledFor,
+    });
+  }
+
+  return { events, truncated: false };
+}
+
+/** A name for the record an event is about, for listing matches */
+function recordLabel(event: TriggerEvent): string {
+  const data = event.data;
+  const name = [data.first_name, data.last_name].filter(Boolean).join(' ');
+
+  switch (event.entityType) {
+    case 'proposal':
+      return [data.proposal_number, data.title || data.property_name].filter(Boolean).join(' · ') || event.entityId;
+    case 'client':
+      return String(data.name || data.company_name || name || data.email || event.entityId);
+    case 'payment': {
+      const amount = `$${Number(data.amount || 0).toLocaleString()}`;
+      return data.installment_number ? `Installment ${data.installment_number} · ${amount}` : `Payment of ${amount}`;
+    }
+    default:
+      return `Scheduled run at ${new Date(event.timestamp).toLocaleString()}`;
+  }
+}
@@ -0,0 +1,490 @@
+/**
+ * Sommer's Proposal System - Automation Workflows
+ * Branching workflows for automation rules: actions, if/else branches on
+ * nested AND/OR condition groups, wait-until steps and exit criteria.
+ *
+ * A workflow is a list of steps linked by id, starting at startStepId. A
+ * step pointing at null ends the workflow. Running one is a state
+ * transition: advanceWorkflow runs steps until the workflow ends or has to
+ * wait, and the caller stores the returned state until it is resumed.
+ */
+
+import type { AutomationAction, AutomationCondition, ExecutedAction } from './automationService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ConditionGroup {
+  logic: 'and' | 'or';
+  conditions: ConditionNode[];
+}
+
+export type ConditionNode = AutomationCondition | ConditionGroup;
+
+export type WorkflowStepType = 'action' | 'branch' | 'wait';
+
+interface WorkflowStepBase {
+  id: string;
+  label?: string;
+}
+
+export interface ActionStep extends WorkflowStepBase {
+  type: 'action';
+  action: AutomationAction;
+  next: string | null;
+}
+
+export interface BranchStep extends WorkflowStepBase {
+  type: 'branch';
+  condition: ConditionGroup;
+  then: string | null;
+  else: string | null;
+}
+
+/**
+ * Wait until the condition holds or the timeout passes, whichever comes
+ * first, then continue. Without a condition it is a plain delay. Follow it
+ * with a branch to act on which one happened.
+ */
+export interface WaitStep extends WorkflowStepBase {
+  type: 'wait';
+  until: ConditionGroup | null;
+  timeoutMinutes: number;
+  next: string | null;
+}
+
+export type WorkflowStep = ActionStep | BranchStep | WaitStep;
+
+export interface AutomationWorkflow {
+  startStepId: string | null;
+  steps: WorkflowStep[];
+  /** Checked before every step; once it holds the run stops, e.g. "proposal signed" */
+  exitWhen: ConditionGroup | null;
+}
+
+export type WorkflowRunStatus = 'running' | 'waiting' | 'completed' | 'exited' | 'failed' | 'cancelled';
+
+/** What a waiting run waits for; only condition waits are woken early by events */
+export type WorkflowWaitReason = 'condition' | 'timer' | 'retry';
+
+export interface WorkflowHistoryEntry {
+  stepId: string | null;
+  at: string;
+  outcome: 'done' | 'then' | 'else' | 'waiting' | 'met' | 'timed_out' | 'retrying' | 'failed' | 'exited' | 'completed';
+  detail?: string;
+}
+
+export interface WorkflowState {
+  status: WorkflowRunStatus;
+  currentStepId: string | null;
+  resumeAt: string | null;
+  waitingFor: WorkflowWaitReason | null;
+  /** When the current wait step times out */
+  waitDeadline: string | null;
+  /** Failed tries of the current action step */
+  stepAttempts: number;
+  history: WorkflowHistoryEntry[];
+  lastError: string | null;
+}
+
+export interface WorkflowAdvanceOptions {
+  now?: Date;
+  /** Current data for the run's record, reloaded after every action */
+  loadData: () => Promise<Record<string, unknown>>;
+  executeAction: (action: AutomationAction) => Promise<Record<string, unknown>>;
+  maxAttempts: number;
+  retryDelayMinutes: (attempts: number) => number;
+}
+
+export interface WorkflowAdvanceResult {
+  state: WorkflowState;
+  executed: ExecutedAction[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** How often a waiting condition is rechecked when no event wakes it first */
+export const WAIT_POLL_MINUTES = 15;
+
+export const MAX_WAIT_MINUTES = 365 * 24 * 60;
+
+const MAX_CONDITION_DEPTH = 8;
+
+const CONDITION_OPERATORS: AutomationCondition['operator'][] = [
+  'equals', 'not_equals', 'contains', 'greater_than', 'less_than', 'in', 'not_in', 'is_set', 'is_not_set',
+];
+
+// ============================================================================
+// CONDITIONS
+// ============================================================================
+
+export function isConditionGroup(node: ConditionNode): node is ConditionGroup {
+  return Array.isArray((node as ConditionGroup).conditions);
+}
+
+/** An empty 'and' group always holds and an empty 'or' group never does */
+export function evaluateConditionGroup(group: ConditionGroup, data: Record<string, unknown>): boolean {
+  const matches = (node: ConditionNode) =>
+    isConditionGroup(node) ? evaluateConditionGroup(node, data) : evaluateCondition(node, data);
+
+  return group.logic === 'or' ? group.conditions.some(matches) : group.conditions.every(matches);
+}
+
+export function evaluateCondition(condition: AutomationCondition, data: Record<string, unknown>): boolean {
+  const fieldValue = getNestedValue(data, condition.field);
+
+  switch (condition.operator) {
+    case 'equals':
+      return fieldValue === condition.value;
+    case 'not_equals':
+      return fieldValue !== condition.value;
+    case 'contains':
+      return String(fieldValue).includes(String(condition.value));
+    case 'greater_than':
+      return Number(fieldValue) > Number(condition.value);
+    case 'less_than':
+      return Number(fieldValue) < Number(condition.value);
+    case 'in':
+      return Array.isArray(condition.value) && condition.value.includes(fieldValue);
+    case 'not_in':
+      return Array.isArray(condition.value) && !condition.value.includes(fieldValue);
+    case 'is_set':
+      return fieldValue !== undefined && fieldValue !== null && fieldValue !== '';
+    case 'is_not_set':
+      return fieldValue === undefined || fieldValue === null || fieldValue === '';
+    default:
+      return false;
+  }
+}
+
+/** Readable form of a condition tree, e.g. "(status = signed or viewed_at is set)" */
+export function describeConditionGroup(group: ConditionGroup, nested = false): string {
+  if (group.conditions.length === 0) return group.logic === 'or' ? 'never' : 'always';
+
+  const text = group.conditions
+    .map((node) => (isConditionGroup(node) ? describeConditionGroup(node, true) : describeCondition(node)))
+    .join(` ${group.logic} `);
+  return nested && group.conditions.length > 1 ? `(${text})` : text;
+}
+
+export function describeCondition(condition: AutomationCondition): string {
+  const value = Array.isArray(condition.value) ? condition.value.join(', ') : String(condition.value ?? '');
+
+  switch (condition.operator) {
+    case 'equals': return `${condition.field} = ${value}`;
+    case 'not_equals': return `${condition.field} ≠ ${value}`;
+    case 'contains': return `${condition.field} contains ${value}`;
+    case 'greater_than': return `${condition.field} > ${value}`;
+    case 'less_than': return `${condition.field} < ${value}`;
+    case 'in': return `${condition.field} in [${value}]`;
+    case 'not_in': return `${condition.field} not in [${value}]`;
+    case 'is_set': return `${condition.field} is set`;
+    case 'is_not_set': return `${condition.field} is not set`;
+    default: return condition.field;
+  }
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Check a workflow before it is saved: every link points at a real step,
+ * every step is reachable from the start and no path loops back on itself.
+ */
+export function validateWorkflow(workflow: AutomationWorkflow): void {
+  if (!Array.isArray(workflow.steps) || workflow.steps.length === 0) {
+    throw new Error('Workflow needs at least one step');
+  }
+
+  const steps = new Map<string, WorkflowStep>();
+  for (const step of workflow.steps) {
+    if (!step.id) throw new Error('Every workflow step needs an id');
+    if (steps.has(step.id)) throw new Error(`Workflow has two steps with id '${step.id}'`);
+    steps.set(step.id, step);
+  }
+
+  if (!workflow.startStepId || !steps.has(workflow.startStepId)) {
+    throw new Error('Workflow start step does not exist');
+  }
+  if (workflow.exitWhen) validateConditionGroup(workflow.exitWhen, 'Exit criteria');
+
+  for (const step of workflow.steps) {
+    const name = stepName(step);
+
+    switch (step.type) {
+      case 'action':
+        if (!step.action?.type) throw new Error(`${name} needs an action`);
+        if (step.action.delay) throw new Error(`${name} has a delay; use a wait step instead`);
+        break;
+      case 'branch':
+        validateConditionGroup(step.condition, name);
+        break;
+      case 'wait':
+        if (step.until) validateConditionGroup(step.until, name);
+        if (!(step.timeoutMinutes > 0) || step.timeoutMinutes > MAX_WAIT_MINUTES) {
+          throw new Error(`${name} needs a wait between one minute and one year`);
+        }
+        break;
+      default:
+        throw new Error(`Step '${(step as WorkflowStep).id}' has an unknown type`);
+    }
+
+    for (const target of getNextStepIds(step)) {
+      if (target !== null && !steps.has(target)) {
+        throw new Error(`${name} points at a step that does not exist`);
+      }
+    }
+  }
+
+  // Depth-first walk from the start: grey steps are on the current path, so reaching one again is a loop
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+  const walk = (id: string) => {
+    if (visiting.has(id)) throw new Error(`${stepName(steps.get(id)!)} loops back on itself`);
+    if (visited.has(id)) return;
+    visiting.add(id);
+    for (const target of getNextStepIds(steps.get(id)!)) {
+      if (target !== null) walk(target);
+    }
+    visiting.delete(id);
+    visited.add(id);
+  };
+  walk(workflow.startStepId);
+
+  const unreachable = workflow.steps.find((step) => !visited.has(step.id));
+  if (unreachable) throw new Error(`${stepName(unreachable)} cannot be reached from the start`);
+}
+
+function validateConditionGroup(group: ConditionGroup, owner: string, depth = 0): void {
+  if (depth >= MAX_CONDITION_DEPTH) throw new Error(`${owner} nests conditions too deeply`);
+  if (group.logic !== 'and' && group.logic !== 'or') throw new Error(`${owner} has a group that is neither AND nor OR`);
+  if (!Array.isArray(group.conditions) || group.conditions.length === 0) {
+    throw new Error(`${owner} has an empty condition group`);
+  }
+
+  for (const node of group.conditions) {
+    if (isConditionGroup(node)) {
+      validateConditionGroup(node, owner, depth + 1);
+      continue;
+    }
+    if (!node.field) throw new Error(`${owner} has a condition without a field`);
+    if (!CONDITION_OPERATORS.includes(node.operator)) {
+      throw new Error(`${owner} has an unknown operator '${node.operator}'`);
+    }
+    if ((node.operator === 'in' || node.operator === 'not_in') && !Array.isArray(node.value)) {
+      throw new Error(`${owner}: '${node.operator}' needs a list of values`);
+    }
+  }
+}
+
+export function getNextStepIds(step: WorkflowStep): (string | null)[] {
+  return step.type === 'branch' ? [step.then, step.else] : [step.next];
+}
+
+function stepName(step: WorkflowStep): string {
+  return step.label ? `Step '${step.label}'` : `Step '${step.id}'`;
+}
+
+/**
+ * The workflow equivalent of a flat actions list: the actions in order,
+ * with each delay turned into a wait step before its action
+ */
+export function workflowFromActions(actions: AutomationAction[]): AutomationWorkflow {
+  const steps: WorkflowStep[] = [];
+
+  actions.forEach((action, index) => {
+    const { delay, ...rest } = action;
+    if (delay && delay > 0) {
+      steps.push({ id: `wait_${index + 1}`, type: 'wait', until: null, timeoutMinutes: delay, next: `action_${index + 1}` });
+    }
+    steps.push({ id: `action_${index + 1}`, type: 'action', action: rest, next: null });
+  });
+
+  // Link each step to the one after it
+  steps.forEach((step, index) => {
+    if (step.type !== 'branch' && step.next === null) step.next = steps[index + 1]?.id ?? null;
+  });
+
+  return { startStepId: steps[0]?.id ?? null, steps, exitWhen: null };
+}
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+export function initialWorkflowState(workflow: AutomationWorkflow): WorkflowState {
+  return {
+    status: 'running',
+    currentStepId: workflow.startStepId,
+    resumeAt: null,
+    waitingFor: null,
+    waitDeadline: null,
+    stepAttempts: 0,
+    history: [],
+    lastError: null,
+  };
+}
+
+/**
+ * Run steps from the current one until the workflow finishes, exits or has
+ * to wait. Action failures are retried on the next resume until maxAttempts
+ * is used up, then the run fails.
+ */
+export async function advanceWorkflow(
+  workflow: AutomationWorkflow,
+  current: WorkflowState,
+  options: WorkflowAdvanceOptions
+): Promise<WorkflowAdvanceResult> {
+  const now = options.now || new Date();
+  const at = now.toISOString();
+  const state: WorkflowState = { ...current, history: [...current.history], status: 'running', resumeAt: null, waitingFor: null };
+  const executed: ExecutedAction[] = [];
+  const steps = new Map(workflow.steps.map((step) => [step.id, step]));
+
+  let data: Record<string, unknown> | null = null;
+  const getData = async () => (data ??= await options.loadData());
+
+  const moveTo = (next: string | null) => {
+    state.currentStepId = next;
+    state.stepAttempts = 0;
+    state.waitDeadline = null;
+  };
+
+  // Acyclic, so each step runs at most once per advance; the bound only guards bad data
+  for (let guard = 0; guard <= workflow.steps.length; guard++) {
+    if (state.currentStepId === null) {
+      state.status = 'completed';
+      state.history.push({ stepId: null, at, outcome: 'completed' });
+      return { state, executed };
+    }
+
+    const step = steps.get(state.currentStepId);
+    if (!step) return { state: failState(state, at, `Step '${state.currentStepId}' no longer exists`), executed };
+
+    if (workflow.exitWhen && evaluateConditionGroup(workflow.exitWhen, await getData())) {
+      state.status = 'exited';
+      state.history.push({ stepId: step.id, at, outcome: 'exited', detail: describeConditionGroup(workflow.exitWhen) });
+      return { state, executed };
+    }
+
+    if (step.type === 'action') {
+      try {
+        const result = await options.executeAction(step.action);
+        executed.push({ type: step.action.type, success: true, result });
+        state.history.push({ stepId: step.id, at, outcome: 'done' });
+        state.lastError = null;
+        data = null;
+        moveTo(step.next);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error';
+        executed.push({ type: step.action.type, success: false, error: message });
+        state.stepAttempts++;
+        state.lastError = message;
+
+        if (state.stepAttempts >= options.maxAttempts) {
+          return { state: failState(state, at, message), executed };
+        }
+
+        state.status = 'waiting';
+        state.waitingFor = 'retry';
+        state.resumeAt = addMinutes(now, options.retryDelayMinutes(state.stepAttempts));
+        state.history.push({ stepId: step.id, at, outcome: 'retrying', detail: message });
+        return { state, executed };
+      }
+      continue;
+    }
+
+    if (step.type === 'branch') {
+      const matched = evaluateConditionGroup(step.condition, await getData());
+      state.history.push({ stepId: step.id, at, outcome: matched ? 'then' : 'else' });
+      moveTo(matched ? step.then : step.else);
+      continue;
+    }
+
+    // Wait step: the deadline is fixed on arrival and kept across resumes
+    const arriving = state.waitDeadline === null;
+    const deadline = arriving ? addMinutes(now, step.timeoutMinutes) : state.waitDeadline!;
+
+    if (step.until && evaluateConditionGroup(step.until, await getData())) {
+      state.history.push({ stepId: step.id, at, outcome: 'met' });
+      moveTo(step.next);
+      continue;
+    }
+
+    if (!arriving && now.getTime() >= new Date(deadline).getTime()) {
+      state.history.push({ stepId: step.id, at, outcome: 'timed_out' });
+      moveTo(step.next);
+      continue;
+    }
+
+    if (arriving) state.history.push({ stepId: step.id, at, outcome: 'waiting' });
+    state.status = 'waiting';
+    state.waitDeadline = deadline;
+    state.waitingFor = step.until ? 'condition' : 'timer';
+    state.resumeAt = step.until
+      ? new Date(Math.min(new Date(deadline).getTime(), now.getTime() + WAIT_POLL_MINUTES * 60 * 1000)).toISOString()
+      : deadline;
+    return { state, executed };
+  }
+
+  return { state: failState(state, at, 'Workflow ran more steps than it has'), executed };
+}
+
+function failState(state: WorkflowState, at: string, message: string): WorkflowState {
+  state.status = 'failed';
+  state.lastError = message;
+  state.history.push({ stepId: state.currentStepId, at, outcome: 'failed', detail: message });
+  return state;
+}
+
+function addMinutes(date: Date, minutes: number): string {
+  return new Date(date.getTime() + minutes * 60 * 1000).toISOString();
+}
+
+function getNestedValue(obj: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce((current, key) => {
+    return current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined;
+  }, obj as unknown);
+}
+
+/**
+ * Walk a workflow without running anything: actions are collected with how
+ * long after the start they would run, and every wait is settled at once
+ * against `data`, as met when its condition holds and as timed out when it
+ * does not.
+ */
+export async function simulateWorkflow(
+  workflow: AutomationWorkflow,
+  data: Record<string, unknown>,
+  from: WorkflowState = initialWorkflowState(workflow),
+  start: Date = new Date()
+): Promise<{ state: WorkflowState; actions: { action: AutomationAction; afterMinutes: number }[] }> {
+  const actions: { action: AutomationAction; afterMinutes: number }[] = [];
+  let state = from;
+  let clock = start;
+
+  // Each wait takes two passes, arriving and timing out
+  for (let pass = 0; pass <= workflow.steps.length * 2; pass++) {
+    const afterMinutes = Math.round((clock.getTime() - start.getTime()) / 60000);
+    const result = await advanceWorkflow(workflow, state, {
+      now: clock,
+      loadData: async () => data,
+      executeAction: async (action) => {
+        actions.push({ action, afterMinutes });
+        return {};
+      },
+      maxAttempts: 1,
+      retryDelayMinutes: () => 0,
+    });
+
+    state = result.state;
+    if (state.status !== 'waiting' || !state.waitDeadline) break;
+    clock = new Date(state.waitDeadline);
+  }
+
+  return { state, actions };
+}
@@ -4,7 +4,13 @@
  */
 
 import { supabase } from '../supabase';
-import { entitlementsService } from '../entitlements/entitlementsService';
+import {
+  entitlementsService,
+  type OveragePrices,
+  type OverageUnit,
+  type Plan,
+} from '../entitlements/entitlementsService';
+import { usageService, METERED_ACTIONS } from '../usage/usageService';
 
 // ============================================================================
 // TYPES
@@ -21,6 +27,8 @@ export interface Subscription {
   currentPeriodEnd: string | null;
   cancelAtPeriodEnd: boolean;
   trialEnd: string | null;
+  /** First day of the last month whose overage has been closed and queued for Stripe */
+  overageClosedThrough: string | null;
   metadata: Record<string, unknown>;
   createdAt: string;
   updatedAt: string;
@@ -46,9 +54,22 @@ export interface Invoice {
   hostedInvoiceUrl: string | null;
   dueDate: string | null;
   paidAt: string | null;
+  lineItems: InvoiceLineItem[];
   createdAt: string;
 }
 
+/** Amounts are in cents, as Stripe reports them */
+export interface InvoiceLineItem {
+  description: string;
+  kind: 'subscription' | 'overage' | 'other';
+  unit: OverageUnit | null;
+  quantity: number;
+  unitAmount: number | null;
+  amount: number;
+  periodStart: string | null;
+  periodEnd: string | null;
+}
+
 export type InvoiceStatus =
   | 'draft'
   | 'open'
@@ -65,6 +86,60 @@ export interface BillingEvent {
   processedAt: string;
 }
 
+/** One overage unit for a period; amounts are in cents */
+export interface OverageLineItem {
+  unit: OverageUnit;
+  description: string;
+  quantity: number;
+  unitAmount: number;
+  amount: number;
+  stripePriceId: string;
+}
+
+export interface OverageEstimate {
+  periodStart: string;
+  periodEnd: string;
+  /** Whether the org's plan bills overage at all */
+  isEnabled: boolean;
+  prices: OveragePrices;
+  items: OverageLineItem[];
+  total: number;
+}
+
+/**
+ * The plan and storage an org had during a month, captured daily by the
+ * billing cron so a month closed late is still priced as it ran
+ */
+export interface OveragePeriodSnapshot {
+  orgId: string;
+  periodStart: string;
+  planId: string;
+  isEnabled: boolean;
+  prices: OveragePrices;
+  /** -1 when unlimited */
+  storageLimitMb: number;
+  /** Null when no reading was taken during the month */
+  storageUsedBytes: number | null;
+  capturedAt: string;
+}
+
+export type OverageChargeStatus = 'pending' | 'reported' | 'failed';
+
+/** Overage for a closed period, queued to be reported to Stripe as metered usage */
+export interface OverageCharge extends OverageLineItem {
+  id: string;
+  orgId: string;
+  periodStart: string;
+  status: OverageChargeStatus;
+  stripeUsageRecordId: string | null;
+  /** Timestamp of the usage record last sent to Stripe, kept to reconcile retries */
+  usageTimestamp: string | null;
+  attempts: number;
+  lastError: string | null;
+  reportedAt: string | null;
+  createdAt: string;
+}
+
 export interface CheckoutSession {
   url: string;
   sessionId: string;
@@ -88,6 +163,20 @@ const STRIPE_PRICES = {
   enterprise_yearly: process.env.VITE_STRIPE_PRICE_ENTERPRISE_YEARLY || 'price_enterprise_yearly',
 };
 
+export const OVERAGE_UNIT_LABELS: Record<OverageUnit, string> = {
+  proposals: 'Extra proposals',
+  aiCalls: 'Extra AI calls',
+  emails: 'Extra emails',
+  sms: 'Extra text messages',
+  apiCalls: 'Extra API calls',
+  storageGb: 'Extra storage (GB)',
+};
+
+/** Reports that keep failing are left for someone to look at */
+export const MAX_OVERAGE_REPORT_ATTEMPTS = 5;
+
+const BYTES_PER_GB = 1024 * 1024 * 1024;
+
 // ============================================================================
 // BILLING SERVICE
 // ============================================================================
@@ -304,6 +393,7 @@ export const billingService = {
         hosted_invoice_url: invoiceData.hostedInvoiceUrl,
         due_date: invoiceData.dueDate,
         paid_at: invoiceData.paidAt,
+        line_items: invoiceData.lineItems || [],
       })
       .select()
       .single();
@@ -440,6 +530,8 @@ export const billingService = {
     const invoice = payload.data?.object as Record<string, unknown>;
     if (!invoice) return;
 
+    const plans = await entitlementsService.getPlans();
+
     await this.createInvoice({
       orgId,
       stripeInvoiceId: invoice.id as string,
@@ -449,6 +541,7 @@ export const billingService = {
       pdfUrl: invoice.invoice_pdf as string,
       hostedInvoiceUrl: invoice.hosted_invoice_url as string,
       paidAt: new Date().toISOString(),
+      lineItems: extractInvoiceLineItems(invoice, plans),
     });
   },
 
@@ -471,6 +564,314 @@ export const billingService = {
     // Could also send notification to org admins here
   },
 
+  // --------------------------------------------------------------------------
+  // Overage Billing
+  // --------------------------------------------------------------------------
+
+  /**
+   * Overage for a month. The current month is priced with the org's plan and
+   * storage as they are now; finished months use the snapshot captured while
+   * they ran, so a month closed late isn't priced with a later plan or later
+   * storage. Counted units come from usage events recorded past the limit.
+   */
+  async estimateOverage(orgId: string, periodStart?: string): Promise<OverageEstimate> {
+    const current = monthStart(new Date());
+    const start = periodStart || current;
+    const end = nextMonthStart(start);
+
+    const snapshot = start < current
+      ? await this.getOveragePeriodSnapshot(orgId, start)
+      : await this.buildOverageSnapshot(orgId, start);
+
+    const estimate: OverageEstimate = {
+      periodStart: start,
+      periodEnd: end,
+      isEnabled: snapshot.isEnabled && Object.keys(snapshot.prices).length > 0,
+      prices: snapshot.prices,
+      items: [],
+      total: 0,
+    };
+    if (!estimate.isEnabled) return estimate;
+
+    const { data, error } = await supabase
+      .from('usage_events')
+      .select('event_type, metadata')
+      .eq('org_id', orgId)
+      .gte('timestamp', start)
+      .lt('timestamp', end)
+      .not('metadata->overage', 'is', null);
+
+    if (error) throw error;
+
+    const quantities: Partial<Record<OverageUnit, number>> = {};
+    for (const row of (data || []) as { event_type: string; metadata: Record<string, unknown> }[]) {
+      const unit = overageUnitForEvent(row.event_type);
+      if (!unit) continue;
+      quantities[unit] = (quantities[unit] || 0) + Number(row.metadata.overage || 0);
+    }
+
+    if (snapshot.storageLimitMb !== -1 && snapshot.storageUsedBytes !== null) {
+      const overBytes = snapshot.storageUsedBytes - snapshot.storageLimitMb * 1024 * 1024;
+      if (overBytes > 0) quantities.storageGb = overBytes / BYTES_PER_GB;
+    }
+
+    for (const [unit, quantity] of Object.entries(quantities) as [OverageUnit, number][]) {
+      const price = snapshot.prices[unit];
+      // Partial units are rounded up, as Stripe bills whole units
+      const units = Math.ceil(quantity);
+      if (!price || units <= 0) continue;
+
+      estimate.items.push({
+        unit,
+        description: OVERAGE_UNIT_LABELS[unit],
+        quantity: units,
+        unitAmount: price.unitAmount,
+        amount: units * price.unitAmount,
+        stripePriceId: price.stripePriceId,
+      });
+    }
+    estimate.total = estimate.items.reduce((sum, item) => sum + item.amount, 0);
+
+    return estimate;
+  },
+
+  /**
+   * The org's plan and storage as they are now, as a snapshot of the given month
+   */
+  async buildOverageSnapshot(orgId: string, periodStart: string): Promise<OveragePeriodSnapshot> {
+    const [plan, isComped, hasOverage, usage] = await Promise.all([
+      entitlementsService.getEffectivePlan(orgId),
+      entitlementsService.isComped(orgId),
+      entitlementsService.hasFeature(orgId, 'metered_overage'),
+      usageService.getCurrentUsage(orgId),
+    ]);
+
+    return {
+      orgId,
+      periodStart,
+      planId: plan.id,
+      isEnabled: !isComped && hasOverage,
+      prices: plan.overagePrices,
+      storageLimitMb: plan.limits.storageMb,
+      storageUsedBytes: usage.storageUsedBytes,
+      capturedAt: new Date().toISOString(),
+    };
+  },
+
+  /**
+   * Record the current month's plan and storage. Run daily; each capture
+   * replaces the last, so a finished month keeps its final reading.
+   */
+  async captureOverageSnapshot(orgId: string): Promise<OveragePeriodSnapshot> {
+    const snapshot = await this.buildOverageSnapshot(orgId, monthStart(new Date()));
+
+    const { error } = await supabase.from('overage_period_snapshots').upsert(
+      {
+        org_id: orgId,
+        period_start: snapshot.periodStart,
+        plan_id: snapshot.planId,
+        is_enabled: snapshot.isEnabled,
+        overage_prices: snapshot.prices,
+        storage_limit_mb: snapshot.storageLimitMb,
+        storage_used_bytes: snapshot.storageUsedBytes,
+        captured_at: snapshot.capturedAt,
+      },
+      { onConflict: 'org_id,period_start' }
+    );
+
+    if (error) throw error;
+    return snapshot;
+  },
+
+  /**
+   * Plan and storage for a finished month. A month with no capture of its
+   * own takes the plan from the latest earlier one and bills no storage,
+   * as there is no reading from that month; with no capture at all the
+   * current plan is used.
+   */
+  async getOveragePeriodSnapshot(orgId: string, periodStart: string): Promise<OveragePeriodSnapshot> {
+    const { data, error } = await supabase
+      .from('overage_period_snapshots')
+      .select('*')
+      .eq('org_id', orgId)
+      .lte('period_start', periodStart)
+      .order('period_start', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!data) {
+      const current = await this.buildOverageSnapshot(orgId, periodStart);
+      return { ...current, storageUsedBytes: null };
+    }
+
+    const snapshot = transformOveragePeriodSnapshot(data);
+    if (snapshot.periodStart === periodStart) return snapshot;
+    return { ...snapshot, periodStart, storageUsedBytes: null };
+  },
+
+  /**
+   * Close a finished month: record its overage as charges to report to
+   * Stripe, and mark the subscription closed through that month. Safe to
+   * rerun; charges already recorded for the period are left as they are.
+   */
+  async closeOveragePeriod(orgId: string, periodStart: string): Promise<OverageCharge[]> {
+    const estimate = await this.estimateOverage(orgId, periodStart);
+
+    if (estimate.items.length > 0) {
+      const { error } = await supabase.from('overage_charges').upsert(
+        estimate.items.map((item) => ({
+          org_id: orgId,
+          period_start: periodStart,
+          unit: item.unit,
+          description: item.description,
+          quantity: item.quantity,
+          unit_amount: item.unitAmount,
+          amount: item.amount,
+          stripe_price_id: item.stripePriceId,
+          status: 'pending',
+        })),
+        { onConflict: 'org_id,period_start,unit', ignoreDuplicates: true }
+      );
+
+      if (error) throw error;
+    }
+
+    const { error } = await supabase
+      .from('subscriptions')
+      .update({
+        overage_closed_through: periodStart,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('org_id', orgId);
+
+    if (error) throw error;
+    return this.getOverageCharges(orgId, { periodStart });
+  },
+
+  /**
+   * Get overage charges for an org
+   */
+  async getOverageCharges(
+    orgId: string,
+    options?: { periodStart?: string; limit?: number }
+  ): Promise<OverageCharge[]> {
+    let query = supabase
+      .from('overage_charges')
+      .select('*')
+      .eq('org_id', orgId)
+      .order('period_start', { ascending: false });
+
+    if (options?.periodStart) {
+      query = query.eq('period_start', options.periodStart);
+    }
+    if (options?.limit) {
+      query = query.limit(options.limit);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(transformOverageCharge);
+  },
+
+  /**
+   * Charges still to be reported to Stripe, oldest first
+   */
+  async getUnreportedOverageCharges(limit: number = 100): Promise<OverageCharge[]> {
+    const { data, error } = await supabase
+      .from('overage_charges')
+      .select('*')
+      .in('status', ['pending', 'failed'])
+      .lt('attempts', MAX_OVERAGE_REPORT_ATTEMPTS)
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(transformOverageCharge);
+  },
+
+  /**
+   * Subscriptions with a Stripe subscription that overage can be billed to
+   */
+  async getOverageSubscriptions(): Promise<Subscription[]> {
+    const { data, error } = await supabase
+      .from('subscriptions')
+      .select('*')
+      .not('stripe_subscription_id', 'is', null)
+      .in('status', ['active', 'past_due']);
+
+    if (error) throw error;
+    return ((data || []) as Record<string, unknown>[]).map(transformSubscription);
+  },
+
+  /**
+   * Note the timestamp of the usage record about to be sent for a charge,
+   * before it is sent, so a retry can tell whether it reached Stripe
+   */
+  async markOverageSending(chargeId: string, usageTimestamp: string): Promise<void> {
+    const { error } = await supabase
+      .from('overage_charges')
+      .update({ usage_timestamp: usageTimestamp })
+      .eq('id', chargeId);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Units of a price already reported for an org with usage records
+   * timestamped in a Stripe usage period
+   */
+  async getReportedOverageQuantity(
+    orgId: string,
+    stripePriceId: string,
+    from: string,
+    to: string | null
+  ): Promise<number> {
+    let query = supabase
+      .from('overage_charges')
+      .select('quantity')
+      .eq('org_id', orgId)
+      .eq('stripe_price_id', stripePriceId)
+      .eq('status', 'reported')
+      .gte('usage_timestamp', from);
+
+    if (to) {
+      query = query.lt('usage_timestamp', to);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return ((data || []) as { quantity: number }[]).reduce((sum, row) => sum + row.quantity, 0);
+  },
+
+  async markOverageReported(chargeId: string, stripeUsageRecordId: string): Promise<void> {
+    const { error } = await supabase
+      .from('overage_charges')
+      .update({
+        status: 'reported',
+        stripe_usage_record_id: stripeUsageRecordId,
+        last_error: null,
+        reported_at: new Date().toISOString(),
+      })
+      .eq('id', chargeId);
+
+    if (error) throw error;
+  },
+
+  async markOverageFailed(charge: OverageCharge, message: string): Promise<void> {
+    const { error } = await supabase
+      .from('overage_charges')
+      .update({
+        status: 'failed',
+        attempts: charge.attempts + 1,
+        last_error: message,
+      })
+      .eq('id', charge.id);
+
+    if (error) throw error;
+  },
+
   // --------------------------------------------------------------------------
   // Billing Info
   // --------------------------------------------------------------------------
@@ -483,14 +884,16 @@ export const billingService = {
     plan: { name: string; displayName: string; price: number };
     isComped: boolean;
     invoices: Invoice[];
+    overage: OverageEstimate;
     nextBillingDate: string | null;
     cancelAtPeriodEnd: boolean;
   }> {
-    const [subscription, plan, isComped, invoices] = await Promise.all([
+    const [subscription, plan, isComped, invoices, overage] = await Promise.all([
       this.getSubscription(orgId),
       entitlementsService.getEffectivePlan(orgId),
       entitlementsService.isComped(orgId),
       this.getInvoices(orgId, { limit: 5 }),
+      this.estimateOverage(orgId),
     ]);
 
     return {
@@ -502,6 +905,7 @@ export const billingService = {
       },
       isComped,
       invoices,
+      overage,
       nextBillingDate: subscription?.currentPeriodEnd || null,
       cancelAtPeriodEnd: subscription?.cancelAtPeriodEnd || false,
     };
@@ -524,6 +928,7 @@ function transformSubscription(row: Record<string, unknown>): Subscription {
     currentPeriodEnd: row.current_period_end as string | null,
     cancelAtPeriodEnd: row.cancel_at_period_end as boolean,
     trialEnd: row.trial_end as string | null,
+    overageClosedThrough: row.overage_closed_through as string | null,
     metadata: row.metadata as Record<string, unknown>,
     createdAt: row.created_at as string,
     updatedAt: row.updated_at as string,
@@ -542,10 +947,99 @@ function transformInvoice(row: Record<string, unknown>): Invoice {
     hostedInvoiceUrl: row.hosted_invoice_url as string | null,
     dueDate: row.due_date as string | null,
     paidAt: row.paid_at as string | null,
+    lineItems: (row.line_items as InvoiceLineItem[]) || [],
     createdAt: row.created_at as string,
   };
 }
 
+function transformOveragePeriodSnapshot(row: Record<string, unknown>): OveragePeriodSnapshot {
+  return {
+    orgId: row.org_id as string,
+    periodStart: row.period_start as string,
+    planId: row.plan_id as string,
+    isEnabled: row.is_enabled as boolean,
+    prices: (row.overage_prices as OveragePrices) || {},
+    storageLimitMb: row.storage_limit_mb as number,
+    storageUsedBytes: row.storage_used_bytes === null ? null : Number(row.storage_used_bytes),
+    capturedAt: row.captured_at as string,
+  };
+}
+
+function transformOverageCharge(row: Record<string, unknown>): OverageCharge {
+  return {
+    id: row.id as string,
+    orgId: row.org_id as string,
+    periodStart: row.period_start as string,
+    unit: row.unit as OverageUnit,
+    description: row.description as string,
+    quantity: row.quantity as number,
+    unitAmount: row.unit_amount as number,
+    amount: row.amount as number,
+    stripePriceId: row.stripe_price_id as string,
+    status: row.status as OverageChargeStatus,
+    stripeUsageRecordId: row.stripe_usage_record_id as string | null,
+    usageTimestamp: row.usage_timestamp as string | null,
+    attempts: row.attempts as number,
+    lastError: row.last_error as string | null,
+    reportedAt: row.reported_at as string | null,
+    createdAt: row.created_at as string,
+  };
+}
+
+/**
+ * Stripe invoice lines, with metered lines for a plan's overage prices
+ * labelled by unit
+ */
+function extractInvoiceLineItems(
+  invoice: Record<string, unknown>,
+  plans: Plan[]
+): InvoiceLineItem[] {
+  const lines = (invoice.lines as { data?: Record<string, unknown>[] } | undefined)?.data || [];
+
+  return lines.map((line) => {
+    const price = line.price as Record<string, unknown> | undefined;
+    const unit = price ? findOverageUnit(price.id as string, plans) : null;
+    const period = line.period as { start?: number; end?: number } | undefined;
+
+    return {
+      description: line.description as string,
+      kind: unit ? 'overage' : line.type === 'subscription' ? 'subscription' : 'other',
+      unit,
+      quantity: (line.quantity as number) ?? 1,
+      unitAmount: (price?.unit_amount as number) ?? null,
+      amount: line.amount as number,
+      periodStart: period?.start ? new Date(period.start * 1000).toISOString() : null,
+      periodEnd: period?.end ? new Date(period.end * 1000).toISOString() : null,
+    };
+  });
+}
+
+function findOverageUnit(priceId: string, plans: Plan[]): OverageUnit | null {
+  for (const plan of plans) {
+    for (const [unit, price] of Object.entries(plan.overagePrices)) {
+      if (price?.stripePriceId === priceId) return unit as OverageUnit;
+    }
+  }
+  return null;
+}
+
+function overageUnitForEvent(eventType: string): OverageUnit | null {
+  const meter = Object.values(METERED_ACTIONS).find((m) => m.eventType === eventType);
+  // Storage overage is priced from the month-end snapshot, not per upload
+  if (!meter || meter.overageUnit === 'storageGb') return null;
+  return meter.overageUnit;
+}
+
+/** First day of the month, as the YYYY-MM-DD usage periods use */
+function monthStart(date: Date): string {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)).toISOString().split('T')[0];
+}
+
+function nextMonthStart(periodStart: string): string {
+  const start = new Date(`${periodStart}T00:00:00Z`);
+  return monthStart(new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1)));
+}
+
 function extractOrgIdFromPayload(payload: Record<string, unknown>): string | null {
   // Try to get org ID from metadata
   const obj = payload.data?.object as Record<string, unknown>;
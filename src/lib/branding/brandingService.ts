@@ -75,7 +75,7 @@ export async function updateBrandingSettings(
 
 // Upload logo
 export async function uploadLogo(orgId: string, file: File): Promise<string> {
-  const url = await uploadFile('brand-assets', `${orgId}/logo`, file);
+  const url = await uploadFile(orgId, 'brand-assets', `${orgId}/logo`, file);
   await updateBrandingSettings(orgId, { logo_url: url });
   return url;
 }
@@ -37,6 +37,8 @@ export interface Database {
           subscription_tier: string;
           subscription_status: string;
           trial_ends_at: string | null;
+          weather_reschedule_mode: 'propose' | 'apply';
+          pricing_overrides: Json;
           created_at: string;
           updated_at: string;
         };
@@ -46,6 +48,8 @@ export interface Database {
           slug: string;
           logo_url?: string | null;
           brand_color?: string;
+          weather_reschedule_mode?: 'propose' | 'apply';
+          pricing_overrides?: Json;
         };
         Update: Partial<Database['public']['Tables']['organizations']['Insert']>;
       };
@@ -127,10 +131,12 @@ export interface Database {
           net_sqft: number | null;
           surface_condition: 'good' | 'fair' | 'poor';
           measurements: Json;
+          site_geometry: Json | null;
           tier: 'economy' | 'standard' | 'premium';
           subtotal: number;
           discount_amount: number;
           tax_amount: number;
+          tax_rate: number;
           total: number;
           deposit_amount: number;
           deposit_percent: number;
@@ -143,12 +149,18 @@ export interface Database {
           valid_until: string | null;
           require_signature: boolean;
           require_deposit: boolean;
+          deposit_paid_at: string | null;
+          deposit_paid_amount: number | null;
+          deposit_payment_intent_id: string | null;
+          offline_id: string | null;
           status: 'draft' | 'pending_review' | 'sent' | 'viewed' | 'accepted' | 'rejected' | 'expired';
           sent_at: string | null;
           viewed_at: string | null;
           signed_at: string | null;
           version: number;
           parent_proposal_id: string | null;
+          pricing_experiment_id: string | null;
+          pricing_variant_id: string | null;
           created_at: string;
           updated_at: string;
         };
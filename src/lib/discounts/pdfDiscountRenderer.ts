@@ -5,6 +5,7 @@
 
 import { jsPDF } from 'jspdf';
 import type { AppliedDiscount } from './discountTypes';
+import { calculatePricing, type PricingInput } from '../pricing/pricingEngine';
 
 // ============================================================================
 // TYPES
@@ -32,36 +33,14 @@ export interface ProposalPDFData {
   companyEmail: string;
   companyWebsite?: string;
   
-  // Services
-  services: {
-    name: string;
-    description?: string;
-    quantity: number;
-    unit: string;
-    unitPrice: number;
-    total: number;
-  }[];
+  // Pricing inputs; every amount on the PDF comes from calculatePricing()
+  pricing: PricingInput;
   
-  // Pricing
-  subtotal: number;
-  tier: 'economy' | 'standard' | 'premium';
-  tierMultiplier: number;
-  
-  // Discounts
+  // Discounts (labels and badges; amounts are recalculated)
   appliedDiscounts: AppliedDiscount[];
-  totalDiscount: number;
-  discountedSubtotal: number;
-  
-  // Tax & Total
-  taxRate?: number;
-  taxAmount?: number;
-  total: number;
   
   // Payment terms
   depositRequired?: boolean;
-  depositPercent?: number;
-  depositAmount?: number;
-  balanceDue?: number;
   paymentTerms?: string;
   
   // Branding
@@ -473,6 +452,12 @@ export async function generateProposalPDFWithDiscounts(
 ): Promise<Blob> {
   const doc = new jsPDF();
   const renderer = new PDFDiscountRenderer(doc, data.brandColor);
+  const pricing = calculatePricing(data.pricing);
+  const appliedDiscounts = data.appliedDiscounts.map((discount) => ({
+    ...discount,
+    discountAmount:
+      pricing.discounts.find((d) => d.id === discount.id)?.amount ?? 0,
+  }));
 
   let currentY = 20;
 
@@ -529,7 +514,7 @@ export async function generateProposalPDFWithDiscounts(
   // Table rows
   doc.setTextColor(0, 0, 0);
   doc.setFont('helvetica', 'normal');
-  data.services.forEach((service) => {
+  pricing.lineItems.forEach((service) => {
     doc.text(service.name, 25, currentY);
     doc.text(`${service.quantity} ${service.unit}`, 100, currentY);
     doc.text(`$${service.unitPrice.toFixed(2)}`, 125, currentY);
@@ -540,21 +525,21 @@ export async function generateProposalPDFWithDiscounts(
   currentY += 10;
 
   // Discounts section
-  if (data.appliedDiscounts.length > 0) {
-    currentY = renderer.renderDiscountSection(currentY, data.appliedDiscounts, data.subtotal, options);
+  if (appliedDiscounts.length > 0) {
+    currentY = renderer.renderDiscountSection(currentY, appliedDiscounts, pricing.adjustedSubtotal, options);
   }
 
   // Pricing summary
   currentY = renderer.renderPricingSummary(currentY, {
-    subtotal: data.subtotal,
-    discounts: data.appliedDiscounts,
-    totalDiscount: data.totalDiscount,
-    discountedSubtotal: data.discountedSubtotal,
-    taxRate: data.taxRate,
-    taxAmount: data.taxAmount,
-    total: data.total,
-    depositAmount: data.depositAmount,
-    balanceDue: data.balanceDue,
+    subtotal: pricing.adjustedSubtotal,
+    discounts: appliedDiscounts,
+    totalDiscount: pricing.discountAmount,
+    discountedSubtotal: pricing.taxableAmount,
+    taxRate: Math.round(pricing.taxRate * 10000) / 100,
+    taxAmount: pricing.taxAmount,
+    total: pricing.total,
+    depositAmount: data.depositRequired === false ? undefined : pricing.depositAmount,
+    balanceDue: data.depositRequired === false ? undefined : pricing.balanceDue,
   });
 
   // Footer
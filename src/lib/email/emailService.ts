@@ -3,8 +3,12 @@
  * Transactional email sending
  */
 
+import { getApiAuthHeaders } from '@/lib/auth/authService';
+
 const API_URL = import.meta.env.VITE_API_URL || '';
 
+// Sends carry the signed-in user's session; the worker meters them against that user's org
+
 export interface EmailOptions {
   to: string;
   subject: string;
@@ -20,14 +24,13 @@ export interface ProposalEmailData {
   proposalNumber: string;
   clientName: string;
   total: number;
-  viewUrl: string;
 }
 
 // Send proposal email
 export async function sendProposalEmail(data: ProposalEmailData): Promise<void> {
   const response = await fetch(`${API_URL}/api/email/send-proposal`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...(await getApiAuthHeaders()) },
     body: JSON.stringify(data),
   });
   if (!response.ok) throw new Error('Failed to send proposal email');
@@ -43,7 +46,7 @@ export async function sendFollowupEmail(data: {
 }): Promise<void> {
   const response = await fetch(`${API_URL}/api/email/send-followup`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...(await getApiAuthHeaders()) },
     body: JSON.stringify(data),
   });
   if (!response.ok) throw new Error('Failed to send follow-up email');
@@ -59,7 +62,7 @@ export async function sendReminderEmail(data: {
 }): Promise<void> {
   const response = await fetch(`${API_URL}/api/email/send-reminder`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...(await getApiAuthHeaders()) },
     body: JSON.stringify(data),
   });
   if (!response.ok) throw new Error('Failed to send reminder email');
@@ -69,7 +72,7 @@ export async function sendReminderEmail(data: {
 export async function sendCustomEmail(options: EmailOptions): Promise<void> {
   const response = await fetch(`${API_URL}/api/email/send`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...(await getApiAuthHeaders()) },
     body: JSON.stringify(options),
   });
   if (!response.ok) throw new Error('Failed to send email');
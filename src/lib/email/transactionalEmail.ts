@@ -0,0 +1,63 @@
+/**
+ * Sommer's Proposal System - Transactional Email
+ * Sends email for lib services that run in the worker, such as automation
+ * actions. Nothing here reads Vite's env or the browser session; the worker
+ * installs a Resend sender at startup, the same way it installs its
+ * Supabase client.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TransactionalEmail {
+  to: string;
+  subject: string;
+  html: string;
+  from?: string;
+}
+
+export type EmailSender = (email: TransactionalEmail) => Promise<void>;
+
+// ============================================================================
+// SENDER
+// ============================================================================
+
+const DEFAULT_FROM = "Sommer's Sealcoating <proposals@sommersealcoating.com>";
+
+let sender: EmailSender | null = null;
+
+/** Replace the sender used by sendTransactionalEmail */
+export function setEmailSender(next: EmailSender | null): void {
+  sender = next;
+}
+
+/**
+ * Send one email through the installed sender. Throws when none is
+ * installed or the provider rejects the email, so callers can retry.
+ */
+export async function sendTransactionalEmail(email: TransactionalEmail): Promise<void> {
+  if (!sender) throw new Error('Email sending is not configured');
+  await sender(email);
+}
+
+/** Sender that posts to Resend's API with the given key */
+export function createResendSender(apiKey: string): EmailSender {
+  return async (email) => {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: email.from || DEFAULT_FROM,
+        to: [email.to],
+        subject: email.subject,
+        html: email.html,
+      }),
+    });
+
+    if (!response.ok) throw new Error(`Resend rejected the email: ${await response.text()}`);
+  };
+}
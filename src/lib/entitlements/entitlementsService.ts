@@ -18,6 +18,8 @@ export interface Plan {
   priceYearly: number;
   features: Record<string, boolean>;
   limits: PlanLimits;
+  /** Per-unit prices for use past the limits; only units listed here are billed */
+  overagePrices: OveragePrices;
   isActive: boolean;
   sortOrder: number;
 }
@@ -29,8 +31,24 @@ export interface PlanLimits {
   storageMb: number;
   aiCallsPerMonth: number;
   industries: number;
+  /** Plans without these fall back to allowances derived from proposalsPerMonth */
+  emailsPerMonth?: number;
+  smsPerMonth?: number;
+  apiCallsPerMonth?: number;
 }
 
+/** Units billed as overage; storage is billed per GB held over the limit at period close */
+export type OverageUnit = 'proposals' | 'aiCalls' | 'emails' | 'sms' | 'apiCalls' | 'storageGb';
+
+export interface OveragePrice {
+  /** Cents per unit, as on the Stripe price */
+  unitAmount: number;
+  /** Stripe metered price the usage is reported against */
+  stripePriceId: string;
+}
+
+export type OveragePrices = Partial<Record<OverageUnit, OveragePrice>>;
+
 export interface OrgEntitlement {
   id: string;
   orgId: string;
@@ -68,7 +86,8 @@ export type FeatureKey =
   | 'white_label'
   | 'custom_domain'
   | 'sso'
-  | 'audit_logs';
+  | 'audit_logs'
+  | 'metered_overage';
 
 // ============================================================================
 // PLAN CACHE
@@ -282,7 +301,8 @@ export const entitlementsService = {
     currentValue: number
   ): Promise<{ allowed: boolean; limit: number; current: number }> {
     const limits = await this.getLimits(orgId);
-    const limit = limits[limitKey];
+    // Limits a plan doesn't set are treated as unlimited
+    const limit = limits[limitKey] ?? -1;
 
     // -1 means unlimited
     if (limit === -1) {
@@ -476,6 +496,7 @@ function transformPlan(row: Record<string, unknown>): Plan {
     priceYearly: row.price_yearly as number,
     features: row.features as Record<string, boolean>,
     limits: row.limits as PlanLimits,
+    overagePrices: (row.overage_prices as OveragePrices) || {},
     isActive: row.is_active as boolean,
     sortOrder: row.sort_order as number,
   };
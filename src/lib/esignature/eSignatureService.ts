@@ -3,8 +3,10 @@
  * Phase 44: Legally-binding electronic signatures with audit trail
  */
 
-import { supabase } from '../supabase';
+import { supabase, STORAGE_BUCKETS } from '../supabase';
 import { entitlementsService } from '../entitlements/entitlementsService';
+import { usageService } from '../usage/usageService';
+import type { Proposal } from '../database.types';
 
 // ============================================================================
 // TYPES
@@ -82,7 +84,9 @@ export type AuditAction =
   | 'signature_declined'
   | 'reminder_sent'
   | 'request_cancelled'
-  | 'request_expired';
+  | 'request_expired'
+  | 'signed_document_generated'
+  | 'document_verified';
 
 export interface SignatureCertificate {
   id: string;
@@ -98,6 +102,9 @@ export interface SignatureCertificate {
   certificateHash: string;
   issuedAt: string;
   pdfUrl: string;
+  /** SHA-256 of the final signed PDF bytes, once it has been issued */
+  signedPdfHash: string | null;
+  signedPdfPath: string | null;
 }
 
 export interface SignatureVerification {
@@ -109,6 +116,47 @@ export interface SignatureVerification {
   tamperDetected: boolean;
 }
 
+/** The contractual content of a proposal, as hashed and as printed */
+export interface ProposalDocument {
+  proposalNumber: string;
+  title: string | null;
+  propertyName: string | null;
+  propertyAddress: string | null;
+  introduction: string | null;
+  scopeOfWork: string | null;
+  termsAndConditions: string | null;
+  customSections: { title: string; content: string }[];
+  subtotal: number;
+  discountAmount: number;
+  taxAmount: number;
+  total: number;
+  depositAmount: number;
+}
+
+/**
+ * Result of a public tamper check. Certificate details and signers are only
+ * shown for a byte-identical copy of the issued PDF.
+ */
+export type SignedDocumentVerification =
+  | {
+      status: 'valid';
+      fileHash: string;
+      certificateId: string;
+      proposalId: string;
+      documentHash: string;
+      signedAt: string;
+      signers: { name: string; email: string; signedAt: string }[];
+    }
+  | {
+      /** tampered: claims a certificate but differs; unknown: names none of ours */
+      status: 'tampered' | 'unknown';
+      fileHash: string;
+    };
+
+/** Written into signed PDF keywords so a verifier can find the certificate */
+export const CERTIFICATE_KEYWORD = 'sommers-certificate';
+export const DOCUMENT_HASH_KEYWORD = 'sommers-document-sha256';
+
 // ============================================================================
 // E-SIGNATURE SERVICE
 // ============================================================================
@@ -131,17 +179,9 @@ export const eSignatureService = {
     const plan = await entitlementsService.getEffectivePlan(orgId);
     const canUseLegalGrade = ['business', 'enterprise'].includes(plan.id);
 
-    // Get document content for hashing
-    const { data: proposal } = await supabase
-      .from('proposals')
-      .select('content, total_amount')
-      .eq('id', proposalId)
-      .single();
-
-    if (!proposal) throw new Error('Proposal not found');
-
-    // Create document hash
-    const documentHash = await this.hashDocument(JSON.stringify(proposal.content));
+    // Hash exactly what the signed PDF will print
+    const document = await this.getProposalDocument(proposalId);
+    const documentHash = await this.hashDocument(JSON.stringify(document));
 
     // Default settings
     const finalSettings: SignatureSettings = {
@@ -382,6 +422,12 @@ export const eSignatureService = {
     let certificate: SignatureCertificate | undefined;
     if (allSigned) {
       certificate = await this.generateCertificate(requestId);
+      try {
+        certificate = await this.generateSignedDocument(certificate);
+      } catch (err) {
+        // Signing already stands; the PDF can be issued again from the certificate
+        console.error('Failed to issue signed PDF:', err);
+      }
       await this.updateProposalStatus(request.proposalId, 'signed');
     }
 
@@ -464,20 +510,7 @@ export const eSignatureService = {
       .single();
 
     if (error) throw error;
-
-    // Generate PDF certificate (would integrate with PDF service)
-    const pdfUrl = `/api/certificates/${data.id}/download`;
-
-    return {
-      id: data.id,
-      requestId: data.request_id,
-      proposalId: data.proposal_id,
-      documentHash: data.document_hash,
-      signers: data.signers,
-      certificateHash: data.certificate_hash,
-      issuedAt: data.issued_at,
-      pdfUrl,
-    };
+    return transformCertificate(data);
   },
 
   /**
@@ -520,20 +553,193 @@ export const eSignatureService = {
       .single();
 
     if (error && error.code !== 'PGRST116') throw error;
-    if (!data) return null;
+    return data ? transformCertificate(data) : null;
+  },
+
+  /**
+   * Get certificate by id
+   */
+  async getCertificateById(certificateId: string): Promise<SignatureCertificate | null> {
+    const { data, error } = await supabase
+      .from('signature_certificates')
+      .select('*')
+      .eq('id', certificateId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    return data ? transformCertificate(data) : null;
+  },
+
+  // --------------------------------------------------------------------------
+  // Signed Documents
+  // --------------------------------------------------------------------------
+
+  /**
+   * Load the contractual content of a proposal
+   */
+  async getProposalDocument(proposalId: string): Promise<ProposalDocument> {
+    const { data, error } = await supabase
+      .from('proposals')
+      .select('*')
+      .eq('id', proposalId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    if (!data) throw new Error('Proposal not found');
+    const proposal: Proposal = data;
+
+    const address = [proposal.property_address, proposal.property_city, proposal.property_state, proposal.property_zip]
+      .filter(Boolean)
+      .join(', ');
+    const sections = Array.isArray(proposal.custom_sections) ? proposal.custom_sections : [];
 
     return {
-      id: data.id,
-      requestId: data.request_id,
-      proposalId: data.proposal_id,
-      documentHash: data.document_hash,
-      signers: data.signers,
-      certificateHash: data.certificate_hash,
-      issuedAt: data.issued_at,
-      pdfUrl: `/api/certificates/${data.id}/download`,
+      proposalNumber: proposal.proposal_number,
+      title: proposal.title,
+      propertyName: proposal.property_name,
+      propertyAddress: address || null,
+      introduction: proposal.introduction,
+      scopeOfWork: proposal.scope_of_work,
+      termsAndConditions: proposal.terms_and_conditions,
+      customSections: (sections as Record<string, unknown>[])
+        .filter((section) => section && section.content)
+        .map((section) => ({ title: String(section.title || ''), content: String(section.content) })),
+      subtotal: proposal.subtotal || 0,
+      discountAmount: proposal.discount_amount || 0,
+      taxAmount: proposal.tax_amount || 0,
+      total: proposal.total || 0,
+      depositAmount: proposal.deposit_amount || 0,
     };
   },
 
+  /**
+   * Render, store and fingerprint the final signed PDF. The stored hash
+   * covers the exact bytes handed out, so any edit to the file is detectable.
+   */
+  async generateSignedDocument(certificate: SignatureCertificate): Promise<SignatureCertificate> {
+    const request = await this.getSignatureRequest(certificate.requestId);
+    if (!request) throw new Error('Request not found');
+
+    const [document, auditTrail] = await Promise.all([
+      this.getProposalDocument(certificate.proposalId),
+      this.getAuditTrail(certificate.requestId),
+    ]);
+
+    // Loaded on demand so jsPDF is only pulled in when a PDF is issued
+    const { renderSignedPdf } = await import('./signedPdfRenderer');
+    const origin = typeof window !== 'undefined' ? window.location.origin : '';
+    const bytes = renderSignedPdf({ document, request, certificate, auditTrail, verifyUrl: `${origin}/portal/verify` });
+    const signedPdfHash = await this.hashBytes(bytes);
+    const signedPdfPath = `signed/${request.orgId}/${request.id}.pdf`;
+
+    await usageService.meter(request.orgId, 'upload_storage', async () => {
+      const { error: uploadError } = await supabase.storage
+        .from(STORAGE_BUCKETS.DOCUMENTS)
+        .upload(signedPdfPath, new Blob([bytes], { type: 'application/pdf' }), {
+          contentType: 'application/pdf',
+          upsert: true,
+        });
+
+      if (uploadError) throw uploadError;
+    }, { quantity: bytes.byteLength, metadata: { filename: `${request.id}.pdf`, contentType: 'application/pdf' } });
+
+    const { data, error } = await supabase
+      .from('signature_certificates')
+      .update({
+        signed_pdf_hash: signedPdfHash,
+        signed_pdf_path: signedPdfPath,
+      })
+      .eq('id', certificate.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await this.logAudit(request.id, 'signed_document_generated', 'system', {
+      certificateId: certificate.id,
+      signedPdfHash,
+    });
+
+    return transformCertificate(data);
+  },
+
+  /**
+   * Download the issued signed PDF
+   */
+  async downloadSignedDocument(certificateId: string): Promise<Blob | null> {
+    const certificate = await this.getCertificateById(certificateId);
+    if (!certificate?.signedPdfPath) return null;
+
+    const { data, error } = await supabase.storage
+      .from(STORAGE_BUCKETS.DOCUMENTS)
+      .download(certificate.signedPdfPath);
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Check an uploaded PDF against the issued one. A byte-for-byte match is
+   * valid; a PDF that names a certificate but does not match was altered.
+   */
+  async verifySignedDocument(
+    bytes: ArrayBuffer,
+    metadata?: { ipAddress?: string; userAgent?: string }
+  ): Promise<SignedDocumentVerification> {
+    const fileHash = await this.hashBytes(bytes);
+
+    const { data: match, error } = await supabase
+      .from('signature_certificates')
+      .select('*')
+      .eq('signed_pdf_hash', fileHash)
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    let certificate = match ? transformCertificate(match) : null;
+    if (!certificate) {
+      const embeddedId = readEmbeddedCertificateId(bytes);
+      certificate = embeddedId ? await this.getCertificateById(embeddedId) : null;
+    }
+
+    if (!certificate) {
+      return { status: 'unknown', fileHash };
+    }
+
+    const status = certificate.signedPdfHash === fileHash ? 'valid' : 'tampered';
+
+    await this.logAudit(certificate.requestId, 'document_verified', 'public', { status, fileHash }, metadata);
+
+    // An altered copy only needs to name a certificate id, so it learns nothing about the signers
+    if (status === 'tampered') {
+      return { status, fileHash };
+    }
+
+    return {
+      status,
+      fileHash,
+      certificateId: certificate.id,
+      proposalId: certificate.proposalId,
+      documentHash: certificate.documentHash,
+      signedAt: certificate.issuedAt,
+      signers: certificate.signers.map(({ name, email, signedAt }) => ({ name, email, signedAt })),
+    };
+  },
+
+  /**
+   * Send a PDF to the public verification endpoint (for signed-out visitors)
+   */
+  async requestDocumentVerification(file: File): Promise<SignedDocumentVerification> {
+    const apiUrl = import.meta.env?.VITE_API_URL || '';
+    const body = new FormData();
+    body.append('file', file);
+
+    const response = await fetch(`${apiUrl}/api/signatures/verify`, { method: 'POST', body });
+    if (!response.ok) throw new Error('Failed to verify document');
+    return response.json();
+  },
+
   // --------------------------------------------------------------------------
   // Audit Trail
   // --------------------------------------------------------------------------
@@ -592,8 +798,14 @@ export const eSignatureService = {
    */
   async hashDocument(content: string): Promise<string> {
     const encoder = new TextEncoder();
-    const data = encoder.encode(content);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+    return this.hashBytes(encoder.encode(content));
+  },
+
+  /**
+   * Hash raw bytes (a file) using SHA-256
+   */
+  async hashBytes(bytes: BufferSource): Promise<string> {
+    const hashBuffer = await crypto.subtle.digest('SHA-256', bytes);
     const hashArray = Array.from(new Uint8Array(hashBuffer));
     return hashArray.map((b) => b.toString(16).padStart(2, '0')).join('');
   },
@@ -710,6 +922,31 @@ function transformSignatureRequest(row: Record<string, unknown>): SignatureReque
   };
 }
 
+function transformCertificate(row: Record<string, unknown>): SignatureCertificate {
+  return {
+    id: row.id as string,
+    requestId: row.request_id as string,
+    proposalId: row.proposal_id as string,
+    documentHash: row.document_hash as string,
+    signers: (row.signers || []) as SignatureCertificate['signers'],
+    certificateHash: row.certificate_hash as string,
+    issuedAt: row.issued_at as string,
+    pdfUrl: `/api/certificates/${row.id}/download`,
+    signedPdfHash: (row.signed_pdf_hash as string | null) ?? null,
+    signedPdfPath: (row.signed_pdf_path as string | null) ?? null,
+  };
+}
+
+/**
+ * Pull the certificate id back out of a signed PDF's keywords. Info
+ * dictionary strings are stored uncompressed, so a byte scan finds them.
+ */
+export function readEmbeddedCertificateId(bytes: ArrayBuffer): string | null {
+  const text = new TextDecoder('latin1').decode(bytes);
+  const match = text.match(new RegExp(`${CERTIFICATE_KEYWORD}:([0-9a-f-]{36})`));
+  return match ? match[1] : null;
+}
+
 // ============================================================================
 // EXPORT
 // ============================================================================
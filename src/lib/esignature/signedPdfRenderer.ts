@@ -0,0 +1,219 @@
+/**
+ * Sommer's Proposal System - Signed PDF Renderer
+ * Flattened signed proposal with signature images and a certificate of completion
+ */
+
+import { jsPDF } from 'jspdf';
+import {
+  CERTIFICATE_KEYWORD,
+  DOCUMENT_HASH_KEYWORD,
+  type AuditAction,
+  type ProposalDocument,
+  type SignatureAuditEntry,
+  type SignatureCertificate,
+  type SignatureRequest,
+} from './eSignatureService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SignedPdfData {
+  document: ProposalDocument;
+  request: SignatureRequest;
+  certificate: SignatureCertificate;
+  auditTrail: SignatureAuditEntry[];
+  /** Public page where a copy of this PDF can be checked */
+  verifyUrl: string;
+}
+
+const MARGIN = 50;
+const LINE_HEIGHT = 14;
+
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  request_created: 'Signature request created',
+  document_sent: 'Sent for signature',
+  document_viewed: 'Document viewed',
+  signature_started: 'Signing started',
+  signature_completed: 'Signed',
+  signature_declined: 'Declined',
+  reminder_sent: 'Reminder sent',
+  request_cancelled: 'Request cancelled',
+  request_expired: 'Request expired',
+  signed_document_generated: 'Signed PDF issued',
+  document_verified: 'Signed PDF verified',
+};
+
+// ============================================================================
+// RENDERER
+// ============================================================================
+
+function money(amount: number): string {
+  return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function timestamp(iso: string | null | undefined): string {
+  if (!iso) return '—';
+  return `${new Date(iso).toISOString().replace('T', ' ').substring(0, 19)} UTC`;
+}
+
+/**
+ * Render the signed proposal. The result is final: nothing on it is a form
+ * field, and the certificate id and document hash travel in the keywords.
+ */
+export function renderSignedPdf(data: SignedPdfData): ArrayBuffer {
+  const { document, request, certificate, auditTrail } = data;
+  const pdf = new jsPDF({ unit: 'pt', format: 'letter' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  let y = MARGIN;
+
+  pdf.setProperties({
+    title: `${document.proposalNumber} (signed)`,
+    subject: document.title || 'Signed proposal',
+    creator: "Sommer's Proposal System",
+    keywords: `${CERTIFICATE_KEYWORD}:${certificate.id} ${DOCUMENT_HASH_KEYWORD}:${certificate.documentHash}`,
+  });
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - MARGIN) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const heading = (text: string, size = 14) => {
+    ensureSpace(size + LINE_HEIGHT);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(size);
+    pdf.text(text, MARGIN, y);
+    y += size + 6;
+  };
+
+  const paragraph = (text: string, size = 10) => {
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(size);
+    for (const line of pdf.splitTextToSize(text, contentWidth) as string[]) {
+      ensureSpace(LINE_HEIGHT);
+      pdf.text(line, MARGIN, y);
+      y += LINE_HEIGHT;
+    }
+    y += 8;
+  };
+
+  const row = (label: string, value: string) => {
+    pdf.setFontSize(9);
+    const lines = pdf.splitTextToSize(value, contentWidth - 130) as string[];
+    ensureSpace(lines.length * 12);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text(label, MARGIN, y);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(lines, MARGIN + 130, y);
+    y += lines.length * 12 + 2;
+  };
+
+  // Proposal
+  heading(document.title || `Proposal ${document.proposalNumber}`, 20);
+  paragraph([document.proposalNumber, document.propertyName, document.propertyAddress].filter(Boolean).join(' · '));
+
+  if (document.introduction) paragraph(document.introduction);
+  if (document.scopeOfWork) {
+    heading('Scope of Work');
+    paragraph(document.scopeOfWork);
+  }
+  for (const section of document.customSections) {
+    heading(section.title);
+    paragraph(section.content);
+  }
+
+  heading('Pricing');
+  row('Subtotal', money(document.subtotal));
+  if (document.discountAmount) row('Discount', `-${money(document.discountAmount)}`);
+  if (document.taxAmount) row('Tax', money(document.taxAmount));
+  row('Total', money(document.total));
+  if (document.depositAmount) row('Deposit Due', money(document.depositAmount));
+  y += 10;
+
+  if (document.termsAndConditions) {
+    heading('Terms and Conditions');
+    paragraph(document.termsAndConditions, 9);
+  }
+
+  // Signatures
+  heading('Signatures');
+  for (const signer of request.signers.filter((s) => s.status === 'signed')) {
+    ensureSpace(100);
+    const signature = signer.signatureData;
+
+    if (signature && signature.type !== 'typed' && signature.value.startsWith('data:image')) {
+      pdf.addImage(signature.value, MARGIN, y, 180, 50);
+    } else {
+      pdf.setFont('times', 'italic');
+      pdf.setFontSize(24);
+      pdf.text(signature?.value || signer.name, MARGIN, y + 36);
+    }
+    y += 56;
+
+    pdf.setDrawColor(120);
+    pdf.line(MARGIN, y, MARGIN + 220, y);
+    y += 14;
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    pdf.text(`${signer.name} <${signer.email}> · ${signer.role}`, MARGIN, y);
+    y += 12;
+    pdf.text(`Signed ${timestamp(signer.signedAt)} from ${signer.ipAddress || 'unknown IP'}`, MARGIN, y);
+    y += 24;
+  }
+
+  // Certificate of completion
+  pdf.addPage();
+  y = MARGIN;
+  heading('Certificate of Completion', 18);
+  paragraph(`This certificate records the electronic signing of the document above. Upload this PDF at ${data.verifyUrl} to confirm it has not been altered since signing.`, 9);
+
+  row('Certificate ID', certificate.id);
+  row('Request ID', request.id);
+  row('Document', document.proposalNumber);
+  row('Document SHA-256', certificate.documentHash);
+  row('Certificate SHA-256', certificate.certificateHash);
+  row('Sent', timestamp(request.createdAt));
+  row('Completed', timestamp(request.completedAt));
+  row('Issued', timestamp(certificate.issuedAt));
+  y += 10;
+
+  heading('Signers', 12);
+  for (const signer of certificate.signers) {
+    row(signer.name, `${signer.email} · signed ${timestamp(signer.signedAt)} · IP ${signer.ipAddress}`);
+  }
+  y += 10;
+
+  heading('Audit Trail', 12);
+  const signerNames = new Map(request.signers.map((s) => [s.id, s.name]));
+  for (const entry of auditTrail) {
+    const actor = signerNames.get(entry.performedBy) || entry.performedBy;
+    const origin = entry.ipAddress ? ` · IP ${entry.ipAddress}` : '';
+    row(timestamp(entry.performedAt), `${AUDIT_ACTION_LABELS[entry.action] || entry.action} by ${actor}${origin}`);
+  }
+
+  // Footer on every page ties each page to the certificate
+  const pageCount = pdf.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    pdf.setPage(page);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(7);
+    pdf.setTextColor(120);
+    pdf.text(
+      `Certificate ${certificate.id} · Document SHA-256 ${certificate.documentHash} · Page ${page} of ${pageCount}`,
+      MARGIN,
+      pageHeight - 25
+    );
+    pdf.setTextColor(0);
+  }
+
+  return pdf.output('arraybuffer');
+}
+
+export default {
+  renderSignedPdf,
+};
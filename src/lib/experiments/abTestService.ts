@@ -0,0 +1,539 @@
+/**
+ * Sommer's Proposal System - Proposal A/B Test Service
+ * Tests of what clients see on a proposal (template, intro copy, video,
+ * block order): deterministic variant assignment, exposures logged on view,
+ * conversions attributed on acceptance, and lift with credible intervals
+ */
+
+import { supabase } from '../supabase';
+import type { Proposal } from '../database.types';
+import { compareVariants, winRateInterval, liftInterval } from './experimentStats';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ABTestType = 'template' | 'intro_copy' | 'video' | 'block_order';
+export type ABTestStatus = 'draft' | 'running' | 'paused' | 'completed';
+
+/** What a variant changes on the proposal; unset fields keep the proposal's own */
+export interface ProposalTreatment {
+  templateId?: string;
+  introduction?: string;
+  showVideo?: boolean;
+  /** Block codes to render first, in this order; the rest follow in their saved order */
+  blockOrder?: string[];
+}
+
+export interface ABTestVariant {
+  id: string;
+  name: string;
+  description: string | null;
+  isControl: boolean;
+  /** Relative share of proposals */
+  trafficAllocation: number;
+  treatment: ProposalTreatment;
+}
+
+export interface ABTest {
+  id: string;
+  orgId: string;
+  name: string;
+  description: string | null;
+  testType: ABTestType;
+  status: ABTestStatus;
+  variants: ABTestVariant[];
+  /** Viewed proposals each variant needs before the result is trusted */
+  minSampleSize: number;
+  /** Credible interval level, e.g. 0.95 */
+  confidenceLevel: number;
+  winningVariantId: string | null;
+  startedAt: string | null;
+  endedAt: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateABTestInput {
+  name: string;
+  description?: string;
+  testType: ABTestType;
+  variants: Omit<ABTestVariant, 'id'>[];
+  minSampleSize?: number;
+  confidenceLevel?: number;
+}
+
+/** A running test's variant for one proposal */
+export interface ProposalTestAssignment {
+  testId: string;
+  testType: ABTestType;
+  variantId: string;
+  treatment: ProposalTreatment;
+}
+
+export interface ABTestVariantResult {
+  variantId: string;
+  name: string;
+  isControl: boolean;
+  trafficAllocation: number;
+  exposures: number;
+  conversions: number;
+  conversionRate: number;
+  conversionRateInterval: [number, number];
+  totalRevenue: number;
+  avgOrderValue: number;
+  probabilityBest: number;
+  /** Conversion rate relative to control; null for control or no data */
+  lift: number | null;
+  liftInterval: [number, number] | null;
+}
+
+export interface ABTestResults {
+  testId: string;
+  variants: ABTestVariantResult[];
+  totalExposures: number;
+  totalConversions: number;
+  leaderVariantId: string | null;
+  /** The leader's lift interval clears zero and every variant has its sample */
+  significant: boolean;
+  note: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const AB_TEST_TYPES: { value: ABTestType; label: string }[] = [
+  { value: 'template', label: 'Template' },
+  { value: 'intro_copy', label: 'Intro copy' },
+  { value: 'video', label: 'Video vs. no video' },
+  { value: 'block_order', label: 'Block order' },
+];
+
+export const DEFAULT_AB_MIN_SAMPLE_SIZE = 100;
+export const DEFAULT_AB_CONFIDENCE_LEVEL = 0.95;
+
+// ============================================================================
+// A/B TEST SERVICE
+// ============================================================================
+
+export const abTestService = {
+  // --------------------------------------------------------------------------
+  // Tests
+  // --------------------------------------------------------------------------
+
+  /**
+   * Get the org's proposal A/B tests, newest first
+   */
+  async getTests(orgId: string): Promise<ABTest[]> {
+    const { data, error } = await supabase
+      .from('proposal_ab_tests')
+      .select('*')
+      .eq('org_id', orgId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(transformTest);
+  },
+
+  async getTest(testId: string): Promise<ABTest | null> {
+    const { data, error } = await supabase
+      .from('proposal_ab_tests')
+      .select('*')
+      .eq('id', testId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw error;
+    }
+    return transformTest(data);
+  },
+
+  /**
+   * Create a draft test. Variants can't be edited afterwards, since
+   * changing the split would move proposals between variants.
+   */
+  async createTest(
+    orgId: string,
+    input: CreateABTestInput,
+    options?: { userId?: string }
+  ): Promise<ABTest> {
+    validateVariants(input.testType, input.variants);
+
+    const { data, error } = await supabase
+      .from('proposal_ab_tests')
+      .insert({
+        org_id: orgId,
+        name: input.name,
+        description: input.description || null,
+        test_type: input.testType,
+        status: 'draft',
+        variants: input.variants.map((variant) => ({ ...variant, id: crypto.randomUUID() })),
+        min_sample_size: input.minSampleSize ?? DEFAULT_AB_MIN_SAMPLE_SIZE,
+        confidence_level: input.confidenceLevel ?? DEFAULT_AB_CONFIDENCE_LEVEL,
+        created_by: options?.userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return transformTest(data);
+  },
+
+  /**
+   * Start or resume a test. One test of each type runs at a time so a
+   * proposal never gets two conflicting treatments.
+   */
+  async startTest(testId: string): Promise<ABTest> {
+    const test = await this.getTest(testId);
+    if (!test) throw new Error('Test not found');
+    if (test.status !== 'draft' && test.status !== 'paused') {
+      throw new Error('Only draft or paused tests can be started');
+    }
+
+    const running = (await this.getRunningTests(test.orgId)).find((t) => t.testType === test.testType);
+    if (running) throw new Error(`"${running.name}" is already testing this; pause it first`);
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('proposal_ab_tests')
+      .update({
+        status: 'running',
+        started_at: test.startedAt || now,
+        updated_at: now,
+      })
+      .eq('id', testId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return transformTest(data);
+  },
+
+  /**
+   * Stop showing variants; proposals already exposed can still convert
+   */
+  async pauseTest(testId: string): Promise<void> {
+    const { error } = await supabase
+      .from('proposal_ab_tests')
+      .update({ status: 'paused', updated_at: new Date().toISOString() })
+      .eq('id', testId)
+      .eq('status', 'running');
+
+    if (error) throw error;
+  },
+
+  /**
+   * End the test, optionally naming a winner
+   */
+  async completeTest(testId: string, winningVariantId?: string): Promise<void> {
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('proposal_ab_tests')
+      .update({
+        status: 'completed',
+        winning_variant_id: winningVariantId || null,
+        ended_at: now,
+        updated_at: now,
+      })
+      .eq('id', testId);
+
+    if (error) throw error;
+  },
+
+  async deleteTest(testId: string): Promise<void> {
+    const { error } = await supabase
+      .from('proposal_ab_tests')
+      .delete()
+      .eq('id', testId);
+
+    if (error) throw error;
+  },
+
+  async getRunningTests(orgId: string): Promise<ABTest[]> {
+    const { data, error } = await supabase
+      .from('proposal_ab_tests')
+      .select('*')
+      .eq('org_id', orgId)
+      .eq('status', 'running');
+
+    if (error) throw error;
+    return (data || []).map(transformTest);
+  },
+
+  // --------------------------------------------------------------------------
+  // Assignment
+  // --------------------------------------------------------------------------
+
+  /**
+   * The variant a proposal gets in a test. Hashing the test and proposal
+   * ids means every view of a proposal shows the same variant without
+   * storing anything, and each test splits proposals independently.
+   */
+  assignVariant(test: ABTest, proposalId: string): ABTestVariant {
+    const total = test.variants.reduce((sum, v) => sum + v.trafficAllocation, 0);
+    const roll = bucketFor(`${test.id}:${proposalId}`);
+    let cumulative = 0;
+    for (const variant of test.variants) {
+      cumulative += variant.trafficAllocation / total;
+      if (roll < cumulative) return variant;
+    }
+    return test.variants[test.variants.length - 1];
+  },
+
+  /**
+   * Variants a proposal gets from every running test in its org
+   */
+  async getAssignments(orgId: string, proposalId: string): Promise<ProposalTestAssignment[]> {
+    const tests = await this.getRunningTests(orgId);
+    return tests.map((test) => {
+      const variant = this.assignVariant(test, proposalId);
+      return {
+        testId: test.id,
+        testType: test.testType,
+        variantId: variant.id,
+        treatment: variant.treatment,
+      };
+    });
+  },
+
+  /**
+   * Everything running tests change on a proposal, merged into one treatment
+   */
+  async getTreatment(orgId: string, proposalId: string): Promise<ProposalTreatment> {
+    const assignments = await this.getAssignments(orgId, proposalId);
+    return assignments.reduce<ProposalTreatment>(
+      (treatment, assignment) => ({ ...treatment, ...assignment.treatment }),
+      {}
+    );
+  },
+
+  // --------------------------------------------------------------------------
+  // Outcomes
+  // --------------------------------------------------------------------------
+
+  /**
+   * Log that a proposal was seen under each running test's variant. Only
+   * the first view per test counts.
+   */
+  async recordExposure(proposalId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('proposals')
+      .select('org_id')
+      .eq('id', proposalId)
+      .single();
+
+    if (error) throw error;
+    const proposal = data as Pick<Proposal, 'org_id'>;
+
+    const assignments = await this.getAssignments(proposal.org_id, proposalId);
+    if (assignments.length === 0) return;
+
+    const { error: insertError } = await supabase
+      .from('proposal_ab_exposures')
+      .upsert(
+        assignments.map((assignment) => ({
+          org_id: proposal.org_id,
+          test_id: assignment.testId,
+          proposal_id: proposalId,
+          variant_id: assignment.variantId,
+        })),
+        { onConflict: 'test_id,proposal_id', ignoreDuplicates: true }
+      );
+
+    if (insertError) throw insertError;
+  },
+
+  /**
+   * Credit an accepted proposal to the variants it was shown in tests that
+   * haven't finished
+   */
+  async recordConversion(proposalId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('proposals')
+      .select('org_id, total')
+      .eq('id', proposalId)
+      .single();
+
+    if (error) throw error;
+    const proposal = data as Pick<Proposal, 'org_id' | 'total'>;
+
+    const { data: tests, error: testsError } = await supabase
+      .from('proposal_ab_tests')
+      .select('id')
+      .eq('org_id', proposal.org_id)
+      .in('status', ['running', 'paused']);
+
+    if (testsError) throw testsError;
+    if (!tests || tests.length === 0) return;
+
+    const { error: updateError } = await supabase
+      .from('proposal_ab_exposures')
+      .update({
+        converted_at: new Date().toISOString(),
+        conversion_value: proposal.total,
+      })
+      .eq('proposal_id', proposalId)
+      .in('test_id', (tests as { id: string }[]).map((t) => t.id))
+      .is('converted_at', null);
+
+    if (updateError) throw updateError;
+  },
+
+  // --------------------------------------------------------------------------
+  // Results
+  // --------------------------------------------------------------------------
+
+  /**
+   * Conversion rate per variant over exposed proposals, with each
+   * variant's lift over control
+   */
+  async getResults(testId: string): Promise<ABTestResults> {
+    const test = await this.getTest(testId);
+    if (!test) throw new Error('Test not found');
+
+    const { data, error } = await supabase
+      .from('proposal_ab_exposures')
+      .select('variant_id, converted_at, conversion_value')
+      .eq('test_id', testId);
+
+    if (error) throw error;
+    const exposures = (data || []) as {
+      variant_id: string;
+      converted_at: string | null;
+      conversion_value: number | null;
+    }[];
+
+    const outcomes = test.variants.map((variant) => {
+      const exposed = exposures.filter((e) => e.variant_id === variant.id);
+      const converted = exposed.filter((e) => e.converted_at);
+      return {
+        variant,
+        exposures: exposed.length,
+        wins: converted.length,
+        losses: exposed.length - converted.length,
+        revenue: converted.reduce((sum, e) => sum + Number(e.conversion_value || 0), 0),
+      };
+    });
+
+    const comparison = compareVariants(outcomes.map((o) => ({ wins: o.wins, losses: o.losses })));
+    const control = outcomes.find((o) => o.variant.isControl);
+
+    const variants: ABTestVariantResult[] = outcomes.map((o, i) => {
+      const compared = !o.variant.isControl && !!control && control.exposures > 0 && o.exposures > 0;
+      const controlRate = control && control.exposures > 0 ? control.wins / control.exposures : 0;
+      const rate = o.exposures > 0 ? o.wins / o.exposures : 0;
+      return {
+        variantId: o.variant.id,
+        name: o.variant.name,
+        isControl: o.variant.isControl,
+        trafficAllocation: o.variant.trafficAllocation,
+        exposures: o.exposures,
+        conversions: o.wins,
+        conversionRate: rate,
+        conversionRateInterval: winRateInterval(o.wins, o.losses, test.confidenceLevel),
+        totalRevenue: Math.round(o.revenue * 100) / 100,
+        avgOrderValue: o.wins > 0 ? Math.round((o.revenue / o.wins) * 100) / 100 : 0,
+        probabilityBest: comparison[i].probabilityBest,
+        lift: compared && controlRate > 0 ? rate / controlRate - 1 : null,
+        liftInterval: compared ? liftInterval(control!, o, test.confidenceLevel) : null,
+      };
+    });
+
+    const leader = variants.reduce<ABTestVariantResult | null>(
+      (best, v) => (!best || v.probabilityBest > best.probabilityBest ? v : best),
+      null
+    );
+    const shortfall = Math.max(0, ...variants.map((v) => test.minSampleSize - v.exposures));
+    const level = Math.round(test.confidenceLevel * 100);
+    const clearsZero = !!leader?.liftInterval && leader.liftInterval[0] > 0;
+
+    let note: string;
+    if (shortfall > 0) {
+      note = `Waiting on up to ${shortfall} more viewed proposals per variant`;
+    } else if (!leader || leader.isControl) {
+      note = 'No variant is beating the control';
+    } else if (!clearsZero) {
+      note = `${leader.name} leads, but its ${level}% lift interval still includes zero`;
+    } else {
+      note = `${leader.name} converts better than control with ${level}% credibility`;
+    }
+
+    return {
+      testId,
+      variants,
+      totalExposures: exposures.length,
+      totalConversions: variants.reduce((sum, v) => sum + v.conversions, 0),
+      leaderVariantId: leader?.variantId || null,
+      significant: shortfall === 0 && clearsZero,
+      note,
+    };
+  },
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function validateVariants(testType: ABTestType, variants: Omit<ABTestVariant, 'id'>[]): void {
+  if (variants.length < 2) {
+    throw new Error('A test needs a control and at least one variant');
+  }
+  if (variants.filter((v) => v.isControl).length !== 1) {
+    throw new Error('Exactly one variant must be the control');
+  }
+  if (variants.some((v) => !(v.trafficAllocation > 0))) {
+    throw new Error('Every variant needs a share of traffic');
+  }
+
+  // The control may leave the proposal as it is; the others must change what the test is about
+  for (const variant of variants.filter((v) => !v.isControl)) {
+    const { treatment } = variant;
+    const missing =
+      (testType === 'template' && !treatment.templateId) ||
+      (testType === 'intro_copy' && !treatment.introduction?.trim()) ||
+      (testType === 'video' && treatment.showVideo === undefined) ||
+      (testType === 'block_order' && !treatment.blockOrder?.length);
+    if (missing) {
+      throw new Error(`${variant.name}: set the ${testType.replace('_', ' ')} this variant shows`);
+    }
+  }
+}
+
+/** FNV-1a, scaled to [0, 1) */
+function bucketFor(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 4294967296;
+}
+
+function transformTest(row: Record<string, unknown>): ABTest {
+  return {
+    id: row.id as string,
+    orgId: row.org_id as string,
+    name: row.name as string,
+    description: row.description as string | null,
+    testType: row.test_type as ABTestType,
+    status: row.status as ABTestStatus,
+    variants: (row.variants || []) as ABTestVariant[],
+    minSampleSize: row.min_sample_size as number,
+    confidenceLevel: Number(row.confidence_level),
+    winningVariantId: row.winning_variant_id as string | null,
+    startedAt: row.started_at as string | null,
+    endedAt: row.ended_at as string | null,
+    createdBy: row.created_by as string | null,
+    createdAt: row.created_at as string,
+    updatedAt: row.updated_at as string,
+  };
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+export default abTestService;
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { compareVariants, createRng, liftInterval, sampleBeta, winRateInterval } from './experimentStats';
+
+/** Pricing experiments' default rollout threshold */
+const ROLLOUT_THRESHOLD = 0.95;
+
+describe('sampling', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    const values = Array.from({ length: 1000 }, () => a());
+
+    expect(values).toEqual(Array.from({ length: 1000 }, () => b()));
+    expect(values.every((v) => v >= 0 && v < 1)).toBe(true);
+  });
+
+  it('draws Beta samples around the distribution mean', () => {
+    const rng = createRng(7);
+    const draws = Array.from({ length: 20000 }, () => sampleBeta(3, 7, rng));
+    const mean = draws.reduce((sum, v) => sum + v, 0) / draws.length;
+
+    expect(mean).toBeCloseTo(0.3, 2);
+    expect(draws.every((v) => v > 0 && v < 1)).toBe(true);
+  });
+});
+
+describe('compareVariants', () => {
+  it('splits the chance of being best between identical variants', () => {
+    const [a, b] = compareVariants([{ wins: 20, losses: 20 }, { wins: 20, losses: 20 }]);
+
+    expect(a.probabilityBest + b.probabilityBest).toBe(1);
+    expect(a.probabilityBest).toBeGreaterThan(0.45);
+    expect(a.probabilityBest).toBeLessThan(0.55);
+    expect(Math.max(a.probabilityBest, b.probabilityBest)).toBeLessThan(ROLLOUT_THRESHOLD);
+  });
+
+  it('only clears the rollout threshold once the sample supports it', () => {
+    const small = compareVariants([{ wins: 12, losses: 8 }, { wins: 8, losses: 12 }]);
+    const large = compareVariants([{ wins: 60, losses: 40 }, { wins: 40, losses: 60 }]);
+
+    expect(small[0].probabilityBest).toBeGreaterThan(0.5);
+    expect(small[0].probabilityBest).toBeLessThan(ROLLOUT_THRESHOLD);
+    expect(large[0].probabilityBest).toBeGreaterThanOrEqual(ROLLOUT_THRESHOLD);
+    expect(large[0].expectedLoss).toBeLessThan(large[1].expectedLoss);
+    expect(large[0].expectedLoss).toBeLessThan(0.001);
+  });
+
+  it('weighs wins by their value', () => {
+    const [cheap, valuable] = compareVariants([
+      { wins: 30, losses: 30, valuePerWin: 1000 },
+      { wins: 30, losses: 30, valuePerWin: 2000 },
+    ]);
+
+    expect(valuable.probabilityBest).toBeGreaterThan(0.99);
+    expect(cheap.expectedLoss).toBeGreaterThan(400);
+  });
+
+  it('gives the same numbers for the same outcomes', () => {
+    const outcomes = [{ wins: 5, losses: 9 }, { wins: 7, losses: 6 }, { wins: 0, losses: 0 }];
+    expect(compareVariants(outcomes)).toEqual(compareVariants(outcomes));
+    expect(compareVariants([])).toEqual([]);
+  });
+});
+
+describe('credible intervals', () => {
+  it('spans the middle of a uniform prior with no data', () => {
+    const [low, high] = winRateInterval(0, 0);
+    expect(low).toBeCloseTo(0.025, 2);
+    expect(high).toBeCloseTo(0.975, 2);
+  });
+
+  it('narrows with more data and widens with a higher level', () => {
+    const [low, high] = winRateInterval(50, 50);
+    const [low99, high99] = winRateInterval(50, 50, 0.99);
+    const [lowSmall, highSmall] = winRateInterval(5, 5);
+
+    expect(low).toBeLessThan(0.5);
+    expect(high).toBeGreaterThan(0.5);
+    expect(high99 - low99).toBeGreaterThan(high - low);
+    expect(highSmall - lowSmall).toBeGreaterThan(high - low);
+  });
+
+  it('keeps zero lift inside the interval until the difference is clear', () => {
+    const [evenLow, evenHigh] = liftInterval({ wins: 20, losses: 20 }, { wins: 20, losses: 20 });
+    expect(evenLow).toBeLessThan(0);
+    expect(evenHigh).toBeGreaterThan(0);
+
+    const [clearLow] = liftInterval({ wins: 40, losses: 60 }, { wins: 60, losses: 40 });
+    expect(clearLow).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Sommer's Proposal System - Experiment Statistics
+ * Bayesian comparison of experiment variants: Beta posteriors on win rate
+ * with a uniform prior, and Monte Carlo draws for the chance each variant
+ * is best and what picking it would cost if it isn't
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface VariantOutcomes {
+  wins: number;
+  losses: number;
+  /** What one win is worth, e.g. the average signed total; 1 compares win rates */
+  valuePerWin?: number;
+}
+
+export interface VariantComparison {
+  /** Share of draws in which this variant had the highest value */
+  probabilityBest: number;
+  /** Average value given up per trial by picking this variant, in valuePerWin units */
+  expectedLoss: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_DRAWS = 20000;
+
+/** Fixed so the same outcomes always give the same numbers */
+const DEFAULT_SEED = 0x5eed;
+
+// ============================================================================
+// COMPARISON
+// ============================================================================
+
+/**
+ * Chance each variant is best, and its expected loss, from joint posterior draws
+ */
+export function compareVariants(
+  variants: VariantOutcomes[],
+  options?: { draws?: number; seed?: number }
+): VariantComparison[] {
+  const draws = options?.draws ?? DEFAULT_DRAWS;
+  const rng = createRng(options?.seed ?? DEFAULT_SEED);
+  const bestCounts = variants.map(() => 0);
+  const lossSums = variants.map(() => 0);
+
+  if (variants.length === 0) return [];
+
+  for (let d = 0; d < draws; d++) {
+    const values = variants.map((v) =>
+      sampleBeta(v.wins + 1, v.losses + 1, rng) * (v.valuePerWin ?? 1)
+    );
+    const max = Math.max(...values);
+    const best = values.indexOf(max);
+    bestCounts[best]++;
+    values.forEach((value, i) => {
+      lossSums[i] += max - value;
+    });
+  }
+
+  return variants.map((_, i) => ({
+    probabilityBest: bestCounts[i] / draws,
+    expectedLoss: lossSums[i] / draws,
+  }));
+}
+
+/**
+ * Equal-tailed credible interval for a win rate
+ */
+export function winRateInterval(
+  wins: number,
+  losses: number,
+  level: number = 0.95,
+  options?: { draws?: number; seed?: number }
+): [number, number] {
+  const draws = options?.draws ?? 4000;
+  const rng = createRng(options?.seed ?? DEFAULT_SEED);
+  const samples: number[] = [];
+  for (let d = 0; d < draws; d++) {
+    samples.push(sampleBeta(wins + 1, losses + 1, rng));
+  }
+  samples.sort((a, b) => a - b);
+
+  const tail = (1 - level) / 2;
+  return [
+    samples[Math.floor(tail * (draws - 1))],
+    samples[Math.ceil((1 - tail) * (draws - 1))],
+  ];
+}
+
+/**
+ * Equal-tailed credible interval for a variant's relative lift over control,
+ * i.e. variantRate / controlRate - 1
+ */
+export function liftInterval(
+  control: VariantOutcomes,
+  variant: VariantOutcomes,
+  level: number = 0.95,
+  options?: { draws?: number; seed?: number }
+): [number, number] {
+  const draws = options?.draws ?? 4000;
+  const rng = createRng(options?.seed ?? DEFAULT_SEED);
+  const samples: number[] = [];
+  for (let d = 0; d < draws; d++) {
+    const controlRate = sampleBeta(control.wins + 1, control.losses + 1, rng);
+    const variantRate = sampleBeta(variant.wins + 1, variant.losses + 1, rng);
+    samples.push(variantRate / controlRate - 1);
+  }
+  samples.sort((a, b) => a - b);
+
+  const tail = (1 - level) / 2;
+  return [
+    samples[Math.floor(tail * (draws - 1))],
+    samples[Math.ceil((1 - tail) * (draws - 1))],
+  ];
+}
+
+// ============================================================================
+// SAMPLING
+// ============================================================================
+
+/** mulberry32: small, fast and good enough for Monte Carlo */
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function sampleBeta(alpha: number, beta: number, rng: () => number): number {
+  const x = sampleGamma(alpha, rng);
+  const y = sampleGamma(beta, rng);
+  return x / (x + y);
+}
+
+/** Marsaglia and Tsang; shapes under 1 are boosted by one and scaled back */
+function sampleGamma(shape: number, rng: () => number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1, rng) * Math.pow(rng(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(rng);
+      v = 1 + c * x;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = rng();
+    if (u < 1 - 0.0331 * x ** 4) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+/** Box-Muller */
+function sampleNormal(rng: () => number): number {
+  const u = 1 - rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+export default {
+  compareVariants,
+  winRateInterval,
+  liftInterval,
+  createRng,
+  sampleBeta,
+};
@@ -0,0 +1,3 @@
+export * from './experimentStats';
+export * from './pricingExperimentService';
+export * from './abTestService';
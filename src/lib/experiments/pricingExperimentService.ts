@@ -0,0 +1,517 @@
+/**
+ * Sommer's Proposal System - Pricing Experiment Service
+ * Controlled tests of tier multipliers and discount offers on new proposals,
+ * judged on signed and rejected outcomes, with automatic winner rollout
+ */
+
+import { supabase } from '../supabase';
+import type { PricingTier } from '../pricing/pricingEngine';
+import { compareVariants, winRateInterval } from './experimentStats';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PricingExperimentKind = 'tier_multiplier' | 'discount_offer';
+export type PricingExperimentStatus = 'draft' | 'running' | 'completed' | 'stopped';
+
+/** Limits every variant must stay within */
+export interface PricingBounds {
+  minMultiplier: number;
+  maxMultiplier: number;
+  maxDiscountPercent: number;
+}
+
+export interface PricingVariant {
+  id: string;
+  name: string;
+  isControl: boolean;
+  /** Relative share of new proposals */
+  weight: number;
+  /** Tiers left out keep the standard multipliers */
+  tierMultipliers: Partial<Record<PricingTier, number>>;
+  discountPercent: number;
+}
+
+export interface PricingExperiment {
+  id: string;
+  orgId: string;
+  name: string;
+  hypothesis: string | null;
+  kind: PricingExperimentKind;
+  status: PricingExperimentStatus;
+  variants: PricingVariant[];
+  bounds: PricingBounds;
+  /** Decided proposals each variant needs before a winner can be called */
+  minSampleSize: number;
+  /** Chance of being best a variant needs to win, e.g. 0.95 */
+  rolloutThreshold: number;
+  autoRollout: boolean;
+  winnerVariantId: string | null;
+  startedAt: string | null;
+  completedAt: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+export interface CreatePricingExperimentInput {
+  name: string;
+  hypothesis?: string;
+  kind: PricingExperimentKind;
+  variants: Omit<PricingVariant, 'id'>[];
+  bounds?: Partial<PricingBounds>;
+  minSampleSize?: number;
+  rolloutThreshold?: number;
+  autoRollout?: boolean;
+}
+
+/** Pricing a new proposal starts from: an experiment variant, or the org's rolled-out defaults */
+export interface ProposalPricingAssignment {
+  experimentId: string | null;
+  variantId: string | null;
+  tierMultipliers: Partial<Record<PricingTier, number>>;
+  discountPercent: number;
+}
+
+/** Winning variant settings applied to every new proposal */
+export interface OrgPricingOverrides {
+  tierMultipliers: Partial<Record<PricingTier, number>>;
+  discountPercent: number;
+  experimentId: string | null;
+  appliedAt: string | null;
+}
+
+export interface PricingVariantResult {
+  variantId: string;
+  name: string;
+  isControl: boolean;
+  assigned: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  winRateInterval: [number, number];
+  avgWonTotal: number;
+  /** Win rate times average signed total; what the test optimizes */
+  revenuePerProposal: number;
+  probabilityBest: number;
+  expectedLoss: number;
+  /** Revenue per proposal relative to control; null for control or no data */
+  lift: number | null;
+}
+
+export interface PricingExperimentResults {
+  experimentId: string;
+  variants: PricingVariantResult[];
+  decided: number;
+  leaderVariantId: string | null;
+  readyToRollout: boolean;
+  note: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_PRICING_BOUNDS: PricingBounds = {
+  minMultiplier: 0.7,
+  maxMultiplier: 1.6,
+  maxDiscountPercent: 15,
+};
+
+export const DEFAULT_MIN_SAMPLE_SIZE = 30;
+export const DEFAULT_ROLLOUT_THRESHOLD = 0.95;
+
+const WON_STATUSES = ['accepted'];
+const LOST_STATUSES = ['rejected', 'expired'];
+
+/** Average signed total used before a variant has any wins */
+const FALLBACK_WON_TOTAL = 1;
+
+// ============================================================================
+// PRICING EXPERIMENT SERVICE
+// ============================================================================
+
+export const pricingExperimentService = {
+  // --------------------------------------------------------------------------
+  // Experiments
+  // --------------------------------------------------------------------------
+
+  /**
+   * Get the org's pricing experiments, newest first
+   */
+  async getExperiments(orgId: string): Promise<PricingExperiment[]> {
+    const { data, error } = await supabase
+      .from('pricing_experiments')
+      .select('*')
+      .eq('org_id', orgId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(transformExperiment);
+  },
+
+  async getExperiment(experimentId: string): Promise<PricingExperiment | null> {
+    const { data, error } = await supabase
+      .from('pricing_experiments')
+      .select('*')
+      .eq('id', experimentId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') return null;
+      throw error;
+    }
+    return transformExperiment(data);
+  },
+
+  /**
+   * Create a draft experiment; variants are checked against the bounds
+   */
+  async createExperiment(
+    orgId: string,
+    input: CreatePricingExperimentInput,
+    options?: { userId?: string }
+  ): Promise<PricingExperiment> {
+    const bounds = { ...DEFAULT_PRICING_BOUNDS, ...input.bounds };
+    validateVariants(input.kind, input.variants, bounds);
+
+    const { data, error } = await supabase
+      .from('pricing_experiments')
+      .insert({
+        org_id: orgId,
+        name: input.name,
+        hypothesis: input.hypothesis || null,
+        kind: input.kind,
+        status: 'draft',
+        variants: input.variants.map((variant) => ({ ...variant, id: crypto.randomUUID() })),
+        bounds,
+        min_sample_size: input.minSampleSize ?? DEFAULT_MIN_SAMPLE_SIZE,
+        rollout_threshold: input.rolloutThreshold ?? DEFAULT_ROLLOUT_THRESHOLD,
+        auto_rollout: input.autoRollout ?? true,
+        created_by: options?.userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return transformExperiment(data);
+  },
+
+  /**
+   * Start assigning new proposals to a draft experiment. One pricing
+   * experiment runs at a time so each proposal is in at most one.
+   */
+  async startExperiment(experimentId: string): Promise<PricingExperiment> {
+    const experiment = await this.getExperiment(experimentId);
+    if (!experiment) throw new Error('Experiment not found');
+    if (experiment.status !== 'draft') throw new Error('Only draft experiments can be started');
+
+    const running = await this.getRunningExperiment(experiment.orgId);
+    if (running) throw new Error(`"${running.name}" is already running; stop it first`);
+
+    const { data, error } = await supabase
+      .from('pricing_experiments')
+      .update({ status: 'running', started_at: new Date().toISOString() })
+      .eq('id', experimentId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return transformExperiment(data);
+  },
+
+  /**
+   * Stop an experiment without rolling anything out
+   */
+  async stopExperiment(experimentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('pricing_experiments')
+      .update({ status: 'stopped', completed_at: new Date().toISOString() })
+      .eq('id', experimentId)
+      .eq('status', 'running');
+
+    if (error) throw error;
+  },
+
+  async getRunningExperiment(orgId: string): Promise<PricingExperiment | null> {
+    const { data, error } = await supabase
+      .from('pricing_experiments')
+      .select('*')
+      .eq('org_id', orgId)
+      .eq('status', 'running')
+      .limit(1);
+
+    if (error) throw error;
+    return data && data.length > 0 ? transformExperiment(data[0]) : null;
+  },
+
+  // --------------------------------------------------------------------------
+  // Assignment
+  // --------------------------------------------------------------------------
+
+  /**
+   * Pricing for a proposal about to be created: a randomly drawn variant
+   * while an experiment runs, otherwise the org's rolled-out defaults
+   */
+  async getPricingForNewProposal(orgId: string): Promise<ProposalPricingAssignment> {
+    const experiment = await this.getRunningExperiment(orgId);
+    if (experiment) {
+      const variant = pickVariant(experiment.variants, Math.random());
+      return {
+        experimentId: experiment.id,
+        variantId: variant.id,
+        tierMultipliers: variant.tierMultipliers,
+        discountPercent: variant.discountPercent,
+      };
+    }
+
+    const overrides = await this.getOrgPricingOverrides(orgId);
+    return {
+      experimentId: null,
+      variantId: null,
+      tierMultipliers: overrides.tierMultipliers,
+      discountPercent: overrides.discountPercent,
+    };
+  },
+
+  async getOrgPricingOverrides(orgId: string): Promise<OrgPricingOverrides> {
+    const { data, error } = await supabase
+      .from('organizations')
+      .select('pricing_overrides')
+      .eq('id', orgId)
+      .single();
+
+    if (error) throw error;
+    const org = data as { pricing_overrides: Partial<OrgPricingOverrides> | null } | null;
+    const overrides = org?.pricing_overrides || {};
+    return {
+      tierMultipliers: overrides.tierMultipliers || {},
+      discountPercent: overrides.discountPercent || 0,
+      experimentId: overrides.experimentId || null,
+      appliedAt: overrides.appliedAt || null,
+    };
+  },
+
+  // --------------------------------------------------------------------------
+  // Results
+  // --------------------------------------------------------------------------
+
+  /**
+   * Outcomes per variant from the proposals assigned to it. Variants are
+   * compared on revenue per proposal, so a higher price that loses a few
+   * more deals can still win.
+   */
+  async getResults(experimentId: string): Promise<PricingExperimentResults> {
+    const experiment = await this.getExperiment(experimentId);
+    if (!experiment) throw new Error('Experiment not found');
+
+    const { data, error } = await supabase
+      .from('proposals')
+      .select('id, status, total, pricing_variant_id')
+      .eq('pricing_experiment_id', experimentId);
+
+    if (error) throw error;
+    const proposals = (data || []) as { status: string; total: number | null; pricing_variant_id: string }[];
+
+    const outcomes = experiment.variants.map((variant) => {
+      const assigned = proposals.filter((p) => p.pricing_variant_id === variant.id);
+      const won = assigned.filter((p) => WON_STATUSES.includes(p.status));
+      const losses = assigned.filter((p) => LOST_STATUSES.includes(p.status)).length;
+      const avgWonTotal = won.length > 0
+        ? won.reduce((sum, p) => sum + Number(p.total || 0), 0) / won.length
+        : 0;
+      return { variant, assigned: assigned.length, wins: won.length, losses, avgWonTotal };
+    });
+
+    // Variants with no wins yet are valued like the others so they can still compete
+    const wonTotals = outcomes.filter((o) => o.wins > 0).map((o) => o.avgWonTotal);
+    const pooledWonTotal = wonTotals.length > 0
+      ? wonTotals.reduce((sum, t) => sum + t, 0) / wonTotals.length
+      : FALLBACK_WON_TOTAL;
+
+    const comparison = compareVariants(outcomes.map((o) => ({
+      wins: o.wins,
+      losses: o.losses,
+      valuePerWin: o.wins > 0 ? o.avgWonTotal : pooledWonTotal,
+    })));
+
+    const control = outcomes.find((o) => o.variant.isControl);
+    const revenuePer = (o: typeof outcomes[number]) =>
+      o.wins + o.losses > 0 ? (o.wins / (o.wins + o.losses)) * o.avgWonTotal : 0;
+    const controlRevenue = control ? revenuePer(control) : 0;
+
+    const variants: PricingVariantResult[] = outcomes.map((o, i) => {
+      const decided = o.wins + o.losses;
+      const revenuePerProposal = revenuePer(o);
+      return {
+        variantId: o.variant.id,
+        name: o.variant.name,
+        isControl: o.variant.isControl,
+        assigned: o.assigned,
+        wins: o.wins,
+        losses: o.losses,
+        winRate: decided > 0 ? o.wins / decided : 0,
+        winRateInterval: winRateInterval(o.wins, o.losses),
+        avgWonTotal: Math.round(o.avgWonTotal * 100) / 100,
+        revenuePerProposal: Math.round(revenuePerProposal * 100) / 100,
+        probabilityBest: comparison[i].probabilityBest,
+        expectedLoss: Math.round(comparison[i].expectedLoss * 100) / 100,
+        lift: !o.variant.isControl && controlRevenue > 0 && decided > 0
+          ? revenuePerProposal / controlRevenue - 1
+          : null,
+      };
+    });
+
+    const leader = variants.reduce<PricingVariantResult | null>(
+      (best, v) => (!best || v.probabilityBest > best.probabilityBest ? v : best),
+      null
+    );
+    const shortfall = Math.max(
+      0,
+      ...variants.map((v) => experiment.minSampleSize - (v.wins + v.losses))
+    );
+    const confident = !!leader && leader.probabilityBest >= experiment.rolloutThreshold;
+
+    let note: string;
+    if (shortfall > 0) {
+      note = `Waiting on up to ${shortfall} more signed or rejected proposals per variant`;
+    } else if (!confident) {
+      note = `No variant is best with ${Math.round(experiment.rolloutThreshold * 100)}% probability yet`;
+    } else {
+      note = `${leader!.name} is best with ${Math.round(leader!.probabilityBest * 100)}% probability`;
+    }
+
+    return {
+      experimentId,
+      variants,
+      decided: variants.reduce((sum, v) => sum + v.wins + v.losses, 0),
+      leaderVariantId: leader?.variantId || null,
+      readyToRollout: shortfall === 0 && confident,
+      note,
+    };
+  },
+
+  /**
+   * Check a running experiment after one of its proposals is signed or
+   * rejected, and roll out the winner once there is one
+   */
+  async evaluateExperiment(experimentId: string): Promise<PricingExperimentResults | null> {
+    const experiment = await this.getExperiment(experimentId);
+    if (!experiment || experiment.status !== 'running') return null;
+
+    const results = await this.getResults(experimentId);
+    if (experiment.autoRollout && results.readyToRollout && results.leaderVariantId) {
+      await this.rolloutVariant(experimentId, results.leaderVariantId);
+    }
+    return results;
+  },
+
+  /**
+   * End the experiment and make a variant's pricing the org default
+   */
+  async rolloutVariant(experimentId: string, variantId: string): Promise<void> {
+    const experiment = await this.getExperiment(experimentId);
+    if (!experiment) throw new Error('Experiment not found');
+
+    const variant = experiment.variants.find((v) => v.id === variantId);
+    if (!variant) throw new Error('Variant not found');
+
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('pricing_experiments')
+      .update({
+        status: 'completed',
+        winner_variant_id: variantId,
+        completed_at: now,
+      })
+      .eq('id', experimentId);
+
+    if (error) throw error;
+
+    const overrides: OrgPricingOverrides = {
+      tierMultipliers: variant.tierMultipliers,
+      discountPercent: variant.discountPercent,
+      experimentId,
+      appliedAt: now,
+    };
+
+    const { error: orgError } = await supabase
+      .from('organizations')
+      .update({ pricing_overrides: overrides })
+      .eq('id', experiment.orgId);
+
+    if (orgError) throw orgError;
+  },
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function validateVariants(
+  kind: PricingExperimentKind,
+  variants: Omit<PricingVariant, 'id'>[],
+  bounds: PricingBounds
+): void {
+  if (variants.length < 2) {
+    throw new Error('An experiment needs a control and at least one variant');
+  }
+  if (variants.filter((v) => v.isControl).length !== 1) {
+    throw new Error('Exactly one variant must be the control');
+  }
+  if (variants.some((v) => !(v.weight > 0))) {
+    throw new Error('Every variant needs a share of traffic');
+  }
+
+  for (const variant of variants) {
+    if (kind === 'tier_multiplier') {
+      for (const [tier, multiplier] of Object.entries(variant.tierMultipliers)) {
+        if (multiplier < bounds.minMultiplier || multiplier > bounds.maxMultiplier) {
+          throw new Error(
+            `${variant.name}: ${tier} multiplier must be between ${bounds.minMultiplier} and ${bounds.maxMultiplier}`
+          );
+        }
+      }
+    } else if (variant.discountPercent < 0 || variant.discountPercent > bounds.maxDiscountPercent) {
+      throw new Error(`${variant.name}: discount must be between 0 and ${bounds.maxDiscountPercent}%`);
+    }
+  }
+}
+
+/** Weighted pick; roll is uniform on [0, 1) */
+function pickVariant(variants: PricingVariant[], roll: number): PricingVariant {
+  const total = variants.reduce((sum, v) => sum + v.weight, 0);
+  let cumulative = 0;
+  for (const variant of variants) {
+    cumulative += variant.weight / total;
+    if (roll < cumulative) return variant;
+  }
+  return variants[variants.length - 1];
+}
+
+function transformExperiment(row: Record<string, unknown>): PricingExperiment {
+  return {
+    id: row.id as string,
+    orgId: row.org_id as string,
+    name: row.name as string,
+    hypothesis: row.hypothesis as string | null,
+    kind: row.kind as PricingExperimentKind,
+    status: row.status as PricingExperimentStatus,
+    variants: (row.variants || []) as PricingVariant[],
+    bounds: { ...DEFAULT_PRICING_BOUNDS, ...(row.bounds as Partial<PricingBounds>) },
+    minSampleSize: row.min_sample_size as number,
+    rolloutThreshold: Number(row.rollout_threshold),
+    autoRollout: row.auto_rollout as boolean,
+    winnerVariantId: row.winner_variant_id as string | null,
+    startedAt: row.started_at as string | null,
+    completedAt: row.completed_at as string | null,
+    createdBy: row.created_by as string | null,
+    createdAt: row.created_at as string,
+  };
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+export default pricingExperimentService;
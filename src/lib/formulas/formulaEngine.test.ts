@@ -0,0 +1,169 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkFormula,
+  compileFormula,
+  evaluateFormula,
+  formatFormulaValue,
+  FormulaError,
+  parseUnit,
+  toPlainValue,
+  type FormulaContext,
+  type FormulaInputs,
+} from './formulaEngine';
+
+const context: FormulaContext = {
+  variables: {
+    area: { type: 'number', unit: 'sqft' },
+    count: { type: 'number' },
+    grade: { type: 'string', options: ['A', 'B'] },
+  },
+  tables: {
+    gradeRates: { kind: 'exact', entries: { A: 0.2, B: 0.25 }, unit: 'usd/sqft' },
+    mobilization: {
+      kind: 'range',
+      rows: [{ upTo: 1, value: 150 }, { upTo: 5, value: 300 }, { upTo: null, value: 500 }],
+      unit: 'usd',
+      keyUnit: 'acre',
+    },
+  },
+};
+
+function run(source: string, inputs: FormulaInputs = {}, ctx: FormulaContext = context) {
+  return evaluateFormula(compileFormula(source, ctx), inputs);
+}
+
+function compileError(source: string, ctx: FormulaContext = context): FormulaError {
+  const check = checkFormula(source, ctx);
+  if (check.ok) throw new Error(`Expected '${source}' not to compile`);
+  return check.error;
+}
+
+function runError(source: string, inputs: FormulaInputs = {}): FormulaError {
+  try {
+    run(source, inputs);
+  } catch (err) {
+    if (err instanceof FormulaError) return err;
+    throw err;
+  }
+  throw new Error(`Expected '${source}' to fail`);
+}
+
+describe('evaluateFormula', () => {
+  it('carries units through a multi-line formula', () => {
+    const results = run('rate = 0.18 usd/sqft  # sealer\narea * rate', { area: 1000 });
+
+    expect(Object.keys(results)).toEqual(['rate', 'total']);
+    expect(toPlainValue(results.total, 'usd')).toBeCloseTo(180, 9);
+    expect(formatFormulaValue(results.total)).toBe('$180.00');
+  });
+
+  it('converts units and rejects a result read in the wrong unit', () => {
+    expect(toPlainValue(run('convert(3 yd, "ft")').total)).toBe(9);
+    expect(toPlainValue(run('area', { area: 1 }).total, 'sqm')).toBeCloseTo(1 / 10.7639, 9);
+    expect(() => toPlainValue(run('area', { area: 1 }).total, 'gal')).toThrow(FormulaError);
+  });
+
+  it('rounds to steps without float noise', () => {
+    expect(toPlainValue(run('ceil(12 gal, 5 gal)').total, 'gal')).toBe(15);
+    expect(toPlainValue(run('floor(0.3 gal / 0.1, 1 gal)').total, 'gal')).toBe(3);
+    expect(toPlainValue(run('round(2.345, 2)').total)).toBe(2.35);
+  });
+
+  it('only runs the chosen branch of if()', () => {
+    expect(toPlainValue(run('if(count > 0, 10 / count, 0)', { count: 0 }).total)).toBe(0);
+  });
+
+  it('reads exact and range tables', () => {
+    expect(toPlainValue(run('lookup(gradeRates, grade) * area', { grade: 'B', area: 400 }).total, 'usd')).toBe(100);
+    expect(toPlainValue(run('lookup(mobilization, area)', { area: 43560 }).total, 'usd')).toBe(150);
+    expect(toPlainValue(run('lookup(mobilization, area)', { area: 43561 }).total, 'usd')).toBe(300);
+    expect(toPlainValue(run('lookup(mobilization, area)', { area: 43560 * 10 }).total, 'usd')).toBe(500);
+  });
+
+  it('coerces and validates inputs', () => {
+    expect(toPlainValue(run('count * 2', { count: '12' }).total)).toBe(24);
+    expect(runError('count * 2', {}).reason).toBe("Missing value for 'count'");
+    expect(runError('count * 2', { count: 'twelve' }).reason).toBe("'count' must be a number");
+    expect(runError('lookup(gradeRates, grade)', { grade: 'C' }).reason).toBe("'grade' must be one of: A, B");
+  });
+
+  it('reports division by zero where it happens', () => {
+    const error = runError('x = 1\n10 / count', { count: 0 });
+    expect(error.reason).toBe('Division by zero');
+    expect(error.position).toMatchObject({ line: 2, column: 6 });
+  });
+});
+
+describe('compile errors', () => {
+  it('points at the offending character', () => {
+    const error = compileError('a = 2 @ 3');
+    expect(error.reason).toBe("Unexpected character '@'");
+    expect(error.position).toMatchObject({ line: 1, column: 7, length: 1 });
+    expect(error.message).toBe("Unexpected character '@' (line 1, column 7)");
+  });
+
+  it('rejects empty, oversized and unfinished formulas', () => {
+    expect(compileError('  # just a comment').reason).toBe('The formula is empty');
+    expect(compileError('1 + '.repeat(5000) + '1').reason).toMatch(/limited to 10,000 characters/);
+    expect(compileError('a = (1 + 2').position?.line).toBe(1);
+  });
+
+  it('rejects mismatched units and types', () => {
+    expect(compileError('1 sqft + 1 gal').reason).toMatch(/^Cannot add/);
+    expect(compileError('if(count, 1, 2)').reason).toMatch(/must be true or false/);
+    expect(compileError('if(count > 1, 1, "two")').reason).toMatch(/same kind/);
+  });
+
+  it('rejects reassigning an input or an earlier step', () => {
+    expect(compileError('area = 5 sqft').reason).toBe("'area' is an input; pick a different name");
+    expect(compileError('a = 1\na = 2').reason).toBe("'a' is already defined above; pick a different name");
+  });
+
+  it('suggests close names and explains tables and units used as names', () => {
+    expect(compileError('aera * 2').reason).toMatch(/^Unknown name 'aera'.*area/);
+    expect(compileError('gradeRates * 2').reason).toMatch(/is a lookup table/);
+    expect(compileError('sqft * 2').reason).toMatch(/^Units go right after a number/);
+  });
+
+  it('rejects tables that are out of order or malformed', () => {
+    const badRange: FormulaContext = {
+      variables: {},
+      tables: { steps: { kind: 'range', rows: [{ upTo: 5, value: 1 }, { upTo: 2, value: 2 }] } },
+    };
+    expect(compileError('1', badRange).reason).toBe("Lookup table 'steps': rows must go up in order");
+
+    const openMiddle: FormulaContext = {
+      variables: {},
+      tables: { steps: { kind: 'range', rows: [{ upTo: null, value: 1 }, { upTo: 2, value: 2 }] } },
+    };
+    expect(compileError('1', openMiddle).reason).toBe("Lookup table 'steps': only the last row can be open-ended");
+  });
+});
+
+describe('prototype keys', () => {
+  it('does not resolve inherited names as variables, tables or units', () => {
+    expect(compileError('constructor + 1').reason).toMatch(/^Unknown name 'constructor'/);
+    expect(compileError('lookup(toString, 1)').reason).toMatch(/^Unknown lookup table 'toString'/);
+    expect(() => parseUnit('constructor')).toThrow(FormulaError);
+    expect(() => parseUnit('usd/hasOwnProperty')).toThrow(FormulaError);
+  });
+
+  it('does not find inherited keys in an exact table', () => {
+    expect(runError('lookup(gradeRates, grade)', { grade: 'constructor' }).reason).toMatch(/must be one of/);
+
+    const openKeys: FormulaContext = {
+      variables: { key: { type: 'string' } },
+      tables: { rates: { kind: 'exact', entries: { a: 1 } } },
+    };
+    const formula = compileFormula('lookup(rates, key)', openKeys);
+    expect(() => evaluateFormula(formula, { key: 'constructor' })).toThrow("'constructor' is not in table 'rates'");
+    expect(() => evaluateFormula(formula, { key: '__proto__' })).toThrow("'__proto__' is not in table 'rates'");
+  });
+
+  it('keeps a step named __proto__ as an ordinary result', () => {
+    const results = run('__proto__ = 5\n__proto__ * 2');
+    expect(Object.keys(results)).toEqual(['__proto__', 'total']);
+    expect(toPlainValue(results.__proto__)).toBe(5);
+    expect(toPlainValue(results.total)).toBe(10);
+  });
+});
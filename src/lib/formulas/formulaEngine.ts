@@ -0,0 +1,1176 @@
+/**
+ * Sommer's Proposal System - Formula Engine
+ * Sandboxed expression language for service pricing and calculators
+ *
+ * Formulas are parsed into a syntax tree, type-checked against the declared
+ * variables and lookup tables, then interpreted. Nothing is ever handed to
+ * eval or Function, there are no loops, and the only names a formula can see
+ * are its inputs, its own assignments, its tables and the built-ins below.
+ *
+ * Language:
+ *   - A formula is one or more lines. `name = expression` assigns a result;
+ *     a bare expression on the last line is the `total`. `#` starts a comment.
+ *   - Numbers can carry units: `80 sqft`, `2.5 lb`, `0.18 usd/sqft` (no
+ *     spaces around a unit's `/`), `$25`, `15%`. Units convert automatically,
+ *     and adding or comparing mismatched units is an error.
+ *   - Operators: + - * / ^, comparisons (== != < <= > >=), and/or/not.
+ *   - Strings in double quotes, true and false.
+ *   - Functions: min, max, abs, round(x, digits), ceil(x, step),
+ *     floor(x, step), clamp(x, lo, hi), if(condition, then, else),
+ *     lookup(table, key) and convert(x, "unit").
+ *
+ * Quantities are held in base units (ft, sqft, gal, lb, usd, hr), so round,
+ * ceil and floor work in those; pass a step such as `ceil(x, 5 gal)` to round
+ * to pails, or convert() first to round in another unit.
+ *
+ * Like the pricing engine this module has no imports, so it runs in the
+ * browser and in the worker alike.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type BaseUnit = 'ft' | 'gal' | 'lb' | 'usd' | 'hr';
+
+/** Exponent of each base unit; sqft is { ft: 2 }, usd/sqft is { usd: 1, ft: -2 } */
+export type Dimension = Partial<Record<BaseUnit, number>>;
+
+export type FormulaType =
+  | { type: 'number'; dim: Dimension }
+  | { type: 'boolean' }
+  | { type: 'string' };
+
+export type FormulaValue =
+  | { type: 'number'; value: number; dim: Dimension }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'string'; value: string };
+
+export type VariableType =
+  | { type: 'number'; unit?: string }
+  | { type: 'boolean' }
+  | { type: 'string'; options?: string[] };
+
+export type LookupTable =
+  | {
+      kind: 'exact';
+      entries: Record<string, number>;
+      /** Unit of the values */
+      unit?: string;
+      /** Used when the key is not in the table; otherwise a missing key is an error */
+      default?: number;
+    }
+  | {
+      kind: 'range';
+      /** Ascending; the first row whose upTo is at least the key wins. null is open-ended. */
+      rows: { upTo: number | null; value: number }[];
+      unit?: string;
+      /** Unit the upTo bounds are written in */
+      keyUnit?: string;
+    };
+
+export interface FormulaContext {
+  variables: Record<string, VariableType>;
+  tables?: Record<string, LookupTable>;
+}
+
+export type FormulaInputs = Record<string, unknown>;
+
+export interface FormulaPosition {
+  line: number;
+  column: number;
+  offset: number;
+  length: number;
+}
+
+export interface CompiledFormula {
+  source: string;
+  context: FormulaContext;
+  /** Assigned names in order, with their checked types */
+  outputs: { name: string; type: FormulaType }[];
+  /** Input variables the formula actually reads */
+  usedVariables: string[];
+  statements: Statement[];
+}
+
+export type FormulaCheck =
+  | { ok: true; formula: CompiledFormula }
+  | { ok: false; error: FormulaError };
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+export class FormulaError extends Error {
+  public reason: string;
+  public position: FormulaPosition | null;
+
+  constructor(reason: string, position: FormulaPosition | null = null) {
+    super(position ? `${reason} (line ${position.line}, column ${position.column})` : reason);
+    this.name = 'FormulaError';
+    this.reason = reason;
+    this.position = position;
+  }
+}
+
+// ============================================================================
+// UNITS
+// ============================================================================
+
+/** Read a key from a plain-object map, ignoring inherited names like 'constructor' */
+function ownEntry<T>(record: Record<string, T> | undefined, key: string): T | undefined {
+  return record && Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+}
+
+const UNITS: Record<string, { factor: number; dim: Dimension }> = {
+  // Length
+  ft: { factor: 1, dim: { ft: 1 } },
+  lf: { factor: 1, dim: { ft: 1 } },
+  in: { factor: 1 / 12, dim: { ft: 1 } },
+  yd: { factor: 3, dim: { ft: 1 } },
+  m: { factor: 3.28084, dim: { ft: 1 } },
+  mi: { factor: 5280, dim: { ft: 1 } },
+  // Area
+  sqft: { factor: 1, dim: { ft: 2 } },
+  sqyd: { factor: 9, dim: { ft: 2 } },
+  sqm: { factor: 10.7639, dim: { ft: 2 } },
+  acre: { factor: 43560, dim: { ft: 2 } },
+  // Volume
+  gal: { factor: 1, dim: { gal: 1 } },
+  qt: { factor: 0.25, dim: { gal: 1 } },
+  l: { factor: 0.264172, dim: { gal: 1 } },
+  // Weight
+  lb: { factor: 1, dim: { lb: 1 } },
+  ton: { factor: 2000, dim: { lb: 1 } },
+  kg: { factor: 2.20462, dim: { lb: 1 } },
+  // Money and time
+  usd: { factor: 1, dim: { usd: 1 } },
+  hr: { factor: 1, dim: { hr: 1 } },
+  min: { factor: 1 / 60, dim: { hr: 1 } },
+};
+
+const BASE_ORDER: BaseUnit[] = ['usd', 'ft', 'gal', 'lb', 'hr'];
+
+export const UNIT_NAMES = Object.keys(UNITS);
+
+/** Parse `sqft` or `usd/sqft` into a factor and dimension */
+export function parseUnit(unit: string): { factor: number; dim: Dimension } {
+  const [top, bottom, extra] = unit.trim().split('/');
+  const numerator = ownEntry(UNITS, top?.trim() ?? '');
+  const denominator = bottom === undefined ? { factor: 1, dim: {} } : ownEntry(UNITS, bottom.trim());
+
+  if (!numerator || !denominator || extra !== undefined) {
+    throw new FormulaError(`Unknown unit '${unit}'. Known units: ${UNIT_NAMES.join(', ')}`);
+  }
+
+  return {
+    factor: numerator.factor / denominator.factor,
+    dim: combineDims(numerator.dim, denominator.dim, -1),
+  };
+}
+
+function combineDims(a: Dimension, b: Dimension, sign: 1 | -1): Dimension {
+  const result: Dimension = { ...a };
+  for (const unit of BASE_ORDER) {
+    const exponent = (result[unit] || 0) + sign * (b[unit] || 0);
+    if (exponent === 0) delete result[unit];
+    else result[unit] = exponent;
+  }
+  return result;
+}
+
+function scaleDim(dim: Dimension, power: number): Dimension {
+  const result: Dimension = {};
+  for (const unit of BASE_ORDER) {
+    if (dim[unit]) result[unit] = dim[unit]! * power;
+  }
+  return result;
+}
+
+export function sameDim(a: Dimension, b: Dimension): boolean {
+  return BASE_ORDER.every((unit) => (a[unit] || 0) === (b[unit] || 0));
+}
+
+export function isPlain(dim: Dimension): boolean {
+  return BASE_ORDER.every((unit) => !dim[unit]);
+}
+
+/** Human name for a dimension, e.g. `sqft`, `usd/sqft`, `a plain number` */
+export function describeDim(dim: Dimension): string {
+  const name = (unit: BaseUnit, exponent: number) => {
+    if (unit === 'ft' && exponent === 2) return 'sqft';
+    return exponent === 1 ? unit : `${unit}^${exponent}`;
+  };
+  const top = BASE_ORDER.filter((u) => (dim[u] || 0) > 0).map((u) => name(u, dim[u]!));
+  const bottom = BASE_ORDER.filter((u) => (dim[u] || 0) < 0).map((u) => name(u, -dim[u]!));
+
+  if (top.length === 0 && bottom.length === 0) return 'a plain number';
+  return `${top.join('·') || '1'}${bottom.length ? `/${bottom.join('·')}` : ''}`;
+}
+
+function describeType(type: FormulaType): string {
+  if (type.type === 'number') return isPlain(type.dim) ? 'a number' : `a quantity in ${describeDim(type.dim)}`;
+  return `a ${type.type}`;
+}
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+type TokenKind = 'number' | 'string' | 'ident' | 'op' | 'newline' | 'eof';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  offset: number;
+  /** Numbers only: value in base units and the unit's dimension */
+  value?: number;
+  dim?: Dimension;
+}
+
+const MAX_SOURCE_LENGTH = 10_000;
+const MAX_DEPTH = 64;
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '^', '<', '>', '(', ')', ',', '=', '!'];
+
+function positionAt(source: string, offset: number, length: number = 1): FormulaPosition {
+  const before = source.slice(0, offset);
+  const line = before.split('\n').length;
+  const column = offset - before.lastIndexOf('\n');
+  return { line, column, offset, length };
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let depth = 0;
+  const fail = (reason: string, offset: number, length = 1): never => {
+    throw new FormulaError(reason, positionAt(source, offset, length));
+  };
+  const isIdentStart = (c: string) => /[A-Za-z_]/.test(c);
+  const isIdent = (c: string) => /[A-Za-z0-9_]/.test(c);
+
+  while (i < source.length) {
+    const c = source[i];
+
+    if (c === '#') {
+      while (i < source.length && source[i] !== '\n') i++;
+      continue;
+    }
+
+    if (c === '\n' || c === ';') {
+      // Inside parentheses a line break is just whitespace
+      if (depth === 0 && tokens.length > 0 && tokens[tokens.length - 1].kind !== 'newline') {
+        tokens.push({ kind: 'newline', text: c, offset: i });
+      }
+      i++;
+      continue;
+    }
+
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+
+    // Numbers: 12, 0.5, $25, 15%, 80 sqft, 0.18 usd/sqft
+    if (/[0-9.]/.test(c) || (c === '$' && /[0-9.]/.test(source[i + 1] || ''))) {
+      const start = i;
+      const isMoney = c === '$';
+      if (isMoney) i++;
+      const digitsStart = i;
+      while (i < source.length && /[0-9._]/.test(source[i])) i++;
+      const text = source.slice(digitsStart, i).replace(/_/g, '');
+      if (!/^(\d+\.?\d*|\.\d+)$/.test(text)) fail(`'${source.slice(start, i)}' is not a valid number`, start, i - start);
+
+      let value = Number(text);
+      let dim: Dimension = isMoney ? { usd: 1 } : {};
+
+      if (source[i] === '%') {
+        if (isMoney) fail('A dollar amount cannot also be a percent', start, i - start + 1);
+        value /= 100;
+        i++;
+      } else if (!isMoney) {
+        // A unit name right after the number, unless it is really a function call
+        let j = i;
+        while (source[j] === ' ' || source[j] === '\t') j++;
+        let k = j;
+        while (k < source.length && isIdent(source[k])) k++;
+        let unitText = source.slice(j, k);
+        if (source[k] === '/' && isIdentStart(source[k + 1] || '')) {
+          let m = k + 1;
+          while (m < source.length && isIdent(source[m])) m++;
+          if (ownEntry(UNITS, unitText) && ownEntry(UNITS, source.slice(k + 1, m))) {
+            unitText = source.slice(j, m);
+            k = m;
+          }
+        }
+        if (unitText && source[k] !== '(' && ownEntry(UNITS, unitText.split('/')[0])) {
+          const unit = parseUnit(unitText);
+          value *= unit.factor;
+          dim = unit.dim;
+          i = k;
+        }
+      }
+
+      tokens.push({ kind: 'number', text: source.slice(start, i), offset: start, value, dim });
+      continue;
+    }
+
+    if (c === '"') {
+      const start = i;
+      i++;
+      let text = '';
+      while (i < source.length && source[i] !== '"') {
+        if (source[i] === '\n') fail('Text in quotes must end on the same line', start);
+        if (source[i] === '\\' && i + 1 < source.length) i++;
+        text += source[i];
+        i++;
+      }
+      if (i >= source.length) fail('Missing closing quote', start);
+      i++;
+      tokens.push({ kind: 'string', text, offset: start });
+      continue;
+    }
+
+    if (isIdentStart(c)) {
+      const start = i;
+      while (i < source.length && isIdent(source[i])) i++;
+      tokens.push({ kind: 'ident', text: source.slice(start, i), offset: start });
+      continue;
+    }
+
+    const op = OPERATORS.find((candidate) => source.startsWith(candidate, i));
+    if (op) {
+      if (op === '(') depth++;
+      if (op === ')') depth = Math.max(0, depth - 1);
+      tokens.push({ kind: 'op', text: op, offset: i });
+      i += op.length;
+      continue;
+    }
+
+    fail(`Unexpected character '${c}'`, i);
+  }
+
+  while (tokens.length > 0 && tokens[tokens.length - 1].kind === 'newline') tokens.pop();
+  tokens.push({ kind: 'eof', text: '', offset: source.length });
+  return tokens;
+}
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+type Node =
+  | { kind: 'number'; value: number; dim: Dimension; offset: number; length: number }
+  | { kind: 'string'; value: string; offset: number; length: number }
+  | { kind: 'boolean'; value: boolean; offset: number; length: number }
+  | { kind: 'name'; name: string; offset: number; length: number }
+  | { kind: 'unary'; op: '-' | 'not'; operand: Node; offset: number; length: number }
+  | { kind: 'binary'; op: string; left: Node; right: Node; offset: number; length: number }
+  | { kind: 'call'; name: string; args: Node[]; offset: number; length: number };
+
+export interface Statement {
+  name: string;
+  expression: Node;
+  offset: number;
+}
+
+const KEYWORDS = new Set(['and', 'or', 'not', 'true', 'false']);
+
+const FUNCTIONS = ['min', 'max', 'abs', 'round', 'ceil', 'floor', 'clamp', 'if', 'lookup', 'convert'];
+
+class Parser {
+  private tokens: Token[];
+  private source: string;
+  private index = 0;
+  private depth = 0;
+
+  constructor(source: string) {
+    this.source = source;
+    this.tokens = tokenize(source);
+  }
+
+  private get current(): Token {
+    return this.tokens[this.index];
+  }
+
+  private peek(ahead = 1): Token {
+    return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)];
+  }
+
+  private fail(reason: string, token: Token = this.current): never {
+    throw new FormulaError(reason, positionAt(this.source, token.offset, Math.max(1, token.text.length)));
+  }
+
+  /** Unnarrowed kind of the current token, for checks after a parse step moved it */
+  private peekKind(): TokenKind {
+    return this.current.kind;
+  }
+
+  private isOp(text: string): boolean {
+    return this.current.kind === 'op' && this.current.text === text;
+  }
+
+  private isWord(text: string): boolean {
+    return this.current.kind === 'ident' && this.current.text === text;
+  }
+
+  private expectOp(text: string, context: string): Token {
+    if (!this.isOp(text)) {
+      const found = this.current.kind === 'eof' ? 'the end of the formula' : `'${this.current.text}'`;
+      this.fail(`Expected '${text}' ${context}, found ${found}`);
+    }
+    return this.tokens[this.index++];
+  }
+
+  private span(start: number): { offset: number; length: number } {
+    const previous = this.tokens[this.index - 1];
+    return { offset: start, length: previous.offset + previous.text.length - start };
+  }
+
+  parseProgram(): Statement[] {
+    const statements: Statement[] = [];
+
+    while (this.current.kind !== 'eof') {
+      const start = this.current;
+      if (start.kind === 'ident' && this.peek().kind === 'op' && this.peek().text === '=') {
+        if (KEYWORDS.has(start.text) || FUNCTIONS.includes(start.text)) {
+          this.fail(`'${start.text}' is a reserved word and cannot be assigned`, start);
+        }
+        this.index += 2;
+        statements.push({ name: start.text, expression: this.parseExpression(), offset: start.offset });
+      } else {
+        statements.push({ name: 'total', expression: this.parseExpression(), offset: start.offset });
+        if (this.peekKind() === 'newline') {
+          this.fail("Only the last line can be a bare expression; give this one a name, like 'subtotal = ...'", start);
+        }
+      }
+
+      if (this.peekKind() === 'newline') {
+        this.index++;
+      } else if (this.peekKind() !== 'eof') {
+        this.fail(`Unexpected '${this.current.text}'; put each step on its own line`);
+      }
+    }
+
+    if (statements.length === 0) throw new FormulaError('The formula is empty');
+    return statements;
+  }
+
+  private parseExpression(): Node {
+    if (++this.depth > MAX_DEPTH) this.fail('The formula is nested too deeply');
+    const node = this.parseOr();
+    this.depth--;
+    return node;
+  }
+
+  private parseOr(): Node {
+    let left = this.parseAnd();
+    while (this.isWord('or') || this.isOp('||')) {
+      this.index++;
+      const right = this.parseAnd();
+      left = { kind: 'binary', op: 'or', left, right, offset: left.offset, length: right.offset + right.length - left.offset };
+    }
+    return left;
+  }
+
+  private parseAnd(): Node {
+    let left = this.parseNot();
+    while (this.isWord('and') || this.isOp('&&')) {
+      this.index++;
+      const right = this.parseNot();
+      left = { kind: 'binary', op: 'and', left, right, offset: left.offset, length: right.offset + right.length - left.offset };
+    }
+    return left;
+  }
+
+  private parseNot(): Node {
+    if (this.isWord('not') || this.isOp('!')) {
+      const start = this.tokens[this.index++].offset;
+      const operand = this.parseNot();
+      return { kind: 'unary', op: 'not', operand, ...this.span(start) };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): Node {
+    const left = this.parseAdditive();
+    if (this.current.kind === 'op' && ['==', '!=', '<', '<=', '>', '>='].includes(this.current.text)) {
+      const op = this.tokens[this.index++].text;
+      const right = this.parseAdditive();
+      if (this.current.kind === 'op' && ['==', '!=', '<', '<=', '>', '>='].includes(this.current.text)) {
+        this.fail("Comparisons cannot be chained; use 'and', like 'a < b and b < c'");
+      }
+      return { kind: 'binary', op, left, right, offset: left.offset, length: right.offset + right.length - left.offset };
+    }
+    if (this.isOp('=')) this.fail("Use '==' to compare; '=' only assigns a name at the start of a line");
+    return left;
+  }
+
+  private parseAdditive(): Node {
+    let left = this.parseMultiplicative();
+    while (this.isOp('+') || this.isOp('-')) {
+      const op = this.tokens[this.index++].text;
+      const right = this.parseMultiplicative();
+      left = { kind: 'binary', op, left, right, offset: left.offset, length: right.offset + right.length - left.offset };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): Node {
+    let left = this.parseUnary();
+    while (this.isOp('*') || this.isOp('/')) {
+      const op = this.tokens[this.index++].text;
+      const right = this.parseUnary();
+      left = { kind: 'binary', op, left, right, offset: left.offset, length: right.offset + right.length - left.offset };
+    }
+    return left;
+  }
+
+  private parseUnary(): Node {
+    if (this.isOp('-') || this.isOp('+')) {
+      const token = this.tokens[this.index++];
+      const operand = this.parseUnary();
+      if (token.text === '+') return operand;
+      return { kind: 'unary', op: '-', operand, ...this.span(token.offset) };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): Node {
+    const base = this.parsePrimary();
+    if (this.isOp('^')) {
+      this.index++;
+      const exponent = this.parseUnary();
+      return { kind: 'binary', op: '^', left: base, right: exponent, offset: base.offset, length: exponent.offset + exponent.length - base.offset };
+    }
+    return base;
+  }
+
+  private parsePrimary(): Node {
+    const token = this.current;
+
+    if (token.kind === 'number') {
+      this.index++;
+      return { kind: 'number', value: token.value!, dim: token.dim!, offset: token.offset, length: token.text.length };
+    }
+
+    if (token.kind === 'string') {
+      this.index++;
+      return { kind: 'string', value: token.text, ...this.span(token.offset) };
+    }
+
+    if (token.kind === 'ident') {
+      this.index++;
+      if (token.text === 'true' || token.text === 'false') {
+        return { kind: 'boolean', value: token.text === 'true', offset: token.offset, length: token.text.length };
+      }
+      if (KEYWORDS.has(token.text)) this.fail(`'${token.text}' needs something on each side`, token);
+
+      if (this.isOp('(')) {
+        this.index++;
+        const args: Node[] = [];
+        if (!this.isOp(')')) {
+          args.push(this.parseExpression());
+          while (this.isOp(',')) {
+            this.index++;
+            args.push(this.parseExpression());
+          }
+        }
+        this.expectOp(')', `to close ${token.text}(`);
+        return { kind: 'call', name: token.text, args, ...this.span(token.offset) };
+      }
+
+      return { kind: 'name', name: token.text, offset: token.offset, length: token.text.length };
+    }
+
+    if (this.isOp('(')) {
+      this.index++;
+      const inner = this.parseExpression();
+      this.expectOp(')', 'to close the parenthesis');
+      return inner;
+    }
+
+    if (token.kind === 'eof') this.fail('The formula ends too early; something is missing after the last operator');
+    if (token.kind === 'newline') this.fail('This line ends too early; something is missing after the last operator');
+    return this.fail(`Unexpected '${token.text}'`);
+  }
+}
+
+// ============================================================================
+// TYPE CHECKING
+// ============================================================================
+
+const NUMBER: FormulaType = { type: 'number', dim: {} };
+const BOOLEAN: FormulaType = { type: 'boolean' };
+const STRING: FormulaType = { type: 'string' };
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let previous = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const current = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, previous + (a[i - 1] === b[j - 1] ? 0 : 1));
+      previous = current;
+    }
+  }
+  return row[b.length];
+}
+
+function suggest(name: string, candidates: string[]): string {
+  const best = candidates
+    .map((candidate) => ({ candidate, distance: editDistance(name.toLowerCase(), candidate.toLowerCase()) }))
+    .filter((c) => c.distance <= 2)
+    .sort((a, b) => a.distance - b.distance)[0];
+  return best ? `. Did you mean '${best.candidate}'?` : '';
+}
+
+class Checker {
+  private source: string;
+  private context: FormulaContext;
+  private scope = new Map<string, FormulaType>();
+  readonly used = new Set<string>();
+
+  constructor(source: string, context: FormulaContext) {
+    this.source = source;
+    this.context = context;
+    for (const [name, variable] of Object.entries(context.variables)) {
+      this.scope.set(name, variableType(variable));
+    }
+  }
+
+  private fail(reason: string, node: { offset: number; length: number }): never {
+    throw new FormulaError(reason, positionAt(this.source, node.offset, node.length));
+  }
+
+  define(statement: Statement): FormulaType {
+    if (this.scope.has(statement.name)) {
+      const what = ownEntry(this.context.variables, statement.name) ? 'an input' : 'already defined above';
+      this.fail(`'${statement.name}' is ${what}; pick a different name`, { offset: statement.offset, length: statement.name.length });
+    }
+    const type = this.check(statement.expression);
+    this.scope.set(statement.name, type);
+    return type;
+  }
+
+  private expectNumber(node: Node, what: string): Extract<FormulaType, { type: 'number' }> {
+    const type = this.check(node);
+    if (type.type !== 'number') this.fail(`${what} must be a number, not ${describeType(type)}`, node);
+    return type;
+  }
+
+  private expectBoolean(node: Node, what: string): void {
+    const type = this.check(node);
+    if (type.type !== 'boolean') {
+      this.fail(`${what} must be true or false, not ${describeType(type)}; try a comparison like 'x > 0'`, node);
+    }
+  }
+
+  private expectArgs(node: Extract<Node, { kind: 'call' }>, min: number, max: number, usage: string): void {
+    if (node.args.length < min || node.args.length > max) {
+      this.fail(`${node.name}() takes ${min === max ? min : `${min} to ${max}`} argument${max === 1 ? '' : 's'}: ${usage}`, node);
+    }
+  }
+
+  check(node: Node): FormulaType {
+    switch (node.kind) {
+      case 'number':
+        return { type: 'number', dim: node.dim };
+      case 'string':
+        return STRING;
+      case 'boolean':
+        return BOOLEAN;
+      case 'name': {
+        const type = this.scope.get(node.name);
+        if (!type) {
+          if (ownEntry(this.context.tables, node.name)) {
+            this.fail(`'${node.name}' is a lookup table; read it with lookup(${node.name}, key)`, node);
+          }
+          if (ownEntry(UNITS, node.name)) this.fail(`Units go right after a number, like '1 ${node.name}'`, node);
+          this.fail(`Unknown name '${node.name}'${suggest(node.name, Array.from(this.scope.keys()))}`, node);
+        }
+        if (ownEntry(this.context.variables, node.name)) this.used.add(node.name);
+        return type;
+      }
+      case 'unary': {
+        if (node.op === 'not') {
+          this.expectBoolean(node.operand, "The value after 'not'");
+          return BOOLEAN;
+        }
+        return this.expectNumber(node.operand, "The value after '-'");
+      }
+      case 'binary':
+        return this.checkBinary(node);
+      case 'call':
+        return this.checkCall(node);
+    }
+  }
+
+  private checkBinary(node: Extract<Node, { kind: 'binary' }>): FormulaType {
+    const { op } = node;
+
+    if (op === 'and' || op === 'or') {
+      this.expectBoolean(node.left, `Each side of '${op}'`);
+      this.expectBoolean(node.right, `Each side of '${op}'`);
+      return BOOLEAN;
+    }
+
+    if (op === '==' || op === '!=') {
+      const left = this.check(node.left);
+      const right = this.check(node.right);
+      if (left.type !== right.type) {
+        this.fail(`Cannot compare ${describeType(left)} with ${describeType(right)}`, node);
+      }
+      if (left.type === 'number' && right.type === 'number' && !sameDim(left.dim, right.dim)) {
+        this.fail(`Cannot compare ${describeDim(left.dim)} with ${describeDim(right.dim)}`, node);
+      }
+      return BOOLEAN;
+    }
+
+    const left = this.expectNumber(node.left, `The left side of '${op}'`);
+    const right = this.expectNumber(node.right, `The right side of '${op}'`);
+
+    switch (op) {
+      case '+':
+      case '-':
+      case '<':
+      case '<=':
+      case '>':
+      case '>=':
+        if (!sameDim(left.dim, right.dim)) {
+          const verb = op === '+' ? 'add' : op === '-' ? 'subtract' : 'compare';
+          this.fail(`Cannot ${verb} ${describeDim(left.dim)} and ${describeDim(right.dim)}`, node);
+        }
+        return ['+', '-'].includes(op) ? left : BOOLEAN;
+      case '*':
+        return { type: 'number', dim: combineDims(left.dim, right.dim, 1) };
+      case '/':
+        return { type: 'number', dim: combineDims(left.dim, right.dim, -1) };
+      case '^': {
+        if (!isPlain(right.dim)) this.fail('An exponent must be a plain number', node.right);
+        if (isPlain(left.dim)) return NUMBER;
+        if (node.right.kind !== 'number' || !Number.isInteger(node.right.value)) {
+          this.fail(`A quantity in ${describeDim(left.dim)} can only be raised to a whole-number power written directly, like ^2`, node.right);
+        }
+        return { type: 'number', dim: scaleDim(left.dim, node.right.value) };
+      }
+    }
+
+    return this.fail(`Unknown operator '${op}'`, node);
+  }
+
+  private checkCall(node: Extract<Node, { kind: 'call' }>): FormulaType {
+    switch (node.name) {
+      case 'min':
+      case 'max': {
+        if (node.args.length === 0) this.fail(`${node.name}() needs at least one value`, node);
+        const first = this.expectNumber(node.args[0], `Each value in ${node.name}()`);
+        for (const arg of node.args.slice(1)) {
+          const type = this.expectNumber(arg, `Each value in ${node.name}()`);
+          if (!sameDim(first.dim, type.dim)) {
+            this.fail(`${node.name}() values must share a unit; got ${describeDim(first.dim)} and ${describeDim(type.dim)}`, arg);
+          }
+        }
+        return first;
+      }
+      case 'abs':
+        this.expectArgs(node, 1, 1, 'abs(x)');
+        return this.expectNumber(node.args[0], 'The value in abs()');
+      case 'round': {
+        this.expectArgs(node, 1, 2, 'round(x) or round(x, digits)');
+        const type = this.expectNumber(node.args[0], 'The value in round()');
+        if (node.args[1]) {
+          const digits = this.expectNumber(node.args[1], 'The digits in round()');
+          if (!isPlain(digits.dim)) this.fail('The digits in round() must be a plain number', node.args[1]);
+        }
+        return type;
+      }
+      case 'ceil':
+      case 'floor': {
+        this.expectArgs(node, 1, 2, `${node.name}(x) or ${node.name}(x, step)`);
+        const type = this.expectNumber(node.args[0], `The value in ${node.name}()`);
+        if (node.args[1]) {
+          const step = this.expectNumber(node.args[1], `The step in ${node.name}()`);
+          if (!sameDim(type.dim, step.dim)) {
+            this.fail(`The step in ${node.name}() must be in ${describeDim(type.dim)}, like ${node.name}(x, 5 gal) for gallons`, node.args[1]);
+          }
+        }
+        return type;
+      }
+      case 'clamp': {
+        this.expectArgs(node, 3, 3, 'clamp(x, low, high)');
+        const type = this.expectNumber(node.args[0], 'The value in clamp()');
+        for (const bound of node.args.slice(1)) {
+          const boundType = this.expectNumber(bound, 'Each bound in clamp()');
+          if (!sameDim(type.dim, boundType.dim)) {
+            this.fail(`clamp() bounds must be in ${describeDim(type.dim)}`, bound);
+          }
+        }
+        return type;
+      }
+      case 'if': {
+        this.expectArgs(node, 3, 3, 'if(condition, then, else)');
+        this.expectBoolean(node.args[0], 'The condition in if()');
+        const then = this.check(node.args[1]);
+        const otherwise = this.check(node.args[2]);
+        if (then.type !== otherwise.type || (then.type === 'number' && otherwise.type === 'number' && !sameDim(then.dim, otherwise.dim))) {
+          this.fail(`Both branches of if() must be the same kind; got ${describeType(then)} and ${describeType(otherwise)}`, node);
+        }
+        return then;
+      }
+      case 'lookup': {
+        this.expectArgs(node, 2, 2, 'lookup(table, key)');
+        const [tableNode, keyNode] = node.args;
+        if (tableNode.kind !== 'name') this.fail('The first value in lookup() must be a table name', tableNode);
+        const tables = this.context.tables || {};
+        const table = ownEntry(tables, tableNode.name);
+        if (!table) {
+          this.fail(`Unknown lookup table '${tableNode.name}'${suggest(tableNode.name, Object.keys(tables))}`, tableNode);
+        }
+        const key = this.check(keyNode);
+        if (table.kind === 'exact' && key.type === 'boolean') {
+          this.fail(`Table '${tableNode.name}' is keyed by text or numbers, not true/false`, keyNode);
+        }
+        if (table.kind === 'range') {
+          if (key.type !== 'number') this.fail(`Table '${tableNode.name}' is a range table; its key must be a number`, keyNode);
+          const keyDim = table.keyUnit ? parseUnit(table.keyUnit).dim : {};
+          if (!sameDim(key.dim, keyDim)) {
+            this.fail(`Table '${tableNode.name}' is keyed in ${describeDim(keyDim)}, not ${describeDim(key.dim)}`, keyNode);
+          }
+        }
+        return { type: 'number', dim: table.unit ? parseUnit(table.unit).dim : {} };
+      }
+      case 'convert': {
+        this.expectArgs(node, 2, 2, 'convert(x, "unit")');
+        const type = this.expectNumber(node.args[0], 'The value in convert()');
+        const unitNode = node.args[1];
+        if (unitNode.kind !== 'string') this.fail('The unit in convert() must be in quotes, like "sqyd"', unitNode);
+        let unit: { dim: Dimension };
+        try {
+          unit = parseUnit(unitNode.value);
+        } catch (err) {
+          this.fail((err as FormulaError).reason, unitNode);
+        }
+        if (!sameDim(unit.dim, type.dim)) {
+          this.fail(`Cannot convert ${describeDim(type.dim)} to ${unitNode.value}`, node);
+        }
+        return NUMBER;
+      }
+    }
+
+    return this.fail(`Unknown function '${node.name}'${suggest(node.name, FUNCTIONS) || `. Available: ${FUNCTIONS.join(', ')}`}`, node);
+  }
+}
+
+function variableType(variable: VariableType): FormulaType {
+  if (variable.type === 'number') {
+    return { type: 'number', dim: variable.unit ? parseUnit(variable.unit).dim : {} };
+  }
+  return variable.type === 'boolean' ? BOOLEAN : STRING;
+}
+
+// ============================================================================
+// COMPILE
+// ============================================================================
+
+/**
+ * Parse and check a formula. Throws FormulaError with the line and column
+ * of the first problem.
+ */
+export function compileFormula(source: string, context: FormulaContext): CompiledFormula {
+  if (source.length > MAX_SOURCE_LENGTH) {
+    throw new FormulaError(`Formulas are limited to ${MAX_SOURCE_LENGTH.toLocaleString()} characters`);
+  }
+
+  for (const [name, table] of Object.entries(context.tables || {})) {
+    validateTable(name, table);
+  }
+
+  const statements = new Parser(source).parseProgram();
+  const checker = new Checker(source, context);
+  const outputs = statements.map((statement) => ({ name: statement.name, type: checker.define(statement) }));
+
+  return {
+    source,
+    context,
+    outputs,
+    usedVariables: Array.from(checker.used),
+    statements,
+  };
+}
+
+/** compileFormula without throwing, for editors that show errors inline */
+export function checkFormula(source: string, context: FormulaContext): FormulaCheck {
+  try {
+    return { ok: true, formula: compileFormula(source, context) };
+  } catch (err) {
+    if (err instanceof FormulaError) return { ok: false, error: err };
+    throw err;
+  }
+}
+
+function validateTable(name: string, table: LookupTable): void {
+  if (!table || (table.kind !== 'exact' && table.kind !== 'range')) {
+    throw new FormulaError(`Lookup table '${name}' must have kind "exact" or "range"`);
+  }
+  if (table.unit) parseUnit(table.unit);
+
+  if (table.kind === 'exact') {
+    const entries = Object.values(table.entries || {});
+    if (entries.length === 0 || entries.some((value) => typeof value !== 'number')) {
+      throw new FormulaError(`Lookup table '${name}' needs entries that are numbers`);
+    }
+  }
+
+  if (table.kind === 'range') {
+    if (!Array.isArray(table.rows) || table.rows.some((row) => typeof row?.value !== 'number' || (row.upTo !== null && typeof row.upTo !== 'number'))) {
+      throw new FormulaError(`Lookup table '${name}' needs rows of { upTo, value } numbers`);
+    }
+    if (table.keyUnit) parseUnit(table.keyUnit);
+    if (table.rows.length === 0) throw new FormulaError(`Lookup table '${name}' has no rows`);
+    table.rows.forEach((row, index) => {
+      const previous = table.rows[index - 1];
+      if (row.upTo === null && index !== table.rows.length - 1) {
+        throw new FormulaError(`Lookup table '${name}': only the last row can be open-ended`);
+      }
+      if (previous && (previous.upTo === null || (row.upTo !== null && row.upTo <= previous.upTo))) {
+        throw new FormulaError(`Lookup table '${name}': rows must go up in order`);
+      }
+    });
+  }
+}
+
+// ============================================================================
+// EVALUATE
+// ============================================================================
+
+type NumberValue = Extract<FormulaValue, { type: 'number' }>;
+
+function num(value: number, dim: Dimension): NumberValue {
+  return { type: 'number', value, dim };
+}
+
+function coerceInput(name: string, variable: VariableType, raw: unknown): FormulaValue {
+  switch (variable.type) {
+    case 'number': {
+      const value = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new FormulaError(`'${name}' must be a number`);
+      }
+      const unit = variable.unit ? parseUnit(variable.unit) : { factor: 1, dim: {} };
+      return num(value * unit.factor, unit.dim);
+    }
+    case 'boolean':
+      if (typeof raw === 'boolean') return { type: 'boolean', value: raw };
+      if (raw === 'true' || raw === 'false') return { type: 'boolean', value: raw === 'true' };
+      throw new FormulaError(`'${name}' must be true or false`);
+    case 'string': {
+      if (raw === null || raw === undefined || typeof raw === 'object') {
+        throw new FormulaError(`'${name}' must be text`);
+      }
+      const value = String(raw);
+      if (variable.options?.length && !variable.options.includes(value)) {
+        throw new FormulaError(`'${name}' must be one of: ${variable.options.join(', ')}`);
+      }
+      return { type: 'string', value };
+    }
+  }
+}
+
+/**
+ * Run a compiled formula. Every input it reads must be supplied; numbers are
+ * taken in their declared unit. Returns every assigned name.
+ */
+export function evaluateFormula(formula: CompiledFormula, inputs: FormulaInputs): Record<string, FormulaValue> {
+  const { source, context } = formula;
+  const env = new Map<string, FormulaValue>();
+
+  for (const name of formula.usedVariables) {
+    const raw = inputs[name];
+    if (raw === undefined || raw === null || raw === '') {
+      throw new FormulaError(`Missing value for '${name}'`);
+    }
+    env.set(name, coerceInput(name, context.variables[name], raw));
+  }
+
+  const fail = (reason: string, node: { offset: number; length: number }): never => {
+    throw new FormulaError(reason, positionAt(source, node.offset, node.length));
+  };
+
+  const finite = (value: number, node: Node): number => {
+    if (!Number.isFinite(value)) fail('The result is too large or undefined', node);
+    return value;
+  };
+
+  const evaluateNumber = (node: Node): NumberValue => evaluate(node) as NumberValue;
+
+  const evaluate = (node: Node): FormulaValue => {
+    switch (node.kind) {
+      case 'number':
+        return num(node.value, node.dim);
+      case 'string':
+        return { type: 'string', value: node.value };
+      case 'boolean':
+        return { type: 'boolean', value: node.value };
+      case 'name':
+        return env.get(node.name)!;
+      case 'unary': {
+        const operand = evaluate(node.operand);
+        if (operand.type === 'boolean') return { type: 'boolean', value: !operand.value };
+        const number = operand as NumberValue;
+        return num(-number.value, number.dim);
+      }
+      case 'binary': {
+        if (node.op === 'and') {
+          return { type: 'boolean', value: (evaluate(node.left).value as boolean) && (evaluate(node.right).value as boolean) };
+        }
+        if (node.op === 'or') {
+          return { type: 'boolean', value: (evaluate(node.left).value as boolean) || (evaluate(node.right).value as boolean) };
+        }
+
+        const left = evaluate(node.left);
+        const right = evaluate(node.right);
+
+        if (node.op === '==') return { type: 'boolean', value: left.value === right.value };
+        if (node.op === '!=') return { type: 'boolean', value: left.value !== right.value };
+
+        const a = left as NumberValue;
+        const b = right as NumberValue;
+        switch (node.op) {
+          case '+': return num(finite(a.value + b.value, node), a.dim);
+          case '-': return num(finite(a.value - b.value, node), a.dim);
+          case '*': return num(finite(a.value * b.value, node), combineDims(a.dim, b.dim, 1));
+          case '/':
+            if (b.value === 0) fail('Division by zero', node.right);
+            return num(finite(a.value / b.value, node), combineDims(a.dim, b.dim, -1));
+          case '^': return num(finite(Math.pow(a.value, b.value), node), scaleDim(a.dim, b.value));
+          case '<': return { type: 'boolean', value: a.value < b.value };
+          case '<=': return { type: 'boolean', value: a.value <= b.value };
+          case '>': return { type: 'boolean', value: a.value > b.value };
+          case '>=': return { type: 'boolean', value: a.value >= b.value };
+        }
+        return fail(`Unknown operator '${node.op}'`, node);
+      }
+      case 'call':
+        return evaluateCall(node);
+    }
+  };
+
+  const evaluateCall = (node: Extract<Node, { kind: 'call' }>): FormulaValue => {
+    const args = node.args;
+
+    switch (node.name) {
+      case 'if':
+        // Only the chosen branch runs, so if(x > 0, y / x, 0) is safe
+        return (evaluate(args[0]).value as boolean) ? evaluate(args[1]) : evaluate(args[2]);
+      case 'min':
+      case 'max': {
+        const values = args.map(evaluateNumber);
+        const pick = node.name === 'min' ? Math.min : Math.max;
+        return num(pick(...values.map((v) => v.value)), values[0].dim);
+      }
+      case 'abs': {
+        const x = evaluateNumber(args[0]);
+        return num(Math.abs(x.value), x.dim);
+      }
+      case 'round': {
+        const x = evaluateNumber(args[0]);
+        const digits = args[1] ? Math.round(evaluateNumber(args[1]).value) : 0;
+        const scale = Math.pow(10, digits);
+        return num(Math.round(x.value * scale) / scale, x.dim);
+      }
+      case 'ceil':
+      case 'floor': {
+        const x = evaluateNumber(args[0]);
+        const step = args[1] ? evaluateNumber(args[1]).value : 1;
+        if (step <= 0) fail(`The step in ${node.name}() must be more than zero`, args[1]);
+        const rounding = node.name === 'ceil' ? Math.ceil : Math.floor;
+        // Trim float noise so 2.0000000001 pails does not become 3
+        return num(rounding(Number((x.value / step).toFixed(9))) * step, x.dim);
+      }
+      case 'clamp': {
+        const [x, low, high] = args.map(evaluateNumber);
+        if (low.value > high.value) fail('clamp() low bound is above the high bound', node);
+        return num(Math.min(Math.max(x.value, low.value), high.value), x.dim);
+      }
+      case 'lookup': {
+        const tableName = (args[0] as Extract<Node, { kind: 'name' }>).name;
+        const table = context.tables![tableName];
+        const unit = table.unit ? parseUnit(table.unit) : { factor: 1, dim: {} };
+        const key = evaluate(args[1]);
+
+        if (table.kind === 'exact') {
+          const entry = ownEntry(table.entries, String(key.value));
+          if (entry === undefined) {
+            if (table.default === undefined) {
+              fail(`'${key.value}' is not in table '${tableName}'. Keys: ${Object.keys(table.entries).join(', ')}`, args[1]);
+            }
+            return num(table.default! * unit.factor, unit.dim);
+          }
+          return num(entry * unit.factor, unit.dim);
+        }
+
+        const keyFactor = table.keyUnit ? parseUnit(table.keyUnit).factor : 1;
+        const keyValue = (key as NumberValue).value / keyFactor;
+        const row = table.rows.find((r) => r.upTo === null || keyValue <= r.upTo);
+        if (!row) fail(`${keyValue} is above the last row of table '${tableName}'`, args[1]);
+        return num(row!.value * unit.factor, unit.dim);
+      }
+      case 'convert': {
+        const x = evaluateNumber(args[0]);
+        const target = parseUnit((args[1] as Extract<Node, { kind: 'string' }>).value);
+        return num(x.value / target.factor, {});
+      }
+    }
+
+    return fail(`Unknown function '${node.name}'`, node);
+  };
+
+  // No prototype, so a step named '__proto__' is kept like any other
+  const results: Record<string, FormulaValue> = Object.create(null);
+  for (const statement of formula.statements) {
+    const value = evaluate(statement.expression);
+    env.set(statement.name, value);
+    results[statement.name] = value;
+  }
+  return results;
+}
+
+/**
+ * Plain JS value of a result. Numbers come back in `unit` when given (which
+ * must match the result's dimension), otherwise in base units.
+ */
+export function toPlainValue(value: FormulaValue, unit?: string): number | boolean | string {
+  if (value.type !== 'number' || !unit) return value.value;
+
+  const target = parseUnit(unit);
+  if (!sameDim(target.dim, value.dim) && !isPlain(value.dim)) {
+    throw new FormulaError(`Result is in ${describeDim(value.dim)}, not ${unit}`);
+  }
+  return value.value / target.factor;
+}
+
+/** Short display string, e.g. `1,250 sqft` or `$412.50` */
+export function formatFormulaValue(value: FormulaValue): string {
+  if (value.type === 'boolean') return value.value ? 'true' : 'false';
+  if (value.type === 'string') return value.value;
+
+  const rounded = Math.round(value.value * 100) / 100;
+  if (sameDim(value.dim, { usd: 1 })) {
+    return `$${rounded.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  }
+  const text = rounded.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  return isPlain(value.dim) ? text : `${text} ${describeDim(value.dim)}`;
+}
+
+export default {
+  compileFormula,
+  checkFormula,
+  evaluateFormula,
+  toPlainValue,
+  formatFormulaValue,
+  parseUnit,
+  describeDim,
+};
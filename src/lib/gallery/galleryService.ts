@@ -125,7 +125,14 @@ export async function addPhoto(
   photoType: GalleryPhoto['photo_type'],
   caption?: string
 ): Promise<GalleryPhoto> {
-  const url = await uploadFile('gallery', projectId, file);
+  const { data: project, error: projectError } = await supabase
+    .from('gallery_projects')
+    .select('org_id')
+    .eq('id', projectId)
+    .single();
+
+  if (projectError) throw projectError;
+  const url = await uploadFile((project as Pick<GalleryProject, 'org_id'>).org_id, 'gallery', projectId, file);
 
   const { data: existing } = await supabase
     .from('gallery_photos')
@@ -17,14 +17,19 @@ export * from './branding';
 export * from './clients';
 export * from './discounts';
 export * from './email';
+export * from './experiments';
+export * from './formulas';
 export * from './gallery';
 export * from './integrations';
 export * from './inventory';
 export * from './materials';
+export * from './measurements';
 export * from './notifications';
 export * from './payments';
 export * from './pdf';
 export * from './pipeline';
+export * from './portal';
+export * from './pricing';
 export * from './proposal';
 export * from './reports';
 export * from './scheduling';
@@ -60,6 +65,9 @@ export * from './blocks/blocksService';
 
 // Phase 39-40: Automation Engine
 export * from './automation/automationService';
+export * from './automation/workflowEngine';
+export * from './automation/automationScheduler';
+export * from './automation/automationSimulator';
 
 // Phase 41: CRM Dashboard
 export * from './crm/crmDashboardService';
@@ -80,7 +88,11 @@ export * from './whitelabel/whiteLabelService';
 export * from './api/publicApiService';
 
 // Phase 47: Integrations Hub
+export * from './integrations/webhookEvents';
 export * from './integrations/integrationsHubService';
+export * from './integrations/webhookDispatcher';
 
 // Phase 48-49: AI Pricing Optimization
 export * from './ai/aiPricingService';
+export * from './ai/dealScoringModel';
+export * from './ai/marketPriceService';
@@ -5,6 +5,22 @@
 
 import { supabase } from '../supabase';
 import { entitlementsService } from '../entitlements/entitlementsService';
+import { roundMoney } from '../pricing/pricingEngine';
+import {
+  compileFormula,
+  describeDim,
+  evaluateFormula,
+  FormulaError,
+  isPlain,
+  parseUnit,
+  sameDim,
+  toPlainValue,
+  type CompiledFormula,
+  type FormulaContext,
+  type FormulaInputs,
+  type LookupTable,
+  type VariableType,
+} from '../formulas/formulaEngine';
 
 // ============================================================================
 // TYPES
@@ -20,6 +36,8 @@ export interface Industry {
   isActive: boolean;
   config: IndustryConfig;
   legalClauses: LegalClause[];
+  /** Only set on industries returned by getOrgIndustries */
+  isPrimary?: boolean;
   createdAt: string;
   updatedAt: string;
 }
@@ -58,6 +76,8 @@ export interface Service {
   requiresMeasurement: boolean;
   measurementFields: MeasurementField[];
   pricingFormula: string | null;
+  /** Lookup tables the pricing formula can read */
+  pricingTables: Record<string, LookupTable>;
   multipliers: Record<string, number>;
   isActive: boolean;
   metadata: Record<string, unknown>;
@@ -73,6 +93,8 @@ export interface MeasurementField {
   options?: string[];
   min?: number;
   max?: number;
+  /** Unit the measurement is entered in, e.g. `sqft` */
+  unit?: string;
 }
 
 export interface ServiceCategory {
@@ -123,12 +145,15 @@ export interface WizardField {
 export interface Calculator {
   id: string;
   industryId: string;
+  /** null for the built-in calculators shared by every org */
+  orgId: string | null;
   code: string;
   name: string;
   description: string | null;
   inputSchema: CalculatorInput[];
   formula: string;
   outputSchema: CalculatorOutput[];
+  lookupTables: Record<string, LookupTable>;
   uiConfig: Record<string, unknown>;
   isActive: boolean;
 }
@@ -143,6 +168,8 @@ export interface CalculatorInput {
   min?: number;
   max?: number;
   step?: number;
+  /** Unit the input is entered in, e.g. `sqft` or `gal` */
+  unit?: string;
 }
 
 export interface CalculatorOutput {
@@ -150,6 +177,8 @@ export interface CalculatorOutput {
   label: string;
   type: 'number' | 'currency' | 'text';
   format?: string;
+  /** Unit the result is reported in; it must match what the formula produces */
+  unit?: string;
 }
 
 // ============================================================================
@@ -291,6 +320,15 @@ export const industriesService = {
     industryId: string,
     service: Partial<Service>
   ): Promise<Service> {
+    if (service.pricingFormula) {
+      compileServiceFormula({
+        pricingFormula: service.pricingFormula,
+        pricingTables: service.pricingTables || {},
+        measurementFields: service.measurementFields || [],
+        multipliers: service.multipliers || {},
+      });
+    }
+
     const { data, error } = await supabase
       .from('services_catalog')
       .insert({
@@ -310,6 +348,7 @@ export const industriesService = {
         requires_measurement: service.requiresMeasurement ?? false,
         measurement_fields: service.measurementFields || [],
         pricing_formula: service.pricingFormula,
+        pricing_tables: service.pricingTables || {},
         multipliers: service.multipliers || {},
         metadata: service.metadata || {},
       })
@@ -327,6 +366,14 @@ export const industriesService = {
     serviceId: string,
     updates: Partial<Service>
   ): Promise<Service> {
+    // Check the formula against the fields it will run with after the update
+    if (updates.pricingFormula || updates.pricingTables || updates.measurementFields || updates.multipliers) {
+      const current = await this.getService(serviceId);
+      if (!current) throw new Error('Service not found');
+      const merged = { ...current, ...updates };
+      if (merged.pricingFormula) compileServiceFormula(merged);
+    }
+
     const { data, error } = await supabase
       .from('services_catalog')
       .update({
@@ -338,6 +385,9 @@ export const industriesService = {
         cost: updates.cost,
         is_taxable: updates.isTaxable,
         tax_rate: updates.taxRate,
+        measurement_fields: updates.measurementFields,
+        pricing_formula: updates.pricingFormula,
+        pricing_tables: updates.pricingTables,
         multipliers: updates.multipliers,
         updated_at: new Date().toISOString(),
       })
@@ -479,13 +529,24 @@ export const industriesService = {
   /**
    * Get calculators for an industry
    */
-  async getCalculators(industryId: string): Promise<Calculator[]> {
-    const { data, error } = await supabase
+  async getCalculators(
+    industryId: string,
+    orgId?: string
+  ): Promise<Calculator[]> {
+    let query = supabase
       .from('calculators')
       .select('*')
       .eq('industry_id', industryId)
       .eq('is_active', true);
 
+    // Include built-in calculators and the org's own
+    if (orgId) {
+      query = query.or(`org_id.is.null,org_id.eq.${orgId}`);
+    } else {
+      query = query.is('org_id', null);
+    }
+
+    const { data, error } = await query.order('name');
     if (error) throw error;
     return (data || []).map(transformCalculator);
   },
@@ -504,6 +565,90 @@ export const industriesService = {
     return data ? transformCalculator(data) : null;
   },
 
+  /**
+   * Create a calculator owned by an org. The formula is checked first, so a
+   * FormulaError with its line and column comes back instead of a bad row.
+   */
+  async createCalculator(
+    orgId: string,
+    industryId: string,
+    calculator: Partial<Calculator>
+  ): Promise<Calculator> {
+    const draft = {
+      inputSchema: calculator.inputSchema || [],
+      outputSchema: calculator.outputSchema || [],
+      lookupTables: calculator.lookupTables || {},
+      formula: calculator.formula || '',
+    };
+    compileCalculatorFormula(draft);
+
+    const { data, error } = await supabase
+      .from('calculators')
+      .insert({
+        org_id: orgId,
+        industry_id: industryId,
+        code: calculator.code || generateCalculatorCode(),
+        name: calculator.name,
+        description: calculator.description,
+        input_schema: draft.inputSchema,
+        formula: draft.formula,
+        output_schema: draft.outputSchema,
+        lookup_tables: draft.lookupTables,
+        ui_config: calculator.uiConfig || {},
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return transformCalculator(data);
+  },
+
+  /**
+   * Update an org calculator; built-in calculators are read-only
+   */
+  async updateCalculator(
+    calculatorId: string,
+    updates: Partial<Calculator>
+  ): Promise<Calculator> {
+    const current = await this.getCalculator(calculatorId);
+    if (!current) throw new Error('Calculator not found');
+    if (!current.orgId) throw new Error('Built-in calculators cannot be edited; duplicate it instead');
+
+    compileCalculatorFormula({ ...current, ...updates });
+
+    const { data, error } = await supabase
+      .from('calculators')
+      .update({
+        name: updates.name,
+        description: updates.description,
+        input_schema: updates.inputSchema,
+        formula: updates.formula,
+        output_schema: updates.outputSchema,
+        lookup_tables: updates.lookupTables,
+        ui_config: updates.uiConfig,
+        is_active: updates.isActive,
+      })
+      .eq('id', calculatorId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return transformCalculator(data);
+  },
+
+  /**
+   * Delete an org calculator
+   */
+  async deleteCalculator(calculatorId: string): Promise<void> {
+    const { error } = await supabase
+      .from('calculators')
+      .delete()
+      .eq('id', calculatorId)
+      .not('org_id', 'is', null); // Only allow deleting org-specific calculators
+
+    if (error) throw error;
+  },
+
   /**
    * Run a calculator
    */
@@ -514,16 +659,35 @@ export const industriesService = {
     const calculator = await this.getCalculator(calculatorId);
     if (!calculator) throw new Error('Calculator not found');
 
-    // Validate inputs
+    return this.evaluateCalculator(calculator, inputs);
+  },
+
+  /**
+   * Evaluate a calculator without loading it, for editor previews. Missing
+   * inputs fall back to their defaults; results are keyed by the output
+   * schema, or every assigned name when the schema is empty.
+   */
+  evaluateCalculator(
+    calculator: Pick<Calculator, 'inputSchema' | 'outputSchema' | 'lookupTables' | 'formula'>,
+    inputs: Record<string, unknown>
+  ): Record<string, unknown> {
+    const values: FormulaInputs = {};
     for (const input of calculator.inputSchema) {
-      if (input.required && inputs[input.key] === undefined) {
+      const value = inputs[input.key] ?? input.defaultValue;
+      if (input.required && (value === undefined || value === null || value === '')) {
         throw new Error(`Missing required input: ${input.label}`);
       }
+      values[input.key] = value;
     }
 
-    // Run formula (in production, use a safe eval or formula engine)
-    const result = evaluateFormula(calculator.formula, inputs);
-    return result;
+    const results = evaluateFormula(compileCalculatorFormula(calculator), values);
+
+    if (calculator.outputSchema.length === 0) {
+      return Object.fromEntries(Object.entries(results).map(([key, value]) => [key, toPlainValue(value)]));
+    }
+    return Object.fromEntries(
+      calculator.outputSchema.map((output) => [output.key, toPlainValue(results[output.key], output.unit)])
+    );
   },
 
   // --------------------------------------------------------------------------
@@ -571,7 +735,9 @@ export const industriesService = {
   // --------------------------------------------------------------------------
 
   /**
-   * Calculate price for a service with inputs
+   * Calculate price for a service with inputs. A pricing formula that fails
+   * at run time (a missing measurement, division by zero) throws a
+   * FormulaError rather than quietly falling back to the unadjusted price.
    */
   calculateServicePrice(
     service: Service,
@@ -609,21 +775,25 @@ export const industriesService = {
 
     // Apply formula if present
     if (service.pricingFormula) {
-      try {
-        const formulaResult = evaluateFormula(service.pricingFormula, {
-          ...inputs,
-          base: basePrice,
-          adjusted: adjustedPrice,
-        });
-        if (formulaResult.total !== undefined) {
-          adjustedPrice = formulaResult.total;
-        }
-      } catch (e) {
-        console.error('Formula evaluation error:', e);
+      const values: FormulaInputs = { ...inputs, base: basePrice, adjusted: adjustedPrice };
+      for (const key of Object.keys(service.multipliers)) {
+        values[key] = Boolean(inputs[key]);
       }
+
+      const results = evaluateFormula(compileServiceFormula(service), values);
+      const total = toPlainValue(results.total) as number;
+      if (total !== adjustedPrice) {
+        breakdown.push({ label: 'Pricing formula adjustment', amount: total - adjustedPrice });
+      }
+      adjustedPrice = total;
     }
 
-    return { basePrice, adjustedPrice, breakdown };
+    // Round the same way the pricing engine does, so catalog prices agree with proposal totals
+    return {
+      basePrice,
+      adjustedPrice: roundMoney(adjustedPrice),
+      breakdown: breakdown.map((line) => ({ ...line, amount: roundMoney(line.amount) })),
+    };
   },
 };
 
@@ -676,6 +846,7 @@ function transformService(row: Record<string, unknown>): Service {
     requiresMeasurement: row.requires_measurement as boolean,
     measurementFields: (row.measurement_fields || []) as MeasurementField[],
     pricingFormula: row.pricing_formula as string | null,
+    pricingTables: (row.pricing_tables || {}) as Record<string, LookupTable>,
     multipliers: (row.multipliers || {}) as Record<string, number>,
     isActive: row.is_active as boolean,
     metadata: (row.metadata || {}) as Record<string, unknown>,
@@ -716,12 +887,14 @@ function transformCalculator(row: Record<string, unknown>): Calculator {
   return {
     id: row.id as string,
     industryId: row.industry_id as string,
+    orgId: row.org_id as string | null,
     code: row.code as string,
     name: row.name as string,
     description: row.description as string | null,
     inputSchema: (row.input_schema || []) as CalculatorInput[],
     formula: row.formula as string,
     outputSchema: (row.output_schema || []) as CalculatorOutput[],
+    lookupTables: (row.lookup_tables || {}) as Record<string, LookupTable>,
     uiConfig: (row.ui_config || {}) as Record<string, unknown>,
     isActive: row.is_active as boolean,
   };
@@ -731,28 +904,87 @@ function generateServiceCode(): string {
   return `SVC_${Date.now().toString(36).toUpperCase()}`;
 }
 
-function evaluateFormula(
-  formula: string,
-  inputs: Record<string, unknown>
-): Record<string, unknown> {
-  // Simple formula evaluation (in production, use a proper formula engine)
-  // This is a basic implementation for demonstration
-  
-  try {
-    // Replace variable references with values
-    let evaluated = formula;
-    for (const [key, value] of Object.entries(inputs)) {
-      const regex = new RegExp(`\\b${key}\\b`, 'g');
-      evaluated = evaluated.replace(regex, String(value));
-    }
+function generateCalculatorCode(): string {
+  return `CALC_${Date.now().toString(36).toUpperCase()}`;
+}
+
+/**
+ * Variables a service's pricing formula can read: its measurement fields,
+ * `base` (the catalog price per unit), `adjusted` (the price after
+ * measurement and multipliers) and each multiplier flag
+ */
+export function getServiceFormulaContext(
+  service: Pick<Service, 'measurementFields' | 'multipliers' | 'pricingTables'>
+): FormulaContext {
+  const variables: Record<string, VariableType> = {};
+
+  for (const field of service.measurementFields) {
+    variables[field.key] = field.type === 'number'
+      ? { type: 'number', unit: field.unit }
+      : { type: 'string', options: field.type === 'select' ? field.options : undefined };
+  }
+  for (const key of Object.keys(service.multipliers)) {
+    variables[key] = { type: 'boolean' };
+  }
+
+  const primaryUnit = service.measurementFields[0]?.unit;
+  variables.base = { type: 'number', unit: primaryUnit ? `usd/${primaryUnit}` : 'usd' };
+  variables.adjusted = { type: 'number', unit: 'usd' };
+
+  return { variables, tables: service.pricingTables };
+}
+
+/** Variables a calculator formula can read: one per input */
+export function getCalculatorFormulaContext(
+  calculator: Pick<Calculator, 'inputSchema' | 'lookupTables'>
+): FormulaContext {
+  const variables: Record<string, VariableType> = {};
+
+  for (const input of calculator.inputSchema) {
+    if (input.type === 'number') variables[input.key] = { type: 'number', unit: input.unit };
+    else if (input.type === 'boolean') variables[input.key] = { type: 'boolean' };
+    else variables[input.key] = { type: 'string', options: input.options?.map((option) => option.value) };
+  }
+
+  return { variables, tables: calculator.lookupTables };
+}
+
+/** Compile a pricing formula and check that it produces a dollar `total` */
+export function compileServiceFormula(
+  service: Pick<Service, 'pricingFormula' | 'measurementFields' | 'multipliers' | 'pricingTables'>
+): CompiledFormula {
+  const formula = compileFormula(service.pricingFormula || '', getServiceFormulaContext(service));
+  const total = formula.outputs.find((output) => output.name === 'total');
+
+  if (!total) {
+    throw new FormulaError("A pricing formula must set 'total', or end with the price on its last line");
+  }
+  // A plain number is taken as dollars, so `adjusted * 1.1` style formulas keep working
+  if (total.type.type !== 'number' || !(isPlain(total.type.dim) || sameDim(total.type.dim, { usd: 1 }))) {
+    throw new FormulaError(`'total' must be a dollar amount, not ${total.type.type === 'number' ? describeDim(total.type.dim) : `a ${total.type.type}`}`);
+  }
+  return formula;
+}
+
+/** Compile a calculator formula and check it produces every declared output */
+export function compileCalculatorFormula(
+  calculator: Pick<Calculator, 'inputSchema' | 'outputSchema' | 'lookupTables' | 'formula'>
+): CompiledFormula {
+  const formula = compileFormula(calculator.formula, getCalculatorFormulaContext(calculator));
 
-    // Evaluate math expressions (very basic, not safe for production)
-    const mathResult = Function(`"use strict"; return (${evaluated})`)();
-    return { total: mathResult };
-  } catch (e) {
-    console.error('Formula evaluation failed:', e);
-    return {};
+  for (const output of calculator.outputSchema) {
+    const result = formula.outputs.find((candidate) => candidate.name === output.key);
+    if (!result) {
+      throw new FormulaError(`Output '${output.label}' is never set; add a line like '${output.key} = ...'`);
+    }
+    if (output.unit) {
+      const unit = parseUnit(output.unit);
+      if (result.type.type !== 'number' || !sameDim(result.type.dim, unit.dim)) {
+        throw new FormulaError(`Output '${output.label}' should be in ${output.unit}, but the formula gives ${result.type.type === 'number' ? describeDim(result.type.dim) : `a ${result.type.type}`}`);
+      }
+    }
   }
+  return formula;
 }
 
 // ============================================================================
@@ -1 +1,3 @@
-export * from './integrationsService';
+export * from './webhookEvents';
+export * from './integrationsHubService';
+export * from './webhookDispatcher';
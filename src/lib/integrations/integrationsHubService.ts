@@ -5,6 +5,14 @@
 
 import { supabase } from '../supabase';
 import { entitlementsService } from '../entitlements/entitlementsService';
+import {
+  WEBHOOK_EVENT_CATALOG,
+  buildWebhookPayload,
+  type WebhookEvent,
+  type WebhookEventDefinition,
+} from './webhookEvents';
+
+export type { WebhookEvent } from './webhookEvents';
 
 // ============================================================================
 // TYPES
@@ -72,40 +80,60 @@ export interface SyncFilter {
   value: unknown;
 }
 
+/** Where an endpoint was registered; all of them receive the same catalog events */
+export type WebhookEndpointSource = 'app' | 'api' | 'zapier';
+
 export interface WebhookEndpoint {
   id: string;
   orgId: string;
+  name: string | null;
+  source: WebhookEndpointSource;
+  /** The source's own id for the subscription, e.g. the Zap id */
+  externalId: string | null;
   url: string;
   events: WebhookEvent[];
   secret: string;
   isActive: boolean;
   failureCount: number;
+  /** Start of the current run of failed attempts */
+  failingSince: string | null;
   lastDeliveryAt: string | null;
   lastDeliveryStatus: number | null;
+  /** Set when the endpoint was turned off for failing too long */
+  disabledAt: string | null;
+  disabledReason: string | null;
   createdAt: string;
 }
 
-export type WebhookEvent =
-  | 'proposal.created'
-  | 'proposal.sent'
-  | 'proposal.viewed'
-  | 'proposal.signed'
-  | 'proposal.rejected'
-  | 'client.created'
-  | 'client.updated'
-  | 'payment.received'
-  | 'payment.failed';
+/** 'dead' deliveries ran out of retries and wait in the dead-letter queue */
+export type WebhookDeliveryStatus = 'pending' | 'delivering' | 'delivered' | 'dead';
 
 export interface WebhookDelivery {
   id: string;
   endpointId: string;
+  /** Shared by every endpoint's copy of one event, so receivers can dedupe */
+  eventId: string;
   event: WebhookEvent;
+  /** Catalog payload version the payload was built against */
+  eventVersion: number;
   payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
   responseStatus: number | null;
   responseBody: string | null;
+  lastError: string | null;
   deliveredAt: string | null;
   attempts: number;
   nextRetryAt: string | null;
+  deadAt: string | null;
+  createdAt: string;
+}
+
+/** Outcome of one HTTP attempt */
+export interface WebhookAttemptResult {
+  ok: boolean;
+  status: number | null;
+  body: string | null;
+  error: string | null;
 }
 
 export interface IntegrationProviderInfo {
@@ -120,16 +148,6 @@ export interface IntegrationProviderInfo {
   setupInstructions: string;
 }
 
-export interface ZapierWebhook {
-  id: string;
-  orgId: string;
-  zapId: string;
-  triggerEvent: WebhookEvent;
-  webhookUrl: string;
-  isActive: boolean;
-  createdAt: string;
-}
-
 export interface QuickBooksConfig {
   realmId: string;
   syncCustomers: boolean;
@@ -256,17 +274,19 @@ const INTEGRATION_PROVIDERS: IntegrationProviderInfo[] = [
   },
 ];
 
-const WEBHOOK_EVENTS: { event: WebhookEvent; description: string }[] = [
-  { event: 'proposal.created', description: 'When a new proposal is created' },
-  { event: 'proposal.sent', description: 'When a proposal is sent to client' },
-  { event: 'proposal.viewed', description: 'When a client views a proposal' },
-  { event: 'proposal.signed', description: 'When a proposal is signed' },
-  { event: 'proposal.rejected', description: 'When a proposal is rejected' },
-  { event: 'client.created', description: 'When a new client is added' },
-  { event: 'client.updated', description: 'When client info is updated' },
-  { event: 'payment.received', description: 'When a payment is received' },
-  { event: 'payment.failed', description: 'When a payment fails' },
-];
+/** Sent on every delivery; the signature is an HMAC-SHA256 of `${timestamp}.${body}` */
+export const WEBHOOK_HEADERS = {
+  id: 'X-Webhook-Id',
+  event: 'X-Webhook-Event',
+  timestamp: 'X-Webhook-Timestamp',
+  signature: 'X-Webhook-Signature',
+} as const;
+
+/** A slower response counts as a failed attempt */
+const DELIVERY_TIMEOUT_MS = 10000;
+
+/** Enough of a response body to debug with */
+const MAX_RESPONSE_BODY_LENGTH = 2000;
 
 // ============================================================================
 // INTEGRATIONS HUB SERVICE
@@ -581,7 +601,8 @@ export const integrationsHubService = {
   async createWebhookEndpoint(
     orgId: string,
     url: string,
-    events: WebhookEvent[]
+    events: WebhookEvent[],
+    options: { name?: string; source?: WebhookEndpointSource; externalId?: string } = {}
   ): Promise<WebhookEndpoint> {
     const secret = this.generateWebhookSecret();
 
@@ -589,6 +610,9 @@ export const integrationsHubService = {
       .from('webhook_endpoints')
       .insert({
         org_id: orgId,
+        name: options.name || null,
+        source: options.source || 'app',
+        external_id: options.externalId || null,
         url,
         events,
         secret,
@@ -628,6 +652,16 @@ export const integrationsHubService = {
     if (updates.events) updateData.events = updates.events;
     if (updates.isActive !== undefined) updateData.is_active = updates.isActive;
 
+    // Turning an endpoint back on gives it a fresh failure budget
+    if (updates.isActive) {
+      Object.assign(updateData, {
+        failure_count: 0,
+        failing_since: null,
+        disabled_at: null,
+        disabled_reason: null,
+      });
+    }
+
     const { data, error } = await supabase
       .from('webhook_endpoints')
       .update(updateData)
@@ -647,107 +681,163 @@ export const integrationsHubService = {
   },
 
   /**
-   * Trigger webhook
+   * Queue an event for every active endpoint subscribed to it. The worker
+   * cron delivers the queue, so a slow or failing endpoint never holds up
+   * the caller. Throws WebhookPayloadError if the payload does not match
+   * the event's catalog schema.
    */
   async triggerWebhook(
     orgId: string,
     event: WebhookEvent,
-    payload: Record<string, unknown>
+    data: Record<string, unknown>
   ): Promise<void> {
+    const payload = buildWebhookPayload(event, data);
     const endpoints = await this.getWebhookEndpoints(orgId);
     const activeEndpoints = endpoints.filter(
       (e) => e.isActive && e.events.includes(event)
     );
+    if (activeEndpoints.length === 0) return;
 
-    for (const endpoint of activeEndpoints) {
-      await this.deliverWebhook(endpoint, event, payload);
-    }
+    const eventId = crypto.randomUUID();
+    const now = new Date().toISOString();
+    const { error } = await supabase.from('webhook_deliveries').insert(
+      activeEndpoints.map((endpoint) => ({
+        endpoint_id: endpoint.id,
+        event_id: eventId,
+        event,
+        event_version: payload.version,
+        payload: payload.data,
+        status: 'pending',
+        attempts: 0,
+        next_retry_at: now,
+      }))
+    );
+
+    if (error) throw error;
   },
 
   /**
-   * Deliver webhook
+   * Make one signed HTTP attempt at a queued delivery. Retries and
+   * endpoint health are handled by the webhook dispatcher.
    */
   async deliverWebhook(
     endpoint: WebhookEndpoint,
-    event: WebhookEvent,
-    payload: Record<string, unknown>
-  ): Promise<boolean> {
-    const signature = await this.signWebhookPayload(
-      JSON.stringify(payload),
-      endpoint.secret
-    );
-
-    // Create delivery record
-    const { data: delivery } = await supabase
-      .from('webhook_deliveries')
-      .insert({
-        endpoint_id: endpoint.id,
-        event,
-        payload,
-        attempts: 1,
-      })
-      .select()
-      .single();
+    delivery: WebhookDelivery
+  ): Promise<WebhookAttemptResult> {
+    // The body is rebuilt from the stored row, so every retry sends the same bytes
+    const body = JSON.stringify({
+      id: delivery.eventId,
+      event: delivery.event,
+      version: delivery.eventVersion,
+      createdAt: delivery.createdAt,
+      data: delivery.payload,
+    });
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = await this.signWebhookPayload(`${timestamp}.${body}`, endpoint.secret);
 
     try {
-      // In production, make actual HTTP request
-      console.log(`Delivering webhook to ${endpoint.url}`, {
-        event,
-        payload,
-        signature,
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [WEBHOOK_HEADERS.id]: delivery.eventId,
+          [WEBHOOK_HEADERS.event]: delivery.event,
+          [WEBHOOK_HEADERS.timestamp]: timestamp,
+          [WEBHOOK_HEADERS.signature]: `v1=${signature}`,
+        },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
       });
 
-      // Mock successful delivery
-      const responseStatus = 200;
+      const responseBody = (await response.text().catch(() => '')).slice(0, MAX_RESPONSE_BODY_LENGTH);
+      return {
+        ok: response.ok,
+        status: response.status,
+        body: responseBody || null,
+        error: response.ok ? null : `Endpoint responded ${response.status}`,
+      };
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      return {
+        ok: false,
+        status: null,
+        body: null,
+        error: timedOut
+          ? `No response within ${DELIVERY_TIMEOUT_MS / 1000}s`
+          : error instanceof Error ? error.message : 'Request failed',
+      };
+    }
+  },
 
-      await supabase
-        .from('webhook_deliveries')
-        .update({
-          response_status: responseStatus,
-          delivered_at: new Date().toISOString(),
-        })
-        .eq('id', delivery?.id);
+  /**
+   * Get recent deliveries across the org's endpoints, newest first.
+   * status 'dead' is the dead-letter queue.
+   */
+  async getWebhookDeliveries(
+    orgId: string,
+    options: { status?: WebhookDeliveryStatus; endpointId?: string; limit?: number } = {}
+  ): Promise<WebhookDelivery[]> {
+    const endpoints = await this.getWebhookEndpoints(orgId);
+    const endpointIds = options.endpointId
+      ? endpoints.filter((e) => e.id === options.endpointId).map((e) => e.id)
+      : endpoints.map((e) => e.id);
+    if (endpointIds.length === 0) return [];
 
-      await supabase
-        .from('webhook_endpoints')
-        .update({
-          last_delivery_at: new Date().toISOString(),
-          last_delivery_status: responseStatus,
-          failure_count: 0,
-        })
-        .eq('id', endpoint.id);
+    let query = supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .in('endpoint_id', endpointIds)
+      .order('created_at', { ascending: false })
+      .limit(options.limit ?? 100);
 
-      return true;
-    } catch (error) {
-      const failureCount = endpoint.failureCount + 1;
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
 
-      await supabase
-        .from('webhook_endpoints')
-        .update({
-          failure_count: failureCount,
-          is_active: failureCount < 5, // Disable after 5 failures
-        })
-        .eq('id', endpoint.id);
-
-      // Schedule retry
-      if (failureCount < 5) {
-        await supabase
-          .from('webhook_deliveries')
-          .update({
-            next_retry_at: new Date(Date.now() + Math.pow(2, failureCount) * 60000).toISOString(),
-          })
-          .eq('id', delivery?.id);
-      }
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(transformWebhookDelivery);
+  },
+
+  /**
+   * Send a delivery again from the first attempt: a dead letter, or a
+   * delivered event the receiver lost. Receivers see the same event id.
+   */
+  async redeliverWebhook(deliveryId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('webhook_deliveries')
+      .select('*, webhook_endpoints(is_active)')
+      .eq('id', deliveryId)
+      .single();
 
-      return false;
+    if (error) throw error;
+    const delivery = data as { status: string; webhook_endpoints: { is_active: boolean } | null };
+    if (delivery.status === 'pending' || delivery.status === 'delivering') {
+      throw new Error('This delivery is already queued');
+    }
+    if (!delivery.webhook_endpoints?.is_active) {
+      throw new Error('Turn the endpoint back on before redelivering');
     }
+
+    const { error: updateError } = await supabase
+      .from('webhook_deliveries')
+      .update({
+        status: 'pending',
+        attempts: 0,
+        next_retry_at: new Date().toISOString(),
+        dead_at: null,
+        last_error: null,
+      })
+      .eq('id', deliveryId);
+
+    if (updateError) throw updateError;
   },
 
   /**
-   * Get webhook events
+   * Get the webhook event catalog
    */
-  getWebhookEvents(): { event: WebhookEvent; description: string }[] {
-    return WEBHOOK_EVENTS;
+  getWebhookEvents(): WebhookEventDefinition[] {
+    return WEBHOOK_EVENT_CATALOG;
   },
 
   // --------------------------------------------------------------------------
@@ -755,62 +845,20 @@ export const integrationsHubService = {
   // --------------------------------------------------------------------------
 
   /**
-   * Create Zapier webhook
+   * Subscribe a Zap to an event. Zaps are ordinary webhook endpoints, so
+   * they get the same signed, retried deliveries as every other endpoint.
    */
   async createZapierWebhook(
     orgId: string,
     zapId: string,
     triggerEvent: WebhookEvent,
     webhookUrl: string
-  ): Promise<ZapierWebhook> {
-    const { data, error } = await supabase
-      .from('zapier_webhooks')
-      .insert({
-        org_id: orgId,
-        zap_id: zapId,
-        trigger_event: triggerEvent,
-        webhook_url: webhookUrl,
-        is_active: true,
-      })
-      .select()
-      .single();
-
-    if (error) throw error;
-
-    return {
-      id: data.id,
-      orgId: data.org_id,
-      zapId: data.zap_id,
-      triggerEvent: data.trigger_event,
-      webhookUrl: data.webhook_url,
-      isActive: data.is_active,
-      createdAt: data.created_at,
-    };
-  },
-
-  /**
-   * Trigger Zapier webhooks
-   */
-  async triggerZapierWebhooks(
-    orgId: string,
-    event: WebhookEvent,
-    data: Record<string, unknown>
-  ): Promise<void> {
-    const { data: webhooks } = await supabase
-      .from('zapier_webhooks')
-      .select('*')
-      .eq('org_id', orgId)
-      .eq('trigger_event', event)
-      .eq('is_active', true);
-
-    for (const webhook of webhooks || []) {
-      try {
-        console.log(`Triggering Zapier webhook: ${webhook.webhook_url}`, data);
-        // In production, make HTTP POST to webhook.webhook_url
-      } catch (error) {
-        console.error('Zapier webhook failed:', error);
-      }
-    }
+  ): Promise<WebhookEndpoint> {
+    return this.createWebhookEndpoint(orgId, webhookUrl, [triggerEvent], {
+      name: `Zap ${zapId}`,
+      source: 'zapier',
+      externalId: zapId,
+    });
   },
 
   // --------------------------------------------------------------------------
@@ -1013,17 +1061,43 @@ function transformIntegration(row: Record<string, unknown>): Integration {
   };
 }
 
-function transformWebhookEndpoint(row: Record<string, unknown>): WebhookEndpoint {
+export function transformWebhookEndpoint(row: Record<string, unknown>): WebhookEndpoint {
   return {
     id: row.id as string,
     orgId: row.org_id as string,
+    name: row.name as string | null,
+    source: (row.source || 'app') as WebhookEndpointSource,
+    externalId: row.external_id as string | null,
     url: row.url as string,
     events: (row.events || []) as WebhookEvent[],
     secret: row.secret as string,
     isActive: row.is_active as boolean,
     failureCount: row.failure_count as number,
+    failingSince: row.failing_since as string | null,
     lastDeliveryAt: row.last_delivery_at as string | null,
     lastDeliveryStatus: row.last_delivery_status as number | null,
+    disabledAt: row.disabled_at as string | null,
+    disabledReason: row.disabled_reason as string | null,
+    createdAt: row.created_at as string,
+  };
+}
+
+export function transformWebhookDelivery(row: Record<string, unknown>): WebhookDelivery {
+  return {
+    id: row.id as string,
+    endpointId: row.endpoint_id as string,
+    eventId: (row.event_id || row.id) as string,
+    event: row.event as WebhookEvent,
+    eventVersion: (row.event_version || 1) as number,
+    payload: (row.payload || {}) as Record<string, unknown>,
+    status: row.status as WebhookDeliveryStatus,
+    responseStatus: row.response_status as number | null,
+    responseBody: row.response_body as string | null,
+    lastError: row.last_error as string | null,
+    deliveredAt: row.delivered_at as string | null,
+    attempts: row.attempts as number,
+    nextRetryAt: row.next_retry_at as string | null,
+    deadAt: row.dead_at as string | null,
     createdAt: row.created_at as string,
   };
 }
@@ -0,0 +1,242 @@
+/**
+ * Sommer's Proposal System - Webhook Dispatcher
+ * Delivers queued webhook_deliveries from the worker cron, retrying failed
+ * attempts with exponential backoff. Deliveries that run out of attempts
+ * move to the dead-letter queue, and endpoints that keep failing are
+ * turned off.
+ *
+ * webhook_deliveries is a claimed-row queue (see queue/claimedRows), so a
+ * delivery can arrive twice; receivers dedupe on the X-Webhook-Id header.
+ */
+
+import { supabase } from '../supabase';
+import {
+  claimRows,
+  getBackoffMinutes,
+  hasExhaustedAttempts,
+  releaseClaimedRow,
+  runClaimedRows,
+  type BackoffPolicy,
+} from '../queue/claimedRows';
+import {
+  integrationsHubService,
+  transformWebhookDelivery,
+  transformWebhookEndpoint,
+  type WebhookAttemptResult,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+} from './integrationsHubService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WebhookDeliveryRunSummary {
+  claimed: number;
+  delivered: number;
+  retried: number;
+  dead: number;
+}
+
+type WebhookDeliveryOutcome = Exclude<keyof WebhookDeliveryRunSummary, 'claimed'>;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const WEBHOOK_CLAIM_BATCH_SIZE = 25;
+
+/** First attempt plus seven retries, spread over about four hours */
+export const MAX_DELIVERY_ATTEMPTS = 8;
+
+/** Waits of 2, 4, 8 ... minutes between attempts, capped at two hours */
+const DELIVERY_RETRY_BACKOFF: BackoffPolicy = { baseMinutes: 2, maxMinutes: 2 * 60 };
+
+/** A delivery takes seconds; one locked this long was left by a worker that died */
+const LOCK_TIMEOUT_MINUTES = 5;
+
+/**
+ * An endpoint is turned off once it has failed this many attempts in a row
+ * over at least this long, so a short outage only costs retries
+ */
+const DISABLE_AFTER_FAILURES = 20;
+const DISABLE_AFTER_HOURS = 24;
+
+// ============================================================================
+// DELIVERY
+// ============================================================================
+
+/**
+ * Claim one batch of due deliveries and attempt each. Returns how each one ended.
+ */
+export async function runDueWebhookDeliveries(
+  workerId: string,
+  limit: number = WEBHOOK_CLAIM_BATCH_SIZE
+): Promise<WebhookDeliveryRunSummary> {
+  const rows = await claimRows('claim_webhook_deliveries', workerId, limit, LOCK_TIMEOUT_MINUTES);
+  const claimed = rows.map(transformWebhookDelivery);
+  const summary: WebhookDeliveryRunSummary = { claimed: claimed.length, delivered: 0, retried: 0, dead: 0 };
+  if (claimed.length === 0) return summary;
+
+  const endpoints = await getEndpoints([...new Set(claimed.map((d) => d.endpointId))]);
+
+  await runClaimedRows(claimed, summary, 'Webhook delivery', (delivery) =>
+    runDelivery(delivery, endpoints, workerId)
+  );
+
+  return summary;
+}
+
+async function runDelivery(
+  delivery: WebhookDelivery,
+  endpoints: Map<string, WebhookEndpoint>,
+  workerId: string
+): Promise<WebhookDeliveryOutcome> {
+  const endpoint = endpoints.get(delivery.endpointId);
+
+  if (!endpoint || !endpoint.isActive) {
+    return killDelivery(delivery, workerId, 'Endpoint is turned off');
+  }
+
+  if (hasExhaustedAttempts(delivery.attempts, MAX_DELIVERY_ATTEMPTS)) {
+    return killDelivery(delivery, workerId, delivery.lastError || 'Worker stopped before the delivery finished');
+  }
+
+  const result = await integrationsHubService.deliverWebhook(endpoint, delivery);
+  await recordEndpointAttempt(endpoint, result);
+
+  if (result.ok) {
+    await releaseClaimedRow('webhook_deliveries', delivery.id, workerId, {
+      status: 'delivered',
+      response_status: result.status,
+      response_body: result.body,
+      last_error: null,
+      delivered_at: new Date().toISOString(),
+      next_retry_at: null,
+    });
+    return 'delivered';
+  }
+
+  const attemptDetails = {
+    response_status: result.status,
+    response_body: result.body,
+    last_error: result.error,
+  };
+
+  // The endpoint may have just been turned off; its queue is dead-lettered with it
+  if (delivery.attempts < MAX_DELIVERY_ATTEMPTS && endpoint.isActive) {
+    const retryAt = new Date(Date.now() + getBackoffMinutes(delivery.attempts, DELIVERY_RETRY_BACKOFF) * 60 * 1000);
+    await releaseClaimedRow('webhook_deliveries', delivery.id, workerId, {
+      ...attemptDetails,
+      status: 'pending',
+      next_retry_at: retryAt.toISOString(),
+    });
+    return 'retried';
+  }
+
+  return killDelivery(delivery, workerId, result.error || 'Delivery failed', attemptDetails);
+}
+
+/**
+ * Move a delivery to the dead-letter queue, where it waits for a manual redelivery
+ */
+async function killDelivery(
+  delivery: WebhookDelivery,
+  workerId: string,
+  message: string,
+  attemptDetails: Record<string, unknown> = {}
+): Promise<WebhookDeliveryOutcome> {
+  await releaseClaimedRow('webhook_deliveries', delivery.id, workerId, {
+    ...attemptDetails,
+    status: 'dead',
+    last_error: message,
+    next_retry_at: null,
+    dead_at: new Date().toISOString(),
+  });
+  return 'dead';
+}
+
+// ============================================================================
+// ENDPOINT HEALTH
+// ============================================================================
+
+/**
+ * Track consecutive failures on the endpoint and turn it off once it has
+ * been failing for too long. Mutates the endpoint so later deliveries in
+ * the same batch see its new state.
+ */
+async function recordEndpointAttempt(
+  endpoint: WebhookEndpoint,
+  result: WebhookAttemptResult
+): Promise<void> {
+  const now = new Date();
+  const updates: Record<string, unknown> = {
+    last_delivery_at: now.toISOString(),
+    last_delivery_status: result.status,
+  };
+
+  if (result.ok) {
+    Object.assign(updates, { failure_count: 0, failing_since: null });
+    endpoint.failureCount = 0;
+    endpoint.failingSince = null;
+  } else {
+    const failureCount = endpoint.failureCount + 1;
+    const failingSince = endpoint.failingSince || now.toISOString();
+    const failingHours = (now.getTime() - new Date(failingSince).getTime()) / (60 * 60 * 1000);
+    Object.assign(updates, { failure_count: failureCount, failing_since: failingSince });
+    endpoint.failureCount = failureCount;
+    endpoint.failingSince = failingSince;
+
+    if (failureCount >= DISABLE_AFTER_FAILURES && failingHours >= DISABLE_AFTER_HOURS) {
+      const reason = `Turned off after ${failureCount} failed deliveries over ${Math.floor(failingHours)} hours`;
+      Object.assign(updates, {
+        is_active: false,
+        disabled_at: now.toISOString(),
+        disabled_reason: reason,
+      });
+      endpoint.isActive = false;
+      await deadLetterQueue(endpoint.id, reason);
+    }
+  }
+
+  const { error } = await supabase
+    .from('webhook_endpoints')
+    .update(updates)
+    .eq('id', endpoint.id);
+
+  if (error) throw error;
+}
+
+/**
+ * Dead-letter everything still waiting for a turned-off endpoint, so it
+ * can be redelivered once the endpoint is fixed
+ */
+async function deadLetterQueue(endpointId: string, reason: string): Promise<void> {
+  const { error } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      status: 'dead',
+      last_error: reason,
+      next_retry_at: null,
+      dead_at: new Date().toISOString(),
+    })
+    .eq('endpoint_id', endpointId)
+    .eq('status', 'pending');
+
+  if (error) throw error;
+}
+
+async function getEndpoints(endpointIds: string[]): Promise<Map<string, WebhookEndpoint>> {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .in('id', endpointIds);
+
+  if (error) throw error;
+  return new Map(
+    ((data || []) as Record<string, unknown>[]).map((row) => {
+      const endpoint = transformWebhookEndpoint(row);
+      return [endpoint.id, endpoint];
+    })
+  );
+}
@@ -0,0 +1,255 @@
+/**
+ * Sommer's Proposal System - Webhook Event Catalog
+ * The one list of outbound webhook events, with the payload schema each
+ * version of an event promises to receivers. Every endpoint, whether it was
+ * added in the app, through the public API or by Zapier, subscribes to
+ * events from this catalog.
+ *
+ * A payload version only changes when a field is removed, renamed or
+ * retyped; adding an optional field keeps the version.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type WebhookEvent =
+  | 'proposal.created'
+  | 'proposal.sent'
+  | 'proposal.viewed'
+  | 'proposal.signed'
+  | 'proposal.rejected'
+  | 'client.created'
+  | 'client.updated'
+  | 'job.scheduled'
+  | 'job.completed'
+  | 'payment.received'
+  | 'payment.failed';
+
+export type WebhookPayloadFieldType = 'string' | 'number' | 'boolean' | 'object';
+
+export interface WebhookPayloadField {
+  type: WebhookPayloadFieldType;
+  required: boolean;
+  description: string;
+}
+
+export type WebhookPayloadSchema = Record<string, WebhookPayloadField>;
+
+export interface WebhookEventDefinition {
+  event: WebhookEvent;
+  description: string;
+  /** Payload version sent as `version` in the delivery body */
+  version: number;
+  schema: WebhookPayloadSchema;
+}
+
+/** A payload checked against its event's schema, ready to queue */
+export interface WebhookPayload {
+  version: number;
+  data: Record<string, unknown>;
+}
+
+// ============================================================================
+// CATALOG
+// ============================================================================
+
+const field = (
+  type: WebhookPayloadFieldType,
+  description: string,
+  required = true
+): WebhookPayloadField => ({ type, required, description });
+
+const PROPOSAL_FIELDS: WebhookPayloadSchema = {
+  proposalId: field('string', 'Proposal ID'),
+  proposalNumber: field('string', 'Human-readable proposal number'),
+  status: field('string', 'Proposal status after the event'),
+  total: field('number', 'Proposal total'),
+  contactId: field('string', 'Contact the proposal is addressed to', false),
+};
+
+const CLIENT_FIELDS: WebhookPayloadSchema = {
+  clientId: field('string', 'Client ID'),
+  name: field('string', 'Client name'),
+  email: field('string', 'Primary email', false),
+  phone: field('string', 'Primary phone', false),
+};
+
+const JOB_FIELDS: WebhookPayloadSchema = {
+  jobId: field('string', 'Job ID'),
+  proposalId: field('string', 'Proposal the job was created from', false),
+  status: field('string', 'Job status after the event'),
+};
+
+const PAYMENT_FIELDS: WebhookPayloadSchema = {
+  paymentId: field('string', 'Payment ID'),
+  proposalId: field('string', 'Proposal the payment is for', false),
+  amount: field('number', 'Amount in dollars'),
+  currency: field('string', 'ISO currency code'),
+};
+
+export const WEBHOOK_EVENT_CATALOG: WebhookEventDefinition[] = [
+  {
+    event: 'proposal.created',
+    description: 'When a new proposal is created',
+    version: 1,
+    schema: PROPOSAL_FIELDS,
+  },
+  {
+    event: 'proposal.sent',
+    description: 'When a proposal is sent to client',
+    version: 1,
+    schema: PROPOSAL_FIELDS,
+  },
+  {
+    event: 'proposal.viewed',
+    description: 'When a client views a proposal',
+    version: 1,
+    schema: {
+      ...PROPOSAL_FIELDS,
+      viewedAt: field('string', 'When the client opened the proposal'),
+    },
+  },
+  {
+    event: 'proposal.signed',
+    description: 'When a proposal is signed',
+    version: 1,
+    schema: {
+      ...PROPOSAL_FIELDS,
+      signedAt: field('string', 'When the client signed', false),
+    },
+  },
+  {
+    event: 'proposal.rejected',
+    description: 'When a proposal is rejected',
+    version: 1,
+    schema: PROPOSAL_FIELDS,
+  },
+  {
+    event: 'client.created',
+    description: 'When a new client is added',
+    version: 1,
+    schema: CLIENT_FIELDS,
+  },
+  {
+    event: 'client.updated',
+    description: 'When client info is updated',
+    version: 1,
+    schema: CLIENT_FIELDS,
+  },
+  {
+    event: 'job.scheduled',
+    description: 'When a job is put on the schedule',
+    version: 1,
+    schema: {
+      ...JOB_FIELDS,
+      scheduledDate: field('string', 'Date the job is scheduled for'),
+    },
+  },
+  {
+    event: 'job.completed',
+    description: 'When a job is marked complete',
+    version: 1,
+    schema: {
+      ...JOB_FIELDS,
+      completedAt: field('string', 'When the job was completed'),
+    },
+  },
+  {
+    event: 'payment.received',
+    description: 'When a payment is received',
+    version: 1,
+    schema: PAYMENT_FIELDS,
+  },
+  {
+    event: 'payment.failed',
+    description: 'When a payment fails',
+    version: 1,
+    schema: {
+      ...PAYMENT_FIELDS,
+      failureReason: field('string', 'Why the payment failed', false),
+    },
+  },
+];
+
+/**
+ * Names used by the retired webhooks table, still accepted from API clients
+ * and mapped onto the catalog. Keep in step with the Phase 68 migration.
+ */
+export const LEGACY_WEBHOOK_EVENTS: Record<string, WebhookEvent> = {
+  'proposal.accepted': 'proposal.signed',
+};
+
+// ============================================================================
+// FUNCTIONS
+// ============================================================================
+
+export function getWebhookEventDefinition(event: WebhookEvent): WebhookEventDefinition {
+  const definition = WEBHOOK_EVENT_CATALOG.find((d) => d.event === event);
+  if (!definition) throw new WebhookPayloadError(`Unknown webhook event: ${event}`);
+  return definition;
+}
+
+/**
+ * Map a catalog or legacy event name to its catalog event, or null if it
+ * is neither
+ */
+export function normalizeWebhookEvent(name: string): WebhookEvent | null {
+  if (WEBHOOK_EVENT_CATALOG.some((d) => d.event === name)) return name as WebhookEvent;
+  return LEGACY_WEBHOOK_EVENTS[name] ?? null;
+}
+
+/**
+ * Check data against the event's schema and keep only the fields the
+ * schema declares, so receivers never see undocumented keys. Optional
+ * fields may be null.
+ */
+export function buildWebhookPayload(
+  event: WebhookEvent,
+  data: Record<string, unknown>
+): WebhookPayload {
+  const { version, schema } = getWebhookEventDefinition(event);
+  const payload: Record<string, unknown> = {};
+  const problems: string[] = [];
+
+  for (const [name, spec] of Object.entries(schema)) {
+    const value = data[name];
+    if (value === undefined || value === null) {
+      if (spec.required) problems.push(`${name} is required`);
+      else if (value === null) payload[name] = null;
+      continue;
+    }
+    if (!matchesType(value, spec.type)) {
+      problems.push(`${name} must be a ${spec.type}`);
+      continue;
+    }
+    payload[name] = value;
+  }
+
+  if (problems.length > 0) {
+    throw new WebhookPayloadError(`Invalid ${event} payload: ${problems.join(', ')}`);
+  }
+
+  return { version, data: payload };
+}
+
+// ============================================================================
+// ERROR CLASSES
+// ============================================================================
+
+export class WebhookPayloadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookPayloadError';
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function matchesType(value: unknown, type: WebhookPayloadFieldType): boolean {
+  if (type === 'object') return typeof value === 'object' && !Array.isArray(value);
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+  return typeof value === type;
+}
@@ -1 +1,3 @@
 export * from './inventoryService';
+export * from './reservationService';
+export * from './purchaseOrderService';
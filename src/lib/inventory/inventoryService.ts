@@ -14,10 +14,13 @@ export interface Material {
   unit: string;
   current_stock: number;
   min_stock: number;
+  reorder_point?: number;
+  reorder_quantity?: number;
   cost_per_unit: number;
   coverage_rate?: number;
   coverage_unit?: string;
   supplier?: string;
+  supplier_url?: string;
   notes?: string;
   is_active: boolean;
   created_at: string;
@@ -26,13 +29,14 @@ export interface Material {
 
 export interface StockMovement {
   id: string;
+  org_id: string;
   material_id: string;
   movement_type: 'purchase' | 'usage' | 'adjustment' | 'return';
   quantity: number;
   unit_cost?: number;
   job_id?: string;
   notes?: string;
-  created_by: string;
+  created_by: string | null;
   created_at: string;
 }
 
@@ -105,16 +109,17 @@ export async function updateMaterial(materialId: string, data: Partial<Material>
 // Record stock movement
 export async function recordStockMovement(
   materialId: string,
-  userId: string,
-  movement: Omit<StockMovement, 'id' | 'material_id' | 'created_by' | 'created_at'>
+  userId: string | null,
+  movement: Omit<StockMovement, 'id' | 'org_id' | 'material_id' | 'created_by' | 'created_at'>
 ): Promise<void> {
   // Get current stock
-  const { data: material } = await supabase
+  const { data } = await supabase
     .from('material_products')
-    .select('current_stock')
+    .select('org_id, current_stock')
     .eq('id', materialId)
     .single();
 
+  const material = data as Pick<Material, 'org_id' | 'current_stock'> | null;
   if (!material) throw new Error('Material not found');
 
   // Calculate new stock
@@ -130,17 +135,22 @@ export async function recordStockMovement(
   }
 
   // Update stock
-  await supabase
+  const { error: stockError } = await supabase
     .from('material_products')
     .update({ current_stock: newStock, updated_at: new Date().toISOString() })
     .eq('id', materialId);
 
+  if (stockError) throw stockError;
+
   // Record movement
-  await supabase.from('stock_movements').insert({
+  const { error } = await supabase.from('stock_movements').insert({
+    org_id: material.org_id,
     material_id: materialId,
     created_by: userId,
     ...movement,
   });
+
+  if (error) throw error;
 }
 
 // Calculate materials needed for job
@@ -0,0 +1,219 @@
+/**
+ * Purchase Order Service
+ * Supplier orders drafted from projected stock shortfalls
+ */
+
+import { supabase } from '@/lib/supabase';
+import { recordStockMovement } from './inventoryService';
+import { projectStockLevels, type StockProjection } from './reservationService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'received' | 'cancelled';
+
+export interface PurchaseOrderItem {
+  id: string;
+  purchase_order_id: string;
+  material_id: string;
+  quantity: number;
+  unit_cost: number;
+  total: number;
+  needed_by: string | null;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  org_id: string;
+  po_number: string;
+  supplier: string;
+  status: PurchaseOrderStatus;
+  expected_date: string | null;
+  total: number;
+  notes: string | null;
+  created_by: string | null;
+  sent_at: string | null;
+  received_at: string | null;
+  created_at: string;
+  updated_at: string;
+  items?: (PurchaseOrderItem & { material?: { name: string; unit: string; sku?: string } })[];
+}
+
+export interface ReorderSuggestion {
+  projection: StockProjection;
+  supplier: string;
+  quantity: number;
+  neededBy: string;
+}
+
+export const UNASSIGNED_SUPPLIER = 'Unassigned supplier';
+
+// ============================================================================
+// REORDER PLANNING
+// ============================================================================
+
+/**
+ * Materials whose projected stock dips below the reorder point, with how
+ * much to order: enough to lift the low point back to twice the reorder
+ * point, or the material's reorder quantity if that is larger
+ */
+export function suggestReorders(projections: StockProjection[]): ReorderSuggestion[] {
+  return projections
+    .filter((p) => p.belowReorderOn !== null)
+    .map((projection) => {
+      const target = projection.reorderPoint * 2;
+      const shortfall = Math.ceil(target - projection.lowestBalance);
+      return {
+        projection,
+        supplier: projection.material.supplier?.trim() || UNASSIGNED_SUPPLIER,
+        quantity: Math.max(shortfall, projection.material.reorder_quantity || 0),
+        neededBy: projection.belowReorderOn!,
+      };
+    })
+    .filter((s) => s.quantity > 0);
+}
+
+function generatePoNumber(): string {
+  const date = new Date();
+  const stamp = `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+  return `PO-${stamp}-${Math.random().toString(36).substring(2, 6).toUpperCase()}`;
+}
+
+/**
+ * Draft one purchase order per supplier for every projected shortfall.
+ * Drafts count as incoming stock, so running this again only orders what
+ * is still short.
+ */
+export async function generatePurchaseOrderDrafts(
+  orgId: string,
+  userId: string | null,
+  horizonDays: number = 30
+): Promise<PurchaseOrder[]> {
+  const suggestions = suggestReorders(await projectStockLevels(orgId, horizonDays));
+
+  const bySupplier = new Map<string, ReorderSuggestion[]>();
+  for (const suggestion of suggestions) {
+    bySupplier.set(suggestion.supplier, [...(bySupplier.get(suggestion.supplier) || []), suggestion]);
+  }
+
+  const drafts: PurchaseOrder[] = [];
+
+  for (const [supplier, lines] of bySupplier) {
+    const total = lines.reduce((sum, line) => sum + line.quantity * line.projection.material.cost_per_unit, 0);
+    const expectedDate = lines.map((line) => line.neededBy).sort()[0];
+
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .insert({
+        org_id: orgId,
+        po_number: generatePoNumber(),
+        supplier,
+        status: 'draft',
+        expected_date: expectedDate,
+        total,
+        created_by: userId,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    const order: PurchaseOrder = data;
+
+    const { data: items, error: itemsError } = await supabase
+      .from('purchase_order_items')
+      .insert(
+        lines.map((line) => ({
+          purchase_order_id: order.id,
+          material_id: line.projection.material.id,
+          quantity: line.quantity,
+          unit_cost: line.projection.material.cost_per_unit,
+          total: line.quantity * line.projection.material.cost_per_unit,
+          needed_by: line.neededBy,
+        }))
+      )
+      .select();
+
+    if (itemsError) throw itemsError;
+    drafts.push({ ...order, items: items || [] });
+  }
+
+  return drafts;
+}
+
+// ============================================================================
+// PURCHASE ORDERS
+// ============================================================================
+
+export async function getPurchaseOrders(orgId: string, status?: PurchaseOrderStatus): Promise<PurchaseOrder[]> {
+  let query = supabase
+    .from('purchase_orders')
+    .select(`
+      *,
+      items:purchase_order_items(*, material:material_products(name, unit, sku))
+    `)
+    .eq('org_id', orgId)
+    .order('created_at', { ascending: false });
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+export async function updatePurchaseOrder(
+  id: string,
+  data: Partial<Pick<PurchaseOrder, 'supplier' | 'expected_date' | 'notes' | 'status' | 'sent_at' | 'received_at'>>
+): Promise<PurchaseOrder> {
+  const { data: order, error } = await supabase
+    .from('purchase_orders')
+    .update({ ...data, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return order;
+}
+
+export async function markPurchaseOrderSent(id: string): Promise<PurchaseOrder> {
+  return updatePurchaseOrder(id, { status: 'sent', sent_at: new Date().toISOString() });
+}
+
+export async function cancelPurchaseOrder(id: string): Promise<PurchaseOrder> {
+  return updatePurchaseOrder(id, { status: 'cancelled' });
+}
+
+/** Book every line into stock as a purchase movement */
+export async function receivePurchaseOrder(id: string, userId: string | null): Promise<PurchaseOrder> {
+  const { data: items, error } = await supabase
+    .from('purchase_order_items')
+    .select('*')
+    .eq('purchase_order_id', id);
+
+  if (error) throw error;
+
+  for (const item of (items || []) as PurchaseOrderItem[]) {
+    await recordStockMovement(item.material_id, userId, {
+      movement_type: 'purchase',
+      quantity: item.quantity,
+      unit_cost: item.unit_cost,
+      notes: 'Received on purchase order',
+    });
+  }
+
+  return updatePurchaseOrder(id, { status: 'received', received_at: new Date().toISOString() });
+}
+
+export default {
+  suggestReorders,
+  generatePurchaseOrderDrafts,
+  getPurchaseOrders,
+  updatePurchaseOrder,
+  markPurchaseOrderSent,
+  cancelPurchaseOrder,
+  receivePurchaseOrder,
+};
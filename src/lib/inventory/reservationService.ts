@@ -0,0 +1,317 @@
+/**
+ * Reservation Service
+ * Reserves estimated materials against stock for scheduled jobs, consumes
+ * them on completion, and projects stock across the schedule
+ *
+ * A reservation holds a quantity of one material for one job. Its need date
+ * is read from the job at projection time, so reschedules need no update.
+ */
+
+import { supabase } from '@/lib/supabase';
+import type { Job, Proposal } from '@/lib/database.types';
+import { calculateJobEstimate, getMaterialCatalog, type MaterialEstimate } from '@/lib/materials/materialsService';
+import { getMaterials, type Material } from './inventoryService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MaterialReservation {
+  id: string;
+  org_id: string;
+  job_id: string;
+  material_id: string;
+  quantity: number;
+  status: 'reserved' | 'consumed' | 'released';
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReservationResult {
+  reserved: MaterialReservation[];
+  /** Estimate lines with no matching inventory material */
+  unmatched: MaterialEstimate[];
+}
+
+export interface StockProjectionEvent {
+  date: string;
+  change: number;
+  balance: number;
+  source: 'job' | 'purchase_order';
+  referenceId: string;
+  label: string;
+}
+
+export interface StockProjection {
+  material: Material;
+  reorderPoint: number;
+  reserved: number;
+  incoming: number;
+  events: StockProjectionEvent[];
+  lowestBalance: number;
+  /** First date the balance drops below the reorder point */
+  belowReorderOn: string | null;
+}
+
+// Rows as the queries below select them
+type JobEstimateRow = Pick<Job, 'org_id'> & {
+  proposal: Pick<Proposal, 'net_sqft' | 'total_sqft' | 'measurements'> | null;
+};
+
+type ReservationProjectionRow = Pick<MaterialReservation, 'id' | 'material_id' | 'quantity'> & {
+  job: Pick<Job, 'id' | 'title' | 'scheduled_date'> | null;
+};
+
+type PurchaseOrderItemProjectionRow = {
+  material_id: string;
+  quantity: number;
+  purchase_order: { id: string; po_number: string; status: string; expected_date: string | null; org_id: string };
+};
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function reorderPoint(material: Material): number {
+  return material.reorder_point ?? material.min_stock ?? 0;
+}
+
+/**
+ * Match an estimate line to inventory: by the catalog's linked material
+ * first, then by SKU or name, ignoring punctuation
+ */
+export function findInventoryMaterial(estimate: MaterialEstimate, materials: Material[]): Material | undefined {
+  if (estimate.materialId) {
+    const linked = materials.find((m) => m.id === estimate.materialId);
+    if (linked) return linked;
+  }
+
+  const key = normalizeName(estimate.material);
+  return materials.find(
+    (m) => m.is_active && (normalizeName(m.name) === key || (m.sku && normalizeName(m.sku) === key))
+  );
+}
+
+// ============================================================================
+// RESERVATIONS
+// ============================================================================
+
+/**
+ * Materials a job will use, from its proposal's measurements and the org's
+ * material catalog. Jobs without a proposal have nothing to estimate.
+ */
+export async function estimateJobMaterials(jobId: string): Promise<{ orgId: string; materials: MaterialEstimate[] }> {
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('org_id, proposal:proposals(net_sqft, total_sqft, measurements)')
+    .eq('id', jobId)
+    .single();
+
+  if (error) throw error;
+  const job = data as JobEstimateRow;
+
+  const proposal = job.proposal;
+  if (!proposal) return { orgId: job.org_id, materials: [] };
+
+  const measurements = (proposal.measurements || {}) as Record<string, number>;
+  const sqft = proposal.net_sqft ?? measurements.netSqft ?? proposal.total_sqft ?? 0;
+  const catalog = await getMaterialCatalog(job.org_id);
+  const estimate = calculateJobEstimate(sqft, measurements.crackLinearFeet || 0, measurements.parkingStalls || 0, undefined, catalog);
+
+  return { orgId: job.org_id, materials: estimate.materials.filter((m) => m.quantity > 0) };
+}
+
+/**
+ * Reserve a job's estimated materials, replacing any open reservations it
+ * already has. Safe to call again after the proposal changes.
+ */
+export async function reserveJobMaterials(jobId: string): Promise<ReservationResult> {
+  const { orgId, materials: estimates } = await estimateJobMaterials(jobId);
+  const inventory = await getMaterials(orgId);
+
+  await releaseJobMaterials(jobId);
+
+  const quantities = new Map<string, number>();
+  const unmatched: MaterialEstimate[] = [];
+
+  for (const estimate of estimates) {
+    const material = findInventoryMaterial(estimate, inventory);
+    if (!material) {
+      unmatched.push(estimate);
+      continue;
+    }
+    quantities.set(material.id, (quantities.get(material.id) || 0) + estimate.quantity);
+  }
+
+  if (quantities.size === 0) return { reserved: [], unmatched };
+
+  const { data, error } = await supabase
+    .from('material_reservations')
+    .insert(
+      Array.from(quantities, ([materialId, quantity]) => ({
+        org_id: orgId,
+        job_id: jobId,
+        material_id: materialId,
+        quantity,
+        status: 'reserved',
+      }))
+    )
+    .select();
+
+  if (error) throw error;
+  return { reserved: data || [], unmatched };
+}
+
+// Release open reservations (job cancelled or re-estimated)
+export async function releaseJobMaterials(jobId: string): Promise<void> {
+  const { error } = await supabase
+    .from('material_reservations')
+    .update({ status: 'released', updated_at: new Date().toISOString() })
+    .eq('job_id', jobId)
+    .eq('status', 'reserved');
+
+  if (error) throw error;
+}
+
+/**
+ * Turn a completed job's reservations into usage movements so stock
+ * actually goes down. Runs in the database so the stock decrement is
+ * atomic and a repeated completion consumes nothing twice.
+ */
+export async function consumeJobMaterials(jobId: string, userId: string | null = null): Promise<number> {
+  const { data, error } = await supabase.rpc('consume_job_materials', {
+    p_job_id: jobId,
+    p_user_id: userId,
+  });
+
+  if (error) throw error;
+  return data ?? 0;
+}
+
+export async function getJobReservations(
+  jobId: string,
+  status?: MaterialReservation['status']
+): Promise<MaterialReservation[]> {
+  let query = supabase
+    .from('material_reservations')
+    .select('*')
+    .eq('job_id', jobId);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+// ============================================================================
+// PROJECTION
+// ============================================================================
+
+/**
+ * Walk each material's stock forward through reserved jobs (out) and open
+ * purchase orders (in), day by day. Draft orders count as incoming so
+ * generating drafts twice does not double-order.
+ */
+export async function projectStockLevels(orgId: string, horizonDays: number = 30): Promise<StockProjection[]> {
+  const today = new Date().toISOString().split('T')[0];
+  const end = new Date();
+  end.setDate(end.getDate() + horizonDays);
+  const endDate = end.toISOString().split('T')[0];
+
+  const [materials, reservationsResult, ordersResult] = await Promise.all([
+    getMaterials(orgId),
+    supabase
+      .from('material_reservations')
+      .select('id, material_id, quantity, job:jobs(id, title, scheduled_date)')
+      .eq('org_id', orgId)
+      .eq('status', 'reserved'),
+    supabase
+      .from('purchase_order_items')
+      .select('material_id, quantity, purchase_order:purchase_orders!inner(id, po_number, status, expected_date, org_id)')
+      .eq('purchase_order.org_id', orgId)
+      .in('purchase_order.status', ['draft', 'sent']),
+  ]);
+
+  if (reservationsResult.error) throw reservationsResult.error;
+  if (ordersResult.error) throw ordersResult.error;
+
+  const eventsByMaterial = new Map<string, Omit<StockProjectionEvent, 'balance'>[]>();
+  const addEvent = (materialId: string, event: Omit<StockProjectionEvent, 'balance'>) => {
+    eventsByMaterial.set(materialId, [...(eventsByMaterial.get(materialId) || []), event]);
+  };
+
+  for (const reservation of (reservationsResult.data || []) as ReservationProjectionRow[]) {
+    const job = reservation.job;
+    // Undated jobs still need the material; count them as needed today
+    const date = job?.scheduled_date && job.scheduled_date > today ? job.scheduled_date : today;
+    if (date > endDate) continue;
+    addEvent(reservation.material_id, {
+      date,
+      change: -reservation.quantity,
+      source: 'job',
+      referenceId: job?.id || reservation.id,
+      label: job?.title || 'Job',
+    });
+  }
+
+  for (const item of (ordersResult.data || []) as PurchaseOrderItemProjectionRow[]) {
+    const order = item.purchase_order;
+    // Orders without an expected date are assumed to arrive at the horizon
+    const date = order.expected_date && order.expected_date > today ? order.expected_date : endDate;
+    if (date > endDate) continue;
+    addEvent(item.material_id, {
+      date,
+      change: item.quantity,
+      source: 'purchase_order',
+      referenceId: order.id,
+      label: order.po_number,
+    });
+  }
+
+  return materials
+    .filter((material) => material.is_active)
+    .map((material) => {
+      const point = reorderPoint(material);
+      let balance = material.current_stock;
+      let lowestBalance = balance;
+      let belowReorderOn: string | null = balance < point ? today : null;
+
+      // Same-day receipts land before same-day usage
+      const events = (eventsByMaterial.get(material.id) || [])
+        .sort((a, b) => a.date.localeCompare(b.date) || b.change - a.change)
+        .map((event) => {
+          balance += event.change;
+          lowestBalance = Math.min(lowestBalance, balance);
+          if (!belowReorderOn && balance < point) belowReorderOn = event.date;
+          return { ...event, balance };
+        });
+
+      return {
+        material,
+        reorderPoint: point,
+        reserved: events.filter((e) => e.source === 'job').reduce((sum, e) => sum - e.change, 0),
+        incoming: events.filter((e) => e.source === 'purchase_order').reduce((sum, e) => sum + e.change, 0),
+        events,
+        lowestBalance,
+        belowReorderOn,
+      };
+    });
+}
+
+export default {
+  findInventoryMaterial,
+  reorderPoint,
+  estimateJobMaterials,
+  reserveJobMaterials,
+  releaseJobMaterials,
+  consumeJobMaterials,
+  getJobReservations,
+  projectStockLevels,
+};
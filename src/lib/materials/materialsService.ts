@@ -1,19 +1,58 @@
 /**
  * Materials Service
  * Material estimation and cost calculation
+ *
+ * Quantities come from a per-org material catalog: which products the org
+ * uses, their coverage rates, mix design (dilution, sand and additive
+ * loading) and striping layout. Catalog products can link to inventory
+ * items, in which case name, unit, cost and supplier come from inventory.
  */
 
-// Material coverage rates (per gallon/unit)
-export const MATERIAL_COVERAGE = {
-  sealcoat: { sqft_per_gallon: 80, cost_per_gallon: 25 },
-  crack_filler: { linear_feet_per_gallon: 150, cost_per_gallon: 35 },
-  primer: { sqft_per_gallon: 200, cost_per_gallon: 45 },
-  sand: { sqft_per_lb: 10, cost_per_lb: 0.50 },
-  paint_traffic: { linear_feet_per_gallon: 200, cost_per_gallon: 55 },
-};
+import { supabase } from '@/lib/supabase';
+import { getMaterials, type Material } from '@/lib/inventory/inventoryService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CatalogProduct {
+  /** Linked material_products row; its name, unit, cost and supplier win */
+  materialId?: string | null;
+  name: string;
+  unit: string;
+  unitCost: number;
+  supplier?: string;
+  supplierUrl?: string;
+}
+
+export interface MaterialCatalog {
+  sealcoat: {
+    product: CatalogProduct;
+    /** Coverage of the applied (diluted) mix per coat */
+    sqftPerGallon: number;
+    coats: number;
+    /** Water added, as a percent of concentrate */
+    dilutionPercent: number;
+    sand: CatalogProduct & { lbsPerGallon: number };
+    /** Additive per gallon of concentrate, as a percent; null when not used */
+    additive: (CatalogProduct & { percent: number }) | null;
+  };
+  crackFill: {
+    product: CatalogProduct;
+    linearFeetPerUnit: number;
+  };
+  striping: {
+    avgLineLength: number;
+    linesPerStall: number;
+    linearFeetPerGallon: number;
+    /** Paint colors and their share of the total linear footage */
+    colors: (CatalogProduct & { share: number })[];
+  };
+}
 
 export interface MaterialEstimate {
   material: string;
+  materialId?: string;
   quantity: number;
   unit: string;
   unitCost: number;
@@ -27,70 +66,107 @@ export interface JobMaterialsEstimate {
   grandTotal: number;
 }
 
+// ============================================================================
+// DEFAULT CATALOG
+// ============================================================================
+
+/** Coal-tar defaults, used for any org that has not set up its catalog */
+export const DEFAULT_MATERIAL_CATALOG: MaterialCatalog = {
+  sealcoat: {
+    product: { name: 'Coal Tar Sealcoat', unit: 'gallon', unitCost: 25 },
+    sqftPerGallon: 80,
+    coats: 2,
+    dilutionPercent: 0,
+    sand: { name: 'Silica Sand', unit: 'lb', unitCost: 0.5, lbsPerGallon: 2.5 },
+    additive: null,
+  },
+  crackFill: {
+    product: { name: 'Hot Pour Crack Filler', unit: 'gallon', unitCost: 35 },
+    linearFeetPerUnit: 150,
+  },
+  striping: {
+    avgLineLength: 18,
+    linesPerStall: 2,
+    linearFeetPerGallon: 200,
+    colors: [
+      { name: 'Traffic Paint (Yellow)', unit: 'gallon', unitCost: 55, share: 0.3 },
+      { name: 'Traffic Paint (White)', unit: 'gallon', unitCost: 55, share: 0.7 },
+    ],
+  },
+};
+
+/** @deprecated Read coverage from a MaterialCatalog instead */
+export const MATERIAL_COVERAGE = {
+  sealcoat: { sqft_per_gallon: 80, cost_per_gallon: 25 },
+  crack_filler: { linear_feet_per_gallon: 150, cost_per_gallon: 35 },
+  primer: { sqft_per_gallon: 200, cost_per_gallon: 45 },
+  sand: { sqft_per_lb: 10, cost_per_lb: 0.50 },
+  paint_traffic: { linear_feet_per_gallon: 200, cost_per_gallon: 55 },
+};
+
+// ============================================================================
+// ESTIMATES
+// ============================================================================
+
+function estimateLine(product: CatalogProduct, quantity: number): MaterialEstimate {
+  return {
+    material: product.name,
+    materialId: product.materialId || undefined,
+    quantity,
+    unit: product.unit,
+    unitCost: product.unitCost,
+    totalCost: quantity * product.unitCost,
+  };
+}
+
 // Calculate materials for sealcoating job
 export function calculateSealcoatingMaterials(
   sqft: number,
-  coats: number = 2
+  coats?: number,
+  catalog: MaterialCatalog = DEFAULT_MATERIAL_CATALOG
 ): MaterialEstimate[] {
+  const { sealcoat } = catalog;
   const materials: MaterialEstimate[] = [];
-  
-  // Sealcoat
-  const sealcoatGallons = Math.ceil((sqft / MATERIAL_COVERAGE.sealcoat.sqft_per_gallon) * coats);
-  materials.push({
-    material: 'Coal Tar Sealcoat',
-    quantity: sealcoatGallons,
-    unit: 'gallon',
-    unitCost: MATERIAL_COVERAGE.sealcoat.cost_per_gallon,
-    totalCost: sealcoatGallons * MATERIAL_COVERAGE.sealcoat.cost_per_gallon,
-  });
-
-  // Sand additive (20% of sealcoat by weight)
-  const sandLbs = Math.ceil(sealcoatGallons * 2.5);
-  materials.push({
-    material: 'Silica Sand',
-    quantity: sandLbs,
-    unit: 'lb',
-    unitCost: MATERIAL_COVERAGE.sand.cost_per_lb,
-    totalCost: sandLbs * MATERIAL_COVERAGE.sand.cost_per_lb,
-  });
+
+  // Applied mix, then back out the water to get purchased concentrate
+  const mixGallons = (sqft / sealcoat.sqftPerGallon) * (coats ?? sealcoat.coats);
+  const concentrateGallons = Math.ceil(mixGallons / (1 + sealcoat.dilutionPercent / 100));
+  materials.push(estimateLine(sealcoat.product, concentrateGallons));
+
+  // Sand loading per gallon of concentrate
+  if (sealcoat.sand.lbsPerGallon > 0) {
+    materials.push(estimateLine(sealcoat.sand, Math.ceil(concentrateGallons * sealcoat.sand.lbsPerGallon)));
+  }
+
+  if (sealcoat.additive && sealcoat.additive.percent > 0) {
+    materials.push(estimateLine(sealcoat.additive, Math.ceil((concentrateGallons * sealcoat.additive.percent) / 100)));
+  }
 
   return materials;
 }
 
 // Calculate materials for crack filling
-export function calculateCrackFillingMaterials(linearFeet: number): MaterialEstimate[] {
-  const gallons = Math.ceil(linearFeet / MATERIAL_COVERAGE.crack_filler.linear_feet_per_gallon);
-
-  return [{
-    material: 'Hot Pour Crack Filler',
-    quantity: gallons,
-    unit: 'gallon',
-    unitCost: MATERIAL_COVERAGE.crack_filler.cost_per_gallon,
-    totalCost: gallons * MATERIAL_COVERAGE.crack_filler.cost_per_gallon,
-  }];
+export function calculateCrackFillingMaterials(
+  linearFeet: number,
+  catalog: MaterialCatalog = DEFAULT_MATERIAL_CATALOG
+): MaterialEstimate[] {
+  const { crackFill } = catalog;
+  return [estimateLine(crackFill.product, Math.ceil(linearFeet / crackFill.linearFeetPerUnit))];
 }
 
 // Calculate materials for line striping
 export function calculateStripingMaterials(
   lines: number,
-  avgLineLength: number = 18
+  avgLineLength?: number,
+  catalog: MaterialCatalog = DEFAULT_MATERIAL_CATALOG
 ): MaterialEstimate[] {
-  const totalLinearFeet = lines * avgLineLength * 2; // 2 lines per stall
-  const gallons = Math.ceil(totalLinearFeet / MATERIAL_COVERAGE.paint_traffic.linear_feet_per_gallon);
-
-  return [{
-    material: 'Traffic Paint (Yellow)',
-    quantity: Math.ceil(gallons * 0.3), // 30% yellow
-    unit: 'gallon',
-    unitCost: MATERIAL_COVERAGE.paint_traffic.cost_per_gallon,
-    totalCost: Math.ceil(gallons * 0.3) * MATERIAL_COVERAGE.paint_traffic.cost_per_gallon,
-  }, {
-    material: 'Traffic Paint (White)',
-    quantity: Math.ceil(gallons * 0.7), // 70% white
-    unit: 'gallon',
-    unitCost: MATERIAL_COVERAGE.paint_traffic.cost_per_gallon,
-    totalCost: Math.ceil(gallons * 0.7) * MATERIAL_COVERAGE.paint_traffic.cost_per_gallon,
-  }];
+  const { striping } = catalog;
+  const totalLinearFeet = lines * (avgLineLength ?? striping.avgLineLength) * striping.linesPerStall;
+  const gallons = Math.ceil(totalLinearFeet / striping.linearFeetPerGallon);
+
+  return striping.colors
+    .filter((color) => color.share > 0)
+    .map((color) => estimateLine(color, Math.ceil(gallons * color.share)));
 }
 
 // Calculate complete job estimate
@@ -98,11 +174,12 @@ export function calculateJobEstimate(
   sqft: number,
   crackLinearFeet: number,
   parkingLines: number,
-  laborRate: number = 50
+  laborRate: number = 50,
+  catalog: MaterialCatalog = DEFAULT_MATERIAL_CATALOG
 ): JobMaterialsEstimate {
-  const sealcoatMaterials = calculateSealcoatingMaterials(sqft);
-  const crackMaterials = calculateCrackFillingMaterials(crackLinearFeet);
-  const stripingMaterials = calculateStripingMaterials(parkingLines);
+  const sealcoatMaterials = calculateSealcoatingMaterials(sqft, undefined, catalog);
+  const crackMaterials = calculateCrackFillingMaterials(crackLinearFeet, catalog);
+  const stripingMaterials = calculateStripingMaterials(parkingLines, undefined, catalog);
 
   const allMaterials = [...sealcoatMaterials, ...crackMaterials, ...stripingMaterials];
   const totalCost = allMaterials.reduce((sum, m) => sum + m.totalCost, 0);
@@ -123,10 +200,87 @@ export function calculateJobEstimate(
   };
 }
 
+// ============================================================================
+// CATALOG STORAGE
+// ============================================================================
+
+/** Fill in anything a stored catalog is missing from the defaults */
+export function mergeCatalog(stored: Partial<MaterialCatalog> | null | undefined): MaterialCatalog {
+  const defaults = DEFAULT_MATERIAL_CATALOG;
+  return {
+    sealcoat: { ...defaults.sealcoat, ...stored?.sealcoat },
+    crackFill: { ...defaults.crackFill, ...stored?.crackFill },
+    striping: { ...defaults.striping, ...stored?.striping },
+  };
+}
+
+/** Overlay live name, unit, cost and supplier from linked inventory items */
+export function resolveCatalog(catalog: MaterialCatalog, materials: Material[]): MaterialCatalog {
+  const byId = new Map(materials.map((m) => [m.id, m]));
+  const resolve = <T extends CatalogProduct>(product: T): T => {
+    const material = product.materialId ? byId.get(product.materialId) : undefined;
+    if (!material) return product;
+    return {
+      ...product,
+      name: material.name,
+      unit: material.unit,
+      unitCost: material.cost_per_unit,
+      supplier: material.supplier || product.supplier,
+      supplierUrl: material.supplier_url || product.supplierUrl,
+    };
+  };
+
+  return {
+    sealcoat: {
+      ...catalog.sealcoat,
+      product: resolve(catalog.sealcoat.product),
+      sand: resolve(catalog.sealcoat.sand),
+      additive: catalog.sealcoat.additive ? resolve(catalog.sealcoat.additive) : null,
+    },
+    crackFill: { ...catalog.crackFill, product: resolve(catalog.crackFill.product) },
+    striping: { ...catalog.striping, colors: catalog.striping.colors.map(resolve) },
+  };
+}
+
+/** Stored catalog as saved, without inventory overlay (for editing) */
+export async function getStoredMaterialCatalog(orgId: string): Promise<MaterialCatalog> {
+  const { data, error } = await supabase
+    .from('material_catalogs')
+    .select('catalog')
+    .eq('org_id', orgId)
+    .single();
+
+  if (error && error.code !== 'PGRST116') throw error;
+  return mergeCatalog((data as { catalog: Partial<MaterialCatalog> } | null)?.catalog);
+}
+
+/** Catalog ready for estimating, with linked inventory prices applied */
+export async function getMaterialCatalog(orgId: string): Promise<MaterialCatalog> {
+  const [catalog, materials] = await Promise.all([getStoredMaterialCatalog(orgId), getMaterials(orgId)]);
+  return resolveCatalog(catalog, materials);
+}
+
+export async function saveMaterialCatalog(orgId: string, catalog: MaterialCatalog): Promise<void> {
+  const { error } = await supabase
+    .from('material_catalogs')
+    .upsert(
+      { org_id: orgId, catalog, updated_at: new Date().toISOString() },
+      { onConflict: 'org_id' }
+    );
+
+  if (error) throw error;
+}
+
 export default {
+  DEFAULT_MATERIAL_CATALOG,
   MATERIAL_COVERAGE,
   calculateSealcoatingMaterials,
   calculateCrackFillingMaterials,
   calculateStripingMaterials,
   calculateJobEstimate,
+  mergeCatalog,
+  resolveCatalog,
+  getStoredMaterialCatalog,
+  getMaterialCatalog,
+  saveMaterialCatalog,
 };
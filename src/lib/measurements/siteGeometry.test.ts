@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import {
+  closeRing,
+  computeSiteMeasurements,
+  geodesicRingArea,
+  haversineDistance,
+  lngLatToWorld,
+  measureFeature,
+  planarLineLength,
+  planarRingArea,
+  worldToLngLat,
+  type SiteBasemap,
+  type SiteFeature,
+  type SiteFeatureKind,
+  type SitePosition,
+} from './siteGeometry';
+
+const image = (feetPerPixel: number | null): SiteBasemap => ({
+  type: 'image',
+  url: 'https://example.com/aerial.png',
+  width: 1000,
+  height: 1000,
+  feetPerPixel,
+});
+
+function square(x: number, y: number, size: number): SitePosition[] {
+  return closeRing([[x, y], [x + size, y], [x + size, y + size], [x, y + size]]);
+}
+
+function polygon(kind: SiteFeatureKind, ...rings: SitePosition[][]): SiteFeature {
+  return { type: 'Feature', id: kind, properties: { kind }, geometry: { type: 'Polygon', coordinates: rings } };
+}
+
+function line(kind: SiteFeatureKind, coordinates: SitePosition[]): SiteFeature {
+  return { type: 'Feature', id: kind, properties: { kind }, geometry: { type: 'LineString', coordinates } };
+}
+
+describe('planar measurement', () => {
+  it('measures a ring the same whether or not it is closed or clockwise', () => {
+    const ring = square(0, 0, 10);
+    expect(planarRingArea(ring)).toBe(100);
+    expect(planarRingArea(ring.slice(0, -1))).toBe(100);
+    expect(planarRingArea([...ring].reverse())).toBe(100);
+  });
+
+  it('sums segment lengths', () => {
+    expect(planarLineLength([[0, 0], [3, 4], [3, 10]])).toBe(11);
+  });
+
+  it('scales image drawings and subtracts holes', () => {
+    const feature = polygon('paved', square(0, 0, 100), square(10, 10, 10));
+    expect(measureFeature(feature, image(0.5))).toBe(2475);
+  });
+
+  it('measures uncalibrated image drawings as zero', () => {
+    expect(measureFeature(polygon('paved', square(0, 0, 100)), image(null))).toBe(0);
+  });
+});
+
+describe('geodesic measurement', () => {
+  it('measures a degree of latitude', () => {
+    expect(haversineDistance([0, 0], [0, 1])).toBeCloseTo(111195.08, 1);
+  });
+
+  it('measures a small square at the equator', () => {
+    const side = (6378137 * Math.PI) / 180 * 0.001;
+    expect(geodesicRingArea(square(0, 0, 0.001)) / (side * side)).toBeCloseTo(1, 4);
+  });
+
+  it('has no area for fewer than three points', () => {
+    expect(geodesicRingArea(closeRing([[0, 0], [0, 1]]))).toBe(0);
+  });
+});
+
+describe('computeSiteMeasurements', () => {
+  it('rolls features into whole-foot measurements', () => {
+    const measurements = computeSiteMeasurements({
+      type: 'FeatureCollection',
+      basemap: image(1),
+      features: [
+        polygon('paved', square(0, 0, 100)),
+        polygon('exclusion', square(0, 0, 20)),
+        polygon('alligator', square(0, 0, 5)),
+        line('crack', [[0, 0], [10.4, 0]]),
+        line('crack', [[0, 0], [0, 3.3]]),
+        line('fire_lane', [[0, 0], [0, 49.6]]),
+      ],
+    });
+
+    expect(measurements).toEqual({
+      totalSqft: 10000,
+      deductionSqft: 400,
+      netSqft: 9600,
+      alligatorSqft: 25,
+      crackLinearFeet: 14,
+      fireLaneFeet: 50,
+    });
+  });
+
+  it('never reports a negative net area', () => {
+    const measurements = computeSiteMeasurements({
+      type: 'FeatureCollection',
+      basemap: image(1),
+      features: [polygon('paved', square(0, 0, 10)), polygon('exclusion', square(0, 0, 20))],
+    });
+
+    expect(measurements.netSqft).toBe(0);
+  });
+});
+
+describe('closeRing', () => {
+  it('closes a ring once and leaves an empty one alone', () => {
+    expect(closeRing([[0, 0], [1, 0], [1, 1]])).toEqual([[0, 0], [1, 0], [1, 1], [0, 0]]);
+    expect(closeRing([[0, 0], [1, 0], [1, 1], [0, 0]])).toHaveLength(4);
+    expect(closeRing([])).toEqual([]);
+  });
+});
+
+describe('web mercator', () => {
+  it('round-trips a position through world pixels', () => {
+    const [lng, lat] = worldToLngLat(lngLatToWorld([-87.9065, 43.0389], 18), 18);
+    expect(lng).toBeCloseTo(-87.9065, 9);
+    expect(lat).toBeCloseTo(43.0389, 9);
+  });
+});
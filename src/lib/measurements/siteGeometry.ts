@@ -0,0 +1,264 @@
+/**
+ * Site Geometry
+ * GeoJSON site drawings and the measurements derived from them
+ *
+ * Drawings are stored as a GeoJSON FeatureCollection with one extra
+ * `basemap` member describing what they were drawn on:
+ * - map:   positions are [lng, lat]; area and length are geodesic on
+ *          the WGS84 sphere, the same approach as turf.js
+ * - image: positions are [x, y] pixels on an uploaded aerial; area and
+ *          length are planar, scaled by the image's feet-per-pixel
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SitePosition = [number, number];
+
+export type SiteFeatureKind = 'paved' | 'exclusion' | 'alligator' | 'crack' | 'fire_lane';
+
+export interface SitePolygon {
+  type: 'Polygon';
+  coordinates: SitePosition[][];
+}
+
+export interface SiteLineString {
+  type: 'LineString';
+  coordinates: SitePosition[];
+}
+
+export interface SiteFeature {
+  type: 'Feature';
+  id: string;
+  properties: {
+    kind: SiteFeatureKind;
+    label?: string;
+  };
+  geometry: SitePolygon | SiteLineString;
+}
+
+export type SiteBasemap =
+  | { type: 'map'; center: SitePosition; zoom: number }
+  | { type: 'image'; url: string; width: number; height: number; feetPerPixel: number | null };
+
+export interface SiteGeometry {
+  type: 'FeatureCollection';
+  basemap: SiteBasemap;
+  features: SiteFeature[];
+}
+
+export interface SiteMeasurements {
+  totalSqft: number;
+  deductionSqft: number;
+  netSqft: number;
+  alligatorSqft: number;
+  crackLinearFeet: number;
+  fireLaneFeet: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const FEATURE_KINDS: Record<
+  SiteFeatureKind,
+  { label: string; geometry: 'Polygon' | 'LineString'; color: string; measurement: keyof SiteMeasurements }
+> = {
+  paved: { label: 'Paved Area', geometry: 'Polygon', color: '#2563EB', measurement: 'totalSqft' },
+  exclusion: { label: 'Exclusion / Island', geometry: 'Polygon', color: '#16A34A', measurement: 'deductionSqft' },
+  alligator: { label: 'Alligator Cracking', geometry: 'Polygon', color: '#D97706', measurement: 'alligatorSqft' },
+  crack: { label: 'Crack', geometry: 'LineString', color: '#C41E3A', measurement: 'crackLinearFeet' },
+  fire_lane: { label: 'Fire Lane', geometry: 'LineString', color: '#DC2626', measurement: 'fireLaneFeet' },
+};
+
+const EARTH_RADIUS_M = 6371008.8;
+const WGS84_RADIUS_M = 6378137;
+const FEET_PER_METER = 3.28084;
+const SQFT_PER_SQM = 10.7639;
+export const MAP_TILE_SIZE = 256;
+
+// ============================================================================
+// GEODESIC MEASUREMENT
+// ============================================================================
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/** Drop the closing position GeoJSON rings repeat at the end */
+function openRing(ring: SitePosition[]): SitePosition[] {
+  if (ring.length > 1) {
+    const [firstX, firstY] = ring[0];
+    const [lastX, lastY] = ring[ring.length - 1];
+    if (firstX === lastX && firstY === lastY) return ring.slice(0, -1);
+  }
+  return ring;
+}
+
+/**
+ * Area of a [lng, lat] ring in square meters, by spherical excess
+ * (Chamberlain & Duquette, "Some Algorithms for Polygons on a Sphere")
+ */
+export function geodesicRingArea(ring: SitePosition[]): number {
+  const points = openRing(ring);
+  const n = points.length;
+  if (n < 3) return 0;
+
+  let total = 0;
+  for (let i = 0; i < n; i++) {
+    const [lng1] = points[i];
+    const [, lat2] = points[(i + 1) % n];
+    const [lng3] = points[(i + 2) % n];
+    total += (toRadians(lng3) - toRadians(lng1)) * Math.sin(toRadians(lat2));
+  }
+
+  return Math.abs((total * WGS84_RADIUS_M * WGS84_RADIUS_M) / 2);
+}
+
+/** Great-circle distance between two [lng, lat] positions in meters */
+export function haversineDistance(a: SitePosition, b: SitePosition): number {
+  const dLat = toRadians(b[1] - a[1]);
+  const dLng = toRadians(b[0] - a[0]);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a[1])) * Math.cos(toRadians(b[1])) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function geodesicLineLength(line: SitePosition[]): number {
+  let total = 0;
+  for (let i = 1; i < line.length; i++) {
+    total += haversineDistance(line[i - 1], line[i]);
+  }
+  return total;
+}
+
+// ============================================================================
+// PLANAR MEASUREMENT (IMAGE BASEMAP)
+// ============================================================================
+
+/** Shoelace area of a pixel ring */
+export function planarRingArea(ring: SitePosition[]): number {
+  const points = openRing(ring);
+  let total = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    const [x2, y2] = points[(i + 1) % points.length];
+    total += x1 * y2 - x2 * y1;
+  }
+  return Math.abs(total / 2);
+}
+
+export function planarLineLength(line: SitePosition[]): number {
+  let total = 0;
+  for (let i = 1; i < line.length; i++) {
+    total += Math.hypot(line[i][0] - line[i - 1][0], line[i][1] - line[i - 1][1]);
+  }
+  return total;
+}
+
+// ============================================================================
+// FEATURE MEASUREMENT
+// ============================================================================
+
+/**
+ * Square feet for a polygon or linear feet for a line. Image drawings
+ * without a calibrated scale measure as zero.
+ */
+export function measureFeature(feature: SiteFeature, basemap: SiteBasemap): number {
+  const { geometry } = feature;
+
+  if (basemap.type === 'image') {
+    const scale = basemap.feetPerPixel ?? 0;
+    if (geometry.type === 'Polygon') {
+      const [outer, ...holes] = geometry.coordinates;
+      const pixels = planarRingArea(outer) - holes.reduce((sum, hole) => sum + planarRingArea(hole), 0);
+      return pixels * scale * scale;
+    }
+    return planarLineLength(geometry.coordinates) * scale;
+  }
+
+  if (geometry.type === 'Polygon') {
+    const [outer, ...holes] = geometry.coordinates;
+    const sqm = geodesicRingArea(outer) - holes.reduce((sum, hole) => sum + geodesicRingArea(hole), 0);
+    return sqm * SQFT_PER_SQM;
+  }
+  return geodesicLineLength(geometry.coordinates) * FEET_PER_METER;
+}
+
+/**
+ * Roll a drawing up into the wizard's measurement fields, rounded to
+ * whole feet
+ */
+export function computeSiteMeasurements(site: SiteGeometry): SiteMeasurements {
+  const totals: SiteMeasurements = {
+    totalSqft: 0,
+    deductionSqft: 0,
+    netSqft: 0,
+    alligatorSqft: 0,
+    crackLinearFeet: 0,
+    fireLaneFeet: 0,
+  };
+
+  for (const feature of site.features) {
+    const field = FEATURE_KINDS[feature.properties.kind].measurement;
+    totals[field] += measureFeature(feature, site.basemap);
+  }
+
+  totals.totalSqft = Math.round(totals.totalSqft);
+  totals.deductionSqft = Math.round(totals.deductionSqft);
+  totals.alligatorSqft = Math.round(totals.alligatorSqft);
+  totals.crackLinearFeet = Math.round(totals.crackLinearFeet);
+  totals.fireLaneFeet = Math.round(totals.fireLaneFeet);
+  totals.netSqft = Math.max(0, totals.totalSqft - totals.deductionSqft);
+
+  return totals;
+}
+
+/** Close a drawn ring the way GeoJSON expects */
+export function closeRing(points: SitePosition[]): SitePosition[] {
+  const ring = openRing(points);
+  return ring.length > 0 ? [...ring, ring[0]] : ring;
+}
+
+export function createEmptySite(basemap: SiteBasemap): SiteGeometry {
+  return { type: 'FeatureCollection', basemap, features: [] };
+}
+
+// ============================================================================
+// WEB MERCATOR
+// ============================================================================
+
+/** [lng, lat] to global pixel coordinates at a tile zoom level */
+export function lngLatToWorld([lng, lat]: SitePosition, zoom: number): SitePosition {
+  const scale = MAP_TILE_SIZE * 2 ** zoom;
+  const sinLat = Math.min(Math.max(Math.sin(toRadians(lat)), -0.9999), 0.9999);
+  return [
+    ((lng + 180) / 360) * scale,
+    (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale,
+  ];
+}
+
+export function worldToLngLat([x, y]: SitePosition, zoom: number): SitePosition {
+  const scale = MAP_TILE_SIZE * 2 ** zoom;
+  const lng = (x / scale) * 360 - 180;
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+  const lat = (180 / Math.PI) * Math.atan(Math.sinh(n));
+  return [lng, lat];
+}
+
+export default {
+  FEATURE_KINDS,
+  geodesicRingArea,
+  geodesicLineLength,
+  haversineDistance,
+  planarRingArea,
+  planarLineLength,
+  measureFeature,
+  computeSiteMeasurements,
+  closeRing,
+  createEmptySite,
+  lngLatToWorld,
+  worldToLngLat,
+};
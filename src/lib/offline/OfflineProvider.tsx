@@ -1,9 +1,20 @@
 /**
  * Offline Provider
- * PWA offline support with IndexedDB storage
+ * PWA offline support with IndexedDB storage and a sync outbox
  */
 
-import { createContext, useContext, useState, useEffect, type ReactNode } from 'react';
+import { createContext, useContext, useState, useEffect, useCallback, type ReactNode } from 'react';
+import { initDB, setItem, getItem, removeItem } from './offlineDb';
+import {
+  enqueueOperation,
+  getOutbox,
+  replayOutbox,
+  resolveConflict as resolveOutboxConflict,
+  discardOperation as discardOutboxOperation,
+  type OutboxOperation,
+  type OutboxEntry,
+  type ConflictResolution,
+} from './syncQueue';
 
 // ============================================================================
 // TYPES
@@ -12,109 +23,21 @@ import { createContext, useContext, useState, useEffect, type ReactNode } from '
 interface OfflineState {
   isOnline: boolean;
   isOfflineReady: boolean;
+  isSyncing: boolean;
   pendingSyncCount: number;
+  outbox: OutboxEntry[];
+  conflicts: OutboxEntry[];
   lastSyncAt: Date | null;
   syncNow: () => Promise<void>;
+  /** Queue a mutation; it is sent right away when online */
+  enqueue: (operation: OutboxOperation) => Promise<void>;
+  resolveConflict: (seq: number, resolution: ConflictResolution) => Promise<void>;
+  discardOperation: (seq: number) => Promise<void>;
   saveOffline: <T>(key: string, data: T) => Promise<void>;
   getOffline: <T>(key: string) => Promise<T | null>;
   clearOffline: (key: string) => Promise<void>;
 }
 
-// ============================================================================
-// INDEXEDDB HELPERS
-// ============================================================================
-
-const DB_NAME = 'sommers-offline-db';
-const DB_VERSION = 1;
-const STORE_NAME = 'offline-data';
-
-let db: IDBDatabase | null = null;
-
-async function initDB(): Promise<IDBDatabase> {
-  if (db) return db;
-
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
-
-    request.onerror = () => reject(request.error);
-
-    request.onsuccess = () => {
-      db = request.result;
-      resolve(db);
-    };
-
-    request.onupgradeneeded = (event) => {
-      const database = (event.target as IDBOpenDBRequest).result;
-
-      if (!database.objectStoreNames.contains(STORE_NAME)) {
-        database.createObjectStore(STORE_NAME, { keyPath: 'key' });
-      }
-    };
-  });
-}
-
-async function setItem<T>(key: string, data: T): Promise<void> {
-  const database = await initDB();
-
-  return new Promise((resolve, reject) => {
-    const transaction = database.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-
-    const request = store.put({
-      key,
-      data,
-      timestamp: new Date().toISOString(),
-    });
-
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve();
-  });
-}
-
-async function getItem<T>(key: string): Promise<T | null> {
-  const database = await initDB();
-
-  return new Promise((resolve, reject) => {
-    const transaction = database.transaction(STORE_NAME, 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-
-    const request = store.get(key);
-
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => {
-      resolve(request.result?.data || null);
-    };
-  });
-}
-
-async function removeItem(key: string): Promise<void> {
-  const database = await initDB();
-
-  return new Promise((resolve, reject) => {
-    const transaction = database.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-
-    const request = store.delete(key);
-
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve();
-  });
-}
-
-async function getAllKeys(): Promise<string[]> {
-  const database = await initDB();
-
-  return new Promise((resolve, reject) => {
-    const transaction = database.transaction(STORE_NAME, 'readonly');
-    const store = transaction.objectStore(STORE_NAME);
-
-    const request = store.getAllKeys();
-
-    request.onerror = () => reject(request.error);
-    request.onsuccess = () => resolve(request.result as string[]);
-  });
-}
-
 // ============================================================================
 // CONTEXT
 // ============================================================================
@@ -132,18 +55,49 @@ interface OfflineProviderProps {
 export function OfflineProvider({ children }: OfflineProviderProps) {
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [isOfflineReady, setIsOfflineReady] = useState(false);
-  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [outbox, setOutbox] = useState<OutboxEntry[]>([]);
   const [lastSyncAt, setLastSyncAt] = useState<Date | null>(null);
 
+  // Refresh outbox state
+  const refreshOutbox = useCallback(async () => {
+    try {
+      setOutbox(await getOutbox());
+    } catch (error) {
+      console.error('Error reading outbox:', error);
+    }
+  }, []);
+
+  // Sync now. Reads navigator.onLine rather than state so the online
+  // event handler never sees a stale value.
+  const syncNow = useCallback(async () => {
+    if (!navigator.onLine) {
+      console.log('Cannot sync while offline');
+      return;
+    }
+
+    setIsSyncing(true);
+    try {
+      const { blockedBy } = await replayOutbox();
+      if (!blockedBy) setLastSyncAt(new Date());
+    } catch (error) {
+      console.error('Sync error:', error);
+    } finally {
+      setIsSyncing(false);
+      await refreshOutbox();
+    }
+  }, [refreshOutbox]);
+
   // Initialize
   useEffect(() => {
     initDB()
-      .then(() => {
+      .then(async () => {
         setIsOfflineReady(true);
-        checkPendingSync();
+        await refreshOutbox();
+        syncNow();
       })
       .catch(console.error);
-  }, []);
+  }, [refreshOutbox, syncNow]);
 
   // Online/offline detection
   useEffect(() => {
@@ -164,53 +118,31 @@ export function OfflineProvider({ children }: OfflineProviderProps) {
       window.removeEventListener('online', handleOnline);
       window.removeEventListener('offline', handleOffline);
     };
-  }, []);
+  }, [syncNow]);
 
-  // Check pending sync count
-  const checkPendingSync = async () => {
-    try {
-      const keys = await getAllKeys();
-      const pendingKeys = keys.filter((k) => k.startsWith('pending:'));
-      setPendingSyncCount(pendingKeys.length);
-    } catch (error) {
-      console.error('Error checking pending sync:', error);
-    }
+  // Queue an operation
+  const enqueue = async (operation: OutboxOperation): Promise<void> => {
+    await enqueueOperation(operation);
+    await refreshOutbox();
+    if (navigator.onLine) await syncNow();
   };
 
-  // Sync now
-  const syncNow = async () => {
-    if (!isOnline) {
-      console.log('Cannot sync while offline');
-      return;
-    }
-
-    try {
-      const keys = await getAllKeys();
-      const pendingKeys = keys.filter((k) => k.startsWith('pending:'));
-
-      for (const key of pendingKeys) {
-        const data = await getItem(key);
-        if (data) {
-          // TODO: Send to server
-          console.log('Syncing:', key, data);
-          await removeItem(key);
-        }
-      }
+  // Resolve a conflict, then carry on with the rest of the queue
+  const resolveConflict = async (seq: number, resolution: ConflictResolution): Promise<void> => {
+    await resolveOutboxConflict(seq, resolution);
+    await refreshOutbox();
+    await syncNow();
+  };
 
-      setLastSyncAt(new Date());
-      await checkPendingSync();
-    } catch (error) {
-      console.error('Sync error:', error);
-    }
+  // Discard a queued operation
+  const discardOperation = async (seq: number): Promise<void> => {
+    await discardOutboxOperation(seq);
+    await refreshOutbox();
   };
 
   // Save offline
   const saveOffline = async <T,>(key: string, data: T): Promise<void> => {
     await setItem(key, data);
-
-    if (key.startsWith('pending:')) {
-      await checkPendingSync();
-    }
   };
 
   // Get offline
@@ -221,15 +153,20 @@ export function OfflineProvider({ children }: OfflineProviderProps) {
   // Clear offline
   const clearOffline = async (key: string): Promise<void> => {
     await removeItem(key);
-    await checkPendingSync();
   };
 
   const value: OfflineState = {
     isOnline,
     isOfflineReady,
-    pendingSyncCount,
+    isSyncing,
+    pendingSyncCount: outbox.length,
+    outbox,
+    conflicts: outbox.filter((entry) => entry.status === 'conflict'),
     lastSyncAt,
     syncNow,
+    enqueue,
+    resolveConflict,
+    discardOperation,
     saveOffline,
     getOffline,
     clearOffline,
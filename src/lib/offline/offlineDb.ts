@@ -0,0 +1,111 @@
+/**
+ * Offline Database
+ * IndexedDB storage for cached data and the sync outbox
+ */
+
+// ============================================================================
+// SETUP
+// ============================================================================
+
+const DB_NAME = 'sommers-offline-db';
+const DB_VERSION = 2;
+const STORE_NAME = 'offline-data';
+const OUTBOX_STORE = 'outbox';
+
+let db: IDBDatabase | null = null;
+
+export async function initDB(): Promise<IDBDatabase> {
+  if (db) return db;
+
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(request.error);
+
+    request.onsuccess = () => {
+      db = request.result;
+      resolve(db);
+    };
+
+    request.onupgradeneeded = (event) => {
+      const database = (event.target as IDBOpenDBRequest).result;
+
+      if (!database.objectStoreNames.contains(STORE_NAME)) {
+        database.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      }
+
+      // Auto-incrementing seq keeps operations in the order they were queued
+      if (!database.objectStoreNames.contains(OUTBOX_STORE)) {
+        database.createObjectStore(OUTBOX_STORE, { keyPath: 'seq', autoIncrement: true });
+      }
+    };
+  });
+}
+
+function runRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  return initDB().then(
+    (database) =>
+      new Promise((resolve, reject) => {
+        const transaction = database.transaction(storeName, mode);
+        const request = fn(transaction.objectStore(storeName));
+
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => resolve(request.result as T);
+      })
+  );
+}
+
+// ============================================================================
+// KEY/VALUE STORE
+// ============================================================================
+
+export async function setItem<T>(key: string, data: T): Promise<void> {
+  await runRequest(STORE_NAME, 'readwrite', (store) =>
+    store.put({
+      key,
+      data,
+      timestamp: new Date().toISOString(),
+    })
+  );
+}
+
+export async function getItem<T>(key: string): Promise<T | null> {
+  const result = await runRequest<{ data: T } | undefined>(STORE_NAME, 'readonly', (store) =>
+    store.get(key)
+  );
+  return result?.data ?? null;
+}
+
+export async function removeItem(key: string): Promise<void> {
+  await runRequest(STORE_NAME, 'readwrite', (store) => store.delete(key));
+}
+
+export async function getAllKeys(): Promise<string[]> {
+  return runRequest<string[]>(STORE_NAME, 'readonly', (store) => store.getAllKeys());
+}
+
+// ============================================================================
+// OUTBOX STORE
+// ============================================================================
+
+/** Add a record and return its seq */
+export async function addOutboxRecord<T extends object>(record: T): Promise<number> {
+  return runRequest<number>(OUTBOX_STORE, 'readwrite', (store) => store.add(record));
+}
+
+export async function putOutboxRecord<T extends { seq?: number }>(record: T): Promise<void> {
+  await runRequest(OUTBOX_STORE, 'readwrite', (store) => store.put(record));
+}
+
+/** All records, oldest first */
+export async function getOutboxRecords<T>(): Promise<T[]> {
+  return runRequest<T[]>(OUTBOX_STORE, 'readonly', (store) => store.getAll());
+}
+
+export async function deleteOutboxRecord(seq: number): Promise<void> {
+  await runRequest(OUTBOX_STORE, 'readwrite', (store) => store.delete(seq));
+}
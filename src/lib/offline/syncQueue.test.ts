@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { enqueueOperation, getOutbox, replayOutbox } from './syncQueue';
+import { addLineItem, addProposalImage } from '@/lib/proposal';
+
+// The row an offline-id lookup finds; null until a test says the write landed
+let existingRow: { id: string } | null = null;
+
+vi.mock('@/lib/supabase', () => {
+  const query: object = new Proxy({}, {
+    get: (_target, prop) =>
+      prop === 'then'
+        ? (resolve: (value: unknown) => void) => resolve({ data: existingRow, error: null })
+        : () => query,
+  });
+  return { supabase: { from: () => query } };
+});
+
+vi.mock('@/lib/proposal', () => ({
+  createProposal: vi.fn(),
+  addLineItem: vi.fn(),
+  addProposalImage: vi.fn(),
+}));
+
+vi.mock('@/lib/scheduling', () => ({
+  startJob: vi.fn(),
+  completeJob: vi.fn(),
+}));
+
+// IndexedDB stand-in: the outbox and the key-value store live in memory
+vi.mock('./offlineDb', () => {
+  const outbox = new Map<number, object>();
+  const items = new Map<string, unknown>();
+  let nextSeq = 1;
+  return {
+    addOutboxRecord: async (record: object) => {
+      const seq = nextSeq++;
+      outbox.set(seq, { ...record, seq });
+      return seq;
+    },
+    putOutboxRecord: async (record: { seq: number }) => {
+      outbox.set(record.seq, record);
+    },
+    getOutboxRecords: async () => [...outbox.values()],
+    deleteOutboxRecord: async (seq: number) => {
+      outbox.delete(seq);
+    },
+    getItem: async (key: string) => items.get(key) ?? null,
+    setItem: async (key: string, value: unknown) => {
+      items.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      items.delete(key);
+    },
+  };
+});
+
+const lineItem = {
+  service_id: 'sealcoat',
+  name: 'Sealcoating',
+  quantity: 1000,
+  unit: 'sqft',
+  unit_price: 0.25,
+  total: 250,
+  tier: 'all' as const,
+  position: 0,
+};
+
+describe('replayOutbox', () => {
+  beforeEach(() => {
+    existingRow = null;
+  });
+
+  afterEach(() => {
+    vi.mocked(addLineItem).mockReset();
+    vi.mocked(addProposalImage).mockReset();
+  });
+
+  it('adds a queued line item with its offline id', async () => {
+    await enqueueOperation({ type: 'add_line_item', proposalId: 'proposal-1', offlineId: 'offline-line-1', item: lineItem });
+
+    const result = await replayOutbox();
+
+    expect(result).toEqual({ synced: 1, blockedBy: null });
+    expect(addLineItem).toHaveBeenCalledWith('proposal-1', lineItem, { offlineId: 'offline-line-1' });
+    expect(await getOutbox()).toEqual([]);
+  });
+
+  it('skips a line item an earlier replay already added', async () => {
+    existingRow = { id: 'line-1' };
+    await enqueueOperation({ type: 'add_line_item', proposalId: 'proposal-1', offlineId: 'offline-line-1', item: lineItem });
+
+    const result = await replayOutbox();
+
+    expect(result).toEqual({ synced: 1, blockedBy: null });
+    expect(addLineItem).not.toHaveBeenCalled();
+    expect(await getOutbox()).toEqual([]);
+  });
+
+  it('skips a photo an earlier replay already uploaded', async () => {
+    existingRow = { id: 'image-1' };
+    await enqueueOperation({
+      type: 'upload_photo',
+      proposalId: 'proposal-1',
+      offlineId: 'offline-photo-1',
+      file: new Blob(['jpeg'], { type: 'image/jpeg' }),
+      fileName: 'before-1.jpeg',
+      photoType: 'before',
+    });
+
+    const result = await replayOutbox();
+
+    expect(result).toEqual({ synced: 1, blockedBy: null });
+    expect(addProposalImage).not.toHaveBeenCalled();
+  });
+
+  it('treats a duplicate-key error from a concurrent replay as done', async () => {
+    vi.mocked(addLineItem).mockRejectedValue(Object.assign(new Error('duplicate key'), { code: '23505' }));
+    await enqueueOperation({ type: 'add_line_item', proposalId: 'proposal-1', offlineId: 'offline-line-1', item: lineItem });
+
+    const result = await replayOutbox();
+
+    expect(result).toEqual({ synced: 1, blockedBy: null });
+    expect(await getOutbox()).toEqual([]);
+  });
+});
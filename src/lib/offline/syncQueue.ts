@@ -0,0 +1,402 @@
+/**
+ * Sync Queue
+ * Outbox of typed operations recorded offline and replayed in order
+ */
+
+import { supabase } from '@/lib/supabase';
+import { createProposal, addLineItem, addProposalImage } from '@/lib/proposal';
+import type { ProposalLineItem, ProposalImage } from '@/lib/proposal';
+import { startJob, completeJob } from '@/lib/scheduling';
+import {
+  addOutboxRecord,
+  putOutboxRecord,
+  getOutboxRecords,
+  deleteOutboxRecord,
+  getItem,
+  setItem,
+  removeItem,
+} from './offlineDb';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type OutboxOperation =
+  | {
+      type: 'create_proposal';
+      /** Local id that later operations use until the server id is known */
+      tempId: string;
+      orgId: string;
+      userId: string;
+      data: Record<string, unknown>;
+    }
+  | {
+      type: 'add_line_item';
+      proposalId: string;
+      /** Stored on the line item so a replay never adds it twice */
+      offlineId: string;
+      item: Omit<ProposalLineItem, 'id' | 'proposal_id'>;
+      baseUpdatedAt?: string;
+    }
+  | {
+      type: 'upload_photo';
+      proposalId: string;
+      /** Stored on the image so a replay never uploads it twice */
+      offlineId: string;
+      file: Blob;
+      fileName: string;
+      photoType: ProposalImage['type'];
+      caption?: string;
+    }
+  | {
+      type: 'start_job';
+      jobId: string;
+      baseUpdatedAt?: string;
+    }
+  | {
+      type: 'complete_job';
+      jobId: string;
+      notes?: string;
+      baseUpdatedAt?: string;
+    };
+
+export type OutboxOperationType = OutboxOperation['type'];
+
+export interface SyncConflict {
+  table: 'proposals' | 'jobs';
+  recordId: string;
+  localUpdatedAt: string;
+  serverUpdatedAt: string;
+  serverRecord: Record<string, unknown>;
+}
+
+export interface OutboxEntry {
+  seq: number;
+  operation: OutboxOperation;
+  status: 'pending' | 'conflict' | 'failed';
+  attempts: number;
+  lastError?: string;
+  conflict?: SyncConflict;
+  createdAt: string;
+}
+
+export type ConflictResolution = 'keep_local' | 'keep_server';
+
+export interface ReplayResult {
+  synced: number;
+  /** Replay stops at the first conflict or failure so order is preserved */
+  blockedBy: OutboxEntry | null;
+}
+
+interface TouchedRecord {
+  table: SyncConflict['table'];
+  id: string;
+  updatedAt: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const ID_MAP_KEY = 'sync:id-map';
+const TEMP_ID_PREFIX = 'offline-';
+
+export const OPERATION_LABELS: Record<OutboxOperationType, string> = {
+  create_proposal: 'Create proposal',
+  add_line_item: 'Add line item',
+  upload_photo: 'Upload photo',
+  start_job: 'Start job',
+  complete_job: 'Complete job',
+};
+
+// ============================================================================
+// IDS
+// ============================================================================
+
+export function createTempId(): string {
+  return `${TEMP_ID_PREFIX}${crypto.randomUUID()}`;
+}
+
+export function isTempId(id: string): boolean {
+  return id.startsWith(TEMP_ID_PREFIX);
+}
+
+async function getIdMap(): Promise<Record<string, string>> {
+  return (await getItem<Record<string, string>>(ID_MAP_KEY)) || {};
+}
+
+function getTarget(operation: OutboxOperation): { table: SyncConflict['table']; id: string } | null {
+  switch (operation.type) {
+    case 'add_line_item':
+    case 'upload_photo':
+      return { table: 'proposals', id: operation.proposalId };
+    case 'start_job':
+    case 'complete_job':
+      return { table: 'jobs', id: operation.jobId };
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// QUEUE
+// ============================================================================
+
+export async function enqueueOperation(operation: OutboxOperation): Promise<OutboxEntry> {
+  const entry: Omit<OutboxEntry, 'seq'> = {
+    operation,
+    status: 'pending',
+    attempts: 0,
+    createdAt: new Date().toISOString(),
+  };
+  const seq = await addOutboxRecord(entry);
+  return { ...entry, seq };
+}
+
+export async function getOutbox(): Promise<OutboxEntry[]> {
+  const entries = await getOutboxRecords<OutboxEntry>();
+  return entries.sort((a, b) => a.seq - b.seq);
+}
+
+/**
+ * Drop an operation. Dropping a create also drops everything queued
+ * against the record it would have created.
+ */
+export async function discardOperation(seq: number): Promise<void> {
+  const entries = await getOutbox();
+  const entry = entries.find((e) => e.seq === seq);
+  if (!entry) return;
+
+  await deleteOutboxRecord(seq);
+
+  if (entry.operation.type === 'create_proposal') {
+    const { tempId } = entry.operation;
+    for (const dependent of entries) {
+      if (getTarget(dependent.operation)?.id === tempId) {
+        await deleteOutboxRecord(dependent.seq);
+      }
+    }
+  }
+}
+
+/**
+ * Settle a conflict. keep_local re-queues the operation without its
+ * conflict check; keep_server drops it.
+ */
+export async function resolveConflict(seq: number, resolution: ConflictResolution): Promise<void> {
+  if (resolution === 'keep_server') {
+    await discardOperation(seq);
+    return;
+  }
+
+  const entry = (await getOutbox()).find((e) => e.seq === seq);
+  if (!entry) return;
+
+  const operation = { ...entry.operation };
+  if ('baseUpdatedAt' in operation) delete operation.baseUpdatedAt;
+
+  await putOutboxRecord({ ...entry, operation, status: 'pending', conflict: undefined });
+}
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+async function checkConflict(operation: OutboxOperation): Promise<SyncConflict | null> {
+  if (!('baseUpdatedAt' in operation) || !operation.baseUpdatedAt) return null;
+
+  const target = getTarget(operation);
+  if (!target || isTempId(target.id)) return null;
+
+  const { data, error } = await supabase
+    .from(target.table)
+    .select('*')
+    .eq('id', target.id)
+    .single();
+
+  if (error) throw error;
+  const record = data as Record<string, unknown> & { updated_at: string };
+
+  if (new Date(record.updated_at).getTime() > new Date(operation.baseUpdatedAt).getTime()) {
+    return {
+      table: target.table,
+      recordId: target.id,
+      localUpdatedAt: operation.baseUpdatedAt,
+      serverUpdatedAt: record.updated_at,
+      serverRecord: record,
+    };
+  }
+  return null;
+}
+
+async function executeOperation(
+  operation: OutboxOperation,
+  idMap: Record<string, string>
+): Promise<TouchedRecord | null> {
+  const resolve = (id: string) => idMap[id] || id;
+
+  switch (operation.type) {
+    case 'create_proposal': {
+      // A replay cut short after the create already made the proposal;
+      // the temp id is stored on it as an idempotency key
+      const proposalId =
+        idMap[operation.tempId] ??
+        (await findProposalByOfflineId(operation.orgId, operation.tempId)) ??
+        (await createOfflineProposal(operation));
+      idMap[operation.tempId] = proposalId;
+      await setItem(ID_MAP_KEY, idMap);
+      return null;
+    }
+    case 'add_line_item': {
+      const proposalId = resolve(operation.proposalId);
+      await writeOnce('proposal_line_items', proposalId, operation.offlineId, () =>
+        addLineItem(proposalId, operation.item, { offlineId: operation.offlineId })
+      );
+      return null;
+    }
+    case 'upload_photo': {
+      const proposalId = resolve(operation.proposalId);
+      const file = new File([operation.file], operation.fileName, { type: operation.file.type });
+      await writeOnce('proposal_images', proposalId, operation.offlineId, () =>
+        addProposalImage(proposalId, file, operation.photoType, operation.caption, { offlineId: operation.offlineId })
+      );
+      return null;
+    }
+    case 'start_job': {
+      const job = await startJob(operation.jobId);
+      return { table: 'jobs', id: job.id, updatedAt: job.updated_at };
+    }
+    case 'complete_job': {
+      const job = await completeJob(operation.jobId, operation.notes);
+      return { table: 'jobs', id: job.id, updatedAt: job.updated_at };
+    }
+  }
+}
+
+async function findProposalByOfflineId(orgId: string, tempId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('proposals')
+    .select('id')
+    .eq('org_id', orgId)
+    .eq('offline_id', tempId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as { id: string } | null)?.id ?? null;
+}
+
+async function createOfflineProposal(
+  operation: Extract<OutboxOperation, { type: 'create_proposal' }>
+): Promise<string> {
+  try {
+    const proposal = await createProposal(operation.orgId, operation.userId, {
+      ...operation.data,
+      offline_id: operation.tempId,
+    });
+    return proposal.id;
+  } catch (error) {
+    // Another tab replaying the same outbox got there first
+    const existingId = (error as { code?: string }).code === '23505'
+      ? await findProposalByOfflineId(operation.orgId, operation.tempId)
+      : null;
+    if (!existingId) throw error;
+    return existingId;
+  }
+}
+
+/**
+ * Add a proposal's line item or image unless a replay cut short after the
+ * write already added it; the operation's offline id is stored on the row
+ */
+async function writeOnce(
+  table: 'proposal_line_items' | 'proposal_images',
+  proposalId: string,
+  offlineId: string,
+  write: () => Promise<unknown>
+): Promise<void> {
+  const { data, error } = await supabase
+    .from(table)
+    .select('id')
+    .eq('proposal_id', proposalId)
+    .eq('offline_id', offlineId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (data) return;
+
+  try {
+    await write();
+  } catch (error) {
+    // Another tab replaying the same outbox got there first
+    if ((error as { code?: string }).code !== '23505') throw error;
+  }
+}
+
+let activeReplay: Promise<ReplayResult> | null = null;
+
+/**
+ * Send queued operations to the server, oldest first. Only one replay
+ * runs at a time; concurrent callers share it.
+ */
+export function replayOutbox(): Promise<ReplayResult> {
+  if (!activeReplay) {
+    activeReplay = runReplay().finally(() => {
+      activeReplay = null;
+    });
+  }
+  return activeReplay;
+}
+
+async function runReplay(): Promise<ReplayResult> {
+  const entries = await getOutbox();
+  const idMap = await getIdMap();
+  let synced = 0;
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    if (entry.status === 'conflict') return { synced, blockedBy: entry };
+
+    try {
+      const conflict = await checkConflict(entry.operation);
+      if (conflict) {
+        const blocked: OutboxEntry = { ...entry, status: 'conflict', conflict };
+        await putOutboxRecord(blocked);
+        return { synced, blockedBy: blocked };
+      }
+
+      const touched = await executeOperation(entry.operation, idMap);
+      await deleteOutboxRecord(entry.seq);
+      synced++;
+
+      // Our own write moves updated_at forward; later operations on the
+      // same record were queued against the older value and must not
+      // mistake it for someone else's change.
+      if (touched) {
+        for (const later of entries.slice(i + 1)) {
+          const target = getTarget(later.operation);
+          if (
+            target?.table === touched.table &&
+            target.id === touched.id &&
+            'baseUpdatedAt' in later.operation &&
+            later.operation.baseUpdatedAt
+          ) {
+            later.operation = { ...later.operation, baseUpdatedAt: touched.updatedAt };
+            await putOutboxRecord(later);
+          }
+        }
+      }
+    } catch (error) {
+      const failed: OutboxEntry = {
+        ...entry,
+        status: 'failed',
+        attempts: entry.attempts + 1,
+        lastError: error instanceof Error ? error.message : String(error),
+      };
+      await putOutboxRecord(failed);
+      return { synced, blockedBy: failed };
+    }
+  }
+
+  await removeItem(ID_MAP_KEY);
+  return { synced, blockedBy: null };
+}
@@ -4,6 +4,15 @@
  */
 
 import { supabase } from '@/lib/supabase';
+import type { Database } from '@/lib/database.types';
+import { getProposal } from '@/lib/proposal/proposalService';
+import { moveDealToStage } from '@/lib/pipeline/pipelineService';
+import { createJob, type Job } from '@/lib/scheduling/schedulingService';
+import { integrationsHubService } from '@/lib/integrations/integrationsHubService';
+import { roundMoney } from '@/lib/pricing/pricingEngine';
+
+type Proposal = Database['public']['Tables']['proposals']['Row'];
+type Deal = Database['public']['Tables']['deals']['Row'];
 
 export interface PaymentPlanTemplate {
   id: string;
@@ -38,6 +47,91 @@ export interface PaymentInstallment {
   status: 'pending' | 'paid' | 'overdue' | 'failed';
 }
 
+export type PaymentType = 'deposit' | 'installment';
+
+/**
+ * Metadata set on every PaymentIntent created for a proposal. The Stripe
+ * webhook reads it back to know what a payment was for.
+ */
+export interface PaymentIntentMetadata {
+  org_id: string;
+  proposal_id: string;
+  payment_type: PaymentType;
+  installment_id?: string;
+}
+
+/** One succeeded Stripe payment; the client's receipt */
+export interface Payment {
+  id: string;
+  org_id: string;
+  proposal_id: string;
+  installment_id?: string;
+  payment_type: PaymentType;
+  amount: number;
+  currency: string;
+  status: 'succeeded' | 'refunded';
+  stripe_payment_intent_id: string;
+  receipt_url?: string;
+  paid_at: string;
+  /** When the payment.received webhook was queued */
+  webhook_sent_at?: string | null;
+  created_at: string;
+}
+
+export interface StripePaymentInput {
+  orgId: string;
+  proposalId: string;
+  paymentType: PaymentType;
+  installmentId?: string;
+  /** Dollars, not Stripe's minor units */
+  amount: number;
+  currency: string;
+  stripePaymentIntentId: string;
+  receiptUrl?: string;
+}
+
+/** The next payment a client owes on a proposal, as computed on the server */
+export interface AmountDue {
+  orgId: string;
+  proposalId: string;
+  paymentType: PaymentType;
+  installmentId?: string;
+  installmentNumber?: number;
+  /** Dollars, not Stripe's minor units */
+  amount: number;
+  currency: string;
+  dueDate?: string;
+  description: string;
+}
+
+export interface PaymentSummary {
+  proposalId: string;
+  proposalNumber: string;
+  title: string | null;
+  total: number;
+  paidAmount: number;
+  currency: string;
+  amountDue: AmountDue | null;
+  payments: Payment[];
+}
+
+export interface PaymentIntentResponse {
+  clientSecret: string;
+  paymentIntentId: string;
+  amountDue: AmountDue;
+}
+
+/** How a client proves they may pay a proposal: its emailed key or a portal session */
+export interface ProposalAccess {
+  key?: string | null;
+  sessionToken?: string | null;
+}
+
+export const PAYMENT_CURRENCY = 'usd';
+
+/** Proposals a client can pay against: only signed ones, so a deposit never stands in for a signature */
+const PAYABLE_PROPOSAL_STATUSES: Proposal['status'][] = ['accepted'];
+
 // Get payment plan templates
 export async function getPaymentPlanTemplates(orgId: string): Promise<PaymentPlanTemplate[]> {
   const { data, error } = await supabase
@@ -110,60 +204,319 @@ export async function createInstallments(
   return data;
 }
 
-// Create Stripe payment intent
+// Work out what the client owes next on a proposal: the next unpaid
+// installment if it has a payment plan, otherwise its deposit. Null when
+// nothing is due. This is the only source of amounts charged through the
+// portal; the client never sends one.
+export async function getAmountDue(proposalId: string): Promise<AmountDue | null> {
+  const proposal = await getProposal(proposalId);
+  if (!proposal || !PAYABLE_PROPOSAL_STATUSES.includes(proposal.status)) return null;
+
+  const label = proposal.title || proposal.property_name || `Proposal ${proposal.proposal_number}`;
+
+  const { data: activePlan, error: planError } = await supabase
+    .from('payment_plans')
+    .select('id')
+    .eq('proposal_id', proposalId)
+    .eq('status', 'active')
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (planError) throw planError;
+  const plan = activePlan as Pick<PaymentPlan, 'id'> | null;
+
+  if (plan) {
+    // A failed attempt leaves the installment due; the client tries again
+    const { data, error } = await supabase
+      .from('payment_plan_installments')
+      .select('*')
+      .eq('plan_id', plan.id)
+      .in('status', ['pending', 'overdue', 'failed'])
+      .order('installment_number')
+      .limit(1)
+      .maybeSingle();
+
+    if (error) throw error;
+    const installment = data as PaymentInstallment | null;
+    if (!installment) return null;
+
+    const isDeposit = installment.installment_number === 1;
+    return {
+      orgId: proposal.org_id,
+      proposalId,
+      paymentType: isDeposit ? 'deposit' : 'installment',
+      installmentId: installment.id,
+      installmentNumber: installment.installment_number,
+      amount: roundMoney(installment.amount),
+      currency: PAYMENT_CURRENCY,
+      dueDate: installment.due_date,
+      description: isDeposit
+        ? `Deposit for ${label}`
+        : `Installment ${installment.installment_number} for ${label}`,
+    };
+  }
+
+  const depositAmount = roundMoney(proposal.deposit_amount || 0);
+  if (!proposal.require_deposit || depositAmount <= 0 || proposal.deposit_paid_at) return null;
+
+  return {
+    orgId: proposal.org_id,
+    proposalId,
+    paymentType: 'deposit',
+    amount: depositAmount,
+    currency: PAYMENT_CURRENCY,
+    description: `Deposit for ${label}`,
+  };
+}
+
+// Everything the portal payment page shows: what is due and the receipts so far
+export async function getPaymentSummary(proposalId: string): Promise<PaymentSummary | null> {
+  const proposal = await getProposal(proposalId);
+  if (!proposal) return null;
+
+  const [amountDue, payments] = await Promise.all([
+    getAmountDue(proposalId),
+    getPayments(proposalId),
+  ]);
+
+  return {
+    proposalId,
+    proposalNumber: proposal.proposal_number,
+    title: proposal.title || proposal.property_name || null,
+    total: proposal.total || 0,
+    paidAmount: roundMoney(
+      payments.filter((p) => p.status === 'succeeded').reduce((sum, p) => sum + Number(p.amount), 0)
+    ),
+    currency: PAYMENT_CURRENCY,
+    amountDue,
+    payments,
+  };
+}
+
+// Ask the worker for a PaymentIntent covering whatever is due on the
+// proposal. The worker sets the amount.
 export async function createPaymentIntent(
-  amount: number,
-  currency: string = 'usd',
-  metadata?: Record<string, string>
-): Promise<{ clientSecret: string }> {
-  const response = await fetch('/api/payments/create-intent', {
+  proposalId: string,
+  access: ProposalAccess = {}
+): Promise<PaymentIntentResponse> {
+  const apiUrl = import.meta.env?.VITE_API_URL || '';
+  const response = await fetch(`${apiUrl}/api/payments/create-intent`, {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ amount, currency, metadata }),
+    headers: { 'Content-Type': 'application/json', ...proposalAccessHeaders(access) },
+    body: JSON.stringify({ proposalId }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || 'Failed to create payment intent');
+  return body;
+}
+
+// Fetch the payment summary through the worker (for signed-out clients)
+export async function requestPaymentSummary(
+  proposalId: string,
+  access: ProposalAccess = {}
+): Promise<PaymentSummary> {
+  const apiUrl = import.meta.env?.VITE_API_URL || '';
+  const response = await fetch(`${apiUrl}/api/payments/${proposalId}`, {
+    headers: proposalAccessHeaders(access),
   });
 
-  if (!response.ok) throw new Error('Failed to create payment intent');
-  return response.json();
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || 'Failed to load payments');
+  return body;
 }
 
-// Record payment
+function proposalAccessHeaders(access: ProposalAccess): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (access.key) headers['X-Proposal-Key'] = access.key;
+  if (access.sessionToken) headers['Authorization'] = `Bearer ${access.sessionToken}`;
+  return headers;
+}
+
+// Record payment (an installment already paid is left alone, so a replayed
+// webhook never counts it twice). The installment and its plan's paid
+// amount are updated in one transaction. Returns whether it was newly paid.
 export async function recordPayment(
   installmentId: string,
   stripePaymentIntentId: string
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc('record_installment_payment', {
+    p_installment_id: installmentId,
+    p_payment_intent_id: stripePaymentIntentId,
+  });
+
+  if (error) throw error;
+  return data === true;
+}
+
+// Record a succeeded Stripe payment: the receipt, the installment it paid,
+// for a deposit the proposal's move to won, and the payment.received
+// webhook. Safe to call again for the same PaymentIntent.
+export async function recordStripePayment(
+  input: StripePaymentInput
+): Promise<{ payment: Payment; created: boolean; job: Job | null }> {
+  const { data: existing, error: fetchError } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('stripe_payment_intent_id', input.stripePaymentIntentId)
+    .maybeSingle();
+
+  if (fetchError) throw fetchError;
+
+  let payment = existing as Payment | null;
+  const created = !payment;
+  if (!payment) {
+    const { data, error } = await supabase
+      .from('payments')
+      .insert({
+        org_id: input.orgId,
+        proposal_id: input.proposalId,
+        installment_id: input.installmentId,
+        payment_type: input.paymentType,
+        amount: input.amount,
+        currency: input.currency,
+        status: 'succeeded',
+        stripe_payment_intent_id: input.stripePaymentIntentId,
+        receipt_url: input.receiptUrl,
+        paid_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    payment = data;
+  }
+
+  // Each step below skips work already done, so a retry after a partial
+  // failure finishes the job without repeating it
+  let isDeposit = input.paymentType === 'deposit';
+  if (input.installmentId) {
+    await recordPayment(input.installmentId, input.stripePaymentIntentId);
+    isDeposit = isDeposit || (await isFirstInstallment(input.installmentId));
+  }
+
+  const job = isDeposit
+    ? await completeDeposit(input.proposalId, input.stripePaymentIntentId, input.amount)
+    : null;
+
+  // Sent once per payment, whichever delivery gets this far; a failure
+  // throws so Stripe retries the event and the webhook still goes out
+  if (!payment.webhook_sent_at) {
+    await integrationsHubService.triggerWebhook(input.orgId, 'payment.received', {
+      paymentId: payment.id,
+      proposalId: input.proposalId,
+      amount: input.amount,
+      currency: input.currency,
+    });
+
+    const { error: sentError } = await supabase
+      .from('payments')
+      .update({ webhook_sent_at: new Date().toISOString() })
+      .eq('id', payment.id)
+      .is('webhook_sent_at', null);
+
+    if (sentError) throw sentError;
+  }
+
+  return { payment, created, job };
+}
+
+// Record a failed Stripe payment attempt against its installment. The
+// client can retry, so nothing is written to the receipts.
+export async function recordFailedPayment(
+  input: Omit<StripePaymentInput, 'receiptUrl'> & { failureReason?: string }
 ): Promise<void> {
-  // Update installment
-  const { data: installment } = await supabase
-    .from('payment_plan_installments')
+  if (input.installmentId) {
+    const { error } = await supabase
+      .from('payment_plan_installments')
+      .update({ status: 'failed', stripe_payment_intent_id: input.stripePaymentIntentId })
+      .eq('id', input.installmentId)
+      .in('status', ['pending', 'overdue']);
+
+    if (error) throw error;
+  }
+
+  await integrationsHubService.triggerWebhook(input.orgId, 'payment.failed', {
+    paymentId: input.stripePaymentIntentId,
+    proposalId: input.proposalId,
+    amount: input.amount,
+    currency: input.currency,
+    failureReason: input.failureReason ?? null,
+  }).catch((err) => {
+    console.error('Failed to queue payment.failed webhook:', err);
+  });
+}
+
+// Record a paid deposit on its proposal and, if the proposal is signed,
+// start its job. A deposit that lands before the signature is kept, and
+// the job starts when the proposal is accepted.
+export async function completeDeposit(
+  proposalId: string,
+  stripePaymentIntentId: string,
+  amount: number
+): Promise<Job | null> {
+  const { error: depositError } = await supabase
+    .from('proposals')
     .update({
-      paid_at: new Date().toISOString(),
-      stripe_payment_intent_id: stripePaymentIntentId,
-      status: 'paid',
+      deposit_paid_at: new Date().toISOString(),
+      deposit_paid_amount: amount,
+      deposit_payment_intent_id: stripePaymentIntentId,
     })
-    .eq('id', installmentId)
-    .select('plan_id, amount')
-    .single();
+    .eq('id', proposalId)
+    .is('deposit_paid_at', null);
+
+  if (depositError) throw depositError;
+
+  return startPaidProposalJob(proposalId);
+}
 
-  if (!installment) return;
+// A signed proposal with a paid deposit is won: its deal moves to the won
+// stage and a job is created for it. Runs when the deposit lands and again
+// when the proposal is accepted, so whichever comes second starts the job.
+// Returns the job, or null if the proposal already had one or isn't both
+// signed and paid.
+export async function startPaidProposalJob(proposalId: string): Promise<Job | null> {
+  const proposal = await getProposal(proposalId);
+  if (!proposal) throw new Error(`Proposal ${proposalId} not found`);
 
-  // Update plan paid amount
-  await supabase.rpc('increment_plan_paid_amount', {
-    plan_id: installment.plan_id,
-    amount: installment.amount,
+  // A deposit doesn't stand in for the signature
+  if (proposal.status !== 'accepted' || !proposal.deposit_paid_at) return null;
+
+  await moveDealsToWon(proposal.org_id, proposalId);
+
+  const { data: jobs, error } = await supabase
+    .from('jobs')
+    .select('id')
+    .eq('proposal_id', proposalId)
+    .neq('status', 'cancelled')
+    .limit(1);
+
+  if (error) throw error;
+  if (jobs && jobs.length > 0) return null;
+
+  // Unscheduled until the office picks a date
+  return createJob(proposal.org_id, {
+    proposal_id: proposalId,
+    contact_id: proposal.contact_id || undefined,
+    title: proposal.property_name || proposal.title || `Proposal ${proposal.proposal_number}`,
+    address: proposal.property_address || undefined,
+    city: proposal.property_city || undefined,
+    state: proposal.property_state || undefined,
+    zip: proposal.property_zip || undefined,
   });
+}
 
-  // Check if plan is complete
-  const { data: plan } = await supabase
-    .from('payment_plans')
-    .select('total_amount, paid_amount')
-    .eq('id', installment.plan_id)
-    .single();
+// Get receipts for a proposal, newest first
+export async function getPayments(proposalId: string): Promise<Payment[]> {
+  const { data, error } = await supabase
+    .from('payments')
+    .select('*')
+    .eq('proposal_id', proposalId)
+    .order('paid_at', { ascending: false });
 
-  if (plan && plan.paid_amount >= plan.total_amount) {
-    await supabase
-      .from('payment_plans')
-      .update({ status: 'completed' })
-      .eq('id', installment.plan_id);
-  }
+  if (error) throw error;
+  return data || [];
 }
 
 // Get overdue installments
@@ -179,11 +532,59 @@ export async function getOverdueInstallments(orgId: string): Promise<PaymentInst
   return data || [];
 }
 
+// Helper: the first installment of a plan is its deposit
+async function isFirstInstallment(installmentId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('payment_plan_installments')
+    .select('installment_number')
+    .eq('id', installmentId)
+    .single();
+
+  if (error) throw error;
+  return (data as Pick<PaymentInstallment, 'installment_number'> | null)?.installment_number === 1;
+}
+
+// Helper: move the proposal's open deals to the org's won stage
+async function moveDealsToWon(orgId: string, proposalId: string): Promise<void> {
+  const { data: wonStage, error: stageError } = await supabase
+    .from('deal_stages')
+    .select('id')
+    .eq('org_id', orgId)
+    .eq('is_won', true)
+    .order('position')
+    .limit(1)
+    .maybeSingle();
+
+  if (stageError) throw stageError;
+  const stage = wonStage as { id: string } | null;
+  if (!stage) return;
+
+  const { data: deals, error } = await supabase
+    .from('deals')
+    .select('id, stage_id')
+    .eq('proposal_id', proposalId);
+
+  if (error) throw error;
+  for (const deal of (deals || []) as Pick<Deal, 'id' | 'stage_id'>[]) {
+    if (deal.stage_id !== stage.id) {
+      await moveDealToStage(deal.id, stage.id);
+    }
+  }
+}
+
 export default {
   getPaymentPlanTemplates,
   createPaymentPlan,
   createInstallments,
+  getAmountDue,
+  getPaymentSummary,
   createPaymentIntent,
+  requestPaymentSummary,
   recordPayment,
+  recordStripePayment,
+  recordFailedPayment,
+  completeDeposit,
+  startPaidProposalJob,
+  getPayments,
   getOverdueInstallments,
 };
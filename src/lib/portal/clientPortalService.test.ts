@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clientPortalService, QuoteRequestError, type PortalBranding, type PortalSession, type QuoteRequestInput } from './clientPortalService';
+import { abTestService } from '../experiments/abTestService';
+import { getTemplate, type ProposalTemplate } from '../templates/templatesService';
+
+const proposalRow = {
+  id: 'proposal-1',
+  org_id: 'org-1',
+  proposal_number: 'P-1001',
+  status: 'viewed',
+  tier: 'better',
+  total: 4200,
+  introduction: 'Thanks for the walkthrough.',
+  scope_of_work: 'Crack fill and two coats.',
+  terms_and_conditions: 'Net 30. Deposit is non-refundable.',
+  line_items: [],
+};
+
+// Every query resolves to the proposal row; the view's other lookups are stubbed below
+vi.mock('../supabase', () => {
+  const query: object = new Proxy({}, {
+    get: (_target, prop) =>
+      prop === 'then'
+        ? (resolve: (value: unknown) => void) => resolve({ data: proposalRow, error: null })
+        : () => query,
+  });
+  return { supabase: { from: () => query, rpc: async () => ({ data: null, error: null }) } };
+});
+
+vi.mock('../payments/paymentsService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../payments/paymentsService')>()),
+  getAmountDue: vi.fn().mockResolvedValue(null),
+}));
+
+vi.mock('../templates/templatesService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../templates/templatesService')>()),
+  getTemplate: vi.fn(),
+}));
+
+vi.mock('../video/videoService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../video/videoService')>()),
+  getProposalVideo: vi.fn().mockResolvedValue(null),
+}));
+
+describe('clientPortalService.getProposalView', () => {
+  beforeEach(() => {
+    vi.spyOn(clientPortalService, 'getBranding').mockResolvedValue({ orgId: 'org-1' } as PortalBranding);
+    vi.spyOn(clientPortalService, 'getDocuments').mockResolvedValue([]);
+    vi.mocked(getTemplate).mockResolvedValue({
+      id: 'template-b',
+      org_id: 'org-1',
+      introduction: 'Variant B introduction.',
+      terms_and_conditions: 'Variant B terms: payment due on completion.',
+    } as ProposalTemplate);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.mocked(getTemplate).mockReset();
+  });
+
+  it('applies a template variant to the introduction', async () => {
+    vi.spyOn(abTestService, 'getTreatment').mockResolvedValue({ templateId: 'template-b' });
+
+    const view = await clientPortalService.getProposalView('proposal-1');
+
+    expect(view?.proposal.introduction).toBe('Variant B introduction.');
+  });
+
+  it('always shows the terms stored on the proposal', async () => {
+    vi.spyOn(abTestService, 'getTreatment').mockResolvedValue({ templateId: 'template-b' });
+
+    const view = await clientPortalService.getProposalView('proposal-1');
+
+    expect(view?.proposal.termsAndConditions).toBe('Net 30. Deposit is non-refundable.');
+    expect(view?.proposal.scopeOfWork).toBe('Crack fill and two coats.');
+  });
+});
+
+describe('clientPortalService.createQuoteRequest', () => {
+  const session = { orgId: 'org-1', contactId: 'contact-1' } as PortalSession;
+
+  it('rejects a field that is not text', async () => {
+    const input = { description: 'Reseal the lot', propertyState: 42 } as unknown as QuoteRequestInput;
+
+    await expect(clientPortalService.createQuoteRequest(session, input)).rejects.toThrow(QuoteRequestError);
+  });
+
+  it('rejects a missing description', async () => {
+    await expect(
+      clientPortalService.createQuoteRequest(session, { description: '   ' })
+    ).rejects.toThrow('Tell us what work you need');
+  });
+});
@@ -0,0 +1,1069 @@
+/**
+ * Sommer's Proposal System - Client Portal Service
+ * Magic-link sign-in for contacts and everything their portal shows:
+ * proposals, signed documents, invoices and installments, receipts, job
+ * dates with weather status, before/after photos and quote requests.
+ *
+ * Portal data is read by the worker with the service role and every query
+ * is scoped to the session's org and contact. The browser only talks to
+ * the worker, through the request* methods at the bottom.
+ */
+
+import { supabase } from '../supabase';
+import type { Contact, Organization, Proposal } from '../database.types';
+import {
+  whiteLabelService,
+  type FooterConfig,
+  type PortalConfig,
+} from '../whitelabel/whiteLabelService';
+import { getAmountDue, type AmountDue, type Payment, type ProposalAccess } from '../payments/paymentsService';
+import { recordProposalView } from '../proposal/proposalService';
+import { abTestService, type ProposalTreatment } from '../experiments/abTestService';
+import { getTemplate } from '../templates/templatesService';
+import { getProposalVideo } from '../video/videoService';
+import { createNotification } from '../notifications/notificationsService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PortalBranding {
+  orgId: string;
+  orgSlug: string;
+  companyName: string;
+  logoUrl: string | null;
+  primaryColor: string;
+  accentColor: string | null;
+  phone: string | null;
+  email: string | null;
+  portal: PortalConfig;
+  footer: FooterConfig | null;
+}
+
+export interface PortalSession {
+  id: string;
+  orgId: string;
+  contactId: string;
+  expiresAt: string;
+}
+
+export interface PortalContact {
+  id: string;
+  firstName: string;
+  lastName: string | null;
+  email: string | null;
+}
+
+export type PortalProposalStatus = 'sent' | 'viewed' | 'accepted' | 'rejected' | 'expired';
+
+export interface PortalProposal {
+  id: string;
+  proposalNumber: string;
+  title: string | null;
+  propertyAddress: string | null;
+  status: PortalProposalStatus;
+  total: number;
+  depositAmount: number;
+  depositPaidAt: string | null;
+  sentAt: string | null;
+  signedAt: string | null;
+  validUntil: string | null;
+  amountDue: AmountDue | null;
+}
+
+export interface PortalDocument {
+  certificateId: string;
+  proposalId: string;
+  proposalNumber: string;
+  issuedAt: string;
+  downloadUrl: string;
+}
+
+export interface PortalInstallment {
+  id: string;
+  installmentNumber: number;
+  amount: number;
+  dueDate: string;
+  paidAt: string | null;
+  status: 'pending' | 'paid' | 'overdue' | 'failed';
+}
+
+/** A payment plan, shown to the client as an invoice paid in installments */
+export interface PortalInvoice {
+  id: string;
+  proposalId: string;
+  proposalNumber: string;
+  totalAmount: number;
+  paidAmount: number;
+  status: 'active' | 'completed' | 'cancelled' | 'defaulted';
+  installments: PortalInstallment[];
+}
+
+/**
+ * clear: nothing in the forecast; at_risk: the forecast check flagged the
+ * date and a move may follow; on_hold: waiting for the forecast to clear
+ */
+export type PortalWeatherStatus = 'clear' | 'at_risk' | 'on_hold';
+
+export interface PortalJob {
+  id: string;
+  proposalId: string | null;
+  title: string;
+  address: string | null;
+  scheduledDate: string | null;
+  status: 'scheduled' | 'in_progress' | 'completed' | 'cancelled' | 'weather_hold';
+  completedAt: string | null;
+  weatherStatus: PortalWeatherStatus;
+  weatherNote: string | null;
+  /** A move the office is considering for the weather */
+  proposedDate: string | null;
+}
+
+export interface PortalPhoto {
+  id: string;
+  jobId: string;
+  projectTitle: string;
+  url: string;
+  thumbnailUrl: string | null;
+  caption: string | null;
+  photoType: 'before' | 'after';
+}
+
+export type QuoteRequestStatus = 'new' | 'quoted' | 'declined';
+
+export interface QuoteRequest {
+  id: string;
+  description: string;
+  propertyAddress: string | null;
+  propertyCity: string | null;
+  propertyState: string | null;
+  propertyZip: string | null;
+  preferredDate: string | null;
+  status: QuoteRequestStatus;
+  proposalId: string | null;
+  createdAt: string;
+}
+
+export interface QuoteRequestInput {
+  description: string;
+  propertyAddress?: string;
+  propertyCity?: string;
+  propertyState?: string;
+  propertyZip?: string;
+  preferredDate?: string;
+}
+
+// Every quote request field is text; the body comes straight from the portal
+const QUOTE_REQUEST_FIELDS: (keyof QuoteRequestInput)[] = [
+  'description',
+  'propertyAddress',
+  'propertyCity',
+  'propertyState',
+  'propertyZip',
+  'preferredDate',
+];
+
+export interface PortalOverview {
+  branding: PortalBranding;
+  contact: PortalContact;
+  proposals: PortalProposal[];
+  documents: PortalDocument[];
+  invoices: PortalInvoice[];
+  receipts: Payment[];
+  jobs: PortalJob[];
+  photos: PortalPhoto[];
+  quoteRequests: QuoteRequest[];
+}
+
+export interface PortalLineItem {
+  id: string;
+  name: string;
+  description: string | null;
+  quantity: number;
+  unit: string | null;
+  unitPrice: number;
+  total: number;
+}
+
+/** Sections of the public proposal page; A/B tests can move any of them first */
+export type PortalProposalBlock = 'video' | 'introduction' | 'scope' | 'pricing' | 'terms' | 'documents';
+
+export interface PortalProposalVideo {
+  url: string;
+  thumbnailUrl: string | null;
+}
+
+/** One proposal as its public link shows it */
+export interface PortalProposalView {
+  branding: PortalBranding;
+  proposal: PortalProposal & {
+    introduction: string | null;
+    scopeOfWork: string | null;
+    termsAndConditions: string | null;
+    subtotal: number;
+    discountAmount: number;
+    taxAmount: number;
+    lineItems: PortalLineItem[];
+    video: PortalProposalVideo | null;
+  };
+  documents: PortalDocument[];
+  /** The order the page renders its sections in */
+  blocks: PortalProposalBlock[];
+}
+
+export interface MagicLink {
+  token: string;
+  orgId: string;
+  contact: PortalContact;
+  expiresAt: string;
+}
+
+// Rows as the queries below select them
+type BrandingOrgRow = Pick<
+  Organization,
+  'id' | 'slug' | 'name' | 'logo_url' | 'brand_color' | 'accent_color' | 'phone' | 'email'
+>;
+type PortalContactRow = Pick<Contact, 'id' | 'first_name' | 'last_name' | 'email'>;
+type PortalTokenRow = { id: string; org_id: string; contact_id: string; expires_at: string };
+type ProposalViewRow = Proposal & { line_items: Record<string, unknown>[] | null };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MAGIC_LINK_TTL_MINUTES = 30;
+export const PORTAL_SESSION_TTL_DAYS = 30;
+
+/** A contact gets at most one magic link this often, however often they ask */
+const MAGIC_LINK_COOLDOWN_SECONDS = 60;
+
+/** Contacts that share one email across orgs each get their own link, up to this many */
+const MAX_MAGIC_LINKS_PER_REQUEST = 5;
+
+/** Window over which sign-in link requests are counted */
+const SIGN_IN_WINDOW_MINUTES = 15;
+
+/** Sign-in link requests allowed per window from one IP and for one email */
+const MAX_SIGN_IN_REQUESTS_PER_IP = 10;
+const MAX_SIGN_IN_REQUESTS_PER_EMAIL = 5;
+
+/** The public proposal page's sections in their saved order */
+export const PORTAL_PROPOSAL_BLOCKS: PortalProposalBlock[] = ['video', 'introduction', 'scope', 'pricing', 'terms', 'documents'];
+
+/** Drafts never reach the client */
+const CLIENT_VISIBLE_STATUSES: PortalProposalStatus[] = ['sent', 'viewed', 'accepted', 'rejected', 'expired'];
+
+/** Where the portal lives for orgs without an active custom domain */
+export const DEFAULT_PORTAL_BASE_URL = 'https://app.sommersealcoating.com';
+
+const SESSION_STORAGE_KEY = 'portal_session';
+
+// ============================================================================
+// CLIENT PORTAL SERVICE
+// ============================================================================
+
+export const clientPortalService = {
+  // --------------------------------------------------------------------------
+  // Branding
+  // --------------------------------------------------------------------------
+
+  /**
+   * Org details overlaid with its white-label branding when that is turned on
+   */
+  async getBranding(orgId: string): Promise<PortalBranding | null> {
+    const { data, error } = await supabase
+      .from('organizations')
+      .select('id, slug, name, logo_url, brand_color, accent_color, phone, email')
+      .eq('id', orgId)
+      .maybeSingle();
+
+    if (error) throw error;
+    const org = data as BrandingOrgRow | null;
+    if (!org) return null;
+
+    const config = await whiteLabelService.getConfig(orgId);
+    const defaults = whiteLabelService.getDefaultConfig(orgId, org.name).portal_settings as PortalConfig;
+    const branded = config?.isEnabled ? config : null;
+
+    return {
+      orgId: org.id,
+      orgSlug: org.slug,
+      companyName: branded?.branding.companyName || org.name,
+      logoUrl: branded?.branding.logoUrl || org.logo_url || null,
+      primaryColor: branded?.branding.colors?.primary || org.brand_color || '#C41E3A',
+      accentColor: branded?.branding.colors?.accent || org.accent_color || null,
+      phone: config?.portalSettings.contactInfo?.phone || org.phone || null,
+      email: config?.portalSettings.contactInfo?.email || org.email || null,
+      portal: { ...defaults, ...(config?.portalSettings || {}) },
+      footer: branded?.footerSettings || null,
+    };
+  },
+
+  async getBrandingBySlug(orgSlug: string): Promise<PortalBranding | null> {
+    const { data, error } = await supabase
+      .from('organizations')
+      .select('id')
+      .eq('slug', orgSlug)
+      .maybeSingle();
+
+    if (error) throw error;
+    const org = data as Pick<Organization, 'id'> | null;
+    return org ? this.getBranding(org.id) : null;
+  },
+
+  /**
+   * Base URL for links sent to an org's clients: its custom domain once
+   * verified, otherwise the shared app
+   */
+  async getPortalBaseUrl(orgId: string): Promise<string> {
+    const config = await whiteLabelService.getConfig(orgId);
+    return config?.customDomain?.status === 'active'
+      ? `https://${config.customDomain.domain}`
+      : DEFAULT_PORTAL_BASE_URL;
+  },
+
+  // --------------------------------------------------------------------------
+  // Magic Links & Sessions
+  // --------------------------------------------------------------------------
+
+  /**
+   * Count a sign-in link request against its IP and email. Returns false
+   * once either has asked too often in the window; the request is still
+   * counted, so a caller that keeps asking stays throttled.
+   */
+  async recordSignInRequest(email: string, ipAddress?: string): Promise<boolean> {
+    const emailHash = await hashToken(email.trim().toLowerCase());
+    const windowStart = new Date(Date.now() - SIGN_IN_WINDOW_MINUTES * 60 * 1000).toISOString();
+
+    const { error } = await supabase.from('portal_sign_in_requests').insert({
+      email_hash: emailHash,
+      ip_address: ipAddress,
+    });
+    if (error) throw error;
+
+    const { count: emailCount, error: emailError } = await supabase
+      .from('portal_sign_in_requests')
+      .select('id', { count: 'exact', head: true })
+      .eq('email_hash', emailHash)
+      .gte('created_at', windowStart);
+    if (emailError) throw emailError;
+    if ((emailCount || 0) > MAX_SIGN_IN_REQUESTS_PER_EMAIL) return false;
+
+    if (!ipAddress) return true;
+
+    const { count: ipCount, error: ipError } = await supabase
+      .from('portal_sign_in_requests')
+      .select('id', { count: 'exact', head: true })
+      .eq('ip_address', ipAddress)
+      .gte('created_at', windowStart);
+    if (ipError) throw ipError;
+    return (ipCount || 0) <= MAX_SIGN_IN_REQUESTS_PER_IP;
+  },
+
+  /**
+   * Issue a sign-in link for every contact with this email, in one org when
+   * a slug is given. Contacts that were sent a link moments ago are skipped.
+   * Returns nothing for unknown emails; callers must not reveal the difference.
+   */
+  async createMagicLinks(email: string, orgSlug?: string): Promise<MagicLink[]> {
+    const normalized = email.trim().toLowerCase();
+    if (!normalized.includes('@')) return [];
+
+    let orgId: string | null = null;
+    if (orgSlug) {
+      const { data } = await supabase
+        .from('organizations')
+        .select('id')
+        .eq('slug', orgSlug)
+        .maybeSingle();
+      const org = data as Pick<Organization, 'id'> | null;
+      if (!org) return [];
+      orgId = org.id;
+    }
+
+    let query = supabase
+      .from('contacts')
+      .select('id, org_id, first_name, last_name, email')
+      .eq('email_normalized', normalized)
+      .order('updated_at', { ascending: false })
+      .limit(MAX_MAGIC_LINKS_PER_REQUEST);
+
+    if (orgId) query = query.eq('org_id', orgId);
+
+    const { data: contacts, error } = await query;
+    if (error) throw error;
+
+    // One link per org; the most recently updated contact stands for the email
+    const seenOrgs = new Set<string>();
+    const links: MagicLink[] = [];
+    const cooldownStart = new Date(Date.now() - MAGIC_LINK_COOLDOWN_SECONDS * 1000).toISOString();
+
+    for (const contact of (contacts || []) as (PortalContactRow & Pick<Contact, 'org_id'>)[]) {
+      if (seenOrgs.has(contact.org_id)) continue;
+      seenOrgs.add(contact.org_id);
+
+      const { count } = await supabase
+        .from('portal_tokens')
+        .select('id', { count: 'exact', head: true })
+        .eq('contact_id', contact.id)
+        .eq('kind', 'magic_link')
+        .gte('created_at', cooldownStart);
+
+      if (count && count > 0) continue;
+
+      const token = generateToken();
+      const expiresAt = new Date(Date.now() + MAGIC_LINK_TTL_MINUTES * 60 * 1000).toISOString();
+      const { error: insertError } = await supabase.from('portal_tokens').insert({
+        org_id: contact.org_id,
+        contact_id: contact.id,
+        kind: 'magic_link',
+        token_hash: await hashToken(token),
+        expires_at: expiresAt,
+      });
+
+      if (insertError) throw insertError;
+      links.push({ token, orgId: contact.org_id, contact: transformContact(contact), expiresAt });
+    }
+
+    return links;
+  },
+
+  /**
+   * Trade a magic link for a session. Each link works once, and only until
+   * it expires.
+   */
+  async redeemMagicLink(
+    token: string,
+    metadata?: { ipAddress?: string; userAgent?: string }
+  ): Promise<{ sessionToken: string; session: PortalSession } | null> {
+    const now = new Date().toISOString();
+
+    // Marking it used in the same statement that checks it stops a second redeem
+    const { data, error } = await supabase
+      .from('portal_tokens')
+      .update({ used_at: now, ip_address: metadata?.ipAddress, user_agent: metadata?.userAgent })
+      .eq('token_hash', await hashToken(token))
+      .eq('kind', 'magic_link')
+      .is('used_at', null)
+      .gt('expires_at', now)
+      .select('org_id, contact_id')
+      .maybeSingle();
+
+    if (error) throw error;
+    const link = data as Pick<PortalTokenRow, 'org_id' | 'contact_id'> | null;
+    if (!link) return null;
+
+    const sessionToken = generateToken();
+    const expiresAt = new Date(Date.now() + PORTAL_SESSION_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { data: session, error: sessionError } = await supabase
+      .from('portal_tokens')
+      .insert({
+        org_id: link.org_id,
+        contact_id: link.contact_id,
+        kind: 'session',
+        token_hash: await hashToken(sessionToken),
+        expires_at: expiresAt,
+        last_seen_at: now,
+        ip_address: metadata?.ipAddress,
+        user_agent: metadata?.userAgent,
+      })
+      .select('id, org_id, contact_id, expires_at')
+      .single();
+
+    if (sessionError) throw sessionError;
+    return { sessionToken, session: transformSession(session) };
+  },
+
+  /**
+   * Look up a live session from its bearer token
+   */
+  async getSession(sessionToken: string): Promise<PortalSession | null> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('portal_tokens')
+      .select('id, org_id, contact_id, expires_at')
+      .eq('token_hash', await hashToken(sessionToken))
+      .eq('kind', 'session')
+      .is('revoked_at', null)
+      .gt('expires_at', now)
+      .maybeSingle();
+
+    if (error) throw error;
+    const token = data as PortalTokenRow | null;
+    if (!token) return null;
+
+    await supabase.from('portal_tokens').update({ last_seen_at: now }).eq('id', token.id);
+    return transformSession(token);
+  },
+
+  async revokeSession(sessionToken: string): Promise<void> {
+    const { error } = await supabase
+      .from('portal_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('token_hash', await hashToken(sessionToken))
+      .eq('kind', 'session');
+
+    if (error) throw error;
+  },
+
+  // --------------------------------------------------------------------------
+  // Portal Data
+  // --------------------------------------------------------------------------
+
+  /**
+   * Everything the signed-in contact's portal shows
+   */
+  async getOverview(session: PortalSession): Promise<PortalOverview> {
+    const [branding, contact] = await Promise.all([
+      this.getBranding(session.orgId),
+      this.getContact(session),
+    ]);
+    if (!branding || !contact) throw new Error('Portal contact not found');
+
+    const proposals = await this.getProposals(session);
+    const proposalIds = proposals.map((p) => p.id);
+    const proposalNumbers = new Map(proposals.map((p) => [p.id, p.proposalNumber]));
+
+    const [documents, invoices, receipts, jobs, quoteRequests] = await Promise.all([
+      this.getDocuments(proposalIds, proposalNumbers),
+      this.getInvoices(proposalIds, proposalNumbers),
+      this.getReceipts(session.orgId, proposalIds),
+      this.getJobs(session),
+      this.getQuoteRequests(session),
+    ]);
+
+    const photos = await this.getPhotos(session.orgId, jobs.map((j) => j.id));
+
+    return { branding, contact, proposals, documents, invoices, receipts, jobs, photos, quoteRequests };
+  },
+
+  async getContact(session: PortalSession): Promise<PortalContact | null> {
+    const { data, error } = await supabase
+      .from('contacts')
+      .select('id, first_name, last_name, email')
+      .eq('id', session.contactId)
+      .eq('org_id', session.orgId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? transformContact(data as PortalContactRow) : null;
+  },
+
+  async getProposals(session: PortalSession): Promise<PortalProposal[]> {
+    const { data, error } = await supabase
+      .from('proposals')
+      .select('*')
+      .eq('org_id', session.orgId)
+      .eq('contact_id', session.contactId)
+      .in('status', CLIENT_VISIBLE_STATUSES)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return Promise.all(
+      ((data || []) as Record<string, unknown>[]).map(async (row) =>
+        transformProposal(row, await getAmountDue(row.id as string))
+      )
+    );
+  },
+
+  /**
+   * Signed PDFs that have been issued; each downloads from the public
+   * certificate endpoint
+   */
+  async getDocuments(
+    proposalIds: string[],
+    proposalNumbers: Map<string, string>
+  ): Promise<PortalDocument[]> {
+    if (proposalIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('signature_certificates')
+      .select('id, proposal_id, issued_at')
+      .in('proposal_id', proposalIds)
+      .not('signed_pdf_path', 'is', null)
+      .order('issued_at', { ascending: false });
+
+    if (error) throw error;
+
+    return ((data || []) as Record<string, unknown>[]).map((row) => ({
+      certificateId: row.id as string,
+      proposalId: row.proposal_id as string,
+      proposalNumber: proposalNumbers.get(row.proposal_id as string) || '',
+      issuedAt: row.issued_at as string,
+      downloadUrl: `/api/certificates/${row.id}/download`,
+    }));
+  },
+
+  async getInvoices(
+    proposalIds: string[],
+    proposalNumbers: Map<string, string>
+  ): Promise<PortalInvoice[]> {
+    if (proposalIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('payment_plans')
+      .select('*, installments:payment_plan_installments(*)')
+      .in('proposal_id', proposalIds)
+      .neq('status', 'cancelled')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return ((data || []) as Record<string, unknown>[]).map((row) => ({
+      id: row.id as string,
+      proposalId: row.proposal_id as string,
+      proposalNumber: proposalNumbers.get(row.proposal_id as string) || '',
+      totalAmount: Number(row.total_amount) || 0,
+      paidAmount: Number(row.paid_amount) || 0,
+      status: row.status as PortalInvoice['status'],
+      installments: ((row.installments || []) as Record<string, unknown>[])
+        .map(transformInstallment)
+        .sort((a, b) => a.installmentNumber - b.installmentNumber),
+    }));
+  },
+
+  async getReceipts(orgId: string, proposalIds: string[]): Promise<Payment[]> {
+    if (proposalIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('org_id', orgId)
+      .in('proposal_id', proposalIds)
+      .order('paid_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  /**
+   * The contact's jobs, soonest first, with the weather status the daily
+   * forecast check left on each
+   */
+  async getJobs(session: PortalSession): Promise<PortalJob[]> {
+    const { data, error } = await supabase
+      .from('jobs')
+      .select('*')
+      .eq('org_id', session.orgId)
+      .eq('contact_id', session.contactId)
+      .neq('status', 'cancelled')
+      .order('scheduled_date', { ascending: true, nullsFirst: false });
+
+    if (error) throw error;
+
+    const jobs = (data || []) as Record<string, unknown>[];
+    if (jobs.length === 0) return [];
+
+    const { data: suggestions, error: suggestionError } = await supabase
+      .from('job_reschedule_suggestions')
+      .select('job_id, proposed_date, reason')
+      .in('job_id', jobs.map((j) => j.id as string))
+      .eq('status', 'proposed');
+
+    if (suggestionError) throw suggestionError;
+
+    const pending = new Map(
+      ((suggestions || []) as Record<string, unknown>[]).map((s) => [s.job_id as string, s])
+    );
+
+    return jobs.map((row) => transformJob(row, pending.get(row.id as string)));
+  },
+
+  /**
+   * Before and after shots from gallery projects tied to the contact's jobs.
+   * Shown whether or not the project is in the public gallery.
+   */
+  async getPhotos(orgId: string, jobIds: string[]): Promise<PortalPhoto[]> {
+    if (jobIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('gallery_projects')
+      .select('id, title, job_id, photos:gallery_photos(*)')
+      .eq('org_id', orgId)
+      .in('job_id', jobIds);
+
+    if (error) throw error;
+
+    const photos: PortalPhoto[] = [];
+    for (const project of (data || []) as Record<string, unknown>[]) {
+      const projectPhotos = ((project.photos || []) as Record<string, unknown>[])
+        .filter((p) => p.photo_type === 'before' || p.photo_type === 'after')
+        .sort((a, b) => Number(a.sort_order ?? a.position ?? 0) - Number(b.sort_order ?? b.position ?? 0));
+
+      for (const photo of projectPhotos) {
+        photos.push({
+          id: photo.id as string,
+          jobId: project.job_id as string,
+          projectTitle: project.title as string,
+          url: photo.url as string,
+          thumbnailUrl: (photo.thumbnail_url as string | null) ?? null,
+          caption: (photo.caption as string | null) ?? null,
+          photoType: photo.photo_type as PortalPhoto['photoType'],
+        });
+      }
+    }
+
+    return photos;
+  },
+
+  /**
+   * A proposal as its emailed link shows it, with whatever running A/B
+   * tests change about it applied. Opening it counts as the client's view,
+   * so the worker only calls this once the request has the proposal's key
+   * or its contact's portal session.
+   */
+  async getProposalView(
+    proposalId: string,
+    metadata?: { ipAddress?: string; userAgent?: string }
+  ): Promise<PortalProposalView | null> {
+    const { data, error } = await supabase
+      .from('proposals')
+      .select('*, line_items:proposal_line_items(*)')
+      .eq('id', proposalId)
+      .in('status', CLIENT_VISIBLE_STATUSES)
+      .maybeSingle();
+
+    if (error) throw error;
+    const row = data as ProposalViewRow | null;
+    if (!row) return null;
+
+    const branding = await this.getBranding(row.org_id);
+    if (!branding) return null;
+
+    if (row.status === 'sent') {
+      await recordProposalView(proposalId, metadata?.ipAddress, metadata?.userAgent).catch((err) => {
+        console.error('Failed to record proposal view:', err);
+      });
+    }
+
+    const proposal = transformProposal(row, await getAmountDue(proposalId));
+    const documents = await this.getDocuments([proposalId], new Map([[proposalId, proposal.proposalNumber]]));
+
+    // A failed lookup shows the proposal as saved rather than no proposal at all
+    const treatment = await abTestService.getTreatment(row.org_id, proposalId).catch((err): ProposalTreatment => {
+      console.error('Failed to load A/B test treatment:', err);
+      return {};
+    });
+
+    // A template variant swaps the framing copy; scope, pricing and the terms
+    // the client signs stay the proposal's own
+    const template = treatment.templateId ? await getTemplate(treatment.templateId) : null;
+    const variantTemplate = template?.org_id === row.org_id ? template : null;
+
+    const video = treatment.showVideo === false ? null : await getProposalVideo(proposalId);
+
+    const lineItems = ((row.line_items || []) as Record<string, unknown>[])
+      .filter((item) => !item.tier || item.tier === 'all' || item.tier === row.tier)
+      .sort((a, b) => Number(a.sort_order ?? a.position ?? 0) - Number(b.sort_order ?? b.position ?? 0))
+      .map((item) => ({
+        id: item.id as string,
+        name: item.name as string,
+        description: (item.description as string | null) ?? null,
+        quantity: Number(item.quantity) || 0,
+        unit: (item.unit as string | null) ?? null,
+        unitPrice: Number(item.unit_price) || 0,
+        total: Number(item.total) || 0,
+      }));
+
+    return {
+      branding,
+      proposal: {
+        ...proposal,
+        introduction: treatment.introduction ?? variantTemplate?.introduction ?? row.introduction ?? null,
+        scopeOfWork: row.scope_of_work ?? null,
+        termsAndConditions: row.terms_and_conditions ?? null,
+        subtotal: Number(row.subtotal) || 0,
+        discountAmount: Number(row.discount_amount) || 0,
+        taxAmount: Number(row.tax_amount) || 0,
+        lineItems,
+        video: video ? { url: video.video_url, thumbnailUrl: video.thumbnail_url ?? null } : null,
+      },
+      documents,
+      blocks: orderBlocks(treatment.blockOrder),
+    };
+  },
+
+  // --------------------------------------------------------------------------
+  // Quote Requests
+  // --------------------------------------------------------------------------
+
+  async getQuoteRequests(session: PortalSession): Promise<QuoteRequest[]> {
+    const { data, error } = await supabase
+      .from('quote_requests')
+      .select('*')
+      .eq('org_id', session.orgId)
+      .eq('contact_id', session.contactId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return ((data || []) as Record<string, unknown>[]).map(transformQuoteRequest);
+  },
+
+  /**
+   * Record a request for new work and let the office know
+   */
+  async createQuoteRequest(session: PortalSession, input: QuoteRequestInput): Promise<QuoteRequest> {
+    const invalidField = QUOTE_REQUEST_FIELDS.find((field) => input[field] != null && typeof input[field] !== 'string');
+    if (invalidField) throw new QuoteRequestError(`${invalidField} must be text`);
+
+    const description = input.description?.trim();
+    if (!description) throw new QuoteRequestError('Tell us what work you need');
+    if (input.propertyState && input.propertyState.trim().length !== 2) {
+      throw new QuoteRequestError('State must be a two-letter code');
+    }
+    if (input.preferredDate && Number.isNaN(Date.parse(input.preferredDate))) {
+      throw new QuoteRequestError('Preferred date is not a valid date');
+    }
+
+    const { data, error } = await supabase
+      .from('quote_requests')
+      .insert({
+        org_id: session.orgId,
+        contact_id: session.contactId,
+        description,
+        property_address: input.propertyAddress?.trim() || null,
+        property_city: input.propertyCity?.trim() || null,
+        property_state: input.propertyState?.trim().toUpperCase() || null,
+        property_zip: input.propertyZip?.trim() || null,
+        preferred_date: input.preferredDate || null,
+        status: 'new',
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    const request = transformQuoteRequest(data);
+
+    const contact = await this.getContact(session);
+    const name = contact ? [contact.firstName, contact.lastName].filter(Boolean).join(' ') : 'A client';
+    await createNotification(session.orgId, {
+      type: 'quote_request',
+      title: 'New quote request',
+      message: `${name} asked for a quote${request.propertyAddress ? ` at ${request.propertyAddress}` : ''} from the client portal.`,
+      link: `/clients/${session.contactId}`,
+    }).catch((err) => {
+      console.error('Failed to notify about quote request:', err);
+    });
+
+    return request;
+  },
+
+  // --------------------------------------------------------------------------
+  // Browser Requests
+  // --------------------------------------------------------------------------
+
+  getStoredSession(): string | null {
+    return typeof localStorage !== 'undefined' ? localStorage.getItem(SESSION_STORAGE_KEY) : null;
+  },
+
+  storeSession(sessionToken: string | null): void {
+    if (typeof localStorage === 'undefined') return;
+    if (sessionToken) localStorage.setItem(SESSION_STORAGE_KEY, sessionToken);
+    else localStorage.removeItem(SESSION_STORAGE_KEY);
+  },
+
+  async requestBranding(orgSlug: string): Promise<PortalBranding> {
+    return portalFetch(`/api/portal/branding?org=${encodeURIComponent(orgSlug)}`);
+  },
+
+  async requestMagicLink(email: string, orgSlug?: string): Promise<void> {
+    await portalFetch('/api/portal/magic-link', {
+      method: 'POST',
+      body: JSON.stringify({ email, org: orgSlug }),
+    });
+  },
+
+  async requestSession(token: string): Promise<{ sessionToken: string; expiresAt: string }> {
+    return portalFetch('/api/portal/sessions', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  },
+
+  async requestSignOut(sessionToken: string): Promise<void> {
+    await portalFetch('/api/portal/sessions', { method: 'DELETE' }, sessionToken);
+  },
+
+  async requestOverview(sessionToken: string): Promise<PortalOverview> {
+    return portalFetch('/api/portal/overview', {}, sessionToken);
+  },
+
+  async requestProposalView(proposalId: string, access: ProposalAccess = {}): Promise<PortalProposalView> {
+    const headers: Record<string, string> = access.key ? { 'X-Proposal-Key': access.key } : {};
+    return portalFetch(`/api/portal/proposals/${proposalId}`, { headers }, access.sessionToken || undefined);
+  },
+
+  /**
+   * Save a signed PDF. Its download needs the proposal key or a portal
+   * session, so it is fetched with them rather than opened as a plain link.
+   */
+  async downloadDocument(doc: PortalDocument, access: ProposalAccess): Promise<void> {
+    const apiUrl = import.meta.env?.VITE_API_URL || '';
+    const headers: Record<string, string> = access.key ? { 'X-Proposal-Key': access.key } : {};
+    if (access.sessionToken) headers['Authorization'] = `Bearer ${access.sessionToken}`;
+
+    const response = await fetch(`${apiUrl}${doc.downloadUrl}`, { headers });
+    if (!response.ok) throw new Error('Failed to download the signed document');
+
+    const url = URL.createObjectURL(await response.blob());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `signed-${doc.certificateId}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  },
+
+  async submitQuoteRequest(sessionToken: string, input: QuoteRequestInput): Promise<QuoteRequest> {
+    return portalFetch('/api/portal/quote-requests', {
+      method: 'POST',
+      body: JSON.stringify(input),
+    }, sessionToken);
+  },
+};
+
+// ============================================================================
+// ERROR CLASSES
+// ============================================================================
+
+export class PortalSessionError extends Error {
+  constructor(message = 'Your portal session has expired. Request a new sign-in link.') {
+    super(message);
+    this.name = 'PortalSessionError';
+  }
+}
+
+export class QuoteRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QuoteRequestError';
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function portalFetch<T>(path: string, init: RequestInit = {}, sessionToken?: string): Promise<T> {
+  const apiUrl = import.meta.env?.VITE_API_URL || '';
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    ...(init.headers as Record<string, string> | undefined),
+  };
+  if (sessionToken) headers['Authorization'] = `Bearer ${sessionToken}`;
+
+  const response = await fetch(`${apiUrl}${path}`, { ...init, headers });
+  const body = await response.json().catch(() => ({}));
+
+  if (response.status === 401) throw new PortalSessionError();
+  if (!response.ok) throw new Error(body.error || 'Portal request failed');
+  return body as T;
+}
+
+/** 256 random bits, hex encoded */
+function generateToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/** The page's blocks with the given codes first, in that order; unknown codes are ignored */
+function orderBlocks(first: string[] = []): PortalProposalBlock[] {
+  const leading = PORTAL_PROPOSAL_BLOCKS
+    .filter((block) => first.includes(block))
+    .sort((a, b) => first.indexOf(a) - first.indexOf(b));
+  return [...leading, ...PORTAL_PROPOSAL_BLOCKS.filter((block) => !leading.includes(block))];
+}
+
+function transformSession(row: Record<string, unknown>): PortalSession {
+  return {
+    id: row.id as string,
+    orgId: row.org_id as string,
+    contactId: row.contact_id as string,
+    expiresAt: row.expires_at as string,
+  };
+}
+
+function transformContact(row: Record<string, unknown>): PortalContact {
+  return {
+    id: row.id as string,
+    firstName: row.first_name as string,
+    lastName: (row.last_name as string | null) ?? null,
+    email: (row.email as string | null) ?? null,
+  };
+}
+
+function transformProposal(row: Record<string, unknown>, amountDue: AmountDue | null): PortalProposal {
+  return {
+    id: row.id as string,
+    proposalNumber: row.proposal_number as string,
+    title: ((row.title || row.property_name) as string | null) ?? null,
+    propertyAddress: (row.property_address as string | null) ?? null,
+    status: row.status as PortalProposalStatus,
+    total: Number(row.total) || 0,
+    depositAmount: Number(row.deposit_amount) || 0,
+    depositPaidAt: (row.deposit_paid_at as string | null) ?? null,
+    sentAt: (row.sent_at as string | null) ?? null,
+    signedAt: (row.signed_at as string | null) ?? null,
+    validUntil: (row.valid_until as string | null) ?? null,
+    amountDue,
+  };
+}
+
+function transformInstallment(row: Record<string, unknown>): PortalInstallment {
+  return {
+    id: row.id as string,
+    installmentNumber: row.installment_number as number,
+    amount: Number(row.amount) || 0,
+    dueDate: row.due_date as string,
+    paidAt: (row.paid_at as string | null) ?? null,
+    status: row.status as PortalInstallment['status'],
+  };
+}
+
+function transformJob(row: Record<string, unknown>, suggestion?: Record<string, unknown>): PortalJob {
+  const status = row.status as PortalJob['status'];
+  let weatherStatus: PortalWeatherStatus = 'clear';
+  if (status === 'weather_hold') weatherStatus = 'on_hold';
+  else if (suggestion || row.weather_suitable === false) weatherStatus = 'at_risk';
+
+  return {
+    id: row.id as string,
+    proposalId: (row.proposal_id as string | null) ?? null,
+    title: row.title as string,
+    address: [row.address, row.city].filter(Boolean).join(', ') || null,
+    scheduledDate: (row.scheduled_date as string | null) ?? null,
+    status,
+    completedAt: (row.completed_at as string | null) ?? null,
+    weatherStatus,
+    weatherNote: ((suggestion?.reason || row.weather_notes) as string | null) ?? null,
+    proposedDate: (suggestion?.proposed_date as string | null) ?? null,
+  };
+}
+
+function transformQuoteRequest(row: Record<string, unknown>): QuoteRequest {
+  return {
+    id: row.id as string,
+    description: row.description as string,
+    propertyAddress: (row.property_address as string | null) ?? null,
+    propertyCity: (row.property_city as string | null) ?? null,
+    propertyState: (row.property_state as string | null) ?? null,
+    propertyZip: (row.property_zip as string | null) ?? null,
+    preferredDate: (row.preferred_date as string | null) ?? null,
+    status: row.status as QuoteRequestStatus,
+    proposalId: (row.proposal_id as string | null) ?? null,
+    createdAt: row.created_at as string,
+  };
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+export default clientPortalService;
@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { calculatePricing, roundMoney, toCents, type PricingInput } from './pricingEngine';
+
+function input(overrides: Partial<PricingInput> = {}): PricingInput {
+  return {
+    measurements: {},
+    services: [],
+    tier: 'standard',
+    condition: 'good',
+    taxRate: 0,
+    ...overrides,
+  };
+}
+
+function customItem(unitPrice: number, quantity = 1) {
+  return { name: 'Item', quantity, unit: 'each', unitPrice };
+}
+
+describe('toCents', () => {
+  it('rounds half away from zero without binary noise', () => {
+    expect(toCents(1.005)).toBe(101);
+    expect(toCents(-1.005)).toBe(-101);
+    expect(toCents(0.1 + 0.2)).toBe(30);
+    expect(roundMoney(2.675)).toBe(2.68);
+  });
+
+  it('treats non-finite amounts as zero', () => {
+    expect(toCents(NaN)).toBe(0);
+    expect(toCents(Infinity)).toBe(0);
+  });
+});
+
+describe('calculatePricing', () => {
+  it('rounds each step to the cent in the documented order', () => {
+    const pricing = calculatePricing(input({
+      measurements: { netSqft: 10000 },
+      services: ['sealcoating'],
+      tier: 'premium',
+      condition: 'fair',
+      discounts: [{ id: 'd1', name: 'Spring', type: 'percent', value: 10 }],
+      taxRate: 0.08,
+      depositPercent: 33,
+    }));
+
+    expect(pricing.subtotal).toBe(2200);
+    expect(pricing.adjustedSubtotal).toBe(3415.5);
+    expect(pricing.tierAdjustment + pricing.conditionAdjustment).toBe(1215.5);
+    expect(pricing.discountAmount).toBe(341.55);
+    expect(pricing.taxableAmount).toBe(3073.95);
+    expect(pricing.taxAmount).toBe(245.92);
+    expect(pricing.total).toBe(3319.87);
+    expect(pricing.depositAmount).toBe(1095.56);
+    expect(pricing.balanceDue).toBe(2224.31);
+  });
+
+  it('rounds each line total to the cent', () => {
+    const pricing = calculatePricing(input({ customItems: [customItem(0.335, 3)] }));
+    expect(pricing.lineItems[0].total).toBe(1.01);
+    expect(pricing.subtotal).toBe(1.01);
+  });
+
+  it('derives net square footage and skips services with nothing to price', () => {
+    const pricing = calculatePricing(input({
+      measurements: { totalSqft: 1000, deductionSqft: 200, potholes: 0 },
+      services: ['sealcoating', 'pothole-repair', 'unknown-service'],
+    }));
+
+    expect(pricing.lineItems).toHaveLength(1);
+    expect(pricing.lineItems[0]).toMatchObject({ serviceId: 'sealcoating', quantity: 800, total: 176 });
+  });
+
+  it('caps discounts so the amount never drops below zero', () => {
+    const pricing = calculatePricing(input({
+      customItems: [customItem(100)],
+      discounts: [
+        { id: 'd1', name: 'Capped', type: 'percent', value: 50, maxAmount: 20 },
+        { id: 'd2', name: 'Large', type: 'fixed', value: 150 },
+      ],
+      taxRate: 0.08,
+    }));
+
+    expect(pricing.discounts.map((d) => d.amount)).toEqual([20, 80]);
+    expect(pricing.taxableAmount).toBe(0);
+    expect(pricing.taxAmount).toBe(0);
+    expect(pricing.total).toBe(0);
+  });
+
+  it('rounds half a cent of tax up', () => {
+    const pricing = calculatePricing(input({ customItems: [customItem(0.5)], taxRate: 0.01 }));
+    expect(pricing.taxAmount).toBe(0.01);
+    expect(pricing.total).toBe(0.51);
+  });
+
+  it('splits an odd cent so deposit and balance add up to the total', () => {
+    const pricing = calculatePricing(input({ customItems: [customItem(100.01)], depositPercent: 50 }));
+    expect(pricing.depositAmount).toBe(50.01);
+    expect(pricing.balanceDue).toBe(50);
+  });
+
+  it('takes no deposit by default and all of it at 100 percent', () => {
+    const none = calculatePricing(input({ customItems: [customItem(99.99)] }));
+    expect(none.depositAmount).toBe(0);
+    expect(none.balanceDue).toBe(99.99);
+
+    const full = calculatePricing(input({ customItems: [customItem(99.99)], depositPercent: 100 }));
+    expect(full.depositAmount).toBe(99.99);
+    expect(full.balanceDue).toBe(0);
+  });
+});
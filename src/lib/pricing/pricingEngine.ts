@@ -0,0 +1,361 @@
+/**
+ * Sommer's Proposal System - Pricing Engine
+ * Pure, deterministic pricing shared by the wizard, the worker API and PDFs
+ *
+ * Rounding rules:
+ * 1. All money is computed in integer cents. Inputs in dollars are converted
+ *    with toCents(), which rounds half away from zero.
+ * 2. Each line total is quantity × unit price, rounded to the cent.
+ * 3. The tier multiplier is applied to the line-item subtotal, then the
+ *    condition multiplier to the tiered amount. Each adjustment is rounded
+ *    to the cent on its own.
+ * 4. Discounts apply in the order given. A percent discount takes its share
+ *    of the amount left after earlier discounts (capped by maxAmount); a
+ *    fixed discount is capped so the amount never drops below zero.
+ * 5. Tax is the discounted amount × tax rate, rounded to the cent.
+ * 6. The deposit is total × deposit percent / 100, rounded to the cent;
+ *    the balance due is total − deposit, so the two always add up.
+ *
+ * This module has no side effects and no imports, so it can run in the
+ * browser, in the Cloudflare worker and in PDF renderers alike.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PricingTier = 'economy' | 'standard' | 'premium';
+export type SurfaceCondition = 'good' | 'fair' | 'poor';
+
+export interface PricingMeasurements {
+  totalSqft: number;
+  deductionSqft: number;
+  netSqft: number;
+  crackLinearFeet: number;
+  crackBoxes: number;
+  potholes: number;
+  alligatorSqft: number;
+  parkingStalls: number;
+  adaStalls: number;
+  arrows: number;
+  fireLaneFeet: number;
+  customStencils: number;
+}
+
+export interface ServicePriceEntry {
+  id: string;
+  name: string;
+  unit: string;
+  unitPrice: number;
+  measurementKey: keyof PricingMeasurements;
+}
+
+export interface PricingCustomItem {
+  id?: string;
+  serviceId?: string;
+  name: string;
+  description?: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+}
+
+export interface PricingDiscount {
+  id: string;
+  name: string;
+  type: 'percent' | 'fixed';
+  /** Percent (10 = 10%) or dollars, depending on type */
+  value: number;
+  maxAmount?: number;
+}
+
+export interface PricingInput {
+  measurements: Partial<PricingMeasurements>;
+  services: string[];
+  customItems?: PricingCustomItem[];
+  tier: PricingTier;
+  condition: SurfaceCondition;
+  discounts?: PricingDiscount[];
+  /** Fraction, e.g. 0.08 for 8% */
+  taxRate: number;
+  depositPercent?: number;
+  /** Overrides DEFAULT_SERVICE_CATALOG, e.g. with org-specific prices */
+  catalog?: ServicePriceEntry[];
+  /** Overrides TIER_MULTIPLIERS per tier, e.g. from a pricing experiment */
+  tierMultipliers?: Partial<Record<PricingTier, number>>;
+}
+
+export interface PricedLineItem {
+  id: string;
+  serviceId: string;
+  name: string;
+  description?: string;
+  quantity: number;
+  unit: string;
+  unitPrice: number;
+  total: number;
+  source: 'service' | 'custom';
+}
+
+export interface PricedDiscount extends PricingDiscount {
+  amount: number;
+}
+
+export interface PricingBreakdown {
+  lineItems: PricedLineItem[];
+  subtotal: number;
+  tier: PricingTier;
+  tierMultiplier: number;
+  tierAdjustment: number;
+  condition: SurfaceCondition;
+  conditionMultiplier: number;
+  conditionAdjustment: number;
+  adjustedSubtotal: number;
+  discounts: PricedDiscount[];
+  discountAmount: number;
+  taxableAmount: number;
+  taxRate: number;
+  taxAmount: number;
+  total: number;
+  depositPercent: number;
+  depositAmount: number;
+  balanceDue: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const TIER_MULTIPLIERS = {
+  economy: 0.85,
+  standard: 1.0,
+  premium: 1.35,
+} as const;
+
+export const CONDITION_MULTIPLIERS = {
+  good: 1.0,
+  fair: 1.15,
+  poor: 1.3,
+} as const;
+
+export const URGENCY_MULTIPLIERS = {
+  standard: 1.0,
+  priority: 1.15,
+  emergency: 1.35,
+} as const;
+
+export const DEFAULT_PRICING = {
+  sealcoating: {
+    min: 0.15,
+    max: 0.35,
+    default: 0.22,
+    unit: 'sq ft',
+  },
+  crackFilling: {
+    min: 1.0,
+    max: 3.0,
+    default: 1.75,
+    unit: 'LF',
+  },
+  pothole: {
+    min: 60,
+    max: 150,
+    default: 85,
+    unit: 'each',
+  },
+  striping: {
+    min: 4,
+    max: 7,
+    default: 5,
+    unit: 'line',
+  },
+  adaStall: {
+    min: 25,
+    max: 45,
+    default: 35,
+    unit: 'stall',
+  },
+  arrow: {
+    min: 15,
+    max: 25,
+    default: 18,
+    unit: 'each',
+  },
+  fireLane: {
+    min: 1.5,
+    max: 3.0,
+    default: 2.0,
+    unit: 'LF',
+  },
+  stencil: {
+    min: 20,
+    max: 50,
+    default: 30,
+    unit: 'each',
+  },
+} as const;
+
+export const DEFAULT_SERVICE_CATALOG: ServicePriceEntry[] = [
+  { id: 'sealcoating', name: 'Sealcoating', unit: 'sq ft', unitPrice: DEFAULT_PRICING.sealcoating.default, measurementKey: 'netSqft' },
+  { id: 'crack-filling', name: 'Crack Filling', unit: 'LF', unitPrice: DEFAULT_PRICING.crackFilling.default, measurementKey: 'crackLinearFeet' },
+  { id: 'pothole-repair', name: 'Pothole Repair', unit: 'each', unitPrice: DEFAULT_PRICING.pothole.default, measurementKey: 'potholes' },
+  { id: 'line-striping', name: 'Line Striping', unit: 'lines', unitPrice: DEFAULT_PRICING.striping.default, measurementKey: 'parkingStalls' },
+  { id: 'ada-stalls', name: 'ADA/Handicap Stalls', unit: 'stalls', unitPrice: DEFAULT_PRICING.adaStall.default, measurementKey: 'adaStalls' },
+  { id: 'arrows', name: 'Directional Arrows', unit: 'each', unitPrice: DEFAULT_PRICING.arrow.default, measurementKey: 'arrows' },
+  { id: 'fire-lane', name: 'Fire Lane', unit: 'LF', unitPrice: DEFAULT_PRICING.fireLane.default, measurementKey: 'fireLaneFeet' },
+  { id: 'stencils', name: 'Custom Stencils', unit: 'each', unitPrice: DEFAULT_PRICING.stencil.default, measurementKey: 'customStencils' },
+];
+
+// ============================================================================
+// ROUNDING
+// ============================================================================
+
+/**
+ * Convert dollars to integer cents, rounding half away from zero
+ */
+export function toCents(amount: number): number {
+  if (!Number.isFinite(amount)) return 0;
+  // toPrecision strips binary noise, so 1.005 becomes 100.5 cents, not 100.4999…
+  const cents = Math.round(Number((Math.abs(amount) * 100).toPrecision(15)));
+  return amount < 0 ? -cents : cents;
+}
+
+export function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * Round a dollar amount to the cent using the engine's rounding rule
+ */
+export function roundMoney(amount: number): number {
+  return fromCents(toCents(amount));
+}
+
+// ============================================================================
+// CALCULATION
+// ============================================================================
+
+/**
+ * Quantity for a catalog service, derived from the measurements.
+ * netSqft falls back to totalSqft − deductionSqft when not supplied.
+ */
+export function getServiceQuantity(
+  entry: ServicePriceEntry,
+  measurements: Partial<PricingMeasurements>
+): number {
+  if (entry.measurementKey === 'netSqft' && measurements.netSqft === undefined) {
+    return Math.max(0, (measurements.totalSqft ?? 0) - (measurements.deductionSqft ?? 0));
+  }
+  return Math.max(0, measurements[entry.measurementKey] ?? 0);
+}
+
+/**
+ * Price a proposal. Same input, same output, on every screen.
+ */
+export function calculatePricing(input: PricingInput): PricingBreakdown {
+  const catalog = input.catalog ?? DEFAULT_SERVICE_CATALOG;
+  const lineItems: PricedLineItem[] = [];
+  const lineCents: number[] = [];
+
+  // 1-2. Line items
+  for (const serviceId of input.services) {
+    const entry = catalog.find((s) => s.id === serviceId);
+    if (!entry) continue;
+
+    const quantity = getServiceQuantity(entry, input.measurements);
+    if (quantity <= 0) continue;
+
+    const cents = toCents(quantity * entry.unitPrice);
+    lineCents.push(cents);
+    lineItems.push({
+      id: `service-${entry.id}`,
+      serviceId: entry.id,
+      name: entry.name,
+      quantity,
+      unit: entry.unit,
+      unitPrice: entry.unitPrice,
+      total: fromCents(cents),
+      source: 'service',
+    });
+  }
+
+  (input.customItems ?? []).forEach((item, index) => {
+    const cents = toCents(item.quantity * item.unitPrice);
+    lineCents.push(cents);
+    lineItems.push({
+      id: item.id ?? `custom-${index}`,
+      serviceId: item.serviceId ?? 'custom',
+      name: item.name,
+      description: item.description,
+      quantity: item.quantity,
+      unit: item.unit,
+      unitPrice: item.unitPrice,
+      total: fromCents(cents),
+      source: 'custom',
+    });
+  });
+
+  const subtotalCents = lineCents.reduce((sum, cents) => sum + cents, 0);
+
+  // 3. Tier, then condition
+  const tierMultiplier = input.tierMultipliers?.[input.tier] ?? TIER_MULTIPLIERS[input.tier];
+  const tieredCents = toCents(fromCents(subtotalCents) * tierMultiplier);
+  const conditionMultiplier = CONDITION_MULTIPLIERS[input.condition];
+  const adjustedCents = toCents(fromCents(tieredCents) * conditionMultiplier);
+
+  // 4. Discounts, in order
+  let remainingCents = adjustedCents;
+  const discounts: PricedDiscount[] = (input.discounts ?? []).map((discount) => {
+    let cents =
+      discount.type === 'percent'
+        ? toCents(fromCents(remainingCents) * (discount.value / 100))
+        : toCents(discount.value);
+    if (discount.maxAmount !== undefined) {
+      cents = Math.min(cents, toCents(discount.maxAmount));
+    }
+    cents = Math.max(0, Math.min(cents, remainingCents));
+    remainingCents -= cents;
+    return { ...discount, amount: fromCents(cents) };
+  });
+  const discountCents = adjustedCents - remainingCents;
+
+  // 5. Tax
+  const taxCents = toCents(fromCents(remainingCents) * input.taxRate);
+  const totalCents = remainingCents + taxCents;
+
+  // 6. Deposit
+  const depositPercent = input.depositPercent ?? 0;
+  const depositCents = toCents(fromCents(totalCents) * (depositPercent / 100));
+
+  return {
+    lineItems,
+    subtotal: fromCents(subtotalCents),
+    tier: input.tier,
+    tierMultiplier,
+    tierAdjustment: fromCents(tieredCents - subtotalCents),
+    condition: input.condition,
+    conditionMultiplier,
+    conditionAdjustment: fromCents(adjustedCents - tieredCents),
+    adjustedSubtotal: fromCents(adjustedCents),
+    discounts,
+    discountAmount: fromCents(discountCents),
+    taxableAmount: fromCents(remainingCents),
+    taxRate: input.taxRate,
+    taxAmount: fromCents(taxCents),
+    total: fromCents(totalCents),
+    depositPercent,
+    depositAmount: fromCents(depositCents),
+    balanceDue: fromCents(totalCents - depositCents),
+  };
+}
+
+/**
+ * Totals for every tier with the same inputs, for side-by-side comparison
+ */
+export function calculateTierTotals(input: PricingInput): Record<PricingTier, number> {
+  return {
+    economy: calculatePricing({ ...input, tier: 'economy' }).total,
+    standard: calculatePricing({ ...input, tier: 'standard' }).total,
+    premium: calculatePricing({ ...input, tier: 'premium' }).total,
+  };
+}
@@ -5,6 +5,11 @@
 
 import { supabase, uploadFile, deleteFile } from '@/lib/supabase';
 import type { Database } from '@/lib/database.types';
+import { usageService, QuotaExceededError } from '@/lib/usage/usageService';
+import { getApiAuthHeaders } from '@/lib/auth/authService';
+import { pricingExperimentService } from '@/lib/experiments/pricingExperimentService';
+import { abTestService } from '@/lib/experiments/abTestService';
+import { integrationsHubService, type WebhookEvent } from '@/lib/integrations/integrationsHubService';
 
 type Proposal = Database['public']['Tables']['proposals']['Row'];
 type ProposalInsert = Database['public']['Tables']['proposals']['Insert'];
@@ -66,6 +71,54 @@ export interface ProposalSignature {
   signed_at: string;
 }
 
+export interface ProposalBlockSnapshot {
+  id: string;
+  block_code: string;
+  props: Record<string, unknown>;
+  sort_order: number;
+  parent_id: string | null;
+  column_index: number | null;
+}
+
+/** Everything a client sees on a proposal, frozen at one point in time */
+export interface ProposalSnapshot {
+  proposal: Partial<Proposal>;
+  line_items: Omit<ProposalLineItem, 'proposal_id'>[];
+  blocks: ProposalBlockSnapshot[];
+}
+
+export interface ProposalRevision {
+  id: string;
+  proposal_id: string;
+  org_id: string;
+  version: number;
+  snapshot: ProposalSnapshot;
+  change_summary: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface ProposalFieldChange {
+  field: string;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ProposalLineItemChange {
+  type: 'added' | 'removed' | 'changed';
+  name: string;
+  before?: Omit<ProposalLineItem, 'proposal_id'>;
+  after?: Omit<ProposalLineItem, 'proposal_id'>;
+}
+
+export interface ProposalRevisionDiff {
+  fields: ProposalFieldChange[];
+  lineItems: ProposalLineItemChange[];
+  blocks: { added: number; removed: number; changed: number };
+  hasChanges: boolean;
+}
+
 export interface ProposalFilters {
   status?: string[];
   dateFrom?: string;
@@ -113,25 +166,27 @@ export async function createProposal(
   userId: string,
   data: Partial<ProposalInsert>
 ): Promise<Proposal> {
-  const proposalNumber = await generateProposalNumber(orgId);
-
-  const { data: proposal, error } = await supabase
-    .from('proposals')
-    .insert({
-      org_id: orgId,
-      proposal_number: proposalNumber,
-      created_by: userId,
-      status: 'draft',
-      tier: 'standard',
-      valid_days: 30,
-      deposit_percent: 50,
-      ...data,
-    })
-    .select()
-    .single();
-
-  if (error) throw error;
-  return proposal;
+  return usageService.meter(orgId, 'create_proposal', async () => {
+    const proposalNumber = await generateProposalNumber(orgId);
+
+    const { data: proposal, error } = await supabase
+      .from('proposals')
+      .insert({
+        org_id: orgId,
+        proposal_number: proposalNumber,
+        created_by: userId,
+        status: 'draft',
+        tier: 'standard',
+        valid_days: 30,
+        deposit_percent: 50,
+        ...data,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return proposal;
+  }, { userId });
 }
 
 // ============================================================================
@@ -214,14 +269,37 @@ export async function getProposal(
 // UPDATE PROPOSAL
 // ============================================================================
 
+/** Outbound webhook queued when a proposal moves into a status */
+const STATUS_WEBHOOK_EVENTS: Partial<Record<Proposal['status'], WebhookEvent>> = {
+  sent: 'proposal.sent',
+  accepted: 'proposal.signed',
+  rejected: 'proposal.rejected',
+};
+
+/**
+ * Update a proposal. Once a proposal has left draft, any change to its
+ * content first freezes the current state as a revision and bumps the
+ * version, so what the client saw is never lost.
+ */
 export async function updateProposal(
   proposalId: string,
-  data: ProposalUpdate
+  data: ProposalUpdate,
+  options: { userId?: string; changeSummary?: string } = {}
 ): Promise<Proposal> {
-  const { data: proposal, error } = await supabase
+  const update: Record<string, unknown> = { ...data };
+
+  if (Object.keys(data).some((key) => key in REVISION_FIELDS)) {
+    const current = await getProposal(proposalId);
+    if (current && REVISIONED_STATUSES.includes(current.status)) {
+      await createRevision(current, options.userId, options.changeSummary);
+      update.version = (current.version || 1) + 1;
+    }
+  }
+
+  const { data: row, error } = await supabase
     .from('proposals')
     .update({
-      ...data,
+      ...update,
       updated_at: new Date().toISOString(),
     })
     .eq('id', proposalId)
@@ -229,6 +307,46 @@ export async function updateProposal(
     .single();
 
   if (error) throw error;
+  const proposal = row as Proposal;
+
+  // A signed or rejected proposal may settle the pricing experiment it was in
+  if (proposal.pricing_experiment_id && 'status' in data && (proposal.status === 'accepted' || proposal.status === 'rejected')) {
+    await pricingExperimentService.evaluateExperiment(proposal.pricing_experiment_id).catch((err) => {
+      console.error('Failed to evaluate pricing experiment:', err);
+    });
+  }
+
+  // However it was won (signed, deposit paid or marked by the office), credit
+  // the A/B test variants the client saw
+  if ('status' in data && proposal.status === 'accepted') {
+    await abTestService.recordConversion(proposalId).catch((err) => {
+      console.error('Failed to record A/B test conversion:', err);
+    });
+  }
+
+  // A deposit paid before the signature starts its job once the proposal is
+  // accepted. Loaded on demand: the payments service imports this module.
+  if ('status' in data && proposal.status === 'accepted' && proposal.deposit_paid_at) {
+    const { startPaidProposalJob } = await import('@/lib/payments/paymentsService');
+    await startPaidProposalJob(proposalId).catch((err) => {
+      console.error('Failed to start the job for a paid deposit:', err);
+    });
+  }
+
+  const webhookEvent = 'status' in data ? STATUS_WEBHOOK_EVENTS[proposal.status as Proposal['status']] : undefined;
+  if (webhookEvent) {
+    await integrationsHubService.triggerWebhook(proposal.org_id, webhookEvent, {
+      proposalId: proposal.id,
+      proposalNumber: proposal.proposal_number,
+      status: proposal.status,
+      total: proposal.total,
+      contactId: proposal.contact_id,
+      signedAt: proposal.signed_at,
+    }).catch((err) => {
+      console.error(`Failed to queue ${webhookEvent} webhook:`, err);
+    });
+  }
+
   return proposal;
 }
 
@@ -263,13 +381,17 @@ export async function deleteProposal(proposalId: string): Promise<void> {
 
 export async function addLineItem(
   proposalId: string,
-  item: Omit<ProposalLineItem, 'id' | 'proposal_id'>
+  item: Omit<ProposalLineItem, 'id' | 'proposal_id'>,
+  options: { userId?: string; changeSummary?: string; offlineId?: string } = {}
 ): Promise<ProposalLineItem> {
+  await reviseBeforeLineItemChange(proposalId, options);
+
   const { data, error } = await supabase
     .from('proposal_line_items')
     .insert({
       proposal_id: proposalId,
       ...item,
+      ...(options.offlineId && { offline_id: options.offlineId }),
     })
     .select()
     .single();
@@ -280,8 +402,11 @@ export async function addLineItem(
 
 export async function updateLineItem(
   itemId: string,
-  data: Partial<ProposalLineItem>
+  data: Partial<ProposalLineItem>,
+  options: { userId?: string; changeSummary?: string } = {}
 ): Promise<ProposalLineItem> {
+  await reviseBeforeLineItemChange(await getLineItemProposalId(itemId), options);
+
   const { data: item, error } = await supabase
     .from('proposal_line_items')
     .update(data)
@@ -293,7 +418,12 @@ export async function updateLineItem(
   return item;
 }
 
-export async function deleteLineItem(itemId: string): Promise<void> {
+export async function deleteLineItem(
+  itemId: string,
+  options: { userId?: string; changeSummary?: string } = {}
+): Promise<void> {
+  await reviseBeforeLineItemChange(await getLineItemProposalId(itemId), options);
+
   const { error } = await supabase
     .from('proposal_line_items')
     .delete()
@@ -302,6 +432,74 @@ export async function deleteLineItem(itemId: string): Promise<void> {
   if (error) throw error;
 }
 
+/**
+ * Replace all line items on a proposal with the given set, in one
+ * transaction. Callers save the proposal through updateProposal first,
+ * which takes the revision.
+ */
+export async function replaceLineItems(
+  proposalId: string,
+  items: (Omit<ProposalLineItem, 'id' | 'proposal_id'> & { id?: string })[]
+): Promise<void> {
+  const { error } = await supabase.rpc('replace_proposal_line_items', {
+    p_proposal_id: proposalId,
+    p_items: items,
+  });
+
+  if (error) throw error;
+}
+
+// Replace all of a proposal's blocks in one transaction
+async function replaceBlocks(proposalId: string, blocks: ProposalBlockSnapshot[]): Promise<void> {
+  const { error } = await supabase.rpc('replace_proposal_blocks', {
+    p_proposal_id: proposalId,
+    p_blocks: blocks,
+  });
+
+  if (error) throw error;
+}
+
+async function getLineItemProposalId(itemId: string): Promise<string> {
+  const { data, error } = await supabase
+    .from('proposal_line_items')
+    .select('proposal_id')
+    .eq('id', itemId)
+    .single();
+
+  if (error) throw error;
+  return (data as Pick<ProposalLineItem, 'proposal_id'>).proposal_id;
+}
+
+/**
+ * A single line-item edit on a sent proposal freezes it first, the same
+ * way updateProposal does for the proposal's own fields
+ */
+async function reviseBeforeLineItemChange(
+  proposalId: string,
+  options: { userId?: string; changeSummary?: string }
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('proposals')
+    .select('status')
+    .eq('id', proposalId)
+    .single();
+
+  if (error) throw error;
+  if (!REVISIONED_STATUSES.includes((data as Pick<Proposal, 'status'>).status)) return;
+
+  const current = await getProposal(proposalId);
+  if (!current) return;
+
+  await createRevision(current, options.userId, options.changeSummary);
+
+  const { error: versionError } = await supabase
+    .from('proposals')
+    .update({ version: (current.version || 1) + 1, updated_at: new Date().toISOString() })
+    .eq('id', proposalId);
+
+  if (versionError) throw versionError;
+}
+
 // ============================================================================
 // IMAGES
 // ============================================================================
@@ -310,10 +508,19 @@ export async function addProposalImage(
   proposalId: string,
   file: File,
   type: ProposalImage['type'],
-  caption?: string
+  caption?: string,
+  options: { offlineId?: string } = {}
 ): Promise<ProposalImage> {
+  const { data: proposal, error: proposalError } = await supabase
+    .from('proposals')
+    .select('org_id')
+    .eq('id', proposalId)
+    .single();
+
+  if (proposalError) throw proposalError;
+
   // Upload to storage
-  const url = await uploadFile('proposal-images', proposalId, file);
+  const url = await uploadFile((proposal as Pick<Proposal, 'org_id'>).org_id, 'proposal-images', proposalId, file);
 
   // Get max position
   const { data: existing } = await supabase
@@ -334,6 +541,7 @@ export async function addProposalImage(
       type,
       caption,
       position,
+      ...(options.offlineId && { offline_id: options.offlineId }),
     })
     .select()
     .single();
@@ -380,18 +588,24 @@ export async function sendProposal(
   const proposal = await getProposal(proposalId);
   if (!proposal) throw new Error('Proposal not found');
 
-  await fetch('/api/email/send-proposal', {
+  const response = await fetch('/api/email/send-proposal', {
     method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
+    headers: { 'Content-Type': 'application/json', ...(await getApiAuthHeaders()) },
     body: JSON.stringify({
       to: email,
       proposalId,
       proposalNumber: proposal.proposal_number,
       clientName: proposal.contact?.first_name || 'Customer',
       total: proposal.total,
-      viewUrl: `${window.location.origin}/p/${proposalId}`,
     }),
   });
+
+  // The worker meters emails; a 402 means the org is out of them
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    if (response.status === 402) throw new QuotaExceededError(body.error, body.upgrade);
+    throw new Error(body.error || 'Failed to send proposal email');
+  }
 }
 
 // ============================================================================
@@ -420,6 +634,11 @@ export async function recordProposalView(
     user_agent: userAgent,
     viewed_at: new Date().toISOString(),
   });
+
+  // Log which A/B test variants the client saw
+  await abTestService.recordExposure(proposalId).catch((err) => {
+    console.error('Failed to record A/B test exposure:', err);
+  });
 }
 
 // ============================================================================
@@ -470,6 +689,7 @@ export async function duplicateProposal(
     net_sqft: original.net_sqft,
     surface_condition: original.surface_condition,
     measurements: original.measurements,
+    site_geometry: original.site_geometry,
     tier: original.tier,
     title: `Copy of ${original.title || original.proposal_number}`,
     introduction: original.introduction,
@@ -500,6 +720,265 @@ export async function duplicateProposal(
   return newProposal;
 }
 
+// ============================================================================
+// REVISIONS
+// ============================================================================
+
+/** Statuses after which a proposal's content is frozen into revisions */
+const REVISIONED_STATUSES: Proposal['status'][] = ['sent', 'viewed', 'accepted', 'rejected', 'expired'];
+
+/** Content fields captured in a revision, with labels for the diff view */
+const REVISION_FIELDS: Partial<Record<keyof Proposal, string>> = {
+  title: 'Title',
+  property_name: 'Property',
+  property_address: 'Address',
+  total_sqft: 'Total Sq Ft',
+  net_sqft: 'Net Sq Ft',
+  surface_condition: 'Surface Condition',
+  measurements: 'Measurements',
+  site_geometry: 'Site Map',
+  tier: 'Tier',
+  subtotal: 'Subtotal',
+  discount_amount: 'Discount',
+  tax_rate: 'Tax Rate',
+  tax_amount: 'Tax',
+  total: 'Total',
+  deposit_percent: 'Deposit %',
+  deposit_amount: 'Deposit',
+  introduction: 'Introduction',
+  scope_of_work: 'Scope of Work',
+  terms_and_conditions: 'Terms & Conditions',
+  custom_sections: 'Custom Sections',
+  valid_days: 'Valid Days',
+  require_signature: 'Require Signature',
+  require_deposit: 'Require Deposit',
+};
+
+function transformRevision(row: Record<string, unknown>): ProposalRevision {
+  return {
+    id: row.id as string,
+    proposal_id: row.proposal_id as string,
+    org_id: row.org_id as string,
+    version: row.version as number,
+    snapshot: row.snapshot as ProposalSnapshot,
+    change_summary: row.change_summary as string | null,
+    created_by: row.created_by as string | null,
+    created_at: row.created_at as string,
+  };
+}
+
+/**
+ * Capture the proposal's current content, line items and blocks
+ */
+export async function buildProposalSnapshot(
+  proposal: ProposalWithRelations
+): Promise<ProposalSnapshot> {
+  const fields: Partial<Proposal> = {};
+  for (const key of Object.keys(REVISION_FIELDS) as (keyof Proposal)[]) {
+    (fields as Record<string, unknown>)[key] = proposal[key];
+  }
+
+  const { data: blocks, error } = await supabase
+    .from('proposal_blocks')
+    .select('id, block_code, props, sort_order, parent_id, column_index')
+    .eq('proposal_id', proposal.id)
+    .order('sort_order');
+
+  if (error) throw error;
+
+  return {
+    proposal: fields,
+    line_items: (proposal.line_items || [])
+      .map(({ proposal_id: _proposalId, ...item }) => item)
+      .sort((a, b) => a.position - b.position),
+    blocks: blocks || [],
+  };
+}
+
+/**
+ * Freeze the proposal as it stands now under its current version number
+ */
+export async function createRevision(
+  proposal: ProposalWithRelations,
+  userId?: string,
+  changeSummary?: string
+): Promise<ProposalRevision> {
+  const snapshot = await buildProposalSnapshot(proposal);
+
+  const { data, error } = await supabase
+    .from('proposal_revisions')
+    .insert({
+      proposal_id: proposal.id,
+      org_id: proposal.org_id,
+      version: proposal.version || 1,
+      snapshot,
+      change_summary: changeSummary,
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Another save already froze this version
+    if (error.code === '23505') {
+      throw new Error('This proposal was just changed by someone else. Reload it and try again.');
+    }
+    throw error;
+  }
+  return transformRevision(data);
+}
+
+export async function getRevisions(proposalId: string): Promise<ProposalRevision[]> {
+  const { data, error } = await supabase
+    .from('proposal_revisions')
+    .select('*')
+    .eq('proposal_id', proposalId)
+    .order('version', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(transformRevision);
+}
+
+export async function getRevision(revisionId: string): Promise<ProposalRevision | null> {
+  const { data, error } = await supabase
+    .from('proposal_revisions')
+    .select('*')
+    .eq('id', revisionId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw error;
+  }
+  return transformRevision(data);
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Compare two snapshots, oldest first
+ */
+export function diffSnapshots(
+  before: ProposalSnapshot,
+  after: ProposalSnapshot
+): ProposalRevisionDiff {
+  const fields: ProposalFieldChange[] = [];
+  for (const [field, label] of Object.entries(REVISION_FIELDS)) {
+    const a = (before.proposal as Record<string, unknown>)[field];
+    const b = (after.proposal as Record<string, unknown>)[field];
+    if (!isSameValue(a, b)) {
+      fields.push({ field, label: label!, before: a, after: b });
+    }
+  }
+
+  // Line items are matched by service, falling back to name for custom items
+  const itemKey = (item: { service_id: string; name: string }) =>
+    item.service_id && item.service_id !== 'custom' ? item.service_id : `custom:${item.name}`;
+  const beforeItems = new Map(before.line_items.map((item) => [itemKey(item), item]));
+  const afterItems = new Map(after.line_items.map((item) => [itemKey(item), item]));
+
+  const lineItems: ProposalLineItemChange[] = [];
+  for (const [key, item] of beforeItems) {
+    const next = afterItems.get(key);
+    if (!next) {
+      lineItems.push({ type: 'removed', name: item.name, before: item });
+    } else if (
+      next.quantity !== item.quantity ||
+      next.unit_price !== item.unit_price ||
+      next.total !== item.total ||
+      next.description !== item.description
+    ) {
+      lineItems.push({ type: 'changed', name: next.name, before: item, after: next });
+    }
+  }
+  for (const [key, item] of afterItems) {
+    if (!beforeItems.has(key)) {
+      lineItems.push({ type: 'added', name: item.name, after: item });
+    }
+  }
+
+  const beforeBlocks = new Map(before.blocks.map((block) => [block.id, block]));
+  const afterBlocks = new Map(after.blocks.map((block) => [block.id, block]));
+  const blocks = { added: 0, removed: 0, changed: 0 };
+  for (const [id, block] of beforeBlocks) {
+    const next = afterBlocks.get(id);
+    if (!next) blocks.removed++;
+    else if (!isSameValue(block, next)) blocks.changed++;
+  }
+  for (const id of afterBlocks.keys()) {
+    if (!beforeBlocks.has(id)) blocks.added++;
+  }
+
+  return {
+    fields,
+    lineItems,
+    blocks,
+    hasChanges:
+      fields.length > 0 || lineItems.length > 0 || blocks.added + blocks.removed + blocks.changed > 0,
+  };
+}
+
+/**
+ * Diff a revision against the live proposal
+ */
+export async function diffRevisionWithCurrent(
+  revisionId: string
+): Promise<{ revision: ProposalRevision; current: ProposalSnapshot; diff: ProposalRevisionDiff }> {
+  const revision = await getRevision(revisionId);
+  if (!revision) throw new Error('Revision not found');
+
+  const proposal = await getProposal(revision.proposal_id);
+  if (!proposal) throw new Error('Proposal not found');
+
+  const current = await buildProposalSnapshot(proposal);
+  return { revision, current, diff: diffSnapshots(revision.snapshot, current) };
+}
+
+/**
+ * Put a proposal back the way it was at a revision. The state being
+ * replaced is saved as a revision first, so a restore can be undone. A
+ * signed proposal can't be restored; that would rewrite what the client
+ * accepted.
+ */
+export async function restoreRevision(
+  revisionId: string,
+  userId?: string
+): Promise<Proposal> {
+  const revision = await getRevision(revisionId);
+  if (!revision) throw new Error('Revision not found');
+
+  const current = await getProposal(revision.proposal_id);
+  if (!current) throw new Error('Proposal not found');
+  if (current.status === 'accepted') {
+    throw new Error('Accepted proposals cannot be restored to an earlier version');
+  }
+
+  await createRevision(current, userId, `Before restoring version ${revision.version}`);
+
+  const { snapshot } = revision;
+
+  const { data: proposal, error } = await supabase
+    .from('proposals')
+    .update({
+      ...snapshot.proposal,
+      version: (current.version || 1) + 1,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', current.id)
+    .neq('status', 'accepted')
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await replaceLineItems(current.id, snapshot.line_items);
+  await replaceBlocks(current.id, snapshot.blocks);
+
+  return proposal;
+}
+
 export default {
   generateProposalNumber,
   createProposal,
@@ -510,10 +989,18 @@ export default {
   addLineItem,
   updateLineItem,
   deleteLineItem,
+  replaceLineItems,
   addProposalImage,
   deleteProposalImage,
   sendProposal,
   recordProposalView,
   signProposal,
   duplicateProposal,
+  buildProposalSnapshot,
+  createRevision,
+  getRevisions,
+  getRevision,
+  diffSnapshots,
+  diffRevisionWithCurrent,
+  restoreRevision,
 };
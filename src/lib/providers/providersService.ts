@@ -5,6 +5,7 @@
 
 import { supabase } from '../supabase';
 import { entitlementsService } from '../entitlements/entitlementsService';
+import { usageService } from '../usage/usageService';
 
 // ============================================================================
 // TYPES
@@ -183,7 +184,7 @@ export const providersService = {
   // --------------------------------------------------------------------------
 
   /**
-   * Call AI provider
+   * Call AI provider. Counts against the org's AI quota unless it brings its own key.
    */
   async callAI(
     orgId: string,
@@ -203,39 +204,46 @@ export const providersService = {
       throw new Error(`Unknown AI provider: ${providerName}`);
     }
 
-    // Check plan access
-    const plan = await entitlementsService.getEffectivePlan(orgId);
-    const planOrder = ['free', 'pro', 'business', 'enterprise'];
-    if (planOrder.indexOf(plan.id) < planOrder.indexOf(provider.minPlan)) {
-      // Fall back to free provider
-      return this.callHuggingFace(prompt, options);
-    }
+    const call = async (): Promise<ProviderResponse<string>> => {
+      // Check plan access
+      const plan = await entitlementsService.getEffectivePlan(orgId);
+      const planOrder = ['free', 'pro', 'business', 'enterprise'];
+      if (planOrder.indexOf(plan.id) < planOrder.indexOf(provider.minPlan)) {
+        // Fall back to free provider
+        return this.callHuggingFace(prompt, options);
+      }
 
-    // Route to appropriate provider
-    let result: string;
-    switch (providerName) {
-      case 'huggingface':
-        result = await this.callHuggingFaceInternal(prompt, options);
-        break;
-      case 'anthropic':
-        result = await this.callAnthropicInternal(orgId, prompt, options);
-        break;
-      case 'openai':
-        result = await this.callOpenAIInternal(orgId, prompt, options);
-        break;
-      case 'byok':
-        result = await this.callBYOKInternal(orgId, prompt, options);
-        break;
-      default:
-        result = await this.callHuggingFaceInternal(prompt, options);
-    }
+      // Route to appropriate provider
+      let result: string;
+      switch (providerName) {
+        case 'huggingface':
+          result = await this.callHuggingFaceInternal(prompt, options);
+          break;
+        case 'anthropic':
+          result = await this.callAnthropicInternal(orgId, prompt, options);
+          break;
+        case 'openai':
+          result = await this.callOpenAIInternal(orgId, prompt, options);
+          break;
+        case 'byok':
+          result = await this.callBYOKInternal(orgId, prompt, options);
+          break;
+        default:
+          result = await this.callHuggingFaceInternal(prompt, options);
+      }
 
-    return {
-      provider: providerName,
-      data: result,
-      latency: Date.now() - startTime,
-      cached: false,
+      return {
+        provider: providerName,
+        data: result,
+        latency: Date.now() - startTime,
+        cached: false,
+      };
     };
+
+    // Calls on the org's own key cost us nothing, so they are not metered
+    return providerName === 'byok'
+      ? call()
+      : usageService.meter(orgId, 'call_ai', call, { metadata: { provider: providerName } });
   },
 
   /**
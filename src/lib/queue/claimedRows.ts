@@ -0,0 +1,107 @@
+/**
+ * Sommer's Proposal System - Claimed Row Queues
+ * Shared plumbing for the tables the worker cron works off: scheduled
+ * automation actions, workflow runs and webhook deliveries.
+ *
+ * A claim_* database function locks a batch of due rows to one worker
+ * (FOR UPDATE SKIP LOCKED, so overlapping runs never share a row) and
+ * counts an attempt on each. The worker writes each outcome back and drops
+ * the lock. A row left locked by a worker that died is reclaimed once its
+ * lock expires, so work is done at least once: a row that finishes just as
+ * its lock expires can run twice.
+ */
+
+import { supabase } from '../supabase';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ClaimFunction = 'claim_scheduled_actions' | 'claim_workflow_runs' | 'claim_webhook_deliveries';
+
+export type ClaimedTable = 'scheduled_actions' | 'automation_workflow_runs' | 'webhook_deliveries';
+
+export interface BackoffPolicy {
+  baseMinutes: number;
+  maxMinutes: number;
+}
+
+// ============================================================================
+// CLAIMS
+// ============================================================================
+
+/**
+ * Lock a batch of due rows to this worker. Rows whose lock is older than
+ * the timeout belong to a worker that died and are taken over.
+ */
+export async function claimRows(
+  claimFunction: ClaimFunction,
+  workerId: string,
+  limit: number,
+  lockTimeoutMinutes: number
+): Promise<Record<string, unknown>[]> {
+  const { data, error } = await supabase.rpc(claimFunction, {
+    p_worker_id: workerId,
+    p_limit: limit,
+    p_lock_timeout_minutes: lockTimeoutMinutes,
+  });
+
+  if (error) throw error;
+  return (data || []) as Record<string, unknown>[];
+}
+
+/**
+ * Run each claimed row and tally how it ended. A row whose outcome can't
+ * be written stays locked; the lock expires and it is picked up again.
+ */
+export async function runClaimedRows<T extends { id: string }, O extends string>(
+  rows: T[],
+  summary: Record<O, number>,
+  label: string,
+  run: (row: T) => Promise<O>
+): Promise<void> {
+  for (const row of rows) {
+    try {
+      summary[await run(row)]++;
+    } catch (err) {
+      console.error(`${label} ${row.id} could not be recorded:`, err);
+    }
+  }
+}
+
+/**
+ * Whether a claimed row has used up its attempts. Claiming counts an
+ * attempt, so a row whose worker keeps dying still runs out.
+ */
+export function hasExhaustedAttempts(attempts: number, maxAttempts: number): boolean {
+  return attempts > maxAttempts;
+}
+
+/**
+ * Write a claimed row's outcome and drop the lock. Only the worker holding
+ * the lock may write, so a run that overstayed its lock cannot undo the
+ * next one's work.
+ */
+export async function releaseClaimedRow(
+  table: ClaimedTable,
+  id: string,
+  workerId: string,
+  updates: Record<string, unknown>
+): Promise<void> {
+  const { error } = await supabase
+    .from(table)
+    .update({ ...updates, locked_by: null, locked_at: null })
+    .eq('id', id)
+    .eq('locked_by', workerId);
+
+  if (error) throw error;
+}
+
+// ============================================================================
+// RETRIES
+// ============================================================================
+
+/** Exponential backoff: the base, then doubling with each attempt up to the cap */
+export function getBackoffMinutes(attempts: number, policy: BackoffPolicy): number {
+  return Math.min(policy.baseMinutes * 2 ** Math.max(0, attempts - 1), policy.maxMinutes);
+}
@@ -0,0 +1,489 @@
+/**
+ * Dispatch Planner
+ * Assigns jobs across crews and days by capacity, and orders each crew's
+ * day to minimize drive time
+ *
+ * Distances come from a local matrix: cached road distances where we have
+ * them, straight-line distance scaled by ROAD_FACTOR where we don't.
+ * Assignment is greedy cheapest insertion (longest jobs first), then each
+ * route is tightened with 2-opt.
+ */
+
+import { supabase } from '@/lib/supabase';
+import { updateJob, type Job, type Crew } from './schedulingService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+export type PlannerJob = Pick<
+  Job,
+  'id' | 'title' | 'address' | 'city' | 'latitude' | 'longitude' | 'estimated_duration_hours' | 'crew_id' | 'scheduled_date'
+>;
+
+export type PlannerCrew = Pick<Crew, 'id' | 'name' | 'color' | 'base_latitude' | 'base_longitude'>;
+
+export interface RoadDistance {
+  miles: number;
+  minutes: number;
+}
+
+export interface DispatchOptions {
+  startDate: string;
+  days: number;
+  /** Day of week numbers crews work, 0 = Sunday */
+  workDays?: number[];
+  /** Hours available per crew-day, drive time included */
+  workdayHours?: number;
+  dayStartTime?: string;
+  averageSpeedMph?: number;
+  /** Keep jobs that already have a crew and a date in the window where they are */
+  keepAssignments?: boolean;
+  /** Cached road distances keyed by distanceKey(from, to) */
+  roadDistances?: Map<string, RoadDistance>;
+}
+
+export interface DispatchStop {
+  jobId: string;
+  title: string;
+  address?: string;
+  point: GeoPoint;
+  workHours: number;
+  driveMiles: number;
+  driveMinutes: number;
+  arrivalTime: string;
+  departureTime: string;
+}
+
+export interface CrewRoute {
+  crewId: string;
+  crewName: string;
+  crewColor: string;
+  date: string;
+  stops: DispatchStop[];
+  totalDriveMiles: number;
+  totalDriveMinutes: number;
+  totalWorkHours: number;
+  endTime: string;
+}
+
+export interface UnassignedJob {
+  jobId: string;
+  title: string;
+  reason: string;
+}
+
+export interface DispatchPlan {
+  startDate: string;
+  dates: string[];
+  routes: CrewRoute[];
+  unassigned: UnassignedJob[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const EARTH_RADIUS_MILES = 3958.8;
+
+/** Typical road distance over straight-line distance for local driving */
+export const ROAD_FACTOR = 1.3;
+
+/** A later day has to save this much driving before the planner prefers it */
+const DAY_DELAY_PENALTY_MINUTES = 90;
+
+const DEFAULTS = {
+  workDays: [1, 2, 3, 4, 5, 6],
+  workdayHours: 10,
+  dayStartTime: '07:00',
+  averageSpeedMph: 30,
+  keepAssignments: true,
+};
+
+// ============================================================================
+// DISTANCE MATRIX
+// ============================================================================
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+export function straightLineMiles(a: GeoPoint, b: GeoPoint): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/** Points are keyed at ~100m precision so nearby geocodes share a cache row */
+export function pointKey(point: GeoPoint): string {
+  return `${point.lat.toFixed(3)},${point.lon.toFixed(3)}`;
+}
+
+export function distanceKey(from: GeoPoint, to: GeoPoint): string {
+  return `${pointKey(from)}|${pointKey(to)}`;
+}
+
+/**
+ * Drive estimates between every pair of points, indexed like the input.
+ * Cached road distances are used in either direction.
+ */
+export function buildDistanceMatrix(
+  points: GeoPoint[],
+  averageSpeedMph: number = DEFAULTS.averageSpeedMph,
+  roadDistances?: Map<string, RoadDistance>
+): RoadDistance[][] {
+  return points.map((from, i) =>
+    points.map((to, j) => {
+      if (i === j) return { miles: 0, minutes: 0 };
+      const cached = roadDistances?.get(distanceKey(from, to)) ?? roadDistances?.get(distanceKey(to, from));
+      if (cached) return cached;
+      const miles = straightLineMiles(from, to) * ROAD_FACTOR;
+      return { miles, minutes: (miles / averageSpeedMph) * 60 };
+    })
+  );
+}
+
+// ============================================================================
+// ROUTING
+// ============================================================================
+
+/**
+ * Drive minutes for visiting stops in order. Routes start and end at the
+ * crew's base when it has one (index `base`), otherwise at the first stop.
+ */
+function routeMinutes(order: number[], matrix: RoadDistance[][], base: number | null): number {
+  if (order.length === 0) return 0;
+  let total = 0;
+  if (base !== null) total += matrix[base][order[0]].minutes;
+  for (let i = 1; i < order.length; i++) {
+    total += matrix[order[i - 1]][order[i]].minutes;
+  }
+  if (base !== null) total += matrix[order[order.length - 1]][base].minutes;
+  return total;
+}
+
+/** Reverse segments while that shortens the route */
+export function improveRoute(order: number[], matrix: RoadDistance[][], base: number | null): number[] {
+  let best = [...order];
+  let bestMinutes = routeMinutes(best, matrix, base);
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let k = i + 1; k < best.length; k++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, k + 1).reverse(), ...best.slice(k + 1)];
+        const minutes = routeMinutes(candidate, matrix, base);
+        if (minutes < bestMinutes - 0.01) {
+          best = candidate;
+          bestMinutes = minutes;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+/** Cheapest place to insert a stop into a route */
+function cheapestInsertion(
+  order: number[],
+  stop: number,
+  matrix: RoadDistance[][],
+  base: number | null
+): { position: number; addedMinutes: number } {
+  const current = routeMinutes(order, matrix, base);
+  let best = { position: 0, addedMinutes: Infinity };
+
+  for (let position = 0; position <= order.length; position++) {
+    const candidate = [...order.slice(0, position), stop, ...order.slice(position)];
+    const addedMinutes = routeMinutes(candidate, matrix, base) - current;
+    if (addedMinutes < best.addedMinutes) best = { position, addedMinutes };
+  }
+
+  return best;
+}
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().split('T')[0];
+}
+
+function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+function minutesToTime(total: number): string {
+  const rounded = Math.round(total);
+  const hours = Math.floor(rounded / 60);
+  const minutes = rounded % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+interface RouteSlot {
+  crew: PlannerCrew;
+  date: string;
+  dayIndex: number;
+  base: number | null;
+  order: number[];
+  workHours: number;
+}
+
+/**
+ * Assign jobs to crew-days and order each day's stops. Pure: takes jobs,
+ * crews and cached distances, returns a plan without touching the database.
+ */
+export function planDispatch(jobs: PlannerJob[], crews: PlannerCrew[], options: DispatchOptions): DispatchPlan {
+  const settings = { ...DEFAULTS, ...options };
+  const workdayMinutes = settings.workdayHours * 60;
+
+  const dates: string[] = [];
+  for (let i = 0; i < settings.days; i++) {
+    const date = addDays(settings.startDate, i);
+    if (settings.workDays.includes(new Date(`${date}T00:00:00Z`).getUTCDay())) dates.push(date);
+  }
+
+  const unassigned: UnassignedJob[] = [];
+  const routable: (PlannerJob & { point: GeoPoint; hours: number })[] = [];
+
+  for (const job of jobs) {
+    if (job.latitude == null || job.longitude == null) {
+      unassigned.push({ jobId: job.id, title: job.title, reason: 'Missing coordinates' });
+    } else if (!job.estimated_duration_hours) {
+      unassigned.push({ jobId: job.id, title: job.title, reason: 'Missing estimated duration' });
+    } else if (job.estimated_duration_hours * 60 > workdayMinutes) {
+      unassigned.push({ jobId: job.id, title: job.title, reason: `Longer than a ${settings.workdayHours}h workday` });
+    } else {
+      routable.push({ ...job, point: { lat: job.latitude, lon: job.longitude }, hours: job.estimated_duration_hours });
+    }
+  }
+
+  // Matrix indexes: jobs first, then crew bases
+  const points: GeoPoint[] = routable.map((job) => job.point);
+  const baseIndex = new Map<string, number>();
+  for (const crew of crews) {
+    if (crew.base_latitude != null && crew.base_longitude != null) {
+      baseIndex.set(crew.id, points.length);
+      points.push({ lat: crew.base_latitude, lon: crew.base_longitude });
+    }
+  }
+  const matrix = buildDistanceMatrix(points, settings.averageSpeedMph, settings.roadDistances);
+
+  const slots: RouteSlot[] = [];
+  dates.forEach((date, dayIndex) => {
+    for (const crew of crews) {
+      slots.push({ crew, date, dayIndex, base: baseIndex.get(crew.id) ?? null, order: [], workHours: 0 });
+    }
+  });
+  const slotFor = (crewId: string, date: string) => slots.find((s) => s.crew.id === crewId && s.date === date);
+
+  const usedMinutes = (slot: RouteSlot, order: number[]) =>
+    slot.workHours * 60 + routeMinutes(order, matrix, slot.base);
+
+  // Existing assignments are fixed and count against capacity
+  const open: number[] = [];
+  routable.forEach((job, index) => {
+    const fixed = settings.keepAssignments && job.crew_id && job.scheduled_date ? slotFor(job.crew_id, job.scheduled_date) : undefined;
+    if (fixed) {
+      fixed.order.push(index);
+      fixed.workHours += job.hours;
+    } else {
+      open.push(index);
+    }
+  });
+
+  open.sort((a, b) => routable[b].hours - routable[a].hours);
+
+  for (const index of open) {
+    const job = routable[index];
+    let best: { slot: RouteSlot; position: number; cost: number } | null = null;
+
+    for (const slot of slots) {
+      // A job dated but not crewed stays on its date
+      if (settings.keepAssignments && job.scheduled_date && slot.date !== job.scheduled_date) continue;
+
+      const { position, addedMinutes } = cheapestInsertion(slot.order, index, matrix, slot.base);
+      const order = [...slot.order.slice(0, position), index, ...slot.order.slice(position)];
+      if (usedMinutes({ ...slot, workHours: slot.workHours + job.hours }, order) > workdayMinutes) continue;
+
+      const cost = addedMinutes + slot.dayIndex * DAY_DELAY_PENALTY_MINUTES;
+      if (!best || cost < best.cost) best = { slot, position, cost };
+    }
+
+    if (!best) {
+      unassigned.push({ jobId: job.id, title: job.title, reason: 'No crew capacity in the planning window' });
+      continue;
+    }
+
+    best.slot.order.splice(best.position, 0, index);
+    best.slot.workHours += job.hours;
+  }
+
+  const routes = slots
+    .filter((slot) => slot.order.length > 0)
+    .map((slot) => buildRoute(slot, improveRoute(slot.order, matrix, slot.base), routable, matrix, settings.dayStartTime));
+
+  return { startDate: settings.startDate, dates, routes, unassigned };
+}
+
+function buildRoute(
+  slot: RouteSlot,
+  order: number[],
+  jobs: (PlannerJob & { point: GeoPoint; hours: number })[],
+  matrix: RoadDistance[][],
+  dayStartTime: string
+): CrewRoute {
+  let clock = timeToMinutes(dayStartTime);
+  let previous = slot.base;
+  let totalDriveMiles = 0;
+  let totalDriveMinutes = 0;
+
+  const stops = order.map((index) => {
+    const job = jobs[index];
+    const leg = previous !== null ? matrix[previous][index] : { miles: 0, minutes: 0 };
+    clock += leg.minutes;
+    const arrival = clock;
+    clock += job.hours * 60;
+
+    totalDriveMiles += leg.miles;
+    totalDriveMinutes += leg.minutes;
+    previous = index;
+
+    return {
+      jobId: job.id,
+      title: job.title,
+      address: [job.address, job.city].filter(Boolean).join(', ') || undefined,
+      point: job.point,
+      workHours: job.hours,
+      driveMiles: Math.round(leg.miles * 10) / 10,
+      driveMinutes: Math.round(leg.minutes),
+      arrivalTime: minutesToTime(arrival),
+      departureTime: minutesToTime(clock),
+    };
+  });
+
+  if (slot.base !== null && previous !== null) {
+    const home = matrix[previous][slot.base];
+    clock += home.minutes;
+    totalDriveMiles += home.miles;
+    totalDriveMinutes += home.minutes;
+  }
+
+  return {
+    crewId: slot.crew.id,
+    crewName: slot.crew.name,
+    crewColor: slot.crew.color,
+    date: slot.date,
+    stops,
+    totalDriveMiles: Math.round(totalDriveMiles * 10) / 10,
+    totalDriveMinutes: Math.round(totalDriveMinutes),
+    totalWorkHours: slot.workHours,
+    endTime: minutesToTime(clock),
+  };
+}
+
+// ============================================================================
+// DATA
+// ============================================================================
+
+/**
+ * Jobs to plan: everything scheduled in the window plus scheduled jobs that
+ * have no date yet
+ */
+export async function getDispatchJobs(orgId: string, startDate: string, endDate: string): Promise<PlannerJob[]> {
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('id, title, address, city, latitude, longitude, estimated_duration_hours, crew_id, scheduled_date')
+    .eq('org_id', orgId)
+    .eq('status', 'scheduled')
+    .or(`scheduled_date.is.null,and(scheduled_date.gte.${startDate},scheduled_date.lte.${endDate})`);
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getRoadDistances(orgId: string): Promise<Map<string, RoadDistance>> {
+  const { data, error } = await supabase
+    .from('route_distance_cache')
+    .select('origin_key, destination_key, distance_miles, duration_minutes')
+    .eq('org_id', orgId);
+
+  if (error) throw error;
+  return new Map(
+    (data || []).map((row: { origin_key: string; destination_key: string; distance_miles: number; duration_minutes: number }) => [
+      `${row.origin_key}|${row.destination_key}`,
+      { miles: row.distance_miles, minutes: row.duration_minutes },
+    ])
+  );
+}
+
+/** Store a road distance from a routing provider for future plans */
+export async function cacheRoadDistance(
+  orgId: string,
+  from: GeoPoint,
+  to: GeoPoint,
+  distance: RoadDistance,
+  source: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('route_distance_cache')
+    .upsert(
+      {
+        org_id: orgId,
+        origin_key: pointKey(from),
+        destination_key: pointKey(to),
+        distance_miles: distance.miles,
+        duration_minutes: distance.minutes,
+        source,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'org_id,origin_key,destination_key' }
+    );
+
+  if (error) throw error;
+}
+
+/** Write a plan's crew, date and time window onto each job */
+export async function applyDispatchPlan(plan: DispatchPlan): Promise<number> {
+  let updated = 0;
+
+  for (const route of plan.routes) {
+    for (const stop of route.stops) {
+      await updateJob(stop.jobId, {
+        crew_id: route.crewId,
+        scheduled_date: route.date,
+        scheduled_start_time: stop.arrivalTime,
+        scheduled_end_time: stop.departureTime,
+      });
+      updated++;
+    }
+  }
+
+  return updated;
+}
+
+export default {
+  straightLineMiles,
+  buildDistanceMatrix,
+  improveRoute,
+  planDispatch,
+  getDispatchJobs,
+  getRoadDistances,
+  cacheRoadDistance,
+  applyDispatchPlan,
+};
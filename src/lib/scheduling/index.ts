@@ -1 +1,3 @@
 export * from './schedulingService';
+export * from './weatherRescheduleService';
+export * from './dispatchPlanner';
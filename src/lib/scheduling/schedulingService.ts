@@ -4,6 +4,7 @@
  */
 
 import { supabase } from '@/lib/supabase';
+import { reserveJobMaterials, releaseJobMaterials, consumeJobMaterials } from '@/lib/inventory/reservationService';
 
 export interface Job {
   id: string;
@@ -40,6 +41,8 @@ export interface Crew {
   color: string;
   lead_member_id?: string;
   member_ids: string[];
+  base_latitude?: number;
+  base_longitude?: number;
   is_active: boolean;
   created_at: string;
 }
@@ -74,7 +77,7 @@ export async function getJobs(
   return data || [];
 }
 
-// Create job
+// Create job (reserves its estimated materials)
 export async function createJob(orgId: string, data: Partial<Job>): Promise<Job> {
   const { data: job, error } = await supabase
     .from('jobs')
@@ -89,11 +92,27 @@ export async function createJob(orgId: string, data: Partial<Job>): Promise<Job>
     .single();
 
   if (error) throw error;
-  return job;
+  const created: Job = job;
+  if (created.status === 'scheduled' && created.proposal_id) {
+    await reserveJobMaterials(created.id);
+  }
+  return created;
 }
 
-// Update job
+// Update job (moving into 'scheduled' reserves materials, cancelling releases them)
 export async function updateJob(jobId: string, data: Partial<Job>): Promise<Job> {
+  let enteringSchedule = false;
+  if (data.status === 'scheduled') {
+    const { data: current, error: currentError } = await supabase
+      .from('jobs')
+      .select('status')
+      .eq('id', jobId)
+      .single();
+
+    if (currentError) throw currentError;
+    enteringSchedule = (current as Pick<Job, 'status'>).status !== 'scheduled';
+  }
+
   const { data: job, error } = await supabase
     .from('jobs')
     .update({ ...data, updated_at: new Date().toISOString() })
@@ -102,7 +121,14 @@ export async function updateJob(jobId: string, data: Partial<Job>): Promise<Job>
     .single();
 
   if (error) throw error;
-  return job;
+  const updated: Job = job;
+  if (enteringSchedule && updated.proposal_id) {
+    await reserveJobMaterials(jobId);
+  }
+  if (data.status === 'cancelled') {
+    await releaseJobMaterials(jobId);
+  }
+  return updated;
 }
 
 // Delete job
@@ -176,13 +202,15 @@ export async function startJob(jobId: string): Promise<Job> {
   });
 }
 
-// Complete job
-export async function completeJob(jobId: string, notes?: string): Promise<Job> {
-  return updateJob(jobId, {
+// Complete job (consumes reserved materials from stock)
+export async function completeJob(jobId: string, notes?: string, userId?: string): Promise<Job> {
+  const job = await updateJob(jobId, {
     status: 'completed',
     completed_at: new Date().toISOString(),
     notes,
   });
+  await consumeJobMaterials(jobId, userId ?? null);
+  return job;
 }
 
 // Weather hold
@@ -0,0 +1,469 @@
+/**
+ * Weather Reschedule Service
+ * Rechecks upcoming jobs against the forecast and moves or holds the ones
+ * that fall on unworkable days
+ *
+ * Each org picks a mode:
+ * - propose: moves are recorded as suggestions for a dispatcher to accept
+ * - apply:   moves are made straight away and the client and crew notified
+ */
+
+import { supabase } from '@/lib/supabase';
+import { getApiAuthHeaders } from '@/lib/auth/authService';
+import {
+  getWeatherForecast,
+  assessWorkDay,
+  geocodeAddress,
+  type WeatherForecast,
+} from '@/lib/weather/weatherService';
+import {
+  updateJob,
+  weatherHoldJob,
+  checkCrewAvailability,
+  type Job,
+} from './schedulingService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type WeatherRescheduleMode = 'propose' | 'apply';
+
+export type RescheduleAction = 'move' | 'hold';
+
+export type RescheduleSuggestionStatus = 'proposed' | 'applied' | 'accepted' | 'dismissed' | 'expired';
+
+export interface RescheduleSuggestion {
+  id: string;
+  org_id: string;
+  job_id: string;
+  action: RescheduleAction;
+  original_date: string;
+  proposed_date: string | null;
+  reason: string;
+  status: RescheduleSuggestionStatus;
+  resolved_by: string | null;
+  resolved_at: string | null;
+  notified_at: string | null;
+  created_at: string;
+}
+
+export interface RescheduleSuggestionWithJob extends RescheduleSuggestion {
+  job?: Pick<Job, 'id' | 'title' | 'address' | 'city' | 'crew_id' | 'contact_id' | 'scheduled_date' | 'status'>;
+}
+
+export interface RescheduleDecision {
+  action: RescheduleAction;
+  fromDate: string;
+  toDate: string | null;
+  reason: string;
+}
+
+export interface WeatherRescheduleResult {
+  checked: number;
+  skipped: number;
+  suggestions: RescheduleSuggestion[];
+}
+
+/** Forecast window the checks cover (OpenWeatherMap's free tier is 5 days) */
+export const RESCHEDULE_HORIZON_DAYS = 5;
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+function formatDay(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return formatDay(d);
+}
+
+/**
+ * Decide what to do with one job given its forecast. Returns null when the
+ * scheduled day is workable. Otherwise looks for the next workable forecast
+ * day the crew is free on, and falls back to a weather hold.
+ */
+export async function planJobReschedule(
+  job: Pick<Job, 'scheduled_date'>,
+  forecast: WeatherForecast[],
+  isCrewFree: (date: string) => Promise<boolean>
+): Promise<RescheduleDecision | null> {
+  const fromDate = job.scheduled_date!;
+  const assessment = assessWorkDay(forecast, fromDate);
+  if (assessment.workSuitable) return null;
+
+  const reason = assessment.workReason || 'Forecast unworkable';
+  const candidates = forecast
+    .map((day) => day.date)
+    .filter((date) => date > fromDate)
+    .sort();
+
+  for (const date of candidates) {
+    if (!assessWorkDay(forecast, date).workSuitable) continue;
+    if (await isCrewFree(date)) {
+      return { action: 'move', fromDate, toDate: date, reason };
+    }
+  }
+
+  return { action: 'hold', fromDate, toDate: null, reason };
+}
+
+/**
+ * Find a day to bring a weather-held job back: the first workable forecast
+ * day on or after its original date (or today, if that has passed) that the
+ * crew is free on. Returns null while the forecast has no such day.
+ */
+export async function planHeldJobReturn(
+  job: Pick<Job, 'scheduled_date'>,
+  forecast: WeatherForecast[],
+  isCrewFree: (date: string) => Promise<boolean>,
+  today: string
+): Promise<RescheduleDecision | null> {
+  const fromDate = job.scheduled_date!;
+  const earliest = fromDate > today ? fromDate : today;
+  const candidates = forecast
+    .map((day) => day.date)
+    .filter((date) => date >= earliest)
+    .sort();
+
+  for (const date of candidates) {
+    if (!assessWorkDay(forecast, date).workSuitable) continue;
+    if (await isCrewFree(date)) {
+      return { action: 'move', fromDate, toDate: date, reason: 'Forecast cleared' };
+    }
+  }
+
+  return null;
+}
+
+function describeDecision(decision: RescheduleDecision): string {
+  if (decision.action === 'hold') {
+    return `Weather hold: no workable day in forecast (${decision.reason})`;
+  }
+  return decision.toDate === decision.fromDate
+    ? `Weather hold lifted for ${decision.toDate} (${decision.reason})`
+    : `Weather reschedule: moved from ${decision.fromDate} to ${decision.toDate} (${decision.reason})`;
+}
+
+// ============================================================================
+// RUN
+// ============================================================================
+
+/**
+ * Recheck every scheduled job in the forecast window for an org, and look
+ * for a workable day for jobs on weather hold. Called daily by the worker,
+ * which passes its own weather API key.
+ */
+export async function runWeatherReschedule(
+  orgId: string,
+  options: { apiKey: string; mode: WeatherRescheduleMode; today?: string }
+): Promise<WeatherRescheduleResult> {
+  const today = options.today ?? formatDay(new Date());
+  const lastDay = addDays(today, RESCHEDULE_HORIZON_DAYS - 1);
+
+  const [upcoming, held] = await Promise.all([
+    supabase
+      .from('jobs')
+      .select('*')
+      .eq('org_id', orgId)
+      .eq('status', 'scheduled')
+      .gte('scheduled_date', today)
+      .lte('scheduled_date', lastDay)
+      .order('scheduled_date'),
+    // Held jobs keep their original date, which may already have passed
+    supabase
+      .from('jobs')
+      .select('*')
+      .eq('org_id', orgId)
+      .eq('status', 'weather_hold')
+      .lte('scheduled_date', lastDay)
+      .order('scheduled_date'),
+  ]);
+
+  if (upcoming.error) throw upcoming.error;
+  if (held.error) throw held.error;
+
+  // Scheduled jobs go first so their moves claim crew days ahead of held jobs
+  const jobs = [...(upcoming.data || []), ...(held.data || [])] as Job[];
+
+  const openSuggestions = await getOpenSuggestionsByJob(orgId);
+  const forecasts = new Map<string, WeatherForecast[]>();
+  // Crew days claimed by moves earlier in this run, before they hit the table
+  const claimed = new Set<string>();
+  const result: WeatherRescheduleResult = { checked: 0, skipped: 0, suggestions: [] };
+
+  for (const job of jobs) {
+    let { latitude, longitude } = job;
+
+    if (latitude == null || longitude == null) {
+      const address = [job.address, job.city, job.state, job.zip].filter(Boolean).join(', ');
+      const coords = address ? await geocodeAddress(address, options.apiKey) : null;
+      if (!coords) {
+        result.skipped++;
+        continue;
+      }
+      latitude = coords.lat;
+      longitude = coords.lon;
+      await updateJob(job.id, { latitude, longitude });
+    }
+
+    // Nearby jobs share a forecast (two decimals is roughly 1km)
+    const locationKey = `${latitude.toFixed(2)},${longitude.toFixed(2)}`;
+    let forecast = forecasts.get(locationKey);
+    if (!forecast) {
+      forecast = await getWeatherForecast(latitude, longitude, RESCHEDULE_HORIZON_DAYS + 1, {
+        apiKey: options.apiKey,
+        fallbackToMock: false,
+      });
+      forecasts.set(locationKey, forecast);
+    }
+
+    result.checked++;
+    const open = openSuggestions.get(job.id);
+
+    const isCrewFree = async (date: string) => {
+      if (!job.crew_id) return true;
+      if (claimed.has(`${job.crew_id}:${date}`)) return false;
+      const { available } = await checkCrewAvailability(job.crew_id, date, job.id);
+      return available;
+    };
+
+    const decision =
+      job.status === 'weather_hold'
+        ? await planHeldJobReturn(job, forecast, isCrewFree, today)
+        : await planJobReschedule(job, forecast, isCrewFree);
+
+    if (!decision) {
+      // Scheduled: the weather cleared up since the last run.
+      // Held: still no workable day, so the job stays on hold.
+      if (open) await resolveSuggestion(open.id, 'expired');
+      continue;
+    }
+
+    if (decision.action === 'move' && job.crew_id) {
+      claimed.add(`${job.crew_id}:${decision.toDate}`);
+    }
+
+    if (options.mode === 'apply') {
+      await applyDecision(job.id, decision);
+      if (open) await resolveSuggestion(open.id, 'expired');
+      result.suggestions.push(await recordSuggestion(orgId, job.id, decision, 'applied'));
+      continue;
+    }
+
+    if (open && open.action === decision.action && open.proposed_date === decision.toDate) {
+      continue;
+    }
+    if (open) await resolveSuggestion(open.id, 'expired');
+    result.suggestions.push(await recordSuggestion(orgId, job.id, decision, 'proposed'));
+  }
+
+  return result;
+}
+
+async function applyDecision(jobId: string, decision: RescheduleDecision): Promise<Job> {
+  if (decision.action === 'hold') {
+    return weatherHoldJob(jobId, describeDecision(decision));
+  }
+  // A move also takes a held job off hold
+  return updateJob(jobId, {
+    status: 'scheduled',
+    scheduled_date: decision.toDate!,
+    weather_suitable: true,
+    weather_notes: describeDecision(decision),
+  });
+}
+
+// ============================================================================
+// SUGGESTIONS
+// ============================================================================
+
+async function recordSuggestion(
+  orgId: string,
+  jobId: string,
+  decision: RescheduleDecision,
+  status: 'proposed' | 'applied'
+): Promise<RescheduleSuggestion> {
+  const { data, error } = await supabase
+    .from('job_reschedule_suggestions')
+    .insert({
+      org_id: orgId,
+      job_id: jobId,
+      action: decision.action,
+      original_date: decision.fromDate,
+      proposed_date: decision.toDate,
+      reason: decision.reason,
+      status,
+      resolved_at: status === 'applied' ? new Date().toISOString() : null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+async function resolveSuggestion(
+  id: string,
+  status: Exclude<RescheduleSuggestionStatus, 'proposed'>,
+  userId?: string
+): Promise<RescheduleSuggestion> {
+  const { data, error } = await supabase
+    .from('job_reschedule_suggestions')
+    .update({
+      status,
+      resolved_by: userId || null,
+      resolved_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+async function getOpenSuggestionsByJob(orgId: string): Promise<Map<string, RescheduleSuggestion>> {
+  const { data, error } = await supabase
+    .from('job_reschedule_suggestions')
+    .select('*')
+    .eq('org_id', orgId)
+    .eq('status', 'proposed');
+
+  if (error) throw error;
+  return new Map((data || []).map((s: RescheduleSuggestion) => [s.job_id, s]));
+}
+
+// Get suggestions awaiting a dispatcher
+export async function getRescheduleSuggestions(orgId: string): Promise<RescheduleSuggestionWithJob[]> {
+  const { data, error } = await supabase
+    .from('job_reschedule_suggestions')
+    .select(`
+      *,
+      job:jobs(id, title, address, city, crew_id, contact_id, scheduled_date, status)
+    `)
+    .eq('org_id', orgId)
+    .eq('status', 'proposed')
+    .order('original_date');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getRescheduleSuggestion(id: string): Promise<RescheduleSuggestion | null> {
+  const { data, error } = await supabase
+    .from('job_reschedule_suggestions')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return null;
+    throw error;
+  }
+  return data;
+}
+
+/**
+ * Apply a proposed move or hold. Fails if the job has since been moved or
+ * started, so a stale suggestion cannot clobber a dispatcher's change.
+ */
+export async function acceptRescheduleSuggestion(id: string, userId?: string): Promise<RescheduleSuggestion> {
+  const suggestion = await getRescheduleSuggestion(id);
+  if (!suggestion || suggestion.status !== 'proposed') {
+    throw new Error('Suggestion is no longer open');
+  }
+
+  const { data, error } = await supabase
+    .from('jobs')
+    .select('scheduled_date, status')
+    .eq('id', suggestion.job_id)
+    .single();
+
+  if (error) throw error;
+  const job = data as Pick<Job, 'scheduled_date' | 'status'>;
+  const plannable = job.status === 'scheduled' || job.status === 'weather_hold';
+  if (!plannable || job.scheduled_date !== suggestion.original_date) {
+    await resolveSuggestion(id, 'expired', userId);
+    throw new Error('Job has changed since this suggestion was made');
+  }
+
+  await applyDecision(suggestion.job_id, {
+    action: suggestion.action,
+    fromDate: suggestion.original_date,
+    toDate: suggestion.proposed_date,
+    reason: suggestion.reason,
+  });
+  return resolveSuggestion(id, 'accepted', userId);
+}
+
+export async function dismissRescheduleSuggestion(id: string, userId?: string): Promise<RescheduleSuggestion> {
+  return resolveSuggestion(id, 'dismissed', userId);
+}
+
+export async function markSuggestionNotified(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('job_reschedule_suggestions')
+    .update({ notified_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+/**
+ * Ask the worker to email the client and text the crew about an accepted
+ * suggestion
+ */
+export async function requestRescheduleNotification(id: string): Promise<void> {
+  const apiUrl = import.meta.env?.VITE_API_URL || '';
+  const response = await fetch(`${apiUrl}/api/jobs/reschedule-notify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await getApiAuthHeaders()) },
+    body: JSON.stringify({ suggestionId: id }),
+  });
+
+  if (!response.ok) throw new Error('Failed to send reschedule notifications');
+}
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+export async function getWeatherRescheduleMode(orgId: string): Promise<WeatherRescheduleMode> {
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('weather_reschedule_mode')
+    .eq('id', orgId)
+    .single();
+
+  if (error) throw error;
+  const org = data as { weather_reschedule_mode: WeatherRescheduleMode | null } | null;
+  return org?.weather_reschedule_mode || 'propose';
+}
+
+export async function setWeatherRescheduleMode(orgId: string, mode: WeatherRescheduleMode): Promise<void> {
+  const { error } = await supabase
+    .from('organizations')
+    .update({ weather_reschedule_mode: mode })
+    .eq('id', orgId);
+
+  if (error) throw error;
+}
+
+export default {
+  planJobReschedule,
+  planHeldJobReturn,
+  runWeatherReschedule,
+  getRescheduleSuggestions,
+  getRescheduleSuggestion,
+  acceptRescheduleSuggestion,
+  dismissRescheduleSuggestion,
+  markSuggestionNotified,
+  requestRescheduleNotification,
+  getWeatherRescheduleMode,
+  setWeatherRescheduleMode,
+};
@@ -3,17 +3,18 @@
  * Database connection and helper functions
  */
 
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from './database.types';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+// import.meta.env is only defined under Vite; the worker bundle has no env here
+const supabaseUrl = import.meta.env?.VITE_SUPABASE_URL;
+const supabaseAnonKey = import.meta.env?.VITE_SUPABASE_ANON_KEY;
 
 if (!supabaseUrl || !supabaseAnonKey) {
   console.warn('Supabase credentials not configured. Database features disabled.');
 }
 
-export const supabase = createClient<Database>(
+export let supabase: SupabaseClient<Database> = createClient<Database>(
   supabaseUrl || 'https://placeholder.supabase.co',
   supabaseAnonKey || 'placeholder-key',
   {
@@ -30,6 +31,15 @@ export const supabase = createClient<Database>(
   }
 );
 
+/**
+ * Replace the shared client used by every lib service.
+ * The Cloudflare worker calls this with a service-role client so the same
+ * services can run server-side.
+ */
+export function setSupabaseClient(client: SupabaseClient<Database>): void {
+  supabase = client;
+}
+
 // ============================================================================
 // STORAGE HELPERS
 // ============================================================================
@@ -42,28 +52,42 @@ export const STORAGE_BUCKETS = {
   DOCUMENTS: 'documents',
 } as const;
 
+/**
+ * Upload a file and return its public URL, or null if the upload failed.
+ * The bytes count against the org's storage quota; past a hard limit the
+ * upload is refused with a QuotaExceededError.
+ */
 export async function uploadFile(
+  orgId: string,
   bucket: keyof typeof STORAGE_BUCKETS,
   path: string,
   file: File
 ): Promise<string | null> {
-  const { data, error } = await supabase.storage
-    .from(STORAGE_BUCKETS[bucket])
-    .upload(path, file, {
-      cacheControl: '3600',
-      upsert: false,
-    });
-
-  if (error) {
+  // Loaded on demand: the usage service itself imports this module
+  const { usageService, QuotaExceededError } = await import('./usage/usageService');
+
+  try {
+    return await usageService.meter(orgId, 'upload_storage', async () => {
+      const { data, error } = await supabase.storage
+        .from(STORAGE_BUCKETS[bucket])
+        .upload(path, file, {
+          cacheControl: '3600',
+          upsert: false,
+        });
+
+      if (error) throw error;
+
+      const { data: urlData } = supabase.storage
+        .from(STORAGE_BUCKETS[bucket])
+        .getPublicUrl(data.path);
+
+      return urlData.publicUrl;
+    }, { quantity: file.size, metadata: { filename: file.name, contentType: file.type } });
+  } catch (error) {
+    if (error instanceof QuotaExceededError) throw error;
     console.error('Upload error:', error);
     return null;
   }
-
-  const { data: urlData } = supabase.storage
-    .from(STORAGE_BUCKETS[bucket])
-    .getPublicUrl(data.path);
-
-  return urlData.publicUrl;
 }
 
 export async function deleteFile(
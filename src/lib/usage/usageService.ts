@@ -4,7 +4,13 @@
  */
 
 import { supabase } from '../supabase';
-import { entitlementsService, type PlanLimits } from '../entitlements/entitlementsService';
+import {
+  entitlementsService,
+  type OverageUnit,
+  type Plan,
+  type PlanLimits,
+} from '../entitlements/entitlementsService';
+import { createNotification } from '../notifications/notificationsService';
 
 // ============================================================================
 // TYPES
@@ -48,6 +54,8 @@ export interface CurrentUsage {
   proposalsThisMonth: number;
   aiCallsThisMonth: number;
   emailsThisMonth: number;
+  smsThisMonth: number;
+  apiCallsThisMonth: number;
   storageUsedBytes: number;
   teamMembersCount: number;
   periodStart: string;
@@ -60,16 +68,118 @@ export interface QuotaStatus {
   percentUsed: number;
   isUnlimited: boolean;
   isExceeded: boolean;
+  /** At or past SOFT_LIMIT_PERCENT of the limit */
+  isNearLimit: boolean;
 }
 
 export interface UsageSummary {
   proposals: QuotaStatus;
   aiCalls: QuotaStatus;
   emails: QuotaStatus;
+  sms: QuotaStatus;
+  apiCalls: QuotaStatus;
   storage: QuotaStatus;
   teamMembers: QuotaStatus;
 }
 
+export type QuotaKey = keyof UsageSummary;
+
+/** Actions that count against a plan quota */
+export type MeteredAction =
+  | 'create_proposal'
+  | 'call_ai'
+  | 'send_email'
+  | 'send_sms'
+  | 'upload_storage'
+  | 'api_call'
+  | 'add_team_member';
+
+/**
+ * ok: well within the limit
+ * soft_limit: allowed, but the org is close to its limit
+ * overage: past the limit, allowed and billed on plans with metered overage
+ * hard_limit: blocked
+ */
+export type QuotaLevel = 'ok' | 'soft_limit' | 'overage' | 'hard_limit';
+
+export interface UpgradeOption {
+  planId: string;
+  displayName: string;
+  priceMonthly: number;
+  /** The plan's limit for the quota that was hit; -1 is unlimited */
+  limit: number;
+}
+
+export interface QuotaCheck {
+  action: MeteredAction;
+  quota: QuotaKey;
+  level: QuotaLevel;
+  allowed: boolean;
+  status: QuotaStatus;
+  /** How much of this request goes past the limit, in quota units (MB for storage) */
+  overageQuantity: number;
+  /** Usage this request may not take the quota past; null when nothing blocks it (comped, unlimited or overage) */
+  hardLimit: number | null;
+  reason?: string;
+  upgrade?: string;
+  upgradeOptions: UpgradeOption[];
+}
+
+export interface OverageEvent {
+  orgId: string;
+  action: MeteredAction;
+  eventType: UsageEventType;
+  quota: QuotaKey;
+  quantity: number;
+  limit: number;
+  usedBefore: number;
+  timestamp: string;
+}
+
+export type OverageHandler = (event: OverageEvent) => Promise<void> | void;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Percent of a quota at which orgs are warned they are running out */
+export const SOFT_LIMIT_PERCENT = 80;
+
+const BYTES_PER_MB = 1024 * 1024;
+
+/** Tries at reserving quota; a reservation lost to a concurrent request is re-checked */
+const MAX_RESERVE_ATTEMPTS = 3;
+
+/** usage_current column each event type counts toward */
+const USAGE_FIELDS: Partial<Record<UsageEventType, string>> = {
+  proposal_created: 'proposals_this_month',
+  proposal_sent: 'proposals_this_month',
+  ai_call: 'ai_calls_this_month',
+  email_sent: 'emails_this_month',
+  sms_sent: 'sms_this_month',
+  api_call: 'api_calls_this_month',
+  team_member_added: 'team_members_count',
+  team_member_removed: 'team_members_count',
+  storage_upload: 'storage_used_bytes',
+  storage_delete: 'storage_used_bytes',
+};
+
+export const METERED_ACTIONS: Record<
+  MeteredAction,
+  { eventType: UsageEventType; quota: QuotaKey; label: string; overageUnit: OverageUnit | null }
+> = {
+  create_proposal: { eventType: 'proposal_created', quota: 'proposals', label: 'proposals', overageUnit: 'proposals' },
+  call_ai: { eventType: 'ai_call', quota: 'aiCalls', label: 'AI calls', overageUnit: 'aiCalls' },
+  send_email: { eventType: 'email_sent', quota: 'emails', label: 'emails', overageUnit: 'emails' },
+  send_sms: { eventType: 'sms_sent', quota: 'sms', label: 'text messages', overageUnit: 'sms' },
+  api_call: { eventType: 'api_call', quota: 'apiCalls', label: 'API calls', overageUnit: 'apiCalls' },
+  // Storage is metered in bytes against a limit in MB; seats are never billed as overage
+  upload_storage: { eventType: 'storage_upload', quota: 'storage', label: 'MB of storage', overageUnit: 'storageGb' },
+  add_team_member: { eventType: 'team_member_added', quota: 'teamMembers', label: 'team members', overageUnit: null },
+};
+
+const overageHandlers: OverageHandler[] = [];
+
 // ============================================================================
 // USAGE SERVICE
 // ============================================================================
@@ -91,16 +201,7 @@ export const usageService = {
       metadata?: Record<string, unknown>;
     }
   ): Promise<void> {
-    const { error } = await supabase.from('usage_events').insert({
-      org_id: orgId,
-      user_id: options?.userId,
-      event_type: eventType,
-      quantity: options?.quantity ?? 1,
-      metadata: options?.metadata ?? {},
-      timestamp: new Date().toISOString(),
-    });
-
-    if (error) throw error;
+    await insertUsageEvent(orgId, eventType, options);
 
     // Update current usage snapshot
     await this.updateCurrentUsage(orgId, eventType, options?.quantity ?? 1);
@@ -181,6 +282,8 @@ export const usageService = {
           proposals_this_month: 0,
           ai_calls_this_month: 0,
           emails_this_month: 0,
+          sms_this_month: 0,
+          api_calls_this_month: 0,
           storage_used_bytes: 0,
           team_members_count: 1,
           period_start: periodStart.toISOString().split('T')[0],
@@ -211,6 +314,8 @@ export const usageService = {
         proposals_this_month: 0,
         ai_calls_this_month: 0,
         emails_this_month: 0,
+        sms_this_month: 0,
+        api_calls_this_month: 0,
         // Note: storage is NOT reset
         period_start: periodStart.toISOString().split('T')[0],
         updated_at: new Date().toISOString(),
@@ -231,19 +336,7 @@ export const usageService = {
     eventType: UsageEventType,
     quantity: number
   ): Promise<void> {
-    // Map event types to usage fields
-    const fieldMap: Record<string, string> = {
-      proposal_created: 'proposals_this_month',
-      proposal_sent: 'proposals_this_month',
-      ai_call: 'ai_calls_this_month',
-      email_sent: 'emails_this_month',
-      team_member_added: 'team_members_count',
-      team_member_removed: 'team_members_count',
-      storage_upload: 'storage_used_bytes',
-      storage_delete: 'storage_used_bytes',
-    };
-
-    const field = fieldMap[eventType];
+    const field = USAGE_FIELDS[eventType];
     if (!field) return;
 
     // Special handling for storage (bytes) and team members
@@ -291,28 +384,72 @@ export const usageService = {
       entitlementsService.getLimits(orgId),
     ]);
 
-    return {
-      proposals: calculateQuotaStatus(
-        usage.proposalsThisMonth,
-        limits.proposalsPerMonth
-      ),
-      aiCalls: calculateQuotaStatus(
-        usage.aiCallsThisMonth,
-        limits.aiCallsPerMonth
-      ),
-      emails: calculateQuotaStatus(
-        usage.emailsThisMonth,
-        limits.proposalsPerMonth * 10 // Emails based on proposals
-      ),
-      storage: calculateQuotaStatus(
-        usage.storageUsedBytes / (1024 * 1024), // Convert to MB
-        limits.storageMb
-      ),
-      teamMembers: calculateQuotaStatus(
-        usage.teamMembersCount,
-        limits.teamMembers
-      ),
+    return buildUsageSummary(usage, limits);
+  },
+
+  /**
+   * Check a metered action against the org's plan.
+   * Comped orgs and unlimited quotas are always allowed; past the limit the
+   * action is either billed as overage or blocked with upgrade options.
+   */
+  async checkQuota(
+    orgId: string,
+    action: MeteredAction,
+    quantity: number = 1
+  ): Promise<QuotaCheck> {
+    const meter = METERED_ACTIONS[action];
+    const [isComped, usage, plan] = await Promise.all([
+      entitlementsService.isComped(orgId),
+      this.getCurrentUsage(orgId),
+      entitlementsService.getEffectivePlan(orgId),
+    ]);
+
+    const status = buildUsageSummary(usage, plan.limits)[meter.quota];
+    const check: QuotaCheck = {
+      action,
+      quota: meter.quota,
+      level: 'ok',
+      allowed: true,
+      status,
+      overageQuantity: 0,
+      hardLimit: status.limit,
+      upgradeOptions: [],
     };
+
+    if (isComped || status.isUnlimited) {
+      check.hardLimit = null;
+      return check;
+    }
+
+    const after = status.used + toQuotaUnits(action, quantity);
+
+    if (after > status.limit) {
+      // Overage needs both the feature and a price for the unit on the org's plan
+      const priced = meter.overageUnit !== null && !!plan.overagePrices[meter.overageUnit];
+      if (priced && (await entitlementsService.hasFeature(orgId, 'metered_overage'))) {
+        check.level = 'overage';
+        check.hardLimit = null;
+        check.overageQuantity = after - Math.max(status.used, status.limit);
+        check.reason = `You're past your ${status.limit.toLocaleString()} ${meter.label} this month; extra use is billed as overage`;
+        return check;
+      }
+
+      check.level = 'hard_limit';
+      check.allowed = false;
+      check.reason = `You've reached your limit of ${status.limit.toLocaleString()} ${meter.label} this month`;
+      check.upgradeOptions = await getUpgradeOptions(plan, meter.quota);
+      check.upgrade = describeUpgrade(check.upgradeOptions, meter.label);
+      return check;
+    }
+
+    if ((after / status.limit) * 100 >= SOFT_LIMIT_PERCENT) {
+      check.level = 'soft_limit';
+      check.reason = `You've used ${Math.round(after).toLocaleString()} of ${status.limit.toLocaleString()} ${meter.label} this month`;
+      check.upgradeOptions = await getUpgradeOptions(plan, meter.quota);
+      check.upgrade = describeUpgrade(check.upgradeOptions, meter.label);
+    }
+
+    return check;
   },
 
   /**
@@ -320,56 +457,201 @@ export const usageService = {
    */
   async canPerformAction(
     orgId: string,
-    action: 'create_proposal' | 'call_ai' | 'send_email' | 'add_team_member' | 'upload_storage',
+    action: MeteredAction,
     quantity: number = 1
   ): Promise<{ allowed: boolean; reason?: string; upgrade?: string }> {
-    // Comped orgs bypass all quotas
-    const isComped = await entitlementsService.isComped(orgId);
-    if (isComped) {
-      return { allowed: true };
+    const check = await this.checkQuota(orgId, action, quantity);
+    return { allowed: check.allowed, reason: check.reason, upgrade: check.upgrade };
+  },
+
+  /**
+   * Check quota before performing action (throws if exceeded)
+   */
+  async enforceQuota(
+    orgId: string,
+    action: MeteredAction,
+    quantity: number = 1
+  ): Promise<QuotaCheck> {
+    const check = await this.checkQuota(orgId, action, quantity);
+    if (!check.allowed) {
+      throw new QuotaExceededError(check.reason!, check.upgrade, check);
+    }
+    return check;
+  },
+
+  /**
+   * Enforce the quota and take the units in one statement, so concurrent
+   * requests can't all pass the check on the last unit. Throws like
+   * enforceQuota; the units are counted until releaseQuota gives them back.
+   */
+  async reserveQuota(
+    orgId: string,
+    action: MeteredAction,
+    quantity: number = 1
+  ): Promise<QuotaCheck> {
+    const field = USAGE_FIELDS[METERED_ACTIONS[action].eventType]!;
+
+    for (let attempt = 1; ; attempt++) {
+      const check = await this.enforceQuota(orgId, action, quantity);
+      const { data, error } = await supabase.rpc('reserve_usage', {
+        p_org_id: orgId,
+        p_field: field,
+        p_amount: quantity,
+        p_limit: check.hardLimit === null ? null : fromQuotaUnits(action, check.hardLimit),
+      });
+
+      if (error) throw error;
+      if (data === true) return check;
+
+      // Another request took the last units; checking again blocks or bills overage
+      if (attempt === MAX_RESERVE_ATTEMPTS) {
+        const meter = METERED_ACTIONS[action];
+        throw new QuotaExceededError(
+          `You've reached your limit of ${check.status.limit.toLocaleString()} ${meter.label} this month`,
+          check.upgrade,
+          check
+        );
+      }
     }
+  },
 
-    const summary = await this.getUsageSummary(orgId);
+  /**
+   * Give back units taken by reserveQuota for an action that didn't happen
+   */
+  async releaseQuota(
+    orgId: string,
+    action: MeteredAction,
+    quantity: number = 1
+  ): Promise<void> {
+    const { error } = await supabase.rpc('release_usage', {
+      p_org_id: orgId,
+      p_field: USAGE_FIELDS[METERED_ACTIONS[action].eventType]!,
+      p_amount: quantity,
+    });
 
-    const actionMap: Record<string, keyof UsageSummary> = {
-      create_proposal: 'proposals',
-      call_ai: 'aiCalls',
-      send_email: 'emails',
-      add_team_member: 'teamMembers',
-      upload_storage: 'storage',
-    };
+    if (error) throw error;
+  },
 
-    const quotaKey = actionMap[action];
-    if (!quotaKey) return { allowed: true };
+  // --------------------------------------------------------------------------
+  // Metering
+  // --------------------------------------------------------------------------
 
-    const quota = summary[quotaKey];
-    if (quota.isUnlimited) return { allowed: true };
+  /**
+   * Run a metered action: reserve the quota, do the work, then record the
+   * usage. Every metered action goes through here so limits cannot be
+   * skipped by a call site that forgets to check.
+   *
+   * Quantity is in the action's own unit (bytes for uploads). The units are
+   * given back if the work throws. Recording the event happens after the
+   * work succeeds and never fails the action itself.
+   */
+  async meter<T>(
+    orgId: string,
+    action: MeteredAction,
+    run: (check: QuotaCheck) => Promise<T>,
+    options?: {
+      quantity?: number;
+      userId?: string;
+      metadata?: Record<string, unknown>;
+    }
+  ): Promise<T> {
+    const quantity = options?.quantity ?? 1;
+    const check = await this.reserveQuota(orgId, action, quantity);
+
+    let result: T;
+    try {
+      result = await run(check);
+    } catch (err) {
+      await this.releaseQuota(orgId, action, quantity).catch((releaseErr) =>
+        console.error(`Failed to release ${action} quota for org ${orgId}:`, releaseErr));
+      throw err;
+    }
 
-    if (quota.remaining < quantity) {
-      return {
-        allowed: false,
-        reason: `You've reached your ${quotaKey} limit for this month`,
-        upgrade: 'Upgrade your plan for higher limits',
-      };
+    try {
+      await this.recordMeteredUsage(orgId, check, quantity, { ...options, reserved: true });
+    } catch (err) {
+      console.error(`Failed to record ${action} usage for org ${orgId}:`, err);
     }
 
-    return { allowed: true };
+    return result;
   },
 
   /**
-   * Check quota before performing action (throws if exceeded)
+   * Track a metered action that already happened and follow up on the
+   * quota: notify on crossing the soft or hard limit, and hand overage to
+   * the billing hooks. Pass reserved when reserveQuota already counted it.
    */
-  async enforceQuota(
+  async recordMeteredUsage(
     orgId: string,
-    action: 'create_proposal' | 'call_ai' | 'send_email' | 'add_team_member' | 'upload_storage',
-    quantity: number = 1
+    check: QuotaCheck,
+    quantity: number,
+    options?: { userId?: string; metadata?: Record<string, unknown>; reserved?: boolean }
   ): Promise<void> {
-    const result = await this.canPerformAction(orgId, action, quantity);
-    if (!result.allowed) {
-      throw new QuotaExceededError(result.reason!, result.upgrade);
+    const meter = METERED_ACTIONS[check.action];
+    const event = {
+      userId: options?.userId,
+      quantity,
+      metadata: check.overageQuantity > 0
+        ? { ...options?.metadata, overage: check.overageQuantity }
+        : options?.metadata,
+    };
+
+    if (options?.reserved) {
+      await insertUsageEvent(orgId, meter.eventType, event);
+    } else {
+      await this.trackEvent(orgId, meter.eventType, event);
+    }
+
+    const { status } = check;
+    if (status.isUnlimited) return;
+
+    const after = status.used + toQuotaUnits(check.action, quantity);
+    const softLimit = (status.limit * SOFT_LIMIT_PERCENT) / 100;
+
+    if (status.used < status.limit && after >= status.limit) {
+      await notifyQuota(orgId, `${capitalize(meter.label)} limit reached`,
+        check.level === 'overage'
+          ? `You've used all ${status.limit.toLocaleString()} ${meter.label} in your plan this month. Further use is billed as overage.`
+          : `You've used all ${status.limit.toLocaleString()} ${meter.label} in your plan this month. Upgrade to keep going.`);
+    } else if (status.used < softLimit && after >= softLimit) {
+      await notifyQuota(orgId, `Running low on ${meter.label}`,
+        `You've used ${Math.round(after).toLocaleString()} of ${status.limit.toLocaleString()} ${meter.label} this month.`);
+    }
+
+    if (check.overageQuantity > 0) {
+      const event: OverageEvent = {
+        orgId,
+        action: check.action,
+        eventType: meter.eventType,
+        quota: check.quota,
+        quantity: check.overageQuantity,
+        limit: status.limit,
+        usedBefore: status.used,
+        timestamp: new Date().toISOString(),
+      };
+
+      for (const handler of overageHandlers) {
+        try {
+          await handler(event);
+        } catch (err) {
+          console.error(`Overage handler failed for org ${orgId}:`, err);
+        }
+      }
     }
   },
 
+  /**
+   * Register a billing hook, called each time metered usage goes past a
+   * limit on a plan with metered overage. Returns a function that removes it.
+   */
+  onOverage(handler: OverageHandler): () => void {
+    overageHandlers.push(handler);
+    return () => {
+      const index = overageHandlers.indexOf(handler);
+      if (index >= 0) overageHandlers.splice(index, 1);
+    };
+  },
+
   // --------------------------------------------------------------------------
   // Historical Usage
   // --------------------------------------------------------------------------
@@ -449,18 +731,21 @@ export const usageService = {
    */
   async archiveMonthlyUsage(orgId: string): Promise<void> {
     // This would typically be run by a scheduled job
-    const { data: current } = await supabase
+    const { data } = await supabase
       .from('usage_current')
       .select('*')
       .eq('org_id', orgId)
       .single();
 
+    const current = data as Record<string, number> | null;
     if (!current) return;
 
     const rollups = [
       { type: 'proposal_created', quantity: current.proposals_this_month },
       { type: 'ai_call', quantity: current.ai_calls_this_month },
       { type: 'email_sent', quantity: current.emails_this_month },
+      { type: 'sms_sent', quantity: current.sms_this_month },
+      { type: 'api_call', quantity: current.api_calls_this_month },
     ];
 
     for (const rollup of rollups) {
@@ -530,11 +815,13 @@ export const usageService = {
 
 export class QuotaExceededError extends Error {
   public upgradeMessage?: string;
+  public check?: QuotaCheck;
 
-  constructor(message: string, upgradeMessage?: string) {
+  constructor(message: string, upgradeMessage?: string, check?: QuotaCheck) {
     super(message);
     this.name = 'QuotaExceededError';
     this.upgradeMessage = upgradeMessage;
+    this.check = check;
   }
 }
 
@@ -545,7 +832,7 @@ export class QuotaExceededError extends Error {
 function calculateQuotaStatus(used: number, limit: number): QuotaStatus {
   const isUnlimited = limit === -1;
   const remaining = isUnlimited ? Infinity : Math.max(0, limit - used);
-  const percentUsed = isUnlimited ? 0 : (used / limit) * 100;
+  const percentUsed = isUnlimited ? 0 : limit > 0 ? (used / limit) * 100 : 100;
 
   return {
     limit,
@@ -554,14 +841,114 @@ function calculateQuotaStatus(used: number, limit: number): QuotaStatus {
     percentUsed: Math.min(100, percentUsed),
     isUnlimited,
     isExceeded: !isUnlimited && used >= limit,
+    isNearLimit: !isUnlimited && percentUsed >= SOFT_LIMIT_PERCENT,
+  };
+}
+
+function buildUsageSummary(usage: CurrentUsage, limits: PlanLimits): UsageSummary {
+  return {
+    proposals: calculateQuotaStatus(usage.proposalsThisMonth, limits.proposalsPerMonth),
+    aiCalls: calculateQuotaStatus(usage.aiCallsThisMonth, limits.aiCallsPerMonth),
+    emails: calculateQuotaStatus(usage.emailsThisMonth, getQuotaLimit(limits, 'emails')),
+    sms: calculateQuotaStatus(usage.smsThisMonth, getQuotaLimit(limits, 'sms')),
+    apiCalls: calculateQuotaStatus(usage.apiCallsThisMonth, getQuotaLimit(limits, 'apiCalls')),
+    storage: calculateQuotaStatus(usage.storageUsedBytes / BYTES_PER_MB, limits.storageMb),
+    teamMembers: calculateQuotaStatus(usage.teamMembersCount, limits.teamMembers),
   };
 }
 
+/** A plan's limit for one quota; -1 is unlimited */
+function getQuotaLimit(limits: PlanLimits, quota: QuotaKey): number {
+  // Plans that predate the email, SMS and API limits get allowances scaled from proposals
+  const scaled = (factor: number) =>
+    limits.proposalsPerMonth === -1 ? -1 : limits.proposalsPerMonth * factor;
+
+  switch (quota) {
+    case 'proposals':
+      return limits.proposalsPerMonth;
+    case 'aiCalls':
+      return limits.aiCallsPerMonth;
+    case 'emails':
+      return limits.emailsPerMonth ?? scaled(10);
+    case 'sms':
+      return limits.smsPerMonth ?? scaled(5);
+    case 'apiCalls':
+      return limits.apiCallsPerMonth ?? scaled(100);
+    case 'storage':
+      return limits.storageMb;
+    case 'teamMembers':
+      return limits.teamMembers;
+  }
+}
+
+function toQuotaUnits(action: MeteredAction, quantity: number): number {
+  return action === 'upload_storage' ? quantity / BYTES_PER_MB : quantity;
+}
+
+function fromQuotaUnits(action: MeteredAction, units: number): number {
+  return action === 'upload_storage' ? Math.floor(units * BYTES_PER_MB) : units;
+}
+
+async function insertUsageEvent(
+  orgId: string,
+  eventType: UsageEventType,
+  options?: { userId?: string; quantity?: number; metadata?: Record<string, unknown> }
+): Promise<void> {
+  const { error } = await supabase.from('usage_events').insert({
+    org_id: orgId,
+    user_id: options?.userId,
+    event_type: eventType,
+    quantity: options?.quantity ?? 1,
+    metadata: options?.metadata ?? {},
+    timestamp: new Date().toISOString(),
+  });
+
+  if (error) throw error;
+}
+
+/** Higher plans that raise the given quota, cheapest first */
+async function getUpgradeOptions(plan: Plan, quota: QuotaKey): Promise<UpgradeOption[]> {
+  const currentLimit = getQuotaLimit(plan.limits, quota);
+  const plans = await entitlementsService.getUpgradeOptions(plan.id);
+
+  return plans
+    .map((option) => ({
+      planId: option.id,
+      displayName: option.displayName,
+      priceMonthly: option.priceMonthly,
+      limit: getQuotaLimit(option.limits, quota),
+    }))
+    .filter((option) => option.limit === -1 || option.limit > currentLimit);
+}
+
+function describeUpgrade(options: UpgradeOption[], label: string): string {
+  const next = options[0];
+  if (!next) return 'Contact us to raise your limits';
+  return next.limit === -1
+    ? `Upgrade to ${next.displayName} for unlimited ${label}`
+    : `Upgrade to ${next.displayName} for ${next.limit.toLocaleString()} ${label} a month`;
+}
+
+async function notifyQuota(orgId: string, title: string, message: string): Promise<void> {
+  await createNotification(orgId, {
+    type: 'usage_quota',
+    title,
+    message,
+    link: '/settings/billing',
+  });
+}
+
+function capitalize(str: string): string {
+  return str.charAt(0).toUpperCase() + str.slice(1);
+}
+
 function transformCurrentUsage(row: Record<string, unknown>): CurrentUsage {
   return {
     proposalsThisMonth: row.proposals_this_month as number,
     aiCallsThisMonth: row.ai_calls_this_month as number,
     emailsThisMonth: row.emails_this_month as number,
+    smsThisMonth: (row.sms_this_month as number) ?? 0,
+    apiCallsThisMonth: (row.api_calls_this_month as number) ?? 0,
     storageUsedBytes: row.storage_used_bytes as number,
     teamMembersCount: row.team_members_count as number,
     periodStart: row.period_start as string,
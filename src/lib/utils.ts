@@ -41,125 +41,15 @@ export function generateInvoiceNumber(): string {
 // PRICING CONSTANTS
 // ============================================================================
 
-export const TIER_MULTIPLIERS = {
-  economy: 0.85,
-  standard: 1.0,
-  premium: 1.35,
-} as const;
-
-export const CONDITION_MULTIPLIERS = {
-  good: 1.0,
-  fair: 1.15,
-  poor: 1.3,
-} as const;
-
-export const URGENCY_MULTIPLIERS = {
-  standard: 1.0,
-  priority: 1.15,
-  emergency: 1.35,
-} as const;
-
-export const DEFAULT_PRICING = {
-  sealcoating: {
-    min: 0.15,
-    max: 0.35,
-    default: 0.22,
-    unit: 'sq ft',
-  },
-  crackFilling: {
-    min: 1.0,
-    max: 3.0,
-    default: 1.75,
-    unit: 'LF',
-  },
-  pothole: {
-    min: 60,
-    max: 150,
-    default: 85,
-    unit: 'each',
-  },
-  striping: {
-    min: 4,
-    max: 7,
-    default: 5,
-    unit: 'line',
-  },
-  adaStall: {
-    min: 25,
-    max: 45,
-    default: 35,
-    unit: 'stall',
-  },
-  arrow: {
-    min: 15,
-    max: 25,
-    default: 18,
-    unit: 'each',
-  },
-  fireLane: {
-    min: 1.5,
-    max: 3.0,
-    default: 2.0,
-    unit: 'LF',
-  },
-  stencil: {
-    min: 20,
-    max: 50,
-    default: 30,
-    unit: 'each',
-  },
-} as const;
-
-// ============================================================================
-// PRICING CALCULATIONS
-// ============================================================================
-
-export function calculateLineItemTotal(
-  quantity: number,
-  unitPrice: number,
-  tier: keyof typeof TIER_MULTIPLIERS = 'standard'
-): number {
-  return quantity * unitPrice * TIER_MULTIPLIERS[tier];
-}
-
-export function calculateSubtotal(
-  lineItems: Array<{ quantity: number; unitPrice: number }>,
-  tier: keyof typeof TIER_MULTIPLIERS = 'standard'
-): number {
-  return lineItems.reduce(
-    (sum, item) => sum + calculateLineItemTotal(item.quantity, item.unitPrice, tier),
-    0
-  );
-}
-
-export function applyConditionMultiplier(
-  amount: number,
-  condition: keyof typeof CONDITION_MULTIPLIERS
-): number {
-  return amount * CONDITION_MULTIPLIERS[condition];
-}
-
-export function calculateTax(amount: number, taxRate: number): number {
-  return amount * taxRate;
-}
-
-export function calculateDeposit(total: number, depositPercent: number): number {
-  return total * (depositPercent / 100);
-}
+// Pricing lives in the pricing engine; constants are re-exported for UI use
+import {
+  TIER_MULTIPLIERS,
+  CONDITION_MULTIPLIERS,
+  URGENCY_MULTIPLIERS,
+  DEFAULT_PRICING,
+} from './pricing/pricingEngine';
 
-export function calculateTierPrices(
-  subtotal: number,
-  condition: keyof typeof CONDITION_MULTIPLIERS,
-  taxRate: number
-): { economy: number; standard: number; premium: number } {
-  const conditionMultiplier = CONDITION_MULTIPLIERS[condition];
-
-  return {
-    economy: subtotal * TIER_MULTIPLIERS.economy * conditionMultiplier * (1 + taxRate),
-    standard: subtotal * TIER_MULTIPLIERS.standard * conditionMultiplier * (1 + taxRate),
-    premium: subtotal * TIER_MULTIPLIERS.premium * conditionMultiplier * (1 + taxRate),
-  };
-}
+export { TIER_MULTIPLIERS, CONDITION_MULTIPLIERS, URGENCY_MULTIPLIERS, DEFAULT_PRICING };
 
 // ============================================================================
 // FORMATTERS
@@ -437,7 +327,6 @@ export default {
   formatDateTime,
   formatRelativeTime,
   formatPhone,
-  calculateTierPrices,
   TIER_MULTIPLIERS,
   CONDITION_MULTIPLIERS,
   DEFAULT_PRICING,
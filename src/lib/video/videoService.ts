@@ -50,11 +50,11 @@ export async function uploadVideo(
   videoFile: File,
   thumbnailFile?: File
 ): Promise<VideoProposal> {
-  const videoUrl = await uploadFile('proposal-videos', proposalId, videoFile);
+  const videoUrl = await uploadFile(orgId, 'proposal-videos', proposalId, videoFile);
   let thumbnailUrl: string | undefined;
 
   if (thumbnailFile) {
-    thumbnailUrl = await uploadFile('proposal-videos', `${proposalId}-thumb`, thumbnailFile);
+    thumbnailUrl = await uploadFile(orgId, 'proposal-videos', `${proposalId}-thumb`, thumbnailFile);
   }
 
   const { data, error } = await supabase
@@ -39,7 +39,7 @@ export interface WorkabilityAssessment {
 }
 
 // Sealcoating work conditions
-const WORK_CONDITIONS = {
+export const WORK_CONDITIONS = {
   minTemp: 50, // °F
   maxTemp: 95,
   maxHumidity: 85,
@@ -52,14 +52,22 @@ const WORK_CONDITIONS = {
 // FETCH WEATHER
 // ============================================================================
 
+/**
+ * Daily forecast for a location. Falls back to mock data when no key is
+ * configured or the request fails, unless fallbackToMock is false (the
+ * worker passes its own key and must never act on made-up weather).
+ */
 export async function getWeatherForecast(
   lat: number,
   lon: number,
-  days: number = 7
+  days: number = 7,
+  options: { apiKey?: string; fallbackToMock?: boolean } = {}
 ): Promise<WeatherForecast[]> {
-  const apiKey = import.meta.env.VITE_OPENWEATHERMAP_API_KEY;
+  const apiKey = options.apiKey ?? import.meta.env?.VITE_OPENWEATHERMAP_API_KEY;
+  const fallbackToMock = options.fallbackToMock ?? true;
   
   if (!apiKey) {
+    if (!fallbackToMock) throw new Error('OpenWeatherMap API key not configured');
     console.warn('OpenWeatherMap API key not configured');
     return getMockForecast(days);
   }
@@ -110,6 +118,7 @@ export async function getWeatherForecast(
         ...assessWorkability(day),
       }));
   } catch (error) {
+    if (!fallbackToMock) throw error;
     console.error('Weather fetch error:', error);
     return getMockForecast(days);
   }
@@ -160,6 +169,59 @@ export function assessWorkability(forecast: Partial<WeatherForecast>): {
   };
 }
 
+/**
+ * Whether the surface has had WORK_CONDITIONS.minDryHours without rain
+ * before a date. Forecasts are daily, so this looks back whole days.
+ */
+export function checkDryTime(
+  forecast: WeatherForecast[],
+  date: string
+): { satisfied: boolean; reason?: string } {
+  const lookbackDays = Math.ceil(WORK_CONDITIONS.minDryHours / 24);
+  const target = new Date(`${date}T00:00:00Z`).getTime();
+
+  for (let i = 1; i <= lookbackDays; i++) {
+    const previous = new Date(target - i * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const day = forecast.find((f) => f.date === previous);
+    if (!day) continue;
+
+    const wet =
+      day.precipitation > WORK_CONDITIONS.maxPrecipitationChance ||
+      ['Rain', 'Thunderstorm', 'Snow', 'Drizzle'].includes(day.conditions);
+    if (wet) {
+      return {
+        satisfied: false,
+        reason: `Needs ${WORK_CONDITIONS.minDryHours}h dry time after ${day.conditions.toLowerCase()} on ${previous}`,
+      };
+    }
+  }
+
+  return { satisfied: true };
+}
+
+/**
+ * Workability of a single day, including the dry-time rule
+ */
+export function assessWorkDay(
+  forecast: WeatherForecast[],
+  date: string
+): { workSuitable: boolean; workReason?: string } {
+  const day = forecast.find((f) => f.date === date);
+  if (!day) return { workSuitable: false, workReason: 'No forecast for this date' };
+
+  const reasons: string[] = [];
+  const weather = assessWorkability(day);
+  if (!weather.workSuitable && weather.workReason) reasons.push(weather.workReason);
+
+  const dryTime = checkDryTime(forecast, date);
+  if (!dryTime.satisfied && dryTime.reason) reasons.push(dryTime.reason);
+
+  return {
+    workSuitable: reasons.length === 0,
+    workReason: reasons.length > 0 ? reasons.join('; ') : undefined,
+  };
+}
+
 // ============================================================================
 // DETAILED ASSESSMENT
 // ============================================================================
@@ -346,11 +408,47 @@ export function findBestWorkDays(
   return sorted.slice(0, requiredDays);
 }
 
+// ============================================================================
+// GEOCODING
+// ============================================================================
+
+/**
+ * Look up coordinates for a street address with OpenWeatherMap's
+ * geocoding API. Returns null when nothing matches or no key is set.
+ */
+export async function geocodeAddress(
+  address: string,
+  apiKey: string | undefined = import.meta.env?.VITE_OPENWEATHERMAP_API_KEY
+): Promise<{ lat: number; lon: number } | null> {
+  if (!apiKey || !address.trim()) {
+    return null;
+  }
+
+  try {
+    const response = await fetch(
+      `https://api.openweathermap.org/geo/1.0/direct?q=${encodeURIComponent(address)}&limit=1&appid=${apiKey}`
+    );
+
+    if (!response.ok) {
+      throw new Error('Geocoding request failed');
+    }
+
+    const [match] = await response.json();
+    return match ? { lat: match.lat, lon: match.lon } : null;
+  } catch (error) {
+    console.error('Geocoding error:', error);
+    return null;
+  }
+}
+
 export default {
   getWeatherForecast,
   assessWorkability,
+  checkDryTime,
+  assessWorkDay,
   getDetailedAssessment,
   cacheWeatherData,
   getCachedWeather,
   findBestWorkDays,
+  geocodeAddress,
 };
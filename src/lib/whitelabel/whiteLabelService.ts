@@ -5,6 +5,7 @@
 
 import { supabase } from '../supabase';
 import { entitlementsService } from '../entitlements/entitlementsService';
+import { usageService } from '../usage/usageService';
 
 // ============================================================================
 // TYPES
@@ -354,18 +355,20 @@ export const whiteLabelService = {
     const fileExt = file.name.split('.').pop();
     const fileName = `${orgId}/${type}-${Date.now()}.${fileExt}`;
 
-    const { data, error } = await supabase.storage
-      .from('brand-assets')
-      .upload(fileName, file, {
-        cacheControl: '3600',
-        upsert: true,
-      });
+    const publicUrl = await usageService.meter(orgId, 'upload_storage', async () => {
+      const { data, error } = await supabase.storage
+        .from('brand-assets')
+        .upload(fileName, file, {
+          cacheControl: '3600',
+          upsert: true,
+        });
 
-    if (error) throw error;
+      if (error) throw error;
 
-    const { data: { publicUrl } } = supabase.storage
-      .from('brand-assets')
-      .getPublicUrl(data.path);
+      return supabase.storage
+        .from('brand-assets')
+        .getPublicUrl(data.path).data.publicUrl;
+    }, { quantity: file.size, metadata: { filename: file.name, contentType: file.type } });
 
     // Update config with new URL
     const fieldMap = {
@@ -0,0 +1,10 @@
+/**
+ * ABTests Page
+ * Proposal A/B tests on templates, intro copy, video and block order
+ */
+
+import { ABTestDashboard } from '@/components/proposal/ABTestDashboard';
+
+export default function ABTests() {
+  return <ABTestDashboard />;
+}
@@ -29,6 +29,9 @@ import {
   DollarSign,
   UserPlus,
   Calendar,
+  GitBranch,
+  FlaskConical,
+  RotateCcw,
 } from 'lucide-react';
 import {
   Card,
@@ -56,25 +59,29 @@ import {
   TabsContent,
 } from '@/components/ui';
 import { cn } from '@/lib/utils';
+import { AutomationRuleEditor, TRIGGER_LABELS } from '@/components/automations/AutomationRuleEditor';
+import { ACTION_OPTIONS } from '@/components/automations/WorkflowEditor';
+import { PlannedActionList, RuleSimulationPanel } from '@/components/automations/RuleSimulationPanel';
+import {
+  useAutomationExecutions,
+  useAutomationRules,
+  useDeleteAutomationRule,
+  useReplayExecution,
+  useReplayPreview,
+  useSaveAutomationRule,
+  useToggleAutomationRule,
+} from '@/hooks/useAutomations';
+import type {
+  AutomationAction,
+  AutomationExecution,
+  AutomationRule,
+  TriggerType,
+} from '@/lib/automation/automationService';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-interface AutomationRule {
-  id: string;
-  name: string;
-  description: string;
-  triggerType: string;
-  triggerLabel: string;
-  actions: { type: string; label: string }[];
-  isActive: boolean;
-  executionCount: number;
-  lastExecuted: string | null;
-  successRate: number;
-  createdAt: string;
-}
-
 interface AutomationTemplate {
   id: string;
   name: string;
@@ -84,75 +91,10 @@ interface AutomationTemplate {
   popularity: number;
 }
 
-interface ExecutionLog {
-  id: string;
-  ruleId: string;
-  ruleName: string;
-  status: 'completed' | 'failed' | 'partial';
-  triggeredBy: string;
-  executedAt: string;
-  duration: number;
-}
-
 // ============================================================================
 // MOCK DATA
 // ============================================================================
 
-const mockRules: AutomationRule[] = [
-  {
-    id: '1',
-    name: 'Follow-up Reminder',
-    description: 'Send reminder 3 days after proposal sent if not viewed',
-    triggerType: 'time_elapsed',
-    triggerLabel: '3 days after proposal sent',
-    actions: [{ type: 'send_email', label: 'Send reminder email' }],
-    isActive: true,
-    executionCount: 156,
-    lastExecuted: '2026-01-23T10:30:00Z',
-    successRate: 98,
-    createdAt: '2025-11-01',
-  },
-  {
-    id: '2',
-    name: 'View Notification',
-    description: 'Notify sales rep when proposal is viewed',
-    triggerType: 'proposal_viewed',
-    triggerLabel: 'When proposal is viewed',
-    actions: [{ type: 'send_email', label: 'Email notification' }, { type: 'slack_notify', label: 'Slack message' }],
-    isActive: true,
-    executionCount: 423,
-    lastExecuted: '2026-01-23T09:15:00Z',
-    successRate: 100,
-    createdAt: '2025-10-15',
-  },
-  {
-    id: '3',
-    name: 'Win Celebration',
-    description: 'Send thank you and create onboarding task when signed',
-    triggerType: 'proposal_signed',
-    triggerLabel: 'When proposal is signed',
-    actions: [{ type: 'send_email', label: 'Thank you email' }, { type: 'create_task', label: 'Create onboarding task' }],
-    isActive: true,
-    executionCount: 89,
-    lastExecuted: '2026-01-22T16:45:00Z',
-    successRate: 97,
-    createdAt: '2025-09-20',
-  },
-  {
-    id: '4',
-    name: 'Lost Deal Follow-up',
-    description: 'Request feedback when proposal is rejected',
-    triggerType: 'proposal_rejected',
-    triggerLabel: 'When proposal is rejected',
-    actions: [{ type: 'send_email', label: 'Feedback request' }],
-    isActive: false,
-    executionCount: 34,
-    lastExecuted: '2026-01-20T11:00:00Z',
-    successRate: 95,
-    createdAt: '2025-12-01',
-  },
-];
-
 const mockTemplates: AutomationTemplate[] = [
   { id: '1', name: 'Basic Follow-Up Sequence', description: 'Send reminders at 3, 7, and 14 days', category: 'follow_up', triggerType: 'time_elapsed', popularity: 89 },
   { id: '2', name: 'View Alert', description: 'Get notified instantly when proposals are viewed', category: 'notification', triggerType: 'proposal_viewed', popularity: 76 },
@@ -161,14 +103,6 @@ const mockTemplates: AutomationTemplate[] = [
   { id: '5', name: 'Win/Loss Analysis', description: 'Track and analyze deal outcomes', category: 'analytics', triggerType: 'proposal_signed', popularity: 43 },
 ];
 
-const mockLogs: ExecutionLog[] = [
-  { id: '1', ruleId: '2', ruleName: 'View Notification', status: 'completed', triggeredBy: 'Acme Corp viewed proposal', executedAt: '2026-01-23T10:30:00Z', duration: 1.2 },
-  { id: '2', ruleId: '1', ruleName: 'Follow-up Reminder', status: 'completed', triggeredBy: 'Timer: 3 days elapsed', executedAt: '2026-01-23T09:00:00Z', duration: 2.5 },
-  { id: '3', ruleId: '3', ruleName: 'Win Celebration', status: 'completed', triggeredBy: 'Smith Properties signed', executedAt: '2026-01-22T16:45:00Z', duration: 3.1 },
-  { id: '4', ruleId: '2', ruleName: 'View Notification', status: 'failed', triggeredBy: 'Downtown Mall viewed', executedAt: '2026-01-22T14:20:00Z', duration: 0.5 },
-  { id: '5', ruleId: '1', ruleName: 'Follow-up Reminder', status: 'completed', triggeredBy: 'Timer: 3 days elapsed', executedAt: '2026-01-22T09:00:00Z', duration: 2.1 },
-];
-
 const triggerIcons: Record<string, React.ElementType> = {
   proposal_created: FileText,
   proposal_sent: Mail,
@@ -195,48 +129,76 @@ const actionIcons: Record<string, React.ElementType> = {
 // ============================================================================
 
 export default function Automations() {
-  const [rules, setRules] = useState<AutomationRule[]>([]);
+  const { data: rules = [], isLoading: rulesLoading } = useAutomationRules();
+  const toggleRule = useToggleAutomationRule();
+  const deleteRule = useDeleteAutomationRule();
+  const saveRule = useSaveAutomationRule();
+  const { data: executions = [] } = useAutomationExecutions();
   const [templates, setTemplates] = useState<AutomationTemplate[]>([]);
-  const [logs, setLogs] = useState<ExecutionLog[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [searchQuery, setSearchQuery] = useState('');
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [selectedTemplate, setSelectedTemplate] = useState<AutomationTemplate | null>(null);
+  const [editingRule, setEditingRule] = useState<AutomationRule | null>(null);
+  const [dryRun, setDryRun] = useState<{ rule: AutomationRule; enable: boolean } | null>(null);
+  const [replaying, setReplaying] = useState<AutomationExecution | null>(null);
 
   useEffect(() => {
     const timer = setTimeout(() => {
-      setRules(mockRules);
       setTemplates(mockTemplates);
-      setLogs(mockLogs);
       setIsLoading(false);
     }, 500);
     return () => clearTimeout(timer);
   }, []);
 
-  const toggleRule = (ruleId: string) => {
-    setRules((prev) =>
-      prev.map((r) =>
-        r.id === ruleId ? { ...r, isActive: !r.isActive } : r
-      )
-    );
+  const closeDialog = () => {
+    setShowCreateDialog(false);
+    setSelectedTemplate(null);
+    setEditingRule(null);
+  };
+
+  // Turning a rule on goes through a dry run first, so a bad rule is caught before it messages anyone
+  const handleToggle = (rule: AutomationRule) => {
+    if (rule.isActive) {
+      toggleRule.mutate({ id: rule.id, isActive: false });
+    } else {
+      setDryRun({ rule, enable: true });
+    }
+  };
+
+  const duplicateRule = (rule: AutomationRule) => {
+    saveRule.mutate({
+      rule: {
+        name: `${rule.name} (copy)`,
+        description: rule.description,
+        triggerType: rule.triggerType,
+        triggerConfig: rule.triggerConfig,
+        conditions: rule.conditions,
+        actions: rule.actions,
+        workflow: rule.workflow,
+      },
+      isActive: false,
+    });
   };
 
+  const ruleNames = new Map(rules.map((rule) => [rule.id, rule.name]));
+
   const filteredRules = rules.filter(
     (rule) =>
       rule.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      rule.description.toLowerCase().includes(searchQuery.toLowerCase())
+      (rule.description || '').toLowerCase().includes(searchQuery.toLowerCase())
   );
 
   const stats = {
     total: rules.length,
     active: rules.filter((r) => r.isActive).length,
     totalExecutions: rules.reduce((sum, r) => sum + r.executionCount, 0),
-    avgSuccessRate: Math.round(
-      rules.reduce((sum, r) => sum + r.successRate, 0) / rules.length
-    ),
+    successRate: executions.length
+      ? Math.round((executions.filter((execution) => execution.status === 'completed').length / executions.length) * 100)
+      : 100,
   };
 
-  if (isLoading) {
+  if (isLoading || rulesLoading) {
     return <AutomationsSkeleton />;
   }
 
@@ -280,7 +242,7 @@ export default function Automations() {
         />
         <StatCard
           label="Success Rate"
-          value={`${stats.avgSuccessRate}%`}
+          value={`${stats.successRate}%`}
           icon={CheckCircle}
           color="amber"
         />
@@ -307,8 +269,26 @@ export default function Automations() {
 
           <div className="space-y-4">
             {filteredRules.map((rule) => (
-              <RuleCard key={rule.id} rule={rule} onToggle={() => toggleRule(rule.id)} />
+              <RuleCard
+                key={rule.id}
+                rule={rule}
+                onToggle={() => handleToggle(rule)}
+                onDryRun={() => setDryRun({ rule, enable: false })}
+                onEdit={() => {
+                  setEditingRule(rule);
+                  setShowCreateDialog(true);
+                }}
+                onDuplicate={() => duplicateRule(rule)}
+                onDelete={() => {
+                  if (confirm(`Delete "${rule.name}"? Runs in progress stop with it.`)) deleteRule.mutate(rule.id);
+                }}
+              />
             ))}
+            {filteredRules.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-8">
+                {rules.length === 0 ? 'No automations yet' : 'No automations match your search'}
+              </p>
+            )}
           </div>
         </TabsContent>
 
@@ -337,90 +317,85 @@ export default function Automations() {
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
-                {logs.map((log) => (
-                  <LogItem key={log.id} log={log} />
+                {executions.map((execution) => (
+                  <LogItem
+                    key={execution.id}
+                    execution={execution}
+                    ruleName={ruleNames.get(execution.ruleId) || 'Deleted automation'}
+                    onReplay={ruleNames.has(execution.ruleId) ? () => setReplaying(execution) : undefined}
+                  />
                 ))}
+                {executions.length === 0 && (
+                  <p className="text-sm text-gray-500 text-center py-8">No automation has run yet</p>
+                )}
               </div>
             </CardContent>
           </Card>
         </TabsContent>
       </Tabs>
 
-      {/* Create Dialog */}
-      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
-        <DialogContent className="max-w-2xl">
+      {/* Create / Edit Dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={(open: boolean) => (open ? setShowCreateDialog(true) : closeDialog())}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
-              {selectedTemplate ? `Create from: ${selectedTemplate.name}` : 'Create Automation'}
+              {editingRule
+                ? `Edit: ${editingRule.name}`
+                : selectedTemplate ? `Create from: ${selectedTemplate.name}` : 'Create Automation'}
             </DialogTitle>
             <DialogDescription>
-              Set up automated actions that trigger based on events
+              Build a workflow of actions, branches and waits that runs when the trigger fires
             </DialogDescription>
           </DialogHeader>
-          <div className="space-y-6 py-4">
-            <div>
-              <label className="text-sm font-medium">Automation Name</label>
-              <Input
-                placeholder="e.g., Follow-up Reminder"
-                className="mt-1"
-                defaultValue={selectedTemplate?.name || ''}
-              />
-            </div>
+          {showCreateDialog && (
+            <AutomationRuleEditor
+              key={editingRule?.id || selectedTemplate?.id || 'new'}
+              rule={editingRule || undefined}
+              defaults={selectedTemplate
+                ? { name: selectedTemplate.name, triggerType: selectedTemplate.triggerType as TriggerType }
+                : undefined}
+              onClose={closeDialog}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
 
-            <div>
-              <label className="text-sm font-medium">When this happens (Trigger)</label>
-              <div className="grid grid-cols-2 gap-3 mt-2">
-                {Object.entries(triggerIcons).slice(0, 6).map(([key, Icon]) => (
-                  <button
-                    key={key}
-                    className={cn(
-                      'flex items-center gap-3 p-3 rounded-lg border text-left transition-colors',
-                      selectedTemplate?.triggerType === key
-                        ? 'border-brand-red bg-brand-red/5'
-                        : 'border-gray-200 dark:border-gray-700 hover:border-gray-300'
-                    )}
-                  >
-                    <div className="p-2 rounded-lg bg-gray-100 dark:bg-gray-800">
-                      <Icon className="w-4 h-4 text-gray-600 dark:text-gray-400" />
-                    </div>
-                    <span className="text-sm font-medium capitalize">
-                      {key.replace(/_/g, ' ')}
-                    </span>
-                  </button>
-                ))}
-              </div>
-            </div>
+      {/* Dry Run Dialog */}
+      <Dialog open={!!dryRun} onOpenChange={(open: boolean) => !open && setDryRun(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{dryRun?.enable ? `Enable: ${dryRun.rule.name}` : `Dry run: ${dryRun?.rule.name}`}</DialogTitle>
+            <DialogDescription>
+              What this automation would have done if it had been on
+            </DialogDescription>
+          </DialogHeader>
+          {dryRun && (
+            <RuleSimulationPanel
+              rule={dryRun.rule}
+              confirmLabel="Enable Automation"
+              onConfirm={dryRun.enable
+                ? () => toggleRule.mutate(
+                    { id: dryRun.rule.id, isActive: true },
+                    { onSuccess: () => setDryRun(null) }
+                  )
+                : undefined}
+              isConfirming={toggleRule.isPending}
+              onClose={() => setDryRun(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
 
-            <div>
-              <label className="text-sm font-medium">Do this (Actions)</label>
-              <div className="space-y-2 mt-2">
-                <div className="flex items-center gap-3 p-3 rounded-lg border border-gray-200 dark:border-gray-700">
-                  <div className="p-2 rounded-lg bg-blue-100 dark:bg-blue-900/30">
-                    <Mail className="w-4 h-4 text-blue-600 dark:text-blue-400" />
-                  </div>
-                  <span className="text-sm font-medium flex-1">Send Email</span>
-                  <Button variant="ghost" size="sm">Configure</Button>
-                </div>
-                <Button variant="outline" size="sm" leftIcon={<Plus className="w-4 h-4" />}>
-                  Add Action
-                </Button>
-              </div>
-            </div>
-          </div>
-          <div className="flex justify-end gap-3">
-            <Button variant="outline" onClick={() => {
-              setShowCreateDialog(false);
-              setSelectedTemplate(null);
-            }}>
-              Cancel
-            </Button>
-            <Button onClick={() => {
-              setShowCreateDialog(false);
-              setSelectedTemplate(null);
-            }}>
-              Create Automation
-            </Button>
-          </div>
+      {/* Replay Dialog */}
+      <Dialog open={!!replaying} onOpenChange={(open: boolean) => !open && setReplaying(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Replay failed run</DialogTitle>
+            <DialogDescription>
+              Only the actions that failed run again, with the rule as it is now
+            </DialogDescription>
+          </DialogHeader>
+          {replaying && <ReplayPanel execution={replaying} onClose={() => setReplaying(null)} />}
         </DialogContent>
       </Dialog>
     </div>
@@ -466,8 +441,35 @@ function StatCard({
   );
 }
 
-function RuleCard({ rule, onToggle }: { rule: AutomationRule; onToggle: () => void }) {
+/** Action steps of a rule in order, with the number of branches and waits around them */
+function summarizeRule(rule: AutomationRule): { actions: AutomationAction[]; branches: number; waits: number } {
+  if (!rule.workflow) return { actions: rule.actions, branches: 0, waits: 0 };
+
+  const steps = rule.workflow.steps;
+  return {
+    actions: steps.flatMap((step) => (step.type === 'action' ? [step.action] : [])),
+    branches: steps.filter((step) => step.type === 'branch').length,
+    waits: steps.filter((step) => step.type === 'wait').length,
+  };
+}
+
+function RuleCard({
+  rule,
+  onToggle,
+  onDryRun,
+  onEdit,
+  onDuplicate,
+  onDelete,
+}: {
+  rule: AutomationRule;
+  onToggle: () => void;
+  onDryRun: () => void;
+  onEdit: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}) {
   const TriggerIcon = triggerIcons[rule.triggerType] || Zap;
+  const summary = summarizeRule(rule);
 
   return (
     <Card className={cn(!rule.isActive && 'opacity-60')}>
@@ -493,15 +495,19 @@ function RuleCard({ rule, onToggle }: { rule: AutomationRule; onToggle: () => vo
                     </Button>
                   </DropdownMenuTrigger>
                   <DropdownMenuContent>
-                    <DropdownMenuItem>
+                    <DropdownMenuItem onClick={onEdit}>
                       <Edit className="w-4 h-4 mr-2" />
                       Edit
                     </DropdownMenuItem>
-                    <DropdownMenuItem>
+                    <DropdownMenuItem onClick={onDryRun}>
+                      <FlaskConical className="w-4 h-4 mr-2" />
+                      Dry Run
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={onDuplicate}>
                       <Copy className="w-4 h-4 mr-2" />
                       Duplicate
                     </DropdownMenuItem>
-                    <DropdownMenuItem className="text-red-600">
+                    <DropdownMenuItem className="text-red-600" onClick={onDelete}>
                       <Trash2 className="w-4 h-4 mr-2" />
                       Delete
                     </DropdownMenuItem>
@@ -509,32 +515,42 @@ function RuleCard({ rule, onToggle }: { rule: AutomationRule; onToggle: () => vo
                 </DropdownMenu>
               </div>
             </div>
-            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{rule.description}</p>
+            {rule.description && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">{rule.description}</p>
+            )}
             
             {/* Trigger & Actions */}
             <div className="flex items-center gap-2 mt-3 flex-wrap">
               <Badge variant="outline" className="gap-1">
                 <TriggerIcon className="w-3 h-3" />
-                {rule.triggerLabel}
+                {TRIGGER_LABELS[rule.triggerType]}
               </Badge>
               <ArrowRight className="w-4 h-4 text-gray-400" />
-              {rule.actions.map((action, i) => {
+              {summary.actions.map((action, i) => {
                 const ActionIcon = actionIcons[action.type] || Zap;
                 return (
                   <Badge key={i} variant="secondary" className="gap-1">
                     <ActionIcon className="w-3 h-3" />
-                    {action.label}
+                    {ACTION_OPTIONS[action.type]?.label || action.type}
                   </Badge>
                 );
               })}
+              {(summary.branches > 0 || summary.waits > 0) && (
+                <Badge variant="outline" className="gap-1">
+                  <GitBranch className="w-3 h-3" />
+                  {[
+                    summary.branches > 0 && `${summary.branches} branch${summary.branches === 1 ? '' : 'es'}`,
+                    summary.waits > 0 && `${summary.waits} wait${summary.waits === 1 ? '' : 's'}`,
+                  ].filter(Boolean).join(', ')}
+                </Badge>
+              )}
             </div>
 
             {/* Stats */}
             <div className="flex items-center gap-6 mt-4 text-xs text-gray-500">
               <span>{rule.executionCount.toLocaleString()} runs</span>
-              <span>{rule.successRate}% success</span>
-              {rule.lastExecuted && (
-                <span>Last run: {new Date(rule.lastExecuted).toLocaleString()}</span>
+              {rule.lastExecutedAt && (
+                <span>Last run: {new Date(rule.lastExecutedAt).toLocaleString()}</span>
               )}
             </div>
           </div>
@@ -567,14 +583,31 @@ function TemplateCard({ template, onUse }: { template: AutomationTemplate; onUse
   );
 }
 
-function LogItem({ log }: { log: ExecutionLog }) {
+/** What set off an execution, from its stored trigger event */
+function describeTrigger(execution: AutomationExecution): string {
+  const event = execution.triggerEvent;
+  const parts = [String(event.type || 'run').replace(/_/g, ' ')];
+  if (event.entityType && event.entityType !== 'organization') parts.push(`${event.entityType} ${String(event.entityId).slice(0, 8)}`);
+  if (event.replayOf) parts.push('replay');
+  return parts.join(' · ');
+}
+
+function LogItem({
+  execution,
+  ruleName,
+  onReplay,
+}: {
+  execution: AutomationExecution;
+  ruleName: string;
+  onReplay?: () => void;
+}) {
   const statusConfig = {
     completed: { icon: CheckCircle, color: 'text-green-600', bg: 'bg-green-100 dark:bg-green-900/30' },
     failed: { icon: XCircle, color: 'text-red-600', bg: 'bg-red-100 dark:bg-red-900/30' },
     partial: { icon: AlertCircle, color: 'text-amber-600', bg: 'bg-amber-100 dark:bg-amber-900/30' },
   };
 
-  const config = statusConfig[log.status];
+  const config = statusConfig[execution.status];
   const StatusIcon = config.icon;
 
   return (
@@ -582,15 +615,51 @@ function LogItem({ log }: { log: ExecutionLog }) {
       <div className={cn('p-2 rounded-lg', config.bg)}>
         <StatusIcon className={cn('w-4 h-4', config.color)} />
       </div>
-      <div className="flex-1">
-        <p className="font-medium text-gray-900 dark:text-white text-sm">{log.ruleName}</p>
-        <p className="text-xs text-gray-500">{log.triggeredBy}</p>
+      <div className="flex-1 min-w-0">
+        <p className="font-medium text-gray-900 dark:text-white text-sm">{ruleName}</p>
+        <p className="text-xs text-gray-500">{describeTrigger(execution)}</p>
+        {execution.errorMessage && (
+          <p className="text-xs text-red-600 truncate">{execution.errorMessage}</p>
+        )}
       </div>
       <div className="text-right">
         <p className="text-xs text-gray-500">
-          {new Date(log.executedAt).toLocaleString()}
+          {new Date(execution.executedAt).toLocaleString()}
+        </p>
+        <p className="text-xs text-gray-400">
+          {execution.actionsExecuted.length} action{execution.actionsExecuted.length === 1 ? '' : 's'}
         </p>
-        <p className="text-xs text-gray-400">{log.duration}s</p>
+      </div>
+      {execution.status !== 'completed' && onReplay && (
+        <Button variant="outline" size="sm" onClick={onReplay} leftIcon={<RotateCcw className="w-3 h-3" />}>
+          Replay
+        </Button>
+      )}
+    </div>
+  );
+}
+
+function ReplayPanel({ execution, onClose }: { execution: AutomationExecution; onClose: () => void }) {
+  const { data: planned, isLoading, error } = useReplayPreview(execution.id);
+  const replay = useReplayExecution();
+
+  return (
+    <div className="space-y-4">
+      {isLoading && <p className="text-sm text-gray-500 py-6 text-center">Working out what would run…</p>}
+      {error && (
+        <p className="text-sm text-red-600">{error instanceof Error ? error.message : 'This run cannot be replayed'}</p>
+      )}
+      {planned && <PlannedActionList actions={planned} />}
+      <div className="flex justify-end gap-3">
+        <Button variant="outline" onClick={onClose}>Cancel</Button>
+        <Button
+          onClick={() => replay.mutate(execution.id, { onSuccess: onClose })}
+          isLoading={replay.isPending}
+          disabled={!planned || planned.length === 0}
+          leftIcon={<RotateCcw className="w-4 h-4" />}
+        >
+          Replay
+        </Button>
       </div>
     </div>
   );
@@ -0,0 +1,188 @@
+/**
+ * Dispatch Page
+ * Capacity-planned crew routes with printable daily run sheets
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ChevronLeft, Printer, Send, Truck, Clock, MapPin, AlertTriangle, Navigation } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { useDispatchPlan, useApplyDispatchPlan } from '@/hooks/useScheduling';
+import type { CrewRoute } from '@/lib/scheduling';
+
+function formatDay(date: string): string {
+  return new Date(`${date}T12:00:00`).toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+}
+
+function formatDrive(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function directionsUrl(route: CrewRoute): string {
+  const stops = route.stops.map((stop) => `${stop.point.lat},${stop.point.lon}`);
+  return `https://www.google.com/maps/dir/${stops.join('/')}`;
+}
+
+function RunSheet({ route }: { route: CrewRoute }) {
+  return (
+    <Card className="print-break-after print-break-avoid">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div className="flex items-center gap-3">
+          <div className="h-4 w-4 rounded-full" style={{ backgroundColor: route.crewColor }} />
+          <div>
+            <CardTitle>{route.crewName}</CardTitle>
+            <p className="text-sm text-gray-500">{formatDay(route.date)}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-4 text-sm text-gray-500">
+          <span className="flex items-center gap-1"><Clock className="h-4 w-4" />{route.totalWorkHours}h on site</span>
+          <span className="flex items-center gap-1"><Truck className="h-4 w-4" />{formatDrive(route.totalDriveMinutes)} · {route.totalDriveMiles} mi</span>
+          <a href={directionsUrl(route)} target="_blank" rel="noopener noreferrer" className="no-print flex items-center gap-1 text-brand-red hover:underline">
+            <Navigation className="h-4 w-4" />Directions
+          </a>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-gray-500">
+              <th className="py-2 pr-2 w-8">#</th>
+              <th className="py-2 pr-2">Arrive</th>
+              <th className="py-2 pr-2">Job</th>
+              <th className="py-2 pr-2">Drive</th>
+              <th className="py-2 pr-2">On Site</th>
+              <th className="py-2">Leave</th>
+            </tr>
+          </thead>
+          <tbody>
+            {route.stops.map((stop, index) => (
+              <tr key={stop.jobId} className="border-b border-gray-100 dark:border-gray-800 align-top">
+                <td className="py-2 pr-2 font-bold">{index + 1}</td>
+                <td className="py-2 pr-2 font-medium">{stop.arrivalTime}</td>
+                <td className="py-2 pr-2">
+                  <p className="font-medium">{stop.title}</p>
+                  {stop.address && (
+                    <p className="text-xs text-gray-500 flex items-center gap-1"><MapPin className="h-3 w-3" />{stop.address}</p>
+                  )}
+                </td>
+                <td className="py-2 pr-2 text-gray-500">
+                  {stop.driveMinutes > 0 ? `${formatDrive(stop.driveMinutes)} · ${stop.driveMiles} mi` : '—'}
+                </td>
+                <td className="py-2 pr-2">{stop.workHours}h</td>
+                <td className="py-2">{stop.departureTime}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <p className="mt-3 text-sm text-gray-500">Day ends around {route.endTime}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function Dispatch() {
+  const [startDate, setStartDate] = useState(new Date().toISOString().split('T')[0]);
+  const [days, setDays] = useState(5);
+  const [workdayHours, setWorkdayHours] = useState(10);
+  const [keepAssignments, setKeepAssignments] = useState(true);
+
+  const { data: plan, isLoading } = useDispatchPlan(startDate, days, { workdayHours, keepAssignments });
+  const applyPlan = useApplyDispatchPlan();
+
+  const routesByDate = (plan?.dates || [])
+    .map((date) => ({ date, routes: (plan?.routes || []).filter((route) => route.date === date) }))
+    .filter((day) => day.routes.length > 0);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between no-print">
+        <div className="flex items-center gap-3">
+          <Link to="/scheduling" className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800">
+            <ChevronLeft className="h-5 w-5" />
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Dispatch</h1>
+            <p className="text-gray-500">Assign jobs across crews and plan each day's route</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <Button variant="outline" leftIcon={<Printer className="h-4 w-4" />} onClick={() => window.print()} disabled={!plan?.routes.length}>
+            Print Run Sheets
+          </Button>
+          <Button
+            leftIcon={<Send className="h-4 w-4" />}
+            onClick={() => plan && applyPlan.mutate(plan)}
+            isLoading={applyPlan.isPending}
+            disabled={!plan?.routes.length}
+          >
+            Apply Plan
+          </Button>
+        </div>
+      </div>
+
+      {/* Options */}
+      <Card className="no-print">
+        <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Start Date</label>
+            <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Days</label>
+            <Input type="number" min={1} max={14} value={days} onChange={(e) => setDays(Math.max(1, Math.min(14, Number(e.target.value) || 1)))} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Crew Day (hours)</label>
+            <Input type="number" min={4} max={16} value={workdayHours} onChange={(e) => setWorkdayHours(Number(e.target.value) || 10)} />
+          </div>
+          <label className="flex items-center gap-2 text-sm pb-2">
+            <input type="checkbox" checked={keepAssignments} onChange={(e) => setKeepAssignments(e.target.checked)} className="rounded" />
+            Keep existing crew assignments
+          </label>
+        </CardContent>
+      </Card>
+
+      {/* Unassigned */}
+      {plan && plan.unassigned.length > 0 && (
+        <Card className="no-print border-amber-200">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-amber-500" />
+              Not Dispatched ({plan.unassigned.length})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1">
+            {plan.unassigned.map((job) => (
+              <div key={job.jobId} className="flex items-center justify-between text-sm">
+                <span className="font-medium">{job.title}</span>
+                <span className="text-gray-500">{job.reason}</span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Run Sheets */}
+      {isLoading ? (
+        <p className="text-gray-500">Planning routes…</p>
+      ) : routesByDate.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-gray-500">No jobs to dispatch in this window.</CardContent>
+        </Card>
+      ) : (
+        routesByDate.map(({ date, routes }) => (
+          <div key={date} className="space-y-4">
+            <h2 className="text-lg font-semibold no-print">{formatDay(date)}</h2>
+            {routes.map((route) => (
+              <RunSheet key={`${route.crewId}-${route.date}`} route={route} />
+            ))}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -27,6 +27,8 @@ import {
   Copy,
   Eye,
   EyeOff,
+  RotateCcw,
+  Inbox,
 } from 'lucide-react';
 import {
   Card,
@@ -62,6 +64,21 @@ import {
 } from '@/components/ui';
 import { cn, formatRelativeTime } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
+import {
+  integrationsHubService,
+  type WebhookEndpoint,
+  type WebhookEndpointSource,
+  type WebhookEvent,
+  type WebhookDeliveryStatus,
+} from '@/lib/integrations/integrationsHubService';
+import {
+  useWebhookEndpoints,
+  useWebhookDeliveries,
+  useCreateWebhookEndpoint,
+  useToggleWebhookEndpoint,
+  useDeleteWebhookEndpoint,
+  useRedeliverWebhook,
+} from '@/hooks/useWebhooks';
 
 // ============================================================================
 // TYPES
@@ -85,16 +102,6 @@ interface IntegrationProvider {
   requiredPlan: string;
 }
 
-interface WebhookEndpoint {
-  id: string;
-  url: string;
-  events: string[];
-  isActive: boolean;
-  lastDeliveryAt: string | null;
-  lastDeliveryStatus: number | null;
-  secret: string;
-}
-
 // ============================================================================
 // MOCK DATA
 // ============================================================================
@@ -116,23 +123,6 @@ const mockIntegrations: Integration[] = [
   { id: '3', provider: 'quickbooks', name: 'QuickBooks', status: 'error', lastSyncAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(), errorMessage: 'Token expired - please reconnect' },
 ];
 
-const mockWebhooks: WebhookEndpoint[] = [
-  { id: '1', url: 'https://hooks.zapier.com/hooks/catch/123456/abcdef', events: ['proposal.signed', 'payment.received'], isActive: true, lastDeliveryAt: new Date(Date.now() - 10 * 60 * 1000).toISOString(), lastDeliveryStatus: 200, secret: 'whsec_abc123xyz789' },
-  { id: '2', url: 'https://api.mycrm.com/webhooks/sommers', events: ['client.created', 'proposal.sent'], isActive: true, lastDeliveryAt: new Date(Date.now() - 60 * 60 * 1000).toISOString(), lastDeliveryStatus: 200, secret: 'whsec_def456uvw012' },
-];
-
-const webhookEvents = [
-  { event: 'proposal.created', description: 'When a proposal is created' },
-  { event: 'proposal.sent', description: 'When a proposal is sent' },
-  { event: 'proposal.viewed', description: 'When a proposal is viewed' },
-  { event: 'proposal.signed', description: 'When a proposal is signed' },
-  { event: 'proposal.rejected', description: 'When a proposal is rejected' },
-  { event: 'client.created', description: 'When a client is created' },
-  { event: 'client.updated', description: 'When a client is updated' },
-  { event: 'payment.received', description: 'When payment is received' },
-  { event: 'payment.failed', description: 'When payment fails' },
-];
-
 // ============================================================================
 // COMPONENT
 // ============================================================================
@@ -140,7 +130,7 @@ const webhookEvents = [
 export default function IntegrationsHub() {
   const { organization } = useAuth();
   const [integrations, setIntegrations] = useState<Integration[]>([]);
-  const [webhooks, setWebhooks] = useState<WebhookEndpoint[]>([]);
+  const { data: webhooks = [] } = useWebhookEndpoints();
   const [isLoading, setIsLoading] = useState(true);
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [showWebhookDialog, setShowWebhookDialog] = useState(false);
@@ -149,7 +139,6 @@ export default function IntegrationsHub() {
   useEffect(() => {
     const timer = setTimeout(() => {
       setIntegrations(mockIntegrations);
-      setWebhooks(mockWebhooks);
       setIsLoading(false);
     }, 800);
     return () => clearTimeout(timer);
@@ -214,6 +203,10 @@ export default function IntegrationsHub() {
             <Link2 className="w-4 h-4" />
             Webhooks
           </TabsTrigger>
+          <TabsTrigger value="deliveries" className="gap-2">
+            <Inbox className="w-4 h-4" />
+            Deliveries
+          </TabsTrigger>
         </TabsList>
 
         {/* Available Integrations */}
@@ -290,6 +283,11 @@ export default function IntegrationsHub() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Webhook Deliveries */}
+        <TabsContent value="deliveries" className="mt-6">
+          <WebhookDeliveriesCard endpoints={webhooks} />
+        </TabsContent>
       </Tabs>
 
       {/* Add Integration Dialog */}
@@ -304,7 +302,7 @@ export default function IntegrationsHub() {
       <AddWebhookDialog
         open={showWebhookDialog}
         onClose={() => setShowWebhookDialog(false)}
-        events={webhookEvents}
+        events={integrationsHubService.getWebhookEvents()}
       />
     </div>
   );
@@ -413,13 +411,33 @@ function ProviderCard({
   );
 }
 
+const webhookSourceLabels: Record<WebhookEndpointSource, string> = {
+  app: 'App',
+  api: 'Added via API',
+  zapier: 'Zapier',
+};
+
 function WebhookCard({ webhook }: { webhook: WebhookEndpoint }) {
   const [showSecret, setShowSecret] = useState(false);
+  const toggleEndpoint = useToggleWebhookEndpoint();
+  const deleteEndpoint = useDeleteWebhookEndpoint();
+  const lastDeliveryOk = webhook.lastDeliveryStatus !== null &&
+    webhook.lastDeliveryStatus >= 200 && webhook.lastDeliveryStatus < 300;
 
   return (
     <div className="p-4 rounded-lg border dark:border-gray-700">
       <div className="flex items-start justify-between mb-3">
         <div className="flex-1 min-w-0">
+          {(webhook.name || webhook.source !== 'app') && (
+            <div className="flex items-center gap-2 mb-1">
+              {webhook.name && <p className="font-medium text-gray-900 dark:text-white">{webhook.name}</p>}
+              {webhook.source !== 'app' && (
+                <Badge variant="outline" className="text-xs">
+                  {webhookSourceLabels[webhook.source]}
+                </Badge>
+              )}
+            </div>
+          )}
           <div className="flex items-center gap-2">
             <code className="text-sm font-mono text-gray-700 dark:text-gray-300 truncate">
               {webhook.url}
@@ -437,7 +455,11 @@ function WebhookCard({ webhook }: { webhook: WebhookEndpoint }) {
           </div>
         </div>
         <div className="flex items-center gap-2">
-          <Switch checked={webhook.isActive} />
+          <Switch
+            checked={webhook.isActive}
+            disabled={toggleEndpoint.isPending}
+            onCheckedChange={(isActive: boolean) => toggleEndpoint.mutate({ endpointId: webhook.id, isActive })}
+          />
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" size="sm">
@@ -445,15 +467,7 @@ function WebhookCard({ webhook }: { webhook: WebhookEndpoint }) {
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
-              <DropdownMenuItem className="gap-2">
-                <Settings className="w-4 h-4" />
-                Edit
-              </DropdownMenuItem>
-              <DropdownMenuItem className="gap-2">
-                <RefreshCw className="w-4 h-4" />
-                Test
-              </DropdownMenuItem>
-              <DropdownMenuItem className="gap-2 text-red-600">
+              <DropdownMenuItem className="gap-2 text-red-600" onClick={() => deleteEndpoint.mutate(webhook.id)}>
                 <Trash2 className="w-4 h-4" />
                 Delete
               </DropdownMenuItem>
@@ -461,18 +475,25 @@ function WebhookCard({ webhook }: { webhook: WebhookEndpoint }) {
           </DropdownMenu>
         </div>
       </div>
+      {webhook.disabledReason && !webhook.isActive && (
+        <div className="mb-3 p-2 rounded bg-red-50 dark:bg-red-900/20 text-sm text-red-700 dark:text-red-300 flex items-center gap-2">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          {webhook.disabledReason}. Its queued deliveries are in the dead-letter queue.
+        </div>
+      )}
       <div className="flex items-center justify-between text-sm">
         <div className="flex items-center gap-4 text-gray-500">
           <span>
             Last delivery: {webhook.lastDeliveryAt ? formatRelativeTime(webhook.lastDeliveryAt) : 'Never'}
           </span>
-          {webhook.lastDeliveryStatus && (
-            <span className={cn(
-              webhook.lastDeliveryStatus === 200 ? 'text-green-600' : 'text-red-600'
-            )}>
-              Status: {webhook.lastDeliveryStatus}
+          {webhook.lastDeliveryAt && (
+            <span className={cn(lastDeliveryOk ? 'text-green-600' : 'text-red-600')}>
+              Status: {webhook.lastDeliveryStatus ?? 'No response'}
             </span>
           )}
+          {webhook.failureCount > 0 && (
+            <span className="text-amber-600">{webhook.failureCount} failed in a row</span>
+          )}
         </div>
         <Button
           variant="ghost"
@@ -488,6 +509,95 @@ function WebhookCard({ webhook }: { webhook: WebhookEndpoint }) {
   );
 }
 
+const deliveryStatusStyles: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-amber-100 text-amber-700',
+  delivering: 'bg-blue-100 text-blue-700',
+  delivered: 'bg-green-100 text-green-700',
+  dead: 'bg-red-100 text-red-700',
+};
+
+function WebhookDeliveriesCard({ endpoints }: { endpoints: WebhookEndpoint[] }) {
+  const [status, setStatus] = useState<WebhookDeliveryStatus | undefined>('dead');
+  const { data: deliveries = [], isLoading } = useWebhookDeliveries(status);
+  const redeliver = useRedeliverWebhook();
+  const endpointUrls = new Map(endpoints.map((e) => [e.id, e.url]));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Deliveries</CardTitle>
+            <CardDescription>
+              Failed deliveries are retried with backoff; ones that run out of retries land in the dead-letter queue
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {([['dead', 'Dead letters'], ['pending', 'Retrying'], ['delivered', 'Delivered'], [undefined, 'All']] as const).map(([value, label]) => (
+              <Button
+                key={label}
+                variant={status === value ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setStatus(value)}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-32" />
+        ) : deliveries.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            <Inbox className="w-12 h-12 mx-auto mb-4 text-gray-300" />
+            <p>{status === 'dead' ? 'No dead letters' : 'No deliveries'}</p>
+          </div>
+        ) : (
+          <div className="divide-y dark:divide-gray-700">
+            {deliveries.map((delivery) => (
+              <div key={delivery.id} className="py-3 flex items-start justify-between gap-4">
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="secondary" className="text-xs">{delivery.event}</Badge>
+                    <span className={cn('px-2 py-0.5 rounded text-xs font-medium', deliveryStatusStyles[delivery.status])}>
+                      {delivery.status}
+                    </span>
+                    <span className="text-xs text-gray-500">{formatRelativeTime(delivery.createdAt)}</span>
+                  </div>
+                  <code className="block mt-1 text-xs text-gray-500 truncate">
+                    {endpointUrls.get(delivery.endpointId) || delivery.endpointId}
+                  </code>
+                  <p className="mt-1 text-xs text-gray-500">
+                    {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'}
+                    {delivery.responseStatus !== null && ` · last response ${delivery.responseStatus}`}
+                    {delivery.status === 'pending' && delivery.nextRetryAt && ` · next try ${formatRelativeTime(delivery.nextRetryAt)}`}
+                  </p>
+                  {delivery.lastError && delivery.status !== 'delivered' && (
+                    <p className="mt-1 text-xs text-red-600">{delivery.lastError}</p>
+                  )}
+                </div>
+                {(delivery.status === 'dead' || delivery.status === 'delivered') && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={redeliver.isPending}
+                    onClick={() => redeliver.mutate(delivery.id)}
+                    leftIcon={<RotateCcw className="w-4 h-4" />}
+                  >
+                    Redeliver
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 function ProviderIcon({ provider }: { provider: string }) {
   const icons: Record<string, React.ElementType> = {
     zapier: Zap,
@@ -555,17 +665,26 @@ function AddWebhookDialog({
 }: {
   open: boolean;
   onClose: () => void;
-  events: { event: string; description: string }[];
+  events: { event: WebhookEvent; description: string }[];
 }) {
+  const createEndpoint = useCreateWebhookEndpoint();
   const [url, setUrl] = useState('');
-  const [selectedEvents, setSelectedEvents] = useState<string[]>([]);
+  const [selectedEvents, setSelectedEvents] = useState<WebhookEvent[]>([]);
+  const isValidUrl = /^https:\/\//.test(url);
 
-  const toggleEvent = (event: string) => {
+  const toggleEvent = (event: WebhookEvent) => {
     setSelectedEvents((prev) =>
       prev.includes(event) ? prev.filter((e) => e !== event) : [...prev, event]
     );
   };
 
+  const handleCreate = async () => {
+    await createEndpoint.mutateAsync({ url, events: selectedEvents });
+    setUrl('');
+    setSelectedEvents([]);
+    onClose();
+  };
+
   return (
     <Dialog open={open} onOpenChange={onClose}>
       <DialogContent>
@@ -581,6 +700,9 @@ function AddWebhookDialog({
               placeholder="https://your-server.com/webhook"
               className="mt-1"
             />
+            {url && !isValidUrl && (
+              <p className="mt-1 text-xs text-red-600">Webhooks are only sent to https URLs</p>
+            )}
           </div>
           <div>
             <Label className="mb-2 block">Events</Label>
@@ -607,7 +729,10 @@ function AddWebhookDialog({
           <Button variant="outline" onClick={onClose}>
             Cancel
           </Button>
-          <Button onClick={() => { console.log('Create webhook:', { url, selectedEvents }); onClose(); }}>
+          <Button
+            onClick={handleCreate}
+            disabled={!isValidUrl || selectedEvents.length === 0 || createEndpoint.isPending}
+          >
             Create Webhook
           </Button>
         </DialogFooter>
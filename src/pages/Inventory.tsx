@@ -8,6 +8,7 @@ import { Package, Plus, Search, AlertTriangle, TrendingDown, TrendingUp, Edit, T
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { ReorderPlanner } from '@/components/inventory/ReorderPlanner';
 import { cn, formatCurrency } from '@/lib/utils';
 
 const materials = [
@@ -112,6 +113,9 @@ export default function Inventory() {
           </table>
         </CardContent>
       </Card>
+
+      {/* Reorder Planning */}
+      <ReorderPlanner />
     </div>
   );
 }
@@ -102,8 +102,8 @@ export default function Jobs() {
                   <div className="text-right">
                     <p className="text-xl font-bold text-brand-red">{formatCurrency(job.value)}</p>
                     <div className="mt-2 flex items-center gap-2">
-                      {job.status === 'scheduled' && <Button size="sm" onClick={() => startJob.mutate(job.id)}>Start</Button>}
-                      {job.status === 'in_progress' && <Button size="sm" onClick={() => completeJob.mutate(job.id)}>Complete</Button>}
+                      {job.status === 'scheduled' && <Button size="sm" onClick={() => startJob.mutate(job)}>Start</Button>}
+                      {job.status === 'in_progress' && <Button size="sm" onClick={() => completeJob.mutate({ job })}>Complete</Button>}
                       <Button size="sm" variant="ghost"><MoreVertical className="h-4 w-4" /></Button>
                     </div>
                   </div>
@@ -3,12 +3,17 @@
  * Multi-step wizard for creating proposals
  */
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { ArrowLeft, ArrowRight, Check, Save, Send, Building2, User, Ruler, DollarSign, FileText, Pen } from 'lucide-react';
 import { Card, CardContent, Button, Badge, Progress } from '@/components/ui';
 import { cn } from '@/lib/utils';
 import { useProposalStore } from '@/stores/proposalStore';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOffline } from '@/lib/offline/OfflineProvider';
+import { createTempId } from '@/lib/offline/syncQueue';
+import { pricingExperimentService } from '@/lib/experiments';
+import { toast } from 'sonner';
 
 // Wizard Steps
 import PropertyStep from '@/components/proposal/wizard-steps/PropertyStep';
@@ -29,7 +34,19 @@ const STEPS = [
 
 export default function NewProposal() {
   const navigate = useNavigate();
-  const { currentStep, setStep, nextStep, prevStep, formData, pricing, resetForm } = useProposalStore();
+  const { currentStep, setStep, nextStep, prevStep, formData, images, pricing, resetForm, markSaved, setPricingAssignment } = useProposalStore();
+  const { organization, user } = useAuth();
+  const { isOnline, enqueue } = useOffline();
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Draw a pricing experiment variant, or the rolled-out defaults, once per proposal
+  useEffect(() => {
+    if (!organization || !isOnline || formData.pricingAssignment) return;
+    pricingExperimentService
+      .getPricingForNewProposal(organization.id)
+      .then(setPricingAssignment)
+      .catch((error) => console.error('Error loading proposal pricing:', error));
+  }, [organization, isOnline, formData.pricingAssignment, setPricingAssignment]);
   
   const canProceed = () => {
     switch (currentStep) {
@@ -55,8 +72,94 @@ export default function NewProposal() {
     }
   };
 
-  const handleSaveDraft = () => {
-    console.log('Saving draft...');
+  // Drafts go through the sync outbox so estimators can save with no signal
+  const handleSaveDraft = async () => {
+    if (!organization || !user) return;
+    setIsSaving(true);
+
+    try {
+      const tempId = createTempId();
+      await enqueue({
+        type: 'create_proposal',
+        tempId,
+        orgId: organization.id,
+        userId: user.id,
+        data: {
+          title: formData.title || formData.propertyName,
+          property_name: formData.propertyName,
+          property_type: formData.propertyType,
+          property_address: formData.address,
+          property_city: formData.city,
+          property_state: formData.state,
+          property_zip: formData.zip,
+          contact_id: formData.contactId,
+          total_sqft: formData.measurements.totalSqft,
+          net_sqft: formData.measurements.netSqft,
+          surface_condition: formData.surfaceCondition,
+          measurements: formData.measurements,
+          site_geometry: formData.siteGeometry,
+          tier: formData.selectedTier,
+          subtotal: pricing.subtotal,
+          discount_amount: pricing.discountAmount,
+          tax_rate: formData.taxRate,
+          tax_amount: pricing.taxAmount,
+          total: pricing.total,
+          deposit_percent: formData.depositPercent,
+          deposit_amount: pricing.depositAmount,
+          introduction: formData.introduction,
+          scope_of_work: formData.scopeOfWork,
+          terms_and_conditions: formData.termsAndConditions,
+          valid_days: formData.validDays,
+          pricing_experiment_id: formData.pricingAssignment?.experimentId,
+          pricing_variant_id: formData.pricingAssignment?.variantId,
+        },
+      });
+
+      for (const [position, item] of pricing.lineItems.entries()) {
+        await enqueue({
+          type: 'add_line_item',
+          proposalId: tempId,
+          offlineId: createTempId(),
+          item: {
+            service_id: item.serviceId,
+            name: item.name,
+            description: item.description,
+            quantity: item.quantity,
+            unit: item.unit,
+            unit_price: item.unitPrice,
+            total: item.total,
+            tier: item.tier,
+            position,
+          },
+        });
+      }
+
+      // Photos taken in the field are held as data URLs until they upload
+      const photos = [
+        ...images.aerial.map((url) => ({ url, type: 'property' as const })),
+        ...images.condition.map((url) => ({ url, type: 'before' as const })),
+      ].filter((photo) => photo.url.startsWith('data:'));
+
+      for (const [index, photo] of photos.entries()) {
+        const file = await (await fetch(photo.url)).blob();
+        await enqueue({
+          type: 'upload_photo',
+          proposalId: tempId,
+          offlineId: createTempId(),
+          file,
+          fileName: `${photo.type}-${index + 1}.${file.type.split('/')[1] || 'jpg'}`,
+          photoType: photo.type,
+        });
+      }
+
+      markSaved();
+      toast.success(isOnline ? 'Draft saved' : 'Draft saved offline — it will sync when you reconnect');
+    } catch (error) {
+      console.error('Error saving draft:', error);
+      toast.error('Failed to save draft');
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   const handleSubmit = () => {
@@ -73,7 +176,7 @@ export default function NewProposal() {
           <p className="text-gray-500 dark:text-gray-400">{formData.proposalNumber}</p>
         </div>
         <div className="flex gap-3">
-          <Button variant="outline" onClick={handleSaveDraft} leftIcon={<Save className="h-4 w-4" />}>
+          <Button variant="outline" onClick={handleSaveDraft} isLoading={isSaving} leftIcon={<Save className="h-4 w-4" />}>
             Save Draft
           </Button>
         </div>
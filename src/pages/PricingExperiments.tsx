@@ -0,0 +1,352 @@
+/**
+ * PricingExperiments Page
+ * Randomized tier multiplier and discount offer tests on new proposals
+ */
+
+import { useState } from 'react';
+import { Beaker, Play, Square, Plus, Trash2, Crown, ChevronDown, ChevronUp } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import {
+  usePricingExperiments,
+  usePricingExperimentResults,
+  useOrgPricingOverrides,
+  useCreatePricingExperiment,
+  useStartPricingExperiment,
+  useStopPricingExperiment,
+  useRolloutPricingVariant,
+} from '@/hooks/usePricingExperiments';
+import { DEFAULT_PRICING_BOUNDS, DEFAULT_MIN_SAMPLE_SIZE, type PricingExperiment, type PricingExperimentKind, type PricingVariant } from '@/lib/experiments';
+import { TIER_MULTIPLIERS, type PricingTier } from '@/lib/pricing';
+import { formatCurrency, cn } from '@/lib/utils';
+
+const TIERS: PricingTier[] = ['economy', 'standard', 'premium'];
+
+const statusColors: Record<PricingExperiment['status'], string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  running: 'bg-blue-100 text-blue-700',
+  completed: 'bg-green-100 text-green-700',
+  stopped: 'bg-amber-100 text-amber-700',
+};
+
+type VariantDraft = Omit<PricingVariant, 'id'>;
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function describeVariant(variant: Pick<PricingVariant, 'tierMultipliers' | 'discountPercent'>): string {
+  const tiers = TIERS
+    .filter((tier) => variant.tierMultipliers[tier] !== undefined)
+    .map((tier) => `${tier} ${variant.tierMultipliers[tier]}x`);
+  if (variant.discountPercent > 0) tiers.push(`${variant.discountPercent}% off`);
+  return tiers.length > 0 ? tiers.join(', ') : 'Standard pricing';
+}
+
+function ResultsTable({ experiment }: { experiment: PricingExperiment }) {
+  const { data: results, isLoading } = usePricingExperimentResults(experiment.id);
+  const rollout = useRolloutPricingVariant();
+
+  if (isLoading || !results) {
+    return <p className="text-sm text-gray-500">Loading results…</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-gray-500">
+            <th className="py-2 pr-2">Variant</th>
+            <th className="py-2 pr-2 text-right">Proposals</th>
+            <th className="py-2 pr-2 text-right">Won / Lost</th>
+            <th className="py-2 pr-2 text-right">Win Rate (95%)</th>
+            <th className="py-2 pr-2 text-right">Avg Signed</th>
+            <th className="py-2 pr-2 text-right">Revenue / Proposal</th>
+            <th className="py-2 pr-2 text-right">Lift</th>
+            <th className="py-2 pr-2 text-right">P(Best)</th>
+            {experiment.status === 'running' && <th className="py-2" />}
+          </tr>
+        </thead>
+        <tbody>
+          {results.variants.map((variant) => (
+            <tr key={variant.variantId} className="border-b border-gray-100 dark:border-gray-800">
+              <td className="py-2 pr-2">
+                <div className="flex items-center gap-2 font-medium">
+                  {experiment.winnerVariantId === variant.variantId && <Crown className="h-4 w-4 text-amber-500" />}
+                  {variant.name}
+                  {variant.isControl && <span className="text-xs text-gray-400">control</span>}
+                </div>
+              </td>
+              <td className="py-2 pr-2 text-right">{variant.assigned}</td>
+              <td className="py-2 pr-2 text-right">{variant.wins} / {variant.losses}</td>
+              <td className="py-2 pr-2 text-right">
+                {percent(variant.winRate)}
+                <span className="text-gray-400"> ({percent(variant.winRateInterval[0])}–{percent(variant.winRateInterval[1])})</span>
+              </td>
+              <td className="py-2 pr-2 text-right">{formatCurrency(variant.avgWonTotal)}</td>
+              <td className="py-2 pr-2 text-right font-medium">{formatCurrency(variant.revenuePerProposal)}</td>
+              <td className={cn('py-2 pr-2 text-right', variant.lift !== null && (variant.lift >= 0 ? 'text-green-600' : 'text-red-600'))}>
+                {variant.lift === null ? '—' : `${variant.lift >= 0 ? '+' : ''}${Math.round(variant.lift * 100)}%`}
+              </td>
+              <td className="py-2 pr-2 text-right">{percent(variant.probabilityBest)}</td>
+              {experiment.status === 'running' && (
+                <td className="py-2 text-right">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => rollout.mutate({ experimentId: experiment.id, variantId: variant.variantId })}
+                    disabled={rollout.isPending}
+                  >
+                    Roll Out
+                  </Button>
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-sm text-gray-500">{results.note}</p>
+    </div>
+  );
+}
+
+function ExperimentCard({ experiment }: { experiment: PricingExperiment }) {
+  const [expanded, setExpanded] = useState(experiment.status === 'running');
+  const start = useStartPricingExperiment();
+  const stop = useStopPricingExperiment();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <div className="flex items-center gap-3">
+            <CardTitle>{experiment.name}</CardTitle>
+            <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium capitalize', statusColors[experiment.status])}>{experiment.status}</span>
+          </div>
+          <p className="text-sm text-gray-500 mt-1">
+            {experiment.kind === 'tier_multiplier' ? 'Tier multipliers' : 'Discount offer'} · {experiment.variants.length} variants
+            · {experiment.minSampleSize} decided proposals per variant · {experiment.autoRollout ? `auto rollout at ${percent(experiment.rolloutThreshold)}` : 'manual rollout'}
+          </p>
+          {experiment.hypothesis && <p className="text-sm text-gray-600 mt-1">{experiment.hypothesis}</p>}
+        </div>
+        <div className="flex items-center gap-2">
+          {experiment.status === 'draft' && (
+            <Button size="sm" onClick={() => start.mutate(experiment.id)} isLoading={start.isPending} leftIcon={<Play className="h-4 w-4" />}>Start</Button>
+          )}
+          {experiment.status === 'running' && (
+            <Button size="sm" variant="outline" onClick={() => stop.mutate(experiment.id)} isLoading={stop.isPending} leftIcon={<Square className="h-4 w-4" />}>Stop</Button>
+          )}
+          <Button size="icon" variant="ghost" onClick={() => setExpanded(!expanded)}>
+            {expanded ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+          </Button>
+        </div>
+      </CardHeader>
+      {expanded && (
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+            {experiment.variants.map((variant) => (
+              <div key={variant.id} className="flex items-center justify-between rounded-lg bg-gray-50 dark:bg-gray-800 px-3 py-2">
+                <span className="font-medium">{variant.name}</span>
+                <span className="text-gray-500">{describeVariant(variant)} · weight {variant.weight}</span>
+              </div>
+            ))}
+          </div>
+          {experiment.status !== 'draft' && <ResultsTable experiment={experiment} />}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+function NewExperimentForm({ onDone }: { onDone: () => void }) {
+  const create = useCreatePricingExperiment();
+  const [name, setName] = useState('');
+  const [hypothesis, setHypothesis] = useState('');
+  const [kind, setKind] = useState<PricingExperimentKind>('tier_multiplier');
+  const [minSampleSize, setMinSampleSize] = useState(DEFAULT_MIN_SAMPLE_SIZE);
+  const [autoRollout, setAutoRollout] = useState(true);
+  const [variants, setVariants] = useState<VariantDraft[]>([
+    { name: 'Control', isControl: true, weight: 1, tierMultipliers: {}, discountPercent: 0 },
+    { name: 'Variant B', isControl: false, weight: 1, tierMultipliers: { premium: 1.45 }, discountPercent: 5 },
+  ]);
+
+  const updateVariant = (index: number, changes: Partial<VariantDraft>) => {
+    setVariants((current) => current.map((v, i) => (i === index ? { ...v, ...changes } : v)));
+  };
+
+  const setMultiplier = (index: number, tier: PricingTier, value: string) => {
+    const tierMultipliers = { ...variants[index].tierMultipliers };
+    if (value === '') delete tierMultipliers[tier];
+    else tierMultipliers[tier] = Number(value);
+    updateVariant(index, { tierMultipliers });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Only the dimension under test varies
+    const cleaned = variants.map((v) => kind === 'tier_multiplier'
+      ? { ...v, discountPercent: 0 }
+      : { ...v, tierMultipliers: {} });
+    create.mutate(
+      { name, hypothesis: hypothesis || undefined, kind, variants: cleaned, minSampleSize, autoRollout },
+      { onSuccess: onDone }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader><CardTitle>New Experiment</CardTitle></CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="Premium tier at 1.45x" required />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Test</label>
+              <div className="flex gap-2">
+                {(['tier_multiplier', 'discount_offer'] as const).map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setKind(option)}
+                    className={cn(
+                      'flex-1 py-2 px-3 rounded-lg border text-sm font-medium transition-colors',
+                      kind === option ? 'border-brand-red bg-brand-red/5 text-brand-red' : 'border-gray-200 text-gray-600 hover:border-gray-300'
+                    )}
+                  >
+                    {option === 'tier_multiplier' ? 'Tier Multipliers' : 'Discount Offer'}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Hypothesis</label>
+            <Input value={hypothesis} onChange={(e) => setHypothesis(e.target.value)} placeholder="Premium buyers are not price sensitive up to 1.45x" />
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Variants
+              <span className="font-normal text-gray-500">
+                {' '}· {kind === 'tier_multiplier'
+                  ? `multipliers ${DEFAULT_PRICING_BOUNDS.minMultiplier}–${DEFAULT_PRICING_BOUNDS.maxMultiplier}x, blank keeps the standard`
+                  : `discounts up to ${DEFAULT_PRICING_BOUNDS.maxDiscountPercent}%`}
+              </span>
+            </p>
+            {variants.map((variant, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2 rounded-lg bg-gray-50 dark:bg-gray-800 p-3">
+                <Input className="w-40" value={variant.name} onChange={(e) => updateVariant(index, { name: e.target.value })} required />
+                {kind === 'tier_multiplier' ? (
+                  TIERS.map((tier) => (
+                    <label key={tier} className="flex items-center gap-1 text-sm capitalize text-gray-600">
+                      {tier}
+                      <Input
+                        className="w-20"
+                        type="number"
+                        step="0.01"
+                        placeholder={String(TIER_MULTIPLIERS[tier])}
+                        value={variant.tierMultipliers[tier] ?? ''}
+                        onChange={(e) => setMultiplier(index, tier, e.target.value)}
+                      />
+                    </label>
+                  ))
+                ) : (
+                  <label className="flex items-center gap-1 text-sm text-gray-600">
+                    Discount %
+                    <Input className="w-20" type="number" min={0} value={variant.discountPercent} onChange={(e) => updateVariant(index, { discountPercent: Number(e.target.value) || 0 })} />
+                  </label>
+                )}
+                <label className="flex items-center gap-1 text-sm text-gray-600">
+                  Weight
+                  <Input className="w-16" type="number" min={1} value={variant.weight} onChange={(e) => updateVariant(index, { weight: Number(e.target.value) || 1 })} />
+                </label>
+                {variant.isControl ? (
+                  <span className="text-xs text-gray-400 ml-auto">control</span>
+                ) : (
+                  <Button type="button" size="icon" variant="ghost" className="ml-auto" onClick={() => setVariants(variants.filter((_, i) => i !== index))} disabled={variants.length <= 2}>
+                    <Trash2 className="h-4 w-4 text-gray-400" />
+                  </Button>
+                )}
+              </div>
+            ))}
+            {variants.length < 4 && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                leftIcon={<Plus className="h-4 w-4" />}
+                onClick={() => setVariants([...variants, { name: `Variant ${String.fromCharCode(65 + variants.length)}`, isControl: false, weight: 1, tierMultipliers: {}, discountPercent: 0 }])}
+              >
+                Add Variant
+              </Button>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-end gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Decided proposals per variant</label>
+              <Input className="w-32" type="number" min={5} value={minSampleSize} onChange={(e) => setMinSampleSize(Number(e.target.value) || DEFAULT_MIN_SAMPLE_SIZE)} />
+            </div>
+            <label className="flex items-center gap-2 text-sm pb-2">
+              <input type="checkbox" checked={autoRollout} onChange={(e) => setAutoRollout(e.target.checked)} className="rounded" />
+              Roll out the winner automatically
+            </label>
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={onDone}>Cancel</Button>
+            <Button type="submit" isLoading={create.isPending}>Create Draft</Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function PricingExperiments() {
+  const { data: experiments = [], isLoading } = usePricingExperiments();
+  const { data: overrides } = useOrgPricingOverrides();
+  const [showForm, setShowForm] = useState(false);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Pricing Experiments</h1>
+          <p className="text-gray-500">Test tier multipliers and discount offers on new proposals and keep what wins</p>
+        </div>
+        {!showForm && (
+          <Button onClick={() => setShowForm(true)} leftIcon={<Plus className="h-4 w-4" />}>New Experiment</Button>
+        )}
+      </div>
+
+      {/* Current defaults */}
+      <Card>
+        <CardContent className="pt-6 flex items-center gap-3 text-sm">
+          <Beaker className="h-5 w-5 text-brand-red" />
+          <span className="text-gray-500">New proposals outside an experiment use</span>
+          <span className="font-medium">{overrides ? describeVariant(overrides) : 'Standard pricing'}</span>
+          {overrides?.appliedAt && <span className="text-gray-400">since {new Date(overrides.appliedAt).toLocaleDateString()}</span>}
+        </CardContent>
+      </Card>
+
+      {showForm && <NewExperimentForm onDone={() => setShowForm(false)} />}
+
+      {isLoading ? (
+        <p className="text-gray-500">Loading experiments…</p>
+      ) : experiments.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-gray-500">No pricing experiments yet.</CardContent>
+        </Card>
+      ) : (
+        experiments.map((experiment) => <ExperimentCard key={experiment.id} experiment={experiment} />)
+      )}
+    </div>
+  );
+}
@@ -1,2 +1,317 @@
-const ProposalEdit = () => null;
-export default ProposalEdit;
+/**
+ * ProposalEdit Page
+ * Edit proposal content, line items and pricing, with revision history
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ChevronLeft, Save, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { RevisionHistory } from '@/components/proposal/RevisionHistory';
+import { SiteMeasurementTool } from '@/components/proposal/SiteMeasurementTool';
+import { useProposal, useSaveProposal } from '@/hooks/useProposals';
+import { calculatePricing, type PricingTier, type SurfaceCondition } from '@/lib/pricing';
+import { computeSiteMeasurements, FEATURE_KINDS, type SiteGeometry } from '@/lib/measurements';
+import { formatCurrency } from '@/lib/utils';
+import type { ProposalLineItem } from '@/lib/proposal';
+
+type EditableLineItem = Omit<ProposalLineItem, 'id' | 'proposal_id' | 'total'>;
+
+interface EditForm {
+  title: string;
+  introduction: string;
+  scope_of_work: string;
+  terms_and_conditions: string;
+  tier: PricingTier;
+  surface_condition: SurfaceCondition;
+  deposit_percent: number;
+  valid_days: number;
+  discount_amount: number;
+  tax_rate: number;
+  site_geometry: SiteGeometry | null;
+  line_items: EditableLineItem[];
+}
+
+const textareaClass =
+  'w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-4 py-2 text-sm focus:border-brand-red focus:outline-none focus:ring-2 focus:ring-brand-red/20';
+const selectClass = 'h-10 w-full px-3 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800';
+
+export default function ProposalEdit() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { data: proposal, isLoading } = useProposal(id!);
+  const saveProposal = useSaveProposal();
+  const [form, setForm] = useState<EditForm | null>(null);
+
+  useEffect(() => {
+    if (!proposal) return;
+    setForm({
+      title: proposal.title || '',
+      introduction: proposal.introduction || '',
+      scope_of_work: proposal.scope_of_work || '',
+      terms_and_conditions: proposal.terms_and_conditions || '',
+      tier: proposal.tier,
+      surface_condition: proposal.surface_condition,
+      deposit_percent: proposal.deposit_percent ?? 50,
+      valid_days: proposal.valid_days ?? 30,
+      discount_amount: proposal.discount_amount || 0,
+      tax_rate: Math.round((proposal.tax_rate || 0) * 1000000) / 10000,
+      site_geometry: (proposal.site_geometry as unknown as SiteGeometry | null) ?? null,
+      line_items: [...(proposal.line_items || [])]
+        .sort((a, b) => a.position - b.position)
+        .map(({ id: _id, proposal_id: _proposalId, total: _total, ...item }) => item),
+    });
+  }, [proposal]);
+
+  const pricing = useMemo(() => {
+    if (!form) return null;
+    return calculatePricing({
+      measurements: {},
+      services: [],
+      customItems: form.line_items.map((item, index) => ({
+        id: `line-${index}`,
+        serviceId: item.service_id,
+        name: item.name,
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit,
+        unitPrice: item.unit_price,
+      })),
+      tier: form.tier,
+      condition: form.surface_condition,
+      discounts: form.discount_amount > 0
+        ? [{ id: 'discount', name: 'Discount', type: 'fixed', value: form.discount_amount }]
+        : [],
+      taxRate: form.tax_rate / 100,
+      depositPercent: form.deposit_percent,
+    });
+  }, [form]);
+
+  if (isLoading || (proposal && !form)) {
+    return <div className="flex items-center justify-center h-64"><div className="animate-spin h-8 w-8 border-4 border-brand-red border-t-transparent rounded-full" /></div>;
+  }
+
+  if (!proposal || !form || !pricing) {
+    return <div className="text-center py-12"><p className="text-gray-500">Proposal not found</p></div>;
+  }
+
+  const update = <K extends keyof EditForm>(key: K, value: EditForm[K]) => {
+    setForm((prev) => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const updateLineItem = (index: number, changes: Partial<EditableLineItem>) => {
+    update('line_items', form.line_items.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const addLineItem = () => {
+    update('line_items', [
+      ...form.line_items,
+      { service_id: 'custom', name: '', quantity: 1, unit: 'each', unit_price: 0, tier: 'all', position: form.line_items.length },
+    ]);
+  };
+
+  const removeLineItem = (index: number) => {
+    update('line_items', form.line_items.filter((_, i) => i !== index));
+  };
+
+  // Measurements follow the drawing only for the kinds of feature drawn
+  const getSiteFields = () => {
+    if (!form.site_geometry) return {};
+    const totals = computeSiteMeasurements(form.site_geometry);
+    const drawn: Record<string, number> = {};
+    for (const feature of form.site_geometry.features) {
+      const field = FEATURE_KINDS[feature.properties.kind].measurement;
+      drawn[field] = totals[field];
+    }
+    if ('totalSqft' in drawn || 'deductionSqft' in drawn) drawn.netSqft = totals.netSqft;
+
+    const measurements = { ...((proposal.measurements as Record<string, number>) || {}), ...drawn };
+    return {
+      site_geometry: form.site_geometry as unknown as typeof proposal.site_geometry,
+      measurements,
+      ...('totalSqft' in drawn && { total_sqft: measurements.totalSqft }),
+      ...('netSqft' in drawn && { net_sqft: measurements.netSqft }),
+    };
+  };
+
+  const handleSave = () => {
+    saveProposal.mutate({
+      id: id!,
+      data: {
+        title: form.title,
+        introduction: form.introduction,
+        scope_of_work: form.scope_of_work,
+        terms_and_conditions: form.terms_and_conditions,
+        tier: form.tier,
+        surface_condition: form.surface_condition,
+        deposit_percent: form.deposit_percent,
+        valid_days: form.valid_days,
+        subtotal: pricing.subtotal,
+        discount_amount: pricing.discountAmount,
+        tax_rate: form.tax_rate / 100,
+        tax_amount: pricing.taxAmount,
+        total: pricing.total,
+        deposit_amount: pricing.depositAmount,
+        ...getSiteFields(),
+      },
+      lineItems: form.line_items.map((item, index) => ({
+        ...item,
+        position: index,
+        total: pricing.lineItems[index].total,
+      })),
+    });
+  };
+
+  const isSent = proposal.status !== 'draft' && proposal.status !== 'pending_review';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <Button variant="ghost" size="icon" onClick={() => navigate(`/proposals/${id}`)}><ChevronLeft className="h-5 w-5" /></Button>
+        <div className="flex-1">
+          <h1 className="text-2xl font-bold">Edit {proposal.proposal_number}</h1>
+          <p className="text-gray-500">
+            Version {proposal.version || 1}
+            {isSent && ' · Saving keeps the previous version in the revision history'}
+          </p>
+        </div>
+        <Button onClick={handleSave} isLoading={saveProposal.isPending} leftIcon={<Save className="h-4 w-4" />}>Save</Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader><CardTitle>Details</CardTitle></CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Title</label>
+                <Input value={form.title} onChange={(e) => update('title', e.target.value)} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-1">Tier</label>
+                  <select value={form.tier} onChange={(e) => update('tier', e.target.value as PricingTier)} className={selectClass}>
+                    <option value="economy">Economy</option>
+                    <option value="standard">Standard</option>
+                    <option value="premium">Premium</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Surface Condition</label>
+                  <select value={form.surface_condition} onChange={(e) => update('surface_condition', e.target.value as SurfaceCondition)} className={selectClass}>
+                    <option value="good">Good</option>
+                    <option value="fair">Fair</option>
+                    <option value="poor">Poor</option>
+                  </select>
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Introduction</label>
+                <textarea rows={3} value={form.introduction} onChange={(e) => update('introduction', e.target.value)} className={textareaClass} />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle>Line Items</CardTitle>
+              <Button variant="outline" size="sm" onClick={addLineItem} leftIcon={<Plus className="h-4 w-4" />}>Add Item</Button>
+            </CardHeader>
+            <CardContent>
+              <table className="w-full">
+                <thead><tr className="border-b">
+                  <th className="text-left py-2 text-sm font-medium text-gray-500">Service</th>
+                  <th className="text-right py-2 text-sm font-medium text-gray-500 w-24">Qty</th>
+                  <th className="text-right py-2 text-sm font-medium text-gray-500 w-28">Rate</th>
+                  <th className="text-right py-2 text-sm font-medium text-gray-500 w-28">Amount</th>
+                  <th className="w-10" />
+                </tr></thead>
+                <tbody>
+                  {form.line_items.map((item, i) => (
+                    <tr key={i} className="border-b">
+                      <td className="py-2 pr-2"><Input value={item.name} onChange={(e) => updateLineItem(i, { name: e.target.value })} /></td>
+                      <td className="py-2 px-1"><Input type="number" min={0} value={item.quantity} onChange={(e) => updateLineItem(i, { quantity: Number(e.target.value) })} className="text-right" /></td>
+                      <td className="py-2 px-1"><Input type="number" min={0} step="0.01" value={item.unit_price} onChange={(e) => updateLineItem(i, { unit_price: Number(e.target.value) })} className="text-right" /></td>
+                      <td className="py-2 text-right font-medium">{formatCurrency(pricing.lineItems[i]?.total || 0)}</td>
+                      <td className="py-2 text-right">
+                        <Button variant="ghost" size="icon" onClick={() => removeLineItem(i)}><Trash2 className="h-4 w-4 text-gray-400" /></Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader><CardTitle>Site Map</CardTitle></CardHeader>
+            <CardContent>
+              <SiteMeasurementTool
+                value={form.site_geometry}
+                onChange={(site) => update('site_geometry', site)}
+                address={[proposal.property_address, proposal.property_city, proposal.property_state, proposal.property_zip].filter(Boolean).join(', ')}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader><CardTitle>Scope & Terms</CardTitle></CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Scope of Work</label>
+                <textarea rows={5} value={form.scope_of_work} onChange={(e) => update('scope_of_work', e.target.value)} className={textareaClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Terms & Conditions</label>
+                <textarea rows={5} value={form.terms_and_conditions} onChange={(e) => update('terms_and_conditions', e.target.value)} className={textareaClass} />
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader><CardTitle>Pricing</CardTitle></CardHeader>
+            <CardContent className="space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium mb-1">Discount ($)</label>
+                  <Input type="number" min={0} step="0.01" value={form.discount_amount} onChange={(e) => update('discount_amount', Number(e.target.value))} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Tax Rate (%)</label>
+                  <Input type="number" min={0} step="0.01" value={form.tax_rate} onChange={(e) => update('tax_rate', Number(e.target.value))} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Deposit (%)</label>
+                  <Input type="number" min={0} max={100} value={form.deposit_percent} onChange={(e) => update('deposit_percent', Number(e.target.value))} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Valid Days</label>
+                  <Input type="number" min={1} value={form.valid_days} onChange={(e) => update('valid_days', Number(e.target.value))} />
+                </div>
+              </div>
+              <div className="border-t pt-3 space-y-2 text-sm">
+                <div className="flex justify-between"><span className="text-gray-500">Subtotal</span><span>{formatCurrency(pricing.subtotal)}</span></div>
+                {pricing.tierAdjustment !== 0 && <div className="flex justify-between"><span className="text-gray-500 capitalize">{pricing.tier} tier</span><span>{formatCurrency(pricing.tierAdjustment)}</span></div>}
+                {pricing.conditionAdjustment !== 0 && <div className="flex justify-between"><span className="text-gray-500 capitalize">{pricing.condition} condition</span><span>{formatCurrency(pricing.conditionAdjustment)}</span></div>}
+                {pricing.discountAmount > 0 && <div className="flex justify-between text-green-600"><span>Discount</span><span>-{formatCurrency(pricing.discountAmount)}</span></div>}
+                {pricing.taxAmount > 0 && <div className="flex justify-between"><span className="text-gray-500">Tax</span><span>{formatCurrency(pricing.taxAmount)}</span></div>}
+                <div className="flex justify-between text-lg font-bold"><span>Total</span><span className="text-brand-red">{formatCurrency(pricing.total)}</span></div>
+                <div className="flex justify-between"><span className="text-gray-500">Deposit</span><span>{formatCurrency(pricing.depositAmount)}</span></div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <RevisionHistory
+            proposalId={id!}
+            currentVersion={proposal.version || 1}
+            canRestore={proposal.status !== 'accepted'}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,10 +5,12 @@
 
 import { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { FileText, Send, Edit, Copy, Download, Trash2, Clock, Eye, Check, X, DollarSign, Calendar, User, MapPin, ChevronLeft } from 'lucide-react';
+import { FileText, Send, Edit, Copy, Download, Trash2, Clock, Eye, Check, X, DollarSign, Calendar, User, MapPin, ChevronLeft, Swords, XCircle } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import { CompetitorBidDialog } from '@/components/proposal/CompetitorBidDialog';
 import { useProposal, useSendProposal, useDuplicateProposal } from '@/hooks/useProposals';
+import { useCompetitorBids, useDeleteCompetitorBid } from '@/hooks/useMarketPricing';
 import { formatCurrency, cn } from '@/lib/utils';
 import { toast } from 'sonner';
 
@@ -27,6 +29,9 @@ export default function ProposalView() {
   const { data: proposal, isLoading } = useProposal(id!);
   const sendProposal = useSendProposal();
   const duplicateProposal = useDuplicateProposal();
+  const { data: competitorBids = [] } = useCompetitorBids(id);
+  const deleteBid = useDeleteCompetitorBid();
+  const [bidDialog, setBidDialog] = useState<'lost' | 'shared' | null>(null);
 
   if (isLoading) {
     return <div className="flex items-center justify-center h-64"><div className="animate-spin h-8 w-8 border-4 border-brand-red border-t-transparent rounded-full" /></div>;
@@ -57,6 +62,8 @@ export default function ProposalView() {
         </div>
         <div className="flex items-center gap-2">
           {proposal.status === 'draft' && <Button onClick={handleSend} isLoading={sendProposal.isPending} leftIcon={<Send className="h-4 w-4" />}>Send</Button>}
+          {(proposal.status === 'sent' || proposal.status === 'viewed') && <Button variant="outline" onClick={() => setBidDialog('lost')} leftIcon={<XCircle className="h-4 w-4" />}>Mark Lost</Button>}
+          {proposal.status !== 'draft' && <Button variant="outline" onClick={() => setBidDialog('shared')} leftIcon={<Swords className="h-4 w-4" />}>Log Competitor Bid</Button>}
           <Button variant="outline" onClick={() => navigate(`/proposals/${id}/edit`)} leftIcon={<Edit className="h-4 w-4" />}>Edit</Button>
           <Button variant="outline" onClick={handleDuplicate} leftIcon={<Copy className="h-4 w-4" />}>Duplicate</Button>
           <Button variant="outline" leftIcon={<Download className="h-4 w-4" />}>PDF</Button>
@@ -153,8 +160,31 @@ export default function ProposalView() {
               )}
             </CardContent>
           </Card>
+
+          {competitorBids.length > 0 && (
+            <Card>
+              <CardHeader><CardTitle>Competitor Bids</CardTitle></CardHeader>
+              <CardContent className="space-y-3">
+                {competitorBids.map((bid) => (
+                  <div key={bid.id} className="flex items-start justify-between gap-3 text-sm">
+                    <div>
+                      <p className="font-medium">{bid.competitorName}</p>
+                      <p className="text-gray-500">{bid.services.map((s) => s.replace(/_/g, ' ')).join(', ')} · {new Date(bid.bidDate).toLocaleDateString()}</p>
+                      {bid.sqft && <p className="text-gray-500">{formatCurrency(bid.price / bid.sqft)}/sq ft</p>}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <span className="font-medium">{formatCurrency(bid.price)}</span>
+                      <Button variant="ghost" size="icon" onClick={() => deleteBid.mutate(bid.id)} disabled={deleteBid.isPending}><Trash2 className="h-4 w-4 text-gray-400" /></Button>
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
         </div>
       </div>
+
+      <CompetitorBidDialog isOpen={bidDialog !== null} onClose={() => setBidDialog(null)} mode={bidDialog || 'shared'} proposal={proposal} />
     </div>
   );
 }
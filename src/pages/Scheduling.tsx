@@ -4,9 +4,11 @@
  */
 
 import { useState } from 'react';
-import { Calendar as CalendarIcon, ChevronLeft, ChevronRight, Plus, MapPin, Clock, Users, Sun, Cloud, CloudRain, AlertTriangle } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Calendar as CalendarIcon, ChevronLeft, ChevronRight, Plus, MapPin, Clock, Users, Sun, Cloud, CloudRain, AlertTriangle, Truck } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import { WeatherReschedulePanel } from '@/components/scheduling/WeatherReschedulePanel';
 import { formatCurrency, cn } from '@/lib/utils';
 
 interface Job {
@@ -113,6 +115,9 @@ export default function Scheduling() {
             <button onClick={() => setView('week')} className={`px-3 py-1.5 text-sm rounded-md ${view === 'week' ? 'bg-white shadow-sm' : 'text-gray-500'}`}>Week</button>
             <button onClick={() => setView('month')} className={`px-3 py-1.5 text-sm rounded-md ${view === 'month' ? 'bg-white shadow-sm' : 'text-gray-500'}`}>Month</button>
           </div>
+          <Link to="/scheduling/dispatch">
+            <Button variant="outline" leftIcon={<Truck className="h-4 w-4" />}>Dispatch</Button>
+          </Link>
           <Button leftIcon={<Plus className="h-4 w-4" />}>Schedule Job</Button>
         </div>
       </div>
@@ -182,6 +187,9 @@ export default function Scheduling() {
 
         {/* Sidebar */}
         <div className="space-y-6">
+          {/* Weather Moves */}
+          <WeatherReschedulePanel />
+
           {/* Crews */}
           <Card>
             <CardHeader><CardTitle>Crews</CardTitle></CardHeader>
@@ -7,12 +7,14 @@ import { useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import {
   User, Building, Palette, Bell, Shield, CreditCard, Globe,
-  Mail, Key, Save, ChevronRight,
+  Mail, Key, Save, ChevronRight, Package, Calculator,
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
-import { useAuth } from '@/contexts/AuthContext';
+import { MaterialCatalogEditor } from '@/components/materials/MaterialCatalogEditor';
+import { CalculatorEditor } from '@/components/calculators/CalculatorEditor';
+import { useAuth, PermissionGate } from '@/contexts/AuthContext';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 
@@ -20,6 +22,8 @@ const settingsTabs = [
   { id: 'profile', label: 'Profile', icon: User, description: 'Personal information' },
   { id: 'organization', label: 'Organization', icon: Building, description: 'Company details' },
   { id: 'branding', label: 'Branding', icon: Palette, description: 'Colors and logo' },
+  { id: 'materials', label: 'Materials', icon: Package, description: 'Products and coverage rates' },
+  { id: 'calculators', label: 'Calculators', icon: Calculator, description: 'Pricing formulas' },
   { id: 'notifications', label: 'Notifications', icon: Bell, description: 'Email and alerts' },
   { id: 'security', label: 'Security', icon: Shield, description: 'Password and 2FA' },
   { id: 'billing', label: 'Billing', icon: CreditCard, description: 'Subscription and invoices' },
@@ -192,6 +196,14 @@ export default function Settings() {
             <Card><CardHeader><CardTitle className="text-base">Two-Factor Authentication</CardTitle><CardDescription>Add extra security</CardDescription></CardHeader><CardContent><Button variant="outline">Enable 2FA</Button></CardContent></Card>
           </div>
         );
+      case 'materials':
+        return <MaterialCatalogEditor />;
+      case 'calculators':
+        return (
+          <PermissionGate role="manager" fallback={<p className="text-sm text-gray-500">Only managers can edit calculators.</p>}>
+            <CalculatorEditor />
+          </PermissionGate>
+        );
       case 'billing':
         return (
           <div className="space-y-6">
@@ -219,7 +231,7 @@ export default function Settings() {
         </div>
         <div className="lg:col-span-3">
           <Card><CardHeader><CardTitle>{settingsTabs.find((t) => t.id === activeTab)?.label}</CardTitle></CardHeader><CardContent>{renderTabContent()}</CardContent></Card>
-          <div className="flex justify-end mt-6"><Button onClick={handleSave} isLoading={isSaving} leftIcon={<Save className="h-4 w-4" />}>Save Changes</Button></div>
+          {!['materials', 'calculators'].includes(activeTab) && <div className="flex justify-end mt-6"><Button onClick={handleSave} isLoading={isSaving} leftIcon={<Save className="h-4 w-4" />}>Save Changes</Button></div>}
         </div>
       </div>
     </div>
@@ -1,11 +1,617 @@
 /**
  * ClientPortal Page
+ * Magic-link sign-in and the signed-in client's proposals, payments,
+ * documents, jobs and quote requests
  */
 
+import { useEffect, useRef, useState, type FormEvent } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  AlertTriangle,
+  CalendarDays,
+  CheckCircle,
+  CloudRain,
+  CreditCard,
+  Download,
+  ExternalLink,
+  FileText,
+  Loader2,
+  LogOut,
+  Mail,
+  Send,
+} from 'lucide-react';
+import PortalLayout from '@/components/layout/PortalLayout';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Input } from '@/components/ui/Input';
+import {
+  usePortalBranding,
+  usePortalOverview,
+  useRequestMagicLink,
+  useRedeemMagicLink,
+  usePortalSignOut,
+  useSubmitQuoteRequest,
+  useDownloadPortalDocument,
+} from '@/hooks/usePortal';
+import {
+  clientPortalService,
+  MAGIC_LINK_TTL_MINUTES,
+  PortalSessionError,
+  type PortalBranding,
+  type PortalJob,
+  type PortalOverview,
+  type PortalProposalStatus,
+  type QuoteRequestInput,
+} from '@/lib/portal/clientPortalService';
+import { cn, formatCurrency, formatDate, isValidEmail } from '@/lib/utils';
+
+const textareaClass =
+  'w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 px-4 py-2 text-sm focus:border-brand-red focus:outline-none focus:ring-2 focus:ring-brand-red/20';
+
+const PROPOSAL_STATUS_STYLES: Record<PortalProposalStatus, string> = {
+  sent: 'bg-blue-100 text-blue-800',
+  viewed: 'bg-indigo-100 text-indigo-800',
+  accepted: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-100 text-gray-700',
+  expired: 'bg-yellow-100 text-yellow-800',
+};
+
 export default function ClientPortal() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const magicToken = searchParams.get('token');
+  const orgSlug = searchParams.get('org');
+
+  const [sessionToken, setSessionToken] = useState<string | null>(() => clientPortalService.getStoredSession());
+  const redeem = useRedeemMagicLink();
+  const redeemedRef = useRef(false);
+
+  // Trade the emailed link for a session once, then drop it from the URL
+  useEffect(() => {
+    if (!magicToken || redeemedRef.current) return;
+    redeemedRef.current = true;
+    redeem.mutate(magicToken, { onSuccess: setSessionToken });
+    setSearchParams((params) => {
+      params.delete('token');
+      return params;
+    }, { replace: true });
+  }, [magicToken, redeem, setSearchParams]);
+
+  const { data: overview, isLoading, error } = usePortalOverview(sessionToken);
+
+  // A session that expired or was revoked sends the client back to sign-in
+  useEffect(() => {
+    if (error instanceof PortalSessionError) {
+      clientPortalService.storeSession(null);
+      setSessionToken(null);
+    }
+  }, [error]);
+
+  if (redeem.isPending || (sessionToken && isLoading)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <Loader2 className="w-8 h-8 animate-spin text-brand-red" />
+      </div>
+    );
+  }
+
+  if (!sessionToken || !overview) {
+    return (
+      <SignIn
+        orgSlug={orgSlug}
+        notice={redeem.isError ? 'That sign-in link has expired or was already used. Request a new one below.' : null}
+      />
+    );
+  }
+
+  return <Dashboard overview={overview} sessionToken={sessionToken} onSignedOut={() => setSessionToken(null)} />;
+}
+
+// ============================================================================
+// SIGN-IN
+// ============================================================================
+
+function SignIn({ orgSlug, notice }: { orgSlug: string | null; notice: string | null }) {
+  const { data: branding } = usePortalBranding(orgSlug);
+  const requestLink = useRequestMagicLink();
+  const [email, setEmail] = useState('');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!isValidEmail(email)) return;
+    requestLink.mutate({ email: email.trim(), orgSlug: orgSlug || undefined });
+  };
+
+  const background = branding?.portal.customLoginBackground;
+
+  return (
+    <PortalLayout branding={branding}>
+      <div
+        className="py-16 px-4 bg-cover bg-center"
+        style={background ? { backgroundImage: `url(${background})` } : undefined}
+      >
+        <Card className="max-w-md mx-auto">
+          <CardHeader>
+            <CardTitle>Sign in to your client portal</CardTitle>
+            <p className="text-sm text-gray-500">
+              {branding?.portal.welcomeMessage ||
+                "Enter the email we have on file and we'll send you a secure sign-in link."}
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {notice && (
+              <div className="flex items-start gap-2 p-3 rounded-lg bg-yellow-50 text-yellow-800 border border-yellow-200 text-sm">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                {notice}
+              </div>
+            )}
+
+            {requestLink.isSuccess ? (
+              <div className="flex items-start gap-2 p-4 rounded-lg bg-green-50 text-green-800 border border-green-200 text-sm">
+                <Mail className="h-4 w-4 mt-0.5 shrink-0" />
+                If that email belongs to one of our clients, a sign-in link is on its way. It expires in {MAGIC_LINK_TTL_MINUTES} minutes.
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <Input
+                  type="email"
+                  placeholder="you@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  leftIcon={<Mail className="h-4 w-4" />}
+                  required
+                />
+                {requestLink.error && (
+                  <p className="text-sm text-red-600">{requestLink.error.message}</p>
+                )}
+                <Button
+                  type="submit"
+                  className="w-full"
+                  isLoading={requestLink.isPending}
+                  disabled={!isValidEmail(email)}
+                >
+                  Email me a sign-in link
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </PortalLayout>
+  );
+}
+
+// ============================================================================
+// DASHBOARD
+// ============================================================================
+
+function Dashboard({
+  overview,
+  sessionToken,
+  onSignedOut,
+}: {
+  overview: PortalOverview;
+  sessionToken: string;
+  onSignedOut: () => void;
+}) {
+  const signOut = usePortalSignOut();
+  const { branding, contact } = overview;
+
+  const upcomingJobs = overview.jobs.filter((j) => j.status !== 'completed' && j.status !== 'cancelled');
+  const pastJobs = overview.jobs.filter((j) => j.status === 'completed');
+
+  return (
+    <PortalLayout
+      branding={branding}
+      actions={
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => signOut.mutate(sessionToken, { onSuccess: onSignedOut })}
+          isLoading={signOut.isPending}
+          leftIcon={<LogOut className="h-4 w-4" />}
+        >
+          Sign out
+        </Button>
+      }
+    >
+      <div className="max-w-6xl mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-gray-100">Welcome, {contact.firstName}</h2>
+          {branding.portal.welcomeMessage && (
+            <p className="text-gray-500 mt-1">{branding.portal.welcomeMessage}</p>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <ProposalsCard overview={overview} />
+            <JobsCard title="Upcoming work" jobs={upcomingJobs} empty="No work scheduled right now." />
+            <InvoicesCard overview={overview} />
+            {pastJobs.length > 0 && <JobsCard title="Completed work" jobs={pastJobs} empty="" />}
+            <PhotosCard overview={overview} />
+          </div>
+
+          <div className="space-y-6">
+            <DocumentsCard overview={overview} sessionToken={sessionToken} />
+            <ReceiptsCard overview={overview} />
+            <QuoteRequestCard overview={overview} sessionToken={sessionToken} />
+            {branding.portal.showTestimonials && branding.portal.testimonials.length > 0 && (
+              <TestimonialsCard branding={branding} />
+            )}
+          </div>
+        </div>
+      </div>
+    </PortalLayout>
+  );
+}
+
+function ProposalsCard({ overview }: { overview: PortalOverview }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Proposals</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {overview.proposals.length === 0 ? (
+          <p className="text-sm text-gray-500">No proposals yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+            {overview.proposals.map((proposal) => (
+              <li key={proposal.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium truncate">{proposal.title || `Proposal ${proposal.proposalNumber}`}</p>
+                    <span className={cn('px-2 py-0.5 rounded-full text-xs font-medium capitalize', PROPOSAL_STATUS_STYLES[proposal.status])}>
+                      {proposal.status}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-500">
+                    #{proposal.proposalNumber}
+                    {proposal.propertyAddress && ` · ${proposal.propertyAddress}`}
+                    {proposal.sentAt && ` · Sent ${formatDate(proposal.sentAt)}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="font-semibold">{formatCurrency(proposal.total)}</span>
+                  <Link to={`/portal/proposal/${proposal.id}`}>
+                    <Button variant="secondary" size="sm">View</Button>
+                  </Link>
+                  {proposal.amountDue && (
+                    <Link to={`/portal/proposal/${proposal.id}/pay`}>
+                      <Button size="sm" leftIcon={<CreditCard className="h-4 w-4" />}>
+                        Pay {formatCurrency(proposal.amountDue.amount)}
+                      </Button>
+                    </Link>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function JobsCard({ title, jobs, empty }: { title: string; jobs: PortalJob[]; empty: string }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {jobs.length === 0 ? (
+          <p className="text-sm text-gray-500">{empty}</p>
+        ) : (
+          <ul className="space-y-3">
+            {jobs.map((job) => (
+              <li key={job.id} className="p-3 rounded-lg border border-gray-200 dark:border-gray-700">
+                <div className="flex items-center justify-between gap-3">
+                  <div>
+                    <p className="font-medium">{job.title}</p>
+                    {job.address && <p className="text-sm text-gray-500">{job.address}</p>}
+                  </div>
+                  <div className="text-right text-sm">
+                    <p className="flex items-center gap-1 justify-end text-gray-700 dark:text-gray-300">
+                      <CalendarDays className="h-4 w-4" />
+                      {job.completedAt
+                        ? `Completed ${formatDate(job.completedAt)}`
+                        : job.scheduledDate ? formatDate(job.scheduledDate) : 'Date to be set'}
+                    </p>
+                    {job.status === 'in_progress' && <p className="text-green-700">In progress</p>}
+                  </div>
+                </div>
+                {job.weatherStatus !== 'clear' && (
+                  <div
+                    className={cn(
+                      'flex items-start gap-2 mt-3 p-2 rounded-md text-sm',
+                      job.weatherStatus === 'on_hold' ? 'bg-blue-50 text-blue-800' : 'bg-yellow-50 text-yellow-800'
+                    )}
+                  >
+                    <CloudRain className="h-4 w-4 mt-0.5 shrink-0" />
+                    <span>
+                      {job.weatherStatus === 'on_hold'
+                        ? 'On weather hold until the forecast clears.'
+                        : 'The forecast may affect this date.'}
+                      {job.proposedDate && ` We've suggested moving to ${formatDate(job.proposedDate)}.`}
+                      {job.weatherNote && ` ${job.weatherNote}`}
+                    </span>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function InvoicesCard({ overview }: { overview: PortalOverview }) {
+  if (overview.invoices.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Payment plans</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {overview.invoices.map((invoice) => (
+          <div key={invoice.id} className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <p className="font-medium">Proposal #{invoice.proposalNumber}</p>
+              <p className="text-gray-500">
+                {formatCurrency(invoice.paidAmount)} of {formatCurrency(invoice.totalAmount)} paid
+              </p>
+            </div>
+            <ul className="divide-y divide-gray-100 dark:divide-gray-800 text-sm">
+              {invoice.installments.map((installment) => (
+                <li key={installment.id} className="flex items-center justify-between py-2">
+                  <span>
+                    Payment {installment.installmentNumber} · due {formatDate(installment.dueDate)}
+                  </span>
+                  <span className="flex items-center gap-3">
+                    {formatCurrency(installment.amount)}
+                    <span
+                      className={cn(
+                        'px-2 py-0.5 rounded-full text-xs font-medium capitalize',
+                        installment.status === 'paid' && 'bg-green-100 text-green-800',
+                        installment.status === 'pending' && 'bg-gray-100 text-gray-700',
+                        (installment.status === 'overdue' || installment.status === 'failed') && 'bg-red-100 text-red-800'
+                      )}
+                    >
+                      {installment.status}
+                    </span>
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+function PhotosCard({ overview }: { overview: PortalOverview }) {
+  if (overview.photos.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Before &amp; after</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {overview.photos.map((photo) => (
+            <a key={photo.id} href={photo.url} target="_blank" rel="noopener noreferrer" className="group relative block">
+              <img
+                src={photo.thumbnailUrl || photo.url}
+                alt={photo.caption || photo.projectTitle}
+                className="w-full h-32 object-cover rounded-lg"
+                loading="lazy"
+              />
+              <span className="absolute top-2 left-2 px-2 py-0.5 rounded bg-black/60 text-white text-xs capitalize">
+                {photo.photoType}
+              </span>
+            </a>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function DocumentsCard({ overview, sessionToken }: { overview: PortalOverview; sessionToken: string }) {
+  const download = useDownloadPortalDocument({ sessionToken });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Signed documents</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {overview.documents.length === 0 ? (
+          <p className="text-sm text-gray-500">Signed proposals will appear here.</p>
+        ) : (
+          <ul className="space-y-2">
+            {overview.documents.map((doc) => (
+              <li key={doc.certificateId}>
+                <button
+                  type="button"
+                  onClick={() => download.mutate(doc)}
+                  disabled={download.isPending}
+                  className="flex w-full items-center justify-between gap-2 text-sm hover:text-brand-red"
+                >
+                  <span className="flex items-center gap-2">
+                    <FileText className="h-4 w-4 text-gray-400" />
+                    Proposal #{doc.proposalNumber}
+                  </span>
+                  <span className="flex items-center gap-1 text-gray-500">
+                    {formatDate(doc.issuedAt)}
+                    <Download className="h-3 w-3" />
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ReceiptsCard({ overview }: { overview: PortalOverview }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Receipts</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {overview.receipts.length === 0 ? (
+          <p className="text-sm text-gray-500">No payments yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+            {overview.receipts.map((payment) => (
+              <li key={payment.id} className="flex items-center justify-between py-2 text-sm">
+                <div>
+                  <p className="font-medium capitalize">{payment.payment_type}</p>
+                  <p className="text-gray-500">{formatDate(payment.paid_at)}</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className={payment.status === 'refunded' ? 'line-through text-gray-400' : 'font-medium'}>
+                    {formatCurrency(payment.amount, payment.currency.toUpperCase())}
+                  </span>
+                  {payment.receipt_url && (
+                    <a
+                      href={payment.receipt_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-brand-red hover:underline"
+                      aria-label="Open receipt"
+                    >
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// ============================================================================
+// QUOTE REQUESTS
+// ============================================================================
+
+const EMPTY_QUOTE_REQUEST: QuoteRequestInput = {
+  description: '',
+  propertyAddress: '',
+  propertyCity: '',
+  propertyState: '',
+  propertyZip: '',
+  preferredDate: '',
+};
+
+function QuoteRequestCard({ overview, sessionToken }: { overview: PortalOverview; sessionToken: string }) {
+  const submit = useSubmitQuoteRequest(sessionToken);
+  const [form, setForm] = useState<QuoteRequestInput>(EMPTY_QUOTE_REQUEST);
+
+  const update = (field: keyof QuoteRequestInput, value: string) =>
+    setForm((prev) => ({ ...prev, [field]: value }));
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!form.description.trim()) return;
+    submit.mutate(form, { onSuccess: () => setForm(EMPTY_QUOTE_REQUEST) });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Request a quote</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <textarea
+            rows={3}
+            placeholder="What would you like done?"
+            value={form.description}
+            onChange={(e) => update('description', e.target.value)}
+            className={textareaClass}
+            required
+          />
+          <Input
+            placeholder="Property address"
+            value={form.propertyAddress}
+            onChange={(e) => update('propertyAddress', e.target.value)}
+          />
+          <div className="grid grid-cols-3 gap-2">
+            <Input placeholder="City" value={form.propertyCity} onChange={(e) => update('propertyCity', e.target.value)} />
+            <Input placeholder="State" value={form.propertyState} onChange={(e) => update('propertyState', e.target.value)} />
+            <Input placeholder="ZIP" value={form.propertyZip} onChange={(e) => update('propertyZip', e.target.value)} />
+          </div>
+          <div>
+            <label className="text-xs text-gray-500">Preferred date</label>
+            <Input type="date" value={form.preferredDate} onChange={(e) => update('preferredDate', e.target.value)} />
+          </div>
+          <Button
+            type="submit"
+            className="w-full"
+            isLoading={submit.isPending}
+            disabled={!form.description.trim()}
+            leftIcon={<Send className="h-4 w-4" />}
+          >
+            Send request
+          </Button>
+        </form>
+
+        {overview.quoteRequests.length > 0 && (
+          <ul className="space-y-2 pt-2 border-t border-gray-100 dark:border-gray-800">
+            {overview.quoteRequests.map((req) => (
+              <li key={req.id} className="text-sm">
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium truncate">{req.description}</p>
+                  {req.status === 'quoted' ? (
+                    <span className="flex items-center gap-1 text-green-700 text-xs">
+                      <CheckCircle className="h-3 w-3" /> Quoted
+                    </span>
+                  ) : (
+                    <span className="text-xs text-gray-500 capitalize">
+                      {req.status === 'new' ? 'Received' : req.status}
+                    </span>
+                  )}
+                </div>
+                <p className="text-gray-500 text-xs">{formatDate(req.createdAt)}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function TestimonialsCard({ branding }: { branding: PortalBranding }) {
   return (
-    <div className="min-h-screen bg-gray-50">
-      <h1 className="text-2xl font-bold">ClientPortal</h1>
-    </div>
+    <Card>
+      <CardHeader>
+        <CardTitle>What our clients say</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {branding.portal.testimonials.map((t) => (
+          <blockquote key={t.id} className="text-sm">
+            <p className="italic text-gray-700 dark:text-gray-300">&ldquo;{t.quote}&rdquo;</p>
+            <footer className="mt-1 text-gray-500">
+              {t.author}
+              {t.company && `, ${t.company}`}
+            </footer>
+          </blockquote>
+        ))}
+      </CardContent>
+    </Card>
   );
 }
@@ -1,11 +1,235 @@
 /**
- * PaymentPage Page
+ * Payment Page
+ * Public checkout for a proposal's deposit or next installment, with the
+ * client's receipts
  */
 
+import { useState, type FormEvent } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { loadStripe } from '@stripe/stripe-js';
+import { Elements, PaymentElement, useElements, useStripe } from '@stripe/react-stripe-js';
+import { CheckCircle, CreditCard, ExternalLink, Loader2, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { usePaymentSummary, useCreatePaymentIntent } from '@/hooks/usePayments';
+import type { PaymentIntentResponse } from '@/lib/payments/paymentsService';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { toast } from 'sonner';
+
+const stripePromise = loadStripe(import.meta.env.VITE_STRIPE_PUBLISHABLE_KEY);
+
 export default function PaymentPage() {
+  const { proposalId } = useParams();
+  const [searchParams] = useSearchParams();
+  // From the proposal email; signed-in portal clients don't need it
+  const proposalKey = searchParams.get('key');
+  const [intent, setIntent] = useState<PaymentIntentResponse | null>(null);
+  // Set after a payment succeeds, here or on return from a bank redirect
+  const [paidIntentId, setPaidIntentId] = useState<string | null>(() =>
+    searchParams.get('redirect_status') === 'succeeded' ? searchParams.get('payment_intent') : null
+  );
+
+  const { data: summary, isLoading, error } = usePaymentSummary(proposalId, proposalKey, paidIntentId);
+  const createIntent = useCreatePaymentIntent(proposalKey);
+
+  const awaitingReceipt = !!paidIntentId &&
+    !summary?.payments.some((p) => p.stripe_payment_intent_id === paidIntentId);
+
+  const handleStart = () => {
+    if (!proposalId) return;
+    createIntent.mutate(proposalId, { onSuccess: setIntent });
+  };
+
+  const handlePaid = (paymentIntentId: string) => {
+    setIntent(null);
+    setPaidIntentId(paymentIntentId);
+    toast.success('Payment received. Thank you!');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <Loader2 className="w-8 h-8 animate-spin text-brand-red" />
+      </div>
+    );
+  }
+
+  if (error || !summary) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <p className="text-gray-500">We couldn't find this proposal.</p>
+      </div>
+    );
+  }
+
+  const due = summary.amountDue;
+  const currency = summary.currency.toUpperCase();
+
   return (
-    <div className="min-h-screen bg-gray-50">
-      <h1 className="text-2xl font-bold">PaymentPage</h1>
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8">
+      <div className="max-w-2xl mx-auto px-4 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {summary.title || `Proposal ${summary.proposalNumber}`}
+            </CardTitle>
+            <p className="text-sm text-gray-500">Proposal #{summary.proposalNumber}</p>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500">Project total</p>
+                <p className="text-lg font-semibold">{formatCurrency(summary.total, currency)}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Paid so far</p>
+                <p className="text-lg font-semibold">{formatCurrency(summary.paidAmount, currency)}</p>
+              </div>
+            </div>
+
+            {awaitingReceipt ? (
+              <div className="flex items-center gap-2 p-4 rounded-lg bg-green-50 text-green-800 border border-green-200 text-sm">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Payment received. Your receipt will appear below in a moment.
+              </div>
+            ) : due ? (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                  <div>
+                    <p className="font-medium">{due.description}</p>
+                    {due.dueDate && (
+                      <p className="text-sm text-gray-500">Due {formatDate(due.dueDate)}</p>
+                    )}
+                  </div>
+                  <p className="text-xl font-bold">{formatCurrency(due.amount, currency)}</p>
+                </div>
+
+                {intent ? (
+                  <Elements stripe={stripePromise} options={{ clientSecret: intent.clientSecret }}>
+                    <CheckoutForm intent={intent} currency={currency} onPaid={handlePaid} />
+                  </Elements>
+                ) : (
+                  <Button
+                    className="w-full"
+                    size="lg"
+                    onClick={handleStart}
+                    isLoading={createIntent.isPending}
+                    leftIcon={<CreditCard className="h-4 w-4" />}
+                  >
+                    Pay {formatCurrency(due.amount, currency)}
+                  </Button>
+                )}
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 p-4 rounded-lg bg-gray-50 dark:bg-gray-800 text-sm text-gray-600 dark:text-gray-300">
+                <CheckCircle className="h-4 w-4 text-green-600" />
+                Nothing is due right now.
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Receipts</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {summary.payments.length === 0 ? (
+              <p className="text-sm text-gray-500">No payments yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+                {summary.payments.map((payment) => (
+                  <li key={payment.id} className="flex items-center justify-between py-3 text-sm">
+                    <div>
+                      <p className="font-medium capitalize">{payment.payment_type}</p>
+                      <p className="text-gray-500">{formatDate(payment.paid_at)}</p>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <span className={payment.status === 'refunded' ? 'line-through text-gray-400' : 'font-medium'}>
+                        {formatCurrency(payment.amount, payment.currency.toUpperCase())}
+                      </span>
+                      {payment.receipt_url && (
+                        <a
+                          href={payment.receipt_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="inline-flex items-center gap-1 text-brand-red hover:underline"
+                        >
+                          Receipt <ExternalLink className="h-3 w-3" />
+                        </a>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
     </div>
   );
 }
+
+// ============================================================================
+// CHECKOUT
+// ============================================================================
+
+function CheckoutForm({
+  intent,
+  currency,
+  onPaid,
+}: {
+  intent: PaymentIntentResponse;
+  currency: string;
+  onPaid: (paymentIntentId: string) => void;
+}) {
+  const stripe = useStripe();
+  const elements = useElements();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!stripe || !elements) return;
+
+    setIsSubmitting(true);
+    // Cards finish here; bank methods that redirect come back to this page,
+    // keeping the proposal key so the receipt still loads
+    const returnUrl = new URL(window.location.pathname, window.location.origin);
+    const proposalKey = new URLSearchParams(window.location.search).get('key');
+    if (proposalKey) returnUrl.searchParams.set('key', proposalKey);
+
+    const { error, paymentIntent } = await stripe.confirmPayment({
+      elements,
+      confirmParams: { return_url: returnUrl.toString() },
+      redirect: 'if_required',
+    });
+    setIsSubmitting(false);
+
+    if (error) {
+      toast.error(error.message || 'Payment failed');
+      return;
+    }
+    if (paymentIntent?.status === 'succeeded') {
+      onPaid(paymentIntent.id);
+    } else if (paymentIntent?.status === 'processing') {
+      toast.info('Your payment is processing. Your receipt will appear here once it clears.');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <PaymentElement />
+      <Button
+        type="submit"
+        className="w-full"
+        size="lg"
+        isLoading={isSubmitting}
+        disabled={!stripe || !elements}
+        leftIcon={<Lock className="h-4 w-4" />}
+      >
+        Pay {formatCurrency(intent.amountDue.amount, currency)}
+      </Button>
+      <p className="text-xs text-center text-gray-500">Payments are processed securely by Stripe.</p>
+    </form>
+  );
+}
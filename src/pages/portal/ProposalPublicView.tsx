@@ -1,11 +1,256 @@
 /**
  * ProposalPublicView Page
+ * A proposal as its emailed link shows it: scope, line items, totals and
+ * what's due, in the org's portal branding and in the section order its
+ * A/B test variant calls for
  */
 
+import type { ReactNode } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router-dom';
+import { CheckCircle, CreditCard, Download, FileText, Loader2 } from 'lucide-react';
+import PortalLayout from '@/components/layout/PortalLayout';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { usePortalProposal, useDownloadPortalDocument } from '@/hooks/usePortal';
+import { clientPortalService, PortalSessionError, type PortalProposalBlock } from '@/lib/portal/clientPortalService';
+import { formatCurrency, formatDate } from '@/lib/utils';
+
 export default function ProposalPublicView() {
+  const { proposalId } = useParams();
+  const [searchParams] = useSearchParams();
+  // The emailed link's key opens the proposal and its payment page without signing in
+  const proposalKey = searchParams.get('key');
+  const { data: view, isLoading, error } = usePortalProposal(proposalId, proposalKey);
+  const download = useDownloadPortalDocument({ key: proposalKey, sessionToken: clientPortalService.getStoredSession() });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <Loader2 className="w-8 h-8 animate-spin text-brand-red" />
+      </div>
+    );
+  }
+
+  if (error instanceof PortalSessionError) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <p className="text-gray-500">
+          Open this proposal from the link in its email, or{' '}
+          <Link to="/portal" className="text-brand-red hover:underline">sign in to your client portal</Link>.
+        </p>
+      </div>
+    );
+  }
+
+  if (error || !view) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900">
+        <p className="text-gray-500">We couldn't find this proposal.</p>
+      </div>
+    );
+  }
+
+  const { branding, proposal, documents, blocks } = view;
+
+  const renderBlock = (block: PortalProposalBlock): ReactNode => {
+    switch (block) {
+      case 'video':
+        return proposal.video && (
+          <Card key={block}>
+            <CardContent className="pt-6">
+              <video
+                src={proposal.video.url}
+                poster={proposal.video.thumbnailUrl || undefined}
+                controls
+                className="w-full rounded-lg"
+              />
+            </CardContent>
+          </Card>
+        );
+
+      case 'introduction':
+        return proposal.introduction && (
+          <Card key={block}>
+            <CardContent className="pt-6">
+              <p className="text-gray-700 dark:text-gray-300 whitespace-pre-line">{proposal.introduction}</p>
+            </CardContent>
+          </Card>
+        );
+
+      case 'scope':
+        return proposal.scopeOfWork && (
+          <Card key={block}>
+            <CardHeader>
+              <CardTitle>Scope of work</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line">{proposal.scopeOfWork}</p>
+            </CardContent>
+          </Card>
+        );
+
+      case 'pricing':
+        return (
+          <Card key={block}>
+            <CardContent className="pt-6 space-y-6">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-gray-200 dark:border-gray-700 text-left text-gray-500">
+                      <th className="py-2 font-medium">Item</th>
+                      <th className="py-2 font-medium text-right">Qty</th>
+                      <th className="py-2 font-medium text-right">Price</th>
+                      <th className="py-2 font-medium text-right">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                    {proposal.lineItems.map((item) => (
+                      <tr key={item.id}>
+                        <td className="py-2">
+                          <p className="font-medium">{item.name}</p>
+                          {item.description && <p className="text-gray-500">{item.description}</p>}
+                        </td>
+                        <td className="py-2 text-right">
+                          {item.quantity}{item.unit && ` ${item.unit}`}
+                        </td>
+                        <td className="py-2 text-right">{formatCurrency(item.unitPrice)}</td>
+                        <td className="py-2 text-right font-medium">{formatCurrency(item.total)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="ml-auto max-w-xs space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Subtotal</span>
+                  <span>{formatCurrency(proposal.subtotal)}</span>
+                </div>
+                {proposal.discountAmount > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">Discount</span>
+                    <span>-{formatCurrency(proposal.discountAmount)}</span>
+                  </div>
+                )}
+                {proposal.taxAmount > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-500">Tax</span>
+                    <span>{formatCurrency(proposal.taxAmount)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between pt-2 border-t border-gray-200 dark:border-gray-700 text-base font-semibold">
+                  <span>Total</span>
+                  <span>{formatCurrency(proposal.total)}</span>
+                </div>
+                {proposal.depositAmount > 0 && (
+                  <div className="flex justify-between text-gray-500">
+                    <span>Deposit</span>
+                    <span>
+                      {formatCurrency(proposal.depositAmount)}
+                      {proposal.depositPaidAt && ' (paid)'}
+                    </span>
+                  </div>
+                )}
+              </div>
+
+              {proposal.amountDue && (
+                <div className="flex flex-wrap items-center justify-between gap-4 p-4 rounded-lg border border-gray-200 dark:border-gray-700">
+                  <div>
+                    <p className="font-medium">{proposal.amountDue.description}</p>
+                    {proposal.amountDue.dueDate && (
+                      <p className="text-sm text-gray-500">Due {formatDate(proposal.amountDue.dueDate)}</p>
+                    )}
+                  </div>
+                  <Link to={`/portal/proposal/${proposal.id}/pay${proposalKey ? `?key=${encodeURIComponent(proposalKey)}` : ''}`}>
+                    <Button leftIcon={<CreditCard className="h-4 w-4" />}>
+                      Pay {formatCurrency(proposal.amountDue.amount)}
+                    </Button>
+                  </Link>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+
+      case 'terms':
+        return proposal.termsAndConditions && (
+          <Card key={block}>
+            <CardHeader>
+              <CardTitle>Terms &amp; conditions</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-gray-600 dark:text-gray-400 whitespace-pre-line">{proposal.termsAndConditions}</p>
+            </CardContent>
+          </Card>
+        );
+
+      case 'documents':
+        return documents.length > 0 && (
+          <Card key={block}>
+            <CardHeader>
+              <CardTitle>Signed documents</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-2">
+                {documents.map((doc) => (
+                  <li key={doc.certificateId}>
+                    <button
+                      type="button"
+                      onClick={() => download.mutate(doc)}
+                      disabled={download.isPending}
+                      className="flex w-full items-center justify-between gap-2 text-sm hover:text-brand-red"
+                    >
+                      <span className="flex items-center gap-2">
+                        <FileText className="h-4 w-4 text-gray-400" />
+                        Signed proposal · {formatDate(doc.issuedAt)}
+                      </span>
+                      <Download className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        );
+    }
+  };
+
   return (
-    <div className="min-h-screen bg-gray-50">
-      <h1 className="text-2xl font-bold">ProposalPublicView</h1>
-    </div>
+    <PortalLayout branding={branding}>
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex flex-wrap items-start justify-between gap-4">
+              <div>
+                <CardTitle>{proposal.title || `Proposal ${proposal.proposalNumber}`}</CardTitle>
+                <p className="text-sm text-gray-500">
+                  Proposal #{proposal.proposalNumber}
+                  {proposal.propertyAddress && ` · ${proposal.propertyAddress}`}
+                </p>
+                {proposal.validUntil && proposal.status !== 'accepted' && (
+                  <p className="text-sm text-gray-500">Valid until {formatDate(proposal.validUntil)}</p>
+                )}
+              </div>
+              {proposal.status === 'accepted' ? (
+                <span className="flex items-center gap-1 px-3 py-1 rounded-full bg-green-100 text-green-800 text-sm font-medium">
+                  <CheckCircle className="h-4 w-4" />
+                  Accepted{proposal.signedAt && ` ${formatDate(proposal.signedAt)}`}
+                </span>
+              ) : proposal.status === 'expired' || proposal.status === 'rejected' ? (
+                <span className="px-3 py-1 rounded-full bg-gray-100 text-gray-700 text-sm font-medium capitalize">
+                  {proposal.status}
+                </span>
+              ) : null}
+            </div>
+          </CardHeader>
+        </Card>
+
+        {blocks.map(renderBlock)}
+
+        <p className="text-center text-sm text-gray-500">
+          Already a client? <Link to={`/portal?org=${branding.orgSlug}`} className="text-brand-red hover:underline">Sign in to your portal</Link>
+        </p>
+      </div>
+    </PortalLayout>
   );
 }
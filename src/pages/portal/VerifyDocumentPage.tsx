@@ -0,0 +1,122 @@
+/**
+ * Verify Document Page
+ * Public page for checking a signed PDF against its certificate
+ */
+
+import { useState } from 'react';
+import { ShieldCheck, ShieldAlert, ShieldQuestion, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { eSignatureService, type SignedDocumentVerification } from '@/lib/esignature/eSignatureService';
+import { formatDate } from '@/lib/utils';
+import { toast } from 'sonner';
+
+const resultCopy = {
+  valid: {
+    icon: ShieldCheck,
+    className: 'bg-green-50 text-green-800 border-green-200',
+    title: 'Document is authentic',
+    body: 'This file is identical to the signed PDF we issued.',
+  },
+  tampered: {
+    icon: ShieldAlert,
+    className: 'bg-red-50 text-red-800 border-red-200',
+    title: 'Document has been altered',
+    body: 'This file names one of our certificates but does not match the signed PDF we issued.',
+  },
+  unknown: {
+    icon: ShieldQuestion,
+    className: 'bg-gray-50 text-gray-800 border-gray-200',
+    title: 'No matching certificate',
+    body: 'We did not issue this file, or it has been re-saved without its certificate.',
+  },
+};
+
+export default function VerifyDocumentPage() {
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<SignedDocumentVerification | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+
+  const handleVerify = async () => {
+    if (!file) return;
+    setIsVerifying(true);
+    try {
+      setResult(await eSignatureService.requestDocumentVerification(file));
+    } catch (error) {
+      toast.error('Failed to verify document');
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  const copy = result ? resultCopy[result.status] : null;
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 py-8">
+      <div className="max-w-2xl mx-auto px-4">
+        <Card>
+          <CardHeader>
+            <CardTitle>Verify a Signed Document</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <p className="text-sm text-gray-500">
+              Upload a signed proposal PDF to confirm it matches the copy recorded when it was signed.
+            </p>
+
+            <div className="flex items-center gap-3">
+              <label className="flex-1 flex items-center gap-2 px-4 py-3 rounded-lg border border-dashed border-gray-300 dark:border-gray-600 cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-800">
+                <Upload className="h-4 w-4 text-gray-400" />
+                <span className="text-sm truncate">{file ? file.name : 'Choose a PDF…'}</span>
+                <input
+                  type="file"
+                  accept="application/pdf"
+                  className="hidden"
+                  onChange={(e) => {
+                    setFile(e.target.files?.[0] || null);
+                    setResult(null);
+                  }}
+                />
+              </label>
+              <Button onClick={handleVerify} isLoading={isVerifying} disabled={!file}>
+                Verify
+              </Button>
+            </div>
+
+            {result && copy && (
+              <div className={`p-4 rounded-lg border ${copy.className}`}>
+                <div className="flex items-center gap-2 font-medium">
+                  <copy.icon className="h-5 w-5" />
+                  {copy.title}
+                </div>
+                <p className="text-sm mt-1">{copy.body}</p>
+
+                {result.status === 'valid' && (
+                  <dl className="mt-4 grid grid-cols-3 gap-y-1 text-xs">
+                    <dt className="font-medium">Certificate</dt>
+                    <dd className="col-span-2 font-mono break-all">{result.certificateId}</dd>
+                    <dt className="font-medium">Document SHA-256</dt>
+                    <dd className="col-span-2 font-mono break-all">{result.documentHash}</dd>
+                    {result.signedAt && (
+                      <>
+                        <dt className="font-medium">Completed</dt>
+                        <dd className="col-span-2">{formatDate(result.signedAt)}</dd>
+                      </>
+                    )}
+                    {result.signers.map((signer) => (
+                      <div key={signer.email} className="contents">
+                        <dt className="font-medium">Signed by</dt>
+                        <dd className="col-span-2">{signer.name} ({signer.email}) on {formatDate(signer.signedAt)}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                )}
+
+                <p className="mt-3 text-xs font-mono break-all opacity-70">File SHA-256 {result.fileHash}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
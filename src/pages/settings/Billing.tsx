@@ -40,6 +40,13 @@ import {
 import { cn, formatCurrency } from '@/lib/utils';
 import { useAuth } from '@/contexts/AuthContext';
 import { PlanBadge } from '@/components/entitlements/FeatureGate';
+import { useInvoices, useOverageEstimate } from '@/hooks/useBilling';
+import {
+  OVERAGE_UNIT_LABELS,
+  type Invoice,
+  type InvoiceLineItem,
+  type OverageEstimate,
+} from '@/lib/billing/billingService';
 
 // ============================================================================
 // TYPES
@@ -54,16 +61,6 @@ interface Plan {
   popular?: boolean;
 }
 
-interface Invoice {
-  id: string;
-  number: string;
-  date: string;
-  dueDate: string;
-  amount: number;
-  status: 'paid' | 'open' | 'void' | 'past_due';
-  pdfUrl: string;
-}
-
 interface PaymentMethod {
   id: string;
   type: 'card' | 'bank';
@@ -110,12 +107,6 @@ const plans: Plan[] = [
   },
 ];
 
-const mockInvoices: Invoice[] = [
-  { id: '1', number: 'INV-2026-0012', date: '2026-01-01', dueDate: '2026-01-01', amount: 79, status: 'paid', pdfUrl: '#' },
-  { id: '2', number: 'INV-2025-0011', date: '2025-12-01', dueDate: '2025-12-01', amount: 79, status: 'paid', pdfUrl: '#' },
-  { id: '3', number: 'INV-2025-0010', date: '2025-11-01', dueDate: '2025-11-01', amount: 79, status: 'paid', pdfUrl: '#' },
-];
-
 const mockPaymentMethods: PaymentMethod[] = [
   { id: '1', type: 'card', brand: 'Visa', last4: '4242', expMonth: 12, expYear: 2027, isDefault: true },
   { id: '2', type: 'card', brand: 'Mastercard', last4: '8888', expMonth: 6, expYear: 2026, isDefault: false },
@@ -129,15 +120,16 @@ export default function Billing() {
   const { organization } = useAuth();
   const [currentPlan, setCurrentPlan] = useState<string>('business');
   const [billingPeriod, setBillingPeriod] = useState<'monthly' | 'yearly'>('monthly');
-  const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [paymentMethods, setPaymentMethods] = useState<PaymentMethod[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [showUpgradeDialog, setShowUpgradeDialog] = useState(false);
   const [selectedPlan, setSelectedPlan] = useState<string | null>(null);
+  const invoicesQuery = useInvoices();
+  const overageQuery = useOverageEstimate();
+  const invoices = invoicesQuery.data || [];
 
   useEffect(() => {
     const timer = setTimeout(() => {
-      setInvoices(mockInvoices);
       setPaymentMethods(mockPaymentMethods);
       setIsLoading(false);
     }, 500);
@@ -146,7 +138,7 @@ export default function Billing() {
 
   const currentPlanData = plans.find((p) => p.id === currentPlan);
 
-  if (isLoading) {
+  if (isLoading || invoicesQuery.isLoading) {
     return <BillingSkeleton />;
   }
 
@@ -225,6 +217,8 @@ export default function Billing() {
         </CardContent>
       </Card>
 
+      {overageQuery.data?.isEnabled && <OverageCard estimate={overageQuery.data} />}
+
       <Tabs defaultValue="invoices">
         <TabsList>
           <TabsTrigger value="invoices" className="gap-2">
@@ -251,29 +245,11 @@ export default function Billing() {
             <CardContent>
               <div className="divide-y dark:divide-gray-700">
                 {invoices.map((invoice) => (
-                  <div key={invoice.id} className="flex items-center justify-between py-4">
-                    <div className="flex items-center gap-4">
-                      <div className="p-2 rounded-lg bg-gray-100 dark:bg-gray-800">
-                        <FileText className="w-5 h-5 text-gray-600 dark:text-gray-400" />
-                      </div>
-                      <div>
-                        <p className="font-medium text-gray-900 dark:text-white">{invoice.number}</p>
-                        <p className="text-sm text-gray-500">{new Date(invoice.date).toLocaleDateString()}</p>
-                      </div>
-                    </div>
-                    <div className="flex items-center gap-6">
-                      <Badge variant={invoice.status === 'paid' ? 'success' : invoice.status === 'past_due' ? 'destructive' : 'secondary'}>
-                        {invoice.status}
-                      </Badge>
-                      <span className="font-semibold text-gray-900 dark:text-white">
-                        {formatCurrency(invoice.amount)}
-                      </span>
-                      <Button variant="ghost" size="sm" leftIcon={<Download className="w-4 h-4" />}>
-                        PDF
-                      </Button>
-                    </div>
-                  </div>
+                  <InvoiceRow key={invoice.id} invoice={invoice} />
                 ))}
+                {invoices.length === 0 && (
+                  <p className="py-8 text-center text-sm text-gray-500">No invoices yet</p>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -407,6 +383,111 @@ export default function Billing() {
 // SUB-COMPONENTS
 // ============================================================================
 
+/** Stripe amounts are in cents */
+function formatCents(cents: number): string {
+  return formatCurrency(cents / 100);
+}
+
+function OverageCard({ estimate }: { estimate: OverageEstimate }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Zap className="w-5 h-5 text-amber-500" />
+          Usage Overage
+        </CardTitle>
+        <CardDescription>
+          Use past your plan limits this month, billed on your next invoice
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {estimate.items.length === 0 ? (
+          <p className="text-sm text-gray-500">You're within your plan limits this month.</p>
+        ) : (
+          <div className="space-y-2">
+            {estimate.items.map((item) => (
+              <div key={item.unit} className="flex items-center justify-between text-sm">
+                <span className="text-gray-600 dark:text-gray-400">
+                  {item.description} × {item.quantity.toLocaleString()} @ {formatCents(item.unitAmount)}
+                </span>
+                <span className="font-medium text-gray-900 dark:text-white">{formatCents(item.amount)}</span>
+              </div>
+            ))}
+            <div className="flex items-center justify-between pt-2 border-t dark:border-gray-700">
+              <span className="font-medium text-gray-900 dark:text-white">Estimated overage</span>
+              <span className="text-lg font-bold text-gray-900 dark:text-white">{formatCents(estimate.total)}</span>
+            </div>
+          </div>
+        )}
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-4 text-xs text-gray-500">
+          {Object.entries(estimate.prices).map(([unit, price]) => (
+            <span key={unit}>
+              {OVERAGE_UNIT_LABELS[unit as keyof typeof OVERAGE_UNIT_LABELS]}: {formatCents(price!.unitAmount)} each
+            </span>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function InvoiceRow({ invoice }: { invoice: Invoice }) {
+  const overageLines = invoice.lineItems.filter((line) => line.kind === 'overage');
+
+  return (
+    <div className="py-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4">
+          <div className="p-2 rounded-lg bg-gray-100 dark:bg-gray-800">
+            <FileText className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+          </div>
+          <div>
+            <p className="font-medium text-gray-900 dark:text-white">
+              {new Date(invoice.createdAt).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+            </p>
+            <p className="text-sm text-gray-500">{new Date(invoice.createdAt).toLocaleDateString()}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-6">
+          <Badge variant={invoice.status === 'paid' ? 'success' : invoice.status === 'uncollectible' ? 'destructive' : 'secondary'}>
+            {invoice.status}
+          </Badge>
+          <span className="font-semibold text-gray-900 dark:text-white">
+            {formatCents(invoice.amountDue)}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            leftIcon={<Download className="w-4 h-4" />}
+            disabled={!invoice.pdfUrl}
+            onClick={() => invoice.pdfUrl && window.open(invoice.pdfUrl, '_blank')}
+          >
+            PDF
+          </Button>
+        </div>
+      </div>
+      {overageLines.length > 0 && (
+        <div className="mt-3 ml-14 space-y-1">
+          {overageLines.map((line, i) => (
+            <InvoiceLine key={i} line={line} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function InvoiceLine({ line }: { line: InvoiceLineItem }) {
+  return (
+    <div className="flex items-center justify-between text-sm text-gray-500">
+      <span>
+        {line.unit ? OVERAGE_UNIT_LABELS[line.unit] : line.description} × {line.quantity.toLocaleString()}
+      </span>
+      <span>{formatCents(line.amount)}</span>
+    </div>
+  );
+}
+
 function PlanCard({
   plan,
   billingPeriod,
@@ -8,17 +8,22 @@ import { devtools, persist } from 'zustand/middleware';
 import { 
   generateId, 
   generateProposalNumber,
-  TIER_MULTIPLIERS,
-  CONDITION_MULTIPLIERS,
-  DEFAULT_PRICING,
 } from '@/lib/utils';
+import {
+  calculatePricing,
+  calculateTierTotals,
+  type PricingInput,
+  type PricingTier,
+  type SurfaceCondition,
+} from '@/lib/pricing';
+import type { SiteGeometry } from '@/lib/measurements';
+import type { ProposalPricingAssignment } from '@/lib/experiments';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-export type PricingTier = 'economy' | 'standard' | 'premium';
-export type SurfaceCondition = 'good' | 'fair' | 'poor';
+export type { PricingTier, SurfaceCondition };
 export type UrgencyLevel = 'standard' | 'priority' | 'emergency';
 export type ProposalStatus = 'draft' | 'pending_review' | 'sent' | 'viewed' | 'accepted' | 'rejected' | 'expired';
 
@@ -74,6 +79,8 @@ export interface ProposalFormData {
   measurements: Measurements;
   surfaceCondition: SurfaceCondition;
   conditionNotes: string;
+  /** Drawn site geometry the measurements were taken from */
+  siteGeometry: SiteGeometry | null;
   
   // Services
   selectedServices: string[];
@@ -98,6 +105,9 @@ export interface ProposalFormData {
   totalDiscountAmount: number;
   requiresApproval: boolean;
   approvalReason?: string;
+
+  // Pricing experiment variant or rolled-out defaults, set when the wizard opens
+  pricingAssignment: ProposalPricingAssignment | null;
   
   // Scheduling
   urgencyLevel: UrgencyLevel;
@@ -175,6 +185,7 @@ export interface ProposalState {
   nextStep: () => void;
   prevStep: () => void;
   recalculatePricing: () => void;
+  setPricingAssignment: (assignment: ProposalPricingAssignment) => void;
   applyDiscount: (discount: ProposalFormData['appliedDiscounts'][0]) => void;
   removeDiscount: (discountId: string) => void;
   clearDiscounts: () => void;
@@ -223,6 +234,7 @@ const initialFormData: ProposalFormData = {
   measurements: { ...initialMeasurements },
   surfaceCondition: 'fair',
   conditionNotes: '',
+  siteGeometry: null,
   
   selectedServices: [],
   customLineItems: [],
@@ -236,6 +248,7 @@ const initialFormData: ProposalFormData = {
   appliedDiscounts: [],
   totalDiscountAmount: 0,
   requiresApproval: false,
+  pricingAssignment: null,
   
   urgencyLevel: 'standard',
   preferredStartDate: '',
@@ -278,19 +291,33 @@ const initialPricing: PricingState = {
 };
 
 // ============================================================================
-// DEFAULT LINE ITEMS
+// PRICING INPUT
 // ============================================================================
 
-const DEFAULT_SERVICES = [
-  { id: 'sealcoating', name: 'Sealcoating', unit: 'sq ft', unitPrice: DEFAULT_PRICING.sealcoating.default },
-  { id: 'crack-filling', name: 'Crack Filling', unit: 'LF', unitPrice: DEFAULT_PRICING.crackFilling.default },
-  { id: 'pothole-repair', name: 'Pothole Repair', unit: 'each', unitPrice: DEFAULT_PRICING.pothole.default },
-  { id: 'line-striping', name: 'Line Striping', unit: 'lines', unitPrice: DEFAULT_PRICING.striping.default },
-  { id: 'ada-stalls', name: 'ADA/Handicap Stalls', unit: 'stalls', unitPrice: DEFAULT_PRICING.adaStall.default },
-  { id: 'arrows', name: 'Directional Arrows', unit: 'each', unitPrice: DEFAULT_PRICING.arrow.default },
-  { id: 'fire-lane', name: 'Fire Lane', unit: 'LF', unitPrice: DEFAULT_PRICING.fireLane.default },
-  { id: 'stencils', name: 'Custom Stencils', unit: 'each', unitPrice: DEFAULT_PRICING.stencil.default },
-];
+/** Applied discount id for a pricing experiment's or rolled-out discount offer */
+const PRICING_OFFER_ID = 'pricing-offer';
+
+/**
+ * Map wizard form data to pricing engine input
+ */
+export function buildPricingInput(formData: ProposalFormData): PricingInput {
+  return {
+    measurements: formData.measurements,
+    services: formData.selectedServices,
+    customItems: formData.customLineItems,
+    tier: formData.selectedTier,
+    condition: formData.surfaceCondition,
+    discounts: formData.appliedDiscounts.map((d) => ({
+      id: d.id,
+      name: d.sourceName,
+      type: d.discountType,
+      value: d.discountValue,
+    })),
+    taxRate: formData.taxRate,
+    depositPercent: formData.depositPercent,
+    tierMultipliers: formData.pricingAssignment?.tierMultipliers,
+  };
+}
 
 // ============================================================================
 // STORE
@@ -471,6 +498,32 @@ export const useProposalStore = create<ProposalState>()(
           get().recalculatePricing();
         },
 
+        setPricingAssignment: (assignment) => {
+          set((state) => {
+            // The assignment's discount offer replaces any earlier one
+            const appliedDiscounts = state.formData.appliedDiscounts.filter((d) => d.id !== PRICING_OFFER_ID);
+            if (assignment.discountPercent > 0) {
+              appliedDiscounts.push({
+                id: PRICING_OFFER_ID,
+                sourceType: assignment.experimentId ? 'pricing_experiment' : 'pricing_default',
+                sourceName: 'Limited-time offer',
+                discountType: 'percent',
+                discountValue: assignment.discountPercent,
+                discountAmount: 0,
+              });
+            }
+
+            return {
+              formData: {
+                ...state.formData,
+                pricingAssignment: assignment,
+                appliedDiscounts,
+              },
+            };
+          });
+          get().recalculatePricing();
+        },
+
         clearDiscounts: () => {
           set((state) => ({
             formData: {
@@ -486,102 +539,42 @@ export const useProposalStore = create<ProposalState>()(
         // Pricing calculation
         recalculatePricing: () => {
           const { formData } = get();
-          const { measurements, selectedServices, customLineItems, selectedTier, surfaceCondition, taxRate, depositPercent } = formData;
-          
-          // Build line items from selected services
-          const lineItems: LineItem[] = [];
-          
-          selectedServices.forEach((serviceId) => {
-            const service = DEFAULT_SERVICES.find((s) => s.id === serviceId);
-            if (!service) return;
-            
-            let quantity = 0;
-            switch (serviceId) {
-              case 'sealcoating':
-                quantity = measurements.netSqft;
-                break;
-              case 'crack-filling':
-                quantity = measurements.crackLinearFeet;
-                break;
-              case 'pothole-repair':
-                quantity = measurements.potholes;
-                break;
-              case 'line-striping':
-                quantity = measurements.parkingStalls;
-                break;
-              case 'ada-stalls':
-                quantity = measurements.adaStalls;
-                break;
-              case 'arrows':
-                quantity = measurements.arrows;
-                break;
-              case 'fire-lane':
-                quantity = measurements.fireLaneFeet;
-                break;
-              case 'stencils':
-                quantity = measurements.customStencils;
-                break;
-            }
-            
-            if (quantity > 0) {
-              lineItems.push({
-                id: generateId(),
-                serviceId,
-                name: service.name,
-                quantity,
-                unit: service.unit,
-                unitPrice: service.unitPrice,
-                total: quantity * service.unitPrice,
-                tier: 'all',
-              });
-            }
-          });
-          
-          // Add custom line items
-          lineItems.push(...customLineItems);
-          
-          // Calculate subtotal
-          const subtotal = lineItems.reduce((sum, item) => sum + item.total, 0);
-          
-          // Apply tier multiplier
-          const tierMultiplier = TIER_MULTIPLIERS[selectedTier];
-          const tieredSubtotal = subtotal * tierMultiplier;
-          
-          // Apply condition multiplier
-          const conditionMultiplier = CONDITION_MULTIPLIERS[surfaceCondition];
-          const conditionAdjustment = tieredSubtotal * (conditionMultiplier - 1);
-          const adjustedSubtotal = tieredSubtotal * conditionMultiplier;
-          
-          // Apply discounts
-          const discountAmount = formData.totalDiscountAmount;
-          const afterDiscount = adjustedSubtotal - discountAmount;
-          
-          // Calculate tax
-          const taxAmount = afterDiscount * taxRate;
-          
-          // Calculate total
-          const total = afterDiscount + taxAmount;
-          
-          // Calculate deposit
-          const depositAmount = total * (depositPercent / 100);
-          
-          // Calculate tier pricing for comparison
-          const tierPricing = {
-            economy: subtotal * TIER_MULTIPLIERS.economy * conditionMultiplier * (1 + taxRate),
-            standard: subtotal * TIER_MULTIPLIERS.standard * conditionMultiplier * (1 + taxRate),
-            premium: subtotal * TIER_MULTIPLIERS.premium * conditionMultiplier * (1 + taxRate),
-          };
-          
+          const input = buildPricingInput(formData);
+          const breakdown = calculatePricing(input);
+
+          const lineItems: LineItem[] = breakdown.lineItems.map((item) => ({
+            id: item.id,
+            serviceId: item.serviceId,
+            name: item.name,
+            description: item.description,
+            quantity: item.quantity,
+            unit: item.unit,
+            unitPrice: item.unitPrice,
+            total: item.total,
+            tier: 'all',
+          }));
+
+          // Keep the applied discounts in step with what the engine charged
+          const appliedDiscounts = formData.appliedDiscounts.map((d, i) => ({
+            ...d,
+            discountAmount: breakdown.discounts[i]?.amount ?? 0,
+          }));
+
           set({
+            formData: {
+              ...formData,
+              appliedDiscounts,
+              totalDiscountAmount: breakdown.discountAmount,
+            },
             pricing: {
-              subtotal,
-              conditionAdjustment,
-              adjustedSubtotal,
-              discountAmount,
-              taxAmount,
-              total,
-              depositAmount,
-              tierPricing,
+              subtotal: breakdown.subtotal,
+              conditionAdjustment: breakdown.conditionAdjustment,
+              adjustedSubtotal: breakdown.adjustedSubtotal,
+              discountAmount: breakdown.discountAmount,
+              taxAmount: breakdown.taxAmount,
+              total: breakdown.total,
+              depositAmount: breakdown.depositAmount,
+              tierPricing: calculateTierTotals(input),
               lineItems,
             },
           });
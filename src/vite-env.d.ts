@@ -8,6 +8,7 @@ interface ImportMetaEnv {
   readonly VITE_API_URL: string;
   readonly VITE_OPENWEATHER_API_KEY: string;
   readonly VITE_HUGGINGFACE_API_KEY: string;
+  readonly VITE_MAP_TILE_URL?: string;
 }
 
 interface ImportMeta {
@@ -3,6 +3,25 @@
  * Serverless API for email, webhooks, and integrations
  */
 
+import { createClient } from '@supabase/supabase-js';
+import { setSupabaseClient } from '../src/lib/supabase';
+import { handlePublicApi, API_PREFIX } from './publicApi';
+import { runScheduledWeatherReschedule, handleRescheduleNotify } from './weatherReschedule';
+import { handleVerifySignedDocument, handleCertificateDownload } from './signatures';
+import { runScheduledAutomation } from './automation';
+import { runScheduledBillingClose } from './billing';
+import { runScheduledWebhookDelivery } from './webhooks';
+import { handleStripeWebhook } from './stripeWebhooks';
+import { handleCreatePaymentIntent, handlePaymentSummary } from './payments';
+import { handlePortalRequest, escapeHtml } from './portal';
+import { withQuota, quotaExceededResponse, QUOTA_WARNING_HEADER } from './metering';
+import { authenticateStaff, signProposalKey, unauthorizedResponse, PROPOSAL_KEY_HEADER } from './auth';
+import { QuotaExceededError } from '../src/lib/usage/usageService';
+import { getProposal } from '../src/lib/proposal/proposalService';
+import { clientPortalService } from '../src/lib/portal/clientPortalService';
+import { createResendSender, setEmailSender } from '../src/lib/email/transactionalEmail';
+import { isValidEmail } from '../src/lib/utils';
+
 export interface Env {
   // Secrets
   SUPABASE_URL: string;
@@ -14,6 +33,8 @@ export interface Env {
   TWILIO_AUTH_TOKEN: string;
   TWILIO_PHONE_NUMBER: string;
   OPENWEATHERMAP_API_KEY: string;
+  CLERK_ISSUER: string;
+  PROPOSAL_LINK_SECRET: string;
   
   // Bindings
   PROPOSALS_BUCKET: R2Bucket;
@@ -26,15 +47,57 @@ export interface Env {
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Headers': `Content-Type, Authorization, X-API-Key, ${PROPOSAL_KEY_HEADER}`,
+  'Access-Control-Expose-Headers': QUOTA_WARNING_HEADER,
 };
 
+// ============================================================================
+// SUPABASE
+// ============================================================================
+
+let supabaseConfigured = false;
+
+/**
+ * Point the shared lib services at a service-role client.
+ * Lib services scope their queries by org, so RLS is not relied on here.
+ */
+function configureSupabase(env: Env): void {
+  if (supabaseConfigured) return;
+  setSupabaseClient(
+    createClient(env.SUPABASE_URL, env.SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    })
+  );
+  supabaseConfigured = true;
+}
+
+/** Let lib services that send email, such as automation actions, reach Resend */
+function configureEmail(env: Env): void {
+  setEmailSender(createResendSender(env.RESEND_API_KEY));
+}
+
+// ============================================================================
+// CRON TRIGGERS
+// ============================================================================
+
+/** Early morning, before crews head out (must match wrangler.toml) */
+const WEATHER_RESCHEDULE_CRON = '0 10 * * *';
+
+/** Delayed automation actions and time-based triggers (must match wrangler.toml) */
+const AUTOMATION_CRON = '*/5 * * * *';
+
+/** Closes finished months' overage and reports it to Stripe (must match wrangler.toml) */
+const BILLING_CLOSE_CRON = '0 6 * * *';
+
+/** Outbound webhook deliveries and retries (must match wrangler.toml) */
+const WEBHOOK_DELIVERY_CRON = '* * * * *';
+
 // ============================================================================
 // MAIN HANDLER
 // ============================================================================
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     // Handle CORS preflight
     if (request.method === 'OPTIONS') {
       return new Response(null, { headers: corsHeaders });
@@ -43,7 +106,18 @@ export default {
     const url = new URL(request.url);
     const path = url.pathname;
 
+    configureSupabase(env);
+    configureEmail(env);
+
     try {
+      // ================================================================
+      // PUBLIC REST API (v1)
+      // ================================================================
+
+      if (path === API_PREFIX || path.startsWith(`${API_PREFIX}/`)) {
+        return await handlePublicApi(request, ctx, corsHeaders);
+      }
+
       // ================================================================
       // EMAIL ENDPOINTS
       // ================================================================
@@ -68,12 +142,54 @@ export default {
         return await handleSendSMS(request, env);
       }
 
+      // ================================================================
+      // JOB ENDPOINTS
+      // ================================================================
+
+      if (path === '/api/jobs/reschedule-notify' && request.method === 'POST') {
+        return await handleRescheduleNotify(request, env, corsHeaders);
+      }
+
+      // ================================================================
+      // SIGNED DOCUMENTS
+      // ================================================================
+
+      if (path === '/api/signatures/verify' && request.method === 'POST') {
+        return await handleVerifySignedDocument(request, corsHeaders);
+      }
+
+      const certificateMatch = path.match(/^\/api\/certificates\/([0-9a-f-]{36})\/download$/);
+      if (certificateMatch && request.method === 'GET') {
+        return await handleCertificateDownload(request, env, certificateMatch[1], corsHeaders);
+      }
+
       // ================================================================
       // STRIPE WEBHOOKS
       // ================================================================
 
       if (path === '/api/webhooks/stripe' && request.method === 'POST') {
-        return await handleStripeWebhook(request, env);
+        return await handleStripeWebhook(request, env, corsHeaders);
+      }
+
+      // ================================================================
+      // PORTAL PAYMENTS
+      // ================================================================
+
+      if (path === '/api/payments/create-intent' && request.method === 'POST') {
+        return await handleCreatePaymentIntent(request, env, corsHeaders);
+      }
+
+      const paymentsMatch = path.match(/^\/api\/payments\/([0-9a-f-]{36})$/);
+      if (paymentsMatch && request.method === 'GET') {
+        return await handlePaymentSummary(request, env, paymentsMatch[1], corsHeaders);
+      }
+
+      // ================================================================
+      // CLIENT PORTAL
+      // ================================================================
+
+      if (path.startsWith('/api/portal/')) {
+        return await handlePortalRequest(request, env, corsHeaders);
       }
 
       // ================================================================
@@ -110,6 +226,10 @@ export default {
       });
 
     } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        return quotaExceededResponse(error, corsHeaders);
+      }
+
       console.error('Worker error:', error);
       return new Response(
         JSON.stringify({ error: 'Internal server error' }),
@@ -120,208 +240,269 @@ export default {
       );
     }
   },
+
+  async scheduled(event: ScheduledEvent, env: Env, ctx: ExecutionContext): Promise<void> {
+    configureSupabase(env);
+    configureEmail(env);
+
+    switch (event.cron) {
+      case WEATHER_RESCHEDULE_CRON:
+        ctx.waitUntil(runScheduledWeatherReschedule(env));
+        break;
+      case AUTOMATION_CRON:
+        ctx.waitUntil(runScheduledAutomation());
+        break;
+      case BILLING_CLOSE_CRON:
+        ctx.waitUntil(runScheduledBillingClose(env));
+        break;
+      case WEBHOOK_DELIVERY_CRON:
+        ctx.waitUntil(runScheduledWebhookDelivery());
+        break;
+    }
+  },
 };
 
 // ============================================================================
 // EMAIL HANDLERS
 // ============================================================================
 
-async function handleSendProposal(request: Request, env: Env): Promise<Response> {
-  const { to, proposalId, proposalNumber, clientName, total, viewUrl } = await request.json();
-
-  const response = await fetch('https://api.resend.com/emails', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${env.RESEND_API_KEY}`,
-      'Content-Type': 'application/json',
+/**
+ * Body of a follow-up or reminder send, with every field that goes into the
+ * email's HTML escaped; null when the recipient or link is unusable
+ */
+async function readProposalEmailBody(
+  request: Request,
+  countField: 'daysSinceSent' | 'expiresIn'
+): Promise<{ to: string; proposalNumber: string; html: { clientName: string; proposalNumber: string; count: string; viewUrl: string } } | null> {
+  const body = (await request.json().catch(() => ({}))) as Record<string, unknown>;
+  const { to, clientName, proposalNumber, viewUrl } = body;
+  if (typeof to !== 'string' || !isValidEmail(to)) return null;
+  if (typeof viewUrl !== 'string' || !/^https?:\/\//i.test(viewUrl)) return null;
+
+  return {
+    to,
+    proposalNumber: String(proposalNumber ?? ''),
+    html: {
+      clientName: escapeHtml(String(clientName ?? '')),
+      proposalNumber: escapeHtml(String(proposalNumber ?? '')),
+      count: escapeHtml(String(body[countField] ?? '')),
+      viewUrl: escapeHtml(viewUrl),
     },
-    body: JSON.stringify({
-      from: "Sommer's Sealcoating <proposals@sommersealcoating.com>",
-      to: [to],
-      subject: `Your Proposal ${proposalNumber} is Ready`,
-      html: `
-        <!DOCTYPE html>
-        <html>
-        <head>
-          <style>
-            body { font-family: 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; }
-            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-            .header { background: #C41E3A; padding: 30px; text-align: center; }
-            .header h1 { color: white; margin: 0; }
-            .content { padding: 30px; background: #f9f9f9; }
-            .cta { text-align: center; padding: 20px; }
-            .button { display: inline-block; background: #C41E3A; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; }
-            .footer { padding: 20px; text-align: center; color: #666; font-size: 12px; }
-          </style>
-        </head>
-        <body>
-          <div class="container">
-            <div class="header">
-              <h1>Sommer's Sealcoating</h1>
-            </div>
-            <div class="content">
-              <h2>Hello ${clientName},</h2>
-              <p>Your proposal <strong>${proposalNumber}</strong> is ready for review.</p>
-              <p>Total: <strong>$${total.toLocaleString()}</strong></p>
-              <div class="cta">
-                <a href="${viewUrl}" class="button">View Proposal</a>
-              </div>
-              <p>This proposal is valid for 30 days. If you have any questions, please don't hesitate to reach out.</p>
-            </div>
-            <div class="footer">
-              <p>© ${new Date().getFullYear()} Sommer's Sealcoating. All rights reserved.</p>
-            </div>
-          </div>
-        </body>
-        </html>
-      `,
-    }),
-  });
-
-  const result = await response.json();
+  };
+}
 
-  return new Response(JSON.stringify(result), {
-    status: response.ok ? 200 : 400,
+function invalidEmailBodyResponse(): Response {
+  return new Response(JSON.stringify({ error: 'A valid recipient email and http(s) viewUrl are required' }), {
+    status: 400,
     headers: { ...corsHeaders, 'Content-Type': 'application/json' },
   });
 }
 
-async function handleSendFollowup(request: Request, env: Env): Promise<Response> {
-  const { to, clientName, proposalNumber, daysSinceSent, viewUrl } = await request.json();
+async function handleSendProposal(request: Request, env: Env): Promise<Response> {
+  const auth = await authenticateStaff(request, env);
+  if (!auth) return unauthorizedResponse(corsHeaders);
+
+  const { to, proposalId, clientName } = (await request.json().catch(() => ({}))) as {
+    to?: unknown;
+    proposalId?: unknown;
+    clientName?: unknown;
+  };
+  if (typeof to !== 'string' || !isValidEmail(to) || typeof proposalId !== 'string') {
+    return new Response(JSON.stringify({ error: 'A valid recipient email and proposalId are required' }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
 
-  const response = await fetch('https://api.resend.com/emails', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${env.RESEND_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      from: "Sommer's Sealcoating <proposals@sommersealcoating.com>",
-      to: [to],
-      subject: `Following up on Proposal ${proposalNumber}`,
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2>Hello ${clientName},</h2>
-          <p>We wanted to follow up on your proposal ${proposalNumber} that we sent ${daysSinceSent} days ago.</p>
-          <p>If you have any questions or would like to discuss the proposal, please don't hesitate to reach out.</p>
-          <p style="text-align: center; padding: 20px;">
-            <a href="${viewUrl}" style="background: #C41E3A; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">
-              View Proposal
-            </a>
-          </p>
-          <p>Best regards,<br>Sommer's Sealcoating Team</p>
-        </div>
-      `,
-    }),
-  });
+  const proposal = await getProposal(proposalId);
+  if (!proposal || proposal.org_id !== auth.orgId) {
+    return new Response(JSON.stringify({ error: 'Proposal not found' }), {
+      status: 404,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
 
-  return new Response(JSON.stringify(await response.json()), {
-    status: response.ok ? 200 : 400,
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-  });
-}
+  // The link's host comes from the org's settings, never from the request,
+  // and its key lets the client pay without signing in
+  const proposalUrl = new URL(`/portal/proposal/${proposal.id}`, await clientPortalService.getPortalBaseUrl(proposal.org_id));
+  proposalUrl.searchParams.set('key', await signProposalKey(proposal.id, env));
+  const proposalNumber = escapeHtml(proposal.proposal_number);
+  const greeting = escapeHtml(typeof clientName === 'string' && clientName ? clientName : proposal.contact?.first_name || 'Customer');
 
-async function handleSendReminder(request: Request, env: Env): Promise<Response> {
-  const { to, clientName, proposalNumber, expiresIn, viewUrl } = await request.json();
+  return withQuota(auth.orgId, 'send_email', corsHeaders, async () => {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${env.RESEND_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: "Sommer's Sealcoating <proposals@sommersealcoating.com>",
+        to: [to],
+        subject: `Your Proposal ${proposal.proposal_number} is Ready`,
+        html: `
+          <!DOCTYPE html>
+          <html>
+          <head>
+            <style>
+              body { font-family: 'Helvetica Neue', Arial, sans-serif; line-height: 1.6; color: #333; }
+              .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+              .header { background: #C41E3A; padding: 30px; text-align: center; }
+              .header h1 { color: white; margin: 0; }
+              .content { padding: 30px; background: #f9f9f9; }
+              .cta { text-align: center; padding: 20px; }
+              .button { display: inline-block; background: #C41E3A; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold; }
+              .footer { padding: 20px; text-align: center; color: #666; font-size: 12px; }
+            </style>
+          </head>
+          <body>
+            <div class="container">
+              <div class="header">
+                <h1>Sommer's Sealcoating</h1>
+              </div>
+              <div class="content">
+                <h2>Hello ${greeting},</h2>
+                <p>Your proposal <strong>${proposalNumber}</strong> is ready for review.</p>
+                <p>Total: <strong>$${proposal.total.toLocaleString()}</strong></p>
+                <div class="cta">
+                  <a href="${proposalUrl}" class="button">View Proposal</a>
+                </div>
+                <p>This proposal is valid for 30 days. If you have any questions, please don't hesitate to reach out.</p>
+              </div>
+              <div class="footer">
+                <p>© ${new Date().getFullYear()} Sommer's Sealcoating. All rights reserved.</p>
+              </div>
+            </div>
+          </body>
+          </html>
+        `,
+      }),
+    });
 
-  const response = await fetch('https://api.resend.com/emails', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${env.RESEND_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      from: "Sommer's Sealcoating <proposals@sommersealcoating.com>",
-      to: [to],
-      subject: `Reminder: Proposal ${proposalNumber} Expires Soon`,
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2>Hello ${clientName},</h2>
-          <p>This is a friendly reminder that your proposal ${proposalNumber} will expire in <strong>${expiresIn} days</strong>.</p>
-          <p>Don't miss out on this offer!</p>
-          <p style="text-align: center; padding: 20px;">
-            <a href="${viewUrl}" style="background: #C41E3A; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">
-              View & Accept Proposal
-            </a>
-          </p>
-          <p>Best regards,<br>Sommer's Sealcoating Team</p>
-        </div>
-      `,
-    }),
-  });
+    const result = await response.json();
 
-  return new Response(JSON.stringify(await response.json()), {
-    status: response.ok ? 200 : 400,
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-  });
+    return new Response(JSON.stringify(result), {
+      status: response.ok ? 200 : 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }, { metadata: { template: 'proposal', proposalId } });
 }
 
-// ============================================================================
-// SMS HANDLER
-// ============================================================================
+async function handleSendFollowup(request: Request, env: Env): Promise<Response> {
+  const auth = await authenticateStaff(request, env);
+  if (!auth) return unauthorizedResponse(corsHeaders);
 
-async function handleSendSMS(request: Request, env: Env): Promise<Response> {
-  const { to, message } = await request.json();
+  const email = await readProposalEmailBody(request, 'daysSinceSent');
+  if (!email) return invalidEmailBodyResponse();
+  const { clientName, proposalNumber, count: daysSinceSent, viewUrl } = email.html;
 
-  const response = await fetch(
-    `https://api.twilio.com/2010-04-01/Accounts/${env.TWILIO_ACCOUNT_SID}/Messages.json`,
-    {
+  return withQuota(auth.orgId, 'send_email', corsHeaders, async () => {
+    const response = await fetch('https://api.resend.com/emails', {
       method: 'POST',
       headers: {
-        'Authorization': 'Basic ' + btoa(`${env.TWILIO_ACCOUNT_SID}:${env.TWILIO_AUTH_TOKEN}`),
-        'Content-Type': 'application/x-www-form-urlencoded',
+        'Authorization': `Bearer ${env.RESEND_API_KEY}`,
+        'Content-Type': 'application/json',
       },
-      body: new URLSearchParams({
-        To: to,
-        From: env.TWILIO_PHONE_NUMBER,
-        Body: message,
+      body: JSON.stringify({
+        from: "Sommer's Sealcoating <proposals@sommersealcoating.com>",
+        to: [email.to],
+        subject: `Following up on Proposal ${email.proposalNumber}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2>Hello ${clientName},</h2>
+            <p>We wanted to follow up on your proposal ${proposalNumber} that we sent ${daysSinceSent} days ago.</p>
+            <p>If you have any questions or would like to discuss the proposal, please don't hesitate to reach out.</p>
+            <p style="text-align: center; padding: 20px;">
+              <a href="${viewUrl}" style="background: #C41E3A; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">
+                View Proposal
+              </a>
+            </p>
+            <p>Best regards,<br>Sommer's Sealcoating Team</p>
+          </div>
+        `,
       }),
-    }
-  );
+    });
 
-  return new Response(JSON.stringify(await response.json()), {
-    status: response.ok ? 200 : 400,
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-  });
+    return new Response(JSON.stringify(await response.json()), {
+      status: response.ok ? 200 : 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }, { metadata: { template: 'followup' } });
 }
 
-// ============================================================================
-// STRIPE WEBHOOK HANDLER
-// ============================================================================
+async function handleSendReminder(request: Request, env: Env): Promise<Response> {
+  const auth = await authenticateStaff(request, env);
+  if (!auth) return unauthorizedResponse(corsHeaders);
 
-async function handleStripeWebhook(request: Request, env: Env): Promise<Response> {
-  const body = await request.text();
-  const signature = request.headers.get('stripe-signature');
+  const email = await readProposalEmailBody(request, 'expiresIn');
+  if (!email) return invalidEmailBodyResponse();
+  const { clientName, proposalNumber, count: expiresIn, viewUrl } = email.html;
 
-  // Verify webhook signature (simplified - use Stripe SDK in production)
-  if (!signature) {
-    return new Response(JSON.stringify({ error: 'Missing signature' }), {
-      status: 400,
+  return withQuota(auth.orgId, 'send_email', corsHeaders, async () => {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${env.RESEND_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: "Sommer's Sealcoating <proposals@sommersealcoating.com>",
+        to: [email.to],
+        subject: `Reminder: Proposal ${email.proposalNumber} Expires Soon`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2>Hello ${clientName},</h2>
+            <p>This is a friendly reminder that your proposal ${proposalNumber} will expire in <strong>${expiresIn} days</strong>.</p>
+            <p>Don't miss out on this offer!</p>
+            <p style="text-align: center; padding: 20px;">
+              <a href="${viewUrl}" style="background: #C41E3A; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">
+                View & Accept Proposal
+              </a>
+            </p>
+            <p>Best regards,<br>Sommer's Sealcoating Team</p>
+          </div>
+        `,
+      }),
+    });
+
+    return new Response(JSON.stringify(await response.json()), {
+      status: response.ok ? 200 : 400,
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
-  }
+  }, { metadata: { template: 'reminder' } });
+}
 
-  const event = JSON.parse(body);
+// ============================================================================
+// SMS HANDLER
+// ============================================================================
 
-  switch (event.type) {
-    case 'payment_intent.succeeded':
-      // Handle successful payment
-      console.log('Payment succeeded:', event.data.object.id);
-      // Update proposal status in Supabase
-      break;
+async function handleSendSMS(request: Request, env: Env): Promise<Response> {
+  const auth = await authenticateStaff(request, env);
+  if (!auth) return unauthorizedResponse(corsHeaders);
 
-    case 'payment_intent.payment_failed':
-      // Handle failed payment
-      console.log('Payment failed:', event.data.object.id);
-      break;
+  const { to, message } = await request.json();
 
-    default:
-      console.log('Unhandled event type:', event.type);
-  }
+  return withQuota(auth.orgId, 'send_sms', corsHeaders, async () => {
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${env.TWILIO_ACCOUNT_SID}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': 'Basic ' + btoa(`${env.TWILIO_ACCOUNT_SID}:${env.TWILIO_AUTH_TOKEN}`),
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          To: to,
+          From: env.TWILIO_PHONE_NUMBER,
+          Body: message,
+        }),
+      }
+    );
 
-  return new Response(JSON.stringify({ received: true }), {
-    status: 200,
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    return new Response(JSON.stringify(await response.json()), {
+      status: response.ok ? 200 : 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
   });
 }
 
@@ -385,6 +566,9 @@ async function handlePDFGeneration(request: Request, env: Env): Promise<Response
 // ============================================================================
 
 async function handleFileUpload(request: Request, env: Env): Promise<Response> {
+  const auth = await authenticateStaff(request, env);
+  if (!auth) return unauthorizedResponse(corsHeaders);
+
   const formData = await request.formData();
   const file = formData.get('file') as File;
 
@@ -395,23 +579,25 @@ async function handleFileUpload(request: Request, env: Env): Promise<Response> {
     });
   }
 
-  // Generate unique filename
-  const ext = file.name.split('.').pop();
-  const filename = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}.${ext}`;
-  const path = `uploads/${filename}`;
+  return withQuota(auth.orgId, 'upload_storage', corsHeaders, async () => {
+    // Generate unique filename
+    const ext = file.name.split('.').pop();
+    const filename = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}.${ext}`;
+    const path = `uploads/${filename}`;
 
-  // Upload to R2
-  await env.PROPOSALS_BUCKET.put(path, file.stream(), {
-    httpMetadata: {
-      contentType: file.type,
-    },
-  });
+    // Upload to R2
+    await env.PROPOSALS_BUCKET.put(path, file.stream(), {
+      httpMetadata: {
+        contentType: file.type,
+      },
+    });
 
-  // Return public URL (configure R2 public access)
-  const publicUrl = `https://images.sommersealcoating.com/${path}`;
+    // Return public URL (configure R2 public access)
+    const publicUrl = `https://images.sommersealcoating.com/${path}`;
 
-  return new Response(JSON.stringify({ url: publicUrl, filename }), {
-    status: 200,
-    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-  });
+    return new Response(JSON.stringify({ url: publicUrl, filename }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }, { quantity: file.size, metadata: { filename: file.name, contentType: file.type } });
 }
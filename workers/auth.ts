@@ -0,0 +1,220 @@
+/**
+ * Sommer's Proposal System - Worker Authentication
+ * Verifies the Clerk session token the app sends as a bearer token and
+ * resolves it to the caller's team member and org. Clients reach a
+ * proposal's payment endpoints with the key from their proposal email or
+ * with a portal session.
+ */
+
+import type { Env } from './api';
+import { supabase } from '../src/lib/supabase';
+import type { Tables } from '../src/lib/database.types';
+import { clientPortalService } from '../src/lib/portal/clientPortalService';
+
+export interface StaffAuth {
+  teamMemberId: string;
+  orgId: string;
+  role: string;
+}
+
+interface SessionTokenHeader {
+  alg?: string;
+  kid?: string;
+}
+
+interface SessionTokenPayload {
+  sub?: string;
+  iss?: string;
+  exp?: number;
+  nbf?: number;
+}
+
+interface Jwk extends JsonWebKey {
+  kid?: string;
+}
+
+/** How long fetched signing keys are trusted before Clerk is asked again */
+const JWKS_TTL_MS = 60 * 60 * 1000;
+
+/** Unknown key ids only trigger a refetch this often, so junk tokens can't hammer Clerk */
+const JWKS_MIN_REFRESH_MS = 5 * 60 * 1000;
+
+/** Allowed clock drift between Clerk and the worker */
+const CLOCK_SKEW_SECONDS = 5;
+
+let signingKeys: { keys: Map<string, CryptoKey>; fetchedAt: number } | null = null;
+
+/**
+ * Authenticate a request from a signed-in team member. Returns null when the
+ * token is missing, invalid or expired, or belongs to no active team member.
+ */
+export async function authenticateStaff(request: Request, env: Env): Promise<StaffAuth | null> {
+  const token = bearerToken(request);
+  if (!token) return null;
+
+  const userId = await verifySessionToken(token, env);
+  if (!userId) return null;
+
+  const { data } = await supabase
+    .from('team_members')
+    .select('id, org_id, role, status')
+    .eq('clerk_user_id', userId)
+    .maybeSingle();
+
+  const member = data as Pick<Tables<'team_members'>, 'id' | 'org_id' | 'role' | 'status'> | null;
+  if (!member || member.status !== 'active') return null;
+  return { teamMemberId: member.id, orgId: member.org_id, role: member.role };
+}
+
+export function unauthorizedResponse(corsHeaders: Record<string, string>): Response {
+  return new Response(JSON.stringify({ error: 'Authentication required' }), {
+    status: 401,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// ============================================================================
+// PROPOSAL ACCESS
+// ============================================================================
+
+/** Header carrying the proposal key from the emailed link */
+export const PROPOSAL_KEY_HEADER = 'X-Proposal-Key';
+
+/**
+ * Key that opens one proposal and its payment pages without signing in: an HMAC
+ * of the proposal id, added to the link in the proposal email
+ */
+export async function signProposalKey(proposalId: string, env: Env): Promise<string> {
+  const key = await getProposalKeySecret(env);
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`proposal:${proposalId}`));
+  return base64UrlEncode(new Uint8Array(signature));
+}
+
+/**
+ * Whether the request may see a proposal and its payments: it carries the
+ * proposal's key, or a portal session for the contact the proposal is for
+ */
+export async function authorizeProposalAccess(request: Request, env: Env, proposalId: string): Promise<boolean> {
+  const proposalKey = request.headers.get(PROPOSAL_KEY_HEADER);
+  if (proposalKey) {
+    const key = await getProposalKeySecret(env);
+    let signature: Uint8Array;
+    try {
+      signature = base64UrlDecode(proposalKey);
+    } catch {
+      return false;
+    }
+    return crypto.subtle.verify('HMAC', key, signature, new TextEncoder().encode(`proposal:${proposalId}`));
+  }
+
+  const sessionToken = bearerToken(request);
+  if (!sessionToken) return false;
+
+  const session = await clientPortalService.getSession(sessionToken);
+  if (!session) return false;
+
+  const { data: proposal } = await supabase
+    .from('proposals')
+    .select('id')
+    .eq('id', proposalId)
+    .eq('org_id', session.orgId)
+    .eq('contact_id', session.contactId)
+    .maybeSingle();
+
+  return !!proposal;
+}
+
+async function getProposalKeySecret(env: Env): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(env.PROPOSAL_LINK_SECRET),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+// ============================================================================
+// SESSION TOKENS
+// ============================================================================
+
+/**
+ * Check a Clerk session token's RS256 signature, issuer and lifetime.
+ * Returns the Clerk user id it was issued to.
+ */
+async function verifySessionToken(token: string, env: Env): Promise<string | null> {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  let header: SessionTokenHeader;
+  let payload: SessionTokenPayload;
+  try {
+    header = JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[0])));
+    payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(parts[1])));
+  } catch {
+    return null;
+  }
+
+  if (header.alg !== 'RS256' || !header.kid) return null;
+
+  const key = await getSigningKey(env, header.kid);
+  if (!key) return null;
+
+  const valid = await crypto.subtle.verify(
+    'RSASSA-PKCS1-v1_5',
+    key,
+    base64UrlDecode(parts[2]),
+    new TextEncoder().encode(`${parts[0]}.${parts[1]}`)
+  );
+  if (!valid) return null;
+
+  const now = Date.now() / 1000;
+  if (payload.iss !== env.CLERK_ISSUER) return null;
+  if (typeof payload.exp !== 'number' || payload.exp < now - CLOCK_SKEW_SECONDS) return null;
+  if (typeof payload.nbf === 'number' && payload.nbf > now + CLOCK_SKEW_SECONDS) return null;
+
+  return payload.sub || null;
+}
+
+async function getSigningKey(env: Env, kid: string): Promise<CryptoKey | null> {
+  const age = signingKeys ? Date.now() - signingKeys.fetchedAt : Infinity;
+  const known = signingKeys?.keys.get(kid);
+  if (known && age < JWKS_TTL_MS) return known;
+  if (!known && age < JWKS_MIN_REFRESH_MS) return null;
+
+  const response = await fetch(`${env.CLERK_ISSUER}/.well-known/jwks.json`);
+  if (!response.ok) return known ?? null;
+
+  const { keys } = (await response.json()) as { keys: Jwk[] };
+  const imported = new Map<string, CryptoKey>();
+  for (const jwk of keys) {
+    if (!jwk.kid || jwk.kty !== 'RSA') continue;
+    imported.set(
+      jwk.kid,
+      await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify'])
+    );
+  }
+
+  signingKeys = { keys: imported, fetchedAt: Date.now() };
+  return imported.get(kid) ?? null;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function bearerToken(request: Request): string | null {
+  const header = request.headers.get('Authorization') || '';
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
@@ -0,0 +1,53 @@
+/**
+ * Sommer's Proposal System - Automation Cron
+ * Drains due delayed actions, resumes waiting workflows and fires
+ * time-based automation triggers
+ */
+
+import {
+  runDueScheduledActions,
+  runDueWorkflowRuns,
+  runTimeTriggers,
+  CLAIM_BATCH_SIZE,
+} from '../src/lib/automation/automationScheduler';
+
+/** Batches per run, to stay well inside the cron CPU limit; the rest wait five minutes */
+const MAX_BATCHES_PER_RUN = 10;
+
+// ============================================================================
+// CRON
+// ============================================================================
+
+export async function runScheduledAutomation(): Promise<void> {
+  const workerId = crypto.randomUUID();
+
+  try {
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+      const summary = await runDueScheduledActions(workerId);
+      if (summary.claimed > 0) {
+        console.log(`Scheduled actions: ${summary.completed} completed, ${summary.retried} retried, ${summary.failed} failed, ${summary.cancelled} cancelled`);
+      }
+      if (summary.claimed < CLAIM_BATCH_SIZE) break;
+    }
+  } catch (err) {
+    // Time triggers still run when the action queue is unavailable
+    console.error('Scheduled actions run failed:', err);
+  }
+
+  try {
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+      const summary = await runDueWorkflowRuns(workerId);
+      if (summary.claimed > 0) {
+        console.log(`Workflow runs: ${summary.completed} completed, ${summary.exited} exited, ${summary.waiting} waiting, ${summary.failed} failed, ${summary.cancelled} cancelled`);
+      }
+      if (summary.claimed < CLAIM_BATCH_SIZE) break;
+    }
+  } catch (err) {
+    console.error('Workflow runs failed:', err);
+  }
+
+  const triggers = await runTimeTriggers();
+  if (triggers.fired > 0) {
+    console.log(`Time triggers: ${triggers.fired} fired across ${triggers.rulesChecked} rules`);
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * Sommer's Proposal System - Overage Billing
+ * Daily close of finished months: overage is recorded as charges and
+ * reported to Stripe as metered usage on the org's subscription
+ */
+
+import type { Env } from './api';
+import { billingService, type OverageCharge } from '../src/lib/billing/billingService';
+
+interface UsageRecordSummary {
+  id: string;
+  total_usage: number;
+  period: { start: number; end: number | null };
+}
+
+// ============================================================================
+// CRON
+// ============================================================================
+
+export async function runScheduledBillingClose(env: Env): Promise<void> {
+  const now = new Date();
+  const lastClosed = monthStart(now.getUTCFullYear(), now.getUTCMonth() - 1);
+
+  const subscriptions = await billingService.getOverageSubscriptions();
+
+  for (const subscription of subscriptions) {
+    try {
+      // The month's last capture is what it is billed on once it closes
+      await billingService.captureOverageSnapshot(subscription.orgId);
+    } catch (err) {
+      console.error(`Overage snapshot failed for org ${subscription.orgId}:`, err);
+    }
+
+    if (subscription.overageClosedThrough && subscription.overageClosedThrough >= lastClosed) continue;
+
+    // Catch up on every finished month since the last close, oldest first
+    let period = subscription.overageClosedThrough
+      ? nextPeriod(subscription.overageClosedThrough)
+      : lastClosed;
+
+    try {
+      while (period <= lastClosed) {
+        const charges = await billingService.closeOveragePeriod(subscription.orgId, period);
+        if (charges.length > 0) {
+          console.log(`Overage closed for org ${subscription.orgId} ${period}: ${charges.length} charge(s)`);
+        }
+        period = nextPeriod(period);
+      }
+    } catch (err) {
+      // Left unclosed; the next run picks it up again
+      console.error(`Overage close failed for org ${subscription.orgId}:`, err);
+    }
+  }
+
+  // Includes charges from earlier runs that Stripe rejected
+  const charges = await billingService.getUnreportedOverageCharges();
+  for (const charge of charges) {
+    try {
+      const usageRecordId = await reportUsage(env, charge);
+      await billingService.markOverageReported(charge.id, usageRecordId);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`Overage report failed for charge ${charge.id}:`, message);
+      await billingService.markOverageFailed(charge, message);
+    }
+  }
+}
+
+// ============================================================================
+// STRIPE
+// ============================================================================
+
+/**
+ * Report a charge as usage on the subscription item for its metered price,
+ * adding the price to the subscription first if it isn't on it yet. The
+ * usage lands on the subscription's next invoice.
+ */
+async function reportUsage(env: Env, charge: OverageCharge): Promise<string> {
+  const subscription = await billingService.getSubscription(charge.orgId);
+  if (!subscription?.stripeSubscriptionId) {
+    throw new Error('Org has no Stripe subscription');
+  }
+
+  const itemId = await findOrAddSubscriptionItem(env, subscription.stripeSubscriptionId, charge.stripePriceId);
+
+  // Idempotency keys don't outlive the daily retry, so ask Stripe whether
+  // the last attempt landed before sending the usage again
+  if (charge.usageTimestamp) {
+    const summaryId = await findReportedUsage(env, itemId, charge);
+    if (summaryId) return summaryId;
+  }
+
+  const sentAt = new Date();
+  await billingService.markOverageSending(charge.id, sentAt.toISOString());
+
+  // Keyed on the attempt so a lost response retried within it isn't billed twice
+  const record = await stripeRequest(env, 'POST', `/subscription_items/${itemId}/usage_records`, {
+    quantity: String(charge.quantity),
+    timestamp: String(Math.floor(sentAt.getTime() / 1000)),
+    action: 'increment',
+  }, `overage-${charge.id}-${sentAt.getTime()}`);
+
+  return record.id as string;
+}
+
+/**
+ * Whether the usage last sent for a charge reached Stripe: the item's usage
+ * for the period it was timestamped in, less what other charges are known
+ * to have reported there, still covers the charge. Charges are retried
+ * oldest first, so unexplained usage goes to the oldest. Returns the id of
+ * the usage summary it was found in.
+ */
+async function findReportedUsage(env: Env, itemId: string, charge: OverageCharge): Promise<string | null> {
+  const sentAt = Math.floor(new Date(charge.usageTimestamp as string).getTime() / 1000);
+
+  const summaries = await stripeRequest(env, 'GET', `/subscription_items/${itemId}/usage_record_summaries?limit=100`);
+  const summary = (summaries.data as UsageRecordSummary[]).find(
+    ({ period }) => period.start <= sentAt && (period.end === null || sentAt < period.end)
+  );
+  if (!summary) return null;
+
+  const known = await billingService.getReportedOverageQuantity(
+    charge.orgId,
+    charge.stripePriceId,
+    new Date(summary.period.start * 1000).toISOString(),
+    summary.period.end === null ? null : new Date(summary.period.end * 1000).toISOString()
+  );
+
+  return summary.total_usage - known >= charge.quantity ? summary.id : null;
+}
+
+async function findOrAddSubscriptionItem(
+  env: Env,
+  stripeSubscriptionId: string,
+  stripePriceId: string
+): Promise<string> {
+  const items = await stripeRequest(env, 'GET', `/subscription_items?subscription=${stripeSubscriptionId}&limit=100`);
+  const existing = (items.data as { id: string; price: { id: string } }[]).find(
+    (item) => item.price.id === stripePriceId
+  );
+  if (existing) return existing.id;
+
+  const item = await stripeRequest(env, 'POST', '/subscription_items', {
+    subscription: stripeSubscriptionId,
+    price: stripePriceId,
+  }, `overage-item-${stripeSubscriptionId}-${stripePriceId}`);
+
+  return item.id as string;
+}
+
+/**
+ * Form-encoded call to the Stripe API. Shared with the payment endpoints.
+ */
+export async function stripeRequest(
+  env: Env,
+  method: 'GET' | 'POST',
+  path: string,
+  params?: Record<string, string>,
+  idempotencyKey?: string
+): Promise<Record<string, unknown>> {
+  const headers: Record<string, string> = {
+    'Authorization': `Bearer ${env.STRIPE_SECRET_KEY}`,
+  };
+  if (params) headers['Content-Type'] = 'application/x-www-form-urlencoded';
+  if (idempotencyKey) headers['Idempotency-Key'] = idempotencyKey;
+
+  const response = await fetch(`https://api.stripe.com/v1${path}`, {
+    method,
+    headers,
+    body: params ? new URLSearchParams(params) : undefined,
+  });
+
+  const body = await response.json() as Record<string, unknown>;
+  if (!response.ok) {
+    const error = body.error as { message?: string } | undefined;
+    throw new Error(error?.message || `Stripe request failed: ${response.status}`);
+  }
+  return body;
+}
+
+// ============================================================================
+// PERIODS
+// ============================================================================
+
+/** First day of a month as YYYY-MM-DD; month may run past either end of the year */
+function monthStart(year: number, month: number): string {
+  return new Date(Date.UTC(year, month, 1)).toISOString().split('T')[0];
+}
+
+function nextPeriod(periodStart: string): string {
+  const start = new Date(`${periodStart}T00:00:00Z`);
+  return monthStart(start.getUTCFullYear(), start.getUTCMonth() + 1);
+}
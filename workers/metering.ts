@@ -0,0 +1,94 @@
+/**
+ * Sommer's Proposal System - Worker Metering
+ * Plan quotas for the worker's email, SMS and upload endpoints
+ */
+
+import {
+  usageService,
+  QuotaExceededError,
+  type MeteredAction,
+  type QuotaCheck,
+} from '../src/lib/usage/usageService';
+
+/** Response header carrying the soft-limit or overage notice */
+export const QUOTA_WARNING_HEADER = 'X-Quota-Warning';
+
+/**
+ * Reserve the org's quota, send, and give the units back unless it went out.
+ * Past a hard limit the request is answered with 402 and upgrade options;
+ * near the limit the response carries a warning header. The org must come
+ * from the caller's authentication, never from the request body.
+ */
+export async function withQuota(
+  orgId: string,
+  action: MeteredAction,
+  corsHeaders: Record<string, string>,
+  send: () => Promise<Response>,
+  options?: { quantity?: number; metadata?: Record<string, unknown> }
+): Promise<Response> {
+  const quantity = options?.quantity ?? 1;
+  let check: QuotaCheck;
+  try {
+    check = await usageService.reserveQuota(orgId, action, quantity);
+  } catch (error) {
+    if (error instanceof QuotaExceededError) return quotaExceededResponse(error, corsHeaders);
+    throw error;
+  }
+
+  let response: Response;
+  try {
+    response = await send();
+  } catch (error) {
+    await releaseQuota(orgId, action, quantity);
+    throw error;
+  }
+
+  if (!response.ok) {
+    await releaseQuota(orgId, action, quantity);
+    return response;
+  }
+
+  try {
+    await usageService.recordMeteredUsage(orgId, check, quantity, { metadata: options?.metadata, reserved: true });
+  } catch (err) {
+    console.error(`Failed to record ${action} usage for org ${orgId}:`, err);
+  }
+
+  if (check.level === 'ok') return response;
+
+  const headers = new Headers(response.headers);
+  headers.set(QUOTA_WARNING_HEADER, check.reason!);
+  return new Response(response.body, { status: response.status, headers });
+}
+
+async function releaseQuota(orgId: string, action: MeteredAction, quantity: number): Promise<void> {
+  try {
+    await usageService.releaseQuota(orgId, action, quantity);
+  } catch (err) {
+    console.error(`Failed to release ${action} quota for org ${orgId}:`, err);
+  }
+}
+
+export function quotaExceededResponse(
+  error: QuotaExceededError,
+  corsHeaders: Record<string, string>
+): Response {
+  return new Response(
+    JSON.stringify({ error: error.message, code: 'quota_exceeded', ...quotaErrorDetails(error) }),
+    {
+      status: 402,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+/** What the client needs to explain the limit and offer an upgrade */
+export function quotaErrorDetails(error: QuotaExceededError): Record<string, unknown> {
+  return {
+    quota: error.check?.quota,
+    limit: error.check?.status.limit,
+    used: error.check?.status.used,
+    upgrade: error.upgradeMessage,
+    upgradeOptions: error.check?.upgradeOptions ?? [],
+  };
+}
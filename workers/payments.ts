@@ -0,0 +1,130 @@
+/**
+ * Sommer's Proposal System - Portal Payments
+ * PaymentIntents for the client portal. The amount always comes from the
+ * proposal's deposit or its next installment; a client-sent amount is
+ * never read. Both endpoints need the proposal's emailed key or a portal
+ * session for the proposal's contact.
+ */
+
+import type { Env } from './api';
+import { stripeRequest } from './billing';
+import { authorizeProposalAccess } from './auth';
+import {
+  getAmountDue,
+  getPaymentSummary,
+  type PaymentIntentMetadata,
+} from '../src/lib/payments/paymentsService';
+import { toCents } from '../src/lib/pricing/pricingEngine';
+
+const UUID_PATTERN = /^[0-9a-f-]{36}$/;
+
+const FORBIDDEN_MESSAGE = 'Open this page from your proposal email or sign in to your client portal';
+
+function json(body: unknown, status: number, corsHeaders: Record<string, string>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// ============================================================================
+// PAYMENT INTENTS
+// ============================================================================
+
+export async function handleCreatePaymentIntent(
+  request: Request,
+  env: Env,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  let proposalId: unknown;
+  try {
+    ({ proposalId } = await request.json() as { proposalId?: unknown });
+  } catch {
+    return json({ error: 'Invalid JSON' }, 400, corsHeaders);
+  }
+
+  if (typeof proposalId !== 'string' || !UUID_PATTERN.test(proposalId)) {
+    return json({ error: 'proposalId is required' }, 400, corsHeaders);
+  }
+
+  if (!(await authorizeProposalAccess(request, env, proposalId))) {
+    return json({ error: FORBIDDEN_MESSAGE }, 401, corsHeaders);
+  }
+
+  const amountDue = await getAmountDue(proposalId);
+  if (!amountDue) {
+    return json({ error: 'Nothing is due on this proposal' }, 409, corsHeaders);
+  }
+
+  const metadata: PaymentIntentMetadata = {
+    org_id: amountDue.orgId,
+    proposal_id: amountDue.proposalId,
+    payment_type: amountDue.paymentType,
+    installment_id: amountDue.installmentId,
+  };
+
+  const amountCents = toCents(amountDue.amount);
+  const params: Record<string, string> = {
+    amount: String(amountCents),
+    currency: amountDue.currency,
+    description: amountDue.description,
+    'automatic_payment_methods[enabled]': 'true',
+  };
+  for (const [key, value] of Object.entries(metadata)) {
+    if (value) params[`metadata[${key}]`] = value;
+  }
+
+  // Reloading the page reuses the open intent instead of creating another.
+  // Every parameter is hashed into the key, so an edited amount or
+  // description gets a fresh intent rather than a Stripe key mismatch.
+  const target = amountDue.installmentId
+    ? `installment-${amountDue.installmentId}`
+    : `deposit-${amountDue.proposalId}`;
+  const idempotencyKey = `portal-${target}-${await hashParams(params)}`;
+  const intent = await stripeRequest(env, 'POST', '/payment_intents', params, idempotencyKey);
+
+  if (intent.status === 'succeeded') {
+    // Paid, but the webhook hasn't recorded it yet
+    return json({ error: 'This payment has already been made' }, 409, corsHeaders);
+  }
+
+  return json({
+    clientSecret: intent.client_secret,
+    paymentIntentId: intent.id,
+    amountDue,
+  }, 200, corsHeaders);
+}
+
+// ============================================================================
+// SUMMARY
+// ============================================================================
+
+export async function handlePaymentSummary(
+  request: Request,
+  env: Env,
+  proposalId: string,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  if (!(await authorizeProposalAccess(request, env, proposalId))) {
+    return json({ error: FORBIDDEN_MESSAGE }, 401, corsHeaders);
+  }
+
+  const summary = await getPaymentSummary(proposalId);
+
+  if (!summary) {
+    return json({ error: 'Proposal not found' }, 404, corsHeaders);
+  }
+
+  return json(summary, 200, corsHeaders);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** SHA-256 of the request parameters in key order, hex encoded */
+async function hashParams(params: Record<string, string>): Promise<string> {
+  const canonical = JSON.stringify(Object.keys(params).sort().map((key) => [key, params[key]]));
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
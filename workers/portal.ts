@@ -0,0 +1,237 @@
+/**
+ * Sommer's Proposal System - Client Portal
+ * Magic-link sign-in for contacts and the data behind their portal. Signed-in
+ * requests carry the session token as a bearer token; every read is scoped
+ * to that session's org and contact.
+ */
+
+import type { Env } from './api';
+import { authorizeProposalAccess, bearerToken } from './auth';
+import {
+  clientPortalService,
+  MAGIC_LINK_TTL_MINUTES,
+  QuoteRequestError,
+  type MagicLink,
+  type PortalSession,
+  type QuoteRequestInput,
+} from '../src/lib/portal/clientPortalService';
+import { usageService } from '../src/lib/usage/usageService';
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{3}([0-9a-f]{3})?$/i;
+
+function json(body: unknown, status: number, corsHeaders: Record<string, string>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// ============================================================================
+// ROUTER
+// ============================================================================
+
+export async function handlePortalRequest(
+  request: Request,
+  env: Env,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  const url = new URL(request.url);
+  const path = url.pathname.replace(/^\/api\/portal/, '');
+  const method = request.method;
+
+  if (path === '/branding' && method === 'GET') {
+    const orgSlug = url.searchParams.get('org');
+    const branding = orgSlug ? await clientPortalService.getBrandingBySlug(orgSlug) : null;
+    return branding
+      ? json(branding, 200, corsHeaders)
+      : json({ error: 'Portal not found' }, 404, corsHeaders);
+  }
+
+  if (path === '/magic-link' && method === 'POST') {
+    return handleMagicLink(request, env, corsHeaders);
+  }
+
+  if (path === '/sessions' && method === 'POST') {
+    return handleRedeemMagicLink(request, corsHeaders);
+  }
+
+  // A proposal opens with its emailed key or the contact's portal session
+  const proposalMatch = path.match(/^\/proposals\/([0-9a-f-]{36})$/);
+  if (proposalMatch && method === 'GET') {
+    if (!(await authorizeProposalAccess(request, env, proposalMatch[1]))) {
+      return json({ error: 'Open this proposal from its email or sign in to your client portal' }, 401, corsHeaders);
+    }
+    const view = await clientPortalService.getProposalView(proposalMatch[1], requestMetadata(request));
+    return view
+      ? json(view, 200, corsHeaders)
+      : json({ error: 'Proposal not found' }, 404, corsHeaders);
+  }
+
+  // Everything below needs a signed-in contact
+  const sessionToken = bearerToken(request);
+  const session = sessionToken ? await clientPortalService.getSession(sessionToken) : null;
+  if (!sessionToken || !session) {
+    return json({ error: 'Not signed in' }, 401, corsHeaders);
+  }
+
+  if (path === '/sessions' && method === 'DELETE') {
+    await clientPortalService.revokeSession(sessionToken);
+    return json({ signedOut: true }, 200, corsHeaders);
+  }
+
+  if (path === '/overview' && method === 'GET') {
+    return json(await clientPortalService.getOverview(session), 200, corsHeaders);
+  }
+
+  if (path === '/quote-requests' && method === 'POST') {
+    return handleQuoteRequest(request, session, corsHeaders);
+  }
+
+  return json({ error: 'Not found' }, 404, corsHeaders);
+}
+
+// ============================================================================
+// SIGN-IN
+// ============================================================================
+
+/**
+ * Always answers the same way, so the endpoint can't be used to find out
+ * which emails belong to clients. Throttled per IP and per email, so it
+ * can't be used to flood an inbox or the org's email quota either.
+ */
+async function handleMagicLink(
+  request: Request,
+  env: Env,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  const { email, org } = (await request.json().catch(() => ({}))) as { email?: unknown; org?: unknown };
+  if (typeof email !== 'string' || !email.includes('@')) {
+    return json({ error: 'A valid email is required' }, 400, corsHeaders);
+  }
+
+  const allowed = await clientPortalService.recordSignInRequest(email, requestMetadata(request).ipAddress);
+  if (!allowed) {
+    return json({ error: 'Too many sign-in requests, try again in a few minutes' }, 429, corsHeaders);
+  }
+
+  const links = await clientPortalService.createMagicLinks(email, typeof org === 'string' ? org : undefined);
+  for (const link of links) {
+    await sendMagicLink(env, link);
+  }
+
+  return json({ sent: true }, 200, corsHeaders);
+}
+
+async function handleRedeemMagicLink(
+  request: Request,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  const { token } = (await request.json().catch(() => ({}))) as { token?: unknown };
+  if (typeof token !== 'string' || token.length === 0) {
+    return json({ error: 'token is required' }, 400, corsHeaders);
+  }
+
+  const redeemed = await clientPortalService.redeemMagicLink(token, requestMetadata(request));
+  if (!redeemed) {
+    return json({ error: 'This sign-in link has expired or was already used' }, 401, corsHeaders);
+  }
+
+  return json({
+    sessionToken: redeemed.sessionToken,
+    expiresAt: redeemed.session.expiresAt,
+  }, 200, corsHeaders);
+}
+
+// Sign-in emails count against the org's email quota; a blocked or failed
+// send is logged and the client can ask again
+async function sendMagicLink(env: Env, link: MagicLink): Promise<void> {
+  if (!link.contact.email) return;
+
+  try {
+    // The link's host comes from the org's settings, never from the request
+    const [branding, baseUrl] = await Promise.all([
+      clientPortalService.getBranding(link.orgId),
+      clientPortalService.getPortalBaseUrl(link.orgId),
+    ]);
+    const companyName = branding?.companyName || "Sommer's Sealcoating";
+    // The colour goes into a style attribute, so only a plain hex colour is used
+    const primaryColor = branding?.primaryColor || '';
+    const color = HEX_COLOR_PATTERN.test(primaryColor) ? primaryColor : '#C41E3A';
+    const signInUrl = new URL('/portal', baseUrl);
+    signInUrl.searchParams.set('token', link.token);
+
+    await usageService.meter(link.orgId, 'send_email', async () => {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${env.RESEND_API_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          from: `${companyName.replace(/[<>"]/g, '')} <portal@sommersealcoating.com>`,
+          to: [link.contact.email],
+          subject: `Sign in to your ${companyName} client portal`,
+          html: `
+            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+              <h2>Hello ${escapeHtml(link.contact.firstName)},</h2>
+              <p>Use the button below to sign in to your ${escapeHtml(companyName)} client portal, where you can see your proposals, payments and upcoming work.</p>
+              <p style="text-align: center; padding: 20px;">
+                <a href="${escapeHtml(signInUrl.toString())}" style="display: inline-block; background: ${color}; color: white; padding: 15px 30px; text-decoration: none; border-radius: 8px; font-weight: bold;">Open my portal</a>
+              </p>
+              <p style="color: #666;">The link works once and expires in ${MAGIC_LINK_TTL_MINUTES} minutes. If you didn't ask for it, you can ignore this email.</p>
+            </div>
+          `,
+        }),
+      });
+
+      if (!response.ok) throw new Error(await response.text());
+    }, { metadata: { source: 'client_portal' } });
+  } catch (err) {
+    console.error(`Portal sign-in email for contact ${link.contact.id} failed:`, err);
+  }
+}
+
+// ============================================================================
+// QUOTE REQUESTS
+// ============================================================================
+
+async function handleQuoteRequest(
+  request: Request,
+  session: PortalSession,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  const input = (await request.json().catch(() => null)) as QuoteRequestInput | null;
+  if (!input || typeof input !== 'object') {
+    return json({ error: 'Invalid JSON' }, 400, corsHeaders);
+  }
+
+  try {
+    const quoteRequest = await clientPortalService.createQuoteRequest(session, input);
+    return json(quoteRequest, 201, corsHeaders);
+  } catch (error) {
+    if (error instanceof QuoteRequestError) {
+      return json({ error: error.message }, 400, corsHeaders);
+    }
+    throw error;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function requestMetadata(request: Request): { ipAddress?: string; userAgent?: string } {
+  return {
+    ipAddress: request.headers.get('CF-Connecting-IP') || undefined,
+    userAgent: request.headers.get('User-Agent') || undefined,
+  };
+}
@@ -0,0 +1,962 @@
+/**
+ * Sommer's Proposal System - Public REST API (v1)
+ * Serves the endpoints documented by publicApiService.getEndpoints()
+ */
+
+import {
+  publicApiService,
+  type ApiKey,
+  type ApiResponse,
+  type RateLimitInfo,
+} from '../src/lib/api/publicApiService';
+import { supabase } from '../src/lib/supabase';
+import type { Database } from '../src/lib/database.types';
+import {
+  createProposal,
+  getProposal,
+  updateProposal,
+  deleteProposal,
+  replaceLineItems,
+  type ProposalWithRelations,
+} from '../src/lib/proposal/proposalService';
+import { getContact, createContact, updateContact, type Contact } from '../src/lib/clients/clientsService';
+import { getDashboardStats, getPipelineMetrics } from '../src/lib/analytics/analyticsService';
+import {
+  calculatePricing,
+  getServiceQuantity,
+  TIER_MULTIPLIERS,
+  CONDITION_MULTIPLIERS,
+  DEFAULT_SERVICE_CATALOG,
+  type PricingBreakdown,
+  type PricingMeasurements,
+  type PricingTier,
+  type SurfaceCondition,
+} from '../src/lib/pricing/pricingEngine';
+import { integrationsHubService } from '../src/lib/integrations/integrationsHubService';
+import { normalizeWebhookEvent, type WebhookEvent } from '../src/lib/integrations/webhookEvents';
+import { usageService, QuotaExceededError, type QuotaCheck } from '../src/lib/usage/usageService';
+import { QUOTA_WARNING_HEADER, quotaErrorDetails } from './metering';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ApiContext {
+  apiKey: ApiKey;
+  orgId: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Record<string, unknown> | null;
+}
+
+interface HandlerResult {
+  status?: number;
+  data?: unknown;
+  meta?: ApiResponse['meta'];
+}
+
+type ApiHandler = (ctx: ApiContext) => Promise<HandlerResult>;
+
+type ProposalRow = Database['public']['Tables']['proposals']['Row'];
+type ProposalStatus = ProposalRow['status'];
+
+/** How a plain (non-pricing) field in a request body is checked; every kind also takes null */
+type FieldKind = 'text' | 'text_list' | 'whole_number' | 'uuid';
+
+class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const API_PREFIX = '/v1';
+
+// Every :id in the API is a row's UUID; anything else can't name a row
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const MAX_PER_PAGE = 100;
+const DEFAULT_PER_PAGE = 25;
+
+// Pricing inputs are checked separately by validatePricingFields
+const PROPOSAL_FIELDS: Partial<Record<keyof ProposalRow & string, FieldKind>> = {
+  title: 'text',
+  introduction: 'text',
+  scope_of_work: 'text',
+  terms_and_conditions: 'text',
+  property_name: 'text',
+  property_type: 'text',
+  property_address: 'text',
+  property_city: 'text',
+  property_state: 'text',
+  property_zip: 'text',
+  valid_days: 'whole_number',
+  assigned_to: 'uuid',
+};
+
+/**
+ * Status changes an API client may make. Sending and accepting go through
+ * their own flows, which record the send and the client's signature.
+ */
+const API_STATUS_TRANSITIONS: Partial<Record<ProposalStatus, ProposalStatus[]>> = {
+  sent: ['rejected', 'expired'],
+  viewed: ['rejected', 'expired'],
+  rejected: ['draft'],
+  expired: ['draft'],
+};
+
+// Only proposals no client has seen may be deleted; anything sent may have a
+// signature, payments or a job behind it
+const DELETABLE_STATUSES: ProposalStatus[] = ['draft', 'pending_review'];
+
+// Fields the stored totals are priced from; changing any of them re-prices the proposal
+const PRICING_FIELDS = ['tier', 'surface_condition', 'total_sqft', 'net_sqft', 'deposit_percent'];
+
+// Keys a request's measurements object may set; each is a non-negative count or size
+const MEASUREMENT_KEYS: (keyof PricingMeasurements)[] = [
+  'totalSqft',
+  'deductionSqft',
+  'netSqft',
+  'crackLinearFeet',
+  'crackBoxes',
+  'potholes',
+  'alligatorSqft',
+  'parkingStalls',
+  'adaStalls',
+  'arrows',
+  'fireLaneFeet',
+  'customStencils',
+];
+
+const CLIENT_FIELDS: Partial<Record<keyof Contact & string, FieldKind>> = {
+  first_name: 'text',
+  last_name: 'text',
+  email: 'text',
+  phone: 'text',
+  mobile: 'text',
+  title: 'text',
+  address: 'text',
+  city: 'text',
+  state: 'text',
+  zip: 'text',
+  source: 'text',
+  tags: 'text_list',
+  notes: 'text',
+};
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+/**
+ * Handle a /v1/* request: authenticate, check scopes and rate limit,
+ * dispatch to the endpoint handler and log the request.
+ */
+export async function handlePublicApi(
+  request: Request,
+  ctx: ExecutionContext,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  const startedAt = Date.now();
+  const url = new URL(request.url);
+  const path = url.pathname.slice(API_PREFIX.length) || '/';
+
+  let apiKey: ApiKey | undefined;
+  let orgId: string | undefined;
+  let body: Record<string, unknown> | null = null;
+  let rateLimit: RateLimitInfo | undefined;
+  let quota: QuotaCheck | undefined;
+  let status = 200;
+  let payload: ApiResponse;
+
+  try {
+    // Authenticate
+    const secretKey = extractApiKey(request);
+    if (!secretKey) {
+      throw new ApiError(401, 'unauthorized', 'Missing API key');
+    }
+
+    const validation = await publicApiService.validateApiKey(secretKey);
+    if (!validation.valid || !validation.apiKey || !validation.orgId) {
+      throw new ApiError(401, 'unauthorized', 'Invalid or expired API key');
+    }
+    apiKey = validation.apiKey;
+    orgId = validation.orgId;
+
+    // Resolve endpoint; a path parameter that isn't valid percent-encoding is the caller's error
+    let match: ReturnType<typeof publicApiService.matchEndpoint>;
+    try {
+      match = publicApiService.matchEndpoint(request.method, path);
+    } catch (error) {
+      if (error instanceof URIError) {
+        throw new ApiError(400, 'invalid_path', 'Path is not valid percent-encoding');
+      }
+      throw error;
+    }
+    if (!match) {
+      throw new ApiError(404, 'not_found', `No endpoint ${request.method} ${API_PREFIX}${path}`);
+    }
+    if (!match.endpoint) {
+      throw new ApiError(405, 'method_not_allowed', `${request.method} is not supported on ${API_PREFIX}${path}`);
+    }
+    const endpoint = match.endpoint;
+    if (Object.values(match.params).some((value) => !UUID_PATTERN.test(value))) {
+      throw new ApiError(404, 'not_found', `No resource at ${API_PREFIX}${path}`);
+    }
+
+    // Authorize
+    const missingScope = endpoint.requiredScopes.find(
+      (scope) => !publicApiService.hasScope(apiKey!, scope)
+    );
+    if (missingScope) {
+      throw new ApiError(403, 'forbidden', `API key is missing the ${missingScope} scope`);
+    }
+
+    // Rate limit
+    rateLimit = await publicApiService.checkRateLimit(apiKey.id, endpoint.path);
+    if (rateLimit.remaining <= 0) {
+      throw new ApiError(429, 'rate_limited', `Rate limit exceeded, resets at ${rateLimit.resetAt}`);
+    }
+
+    // Monthly plan quota; the call itself is metered when the request is logged
+    quota = await usageService.checkQuota(orgId, 'api_call');
+    if (!quota.allowed) {
+      throw new QuotaExceededError(quota.reason!, quota.upgrade, quota);
+    }
+
+    const handler = HANDLERS[`${endpoint.method} ${endpoint.path}`];
+    if (!handler) {
+      throw new ApiError(501, 'not_implemented', `${endpoint.method} ${endpoint.path} is not available yet`);
+    }
+
+    if (['POST', 'PUT', 'PATCH'].includes(endpoint.method)) {
+      body = await parseBody(request);
+    }
+
+    const result = await handler({
+      apiKey,
+      orgId,
+      params: match.params,
+      query: url.searchParams,
+      body,
+    });
+
+    status = result.status ?? 200;
+    payload = publicApiService.buildResponse(true, result.data, undefined, {
+      ...result.meta,
+      rateLimit,
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      status = error.status;
+      payload = publicApiService.formatError(error.code, error.message, error.details);
+    } else if (error instanceof QuotaExceededError) {
+      // Also raised by metered work inside a handler, e.g. creating a proposal
+      status = 402;
+      payload = publicApiService.formatError('quota_exceeded', error.message, quotaErrorDetails(error));
+    } else {
+      console.error('Public API error:', error);
+      status = 500;
+      payload = publicApiService.formatError('internal_error', 'Internal server error');
+    }
+  }
+
+  // Only authenticated requests are logged; they are what counts against the key
+  if (apiKey && orgId) {
+    ctx.waitUntil(
+      publicApiService
+        .logRequest({
+          orgId,
+          apiKeyId: apiKey.id,
+          endpoint: path,
+          method: request.method,
+          statusCode: status,
+          responseTime: Date.now() - startedAt,
+          ipAddress: request.headers.get('CF-Connecting-IP') || '',
+          userAgent: request.headers.get('User-Agent') || '',
+          requestBody: body,
+          responseBody: status >= 400 ? (payload as unknown as Record<string, unknown>) : null,
+          errorMessage: payload.error?.message ?? null,
+        }, quota)
+        .catch((error) => console.error('Failed to log API request:', error))
+    );
+  }
+
+  const headers: Record<string, string> = {
+    ...corsHeaders,
+    'Content-Type': 'application/json',
+  };
+  if (rateLimit) {
+    headers['X-RateLimit-Limit'] = String(rateLimit.limit);
+    headers['X-RateLimit-Remaining'] = String(Math.max(0, rateLimit.remaining - 1));
+    headers['X-RateLimit-Reset'] = rateLimit.resetAt;
+  }
+  if (quota && quota.allowed && quota.level !== 'ok') {
+    headers[QUOTA_WARNING_HEADER] = quota.reason!;
+  }
+
+  return new Response(status === 204 ? null : JSON.stringify(payload), { status, headers });
+}
+
+// ============================================================================
+// HANDLERS
+// ============================================================================
+
+const HANDLERS: Record<string, ApiHandler> = {
+  // --------------------------------------------------------------------------
+  // Proposals
+  // --------------------------------------------------------------------------
+
+  'GET /proposals': async ({ orgId, query }) => {
+    const { page, perPage, from, to } = getPagination(query);
+
+    let request = supabase
+      .from('proposals')
+      .select('*', { count: 'exact' })
+      .eq('org_id', orgId)
+      .order('created_at', { ascending: false })
+      .range(from, to);
+
+    const status = query.get('status');
+    const clientId = query.get('client_id');
+    if (status) request = request.eq('status', status);
+    if (clientId) request = request.eq('contact_id', parseUuidQuery(clientId, 'client_id'));
+
+    const { data, count, error } = await request;
+    if (error) throw error;
+
+    return { data: data || [], meta: { page, perPage, total: count ?? 0 } };
+  },
+
+  'GET /proposals/:id': async ({ orgId, params }) => {
+    const proposal = await getProposal(params.id);
+    if (!proposal || proposal.org_id !== orgId) {
+      throw new ApiError(404, 'not_found', 'Proposal not found');
+    }
+    return { data: proposal };
+  },
+
+  'POST /proposals': async ({ apiKey, orgId, body }) => {
+    const input = requireBody(body);
+    const clientId = input.client_id;
+    if (typeof clientId !== 'string') {
+      throw new ApiError(400, 'validation_error', 'client_id is required');
+    }
+    if (!UUID_PATTERN.test(clientId)) {
+      throw new ApiError(404, 'not_found', 'Client not found');
+    }
+    await assertClientInOrg(clientId, orgId);
+
+    const items = input.items ?? [];
+    if (!Array.isArray(items)) {
+      throw new ApiError(400, 'validation_error', 'items must be an array');
+    }
+    const customItems = items.map((raw: unknown, index) => {
+      if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+        throw new ApiError(400, 'validation_error', `items[${index}] must be an object`);
+      }
+      const item = raw as Record<string, unknown>;
+      const quantity = Number(item.quantity ?? 1);
+      const unitPrice = Number(item.unit_price);
+      if (typeof item.name !== 'string' || !Number.isFinite(quantity) || !Number.isFinite(unitPrice)) {
+        throw new ApiError(400, 'validation_error', `items[${index}] needs name, quantity and unit_price`);
+      }
+      if (quantity < 0 || unitPrice < 0) {
+        throw new ApiError(400, 'validation_error', `items[${index}] quantity and unit_price can't be negative`);
+      }
+      return {
+        serviceId: typeof item.service_id === 'string' ? item.service_id : undefined,
+        name: item.name,
+        description: typeof item.description === 'string' ? item.description : undefined,
+        quantity,
+        unit: String(item.unit ?? 'each'),
+        unitPrice,
+      };
+    });
+
+    const { tax_rate: taxRate, ...pricingFields } = validatePricingFields(input);
+    const measurements = {
+      ...validateMeasurements(input.measurements),
+      ...sqftMeasurements(pricingFields),
+    };
+
+    const pricing = calculatePricing({
+      measurements,
+      services: validateServices(input.services),
+      customItems,
+      tier: pricingFields.tier ?? 'standard',
+      condition: pricingFields.surface_condition ?? 'fair',
+      taxRate: taxRate ?? 0,
+      depositPercent: pricingFields.deposit_percent ?? 30,
+    });
+
+    const fields = pick<ProposalRow>(input, PROPOSAL_FIELDS);
+    if (fields.assigned_to) await assertTeamMemberInOrg(fields.assigned_to, orgId);
+
+    const proposal = await createProposal(orgId, apiKey.createdBy, {
+      ...fields,
+      ...pricingFields,
+      tax_rate: pricing.taxRate,
+      tier: pricing.tier,
+      surface_condition: pricing.condition,
+      deposit_percent: pricing.depositPercent,
+      contact_id: clientId,
+      measurements,
+      subtotal: pricing.subtotal,
+      discount_amount: pricing.discountAmount,
+      tax_amount: pricing.taxAmount,
+      total: pricing.total,
+      deposit_amount: pricing.depositAmount,
+    });
+
+    // A draft whose lines didn't save would show totals it has no lines for
+    try {
+      await replaceLineItems(proposal.id, pricing.lineItems.map((item, position) => ({
+        service_id: item.serviceId,
+        name: item.name,
+        description: item.description,
+        quantity: item.quantity,
+        unit: item.unit,
+        unit_price: item.unitPrice,
+        total: item.total,
+        tier: 'all',
+        position,
+      })));
+    } catch (error) {
+      await deleteProposal(proposal.id).catch((err) => {
+        console.error('Failed to remove proposal after its line items failed:', err);
+      });
+      throw error;
+    }
+
+    return { status: 201, data: proposal };
+  },
+
+  'PUT /proposals/:id': async ({ orgId, params, body }) => {
+    const currentStatus = await assertProposalInOrg(params.id, orgId);
+    const input = requireBody(body);
+    const { tax_rate: taxRate, ...pricingFields } = validatePricingFields(input);
+    const updates: Partial<ProposalRow> = { ...pick<ProposalRow>(input, PROPOSAL_FIELDS), ...pricingFields };
+    if (updates.assigned_to) await assertTeamMemberInOrg(updates.assigned_to, orgId);
+    if (Object.keys(updates).length === 0 && taxRate === undefined && input.status === undefined) {
+      throw new ApiError(400, 'validation_error', 'No updatable fields provided');
+    }
+
+    // Once sent, the content is what the client was shown (or signed); only
+    // the status may change
+    if ((Object.keys(updates).length > 0 || taxRate !== undefined) && currentStatus !== 'draft') {
+      throw new ApiError(409, 'conflict', `A ${currentStatus} proposal can only have its status changed`);
+    }
+    if (input.status !== undefined) {
+      updates.status = validateStatusChange(currentStatus, input.status);
+    }
+
+    // Stored totals always come from the engine, so a changed input re-prices
+    if (taxRate === undefined && !PRICING_FIELDS.some((field) => field in updates)) {
+      return { data: await updateProposal(params.id, updates) };
+    }
+
+    const current = await getProposal(params.id);
+    if (!current) throw new ApiError(404, 'not_found', 'Proposal not found');
+    const { pricing, lineItems, measurements } = repriceProposal(current, pricingFields, taxRate);
+
+    const saved = await updateProposal(params.id, {
+      ...updates,
+      measurements,
+      tax_rate: pricing.taxRate,
+      subtotal: pricing.subtotal,
+      discount_amount: pricing.discountAmount,
+      tax_amount: pricing.taxAmount,
+      total: pricing.total,
+      deposit_amount: pricing.depositAmount,
+    });
+    await replaceLineItems(params.id, lineItems);
+
+    return { data: saved };
+  },
+
+  'DELETE /proposals/:id': async ({ orgId, params }) => {
+    const currentStatus = await assertProposalInOrg(params.id, orgId);
+    if (!DELETABLE_STATUSES.includes(currentStatus)) {
+      throw new ApiError(409, 'conflict', `A ${currentStatus} proposal can't be deleted`);
+    }
+    await deleteProposal(params.id);
+    return { status: 204 };
+  },
+
+  // --------------------------------------------------------------------------
+  // Clients
+  // --------------------------------------------------------------------------
+
+  'GET /clients': async ({ orgId, query }) => {
+    const { page, perPage, from, to } = getPagination(query);
+
+    let request = supabase
+      .from('contacts')
+      .select('*, company:companies(id, name)', { count: 'exact' })
+      .eq('org_id', orgId)
+      .order('created_at', { ascending: false })
+      .range(from, to);
+
+    const search = query.get('search');
+    if (search) {
+      const pattern = quoteFilterValue(`%${escapeLikePattern(search)}%`);
+      request = request.or(
+        `first_name.ilike.${pattern},last_name.ilike.${pattern},email.ilike.${pattern}`
+      );
+    }
+
+    const { data, count, error } = await request;
+    if (error) throw error;
+
+    return { data: data || [], meta: { page, perPage, total: count ?? 0 } };
+  },
+
+  'GET /clients/:id': async ({ orgId, params }) => {
+    const client = await assertClientInOrg(params.id, orgId);
+    return { data: client };
+  },
+
+  'POST /clients': async ({ orgId, body }) => {
+    const input = requireBody(body);
+    const fields = pick<Contact>(input, CLIENT_FIELDS);
+
+    // Accept a single "name" as documented on the Developer page
+    if (!fields.first_name && typeof input.name === 'string') {
+      const [firstName, ...rest] = input.name.trim().split(/\s+/);
+      fields.first_name = firstName;
+      if (rest.length) fields.last_name = rest.join(' ');
+    }
+    if (!fields.first_name) {
+      throw new ApiError(400, 'validation_error', 'name or first_name is required');
+    }
+
+    return { status: 201, data: await createContact(orgId, fields) };
+  },
+
+  'PUT /clients/:id': async ({ orgId, params, body }) => {
+    await assertClientInOrg(params.id, orgId);
+    const updates = pick<Contact>(requireBody(body), CLIENT_FIELDS);
+    if (Object.keys(updates).length === 0) {
+      throw new ApiError(400, 'validation_error', 'No updatable fields provided');
+    }
+    return { data: await updateContact(params.id, updates) };
+  },
+
+  // --------------------------------------------------------------------------
+  // Payments
+  // --------------------------------------------------------------------------
+
+  'GET /payments': async ({ orgId, query }) => {
+    const { page, perPage, from, to } = getPagination(query);
+
+    let request = supabase
+      .from('payments')
+      .select('*', { count: 'exact' })
+      .eq('org_id', orgId)
+      .order('created_at', { ascending: false })
+      .range(from, to);
+
+    const proposalId = query.get('proposal_id');
+    const status = query.get('status');
+    if (proposalId) request = request.eq('proposal_id', parseUuidQuery(proposalId, 'proposal_id'));
+    if (status) request = request.eq('status', status);
+
+    const { data, count, error } = await request;
+    if (error) throw error;
+
+    return { data: data || [], meta: { page, perPage, total: count ?? 0 } };
+  },
+
+  'GET /payments/:id': async ({ orgId, params }) => {
+    const { data, error } = await supabase
+      .from('payments')
+      .select('*')
+      .eq('id', params.id)
+      .eq('org_id', orgId)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+    if (!data) throw new ApiError(404, 'not_found', 'Payment not found');
+    return { data };
+  },
+
+  // --------------------------------------------------------------------------
+  // Analytics
+  // --------------------------------------------------------------------------
+
+  'GET /analytics/overview': async ({ orgId }) => ({
+    data: await getDashboardStats(orgId),
+  }),
+
+  'GET /analytics/pipeline': async ({ orgId }) => ({
+    data: await getPipelineMetrics(orgId),
+  }),
+
+  // --------------------------------------------------------------------------
+  // Webhooks
+  // --------------------------------------------------------------------------
+
+  'GET /webhooks': async ({ orgId }) => {
+    const endpoints = await integrationsHubService.getWebhookEndpoints(orgId);
+    // Secrets are only returned once, at creation
+    return { data: endpoints.map(({ secret, ...endpoint }) => endpoint) };
+  },
+
+  'GET /webhooks/events': async () => {
+    return { data: integrationsHubService.getWebhookEvents() };
+  },
+
+  'POST /webhooks': async ({ orgId, body }) => {
+    const input = requireBody(body);
+    if (typeof input.url !== 'string' || !/^https:\/\//.test(input.url)) {
+      throw new ApiError(400, 'validation_error', 'url must be an https URL');
+    }
+
+    if (!Array.isArray(input.events) || input.events.length === 0) {
+      throw new ApiError(400, 'validation_error', 'events must be a non-empty array');
+    }
+    // Legacy names such as proposal.accepted are mapped onto the catalog
+    const events = input.events.map((e) => (typeof e === 'string' ? normalizeWebhookEvent(e) : null));
+    const unknown = input.events.filter((_, i) => !events[i]);
+    if (unknown.length) {
+      throw new ApiError(400, 'validation_error', `Unknown events: ${unknown.join(', ')}`);
+    }
+
+    const endpoint = await integrationsHubService.createWebhookEndpoint(
+      orgId,
+      input.url,
+      [...new Set(events as WebhookEvent[])],
+      { name: typeof input.name === 'string' ? input.name : undefined, source: 'api' }
+    );
+    return { status: 201, data: endpoint };
+  },
+
+  'DELETE /webhooks/:id': async ({ orgId, params }) => {
+    const endpoints = await integrationsHubService.getWebhookEndpoints(orgId);
+    if (!endpoints.some((e) => e.id === params.id)) {
+      throw new ApiError(404, 'not_found', 'Webhook endpoint not found');
+    }
+    await integrationsHubService.deleteWebhookEndpoint(params.id);
+    return { status: 204 };
+  },
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function extractApiKey(request: Request): string | null {
+  const header = request.headers.get('X-API-Key');
+  if (header) return header.trim();
+
+  const authorization = request.headers.get('Authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  return null;
+}
+
+async function parseBody(request: Request): Promise<Record<string, unknown>> {
+  try {
+    const body = await request.json();
+    if (body && typeof body === 'object' && !Array.isArray(body)) {
+      return body as Record<string, unknown>;
+    }
+  } catch {
+    // fall through
+  }
+  throw new ApiError(400, 'invalid_body', 'Request body must be a JSON object');
+}
+
+function requireBody(body: Record<string, unknown> | null): Record<string, unknown> {
+  if (!body) throw new ApiError(400, 'invalid_body', 'Request body is required');
+  return body;
+}
+
+/** The listed fields a request sets, each checked against its kind */
+function pick<T>(source: Record<string, unknown>, fields: Partial<Record<keyof T & string, FieldKind>>): Partial<T> {
+  const result: Record<string, unknown> = {};
+  for (const [field, kind] of Object.entries(fields) as [string, FieldKind][]) {
+    const value = source[field];
+    if (value === undefined) continue;
+    if (value !== null && !matchesFieldKind(value, kind)) {
+      throw new ApiError(400, 'validation_error', `${field} must be ${FIELD_KIND_LABELS[kind]}`);
+    }
+    result[field] = value;
+  }
+  return result as Partial<T>;
+}
+
+const FIELD_KIND_LABELS: Record<FieldKind, string> = {
+  text: 'a string',
+  text_list: 'an array of strings',
+  whole_number: 'a whole number of at least 1',
+  uuid: 'a UUID',
+};
+
+function matchesFieldKind(value: unknown, kind: FieldKind): boolean {
+  switch (kind) {
+    case 'text':
+      return typeof value === 'string';
+    case 'text_list':
+      return Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+    case 'whole_number':
+      return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+    case 'uuid':
+      return typeof value === 'string' && UUID_PATTERN.test(value);
+  }
+}
+
+/** The status a request moves a proposal to, if API clients may make that change */
+function validateStatusChange(current: ProposalStatus, status: unknown): ProposalStatus {
+  const allowed = API_STATUS_TRANSITIONS[current] ?? [];
+  if (typeof status !== 'string' || !allowed.includes(status as ProposalStatus)) {
+    throw new ApiError(
+      400,
+      'validation_error',
+      allowed.length > 0
+        ? `A ${current} proposal can only be moved to ${allowed.join(' or ')}`
+        : `A ${current} proposal's status can't be changed through the API`
+    );
+  }
+  return status as ProposalStatus;
+}
+
+// Match the search term literally: LIKE wildcards in it are escaped
+function escapeLikePattern(term: string): string {
+  return term.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+// Double-quote a value inside an or() filter so commas, dots and parentheses
+// in it can't start another condition
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/["\\]/g, (c) => `\\${c}`)}"`;
+}
+
+/**
+ * Check the pricing inputs a request sets and return them parsed. Lookups
+ * are own-property only, so names like "toString" are rejected rather than
+ * priced as NaN.
+ */
+function validatePricingFields(input: Record<string, unknown>): {
+  tier?: PricingTier;
+  surface_condition?: SurfaceCondition;
+  total_sqft?: number;
+  net_sqft?: number;
+  tax_rate?: number;
+  deposit_percent?: number;
+} {
+  const result: ReturnType<typeof validatePricingFields> = {};
+
+  if (input.tier !== undefined) {
+    if (typeof input.tier !== 'string' || !Object.prototype.hasOwnProperty.call(TIER_MULTIPLIERS, input.tier)) {
+      throw new ApiError(400, 'validation_error', 'tier must be economy, standard or premium');
+    }
+    result.tier = input.tier as PricingTier;
+  }
+  if (input.surface_condition !== undefined) {
+    if (
+      typeof input.surface_condition !== 'string' ||
+      !Object.prototype.hasOwnProperty.call(CONDITION_MULTIPLIERS, input.surface_condition)
+    ) {
+      throw new ApiError(400, 'validation_error', 'surface_condition must be good, fair or poor');
+    }
+    result.surface_condition = input.surface_condition as SurfaceCondition;
+  }
+
+  result.total_sqft = parseNumberField(input, 'total_sqft', 0, Infinity);
+  result.net_sqft = parseNumberField(input, 'net_sqft', 0, Infinity);
+  result.tax_rate = parseNumberField(input, 'tax_rate', 0, 1);
+  result.deposit_percent = parseNumberField(input, 'deposit_percent', 0, 100);
+
+  for (const key of Object.keys(result) as (keyof typeof result)[]) {
+    if (result[key] === undefined) delete result[key];
+  }
+  return result;
+}
+
+function parseNumberField(
+  input: Record<string, unknown>,
+  field: string,
+  min: number,
+  max: number,
+  label = field
+): number | undefined {
+  const raw = input[field];
+  if (raw === undefined) return undefined;
+
+  const value = typeof raw === 'number' || (typeof raw === 'string' && raw.trim() !== '') ? Number(raw) : NaN;
+  if (!Number.isFinite(value) || value < min || value > max) {
+    const range = max === Infinity ? `at least ${min}` : `between ${min} and ${max}`;
+    throw new ApiError(400, 'validation_error', `${label} must be a number ${range}`);
+  }
+  return value;
+}
+
+/** A request's measurements, each checked as a number; unknown keys are rejected */
+function validateMeasurements(raw: unknown): Partial<PricingMeasurements> {
+  if (raw === undefined) return {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new ApiError(400, 'validation_error', 'measurements must be an object');
+  }
+
+  const input = raw as Record<string, unknown>;
+  const unknownKey = Object.keys(input).find((key) => !MEASUREMENT_KEYS.includes(key as keyof PricingMeasurements));
+  if (unknownKey) {
+    throw new ApiError(400, 'validation_error', `measurements.${unknownKey} is not a known measurement`);
+  }
+
+  const result: Partial<PricingMeasurements> = {};
+  for (const key of MEASUREMENT_KEYS) {
+    const value = parseNumberField(input, key, 0, Infinity, `measurements.${key}`);
+    if (value !== undefined) result[key] = value;
+  }
+  return result;
+}
+
+// total_sqft and net_sqft feed the engine's area measurements
+function sqftMeasurements(fields: { total_sqft?: number; net_sqft?: number }): Partial<PricingMeasurements> {
+  return {
+    ...(fields.total_sqft !== undefined && { totalSqft: fields.total_sqft }),
+    ...(fields.net_sqft !== undefined && { netSqft: fields.net_sqft }),
+  };
+}
+
+/** Catalog service ids to price from the measurements; unknown ids are rejected */
+function validateServices(services: unknown): string[] {
+  if (services === undefined) return [];
+  if (!Array.isArray(services)) {
+    throw new ApiError(400, 'validation_error', 'services must be an array of service ids');
+  }
+  return services.map((id, index) => {
+    if (typeof id !== 'string' || !DEFAULT_SERVICE_CATALOG.some((service) => service.id === id)) {
+      throw new ApiError(400, 'validation_error', `services[${index}] is not a catalog service id`);
+    }
+    return id;
+  });
+}
+
+/**
+ * Price a stored proposal with some inputs changed. Lines keep their
+ * quantity and price, as in the editor, except catalog services measured by
+ * area, which follow the new square footage. The discount carries over from
+ * the stored totals, and the stored tax rate applies unless one is given.
+ */
+function repriceProposal(
+  current: ProposalWithRelations,
+  updates: Omit<ReturnType<typeof validatePricingFields>, 'tax_rate'>,
+  taxRate?: number
+): {
+  pricing: PricingBreakdown;
+  lineItems: Parameters<typeof replaceLineItems>[1];
+  measurements: Partial<PricingMeasurements>;
+} {
+  const measurements: Partial<PricingMeasurements> = {
+    ...((current.measurements as Partial<PricingMeasurements> | null) ?? {}),
+    ...sqftMeasurements({
+      total_sqft: updates.total_sqft ?? current.total_sqft ?? undefined,
+      net_sqft: updates.net_sqft ?? current.net_sqft ?? undefined,
+    }),
+  };
+
+  const items = [...(current.line_items ?? [])]
+    .sort((a, b) => a.position - b.position)
+    .map((item) => {
+      const entry = DEFAULT_SERVICE_CATALOG.find((s) => s.id === item.service_id);
+      const byArea = entry && (entry.measurementKey === 'netSqft' || entry.measurementKey === 'totalSqft');
+      return { ...item, quantity: byArea ? getServiceQuantity(entry, measurements) : item.quantity };
+    });
+
+  const pricing = calculatePricing({
+    measurements: {},
+    services: [],
+    customItems: items.map((item) => ({
+      id: item.id,
+      serviceId: item.service_id,
+      name: item.name,
+      description: item.description,
+      quantity: item.quantity,
+      unit: item.unit,
+      unitPrice: item.unit_price,
+    })),
+    tier: updates.tier ?? current.tier,
+    condition: updates.surface_condition ?? current.surface_condition ?? 'fair',
+    discounts: current.discount_amount > 0
+      ? [{ id: 'discount', name: 'Discount', type: 'fixed', value: current.discount_amount }]
+      : [],
+    taxRate: taxRate ?? current.tax_rate ?? 0,
+    depositPercent: updates.deposit_percent ?? current.deposit_percent ?? 0,
+  });
+
+  return {
+    pricing,
+    measurements,
+    lineItems: items.map(({ id: _id, proposal_id: _proposalId, ...item }, position) => ({
+      ...item,
+      position,
+      total: pricing.lineItems[position].total,
+    })),
+  };
+}
+
+function parseUuidQuery(value: string, name: string): string {
+  if (!UUID_PATTERN.test(value)) {
+    throw new ApiError(400, 'validation_error', `${name} must be a UUID`);
+  }
+  return value;
+}
+
+function getPagination(query: URLSearchParams) {
+  const page = Math.max(1, parseInt(query.get('page') || '1', 10) || 1);
+  const perPage = Math.min(
+    MAX_PER_PAGE,
+    Math.max(1, parseInt(query.get('per_page') || String(DEFAULT_PER_PAGE), 10) || DEFAULT_PER_PAGE)
+  );
+  const from = (page - 1) * perPage;
+  return { page, perPage, from, to: from + perPage - 1 };
+}
+
+/** The proposal's current status, once it is known to belong to the org */
+async function assertProposalInOrg(proposalId: string, orgId: string): Promise<ProposalStatus> {
+  const { data, error } = await supabase
+    .from('proposals')
+    .select('id, status')
+    .eq('id', proposalId)
+    .eq('org_id', orgId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new ApiError(404, 'not_found', 'Proposal not found');
+  return (data as Pick<ProposalRow, 'status'>).status;
+}
+
+async function assertTeamMemberInOrg(teamMemberId: string, orgId: string): Promise<void> {
+  const { data, error } = await supabase
+    .from('team_members')
+    .select('id')
+    .eq('id', teamMemberId)
+    .eq('org_id', orgId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new ApiError(404, 'not_found', 'Team member not found');
+}
+
+async function assertClientInOrg(clientId: string, orgId: string) {
+  const client = await getContact(clientId);
+  if (!client || client.org_id !== orgId) {
+    throw new ApiError(404, 'not_found', 'Client not found');
+  }
+  return client;
+}
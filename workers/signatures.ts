@@ -0,0 +1,111 @@
+/**
+ * Sommer's Proposal System - Signed Document Endpoints
+ * Download of issued signed PDFs for the proposal's client and team, and
+ * public tamper checks on uploaded copies
+ */
+
+import type { Env } from './api';
+import { supabase } from '../src/lib/supabase';
+import { eSignatureService } from '../src/lib/esignature/eSignatureService';
+import { authenticateStaff, authorizeProposalAccess } from './auth';
+
+/** Signed proposals are a few pages; anything far larger is not one of ours */
+const MAX_VERIFY_BYTES = 20 * 1024 * 1024;
+
+function json(body: unknown, status: number, corsHeaders: Record<string, string>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+/**
+ * Accepts the PDF as a multipart `file` field or as a raw application/pdf body
+ */
+export async function handleVerifySignedDocument(
+  request: Request,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  const contentType = request.headers.get('Content-Type') || '';
+  let bytes: ArrayBuffer;
+
+  if (contentType.startsWith('multipart/form-data')) {
+    const file = (await request.formData()).get('file') as File | null;
+    if (!file || typeof file === 'string') {
+      return json({ error: 'No file provided' }, 400, corsHeaders);
+    }
+    bytes = await file.arrayBuffer();
+  } else {
+    bytes = await request.arrayBuffer();
+  }
+
+  if (bytes.byteLength === 0) {
+    return json({ error: 'No file provided' }, 400, corsHeaders);
+  }
+  if (bytes.byteLength > MAX_VERIFY_BYTES) {
+    return json({ error: 'File too large' }, 413, corsHeaders);
+  }
+
+  const verification = await eSignatureService.verifySignedDocument(bytes, {
+    ipAddress: request.headers.get('CF-Connecting-IP') || undefined,
+    userAgent: request.headers.get('User-Agent') || undefined,
+  });
+
+  return json(verification, 200, corsHeaders);
+}
+
+// ============================================================================
+// DOWNLOAD
+// ============================================================================
+
+/**
+ * The signed PDF names its signers, so only the proposal's client (by its
+ * key or a portal session) or its org's team may download it. Anyone else
+ * gets the same 404 as for an unknown certificate.
+ */
+export async function handleCertificateDownload(
+  request: Request,
+  env: Env,
+  certificateId: string,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  const certificate = await eSignatureService.getCertificateById(certificateId);
+  if (!certificate || !(await canDownloadCertificate(request, env, certificate.proposalId))) {
+    return json({ error: 'Signed document not found' }, 404, corsHeaders);
+  }
+
+  const pdf = await eSignatureService.downloadSignedDocument(certificateId);
+
+  if (!pdf) {
+    return json({ error: 'Signed document not found' }, 404, corsHeaders);
+  }
+
+  return new Response(pdf, {
+    status: 200,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="signed-${certificateId}.pdf"`,
+    },
+  });
+}
+
+async function canDownloadCertificate(request: Request, env: Env, proposalId: string): Promise<boolean> {
+  if (await authorizeProposalAccess(request, env, proposalId)) return true;
+
+  const auth = await authenticateStaff(request, env);
+  if (!auth) return false;
+
+  const { data: proposal } = await supabase
+    .from('proposals')
+    .select('id')
+    .eq('id', proposalId)
+    .eq('org_id', auth.orgId)
+    .maybeSingle();
+
+  return !!proposal;
+}
@@ -0,0 +1,309 @@
+/**
+ * Sommer's Proposal System - Stripe Webhooks
+ * Verifies the Stripe-Signature header, stores each event once in
+ * stripe_events and routes it: payment intents to proposal payments,
+ * subscription and invoice events to billing.
+ *
+ * Stripe retries any non-2xx response, so a failed event is answered with
+ * a 500 and processed again on the retry. Events already processed are
+ * acknowledged without being run twice.
+ */
+
+import type { Env } from './api';
+import { supabase } from '../src/lib/supabase';
+import { billingService } from '../src/lib/billing/billingService';
+import { stripeRequest } from './billing';
+import {
+  recordStripePayment,
+  recordFailedPayment,
+  type PaymentIntentMetadata,
+  type StripePaymentInput,
+} from '../src/lib/payments/paymentsService';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface StripeEvent {
+  id: string;
+  type: string;
+  livemode: boolean;
+  data: { object: Record<string, unknown> };
+}
+
+type ClaimResult = 'claimed' | 'processed' | 'busy';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Stripe's recommended window; older signatures may be replays */
+export const STRIPE_SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/** An event stuck in 'processing' this long belongs to a request that died */
+const PROCESSING_TIMEOUT_MINUTES = 5;
+
+const BILLING_EVENT_PREFIXES = ['customer.subscription.', 'invoice.'];
+
+function json(body: unknown, status: number, corsHeaders: Record<string, string>): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// ============================================================================
+// HANDLER
+// ============================================================================
+
+export async function handleStripeWebhook(
+  request: Request,
+  env: Env,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  if (!env.STRIPE_WEBHOOK_SECRET) {
+    console.error('STRIPE_WEBHOOK_SECRET is not set');
+    return json({ error: 'Webhook secret not configured' }, 500, corsHeaders);
+  }
+
+  // The signature covers the exact bytes, so verify before parsing
+  const body = await request.text();
+  const verified = await verifyStripeSignature(
+    body,
+    request.headers.get('stripe-signature'),
+    env.STRIPE_WEBHOOK_SECRET
+  );
+  if (!verified) {
+    return json({ error: 'Invalid signature' }, 400, corsHeaders);
+  }
+
+  let event: StripeEvent;
+  try {
+    event = JSON.parse(body);
+  } catch {
+    return json({ error: 'Invalid payload' }, 400, corsHeaders);
+  }
+  if (!event.id || !event.type || !event.data?.object) {
+    return json({ error: 'Invalid payload' }, 400, corsHeaders);
+  }
+
+  const claim = await claimEvent(event);
+  if (claim === 'processed') {
+    return json({ received: true, duplicate: true }, 200, corsHeaders);
+  }
+  if (claim === 'busy') {
+    // Another request has it; Stripe will retry and find it processed
+    return json({ error: 'Event is already being processed' }, 409, corsHeaders);
+  }
+
+  try {
+    await routeEvent(event, env);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Stripe event ${event.id} (${event.type}) failed:`, message);
+    await finishEvent(event.id, 'failed', message);
+    return json({ error: 'Event processing failed' }, 500, corsHeaders);
+  }
+
+  await finishEvent(event.id, 'processed');
+  return json({ received: true }, 200, corsHeaders);
+}
+
+// ============================================================================
+// SIGNATURE
+// ============================================================================
+
+/**
+ * Check a Stripe-Signature header (`t=<unix>,v1=<hex>[,v1=<hex>]`) against
+ * an HMAC-SHA256 of `${t}.${payload}`. Several v1 entries appear while a
+ * secret is being rolled; any one matching is enough.
+ */
+export async function verifyStripeSignature(
+  payload: string,
+  header: string | null,
+  secret: string,
+  toleranceSeconds: number = STRIPE_SIGNATURE_TOLERANCE_SECONDS,
+  now: number = Date.now()
+): Promise<boolean> {
+  if (!header) return false;
+
+  let timestamp: number | null = null;
+  const signatures: string[] = [];
+  for (const part of header.split(',')) {
+    const [key, value] = part.split('=', 2).map((s) => s.trim());
+    if (key === 't') timestamp = Number(value);
+    if (key === 'v1' && value) signatures.push(value);
+  }
+
+  if (timestamp === null || !Number.isFinite(timestamp) || signatures.length === 0) return false;
+  if (Math.abs(now / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const digest = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${payload}`));
+  const expected = Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+
+  return signatures.some((signature) => timingSafeEqual(signature, expected));
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+// ============================================================================
+// EVENT STORE
+// ============================================================================
+
+/**
+ * Store the event, or take it over if an earlier attempt failed or died.
+ * The attempts check lets only one concurrent retry win.
+ */
+async function claimEvent(event: StripeEvent): Promise<ClaimResult> {
+  const now = new Date().toISOString();
+
+  const { error } = await supabase.from('stripe_events').insert({
+    id: event.id,
+    event_type: event.type,
+    livemode: event.livemode,
+    payload: event,
+    status: 'processing',
+    attempts: 1,
+    locked_at: now,
+  });
+
+  if (!error) return 'claimed';
+  if (error.code !== '23505') throw error;
+
+  const { data, error: fetchError } = await supabase
+    .from('stripe_events')
+    .select('status, attempts')
+    .eq('id', event.id)
+    .single();
+
+  if (fetchError) throw fetchError;
+  const existing = data as { status: string; attempts: number };
+  if (existing.status === 'processed') return 'processed';
+
+  const staleBefore = new Date(Date.now() - PROCESSING_TIMEOUT_MINUTES * 60 * 1000).toISOString();
+  const { data: claimed, error: claimError } = await supabase
+    .from('stripe_events')
+    .update({
+      status: 'processing',
+      attempts: existing.attempts + 1,
+      locked_at: now,
+      last_error: null,
+    })
+    .eq('id', event.id)
+    .eq('attempts', existing.attempts)
+    .or(`status.eq.failed,locked_at.lt.${staleBefore}`)
+    .select('id');
+
+  if (claimError) throw claimError;
+  return claimed && claimed.length > 0 ? 'claimed' : 'busy';
+}
+
+async function finishEvent(
+  eventId: string,
+  status: 'processed' | 'failed',
+  lastError?: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('stripe_events')
+    .update({
+      status,
+      last_error: lastError ?? null,
+      locked_at: null,
+      processed_at: status === 'processed' ? new Date().toISOString() : null,
+    })
+    .eq('id', eventId);
+
+  if (error) console.error(`Failed to mark Stripe event ${eventId} ${status}:`, error);
+}
+
+// ============================================================================
+// ROUTING
+// ============================================================================
+
+async function routeEvent(event: StripeEvent, env: Env): Promise<void> {
+  if (BILLING_EVENT_PREFIXES.some((prefix) => event.type.startsWith(prefix))) {
+    await billingService.processWebhook(event.id, event.type, event as unknown as Record<string, unknown>);
+    return;
+  }
+
+  switch (event.type) {
+    case 'payment_intent.succeeded': {
+      const input = paymentInputFromIntent(event.data.object);
+      if (!input) break;
+      input.receiptUrl ??= await getReceiptUrl(env, event.data.object.latest_charge);
+      const result = await recordStripePayment(input);
+      if (result.job) {
+        console.log(`Deposit on proposal ${input.proposalId} created job ${result.job.id}`);
+      }
+      break;
+    }
+
+    case 'payment_intent.payment_failed': {
+      const input = paymentInputFromIntent(event.data.object);
+      if (!input) break;
+      const lastError = event.data.object.last_payment_error as { message?: string } | null;
+      await recordFailedPayment({ ...input, failureReason: lastError?.message });
+      break;
+    }
+
+    default:
+      // Stored for the record; nothing to do
+      break;
+  }
+}
+
+/**
+ * Receipt link of an intent's charge. Webhook payloads carry the charge as
+ * an id, so it is fetched; a failed fetch throws and Stripe retries the
+ * event before anything is recorded.
+ */
+async function getReceiptUrl(env: Env, latestCharge: unknown): Promise<string | undefined> {
+  if (typeof latestCharge !== 'string') return undefined;
+  const charge = await stripeRequest(env, 'GET', `/charges/${encodeURIComponent(latestCharge)}`);
+  return (charge.receipt_url as string | null) || undefined;
+}
+
+/**
+ * Read a PaymentIntent created for a proposal. Intents without our
+ * metadata (e.g. made in the Stripe dashboard) are ignored.
+ */
+function paymentInputFromIntent(intent: Record<string, unknown>): StripePaymentInput | null {
+  const metadata = (intent.metadata || {}) as Partial<PaymentIntentMetadata>;
+  if (!metadata.org_id || !metadata.proposal_id) {
+    console.log(`PaymentIntent ${intent.id} has no proposal metadata; ignoring`);
+    return null;
+  }
+
+  const charge = (intent.latest_charge && typeof intent.latest_charge === 'object'
+    ? intent.latest_charge
+    : null) as { receipt_url?: string } | null;
+  const minorUnits = (intent.amount_received || intent.amount) as number;
+
+  return {
+    orgId: metadata.org_id,
+    proposalId: metadata.proposal_id,
+    paymentType: metadata.payment_type === 'deposit' ? 'deposit' : 'installment',
+    installmentId: metadata.installment_id || undefined,
+    amount: minorUnits / 100,
+    currency: String(intent.currency || 'usd'),
+    stripePaymentIntentId: intent.id as string,
+    receiptUrl: charge?.receipt_url,
+  };
+}
@@ -0,0 +1,244 @@
+/**
+ * Sommer's Proposal System - Weather Rescheduling
+ * Daily forecast recheck for upcoming jobs, and the client and crew
+ * notifications that follow a move
+ */
+
+import type { Env } from './api';
+import { supabase } from '../src/lib/supabase';
+import {
+  runWeatherReschedule,
+  getRescheduleSuggestion,
+  markSuggestionNotified,
+  type RescheduleSuggestion,
+  type WeatherRescheduleMode,
+} from '../src/lib/scheduling/weatherRescheduleService';
+import { createNotification } from '../src/lib/notifications/notificationsService';
+import { usageService } from '../src/lib/usage/usageService';
+import { authenticateStaff, unauthorizedResponse } from './auth';
+import { escapeHtml } from './portal';
+import type { Contact, Job } from '../src/lib/database.types';
+
+// ============================================================================
+// CRON
+// ============================================================================
+
+export async function runScheduledWeatherReschedule(env: Env): Promise<void> {
+  const { data: orgs, error } = await supabase
+    .from('organizations')
+    .select('id, weather_reschedule_mode');
+
+  if (error) throw error;
+
+  for (const org of (orgs || []) as { id: string; weather_reschedule_mode: WeatherRescheduleMode | null }[]) {
+    try {
+      const mode: WeatherRescheduleMode = org.weather_reschedule_mode || 'propose';
+      const { suggestions } = await runWeatherReschedule(org.id, {
+        apiKey: env.OPENWEATHERMAP_API_KEY,
+        mode,
+      });
+
+      for (const suggestion of suggestions) {
+        if (suggestion.status === 'applied') {
+          await notifyReschedule(env, suggestion);
+        }
+      }
+
+      await notifyDispatchers(org.id, suggestions);
+    } catch (err) {
+      // One org's bad data or forecast outage should not stop the rest
+      console.error(`Weather reschedule failed for org ${org.id}:`, err);
+    }
+  }
+}
+
+async function notifyDispatchers(orgId: string, suggestions: RescheduleSuggestion[]): Promise<void> {
+  const proposed = suggestions.filter((s) => s.status === 'proposed').length;
+  const applied = suggestions.filter((s) => s.status === 'applied').length;
+
+  if (proposed > 0) {
+    await createNotification(orgId, {
+      type: 'weather_reschedule',
+      title: 'Weather reschedule suggested',
+      message: `${proposed} upcoming job${proposed === 1 ? '' : 's'} fall on unworkable days. Review the suggested moves.`,
+      link: '/scheduling',
+    });
+  }
+
+  if (applied > 0) {
+    await createNotification(orgId, {
+      type: 'weather_reschedule',
+      title: 'Jobs rescheduled for weather',
+      message: `${applied} upcoming job${applied === 1 ? ' was' : 's were'} moved or put on hold. Clients and crews have been notified.`,
+      link: '/scheduling',
+    });
+  }
+}
+
+// ============================================================================
+// NOTIFY ENDPOINT
+// ============================================================================
+
+/**
+ * Sends notifications for a suggestion a dispatcher accepted in the app.
+ * Only accepted, not-yet-notified suggestions in the caller's own org are
+ * sent, once.
+ */
+export async function handleRescheduleNotify(
+  request: Request,
+  env: Env,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  const auth = await authenticateStaff(request, env);
+  if (!auth) return unauthorizedResponse(corsHeaders);
+
+  const { suggestionId } = (await request.json()) as { suggestionId?: string };
+  const suggestion = suggestionId ? await getRescheduleSuggestion(suggestionId) : null;
+
+  if (
+    !suggestion ||
+    suggestion.org_id !== auth.orgId ||
+    suggestion.status !== 'accepted' ||
+    suggestion.notified_at
+  ) {
+    return new Response(JSON.stringify({ error: 'Nothing to notify' }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  await notifyReschedule(env, suggestion);
+
+  return new Response(JSON.stringify({ notified: true }), {
+    status: 200,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+// ============================================================================
+// CLIENT & CREW NOTIFICATIONS
+// ============================================================================
+
+function formatDate(date: string): string {
+  return new Date(`${date}T12:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+
+async function notifyReschedule(env: Env, suggestion: RescheduleSuggestion): Promise<void> {
+  const { data, error } = await supabase
+    .from('jobs')
+    .select(`
+      id, title, address, city, crew_id,
+      contact:contacts(first_name, email, do_not_contact),
+      crew:crews(member_ids)
+    `)
+    .eq('id', suggestion.job_id)
+    .single();
+
+  if (error) throw error;
+  const job = data as Pick<Job, 'id' | 'title' | 'address' | 'city' | 'crew_id'> & {
+    contact: Pick<Contact, 'first_name' | 'email' | 'do_not_contact'> | null;
+    crew: { member_ids: string[] | null } | null;
+  };
+
+  const location = [job.address, job.city].filter(Boolean).join(', ') || job.title;
+  let summary = `on hold from ${formatDate(suggestion.original_date)} until the forecast clears`;
+  if (suggestion.action === 'move') {
+    summary =
+      suggestion.proposed_date === suggestion.original_date
+        ? `taken off weather hold and is back on for ${formatDate(suggestion.proposed_date)}`
+        : `moved from ${formatDate(suggestion.original_date)} to ${formatDate(suggestion.proposed_date!)}`;
+  }
+
+  const contact = job.contact;
+  if (contact?.email && !contact.do_not_contact) {
+    await sendEmail(env, suggestion.org_id, {
+      to: contact.email,
+      subject: suggestion.action === 'move' ? 'Your sealcoating job has been rescheduled' : 'Your sealcoating job is on weather hold',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Hello ${escapeHtml(contact.first_name || 'there')},</h2>
+          <p>Sealcoat needs dry, mild weather to cure, and the forecast for your job at <strong>${escapeHtml(location)}</strong> doesn't allow it.</p>
+          <p>Your job has been <strong>${escapeHtml(summary)}</strong>.</p>
+          <p style="color: #666;">Reason: ${escapeHtml(suggestion.reason)}</p>
+          <p>If the new date doesn't work for you, just reply to this email and we'll find another.</p>
+          <p>Best regards,<br>Sommer's Sealcoating Team</p>
+        </div>
+      `,
+    });
+  }
+
+  const memberIds: string[] = job.crew?.member_ids || [];
+  if (memberIds.length > 0) {
+    const { data: members } = await supabase
+      .from('team_members')
+      .select('phone')
+      .in('id', memberIds);
+
+    const message = `Weather update: ${job.title} (${location}) ${summary}. ${suggestion.reason}`;
+    for (const member of (members || []) as { phone: string | null }[]) {
+      if (member.phone) await sendSMS(env, suggestion.org_id, member.phone, message);
+    }
+  }
+
+  await markSuggestionNotified(suggestion.id);
+}
+
+// Notices count against the org's email and SMS quotas; a blocked or failed
+// send is logged rather than holding up the rest of the reschedule
+async function sendEmail(
+  env: Env,
+  orgId: string,
+  email: { to: string; subject: string; html: string }
+): Promise<void> {
+  try {
+    await usageService.meter(orgId, 'send_email', async () => {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${env.RESEND_API_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          from: "Sommer's Sealcoating <scheduling@sommersealcoating.com>",
+          to: [email.to],
+          subject: email.subject,
+          html: email.html,
+        }),
+      });
+
+      if (!response.ok) throw new Error(await response.text());
+    }, { metadata: { source: 'weather_reschedule' } });
+  } catch (err) {
+    console.error('Reschedule email failed:', err);
+  }
+}
+
+async function sendSMS(env: Env, orgId: string, to: string, message: string): Promise<void> {
+  try {
+    await usageService.meter(orgId, 'send_sms', async () => {
+      const response = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${env.TWILIO_ACCOUNT_SID}/Messages.json`,
+        {
+          method: 'POST',
+          headers: {
+            'Authorization': 'Basic ' + btoa(`${env.TWILIO_ACCOUNT_SID}:${env.TWILIO_AUTH_TOKEN}`),
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: new URLSearchParams({
+            To: to,
+            From: env.TWILIO_PHONE_NUMBER,
+            Body: message,
+          }),
+        }
+      );
+
+      if (!response.ok) throw new Error(await response.text());
+    }, { metadata: { source: 'weather_reschedule' } });
+  } catch (err) {
+    console.error('Reschedule SMS failed:', err);
+  }
+}
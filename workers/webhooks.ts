@@ -0,0 +1,28 @@
+/**
+ * Sommer's Proposal System - Webhook Delivery Cron
+ * Sends queued outbound webhooks and their due retries
+ */
+
+import {
+  runDueWebhookDeliveries,
+  WEBHOOK_CLAIM_BATCH_SIZE,
+} from '../src/lib/integrations/webhookDispatcher';
+
+/** Batches per run; each attempt can wait on a slow endpoint, so this stays small */
+const MAX_BATCHES_PER_RUN = 4;
+
+// ============================================================================
+// CRON
+// ============================================================================
+
+export async function runScheduledWebhookDelivery(): Promise<void> {
+  const workerId = crypto.randomUUID();
+
+  for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+    const summary = await runDueWebhookDeliveries(workerId);
+    if (summary.claimed > 0) {
+      console.log(`Webhook deliveries: ${summary.delivered} delivered, ${summary.retried} retried, ${summary.dead} dead-lettered`);
+    }
+    if (summary.claimed < WEBHOOK_CLAIM_BATCH_SIZE) break;
+  }
+}